@@ -95,6 +95,7 @@ export class CompanyController {
   async getCompany(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
+      this.assertOwnCompany(req, id);
 
       const company = await this.companyService.getCompanyById(id);
 
@@ -112,6 +113,7 @@ export class CompanyController {
   async updateCompany(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
+      this.assertOwnCompany(req, id);
       const sanitizedData = this.sanitizeCompanyData(req.body);
 
       // Validate update payload
@@ -144,6 +146,7 @@ export class CompanyController {
   async deleteCompany(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
+      this.assertOwnCompany(req, id);
 
       await this.companyService.deleteCompany(id);
 
@@ -155,7 +158,7 @@ export class CompanyController {
   }
 
   /**
-   * Lists companies with filtering and pagination
+   * Lists companies with filtering and pagination, limited to the authenticated user's company
    * @route GET /api/v1/companies
    */
   @httpGet('/')
@@ -164,7 +167,10 @@ export class CompanyController {
       const filters = this.parseFilters(req.query);
       const pagination = this.parsePagination(req.query);
 
-      const companies = await this.companyService.listCompanies(filters, pagination);
+      const companies = await this.companyService.listCompanies(
+        { ...filters, id: this.getOwnCompanyId(req) },
+        pagination
+      );
 
       res.status(200).json({
         data: companies.rows,
@@ -179,6 +185,44 @@ export class CompanyController {
     }
   }
 
+  /**
+   * Generates a new identity signing secret for signed identification
+   * @route POST /api/v1/companies/:id/identity-secret
+   */
+  @httpPost('/:id/identity-secret')
+  async rotateIdentitySecret(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      this.assertOwnCompany(req, id);
+
+      const secret = await this.companyService.rotateIdentitySecret(id);
+
+      this.logger.info('Company identity secret rotated', { companyId: id });
+      res.status(201).json({ data: { secret } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Generates a new ingest API key for server-side event ingestion
+   * @route POST /api/v1/companies/:id/ingest-key
+   */
+  @httpPost('/:id/ingest-key')
+  async rotateIngestKey(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      this.assertOwnCompany(req, id);
+
+      const key = await this.companyService.rotateIngestKey(id);
+
+      this.logger.info('Company ingest key rotated', { companyId: id });
+      res.status(201).json({ data: { key } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Updates company settings with validation
    * @route PUT /api/v1/companies/:id/settings
@@ -187,6 +231,7 @@ export class CompanyController {
   async updateCompanySettings(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
+      this.assertOwnCompany(req, id);
       const sanitizedSettings = this.sanitizeCompanyData(req.body);
 
       const company = await this.companyService.updateCompanySettings(id, sanitizedSettings);
@@ -198,6 +243,36 @@ export class CompanyController {
     }
   }
 
+  /**
+   * Ensures members only read and manage the company they belong to
+   * @throws AppError when the company is not the authenticated user's
+   */
+  private assertOwnCompany(req: Request, companyId: string): void {
+    if (this.getOwnCompanyId(req) !== companyId) {
+      throw createError(
+        'Access denied to company',
+        ErrorCodes.FORBIDDEN,
+        ErrorTypes.AUTHORIZATION_ERROR,
+        { companyId }
+      );
+    }
+  }
+
+  /**
+   * Retrieves the company of the authenticated user
+   * @throws AppError when the request carries no company
+   */
+  private getOwnCompanyId(req: Request): string {
+    if (!req.user?.companyId) {
+      throw createError(
+        'Access denied to company',
+        ErrorCodes.FORBIDDEN,
+        ErrorTypes.AUTHORIZATION_ERROR
+      );
+    }
+    return req.user.companyId;
+  }
+
   /**
    * Sanitizes company data to prevent XSS and injection attacks
    */
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Ingestion controller for server-side event pipelines
+ * Records NDJSON event batches authenticated with a company ingest API key
+ * @version 1.0.0
+ */
+
+import {
+  Controller,
+  Post,
+  Body,
+  HttpStatus
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiConsumes
+} from '@nestjs/swagger';
+import { MetricsService } from '@nestjs/metrics';
+
+import { IngestionService } from '../../services/tracking/ingestion.service';
+import { IIngestBatchResult } from '../../interfaces/ingestion.interface';
+import { parseIngestBatch } from '../validators/ingestion.validator';
+
+/**
+ * Endpoints called by customers' backends, scoped to the company owning the API key
+ */
+@Controller('ingest')
+@ApiTags('ingest')
+@ApiSecurity('ingestKey')
+export class IngestionController {
+  constructor(
+    private readonly ingestionService: IngestionService,
+    private readonly metricsService: MetricsService
+  ) {}
+
+  /**
+   * Records a batch of events, one JSON event per line
+   */
+  @Post('batch')
+  @ApiOperation({ summary: 'Ingest a batch of server-side events' })
+  @ApiConsumes('application/x-ndjson')
+  @ApiResponse({ status: HttpStatus.OK, description: 'Batch processed, with the outcome of every line' })
+  @ApiResponse({ status: HttpStatus.BAD_REQUEST, description: 'Batch is empty or too large' })
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Missing or invalid ingest API key' })
+  async ingestBatch(
+    companyId: string,
+    @Body() body: string
+  ): Promise<IIngestBatchResult> {
+    const timer = this.metricsService.startTimer('ingest_batch');
+    try {
+      const lines = parseIngestBatch(body);
+      const result = await this.ingestionService.ingestBatch(companyId, lines);
+      this.metricsService.incrementCounter('ingest_batches_recorded');
+      return result;
+    } finally {
+      timer.end();
+    }
+  }
+}
@@ -14,6 +14,7 @@ import { IntegrationService } from '../../services/integration/integration.servi
 import { validateIntegrationCreate, validateIntegrationUpdate } from '../validators/integration.validator';
 import { createError, formatError } from '../../utils/error.util';
 import { ErrorTypes, ErrorCodes } from '../../constants/error.constants';
+import { CRM_OBJECT, SYNC_MODE, SYNC_TRIGGER, SYNC_RUN_PAGE_SIZE } from '../../constants/integration.constants';
 
 @injectable()
 export class IntegrationController {
@@ -250,13 +251,114 @@ export class IntegrationController {
   }
 
   /**
-   * Triggers synchronization for an integration
+   * Lists the fields of a CRM object of an integration
+   */
+  public async describeCrmObject(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const requestId = req.headers['x-request-id'] || '';
+    const { id, object } = req.params;
+    const companyId = req.user?.companyId;
+
+    try {
+      // Apply rate limiting
+      await this.rateLimiter.consume(req.ip);
+
+      // Validate company access
+      if (!companyId) {
+        throw createError(
+          'Company ID not found in request',
+          ErrorCodes.UNAUTHORIZED,
+          ErrorTypes.AUTHENTICATION_ERROR
+        );
+      }
+
+      const description = await this.integrationService.describeCrmObject(
+        id,
+        companyId,
+        object as CRM_OBJECT
+      );
+
+      this.logger.info('CRM object described successfully', {
+        requestId,
+        integrationId: id,
+        object,
+        duration: Date.now() - startTime
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: description
+      });
+    } catch (error: any) {
+      this.logger.error('CRM object description failed', {
+        requestId,
+        integrationId: id,
+        object,
+        error: error.message,
+        duration: Date.now() - startTime
+      });
+
+      const formattedError = formatError(error);
+      return res.status(formattedError.code).json(formattedError);
+    }
+  }
+
+  /**
+   * Previews the CRM record a visitor would be pushed as under the integration's field mappings
+   */
+  public async previewFieldMappings(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const requestId = req.headers['x-request-id'] || '';
+    const { id } = req.params;
+    const companyId = req.user?.companyId;
+
+    try {
+      // Apply rate limiting
+      await this.rateLimiter.consume(req.ip);
+
+      // Validate company access
+      if (!companyId) {
+        throw createError(
+          'Company ID not found in request',
+          ErrorCodes.UNAUTHORIZED,
+          ErrorTypes.AUTHENTICATION_ERROR
+        );
+      }
+
+      const preview = await this.integrationService.previewFieldMappings(id, companyId, req.body);
+
+      this.logger.info('Field mappings previewed successfully', {
+        requestId,
+        integrationId: id,
+        duration: Date.now() - startTime
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: preview
+      });
+    } catch (error: any) {
+      this.logger.error('Field mapping preview failed', {
+        requestId,
+        integrationId: id,
+        error: error.message,
+        duration: Date.now() - startTime
+      });
+
+      const formattedError = formatError(error);
+      return res.status(formattedError.code).json(formattedError);
+    }
+  }
+
+  /**
+   * Triggers synchronization for an integration, a full resync when requested
    */
   public async syncIntegration(req: Request, res: Response): Promise<Response> {
     const startTime = Date.now();
     const requestId = req.headers['x-request-id'] || '';
     const { id } = req.params;
     const companyId = req.user?.companyId;
+    const mode = req.body?.fullResync ? SYNC_MODE.FULL : SYNC_MODE.DELTA;
 
     try {
       // Apply rate limiting
@@ -275,22 +377,28 @@ export class IntegrationController {
       this.logger.info('Starting integration sync', {
         requestId,
         integrationId: id,
-        companyId
+        companyId,
+        mode
       });
 
       // Trigger sync
-      await this.integrationService.syncIntegration(id, companyId);
+      const run = await this.integrationService.syncIntegration(id, companyId, {
+        type: SYNC_TRIGGER.USER,
+        userId: req.user?.id
+      }, mode);
 
       // Log success
       this.logger.info('Integration sync completed successfully', {
         requestId,
         integrationId: id,
+        syncId: run.id,
         duration: Date.now() - startTime
       });
 
       return res.status(200).json({
         success: true,
-        message: 'Synchronization completed successfully'
+        message: 'Synchronization completed successfully',
+        data: run
       });
     } catch (error: any) {
       this.logger.error('Integration sync failed', {
@@ -305,4 +413,115 @@ export class IntegrationController {
       return res.status(formattedError.code).json(formattedError);
     }
   }
+
+  /**
+   * Retrieves a page of an integration's sync history
+   */
+  public async getSyncRuns(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const requestId = req.headers['x-request-id'] || '';
+    const { id } = req.params;
+    const { page = 1, limit = SYNC_RUN_PAGE_SIZE } = req.query;
+    const companyId = req.user?.companyId;
+
+    try {
+      // Apply rate limiting
+      await this.rateLimiter.consume(req.ip);
+
+      // Validate company access
+      if (!companyId) {
+        throw createError(
+          'Company ID not found in request',
+          ErrorCodes.UNAUTHORIZED,
+          ErrorTypes.AUTHENTICATION_ERROR
+        );
+      }
+
+      const runs = await this.integrationService.getSyncRuns(
+        id,
+        companyId,
+        Number(page),
+        Number(limit)
+      );
+
+      this.logger.info('Sync history retrieved successfully', {
+        requestId,
+        integrationId: id,
+        count: runs.items.length,
+        duration: Date.now() - startTime
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: runs
+      });
+    } catch (error: any) {
+      this.logger.error('Sync history retrieval failed', {
+        requestId,
+        integrationId: id,
+        error: error.message,
+        duration: Date.now() - startTime
+      });
+
+      const formattedError = formatError(error);
+      return res.status(formattedError.code).json(formattedError);
+    }
+  }
+
+  /**
+   * Pushes the records a sync run failed on again
+   */
+  public async retryFailedRecords(req: Request, res: Response): Promise<Response> {
+    const startTime = Date.now();
+    const requestId = req.headers['x-request-id'] || '';
+    const { id, syncId } = req.params;
+    const companyId = req.user?.companyId;
+
+    try {
+      // Apply rate limiting
+      await this.rateLimiter.consume(req.ip);
+
+      // Validate company access
+      if (!companyId) {
+        throw createError(
+          'Company ID not found in request',
+          ErrorCodes.UNAUTHORIZED,
+          ErrorTypes.AUTHENTICATION_ERROR
+        );
+      }
+
+      this.logger.info('Retrying failed sync records', {
+        requestId,
+        integrationId: id,
+        syncId
+      });
+
+      const run = await this.integrationService.retryFailedRecords(id, syncId, companyId, req.user?.id);
+
+      this.logger.info('Failed sync records retried successfully', {
+        requestId,
+        integrationId: id,
+        syncId,
+        retryId: run.id,
+        duration: Date.now() - startTime
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: run
+      });
+    } catch (error: any) {
+      this.logger.error('Failed sync records retry failed', {
+        requestId,
+        integrationId: id,
+        syncId,
+        error: error.message,
+        stack: error.stack,
+        duration: Date.now() - startTime
+      });
+
+      const formattedError = formatError(error);
+      return res.status(formattedError.code).json(formattedError);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,153 @@
+/**
+ * @fileoverview Tracking controller for the embeddable browser SDK
+ * Serves tracking settings to customer sites and records the events and identifications they send
+ * @version 1.0.0
+ */
+
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  HttpStatus
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam
+} from '@nestjs/swagger';
+import { RateLimit } from '@nestjs/throttler';
+import { MetricsService } from '@nestjs/metrics';
+
+import { TrackingService } from '../../services/tracking/tracking.service';
+import { IVisitor, IIdentificationData } from '../../interfaces/visitor.interface';
+import {
+  ITrackingConfig,
+  ITrackingBatch,
+  ITrackingBatchResult,
+  ITrackingConsent,
+  ITrackingConsentResult,
+  ITrackingIdentificationResult
+} from '../../interfaces/tracking.interface';
+
+/**
+ * Public endpoints called by the SDK from customer sites, scoped by company ID
+ */
+@Controller('tracking')
+@ApiTags('tracking')
+export class TrackingController {
+  constructor(
+    private readonly trackingService: TrackingService,
+    private readonly metricsService: MetricsService
+  ) {}
+
+  /**
+   * Retrieves the tracking settings the SDK applies on a company's sites
+   */
+  @Get('companies/:companyId/config')
+  @ApiOperation({ summary: 'Get SDK tracking configuration' })
+  @ApiParam({ name: 'companyId', description: 'Company UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Configuration retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Company not found' })
+  async getTrackingConfig(@Param('companyId') companyId: string): Promise<ITrackingConfig> {
+    return this.trackingService.getTrackingConfig(companyId);
+  }
+
+  /**
+   * Records a batch of page views and activity events
+   */
+  @Post('companies/:companyId/events')
+  @RateLimit({ ttl: 60, limit: 300 })
+  @ApiOperation({ summary: 'Record SDK tracking events' })
+  @ApiParam({ name: 'companyId', description: 'Company UUID' })
+  @ApiResponse({ status: HttpStatus.ACCEPTED, description: 'Events recorded' })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Visitor belongs to another company' })
+  async trackEvents(
+    @Param('companyId') companyId: string,
+    @Body() batch: ITrackingBatch,
+    ipAddress: string
+  ): Promise<ITrackingBatchResult> {
+    const timer = this.metricsService.startTimer('tracking_batch');
+    try {
+      const result = await this.trackingService.trackEvents(companyId, batch, ipAddress);
+      this.metricsService.incrementCounter('tracking_batches_recorded');
+      return result;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Identifies a tracked visitor from details entered on the company's site
+   */
+  @Post('companies/:companyId/identify')
+  @RateLimit({ ttl: 60, limit: 100 })
+  @ApiOperation({ summary: 'Identify a tracked visitor' })
+  @ApiParam({ name: 'companyId', description: 'Company UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Visitor identified successfully' })
+  async identifyVisitor(
+    @Param('companyId') companyId: string,
+    @Body('visitorId') visitorId: string,
+    @Body() data: IIdentificationData
+  ): Promise<ITrackingIdentificationResult> {
+    const timer = this.metricsService.startTimer('tracking_identification');
+    try {
+      return this.toIdentificationResult(await this.trackingService.identifyVisitor(companyId, visitorId, data));
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Identifies a tracked visitor from a payload signed by the company's backend
+   */
+  @Post('companies/:companyId/identify/signed')
+  @RateLimit({ ttl: 60, limit: 100 })
+  @ApiOperation({ summary: 'Identify a tracked visitor from a signed identity token' })
+  @ApiParam({ name: 'companyId', description: 'Company UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Visitor identified successfully' })
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Invalid or expired signed identity token' })
+  async identifySignedVisitor(
+    @Param('companyId') companyId: string,
+    @Body('visitorId') visitorId: string,
+    @Body('token') token: string
+  ): Promise<ITrackingIdentificationResult> {
+    const timer = this.metricsService.startTimer('tracking_signed_identification');
+    try {
+      return this.toIdentificationResult(await this.trackingService.identifySignedVisitor(companyId, visitorId, token));
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Records the consent decisions a visitor made in the company's consent banner
+   */
+  @Post('companies/:companyId/consent')
+  @RateLimit({ ttl: 60, limit: 100 })
+  @ApiOperation({ summary: 'Record visitor consent decisions' })
+  @ApiParam({ name: 'companyId', description: 'Company UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Consent recorded successfully' })
+  @ApiResponse({ status: HttpStatus.FORBIDDEN, description: 'Visitor belongs to another company' })
+  async updateConsent(
+    @Param('companyId') companyId: string,
+    @Body() request: ITrackingConsent,
+    ipAddress: string
+  ): Promise<ITrackingConsentResult> {
+    const timer = this.metricsService.startTimer('tracking_consent');
+    try {
+      return await this.trackingService.updateConsent(companyId, request, ipAddress);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Keeps the visitor's profile, enrichment and consent out of responses sent to customer sites
+   */
+  private toIdentificationResult(visitor: IVisitor): ITrackingIdentificationResult {
+    return { id: visitor.id, status: visitor.status };
+  }
+}
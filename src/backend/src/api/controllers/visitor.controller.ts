@@ -31,11 +31,40 @@ import { RateLimit } from '@nestjs/throttler';
 import { MetricsService } from '@nestjs/metrics';
 
 import { VisitorService } from '../../services/visitor/visitor.service';
+import { IdentityGraphService } from '../../services/identity/identityGraph.service';
+import { IdentityService } from '../../services/identity/identity.service';
+import { LeadScoringService } from '../../services/scoring/leadScoring.service';
+import { AccountService } from '../../services/visitor/account.service';
+import { SessionService } from '../../services/tracking/session.service';
+import { AttributionService } from '../../services/tracking/attribution.service';
+import { TrafficQualityService } from '../../services/tracking/trafficQuality.service';
+import { ConsentService } from '../../services/tracking/consent.service';
+import { GoalService } from '../../services/tracking/goal.service';
+import { ContentGroupService } from '../../services/tracking/contentGroup.service';
 import {
   IVisitor,
   IVisitorMetadata,
-  IEnrichedData
+  IEnrichedData,
+  IMergedVisitorProfile
 } from '../../interfaces/visitor.interface';
+import { IScoreHistoryEntry } from '../../interfaces/scoring.interface';
+import { IPaginatedSessions } from '../../interfaces/session.interface';
+import { EnrichableField, IFieldOverrideInput } from '../../interfaces/enrichment.interface';
+import { IAccountSummary, AccountSortField } from '../../interfaces/account.interface';
+import { IAttributionReport } from '../../interfaces/attribution.interface';
+import { IConsentExportQuery, IConsentPurposes, IConsentRecord } from '../../interfaces/consent.interface';
+import {
+  IGoalDefinition,
+  IFunnelDefinition,
+  IGoalReport,
+  IGoalReportQuery,
+  IFunnelReport,
+  IFunnelReportQuery
+} from '../../interfaces/goal.interface';
+import { IContentGroupReport, IContentReportQuery } from '../../interfaces/content.interface';
+import { ICP_FIT_TIER } from '../../constants/icp.constants';
+import { ATTRIBUTION_MODEL } from '../../constants/attribution.constants';
+import { FUNNEL_SEGMENT } from '../../constants/goal.constants';
 import { validateVisitorMetadata, validateEnrichedData } from '../validators/visitor.validator';
 import { VISITOR_STATUS } from '../../constants/visitor.constants';
 import { createError } from '../../utils/error.util';
@@ -48,7 +77,17 @@ import { ErrorTypes, ErrorCodes } from '../../constants/error.constants';
 export class VisitorController {
   constructor(
     private readonly visitorService: VisitorService,
-    private readonly metricsService: MetricsService
+    private readonly metricsService: MetricsService,
+    private readonly identityGraphService: IdentityGraphService,
+    private readonly leadScoringService: LeadScoringService,
+    private readonly accountService: AccountService,
+    private readonly identityService: IdentityService,
+    private readonly sessionService: SessionService,
+    private readonly attributionService: AttributionService,
+    private readonly trafficQualityService: TrafficQualityService,
+    private readonly consentService: ConsentService,
+    private readonly goalService: GoalService,
+    private readonly contentGroupService: ContentGroupService
   ) {}
 
   /**
@@ -90,6 +129,277 @@ export class VisitorController {
     }
   }
 
+  /**
+   * Lists company accounts with visitor engagement rolled up per organization domain
+   */
+  @Get('accounts')
+  @ApiOperation({ summary: 'List company accounts' })
+  @ApiQuery({ name: 'companyId', required: true })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiQuery({ name: 'sortBy', required: false })
+  @ApiQuery({ name: 'search', required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Accounts retrieved successfully' })
+  async getAccounts(
+    @Query('companyId') companyId: string,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Query('sortBy') sortBy?: AccountSortField,
+    @Query('search') search?: string
+  ): Promise<{ accounts: IAccountSummary[]; total: number }> {
+    const timer = this.metricsService.startTimer('visitor_accounts_list');
+    try {
+      return await this.accountService.getAccounts(companyId, { page, limit, sortBy, search });
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Reports identified and enriched visitors by marketing channel and campaign
+   */
+  @Get('attribution')
+  @ApiOperation({ summary: 'Get marketing attribution report' })
+  @ApiQuery({ name: 'companyId', required: true })
+  @ApiQuery({ name: 'model', required: false, enum: ATTRIBUTION_MODEL })
+  @ApiQuery({ name: 'since', required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Attribution report retrieved successfully' })
+  async getAttributionReport(
+    @Query('companyId') companyId: string,
+    @Query('model') model: ATTRIBUTION_MODEL = ATTRIBUTION_MODEL.FIRST_TOUCH,
+    @Query('since') since?: Date
+  ): Promise<IAttributionReport> {
+    const timer = this.metricsService.startTimer('visitor_attribution_report');
+    try {
+      return await this.attributionService.getAttributionReport(companyId, {
+        model,
+        ...(since && { since: new Date(since) })
+      });
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Lists the conversion goals and funnels the company has defined
+   */
+  @Get('goals')
+  @ApiOperation({ summary: 'List conversion goals and funnels' })
+  @ApiQuery({ name: 'companyId', required: true })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Goals and funnels retrieved successfully' })
+  async getGoalDefinitions(
+    @Query('companyId') companyId: string
+  ): Promise<{ goals: IGoalDefinition[]; funnels: IFunnelDefinition[] }> {
+    const timer = this.metricsService.startTimer('visitor_goal_definitions');
+    try {
+      return await this.goalService.getDefinitions(companyId);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Reports completions and conversion rates of the company's goals
+   */
+  @Get('goals/report')
+  @ApiOperation({ summary: 'Get conversion goal report' })
+  @ApiQuery({ name: 'companyId', required: true })
+  @ApiQuery({ name: 'from', required: false })
+  @ApiQuery({ name: 'to', required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Goal report retrieved successfully' })
+  async getGoalReport(
+    @Query('companyId') companyId: string,
+    @Query() query: IGoalReportQuery
+  ): Promise<IGoalReport> {
+    const timer = this.metricsService.startTimer('visitor_goal_report');
+    try {
+      return await this.goalService.getGoalReport(companyId, query);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Reports conversion, drop-off and time-to-convert of a funnel, optionally segmented
+   */
+  @Get('funnels/:funnelId/report')
+  @ApiOperation({ summary: 'Get funnel conversion report' })
+  @ApiParam({ name: 'funnelId', required: true })
+  @ApiQuery({ name: 'companyId', required: true })
+  @ApiQuery({ name: 'from', required: false })
+  @ApiQuery({ name: 'to', required: false })
+  @ApiQuery({ name: 'segmentBy', required: false, enum: FUNNEL_SEGMENT })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Funnel report retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Funnel not found' })
+  async getFunnelReport(
+    @Query('companyId') companyId: string,
+    @Param('funnelId') funnelId: string,
+    @Query() query: IFunnelReportQuery
+  ): Promise<IFunnelReport> {
+    const timer = this.metricsService.startTimer('visitor_funnel_report');
+    try {
+      return await this.goalService.getFunnelReport(companyId, funnelId, query);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Reports page views, viewing visitors and top pages of the company's content groups
+   */
+  @Get('content-groups/report')
+  @ApiOperation({ summary: 'Get content group report' })
+  @ApiQuery({ name: 'companyId', required: true })
+  @ApiQuery({ name: 'from', required: false })
+  @ApiQuery({ name: 'to', required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Content group report retrieved successfully' })
+  async getContentGroupReport(
+    @Query('companyId') companyId: string,
+    @Query() query: IContentReportQuery
+  ): Promise<IContentGroupReport> {
+    const timer = this.metricsService.startTimer('visitor_content_group_report');
+    try {
+      return await this.contentGroupService.getContentGroupReport(companyId, query);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Lists visitors flagged as bots, which default visitor lists exclude
+   */
+  @Get('bots')
+  @ApiOperation({ summary: 'List visitors flagged as bots' })
+  @ApiQuery({ name: 'companyId', required: true })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Bots retrieved successfully' })
+  async getBots(
+    @Query('companyId') companyId: string,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20
+  ): Promise<{ visitors: IVisitor[]; total: number }> {
+    const timer = this.metricsService.startTimer('visitor_bots_list');
+    try {
+      return await this.trafficQualityService.getBots(companyId, page, limit);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Unflags a visitor reviewed as human so it shows in visitor lists again
+   */
+  @Delete(':id/bot-flag')
+  @ApiOperation({ summary: 'Unflag a visitor flagged as a bot' })
+  @ApiParam({ name: 'id', description: 'Visitor UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Visitor unflagged successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Visitor not found' })
+  async unflagBot(
+    @Query('companyId') companyId: string,
+    @Param('id') id: string,
+    userId: string
+  ): Promise<IVisitor> {
+    const timer = this.metricsService.startTimer('visitor_bot_unflag');
+    try {
+      const visitor = await this.trafficQualityService.unflagVisitor(companyId, id, userId);
+      this.metricsService.incrementCounter('visitor_bots_unflagged');
+      return visitor;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Exports the company's consent history for audits, oldest first
+   */
+  @Get('consent/export')
+  @ApiOperation({ summary: 'Export consent history' })
+  @ApiQuery({ name: 'companyId', required: true })
+  @ApiQuery({ name: 'since', required: false })
+  @ApiQuery({ name: 'until', required: false })
+  @ApiQuery({ name: 'visitorId', required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Consent history exported successfully' })
+  async exportConsentHistory(
+    @Query('companyId') companyId: string,
+    @Query() query: IConsentExportQuery
+  ): Promise<IConsentRecord[]> {
+    const timer = this.metricsService.startTimer('visitor_consent_export');
+    try {
+      return await this.consentService.exportConsentHistory(companyId, query);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Retrieves the consent history of a visitor, most recent first
+   */
+  @Get(':id/consent')
+  @ApiOperation({ summary: 'Get visitor consent history' })
+  @ApiParam({ name: 'id', description: 'Visitor UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Consent history retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Visitor not found' })
+  async getConsentHistory(
+    @Query('companyId') companyId: string,
+    @Param('id') id: string
+  ): Promise<IConsentRecord[]> {
+    const timer = this.metricsService.startTimer('visitor_consent_history');
+    try {
+      return await this.consentService.getConsentHistory(companyId, id);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Records consent decisions on a visitor's behalf
+   */
+  @Put(':id/consent')
+  @ApiOperation({ summary: 'Record visitor consent decisions' })
+  @ApiParam({ name: 'id', description: 'Visitor UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Consent recorded successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Visitor not found' })
+  async updateConsent(
+    @Query('companyId') companyId: string,
+    @Param('id') id: string,
+    @Body('purposes') purposes: IConsentPurposes,
+    userId: string
+  ): Promise<IVisitor> {
+    const timer = this.metricsService.startTimer('visitor_consent_update');
+    try {
+      const visitor = await this.consentService.recordAdminConsent(companyId, id, purposes, userId);
+      this.metricsService.incrementCounter('visitor_consent_updated');
+      return visitor;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Lists the visitors belonging to an account
+   */
+  @Get('accounts/:domain/visitors')
+  @ApiOperation({ summary: 'List account visitors' })
+  @ApiParam({ name: 'domain', description: 'Account domain' })
+  @ApiQuery({ name: 'companyId', required: true })
+  @ApiQuery({ name: 'page', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Account visitors retrieved successfully' })
+  async getAccountVisitors(
+    @Query('companyId') companyId: string,
+    @Param('domain') domain: string,
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20
+  ): Promise<{ visitors: IVisitor[]; total: number }> {
+    const timer = this.metricsService.startTimer('visitor_account_visitors_list');
+    try {
+      return await this.accountService.getAccountVisitors(companyId, domain, page, limit);
+    } finally {
+      timer.end();
+    }
+  }
+
   /**
    * Retrieves visitor details with caching and security checks
    */
@@ -115,6 +425,119 @@ export class VisitorController {
     }
   }
 
+  /**
+   * Retrieves the merged cross-device profile a visitor belongs to
+   */
+  @Get(':id/profile')
+  @ApiOperation({ summary: 'Get merged visitor profile with linked devices' })
+  @ApiParam({ name: 'id', description: 'Visitor UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Profile retrieved successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Visitor not found' })
+  async getVisitorProfile(
+    @Query('companyId') companyId: string,
+    @Param('id') id: string
+  ): Promise<IMergedVisitorProfile> {
+    const timer = this.metricsService.startTimer('visitor_profile_retrieval');
+    try {
+      return await this.identityGraphService.getMergedProfile(companyId, id);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Retrieves the lead score history of a visitor, most recent first
+   */
+  @Get(':id/score-history')
+  @ApiOperation({ summary: 'Get visitor lead score history' })
+  @ApiParam({ name: 'id', description: 'Visitor UUID' })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Score history retrieved successfully' })
+  async getScoreHistory(
+    @Query('companyId') companyId: string,
+    @Param('id') id: string,
+    @Query('limit') limit?: number
+  ): Promise<IScoreHistoryEntry[]> {
+    const timer = this.metricsService.startTimer('visitor_score_history_retrieval');
+    try {
+      return await this.leadScoringService.getScoreHistory(companyId, id, limit);
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Retrieves the sessions of a visitor, most recent first, with their activities
+   */
+  @Get(':id/sessions')
+  @ApiOperation({ summary: 'Get visitor sessions' })
+  @ApiParam({ name: 'id', description: 'Visitor UUID' })
+  @ApiQuery({ name: 'cursor', required: false })
+  @ApiQuery({ name: 'limit', required: false })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Sessions retrieved successfully' })
+  async getVisitorSessions(
+    @Query('companyId') companyId: string,
+    @Param('id') id: string,
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: number
+  ): Promise<IPaginatedSessions> {
+    const timer = this.metricsService.startTimer('visitor_sessions_retrieval');
+    try {
+      return await this.sessionService.getVisitorSessions(companyId, id, { cursor, limit });
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Identifies a visitor from a payload signed by the customer's backend
+   * Authenticated by the signature rather than a user session
+   */
+  @Post(':id/identify/signed')
+  @RateLimit({ ttl: 60, limit: 100 })
+  @ApiOperation({ summary: 'Identify visitor from a signed identity token' })
+  @ApiParam({ name: 'id', description: 'Visitor UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Visitor identified successfully' })
+  @ApiResponse({ status: HttpStatus.UNAUTHORIZED, description: 'Invalid or expired signed identity token' })
+  async identifySignedVisitor(
+    @Param('id') id: string,
+    @Body('token') token: string
+  ): Promise<IVisitor> {
+    const timer = this.metricsService.startTimer('visitor_signed_identification');
+    try {
+      const visitor = await this.identityService.identifySignedVisitor(id, token);
+      this.metricsService.incrementCounter('visitors_signed_identified');
+      return visitor;
+    } catch (error) {
+      this.metricsService.incrementCounter('visitor_signed_identification_errors');
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Undoes an identity graph merge, splitting the visitor records apart again
+   */
+  @Post('merges/:mergeId/undo')
+  @ApiOperation({ summary: 'Undo a visitor merge' })
+  @ApiParam({ name: 'mergeId', description: 'Merge UUID' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Merge undone successfully' })
+  @ApiResponse({ status: HttpStatus.CONFLICT, description: 'Merge already undone' })
+  async undoMerge(
+    @Query('companyId') companyId: string,
+    @Param('mergeId') mergeId: string
+  ): Promise<IMergedVisitorProfile> {
+    const timer = this.metricsService.startTimer('visitor_merge_undo');
+    try {
+      const profile = await this.identityGraphService.undoMerge(companyId, mergeId);
+      this.metricsService.incrementCounter('visitor_merges_undone');
+      return profile;
+    } finally {
+      timer.end();
+    }
+  }
+
   /**
    * Lists company visitors with pagination and filtering
    */
@@ -124,18 +547,33 @@ export class VisitorController {
   @ApiQuery({ name: 'page', required: false })
   @ApiQuery({ name: 'limit', required: false })
   @ApiQuery({ name: 'status', required: false, enum: VISITOR_STATUS })
+  @ApiQuery({ name: 'minScore', required: false })
+  @ApiQuery({ name: 'icpTier', required: false, description: 'Comma-separated ICP fit tiers' })
+  @ApiQuery({ name: 'event', required: false, description: 'Custom event the visitors performed' })
+  @ApiQuery({ name: 'contentGroup', required: false, description: 'Content group the visitors viewed' })
+  @ApiQuery({ name: 'sortBy', required: false, enum: ['lastSeen', 'score'] })
   async getCompanyVisitors(
     @Query('companyId') companyId: string,
     @Query('page') page: number = 1,
     @Query('limit') limit: number = 20,
-    @Query('status') status?: VISITOR_STATUS
+    @Query('status') status?: VISITOR_STATUS,
+    @Query('minScore') minScore?: number,
+    @Query('icpTier') icpTier?: string,
+    @Query('event') event?: string,
+    @Query('contentGroup') contentGroup?: string,
+    @Query('sortBy') sortBy?: 'lastSeen' | 'score'
   ): Promise<{ visitors: IVisitor[]; total: number }> {
     const timer = this.metricsService.startTimer('visitors_list');
     try {
       return await this.visitorService.getCompanyVisitors(companyId, {
         page,
         limit,
-        status
+        status,
+        minScore,
+        icpTiers: icpTier ? icpTier.split(',') as ICP_FIT_TIER[] : undefined,
+        customEvent: event,
+        contentGroup,
+        sortBy
       });
     } finally {
       timer.end();
@@ -206,6 +644,55 @@ export class VisitorController {
     }
   }
 
+  /**
+   * Locks an enriched field to an accepted provider candidate or a manually entered value
+   */
+  @Put(':id/enrichment/fields/:field')
+  @ApiOperation({ summary: 'Override an enriched field and lock it against re-enrichment' })
+  @ApiParam({ name: 'id', description: 'Visitor UUID' })
+  @ApiParam({ name: 'field', description: 'Enriched field to lock' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Field locked successfully' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Provider supplied no candidate for the field' })
+  async overrideEnrichedField(
+    @Query('companyId') companyId: string,
+    @Param('id') id: string,
+    @Param('field') field: EnrichableField,
+    @Body() input: IFieldOverrideInput,
+    userId: string
+  ): Promise<IVisitor> {
+    const timer = this.metricsService.startTimer('visitor_enrichment_override');
+    try {
+      const visitor = await this.identityService.overrideEnrichedField(companyId, id, field, input, userId);
+      this.metricsService.incrementCounter(
+        input.provider ? 'enrichment_candidates_accepted' : 'enrichment_manual_overrides'
+      );
+      return visitor;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Unlocks an enriched field so re-enrichment resolves it from providers again
+   */
+  @Delete(':id/enrichment/fields/:field')
+  @ApiOperation({ summary: 'Release an enriched field override' })
+  @ApiParam({ name: 'id', description: 'Visitor UUID' })
+  @ApiParam({ name: 'field', description: 'Enriched field to unlock' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Field unlocked successfully' })
+  async releaseEnrichedField(
+    @Query('companyId') companyId: string,
+    @Param('id') id: string,
+    @Param('field') field: EnrichableField
+  ): Promise<IVisitor> {
+    const timer = this.metricsService.startTimer('visitor_enrichment_release');
+    try {
+      return await this.identityService.releaseEnrichedField(companyId, id, field);
+    } finally {
+      timer.end();
+    }
+  }
+
   /**
    * Deletes visitor data with GDPR compliance
    */
@@ -11,11 +11,17 @@ import rateLimit from 'express-rate-limit'; // v6.x
 // Internal imports
 import { IJwtPayload, UserRole } from '../../interfaces/auth.interface';
 import JwtService from '../../services/auth/jwt.service';
+import { CompanyRepository } from '../../db/repositories/company.repository';
 import { ErrorTypes } from '../../constants/error.constants';
+import { INGEST_KEY_PREFIX } from '../../constants/ingestion.constants';
+import { hashApiKey } from '../../utils/crypto.util';
 
 // Initialize JWT service
 const jwtService = new JwtService();
 
+// Initialize company repository for ingest key lookups
+const companyRepository = new CompanyRepository();
+
 // Configure rate limiting for authentication attempts
 export const authRateLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -91,6 +97,51 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Request authenticated with a company ingest API key
+ */
+export interface IngestRequest extends Request {
+  company?: {
+    id: string;
+  };
+}
+
+/**
+ * Authentication middleware for server-side ingestion
+ * Accepts the company ingest API key as Bearer token or in the X-Api-Key header
+ */
+export const authenticateIngestKey = async (
+  req: IngestRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const authHeader = req.headers.authorization;
+    const apiKey = authHeader?.startsWith('Bearer ')
+      ? authHeader.split(' ')[1]
+      : req.headers['x-api-key'];
+    if (typeof apiKey !== 'string' || !apiKey.startsWith(INGEST_KEY_PREFIX)) {
+      throw new Error(ErrorTypes.AUTHENTICATION_ERROR);
+    }
+
+    const company = await companyRepository.findByIngestKeyHash(hashApiKey(apiKey));
+    if (!company) {
+      throw new Error(ErrorTypes.AUTHENTICATION_ERROR);
+    }
+
+    req.company = { id: company.id };
+    next();
+  } catch (error: any) {
+    const errorResponse = {
+      error: ErrorTypes.AUTHENTICATION_ERROR,
+      timestamp: new Date().toISOString(),
+      requestId: req.headers['x-request-id'] || 'unknown'
+    };
+
+    res.status(401).json(errorResponse);
+  }
+};
+
 /**
  * Role hierarchy mapping for authorization checks
  */
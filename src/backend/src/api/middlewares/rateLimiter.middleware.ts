@@ -10,6 +10,7 @@ import crypto from 'crypto';
 const RATE_LIMIT_PREFIX = 'rate_limit:';
 const RATE_LIMIT_WINDOW = 900; // 15 minutes in seconds
 const ABUSE_THRESHOLD = 5; // Number of consecutive limit hits before triggering abuse detection
+const INGEST_PATH_PREFIX = '/api/v1/ingest/';
 
 /**
  * Interface for rate limit configuration by role
@@ -88,6 +89,11 @@ export const rateLimiter = async (
       return next();
     }
 
+    // Ingestion is limited per company by its own router, pipelines often share egress IPs
+    if (req.path.startsWith(INGEST_PATH_PREFIX)) {
+      return next();
+    }
+
     // Generate rate limit key
     const rateLimitKey = generateRateLimitKey(ip, companyId, userId, endpoint);
 
@@ -46,7 +46,7 @@ function configureCompanyRoutes(): Router {
 
   /**
    * @route GET /companies
-   * @description List all companies with pagination and filtering
+   * @description List the authenticated user's company with pagination and filtering
    * @access Admin, Manager
    */
   router.get(
@@ -148,6 +148,40 @@ function configureCompanyRoutes(): Router {
     }
   );
 
+  /**
+   * @route POST /companies/:id/identity-secret
+   * @description Generate a new identity signing secret, invalidating the previous one
+   * @access Admin only
+   */
+  router.post(
+    '/:id/identity-secret',
+    authorize(ADMIN_ROLES),
+    async (req, res, next) => {
+      try {
+        await companyController.rotateIdentitySecret(req, res, next);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  /**
+   * @route POST /companies/:id/ingest-key
+   * @description Generate a new ingest API key for server-side events, revoking the previous one
+   * @access Admin only
+   */
+  router.post(
+    '/:id/ingest-key',
+    authorize(ADMIN_ROLES),
+    async (req, res, next) => {
+      try {
+        await companyController.rotateIngestKey(req, res, next);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   return router;
 }
 
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Ingestion routes for server-side event pipelines
+ * Authenticated with a company ingest API key instead of user sessions, and rate limited
+ * per company rather than per IP since pipelines often share egress addresses
+ * @version 1.0.0
+ */
+
+import express, { Router } from 'express';
+import { RateLimiter } from 'rate-limiter-flexible';
+import { IngestionController } from '../controllers/ingestion.controller';
+import { authenticateIngestKey, IngestRequest } from '../middlewares/auth.middleware';
+import { INGEST_MAX_BODY_SIZE } from '../../constants/ingestion.constants';
+
+// Initialize rate limiter for ingestion, keyed by company
+const ingestRateLimiter = new RateLimiter({
+  points: 120, // Number of batches
+  duration: 60, // Per 60 seconds
+  blockDuration: 60 // Block for 1 minute if exceeded
+});
+
+// Initialize router
+const ingestionRouter = Router();
+
+// Initialize controller
+const ingestionController = new IngestionController();
+
+/**
+ * @route POST /ingest/batch
+ * @desc Record a batch of events sent as NDJSON, one event per line, with the outcome of every line
+ * @access Private - Requires a company ingest API key
+ */
+ingestionRouter.post('/batch',
+  authenticateIngestKey,
+  express.text({ type: ['application/x-ndjson', 'text/plain'], limit: INGEST_MAX_BODY_SIZE }),
+  async (req: IngestRequest, res, next) => {
+    try {
+      const companyId = req.company!.id;
+      await ingestRateLimiter.consume(companyId);
+      const result = await ingestionController.ingestBatch(
+        companyId,
+        typeof req.body === 'string' ? req.body : ''
+      );
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default ingestionRouter;
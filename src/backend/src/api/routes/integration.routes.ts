@@ -15,7 +15,15 @@ import rateLimit from 'express-rate-limit'; // ^6.7.x
 import { IntegrationController } from '../controllers/integration.controller';
 import { authenticate, authorize } from '../middlewares/auth.middleware';
 import { validateRequest } from '../middlewares/validation.middleware';
-import { validateIntegrationCreate, validateIntegrationUpdate } from '../validators/integration.validator';
+import {
+  validateIntegrationCreate,
+  validateIntegrationUpdate,
+  crmObjectParamsSchema,
+  fieldMappingPreviewSchema,
+  syncRequestSchema,
+  syncRunListQuerySchema,
+  syncRunParamsSchema
+} from '../validators/integration.validator';
 import { UserRole } from '../../interfaces/auth.interface';
 
 /**
@@ -84,11 +92,40 @@ function initializeRoutes(): Router {
     integrationController.getCompanyIntegrations.bind(integrationController)
   );
 
+  // Describe CRM object fields route, used to pick field mapping targets
+  router.get(
+    '/integrations/:id/objects/:object',
+    authenticate,
+    authorize([UserRole.ADMIN, UserRole.MANAGER]),
+    validateRequest(crmObjectParamsSchema, 'params'),
+    rateLimit({
+      windowMs: 60 * 1000,
+      max: 20,
+      message: { error: 'Too many CRM object description attempts' }
+    }),
+    integrationController.describeCrmObject.bind(integrationController)
+  );
+
+  // Preview field mappings route, showing how a visitor would look in the CRM
+  router.post(
+    '/integrations/:id/preview',
+    authenticate,
+    authorize([UserRole.ADMIN, UserRole.MANAGER]),
+    validateRequest(fieldMappingPreviewSchema, 'body'),
+    rateLimit({
+      windowMs: 60 * 1000,
+      max: 30,
+      message: { error: 'Too many field mapping preview attempts' }
+    }),
+    integrationController.previewFieldMappings.bind(integrationController)
+  );
+
   // Trigger integration sync route
   router.post(
     '/integrations/:id/sync',
     authenticate,
     authorize([UserRole.ADMIN, UserRole.MANAGER]),
+    validateRequest(syncRequestSchema, 'body'),
     rateLimit({
       windowMs: 60 * 1000,
       max: 2, // Strict rate limit for sync operations
@@ -97,6 +134,34 @@ function initializeRoutes(): Router {
     integrationController.syncIntegration.bind(integrationController)
   );
 
+  // Sync history route
+  router.get(
+    '/integrations/:id/syncs',
+    authenticate,
+    authorize([UserRole.ADMIN, UserRole.MANAGER]),
+    validateRequest(syncRunListQuerySchema, 'query'),
+    rateLimit({
+      windowMs: 60 * 1000,
+      max: 20,
+      message: { error: 'Too many sync history retrieval attempts' }
+    }),
+    integrationController.getSyncRuns.bind(integrationController)
+  );
+
+  // Retry the failed records of a sync run route
+  router.post(
+    '/integrations/:id/syncs/:syncId/retry',
+    authenticate,
+    authorize([UserRole.ADMIN, UserRole.MANAGER]),
+    validateRequest(syncRunParamsSchema, 'params'),
+    rateLimit({
+      windowMs: 60 * 1000,
+      max: 2, // Retries push records to the CRM like syncs
+      message: { error: 'Too many sync retry attempts' }
+    }),
+    integrationController.retryFailedRecords.bind(integrationController)
+  );
+
   return router;
 }
 
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Tracking routes for the embeddable browser SDK
+ * Public routes scoped by company ID; customer sites on any origin call them
+ * @version 1.0.0
+ */
+
+import { Router } from 'express';
+import { RateLimiter } from 'rate-limiter-flexible';
+import { TrackingController } from '../controllers/tracking.controller';
+import { validateRequest } from '../middlewares/validation.middleware';
+import {
+  trackingCompanyParamSchema,
+  trackingBatchSchema,
+  trackingIdentifySchema,
+  trackingSignedIdentifySchema,
+  trackingConsentSchema
+} from '../validators/tracking.validator';
+
+// Initialize rate limiter for tracking endpoints, keyed by client IP
+const trackingRateLimiter = new RateLimiter({
+  points: 300, // Number of points
+  duration: 60, // Per 60 seconds
+  blockDuration: 120 // Block for 2 minutes if exceeded
+});
+
+// Initialize router
+const trackingRouter = Router();
+
+// Initialize controller
+const trackingController = new TrackingController();
+
+/**
+ * @route GET /tracking/companies/:companyId/config
+ * @desc Get the tracking settings the SDK applies on the company's sites
+ * @access Public
+ */
+trackingRouter.get('/companies/:companyId/config',
+  validateRequest(trackingCompanyParamSchema, 'params'),
+  async (req, res, next) => {
+    try {
+      const config = await trackingController.getTrackingConfig(req.params.companyId);
+      res.set('Cache-Control', 'public, max-age=300');
+      res.json(config);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /tracking/companies/:companyId/events
+ * @desc Record a batch of page views and activity events
+ * @access Public
+ */
+trackingRouter.post('/companies/:companyId/events',
+  validateRequest(trackingCompanyParamSchema, 'params'),
+  validateRequest(trackingBatchSchema, 'body'),
+  async (req, res, next) => {
+    try {
+      await trackingRateLimiter.consume(req.ip);
+      const result = await trackingController.trackEvents(req.params.companyId, req.body, req.ip ?? '');
+      res.status(202).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /tracking/companies/:companyId/identify
+ * @desc Identify a tracked visitor from details entered on the company's site
+ * @access Public
+ */
+trackingRouter.post('/companies/:companyId/identify',
+  validateRequest(trackingCompanyParamSchema, 'params'),
+  validateRequest(trackingIdentifySchema, 'body'),
+  async (req, res, next) => {
+    try {
+      await trackingRateLimiter.consume(req.ip);
+      const { visitorId, ...data } = req.body;
+      const visitor = await trackingController.identifyVisitor(req.params.companyId, visitorId, data);
+      res.json(visitor);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /tracking/companies/:companyId/identify/signed
+ * @desc Identify a tracked visitor from a payload signed by the company's backend
+ * @access Public - Authenticated by the HMAC signature of the company identity secret
+ */
+trackingRouter.post('/companies/:companyId/identify/signed',
+  validateRequest(trackingCompanyParamSchema, 'params'),
+  validateRequest(trackingSignedIdentifySchema, 'body'),
+  async (req, res, next) => {
+    try {
+      await trackingRateLimiter.consume(req.ip);
+      const visitor = await trackingController.identifySignedVisitor(
+        req.params.companyId,
+        req.body.visitorId,
+        req.body.token
+      );
+      res.json(visitor);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /tracking/companies/:companyId/consent
+ * @desc Record the consent decisions a visitor made in the company's consent banner
+ * @access Public
+ */
+trackingRouter.post('/companies/:companyId/consent',
+  validateRequest(trackingCompanyParamSchema, 'params'),
+  validateRequest(trackingConsentSchema, 'body'),
+  async (req, res, next) => {
+    try {
+      await trackingRateLimiter.consume(req.ip);
+      const result = await trackingController.updateConsent(req.params.companyId, req.body, req.ip ?? '');
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default trackingRouter;
@@ -9,9 +9,26 @@ import { RateLimiter } from 'rate-limiter-flexible';
 import { VisitorController } from '../controllers/visitor.controller';
 import { authenticate, authorize } from '../middlewares/auth.middleware';
 import { validateRequest, commonValidations } from '../middlewares/validation.middleware';
-import { visitorMetadataSchema, enrichedDataSchema } from '../validators/visitor.validator';
+import {
+  visitorMetadataSchema,
+  enrichedDataSchema,
+  mergeParamSchema,
+  visitorListQuerySchema,
+  scoreHistoryQuerySchema,
+  sessionListQuerySchema,
+  accountListQuerySchema,
+  accountParamSchema,
+  signedIdentifySchema,
+  enrichmentFieldParamSchema,
+  enrichmentOverrideSchema,
+  attributionQuerySchema,
+  consentExportQuerySchema,
+  consentUpdateSchema,
+  goalReportQuerySchema,
+  funnelParamSchema,
+  contentReportQuerySchema
+} from '../validators/visitor.validator';
 import { UserRole } from '../../interfaces/auth.interface';
-import { VISITOR_STATUS } from '../../constants/visitor.constants';
 
 // Initialize rate limiter for visitor endpoints
 const visitorRateLimiter = new RateLimiter({
@@ -26,6 +43,25 @@ const visitorRouter = Router();
 // Initialize controller
 const visitorController = new VisitorController();
 
+/**
+ * @route POST /visitors/:id/identify/signed
+ * @desc Identify a visitor from a payload signed by the customer's backend
+ * @access Public - Authenticated by the HMAC signature of the company identity secret
+ */
+visitorRouter.post('/:id/identify/signed',
+  commonValidations.uuidParam,
+  validateRequest(signedIdentifySchema, 'body'),
+  async (req, res, next) => {
+    try {
+      await visitorRateLimiter.consume(req.ip);
+      const visitor = await visitorController.identifySignedVisitor(req.params.id, req.body.token);
+      res.json(visitor);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * Apply global middleware to all visitor routes
  * - Authentication required for all routes
@@ -53,6 +89,205 @@ visitorRouter.post('/',
   }
 );
 
+/**
+ * @route GET /visitors/accounts
+ * @desc List the requesting company's accounts with rolled-up visitor engagement
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/accounts',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  commonValidations.pagination,
+  validateRequest(accountListQuerySchema, 'query'),
+  async (req, res, next) => {
+    try {
+      const { page = 1, limit = 20, sortBy, search } = req.query;
+      const accounts = await visitorController.getAccounts(
+        req.user.companyId,
+        { page: Number(page), limit: Number(limit), sortBy, search }
+      );
+      res.json(accounts);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/attribution
+ * @desc Report the requesting company's identified and enriched visitors by marketing channel and campaign
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/attribution',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  validateRequest(attributionQuerySchema, 'query'),
+  async (req, res, next) => {
+    try {
+      const { model, since } = req.query;
+      const report = await visitorController.getAttributionReport(
+        req.user.companyId,
+        model,
+        since ? new Date(since) : undefined
+      );
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/goals
+ * @desc List the requesting company's conversion goals and funnels
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/goals',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  async (req, res, next) => {
+    try {
+      const definitions = await visitorController.getGoalDefinitions(req.user.companyId);
+      res.json(definitions);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/goals/report
+ * @desc Report completions and conversion rates of the requesting company's goals
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/goals/report',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  validateRequest(goalReportQuerySchema, 'query'),
+  async (req, res, next) => {
+    try {
+      const { from, to } = req.query;
+      const report = await visitorController.getGoalReport(req.user.companyId, {
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined
+      });
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/funnels/:funnelId/report
+ * @desc Report conversion, drop-off and time-to-convert of a funnel, optionally segmented
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/funnels/:funnelId/report',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  validateRequest(funnelParamSchema, 'params'),
+  validateRequest(goalReportQuerySchema, 'query'),
+  async (req, res, next) => {
+    try {
+      const { from, to, segmentBy } = req.query;
+      const report = await visitorController.getFunnelReport(req.user.companyId, req.params.funnelId, {
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        segmentBy
+      });
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/content-groups/report
+ * @desc Report page views, viewing visitors and top pages of the requesting company's content groups
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/content-groups/report',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  validateRequest(contentReportQuerySchema, 'query'),
+  async (req, res, next) => {
+    try {
+      const { from, to } = req.query;
+      const report = await visitorController.getContentGroupReport(req.user.companyId, {
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined
+      });
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/bots
+ * @desc List the requesting company's visitors flagged as bots
+ * @access Private - Requires ADMIN role
+ */
+visitorRouter.get('/bots',
+  authorize([UserRole.ADMIN]),
+  commonValidations.pagination,
+  async (req, res, next) => {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+      const bots = await visitorController.getBots(req.user.companyId, Number(page), Number(limit));
+      res.json(bots);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/consent/export
+ * @desc Export the requesting company's consent history for audits
+ * @access Private - Requires ADMIN role
+ */
+visitorRouter.get('/consent/export',
+  authorize([UserRole.ADMIN]),
+  validateRequest(consentExportQuerySchema, 'query'),
+  async (req, res, next) => {
+    try {
+      const { since, until, visitorId } = req.query;
+      const records = await visitorController.exportConsentHistory(req.user.companyId, {
+        since: since ? new Date(since) : undefined,
+        until: until ? new Date(until) : undefined,
+        visitorId
+      });
+      res.attachment(`consent-history-${new Date().toISOString().slice(0, 10)}.json`);
+      res.json(records);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/accounts/:domain/visitors
+ * @desc List the visitors belonging to an account
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/accounts/:domain/visitors',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  validateRequest(accountParamSchema, 'params'),
+  commonValidations.pagination,
+  async (req, res, next) => {
+    try {
+      const { page = 1, limit = 20 } = req.query;
+      const visitors = await visitorController.getAccountVisitors(
+        req.user.companyId,
+        req.params.domain,
+        Number(page),
+        Number(limit)
+      );
+      res.json(visitors);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * @route GET /visitors/:id
  * @desc Get visitor details by ID
@@ -71,6 +306,90 @@ visitorRouter.get('/:id',
   }
 );
 
+/**
+ * @route GET /visitors/:id/profile
+ * @desc Get the merged cross-device profile a visitor belongs to
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/:id/profile',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  commonValidations.uuidParam,
+  async (req, res, next) => {
+    try {
+      const profile = await visitorController.getVisitorProfile(req.user.companyId, req.params.id);
+      res.json(profile);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/:id/sessions
+ * @desc Get the sessions of a visitor with their activities, most recent first
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/:id/sessions',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  commonValidations.uuidParam,
+  validateRequest(sessionListQuerySchema, 'query'),
+  async (req, res, next) => {
+    try {
+      const sessions = await visitorController.getVisitorSessions(
+        req.user.companyId,
+        req.params.id,
+        req.query.cursor as string | undefined,
+        req.query.limit !== undefined ? Number(req.query.limit) : undefined
+      );
+      res.json(sessions);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/:id/score-history
+ * @desc Get the lead score history of a visitor, most recent first
+ * @access Private - Requires VIEWER role or higher
+ */
+visitorRouter.get('/:id/score-history',
+  authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  commonValidations.uuidParam,
+  validateRequest(scoreHistoryQuerySchema, 'query'),
+  async (req, res, next) => {
+    try {
+      const history = await visitorController.getScoreHistory(
+        req.user.companyId,
+        req.params.id,
+        req.query.limit !== undefined ? Number(req.query.limit) : undefined
+      );
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /visitors/merges/:mergeId/undo
+ * @desc Undo an identity graph merge
+ * @access Private - Requires MANAGER role or higher
+ */
+visitorRouter.post('/merges/:mergeId/undo',
+  authorize([UserRole.MANAGER, UserRole.ADMIN]),
+  validateRequest(mergeParamSchema, 'params'),
+  async (req, res, next) => {
+    try {
+      await visitorRateLimiter.consume(req.ip);
+      const profile = await visitorController.undoMerge(req.user.companyId, req.params.mergeId);
+      res.json(profile);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * @route GET /visitors/company/:companyId
  * @desc List company visitors with pagination and filtering
@@ -79,18 +398,22 @@ visitorRouter.get('/:id',
 visitorRouter.get('/company/:companyId',
   authorize([UserRole.VIEWER, UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
   commonValidations.pagination,
-  validateRequest(
-    {
-      status: visitorMetadataSchema.status.oneOf(Object.values(VISITOR_STATUS))
-    },
-    'query'
-  ),
+  validateRequest(visitorListQuerySchema, 'query'),
   async (req, res, next) => {
     try {
-      const { page = 1, limit = 20, status } = req.query;
+      const { page = 1, limit = 20, status, minScore, icpTier, event, contentGroup, sortBy } = req.query;
       const visitors = await visitorController.getCompanyVisitors(
         req.params.companyId,
-        { page: Number(page), limit: Number(limit), status }
+        {
+          page: Number(page),
+          limit: Number(limit),
+          status,
+          minScore: minScore !== undefined ? Number(minScore) : undefined,
+          icpTiers: icpTier ? String(icpTier).split(',') : undefined,
+          customEvent: event,
+          contentGroup,
+          sortBy
+        }
       );
       res.json(visitors);
     } catch (error) {
@@ -165,6 +488,113 @@ visitorRouter.post('/:id/enrich',
   }
 );
 
+/**
+ * @route PUT /visitors/:id/enrichment/fields/:field
+ * @desc Accept a provider candidate or enter a value for an enriched field, locking it against re-enrichment
+ * @access Private - Requires MEMBER role or higher
+ */
+visitorRouter.put('/:id/enrichment/fields/:field',
+  authorize([UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  validateRequest(enrichmentFieldParamSchema, 'params'),
+  validateRequest(enrichmentOverrideSchema, 'body'),
+  async (req, res, next) => {
+    try {
+      const visitor = await visitorController.overrideEnrichedField(
+        req.user.companyId,
+        req.params.id,
+        req.params.field,
+        req.body,
+        req.user.id
+      );
+      res.json(visitor);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route DELETE /visitors/:id/enrichment/fields/:field
+ * @desc Unlock an enriched field so re-enrichment resolves it from providers again
+ * @access Private - Requires MEMBER role or higher
+ */
+visitorRouter.delete('/:id/enrichment/fields/:field',
+  authorize([UserRole.MEMBER, UserRole.MANAGER, UserRole.ADMIN]),
+  validateRequest(enrichmentFieldParamSchema, 'params'),
+  async (req, res, next) => {
+    try {
+      const visitor = await visitorController.releaseEnrichedField(
+        req.user.companyId,
+        req.params.id,
+        req.params.field
+      );
+      res.json(visitor);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route DELETE /visitors/:id/bot-flag
+ * @desc Unflag a visitor reviewed as human; it is never flagged as a bot again
+ * @access Private - Requires ADMIN role
+ */
+visitorRouter.delete('/:id/bot-flag',
+  authorize([UserRole.ADMIN]),
+  commonValidations.uuidParam,
+  async (req, res, next) => {
+    try {
+      const visitor = await visitorController.unflagBot(req.user.companyId, req.params.id, req.user.id);
+      res.json(visitor);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /visitors/:id/consent
+ * @desc Get the consent history of a visitor
+ * @access Private - Requires MANAGER role or higher
+ */
+visitorRouter.get('/:id/consent',
+  authorize([UserRole.MANAGER, UserRole.ADMIN]),
+  commonValidations.uuidParam,
+  async (req, res, next) => {
+    try {
+      const records = await visitorController.getConsentHistory(req.user.companyId, req.params.id);
+      res.json(records);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route PUT /visitors/:id/consent
+ * @desc Record consent decisions on a visitor's behalf, e.g. a withdrawal received by email
+ * @access Private - Requires ADMIN role
+ */
+visitorRouter.put('/:id/consent',
+  authorize([UserRole.ADMIN]),
+  commonValidations.uuidParam,
+  validateRequest(consentUpdateSchema, 'body'),
+  async (req, res, next) => {
+    try {
+      const visitor = await visitorController.updateConsent(
+        req.user.companyId,
+        req.params.id,
+        req.body.purposes,
+        req.user.id
+      );
+      res.json(visitor);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 /**
  * @route DELETE /visitors/:id
  * @desc Delete visitor data (GDPR compliant)
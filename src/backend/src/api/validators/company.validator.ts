@@ -6,7 +6,7 @@
  * enhanced security controls and data integrity checks.
  */
 
-import { object, string, array, boolean, mixed } from 'yup'; // v1.0.0
+import { object, string, array, boolean, mixed, number } from 'yup'; // v1.0.0
 import { 
   ICompany, 
   ICompanyCreate, 
@@ -15,6 +15,55 @@ import {
 } from '../../interfaces/company.interface';
 import { validateSchema } from '../../utils/validation.util';
 import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import {
+  ENRICHMENT_MODE,
+  ENRICHABLE_FIELDS,
+  ENRICHMENT_SETTINGS_KEY,
+  MIN_STALENESS_DAYS,
+  MAX_STALENESS_DAYS
+} from '../../constants/enrichment.constants';
+import {
+  SCORING_RULE_TYPE,
+  FIRMOGRAPHIC_FIELDS,
+  MAX_SCORING_RULES
+} from '../../constants/scoring.constants';
+import { VISITOR_ACTIVITY_TYPE } from '../../constants/visitor.constants';
+import {
+  ICP_CRITERIA,
+  MAX_IDEAL_CUSTOMER_PROFILES,
+  MAX_ICP_CRITERION_VALUES
+} from '../../constants/icp.constants';
+import { IcpCriterion } from '../../interfaces/icp.interface';
+import { NON_CORPORATE_POLICY } from '../../constants/verification.constants';
+import {
+  CUSTOM_EVENT_PROPERTY_TYPE,
+  CUSTOM_EVENT_NAME_PATTERN,
+  MAX_CUSTOM_EVENTS,
+  MAX_CUSTOM_EVENT_PROPERTIES
+} from '../../constants/customEvent.constants';
+import {
+  GOAL_TYPE,
+  GOAL_ID_PATTERN,
+  MAX_GOALS,
+  MAX_FUNNELS,
+  MIN_FUNNEL_STEPS,
+  MAX_FUNNEL_STEPS,
+  MAX_FUNNEL_WINDOW_DAYS
+} from '../../constants/goal.constants';
+import {
+  TRAILING_SLASH,
+  CONTENT_GROUP_ID_PATTERN,
+  CONTENT_PATH_PATTERN,
+  MAX_CONTENT_GROUPS,
+  MAX_CONTENT_GROUP_PATTERNS,
+  MAX_KEPT_QUERY_PARAMS
+} from '../../constants/content.constants';
+import {
+  FORM_CAPTURE_FIELD,
+  MAX_CAPTURED_FORMS,
+  MAX_SENSITIVE_INPUTS,
+  FORM_INPUT_NAME_MAX_LENGTH
+} from '../../constants/formCapture.constants';
 
 // Validation constants
 const DOMAIN_REGEX = /^(?:[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
@@ -22,6 +71,350 @@ const SUBSCRIPTION_TIERS = ['free', 'pro', 'enterprise'] as const;
 const MAX_COMPANY_NAME_LENGTH = 100;
 const MIN_COMPANY_NAME_LENGTH = 2;
 
+/**
+ * Validation schema for per-company enrichment provider settings
+ */
+const enrichmentSettingsSchema = object({
+  mode: mixed()
+    .oneOf(Object.values(ENRICHMENT_MODE), 'Invalid enrichment mode'),
+  requiredFields: array()
+    .of(string().oneOf([...ENRICHABLE_FIELDS], 'Invalid enrichment field')),
+  fieldPrecedence: object()
+    .test('field-precedence', 'Field precedence must map enrichment fields to provider names',
+      (value) => !value || Object.entries(value).every(([field, providers]) =>
+        (ENRICHABLE_FIELDS as readonly string[]).includes(field) &&
+        Array.isArray(providers) && providers.every(provider => typeof provider === 'string'))),
+  providerOrder: array().of(string()),
+  disabledProviders: array().of(string()),
+  stalenessDays: mixed()
+    .test('staleness-days', `Staleness days must be between ${MIN_STALENESS_DAYS} and ${MAX_STALENESS_DAYS}`,
+      (value) => value === undefined ||
+        (typeof value === 'number' && value >= MIN_STALENESS_DAYS && value <= MAX_STALENESS_DAYS)),
+  dailyBudget: mixed()
+    .test('daily-budget', 'Daily budget must be a non-negative number or null',
+      (value) => value === undefined || value === null || (typeof value === 'number' && value >= 0))
+}).default(undefined);
+
+/**
+ * Validation schema for a single lead scoring rule
+ */
+const scoringRuleSchema = object({
+  id: string()
+    .max(64, 'Rule id cannot exceed 64 characters')
+    .required('Rule id is required'),
+  name: string()
+    .max(100, 'Rule name cannot exceed 100 characters')
+    .required('Rule name is required'),
+  type: mixed()
+    .oneOf(Object.values(SCORING_RULE_TYPE), 'Invalid scoring rule type')
+    .required('Rule type is required'),
+  points: mixed()
+    .test('rule-points', 'Rule points must be a number between -100 and 100',
+      (value) => typeof value === 'number' && value >= -100 && value <= 100)
+    .required('Rule points are required'),
+  maxPoints: mixed()
+    .test('rule-max-points', 'Rule max points must be a non-negative number',
+      (value) => value === undefined || (typeof value === 'number' && value >= 0)),
+  activityType: mixed()
+    .oneOf(Object.values(VISITOR_ACTIVITY_TYPE), 'Invalid activity type')
+    .when('type', {
+      is: SCORING_RULE_TYPE.ACTIVITY_COUNT,
+      then: (schema) => schema.required('Activity count rules require an activity type')
+    }),
+  pagePattern: string()
+    .when('type', {
+      is: SCORING_RULE_TYPE.PAGE_VISIT,
+      then: (schema) => schema.required('Page visit rules require a page pattern')
+    }),
+  threshold: mixed()
+    .test('rule-threshold', 'Rule threshold must be a non-negative number',
+      (value) => value === undefined || (typeof value === 'number' && value >= 0))
+    .when('type', {
+      is: SCORING_RULE_TYPE.TIME_SPENT,
+      then: (schema) => schema.required('Time spent rules require a threshold')
+    }),
+  field: mixed()
+    .oneOf([...FIRMOGRAPHIC_FIELDS], 'Invalid firmographic field')
+    .when('type', {
+      is: SCORING_RULE_TYPE.FIRMOGRAPHIC,
+      then: (schema) => schema.required('Firmographic rules require a field')
+    }),
+  values: array()
+    .of(string())
+    .when('type', {
+      is: SCORING_RULE_TYPE.FIRMOGRAPHIC,
+      then: (schema) => schema.min(1, 'Firmographic rules require at least one value')
+    }),
+  eventName: string()
+    .matches(CUSTOM_EVENT_NAME_PATTERN, 'Invalid custom event name')
+    .when('type', {
+      is: SCORING_RULE_TYPE.CUSTOM_EVENT,
+      then: (schema) => schema.required('Custom event rules require an event name')
+    }),
+  goalId: string()
+    .matches(GOAL_ID_PATTERN, 'Invalid goal ID')
+    .when('type', {
+      is: SCORING_RULE_TYPE.GOAL,
+      then: (schema) => schema.required('Goal rules require a goal ID')
+    })
+});
+
+/**
+ * Validation schema for per-company lead scoring settings
+ */
+const leadScoringSettingsSchema = object({
+  enabled: boolean()
+    .required('Lead scoring enabled flag is required'),
+  rules: array()
+    .of(scoringRuleSchema)
+    .max(MAX_SCORING_RULES, `Cannot define more than ${MAX_SCORING_RULES} scoring rules`)
+    .test('unique-rule-ids', 'Scoring rule ids must be unique',
+      (rules) => !rules || new Set(rules.map(rule => rule?.id)).size === rules.length)
+    .required('Scoring rules must be specified')
+}).default(undefined);
+
+/**
+ * Validation schema for the values of one ideal customer profile criterion
+ */
+const icpCriterionSchema = (criterion: IcpCriterion) => array()
+  .of(string().trim().min(1, `Empty ${criterion} value`))
+  .max(MAX_ICP_CRITERION_VALUES, `Cannot define more than ${MAX_ICP_CRITERION_VALUES} ${criterion}`);
+
+/**
+ * Validation schema for a single ideal customer profile
+ */
+const idealCustomerProfileSchema = object({
+  id: string()
+    .max(64, 'Profile id cannot exceed 64 characters')
+    .required('Profile id is required'),
+  name: string()
+    .max(100, 'Profile name cannot exceed 100 characters')
+    .required('Profile name is required'),
+  ...Object.fromEntries(ICP_CRITERIA.map(criterion => [criterion, icpCriterionSchema(criterion)])) as
+    Record<IcpCriterion, ReturnType<typeof icpCriterionSchema>>
+}).test('icp-criteria', 'Profile must define at least one criterion',
+  (profile) => !profile || ICP_CRITERIA.some(criterion => (profile[criterion] || []).length > 0));
+
+/**
+ * Validation schema for the ideal customer profiles of a company
+ */
+const idealCustomerProfilesSchema = array()
+  .of(idealCustomerProfileSchema)
+  .max(MAX_IDEAL_CUSTOMER_PROFILES, `Cannot define more than ${MAX_IDEAL_CUSTOMER_PROFILES} ideal customer profiles`)
+  .test('unique-profile-ids', 'Ideal customer profile ids must be unique',
+    (profiles) => !profiles || new Set(profiles.map(profile => profile?.id)).size === profiles.length);
+
+/**
+ * Validation schema for identification verification settings
+ */
+const identityVerificationSchema = object({
+  nonCorporatePolicy: mixed<NON_CORPORATE_POLICY>()
+    .oneOf(Object.values(NON_CORPORATE_POLICY), 'Invalid non-corporate identification policy'),
+  checkMx: boolean(),
+  rejectUndeliverable: boolean()
+}).default(undefined);
+
+/**
+ * Validation schema for a property declared by a custom event
+ */
+const customEventPropertySchema = object({
+  name: string()
+    .matches(CUSTOM_EVENT_NAME_PATTERN, 'Property names must be lowercase snake case of at most 64 characters')
+    .required('Property name is required'),
+  type: mixed<CUSTOM_EVENT_PROPERTY_TYPE>()
+    .oneOf(Object.values(CUSTOM_EVENT_PROPERTY_TYPE), 'Invalid custom event property type')
+    .required('Property type is required'),
+  required: boolean(),
+  pii: boolean()
+});
+
+/**
+ * Validation schema for a custom event registered by a company
+ */
+const customEventDefinitionSchema = object({
+  name: string()
+    .matches(CUSTOM_EVENT_NAME_PATTERN, 'Event names must be lowercase snake case of at most 64 characters')
+    .required('Event name is required'),
+  description: string()
+    .max(500, 'Event description cannot exceed 500 characters'),
+  properties: array()
+    .of(customEventPropertySchema)
+    .max(MAX_CUSTOM_EVENT_PROPERTIES, `Cannot declare more than ${MAX_CUSTOM_EVENT_PROPERTIES} properties`)
+    .test('unique-property-names', 'Property names must be unique',
+      (properties) => !properties || new Set(properties.map(property => property?.name)).size === properties.length)
+    .required('Event properties must be specified')
+});
+
+/**
+ * Validation schema for the custom events of a company
+ */
+const customEventsSchema = array()
+  .of(customEventDefinitionSchema)
+  .max(MAX_CUSTOM_EVENTS, `Cannot define more than ${MAX_CUSTOM_EVENTS} custom events`)
+  .test('unique-event-names', 'Custom event names must be unique',
+    (events) => !events || new Set(events.map(event => event?.name)).size === events.length);
+
+/**
+ * Validation schema for a conversion goal defined by a company
+ */
+const goalDefinitionSchema = object({
+  id: string()
+    .matches(GOAL_ID_PATTERN, 'Goal IDs must be lowercase snake case of at most 64 characters')
+    .required('Goal ID is required'),
+  name: string()
+    .trim()
+    .max(100, 'Goal name cannot exceed 100 characters')
+    .required('Goal name is required'),
+  type: mixed<GOAL_TYPE>()
+    .oneOf(Object.values(GOAL_TYPE), 'Invalid goal type')
+    .required('Goal type is required'),
+  urlPattern: string()
+    .max(500, 'Goal URL pattern cannot exceed 500 characters')
+    .when('type', {
+      is: GOAL_TYPE.PAGE_VISIT,
+      then: (schema) => schema.required('Page visit goals require a URL pattern')
+    }),
+  formId: string()
+    .max(200, 'Goal form ID cannot exceed 200 characters'),
+  eventName: string()
+    .matches(CUSTOM_EVENT_NAME_PATTERN, 'Invalid custom event name')
+    .when('type', {
+      is: GOAL_TYPE.CUSTOM_EVENT,
+      then: (schema) => schema.required('Custom event goals require an event name')
+    })
+});
+
+/**
+ * Validation schema for the conversion goals of a company
+ */
+const goalsSchema = array()
+  .of(goalDefinitionSchema)
+  .max(MAX_GOALS, `Cannot define more than ${MAX_GOALS} goals`)
+  .test('unique-goal-ids', 'Goal IDs must be unique',
+    (goals) => !goals || new Set(goals.map(goal => goal?.id)).size === goals.length);
+
+/**
+ * Validation schema for a funnel defined by a company
+ */
+const funnelDefinitionSchema = object({
+  id: string()
+    .matches(GOAL_ID_PATTERN, 'Funnel IDs must be lowercase snake case of at most 64 characters')
+    .required('Funnel ID is required'),
+  name: string()
+    .trim()
+    .max(100, 'Funnel name cannot exceed 100 characters')
+    .required('Funnel name is required'),
+  steps: array()
+    .of(string().required())
+    .min(MIN_FUNNEL_STEPS, `Funnels require at least ${MIN_FUNNEL_STEPS} steps`)
+    .max(MAX_FUNNEL_STEPS, `Funnels cannot have more than ${MAX_FUNNEL_STEPS} steps`)
+    .required('Funnel steps are required'),
+  windowDays: number()
+    .integer('Funnel window must be a whole number of days')
+    .min(1, 'Funnel window must be at least 1 day')
+    .max(MAX_FUNNEL_WINDOW_DAYS, `Funnel window cannot exceed ${MAX_FUNNEL_WINDOW_DAYS} days`)
+});
+
+/**
+ * Validation schema for the funnels of a company
+ * Every step must reference a goal defined in the same settings
+ */
+const funnelsSchema = array()
+  .of(funnelDefinitionSchema)
+  .max(MAX_FUNNELS, `Cannot define more than ${MAX_FUNNELS} funnels`)
+  .test('unique-funnel-ids', 'Funnel IDs must be unique',
+    (funnels) => !funnels || new Set(funnels.map(funnel => funnel?.id)).size === funnels.length)
+  .test('known-funnel-steps', 'Funnel steps must reference defined goals', function (funnels) {
+    const goalIds = new Set((this.parent?.goals || []).map((goal: { id: string }) => goal.id));
+    return !funnels || funnels.every(funnel => (funnel?.steps || []).every(step => goalIds.has(step)));
+  });
+
+/**
+ * Validation schema for the normalization of tracked page URLs
+ */
+const urlNormalizationSchema = object({
+  stripQueryParams: boolean(),
+  keptQueryParams: array()
+    .of(string().trim().max(100, 'Query parameter names cannot exceed 100 characters').required())
+    .max(MAX_KEPT_QUERY_PARAMS, `Cannot keep more than ${MAX_KEPT_QUERY_PARAMS} query parameters`),
+  trailingSlash: mixed<TRAILING_SLASH>()
+    .oneOf(Object.values(TRAILING_SLASH), 'Invalid trailing slash rule'),
+  lowercasePath: boolean()
+}).default(undefined);
+
+/**
+ * Validation schema for a content group defined by a company
+ */
+const contentGroupDefinitionSchema = object({
+  id: string()
+    .matches(CONTENT_GROUP_ID_PATTERN, 'Content group IDs must be lowercase snake case of at most 64 characters')
+    .required('Content group ID is required'),
+  name: string()
+    .trim()
+    .max(100, 'Content group name cannot exceed 100 characters')
+    .required('Content group name is required'),
+  pathPatterns: array()
+    .of(string()
+      .max(500, 'Path patterns cannot exceed 500 characters')
+      .matches(CONTENT_PATH_PATTERN, 'Path patterns must be absolute paths without query or fragment')
+      .required())
+    .min(1, 'Content groups require at least one path pattern')
+    .max(MAX_CONTENT_GROUP_PATTERNS, `Content groups cannot have more than ${MAX_CONTENT_GROUP_PATTERNS} path patterns`)
+    .required('Content group path patterns are required')
+});
+
+/**
+ * Validation schema for the content groups of a company
+ */
+const contentGroupsSchema = array()
+  .of(contentGroupDefinitionSchema)
+  .max(MAX_CONTENT_GROUPS, `Cannot define more than ${MAX_CONTENT_GROUPS} content groups`)
+  .test('unique-content-group-ids', 'Content group IDs must be unique',
+    (groups) => !groups || new Set(groups.map(group => group?.id)).size === groups.length);
+
+/**
+ * Validation schema for the name of a form input
+ */
+const formInputNameSchema = string()
+  .trim()
+  .max(FORM_INPUT_NAME_MAX_LENGTH, `Form input names cannot exceed ${FORM_INPUT_NAME_MAX_LENGTH} characters`);
+
+/**
+ * Validation schema for the input mapping of a captured form
+ */
+const formFieldMappingSchema = object({
+  formId: string()
+    .trim()
+    .max(200, 'Form ID cannot exceed 200 characters')
+    .required('Form ID is required'),
+  fields: object(
+    Object.fromEntries(Object.values(FORM_CAPTURE_FIELD).map(field => [field, formInputNameSchema]))
+  )
+    .noUnknown('Form inputs can only be mapped to email, name, phone or company')
+    .test('mapped-fields', 'Forms require at least one mapped input',
+      (fields) => !!fields && Object.values(fields).some(Boolean))
+    .required('Form field mapping is required'),
+  consentField: formInputNameSchema,
+  autoIdentify: boolean()
+});
+
+/**
+ * Validation schema for form field capture
+ */
+const formCaptureSchema = object({
+  enabled: boolean().required('Form capture enabled flag is required'),
+  sensitiveFields: array()
+    .of(formInputNameSchema.required())
+    .max(MAX_SENSITIVE_INPUTS, `Cannot mark more than ${MAX_SENSITIVE_INPUTS} inputs as sensitive`)
+    .default([]),
+  forms: array()
+    .of(formFieldMappingSchema)
+    .max(MAX_CAPTURED_FORMS, `Cannot map more than ${MAX_CAPTURED_FORMS} forms`)
+    .test('unique-form-ids', 'Captured form IDs must be unique',
+      (forms) => !forms || new Set(forms.map(form => form?.formId)).size === forms.length)
+    .default([])
+}).default(undefined);
+
 /**
  * Validation schema for company settings
  */
@@ -38,8 +431,9 @@ const companySettingsSchema = object({
     allowedIntegrations: array()
       .of(string())
       .required('Allowed integrations must be specified'),
-    integrationSettings: object()
-      .default({})
+    integrationSettings: object({
+      [ENRICHMENT_SETTINGS_KEY]: enrichmentSettingsSchema
+    }).default({})
   }).required('Integration configuration is required'),
 
   visitorTrackingSettings: object({
@@ -66,7 +460,25 @@ const companySettingsSchema = object({
       .required('Allowed IPs must be specified'),
     requireMFA: boolean()
       .required('MFA requirement setting is required')
-  }).required('Security settings are required')
+  }).required('Security settings are required'),
+
+  leadScoring: leadScoringSettingsSchema,
+
+  idealCustomerProfiles: idealCustomerProfilesSchema,
+
+  identityVerification: identityVerificationSchema,
+
+  customEvents: customEventsSchema,
+
+  goals: goalsSchema,
+
+  funnels: funnelsSchema,
+
+  urlNormalization: urlNormalizationSchema,
+
+  contentGroups: contentGroupsSchema,
+
+  formCapture: formCaptureSchema
 }).required('Company settings are required');
 
 /**
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Ingestion validation schemas for server-side event batches
+ * @version 1.0.0
+ *
+ * Batches are NDJSON, so the schema validates each line on its own and
+ * invalid lines are reported without failing the rest of the batch.
+ */
+
+import { object, string, mixed, ValidationError } from 'yup'; // v1.0.0
+import { VISITOR_ACTIVITY_TYPE } from '../../constants/visitor.constants';
+import { INGEST_EVENT_ID_MAX_LENGTH, INGEST_MAX_BATCH_LINES } from '../../constants/ingestion.constants';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import { IIngestEvent, IParsedIngestLine } from '../../interfaces/ingestion.interface';
+import { createError } from '../../utils/error.util';
+
+// Validation constants
+const URL_MAX_LENGTH = 2048;
+const USER_AGENT_MAX_LENGTH = 500;
+
+/**
+ * Validation schema for one event line of an ingestion batch
+ */
+export const ingestEventSchema = object({
+  eventId: string()
+    .trim()
+    .max(INGEST_EVENT_ID_MAX_LENGTH, `Event ID cannot exceed ${INGEST_EVENT_ID_MAX_LENGTH} characters`)
+    .required('Event ID is required'),
+  visitorId: string().uuid('Invalid visitor ID format').required('Visitor ID is required'),
+  type: string()
+    .oneOf(Object.values(VISITOR_ACTIVITY_TYPE), 'Invalid activity type')
+    .required('Activity type is required'),
+  occurredAt: string()
+    .matches(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z$/, 'Event time must be an ISO 8601 UTC timestamp')
+    .required('Event time is required'),
+  url: string().max(URL_MAX_LENGTH, `URL cannot exceed ${URL_MAX_LENGTH} characters`),
+  // Free-form: stripUnknown would empty an object() without a shape
+  data: mixed<Record<string, unknown>>()
+    .test('is-object', 'Event data must be an object', value =>
+      value === undefined || (typeof value === 'object' && value !== null && !Array.isArray(value))),
+  context: object({
+    ipAddress: string().max(45, 'IP address cannot exceed 45 characters'),
+    userAgent: string().max(USER_AGENT_MAX_LENGTH, `User agent cannot exceed ${USER_AGENT_MAX_LENGTH} characters`),
+    referrer: string().max(URL_MAX_LENGTH, `Referrer cannot exceed ${URL_MAX_LENGTH} characters`)
+  }).default(undefined)
+});
+
+/**
+ * Parses an NDJSON ingestion batch, validating every non-empty line on its own
+ * @param body - One JSON event per line
+ * @returns Parsed lines, with the reasons invalid lines are rejected
+ * @throws AppError when the batch is empty or exceeds INGEST_MAX_BATCH_LINES events
+ */
+export function parseIngestBatch(body: string): IParsedIngestLine[] {
+  const lines = (body || '').split('\n')
+    .map((text, index) => ({ line: index + 1, text: text.trim() }))
+    .filter(({ text }) => text.length > 0);
+
+  if (lines.length === 0 || lines.length > INGEST_MAX_BATCH_LINES) {
+    throw createError(
+      `A batch must contain between 1 and ${INGEST_MAX_BATCH_LINES} events`,
+      ErrorCodes.BAD_REQUEST,
+      ErrorTypes.VALIDATION_ERROR,
+      { lines: lines.length }
+    );
+  }
+
+  return lines.map(({ line, text }) => {
+    let payload: any;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      return { line, eventId: null, errors: ['Line is not valid JSON'] };
+    }
+
+    const eventId = typeof payload?.eventId === 'string' ? payload.eventId : null;
+    try {
+      const event = ingestEventSchema.validateSync(payload, { abortEarly: false, stripUnknown: true });
+      return { line, eventId: event.eventId, event: event as IIngestEvent };
+    } catch (error) {
+      return { line, eventId, errors: error instanceof ValidationError ? error.errors : [error.message] };
+    }
+  });
+}
@@ -6,8 +6,19 @@
  * enhanced security measures and data sanitization.
  */
 
-import { object, string, number, array, boolean } from 'yup'; // v1.0.0
-import { CRM_TYPES, INTEGRATION_STATUS, SYNC_INTERVALS } from '../../constants/integration.constants';
+import { object, string, number, array, boolean, mixed } from 'yup'; // v1.0.0
+import {
+  CRM_TYPES,
+  CRM_OBJECT,
+  CRM_INBOUND_FIELD,
+  CRM_CONFLICT_WINNER,
+  INTEGRATION_STATUS,
+  SYNC_INTERVALS,
+  MAX_SYNC_RUN_PAGE_SIZE,
+  ICP_REASONS_TRANSFORM,
+  CUSTOM_EVENT_SOURCE_FIELD_PATTERN,
+  GOAL_SOURCE_FIELD_PATTERN
+} from '../../constants/integration.constants';
 import { 
   IIntegrationCreate, 
   IIntegrationUpdate, 
@@ -15,6 +26,7 @@ import {
   IIntegrationConfig 
 } from '../../interfaces/integration.interface';
 import { validateSchema, sanitizeInput } from '../../utils/validation.util';
+import { validateTransformation } from '../../utils/fieldTransform.util';
 
 // Validation error messages
 const REQUIRED_FIELD_MESSAGE = 'This field is required';
@@ -24,6 +36,13 @@ const INVALID_WEBHOOK_URL = 'Invalid webhook URL format or not in allowlist';
 const INVALID_OAUTH_FORMAT = 'Invalid OAuth2 credentials format';
 const INVALID_SYNC_INTERVAL = 'Invalid synchronization interval';
 const INVALID_FIELD_MAPPING = 'Invalid field mapping configuration';
+const INVALID_INTEGRATION_ID = 'Invalid integration ID';
+const INVALID_CRM_OBJECT = 'CRM object must be one of: ' + Object.values(CRM_OBJECT).join(', ');
+const INVALID_CUSTOM_EVENT_FIELD = 'Custom event source fields must be customEvents.<event>.count, ' +
+  'firstOccurredAt, lastOccurredAt or lastProperties.<property>';
+const INVALID_CONFLICT_WINNER = 'Conflict winner must be one of: ' + Object.values(CRM_CONFLICT_WINNER).join(', ');
+const INVALID_GOAL_FIELD = 'Goal source fields must be goals.<goal>.count, firstCompletedAt or lastCompletedAt';
+const INVALID_TRANSFORM_FUNCTION = `Transform function must be ${ICP_REASONS_TRANSFORM}`;
 
 // Allowed webhook domains for security
 const ALLOWED_WEBHOOK_DOMAINS = [
@@ -50,9 +69,22 @@ const credentialsSchema = object({
  * Schema for field mapping validation with data transformation rules
  */
 const fieldMappingSchema = object({
-  sourceField: string().required(REQUIRED_FIELD_MESSAGE),
+  sourceField: string()
+    .test('custom-event-field', INVALID_CUSTOM_EVENT_FIELD,
+      (value) => !value?.startsWith('customEvents.') || CUSTOM_EVENT_SOURCE_FIELD_PATTERN.test(value))
+    .test('goal-field', INVALID_GOAL_FIELD,
+      (value) => !value?.startsWith('goals.') || GOAL_SOURCE_FIELD_PATTERN.test(value))
+    .required(REQUIRED_FIELD_MESSAGE),
   targetField: string().required(REQUIRED_FIELD_MESSAGE),
-  transformFunction: string().optional(),
+  transformFunction: string()
+    .oneOf([ICP_REASONS_TRANSFORM], INVALID_TRANSFORM_FUNCTION)
+    .optional(),
+  transformation: mixed()
+    .nullable()
+    .test('transformation', 'Invalid transformation', function (value) {
+      const problem = value === undefined || value === null ? null : validateTransformation(value);
+      return problem ? this.createError({ message: problem }) : true;
+    }),
   required: boolean().required(REQUIRED_FIELD_MESSAGE),
   validation: object().optional()
 });
@@ -68,6 +100,9 @@ const configSchema = object({
     .of(fieldMappingSchema)
     .required(REQUIRED_FIELD_MESSAGE)
     .min(1, 'At least one field mapping is required'),
+  syncObject: string()
+    .oneOf(Object.values(CRM_OBJECT), INVALID_CRM_OBJECT)
+    .optional(),
   webhookUrl: string()
     .url()
     .test('webhook-domain', INVALID_WEBHOOK_URL, (value) => {
@@ -86,6 +121,15 @@ const configSchema = object({
     otherwise: string().optional()
   }),
   customSettings: object().default({}),
+  inboundSync: object({
+    enabled: boolean().required(REQUIRED_FIELD_MESSAGE),
+    conflictWinners: object(Object.fromEntries(
+      Object.values(CRM_INBOUND_FIELD).map(field => [
+        field,
+        string().oneOf(Object.values(CRM_CONFLICT_WINNER), INVALID_CONFLICT_WINNER).optional()
+      ])
+    )).optional()
+  }).default(undefined),
   retryPolicy: object({
     maxAttempts: number().required().min(1).max(10),
     backoffInterval: number().required().min(1000),
@@ -121,6 +165,64 @@ export const integrationUpdateSchema = object({
   version: string().optional()
 });
 
+/**
+ * Schema for the integration and CRM object of a describe request
+ */
+export const crmObjectParamsSchema = object({
+  id: string()
+    .required(REQUIRED_FIELD_MESSAGE)
+    .uuid(INVALID_INTEGRATION_ID),
+  object: string()
+    .required(REQUIRED_FIELD_MESSAGE)
+    .oneOf(Object.values(CRM_OBJECT), INVALID_CRM_OBJECT)
+});
+
+/**
+ * Validation schema for field mapping preview requests
+ */
+export const fieldMappingPreviewSchema = object({
+  visitorId: string(),
+  visitor: mixed()
+    .test('sample-visitor', 'Sample visitor must be an object',
+      (value) => value === undefined || (typeof value === 'object' && value !== null && !Array.isArray(value))),
+  fieldMappings: array()
+    .of(fieldMappingSchema)
+    .min(1, 'At least one field mapping is required')
+}).test('preview-visitor', 'Either a visitor ID or a sample visitor is required',
+  (value) => !!(value?.visitorId || value?.visitor));
+
+/**
+ * Validation schema for sync trigger requests
+ */
+export const syncRequestSchema = object({
+  fullResync: boolean()
+});
+
+/**
+ * Validation schema for sync history query parameters
+ */
+export const syncRunListQuerySchema = object({
+  page: number()
+    .integer('Page must be an integer')
+    .min(1, 'Page must be at least 1'),
+  limit: number()
+    .integer('Limit must be an integer')
+    .min(1, 'Limit must be at least 1')
+    .max(MAX_SYNC_RUN_PAGE_SIZE, `Limit must be at most ${MAX_SYNC_RUN_PAGE_SIZE}`)
+});
+
+/**
+ * Validation schema for sync run route parameters
+ */
+export const syncRunParamsSchema = object({
+  id: string()
+    .required(REQUIRED_FIELD_MESSAGE)
+    .uuid(INVALID_INTEGRATION_ID),
+  syncId: string()
+    .required(REQUIRED_FIELD_MESSAGE)
+    .uuid('Invalid sync run ID')
+});
+
 /**
  * Validates and sanitizes integration creation request data
  * @param data Integration creation request data
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Tracking validation schemas for the embeddable browser SDK
+ * @version 1.0.0
+ *
+ * Validates the unauthenticated requests customer sites send, bounding
+ * batch sizes and string lengths since any page can call these routes.
+ */
+
+import { object, string, array, boolean, mixed } from 'yup'; // v1.0.0
+import { VISITOR_ACTIVITY_TYPE, TRACKING_MAX_BATCH_SIZE } from '../../constants/visitor.constants';
+import { CONSENT_PURPOSE } from '../../constants/consent.constants';
+
+// Validation constants
+const URL_MAX_LENGTH = 2048;
+const USER_AGENT_MAX_LENGTH = 500;
+
+/**
+ * Validation schema for tracking route parameters
+ */
+export const trackingCompanyParamSchema = object({
+  companyId: string().uuid('Invalid company ID format').required('Company ID is required')
+});
+
+/**
+ * Validation schema for a single SDK event
+ */
+const trackingEventSchema = object({
+  type: string()
+    .oneOf(Object.values(VISITOR_ACTIVITY_TYPE), 'Invalid activity type')
+    .required('Activity type is required'),
+  url: string().max(URL_MAX_LENGTH, `URL cannot exceed ${URL_MAX_LENGTH} characters`).required('URL is required'),
+  path: string().max(URL_MAX_LENGTH, `Path cannot exceed ${URL_MAX_LENGTH} characters`).required('Path is required'),
+  occurredAt: string()
+    .matches(/^\d{4}-\d{2}-\d{2}T[\d:.]+Z$/, 'Event time must be an ISO 8601 UTC timestamp')
+    .required('Event time is required'),
+  data: mixed()
+});
+
+/**
+ * Validation schema for the browser metadata sent with SDK requests
+ */
+const trackingMetadataSchema = object({
+  userAgent: string().max(USER_AGENT_MAX_LENGTH, `User agent cannot exceed ${USER_AGENT_MAX_LENGTH} characters`),
+  referrer: string().max(URL_MAX_LENGTH, `Referrer cannot exceed ${URL_MAX_LENGTH} characters`),
+  currentPage: string().max(URL_MAX_LENGTH, `Current page cannot exceed ${URL_MAX_LENGTH} characters`),
+  webdriver: boolean()
+});
+
+/**
+ * Validation schema for consent decisions keyed by purpose
+ */
+export const consentPurposesSchema = object(
+  Object.fromEntries(Object.values(CONSENT_PURPOSE).map(purpose => [purpose, boolean()]))
+).noUnknown('Unknown consent purpose');
+
+/**
+ * Validation schema for SDK event batches
+ */
+export const trackingBatchSchema = object({
+  visitorId: string().uuid('Invalid visitor ID format').required('Visitor ID is required'),
+  metadata: trackingMetadataSchema.required('Metadata is required'),
+  events: array()
+    .of(trackingEventSchema)
+    .min(1, 'At least one event is required')
+    .max(TRACKING_MAX_BATCH_SIZE, `A batch cannot exceed ${TRACKING_MAX_BATCH_SIZE} events`)
+    .required('Events are required')
+});
+
+/**
+ * Validation schema for identification submitted from a customer site
+ */
+export const trackingIdentifySchema = object({
+  visitorId: string().uuid('Invalid visitor ID format').required('Visitor ID is required'),
+  email: string().email('Invalid email format').max(254, 'Email cannot exceed 254 characters'),
+  name: string().max(200, 'Name cannot exceed 200 characters'),
+  phone: string().max(32, 'Phone cannot exceed 32 characters'),
+  gdprConsent: boolean().required('GDPR consent is required'),
+  consent: consentPurposesSchema,
+  customFields: object()
+});
+
+/**
+ * Validation schema for consent decisions reported from a customer site's consent banner
+ */
+export const trackingConsentSchema = object({
+  visitorId: string().uuid('Invalid visitor ID format').required('Visitor ID is required'),
+  purposes: consentPurposesSchema.required('Consent purposes are required'),
+  policyVersion: string().max(64, 'Policy version cannot exceed 64 characters'),
+  metadata: trackingMetadataSchema.required('Metadata is required')
+});
+
+/**
+ * Validation schema for signed identification submitted from a customer site
+ */
+export const trackingSignedIdentifySchema = object({
+  visitorId: string().uuid('Invalid visitor ID format').required('Visitor ID is required'),
+  token: string()
+    .max(8192, 'Signed identity token cannot exceed 8192 characters')
+    .matches(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/, 'Invalid signed identity token format')
+    .required('Signed identity token is required')
+});
@@ -5,10 +5,19 @@
  * @version 1.0.0
  */
 
-import { object, string, date, mixed, array } from 'yup'; // v1.0.0
+import { object, string, date, mixed, array, number, ref } from 'yup'; // v1.0.0
 import { IVisitor, IVisitorMetadata, IEnrichedData } from '../../interfaces/visitor.interface';
 import { VISITOR_STATUS } from '../../constants/visitor.constants';
+import { MIN_LEAD_SCORE, MAX_LEAD_SCORE } from '../../constants/scoring.constants';
+import { ACCOUNT_SORT_FIELDS } from '../../constants/account.constants';
+import { ICP_FIT_TIER } from '../../constants/icp.constants';
+import { REVIEWABLE_FIELDS } from '../../constants/enrichment.constants';
+import { CUSTOM_EVENT_NAME_PATTERN } from '../../constants/customEvent.constants';
+import { ATTRIBUTION_MODEL } from '../../constants/attribution.constants';
+import { FUNNEL_SEGMENT, GOAL_ID_PATTERN } from '../../constants/goal.constants';
+import { CONTENT_GROUP_ID_PATTERN } from '../../constants/content.constants';
 import { validateEmail, validateSchema, sanitizeInput } from '../../utils/validation.util';
+import { consentPurposesSchema } from './tracking.validator';
 import { createError } from '../../utils/error.util';
 import { ErrorTypes, ErrorCodes } from '../../constants/error.constants';
 
@@ -94,6 +103,157 @@ export const enrichedDataSchema = object<IEnrichedData>({
   customFields: object().optional()
 });
 
+/**
+ * Validation schema for identity graph merge route parameters
+ */
+export const mergeParamSchema = object({
+  mergeId: string().uuid('Invalid merge ID format').required('Merge ID is required')
+});
+
+/**
+ * Validation schema for account list query parameters
+ */
+export const accountListQuerySchema = object({
+  sortBy: string().oneOf([...ACCOUNT_SORT_FIELDS], `Sort must be one of: ${ACCOUNT_SORT_FIELDS.join(', ')}`),
+  search: string().trim().max(100, 'Search cannot exceed 100 characters')
+});
+
+/**
+ * Validation schema for account route parameters
+ */
+export const accountParamSchema = object({
+  domain: string()
+    .matches(/^[a-zA-Z0-9.-]{1,253}$/, 'Invalid account domain format')
+    .required('Account domain is required')
+});
+
+/**
+ * Validation schema for company visitor list query parameters
+ */
+export const visitorListQuerySchema = object({
+  status: string().oneOf(Object.values(VISITOR_STATUS), 'Invalid visitor status'),
+  minScore: number()
+    .integer('Minimum score must be an integer')
+    .min(MIN_LEAD_SCORE, `Minimum score must be at least ${MIN_LEAD_SCORE}`)
+    .max(MAX_LEAD_SCORE, `Minimum score must be at most ${MAX_LEAD_SCORE}`),
+  icpTier: string()
+    .test('icp-tiers', `ICP tiers must be a comma-separated list of: ${Object.values(ICP_FIT_TIER).join(', ')}`,
+      (value) => !value || value.split(',').every(tier => (Object.values(ICP_FIT_TIER) as string[]).includes(tier))),
+  event: string().matches(CUSTOM_EVENT_NAME_PATTERN, 'Invalid custom event name'),
+  contentGroup: string().matches(CONTENT_GROUP_ID_PATTERN, 'Invalid content group ID'),
+  sortBy: string().oneOf(['lastSeen', 'score'], 'Sort must be lastSeen or score')
+});
+
+/**
+ * Validation schema for signed identification requests
+ */
+export const signedIdentifySchema = object({
+  token: string()
+    .max(8192, 'Signed identity token cannot exceed 8192 characters')
+    .matches(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/, 'Invalid signed identity token format')
+    .required('Signed identity token is required')
+});
+
+/**
+ * Validation schema for enriched field review route parameters
+ */
+export const enrichmentFieldParamSchema = object({
+  id: string().uuid('Invalid UUID format').required('Visitor ID is required'),
+  field: string()
+    .oneOf([...REVIEWABLE_FIELDS], `Field must be one of: ${REVIEWABLE_FIELDS.join(', ')}`)
+    .required('Field is required')
+});
+
+/**
+ * Validation schema for enriched field overrides: an accepted provider or an entered value
+ */
+export const enrichmentOverrideSchema = object({
+  value: string().trim().max(255, 'Value cannot exceed 255 characters'),
+  provider: string().trim().max(100, 'Provider cannot exceed 100 characters')
+}).test('value-or-provider', 'Either a value or a provider is required',
+  (input) => Boolean(input?.value || input?.provider));
+
+/**
+ * Validation schema for score history query parameters
+ */
+export const scoreHistoryQuerySchema = object({
+  limit: number()
+    .integer('Limit must be an integer')
+    .min(1, 'Limit must be at least 1')
+    .max(200, 'Limit must be at most 200')
+});
+
+/**
+ * Validation schema for session timeline query parameters
+ */
+export const sessionListQuerySchema = object({
+  cursor: string().matches(/^[A-Za-z0-9+/=]{1,64}$/, 'Invalid cursor format'),
+  limit: number()
+    .integer('Limit must be an integer')
+    .min(1, 'Limit must be at least 1')
+    .max(100, 'Limit must be at most 100')
+});
+
+/**
+ * Validation schema for attribution report query parameters
+ */
+export const attributionQuerySchema = object({
+  model: string().oneOf(Object.values(ATTRIBUTION_MODEL), 'Invalid attribution model'),
+  since: date().typeError('Since must be a valid date').max(new Date(), 'Since cannot be in the future')
+});
+
+/**
+ * Validation schema for goal and funnel report query parameters
+ */
+export const goalReportQuerySchema = object({
+  from: date().typeError('From must be a valid date'),
+  to: date()
+    .typeError('To must be a valid date')
+    .when('from', {
+      is: (from: Date | undefined) => !!from,
+      then: (schema) => schema.min(ref('from'), 'To must be after from')
+    }),
+  segmentBy: string().oneOf(Object.values(FUNNEL_SEGMENT), 'Invalid funnel segment')
+});
+
+/**
+ * Validation schema for funnel route parameters
+ */
+export const funnelParamSchema = object({
+  funnelId: string()
+    .matches(GOAL_ID_PATTERN, 'Invalid funnel ID')
+    .required('Funnel ID is required')
+});
+
+/**
+ * Validation schema for content group report query parameters
+ */
+export const contentReportQuerySchema = object({
+  from: date().typeError('From must be a valid date'),
+  to: date()
+    .typeError('To must be a valid date')
+    .when('from', {
+      is: (from: Date | undefined) => !!from,
+      then: (schema) => schema.min(ref('from'), 'To must be after from')
+    })
+});
+
+/**
+ * Validation schema for consent history export query parameters
+ */
+export const consentExportQuerySchema = object({
+  since: date().typeError('Since must be a valid date'),
+  until: date().typeError('Until must be a valid date'),
+  visitorId: string().uuid('Invalid visitor ID format')
+});
+
+/**
+ * Validation schema for consent decisions a team member records on a visitor's behalf
+ */
+export const consentUpdateSchema = object({
+  purposes: consentPurposesSchema.required('Consent purposes are required')
+});
+
 /**
  * Validates visitor metadata with enhanced security checks
  * @param metadata - Visitor metadata to validate
@@ -17,6 +17,9 @@ import authRoutes from './api/routes/auth.routes';
 import visitorRoutes from './api/routes/visitor.routes';
 import integrationRoutes from './api/routes/integration.routes';
 import teamRoutes from './api/routes/team.routes';
+import companyRoutes from './api/routes/company.routes';
+import trackingRoutes from './api/routes/tracking.routes';
+import ingestionRoutes from './api/routes/ingestion.routes';
 import errorMiddleware from './api/middlewares/error.middleware';
 import { requestLoggingMiddleware, errorLoggingMiddleware } from './api/middlewares/logging.middleware';
 import { rateLimiter } from './api/middlewares/rateLimiter.middleware';
@@ -45,7 +48,9 @@ class App {
 
     // Security middleware
     this.app.use(helmet(securityConfig.helmet));
-    this.app.use(cors(securityConfig.cors));
+    this.app.use(cors((req, callback) => callback(null,
+      req.path.startsWith('/api/v1/tracking') ? securityConfig.trackingCors : securityConfig.cors
+    )));
 
     // Performance middleware
     this.app.use(compression());
@@ -83,6 +88,9 @@ class App {
     this.app.use(`${apiPrefix}/visitors`, visitorRoutes);
     this.app.use(`${apiPrefix}/integrations`, integrationRoutes);
     this.app.use(`${apiPrefix}/team`, teamRoutes);
+    this.app.use(`${apiPrefix}/companies`, companyRoutes);
+    this.app.use(`${apiPrefix}/tracking`, trackingRoutes);
+    this.app.use(`${apiPrefix}/ingest`, ingestionRoutes);
 
     // Handle 404 errors
     this.app.use((req, res) => {
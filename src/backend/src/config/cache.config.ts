@@ -35,6 +35,8 @@ export interface ICacheConfig {
     realtime: string;
     analytics: string;
     rateLimit: string;
+    enrichment: string;
+    enrichmentSpend: string;
   };
   ttl: {
     session: number;
@@ -44,6 +46,8 @@ export interface ICacheConfig {
     realtime: number;
     analytics: number;
     rateLimit: number;
+    enrichment: number;
+    enrichmentSpend: number;
   };
 }
 
@@ -90,6 +94,8 @@ export const cacheConfig: ICacheConfig = {
     realtime: 'realtime:', // Real-time updates
     analytics: 'analytics:', // Analytics data
     rateLimit: 'rate:', // Rate limiting data
+    enrichment: 'enrich:', // Enrichment results by email and domain
+    enrichmentSpend: 'enrich-spend:', // Daily enrichment provider spend
   },
 
   // TTL (Time To Live) values in seconds
@@ -101,5 +107,7 @@ export const cacheConfig: ICacheConfig = {
     realtime: 300, // 5 minutes
     analytics: 7200, // 2 hours
     rateLimit: 60, // 1 minute
+    enrichment: 2592000, // 30 days, overridden by company staleness window
+    enrichmentSpend: 172800, // 48 hours, outlives the day it counts
   },
 };
\ No newline at end of file
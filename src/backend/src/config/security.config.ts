@@ -59,6 +59,21 @@ export const securityConfig = {
     optionsSuccessStatus: 204
   },
 
+  /**
+   * Tracking CORS Configuration
+   * The tracking SDK runs on customer sites, so any origin may call the
+   * tracking endpoints; credentials are never sent
+   */
+  trackingCors: {
+    origin: true,
+    methods: ['GET', 'POST'],
+    allowedHeaders: ['Content-Type'],
+    maxAge: CORS_CONSTANTS.MAX_AGE,
+    credentials: false,
+    preflightContinue: false,
+    optionsSuccessStatus: 204
+  },
+
   /**
    * Rate Limiting Configuration
    * Protects against brute force and DoS attacks
@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Constants for account-level visitor rollups
+ * Defines how visitors are grouped into accounts and how account lists are sorted
+ * @version 1.0.0
+ */
+
+/**
+ * Pattern extracting the host of a website, without protocol and leading www
+ * Applied to lower-cased values; capture group 1 holds the account domain
+ */
+export const ACCOUNT_DOMAIN_PATTERN = '^(?:[a-z][a-z0-9+.-]*://)?(?:www\\.)?([^/:?#\\s]+)';
+
+/**
+ * Fields an account list can be sorted by
+ */
+export const ACCOUNT_SORT_FIELDS = [
+    'lastSeen',
+    'visitorCount',
+    'engagedPeople',
+    'totalVisits',
+    'totalTimeSpent'
+] as const;
+
+/**
+ * Default account list sort field
+ */
+export const DEFAULT_ACCOUNT_SORT = 'lastSeen';
+
+/**
+ * Number of most visited pages returned per account
+ */
+export const ACCOUNT_TOP_PAGES_LIMIT = 5;
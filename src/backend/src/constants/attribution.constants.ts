@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Constants and enums for marketing attribution
+ * Defines marketing channels, attribution models and the reference data touches are classified with
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining the marketing channel a touch came through
+ */
+export enum MARKETING_CHANNEL {
+    ORGANIC_SEARCH = 'ORGANIC_SEARCH',
+    PAID_SEARCH = 'PAID_SEARCH',
+    SOCIAL = 'SOCIAL',
+    EMAIL = 'EMAIL',
+    /** No referrer and no campaign parameters */
+    DIRECT = 'DIRECT',
+    /** Any other referring site */
+    REFERRAL = 'REFERRAL'
+}
+
+/**
+ * Enum defining how a visitor's touches are credited in attribution reports
+ */
+export enum ATTRIBUTION_MODEL {
+    /** Full credit to the touch that brought the visitor first */
+    FIRST_TOUCH = 'FIRST_TOUCH',
+    /** Full credit to the latest non-direct touch */
+    LAST_TOUCH = 'LAST_TOUCH',
+    /** Equal credit to every recorded touch */
+    LINEAR = 'LINEAR'
+}
+
+/**
+ * Campaign query parameters read from landing pages
+ */
+export const UTM_PARAMETERS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+/**
+ * Referrer domains of search engines
+ * Referrer hosts match a domain or any of its subdomains; utm_source matches the domain or its first label
+ */
+export const SEARCH_ENGINE_DOMAINS: ReadonlySet<string> = new Set([
+    'google.com', 'bing.com', 'yahoo.com', 'duckduckgo.com', 'baidu.com',
+    'yandex.com', 'yandex.ru', 'ecosia.org', 'search.brave.com', 'startpage.com'
+]);
+
+/**
+ * Country domains of search engines, e.g. google.co.uk or yandex.kz
+ */
+export const SEARCH_ENGINE_HOST_PATTERN = /(^|\.)(google|bing|yahoo|yandex)\.(com?\.)?[a-z]{2,3}$/;
+
+/**
+ * Referrer domains of social networks
+ */
+export const SOCIAL_DOMAINS: ReadonlySet<string> = new Set([
+    'facebook.com', 'instagram.com', 'linkedin.com', 'lnkd.in', 'twitter.com', 't.co', 'x.com',
+    'reddit.com', 'youtube.com', 'tiktok.com', 'pinterest.com', 'news.ycombinator.com', 'threads.net'
+]);
+
+/**
+ * Referrer domains of webmail clients
+ */
+export const EMAIL_DOMAINS: ReadonlySet<string> = new Set([
+    'mail.google.com', 'outlook.live.com', 'outlook.office.com', 'outlook.office365.com',
+    'mail.yahoo.com', 'mail.proton.me', 'app.fastmail.com'
+]);
+
+/**
+ * utm_medium values of paid search traffic
+ */
+export const PAID_SEARCH_MEDIUMS: ReadonlySet<string> = new Set([
+    'cpc', 'ppc', 'paidsearch', 'paid_search', 'paid-search', 'sem'
+]);
+
+/**
+ * utm_medium values of social traffic
+ */
+export const SOCIAL_MEDIUMS: ReadonlySet<string> = new Set([
+    'social', 'social-network', 'social_media', 'sm', 'paid_social', 'paid-social'
+]);
+
+/**
+ * utm_medium values of email traffic
+ */
+export const EMAIL_MEDIUMS: ReadonlySet<string> = new Set(['email', 'e-mail', 'newsletter']);
+
+/**
+ * utm_medium values of unpaid search traffic
+ */
+export const ORGANIC_MEDIUMS: ReadonlySet<string> = new Set(['organic', 'seo']);
+
+/**
+ * Click ID query parameters search ad platforms add, marking paid search without UTM parameters
+ */
+export const PAID_SEARCH_CLICK_IDS = ['gclid', 'gbraid', 'wbraid', 'msclkid'] as const;
+
+/**
+ * Maximum number of touches kept per visitor for multi-touch attribution
+ */
+export const MAX_ATTRIBUTION_TOUCHES = 50;
+
+/**
+ * Maximum number of campaigns returned in an attribution report
+ */
+export const ATTRIBUTION_CAMPAIGNS_LIMIT = 25;
@@ -0,0 +1,58 @@
+/**
+ * @fileoverview Constants and enums for visitor consent management (GDPR/ePrivacy)
+ * Defines the purposes visitors consent to, where consent was collected and how long data is kept
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining the processing purposes a visitor grants or withdraws consent for
+ */
+export enum CONSENT_PURPOSE {
+    /** Tracking the visitor under a persistent ID with IP address and device details */
+    ANALYTICS = 'ANALYTICS',
+    /** Storing contact details the visitor submitted and linking their devices */
+    IDENTIFICATION = 'IDENTIFICATION',
+    /** Looking up the visitor's company and role with enrichment providers */
+    ENRICHMENT = 'ENRICHMENT',
+    /** Pushing the visitor to the company's CRM */
+    CRM_SYNC = 'CRM_SYNC'
+}
+
+/**
+ * Enum defining where a consent decision was collected
+ */
+export enum CONSENT_SOURCE {
+    /** Consent banner on the company's site, reported by the browser SDK */
+    SDK = 'SDK',
+    /** Identification form on the company's site */
+    IDENTIFY_FORM = 'IDENTIFY_FORM',
+    /** Signed identity payload from the company's backend */
+    SIGNED_TOKEN = 'SIGNED_TOKEN',
+    /** Recorded by a team member, e.g. when handling a data subject request */
+    ADMIN = 'ADMIN'
+}
+
+/**
+ * Purposes an identification submitted with consent grants unless the submission says otherwise
+ */
+export const IDENTIFICATION_CONSENT_PURPOSES: CONSENT_PURPOSE[] = [
+    CONSENT_PURPOSE.IDENTIFICATION,
+    CONSENT_PURPOSE.ENRICHMENT,
+    CONSENT_PURPOSE.CRM_SYNC
+];
+
+/**
+ * Days visitor data is retained with and without analytics consent
+ */
+export const CONSENTED_RETENTION_DAYS = 365;
+export const ANONYMOUS_RETENTION_DAYS = 30;
+
+/**
+ * Activity metadata fields dropped for visitors tracked without analytics consent
+ */
+export const ANONYMOUS_MODE_DROPPED_METADATA = ['ipAddress', 'userAgent', 'location', 'email'];
+
+/**
+ * Maximum consent records returned by one audit export
+ */
+export const CONSENT_EXPORT_MAX_RECORDS = 10000;
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Constants and enums for tracked URL normalization and content groups
+ * Defines how tracked URLs are canonicalized and the bounds of the content groups
+ * companies define over their site's paths
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining how trailing slashes of tracked URL paths are canonicalized
+ */
+export enum TRAILING_SLASH {
+    /** Remove trailing slashes, e.g. /pricing/ becomes /pricing */
+    STRIP = 'STRIP',
+    /** Add trailing slashes to paths without a file extension, e.g. /pricing becomes /pricing/ */
+    ADD = 'ADD',
+    /** Leave paths as tracked */
+    KEEP = 'KEEP'
+}
+
+/**
+ * URL normalization applied when a company has not configured its own
+ */
+export const DEFAULT_URL_NORMALIZATION = {
+    stripQueryParams: true,
+    keptQueryParams: [] as string[],
+    trailingSlash: TRAILING_SLASH.STRIP,
+    lowercasePath: false
+};
+
+/**
+ * Valid content group ID: lowercase snake case starting with a letter
+ * Group IDs become visitor field paths, so dots and dollar signs are never allowed
+ */
+export const CONTENT_GROUP_ID_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+/**
+ * Valid content group path pattern: an absolute path where * matches within one
+ * path segment and ** matches any number of segments
+ */
+export const CONTENT_PATH_PATTERN = /^\/[^\s?#]*$/;
+
+/**
+ * Maximum number of content groups a company may define
+ */
+export const MAX_CONTENT_GROUPS = 50;
+
+/**
+ * Maximum number of path patterns of a content group
+ */
+export const MAX_CONTENT_GROUP_PATTERNS = 20;
+
+/**
+ * Maximum number of query parameters kept by URL normalization
+ */
+export const MAX_KEPT_QUERY_PARAMS = 20;
+
+/**
+ * Days covered by content group reports when no start is given
+ */
+export const DEFAULT_CONTENT_REPORT_DAYS = 30;
+
+/**
+ * Number of most viewed pages listed per content group in reports
+ */
+export const CONTENT_REPORT_TOP_PAGES = 5;
+
+/**
+ * Visitor field holding the per-group page view summaries, e.g. contentGroups.case_studies.views
+ */
+export const CONTENT_GROUP_SUMMARY_FIELD = 'contentGroups';
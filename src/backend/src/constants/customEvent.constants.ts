@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Constants and enums for company-defined custom events
+ * Defines the property types custom events may declare and the bounds of event definitions
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining the types a custom event property may declare
+ */
+export enum CUSTOM_EVENT_PROPERTY_TYPE {
+    STRING = 'STRING',
+    NUMBER = 'NUMBER',
+    BOOLEAN = 'BOOLEAN',
+    /** ISO 8601 timestamp or milliseconds since the epoch, stored as a Date */
+    DATE = 'DATE'
+}
+
+/**
+ * Valid custom event and property name: lowercase snake case starting with a letter
+ * Names become visitor field paths, so dots and dollar signs are never allowed
+ */
+export const CUSTOM_EVENT_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+/**
+ * Maximum number of custom events a company may define
+ */
+export const MAX_CUSTOM_EVENTS = 50;
+
+/**
+ * Maximum number of properties a custom event may declare
+ */
+export const MAX_CUSTOM_EVENT_PROPERTIES = 25;
+
+/**
+ * Maximum length of a string property value
+ */
+export const MAX_CUSTOM_EVENT_STRING_LENGTH = 1000;
+
+/**
+ * Visitor field holding the per-event summaries, e.g. customEvents.demo_booked.count
+ */
+export const CUSTOM_EVENT_SUMMARY_FIELD = 'customEvents';
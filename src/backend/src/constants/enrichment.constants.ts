@@ -0,0 +1,142 @@
+/**
+ * Constants and enums for visitor data enrichment
+ * Defines provider querying modes, enrichable fields and provider health thresholds
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining how enrichment providers are queried
+ */
+export enum ENRICHMENT_MODE {
+  /** Query every available provider concurrently */
+  PARALLEL = 'PARALLEL',
+  /** Query providers in order, stopping once required fields are filled */
+  WATERFALL = 'WATERFALL'
+}
+
+/**
+ * Enriched data fields resolvable from providers, in output order
+ */
+export const ENRICHABLE_FIELDS = [
+  'company',
+  'title',
+  'industry',
+  'size',
+  'revenue',
+  'website',
+  'technologies',
+  'linkedinUrl',
+  'socialProfiles',
+  'customFields'
+] as const;
+
+/**
+ * Key under ICompanySettings.integrationConfig.integrationSettings holding enrichment settings
+ */
+export const ENRICHMENT_SETTINGS_KEY = 'enrichment';
+
+/**
+ * Fields that must be filled before a waterfall stops when a company sets none
+ */
+export const DEFAULT_REQUIRED_FIELDS = ['company', 'title'] as const;
+
+/**
+ * Consecutive failures after which a provider is skipped until its cooldown expires
+ */
+export const PROVIDER_FAILURE_THRESHOLD = 3;
+
+/**
+ * Time a failing provider is skipped for (5 minutes)
+ */
+export const PROVIDER_COOLDOWN_MS = 1000 * 60 * 5;
+
+/**
+ * Enriched data fields describing the company behind an email domain
+ * Cached per domain so visitors from the same company reuse them
+ */
+export const DOMAIN_LEVEL_FIELDS = [
+  'company',
+  'industry',
+  'size',
+  'revenue',
+  'website',
+  'technologies',
+  'linkedinUrl'
+] as const;
+
+/**
+ * Free email domains whose visitors share no company, excluded from domain caching
+ */
+export const FREE_EMAIL_DOMAINS = [
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'aol.com',
+  'icloud.com',
+  'me.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com'
+] as const;
+
+/**
+ * Days an enrichment result stays fresh when a company sets no staleness window
+ */
+export const DEFAULT_STALENESS_DAYS = 30;
+
+/**
+ * Bounds of the per-company staleness window in days
+ */
+export const MIN_STALENESS_DAYS = 1;
+export const MAX_STALENESS_DAYS = 365;
+
+/**
+ * Interval between scans for stale enriched visitors (1 hour)
+ */
+export const REENRICHMENT_SCAN_INTERVAL_MS = 1000 * 60 * 60;
+
+/**
+ * Maximum stale visitors queued for re-enrichment per scan
+ */
+export const REENRICHMENT_BATCH_SIZE = 500;
+
+/**
+ * Time a queued visitor is left out of scans, after which a lost job is queued again (1 day)
+ */
+export const REENRICHMENT_QUEUED_TTL_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Delay before polling the enrichment queue again after a failed poll (30 seconds)
+ */
+export const REENRICHMENT_POLL_RETRY_MS = 1000 * 30;
+
+/**
+ * Queue receiving re-enrichment jobs
+ */
+export const REENRICHMENT_QUEUE = 'dataEnrichment';
+
+/**
+ * Message type of re-enrichment jobs
+ */
+export const REENRICHMENT_MESSAGE_TYPE = 'visitor.reenrich';
+
+/**
+ * Enriched data fields whose provider values can be reviewed and overridden by team members
+ */
+export const REVIEWABLE_FIELDS = [
+  'company',
+  'title',
+  'industry',
+  'size',
+  'revenue',
+  'website',
+  'linkedinUrl'
+] as const;
+
+/**
+ * Provider recorded in provenance for manually entered field values
+ */
+export const MANUAL_OVERRIDE_PROVIDER = 'manual';
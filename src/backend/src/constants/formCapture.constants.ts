@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Constants and enums for form field capture
+ * Defines the visitor fields form inputs may be mapped to, the inputs that are never
+ * captured and the bounds of form capture settings
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining the visitor fields form inputs can be mapped to
+ */
+export enum FORM_CAPTURE_FIELD {
+    EMAIL = 'email',
+    NAME = 'name',
+    PHONE = 'phone',
+    /** Company the visitor entered, kept as a custom identification field */
+    COMPANY = 'company'
+}
+
+/**
+ * Input names that are never captured, whatever the company maps or marks as sensitive
+ */
+export const ALWAYS_SENSITIVE_INPUT_PATTERN = /pass(word|wd|code)?|pwd|secret|token|cc-?num|card|cvc|cvv|iban|ssn/i;
+
+/**
+ * Submitted values of a consent checkbox granting identification
+ */
+export const CONSENT_INPUT_VALUES = ['true', 'on', 'yes', '1'];
+
+/**
+ * Maximum number of forms a company may map
+ */
+export const MAX_CAPTURED_FORMS = 50;
+
+/**
+ * Maximum number of input names a company may mark as sensitive
+ */
+export const MAX_SENSITIVE_INPUTS = 50;
+
+/**
+ * Maximum length of an input name and of a captured value
+ */
+export const FORM_INPUT_NAME_MAX_LENGTH = 100;
+export const FORM_VALUE_MAX_LENGTH = 255;
@@ -0,0 +1,75 @@
+/**
+ * @fileoverview Constants and enums for conversion goals and funnels
+ * Defines the goal types companies may define, the bounds of goal and funnel definitions
+ * and the dimensions funnel reports can be segmented by
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining the visitor activity a goal is completed by
+ */
+export enum GOAL_TYPE {
+    /** Visitor viewed a page whose URL contains the goal's pattern */
+    PAGE_VISIT = 'PAGE_VISIT',
+    /** Visitor submitted a form, optionally a given form or on matching pages */
+    FORM_SUBMIT = 'FORM_SUBMIT',
+    /** Visitor performed a company-defined custom event */
+    CUSTOM_EVENT = 'CUSTOM_EVENT'
+}
+
+/**
+ * Enum defining the visitor dimensions funnel reports can be segmented by
+ */
+export enum FUNNEL_SEGMENT {
+    /** Visitor identification status */
+    STATUS = 'status',
+    /** Industry of the visitor's enriched company */
+    INDUSTRY = 'industry'
+}
+
+/**
+ * Valid goal and funnel ID: lowercase snake case starting with a letter
+ * Goal IDs become visitor field paths, so dots and dollar signs are never allowed
+ */
+export const GOAL_ID_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+/**
+ * Maximum number of goals a company may define
+ */
+export const MAX_GOALS = 50;
+
+/**
+ * Maximum number of funnels a company may define
+ */
+export const MAX_FUNNELS = 20;
+
+/**
+ * Bounds of the number of steps of a funnel
+ */
+export const MIN_FUNNEL_STEPS = 2;
+export const MAX_FUNNEL_STEPS = 10;
+
+/**
+ * Days a visitor has to complete a funnel after entering it, unless the funnel sets its own window
+ */
+export const DEFAULT_FUNNEL_WINDOW_DAYS = 30;
+
+/**
+ * Maximum conversion window of a funnel, bounded by activity retention
+ */
+export const MAX_FUNNEL_WINDOW_DAYS = 90;
+
+/**
+ * Days covered by goal and funnel reports when no start is given
+ */
+export const DEFAULT_GOAL_REPORT_DAYS = 30;
+
+/**
+ * Segment of visitors whose segmented dimension is unknown, e.g. not yet enriched
+ */
+export const UNKNOWN_SEGMENT = 'Unknown';
+
+/**
+ * Visitor field holding the per-goal completion summaries, e.g. goals.trial_signup.count
+ */
+export const GOAL_COMPLETION_FIELD = 'goals';
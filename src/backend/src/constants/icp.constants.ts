@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Constants and enums for ideal customer profile (ICP) matching
+ * Defines fit tiers, matchable criteria and the match ratios each tier requires
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining how well a visitor fits the company's ideal customer profiles
+ */
+export enum ICP_FIT_TIER {
+    /** Matches every criterion of an ICP */
+    A = 'A',
+    /** Matches most criteria of an ICP */
+    B = 'B',
+    /** Matches some criteria of an ICP */
+    C = 'C',
+    /** Matches too few criteria of any ICP */
+    NONE = 'NONE'
+}
+
+/**
+ * Criteria an ICP can define
+ */
+export const ICP_CRITERIA = ['industries', 'sizes', 'revenues', 'technologies', 'countries'] as const;
+
+/**
+ * Minimum share of an ICP's defined criteria a visitor must match per tier, best tier first
+ */
+export const ICP_TIER_THRESHOLDS: ReadonlyArray<{ tier: ICP_FIT_TIER; minMatchRatio: number }> = [
+    { tier: ICP_FIT_TIER.A, minMatchRatio: 1 },
+    { tier: ICP_FIT_TIER.B, minMatchRatio: 0.6 },
+    { tier: ICP_FIT_TIER.C, minMatchRatio: 0.3 }
+];
+
+/**
+ * Maximum number of ICPs a company may define
+ */
+export const MAX_IDEAL_CUSTOMER_PROFILES = 10;
+
+/**
+ * Maximum number of values per ICP criterion
+ */
+export const MAX_ICP_CRITERION_VALUES = 100;
+
+/**
+ * Visitors re-classified per batch when a company changes its ICPs
+ */
+export const ICP_RECLASSIFY_BATCH_SIZE = 200;
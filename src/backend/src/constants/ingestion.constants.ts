@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Constants and enums for server-side event ingestion
+ * Defines the ingest API key format, batch bounds and per-line outcomes
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining the outcome of one line of an ingestion batch
+ */
+export enum INGEST_LINE_STATUS {
+    /** Event recorded */
+    ACCEPTED = 'ACCEPTED',
+    /** Event ID already recorded, by an earlier batch or an earlier line of the same batch */
+    DUPLICATE = 'DUPLICATE',
+    /** Line is not a valid event and was not recorded */
+    REJECTED = 'REJECTED'
+}
+
+/**
+ * Prefix of company ingest API keys, letting secret scanners recognize leaked keys
+ */
+export const INGEST_KEY_PREFIX = 'imk_';
+
+/**
+ * Random bytes of an ingest API key
+ */
+export const INGEST_KEY_BYTES = 32;
+
+/**
+ * Maximum events per ingestion batch
+ */
+export const INGEST_MAX_BATCH_LINES = 5000;
+
+/**
+ * Maximum size of an ingestion request body
+ */
+export const INGEST_MAX_BODY_SIZE = '10mb';
+
+/**
+ * Maximum length of a client-supplied event ID
+ */
+export const INGEST_EVENT_ID_MAX_LENGTH = 128;
+
+/**
+ * Activities written to the activity store per insert
+ */
+export const INGEST_WRITE_CHUNK_SIZE = 500;
@@ -24,6 +24,47 @@ export enum INTEGRATION_STATUS {
   ERROR = 'ERROR'
 }
 
+/**
+ * Enum defining the states of a sync run
+ */
+export enum SYNC_RUN_STATUS {
+  RUNNING = 'RUNNING',
+  SUCCESS = 'SUCCESS',
+  PARTIAL = 'PARTIAL',
+  ERROR = 'ERROR'
+}
+
+/**
+ * Enum defining what started a sync run
+ */
+export enum SYNC_TRIGGER {
+  USER = 'USER',
+  SCHEDULER = 'SCHEDULER'
+}
+
+/**
+ * Enum defining which visitors a sync run pushes
+ * DELTA pushes visitors changed since the integration's sync cursor, FULL pushes every
+ * candidate from the start to recover a CRM, RETRY pushes the failed records of a run again
+ */
+export enum SYNC_MODE {
+  DELTA = 'DELTA',
+  FULL = 'FULL',
+  RETRY = 'RETRY'
+}
+
+/**
+ * Number of visitors read and pushed per batch of a sync run; the sync cursor is saved
+ * after each batch so a failed run resumes after the last batch pushed
+ */
+export const SYNC_BATCH_SIZE = 500;
+
+/**
+ * Default and maximum page size of the sync history
+ */
+export const SYNC_RUN_PAGE_SIZE = 10;
+export const MAX_SYNC_RUN_PAGE_SIZE = 50;
+
 /**
  * Object defining available sync interval options in milliseconds
  */
@@ -63,6 +104,149 @@ export const CRM_API_ENDPOINTS = {
   ZOHO: 'https://accounts.zoho.com/oauth/v2/token'
 } as const;
 
+/**
+ * Enum defining the CRM objects visitors can be pushed as
+ */
+export enum CRM_OBJECT {
+  LEAD = 'LEAD',
+  CONTACT = 'CONTACT',
+  ACCOUNT = 'ACCOUNT'
+}
+
+/**
+ * CRM object visitors are pushed as unless the integration configures another
+ */
+export const DEFAULT_CRM_SYNC_OBJECT = CRM_OBJECT.LEAD;
+
+/**
+ * Native object of each CRM behind each CRM object
+ * HubSpot and Pipedrive keep people as contacts and persons, so leads are pushed there too
+ */
+export const CRM_OBJECT_NAMES = {
+  SALESFORCE: { LEAD: 'Lead', CONTACT: 'Contact', ACCOUNT: 'Account' },
+  HUBSPOT: { LEAD: 'contacts', CONTACT: 'contacts', ACCOUNT: 'companies' },
+  PIPEDRIVE: { LEAD: 'persons', CONTACT: 'persons', ACCOUNT: 'organizations' },
+  ZOHO: { LEAD: 'Leads', CONTACT: 'Contacts', ACCOUNT: 'Accounts' }
+} as const;
+
+/**
+ * Enum defining the relationship fields pulled back from the CRM onto visitors
+ */
+export enum CRM_INBOUND_FIELD {
+  OWNER = 'owner',
+  LIFECYCLE_STAGE = 'lifecycleStage',
+  OPEN_OPPORTUNITY = 'openOpportunity',
+  DEAL_STAGE = 'dealStage'
+}
+
+/**
+ * Enum defining which value is kept when a pulled CRM value differs from the visitor's
+ */
+export enum CRM_CONFLICT_WINNER {
+  CRM = 'CRM',
+  LOCAL = 'LOCAL'
+}
+
+/**
+ * Side winning conflicts on fields the integration configures no winner for
+ */
+export const DEFAULT_CRM_CONFLICT_WINNER = CRM_CONFLICT_WINNER.CRM;
+
+/**
+ * Access token lifetime assumed when a CRM does not report one (Salesforce), in seconds
+ */
+export const DEFAULT_CRM_TOKEN_TTL_SECONDS = 60 * 60;
+
+/**
+ * Visitor fields holding the ideal customer profile fit
+ */
+export const ICP_FIT_SOURCE_FIELDS = {
+  TIER: 'icpFit.tier',
+  REASONS: 'icpFit.reasons'
+} as const;
+
+/**
+ * Visitor fields holding custom event summaries, e.g. customEvents.demo_booked.count
+ * or customEvents.demo_booked.lastProperties.plan
+ */
+export const CUSTOM_EVENT_SOURCE_FIELD_PATTERN =
+  /^customEvents\.[a-z][a-z0-9_]{0,63}\.(count|firstOccurredAt|lastOccurredAt|lastProperties\.[a-z][a-z0-9_]{0,63})$/;
+
+/**
+ * Visitor fields holding conversion goal completions, e.g. goals.trial_signup.firstCompletedAt
+ */
+export const GOAL_SOURCE_FIELD_PATTERN = /^goals\.[a-z][a-z0-9_]{0,63}\.(count|firstCompletedAt|lastCompletedAt)$/;
+
+/**
+ * Transform rendering ICP match reasons as a single text value
+ */
+export const ICP_REASONS_TRANSFORM = 'formatIcpReasons';
+
+/**
+ * Enum defining the built-in operators of field mapping transformations
+ */
+export enum TRANSFORM_OPERATOR {
+  CONCAT = 'concat',
+  SPLIT = 'split',
+  JOIN = 'join',
+  LOWERCASE = 'lowercase',
+  UPPERCASE = 'uppercase',
+  TRIM = 'trim',
+  MAP_VALUE = 'mapValue',
+  FORMAT_DATE = 'formatDate',
+  DEFAULT = 'default',
+  IF = 'if',
+  EQUALS = 'equals',
+  CONTAINS = 'contains',
+  IS_EMPTY = 'isEmpty',
+  AND = 'and',
+  OR = 'or',
+  NOT = 'not'
+}
+
+/**
+ * Minimum and maximum number of arguments of each transformation operator
+ */
+export const TRANSFORM_OPERATOR_ARITY: Record<TRANSFORM_OPERATOR, [number, number]> = {
+  [TRANSFORM_OPERATOR.CONCAT]: [1, Infinity],
+  [TRANSFORM_OPERATOR.SPLIT]: [2, 3],
+  [TRANSFORM_OPERATOR.JOIN]: [1, 2],
+  [TRANSFORM_OPERATOR.LOWERCASE]: [1, 1],
+  [TRANSFORM_OPERATOR.UPPERCASE]: [1, 1],
+  [TRANSFORM_OPERATOR.TRIM]: [1, 1],
+  [TRANSFORM_OPERATOR.MAP_VALUE]: [1, 2],
+  [TRANSFORM_OPERATOR.FORMAT_DATE]: [2, 3],
+  [TRANSFORM_OPERATOR.DEFAULT]: [2, Infinity],
+  [TRANSFORM_OPERATOR.IF]: [2, 3],
+  [TRANSFORM_OPERATOR.EQUALS]: [2, 2],
+  [TRANSFORM_OPERATOR.CONTAINS]: [2, 2],
+  [TRANSFORM_OPERATOR.IS_EMPTY]: [1, 1],
+  [TRANSFORM_OPERATOR.AND]: [1, Infinity],
+  [TRANSFORM_OPERATOR.OR]: [1, Infinity],
+  [TRANSFORM_OPERATOR.NOT]: [1, 1]
+};
+
+/**
+ * Bounds on the size of a field mapping transformation, keeping its evaluation cheap
+ */
+export const MAX_TRANSFORM_DEPTH = 8;
+export const MAX_TRANSFORM_NODES = 64;
+
+/**
+ * Visitor field path a transformation may read, e.g. enrichedData.company
+ */
+export const TRANSFORM_FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z0-9_]+)*$/;
+
+/**
+ * Default CRM fields receiving the ICP fit tier and match reasons for each CRM
+ */
+export const ICP_FIT_CRM_FIELDS = {
+  SALESFORCE: { tier: 'ICP_Fit_Tier__c', reasons: 'ICP_Match_Reasons__c' },
+  HUBSPOT: { tier: 'icp_fit_tier', reasons: 'icp_match_reasons' },
+  PIPEDRIVE: { tier: 'icp_fit_tier', reasons: 'icp_match_reasons' },
+  ZOHO: { tier: 'ICP_Fit_Tier', reasons: 'ICP_Match_Reasons' }
+} as const;
+
 /**
  * Type definitions for CRM integration configuration
  */
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview Constants and enums for visitor lead scoring
+ * Defines scoring rule types, score bounds and the default rule set
+ * @version 1.0.0
+ */
+
+import { VISITOR_ACTIVITY_TYPE } from './visitor.constants';
+import { IScoringRule } from '../interfaces/scoring.interface';
+
+/**
+ * Enum defining the signals a scoring rule can evaluate
+ */
+export enum SCORING_RULE_TYPE {
+    /** Points per tracked activity of a given type */
+    ACTIVITY_COUNT = 'ACTIVITY_COUNT',
+    /** Points per visited page matching a URL pattern */
+    PAGE_VISIT = 'PAGE_VISIT',
+    /** Points once total time on site reaches a threshold */
+    TIME_SPENT = 'TIME_SPENT',
+    /** Points when an enriched firmographic field matches one of the given values */
+    FIRMOGRAPHIC = 'FIRMOGRAPHIC',
+    /** Points per occurrence of a company-defined custom event */
+    CUSTOM_EVENT = 'CUSTOM_EVENT',
+    /** Points per completion of a company-defined conversion goal */
+    GOAL = 'GOAL'
+}
+
+/**
+ * Enriched data fields firmographic rules can match against
+ */
+export const FIRMOGRAPHIC_FIELDS = ['industry', 'size', 'revenue'] as const;
+
+/**
+ * Bounds of a visitor lead score
+ */
+export const MIN_LEAD_SCORE = 0;
+export const MAX_LEAD_SCORE = 100;
+
+/**
+ * Maximum number of rules a company may define
+ */
+export const MAX_SCORING_RULES = 50;
+
+/**
+ * Default number of score history entries returned per visitor
+ */
+export const SCORE_HISTORY_DEFAULT_LIMIT = 50;
+
+/**
+ * Rules applied when a company has not defined its own
+ */
+export const DEFAULT_SCORING_RULES: IScoringRule[] = [
+    {
+        id: 'default-page-views',
+        name: 'Page views',
+        type: SCORING_RULE_TYPE.ACTIVITY_COUNT,
+        activityType: VISITOR_ACTIVITY_TYPE.PAGE_VIEW,
+        points: 2,
+        maxPoints: 20
+    },
+    {
+        id: 'default-form-submits',
+        name: 'Form submissions',
+        type: SCORING_RULE_TYPE.ACTIVITY_COUNT,
+        activityType: VISITOR_ACTIVITY_TYPE.FORM_SUBMIT,
+        points: 15,
+        maxPoints: 30
+    },
+    {
+        id: 'default-downloads',
+        name: 'File downloads',
+        type: SCORING_RULE_TYPE.ACTIVITY_COUNT,
+        activityType: VISITOR_ACTIVITY_TYPE.FILE_DOWNLOAD,
+        points: 5,
+        maxPoints: 15
+    },
+    {
+        id: 'default-pricing-page',
+        name: 'Visited pricing',
+        type: SCORING_RULE_TYPE.PAGE_VISIT,
+        pagePattern: '/pricing',
+        points: 10,
+        maxPoints: 10
+    },
+    {
+        id: 'default-engaged-time',
+        name: 'Engaged for 5+ minutes',
+        type: SCORING_RULE_TYPE.TIME_SPENT,
+        threshold: 300,
+        points: 10
+    }
+];
@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Constants and enums for bot and crawler traffic classification
+ * Defines the signals a visitor is flagged as a bot on and the reference data used to detect them
+ * @version 1.0.0
+ */
+
+/**
+ * Enum defining why a visitor was classified as a bot
+ */
+export enum BOT_SIGNAL {
+    /** User agent of a known crawler, monitor or HTTP library */
+    USER_AGENT = 'USER_AGENT',
+    /** Headless or automated browser */
+    HEADLESS_BROWSER = 'HEADLESS_BROWSER',
+    /** Request from a known datacenter or cloud IP range */
+    DATACENTER_IP = 'DATACENTER_IP',
+    /** Pages viewed faster than a person can read them */
+    PAGE_RATE = 'PAGE_RATE'
+}
+
+/**
+ * User agents of crawlers, uptime monitors, link previewers and HTTP libraries
+ */
+export const BOT_USER_AGENT_PATTERN = new RegExp([
+    'bot\\b', 'crawl', 'spider', 'slurp', 'mediapartners', 'facebookexternalhit', 'embedly',
+    'uptimerobot', 'pingdom', 'statuscake', 'site24x7', 'newrelicpinger', 'datadog', 'checkly',
+    'lighthouse', 'pagespeed', 'gtmetrix', 'curl/', 'wget/', 'python-requests', 'python-urllib',
+    'go-http-client', 'okhttp', 'axios/', 'node-fetch', 'java/', 'libwww-perl', 'scrapy'
+].join('|'), 'i');
+
+/**
+ * User agents of headless and automated browsers
+ */
+export const HEADLESS_USER_AGENT_PATTERN = /headlesschrome|phantomjs|puppeteer|playwright|selenium|electron\//i;
+
+/**
+ * Minimum page views in a session before its page rate is judged
+ */
+export const BOT_MIN_SESSION_PAGES = 20;
+
+/**
+ * Page views per minute no person sustains across a session
+ */
+export const BOT_MAX_PAGES_PER_MINUTE = 30;
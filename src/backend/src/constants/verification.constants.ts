@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Constants and enums for email and phone verification during identification
+ * Defines email classifications, verification outcomes and the reference data used to derive them
+ * @version 1.0.0
+ */
+
+import { FREE_EMAIL_DOMAINS } from './enrichment.constants';
+
+/**
+ * Enum classifying the mailbox behind an email address
+ */
+export enum EMAIL_TYPE {
+    /** Address on a company-owned domain */
+    CORPORATE = 'CORPORATE',
+    /** Address at a free webmail provider */
+    FREE_WEBMAIL = 'FREE_WEBMAIL',
+    /** Address at a disposable/temporary mailbox provider */
+    DISPOSABLE = 'DISPOSABLE',
+    /** Shared role mailbox such as info@ or sales@ */
+    ROLE = 'ROLE'
+}
+
+/**
+ * Enum defining the outcome of verifying an identification
+ */
+export enum VERIFICATION_STATUS {
+    /** Identification passed every check */
+    VERIFIED = 'VERIFIED',
+    /** Identification accepted but marked for review */
+    FLAGGED = 'FLAGGED',
+    /** Identification refused by the company's policy */
+    REJECTED = 'REJECTED'
+}
+
+/**
+ * Enum defining why an identification failed a check
+ */
+export enum VERIFICATION_REASON {
+    FREE_WEBMAIL = 'FREE_WEBMAIL',
+    DISPOSABLE_EMAIL = 'DISPOSABLE_EMAIL',
+    ROLE_ACCOUNT = 'ROLE_ACCOUNT',
+    /** Email domain is a likely misspelling of a common provider */
+    LIKELY_TYPO = 'LIKELY_TYPO',
+    /** Email domain has no MX records */
+    NO_MX_RECORDS = 'NO_MX_RECORDS',
+    /** Phone number cannot be normalized to E.164 */
+    INVALID_PHONE = 'INVALID_PHONE',
+    /** Phone number is national and the visitor's country is unknown */
+    PHONE_COUNTRY_UNKNOWN = 'PHONE_COUNTRY_UNKNOWN'
+}
+
+/**
+ * Enum defining how a company treats non-corporate identifications
+ */
+export enum NON_CORPORATE_POLICY {
+    /** Accept free webmail, disposable and role addresses */
+    ALLOW = 'ALLOW',
+    /** Accept them flagged for review */
+    FLAG = 'FLAG',
+    /** Refuse the identification */
+    REJECT = 'REJECT'
+}
+
+/**
+ * Reasons governed by the company's non-corporate policy
+ */
+export const NON_CORPORATE_REASONS: ReadonlyArray<VERIFICATION_REASON> = [
+    VERIFICATION_REASON.FREE_WEBMAIL,
+    VERIFICATION_REASON.DISPOSABLE_EMAIL,
+    VERIFICATION_REASON.ROLE_ACCOUNT
+];
+
+/**
+ * Reasons indicating the contact details cannot be reached
+ */
+export const UNDELIVERABLE_REASONS: ReadonlyArray<VERIFICATION_REASON> = [
+    VERIFICATION_REASON.LIKELY_TYPO,
+    VERIFICATION_REASON.NO_MX_RECORDS,
+    VERIFICATION_REASON.INVALID_PHONE
+];
+
+/**
+ * Verification settings applied when a company has not configured its own
+ */
+export const DEFAULT_VERIFICATION_SETTINGS = {
+    nonCorporatePolicy: NON_CORPORATE_POLICY.FLAG,
+    checkMx: true,
+    rejectUndeliverable: false
+} as const;
+
+/**
+ * Free webmail provider domains: the enrichment free domains plus regional providers
+ */
+export const WEBMAIL_DOMAINS: ReadonlySet<string> = new Set([
+    ...FREE_EMAIL_DOMAINS,
+    'yahoo.co.uk', 'ymail.com', 'hotmail.co.uk', 'msn.com', 'mac.com',
+    'gmx.de', 'web.de', 'mail.com', 'zoho.com', 'yandex.com',
+    'yandex.ru', 'mail.ru', 'qq.com', '163.com', 'fastmail.com'
+]);
+
+/**
+ * Disposable mailbox provider domains
+ */
+export const DISPOSABLE_EMAIL_DOMAINS: ReadonlySet<string> = new Set([
+    'mailinator.com', 'guerrillamail.com', 'guerrillamail.net', 'sharklasers.com',
+    '10minutemail.com', 'tempmail.com', 'temp-mail.org', 'throwawaymail.com',
+    'yopmail.com', 'trashmail.com', 'getnada.com', 'dispostable.com',
+    'maildrop.cc', 'fakeinbox.com', 'mintemail.com', 'mohmal.com'
+]);
+
+/**
+ * Local parts of shared role mailboxes
+ */
+export const ROLE_ACCOUNT_PREFIXES: ReadonlySet<string> = new Set([
+    'admin', 'billing', 'contact', 'help', 'hello', 'info', 'marketing',
+    'noreply', 'no-reply', 'office', 'sales', 'support', 'team', 'webmaster'
+]);
+
+/**
+ * Common misspellings of webmail domains mapped to the intended domain
+ */
+export const EMAIL_DOMAIN_TYPOS: Readonly<Record<string, string>> = {
+    'gmial.com': 'gmail.com',
+    'gmal.com': 'gmail.com',
+    'gamil.com': 'gmail.com',
+    'gmail.co': 'gmail.com',
+    'gnail.com': 'gmail.com',
+    'yaho.com': 'yahoo.com',
+    'yahooo.com': 'yahoo.com',
+    'hotmial.com': 'hotmail.com',
+    'hotmal.com': 'hotmail.com',
+    'outlok.com': 'outlook.com',
+    'iclod.com': 'icloud.com'
+};
+
+/**
+ * International calling codes and national trunk prefixes by ISO 3166-1 alpha-2 country code
+ */
+export const COUNTRY_CALLING_CODES: Readonly<Record<string, { callingCode: string; trunkPrefix?: string }>> = {
+    US: { callingCode: '1', trunkPrefix: '1' },
+    CA: { callingCode: '1', trunkPrefix: '1' },
+    GB: { callingCode: '44', trunkPrefix: '0' },
+    IE: { callingCode: '353', trunkPrefix: '0' },
+    DE: { callingCode: '49', trunkPrefix: '0' },
+    FR: { callingCode: '33', trunkPrefix: '0' },
+    ES: { callingCode: '34' },
+    IT: { callingCode: '39' },
+    NL: { callingCode: '31', trunkPrefix: '0' },
+    BE: { callingCode: '32', trunkPrefix: '0' },
+    CH: { callingCode: '41', trunkPrefix: '0' },
+    AT: { callingCode: '43', trunkPrefix: '0' },
+    SE: { callingCode: '46', trunkPrefix: '0' },
+    DK: { callingCode: '45' },
+    NO: { callingCode: '47' },
+    PL: { callingCode: '48' },
+    AU: { callingCode: '61', trunkPrefix: '0' },
+    NZ: { callingCode: '64', trunkPrefix: '0' },
+    IN: { callingCode: '91', trunkPrefix: '0' },
+    JP: { callingCode: '81', trunkPrefix: '0' },
+    SG: { callingCode: '65' },
+    BR: { callingCode: '55', trunkPrefix: '0' },
+    MX: { callingCode: '52' },
+    IL: { callingCode: '972', trunkPrefix: '0' },
+    ZA: { callingCode: '27', trunkPrefix: '0' }
+};
+
+/**
+ * Valid E.164 number: plus sign, non-zero leading digit, at most 15 digits
+ */
+export const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Maximum time to wait for an MX lookup before treating it as inconclusive
+ */
+export const MX_LOOKUP_TIMEOUT_MS = 3000;
@@ -11,12 +11,25 @@
 export enum VISITOR_STATUS {
     /** Initial state when visitor is not identified */
     ANONYMOUS = 'ANONYMOUS',
+    /** Visitor's company has been resolved from their IP address, person still unknown */
+    COMPANY_RESOLVED = 'COMPANY_RESOLVED',
     /** Visitor has been identified with basic information */
     IDENTIFIED = 'IDENTIFIED',
     /** Visitor data has been enriched with additional information */
     ENRICHED = 'ENRICHED'
 }
 
+/**
+ * Ordering of visitor statuses by de-anonymization progress
+ * Used when combining records to keep the most advanced status
+ */
+export const VISITOR_STATUS_RANK: Record<VISITOR_STATUS, number> = {
+    [VISITOR_STATUS.ANONYMOUS]: 0,
+    [VISITOR_STATUS.COMPANY_RESOLVED]: 1,
+    [VISITOR_STATUS.IDENTIFIED]: 2,
+    [VISITOR_STATUS.ENRICHED]: 3
+};
+
 /**
  * Enum defining trackable visitor activities
  * Used for comprehensive visitor behavior monitoring
@@ -29,7 +42,9 @@ export enum VISITOR_ACTIVITY_TYPE {
     /** Visitor clicked a button or interactive element */
     BUTTON_CLICK = 'BUTTON_CLICK',
     /** Visitor downloaded a file */
-    FILE_DOWNLOAD = 'FILE_DOWNLOAD'
+    FILE_DOWNLOAD = 'FILE_DOWNLOAD',
+    /** Visitor performed a custom event registered by the company */
+    CUSTOM_EVENT = 'CUSTOM_EVENT'
 }
 
 /**
@@ -44,6 +59,113 @@ export const VISITOR_COLLECTION = 'visitors';
  */
 export const VISITOR_CACHE_TTL = 3600;
 
+/**
+ * Redis pub/sub channel carrying real-time visitor updates to the websocket server
+ */
+export const VISITOR_UPDATES_CHANNEL = 'visitor_updates';
+
+/**
+ * Classification of organizations owning an IP range
+ * Only corporate-style ranges are strong signals of who is browsing
+ */
+export enum IP_RANGE_TYPE {
+    /** Range registered directly to a business */
+    CORPORATE = 'CORPORATE',
+    /** Range owned by an educational institution */
+    EDUCATION = 'EDUCATION',
+    /** Range owned by a government body */
+    GOVERNMENT = 'GOVERNMENT',
+    /** Range owned by a hosting or cloud provider */
+    HOSTING = 'HOSTING',
+    /** Range owned by a consumer internet service provider */
+    ISP = 'ISP'
+}
+
+/**
+ * Base confidence weight applied to a match for each IP range type
+ */
+export const IP_RANGE_TYPE_WEIGHT: Record<IP_RANGE_TYPE, number> = {
+    [IP_RANGE_TYPE.CORPORATE]: 1,
+    [IP_RANGE_TYPE.EDUCATION]: 0.8,
+    [IP_RANGE_TYPE.GOVERNMENT]: 0.8,
+    [IP_RANGE_TYPE.HOSTING]: 0.2,
+    [IP_RANGE_TYPE.ISP]: 0.1
+};
+
+/**
+ * Minimum confidence (0-1) required before a visitor is marked COMPANY_RESOLVED
+ */
+export const COMPANY_RESOLUTION_MIN_CONFIDENCE = 0.6;
+
+/**
+ * Enum defining deterministic keys used to link visitor records across devices
+ */
+export enum IDENTITY_KEY_TYPE {
+    /** Normalized email address */
+    EMAIL = 'EMAIL',
+    /** Normalized phone number */
+    PHONE = 'PHONE',
+    /** Customer-supplied identifier from identification custom fields */
+    CUSTOM_ID = 'CUSTOM_ID'
+}
+
+/**
+ * Enum defining the progress of an identity graph merge
+ */
+export enum MERGE_STATUS {
+    /** Recorded, activities and profiles may not all have been updated yet */
+    PENDING = 'PENDING',
+    /** Activities and profiles were updated */
+    COMPLETED = 'COMPLETED'
+}
+
+/**
+ * Pattern matching identification custom field names treated as identifiers
+ * e.g. userId, customer_id, crmId
+ */
+export const CUSTOM_ID_FIELD_PATTERN = /(^id$|_id$|Id$)/;
+
+/**
+ * Enum defining how a visitor was identified
+ */
+export enum IDENTIFICATION_METHOD {
+    /** Contact details submitted by the visitor, e.g. through a form */
+    FORM = 'FORM',
+    /** Payload signed by the customer's backend with the company identity secret */
+    SIGNED_TOKEN = 'SIGNED_TOKEN'
+}
+
+/**
+ * Length in bytes of a company identity signing secret
+ */
+export const IDENTITY_SECRET_BYTES = 32;
+
+/**
+ * Maximum age of a signed identity payload, limiting token replay
+ */
+export const SIGNED_IDENTITY_MAX_AGE_SECONDS = 600;
+
+/**
+ * Tolerated clock difference between the customer's backend and ours
+ */
+export const SIGNED_IDENTITY_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Maximum events accepted in a single tracking batch from the browser SDK
+ */
+export const TRACKING_MAX_BATCH_SIZE = 50;
+
+/**
+ * Inactivity after which a visitor's next activity starts a new session
+ * Default: 30 minutes
+ */
+export const SESSION_INACTIVITY_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Number of sessions returned per page of a visitor's session timeline
+ */
+export const DEFAULT_SESSION_PAGE_SIZE = 20;
+
 /**
  * Type guard to check if a string is a valid VISITOR_STATUS
  * @param status - String to check
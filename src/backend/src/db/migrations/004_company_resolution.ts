@@ -0,0 +1,44 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Company Resolution
+ * Adds the COMPANY_RESOLVED visitor status and storage for reverse-IP resolution results
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  // Extend visitor status enum with the intermediate resolution state
+  await queryInterface.sequelize.query(
+    "ALTER TYPE enum_visitors_status ADD VALUE IF NOT EXISTS 'COMPANY_RESOLVED' AFTER 'ANONYMOUS'"
+  );
+
+  await queryInterface.addColumn('visitors', 'company_resolution', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    comment: 'Reverse-IP company resolution result with confidence score'
+  });
+
+  await queryInterface.addIndex('visitors', ['company_id', 'status'], {
+    name: 'idx_visitors_company_status'
+  });
+}
+
+/**
+ * Rollback Migration: Company Resolution
+ * Reverts resolved visitors to ANONYMOUS and removes the resolution column
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitors', 'idx_visitors_company_status');
+  await queryInterface.removeColumn('visitors', 'company_resolution');
+
+  // PostgreSQL cannot drop a single enum value, so the type is rebuilt
+  await queryInterface.sequelize.query(`
+    UPDATE visitors SET status = 'ANONYMOUS' WHERE status = 'COMPANY_RESOLVED';
+    ALTER TYPE enum_visitors_status RENAME TO enum_visitors_status_old;
+    CREATE TYPE enum_visitors_status AS ENUM ('ANONYMOUS', 'IDENTIFIED', 'ENRICHED');
+    ALTER TABLE visitors ALTER COLUMN status DROP DEFAULT;
+    ALTER TABLE visitors ALTER COLUMN status TYPE enum_visitors_status
+      USING status::text::enum_visitors_status;
+    ALTER TABLE visitors ALTER COLUMN status SET DEFAULT 'ANONYMOUS';
+    DROP TYPE enum_visitors_status_old;
+  `);
+}
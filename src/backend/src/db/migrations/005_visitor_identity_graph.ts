@@ -0,0 +1,32 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Visitor Identity Graph
+ * Adds the canonical visitor reference used when cross-device records are merged
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('visitors', 'merged_into', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'visitors',
+      key: 'id'
+    },
+    onDelete: 'SET NULL',
+    comment: 'Canonical visitor this record was merged into'
+  });
+
+  await queryInterface.addIndex('visitors', ['merged_into'], {
+    name: 'idx_visitors_merged_into'
+  });
+}
+
+/**
+ * Rollback Migration: Visitor Identity Graph
+ * Removes the canonical visitor reference
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitors', 'idx_visitors_merged_into');
+  await queryInterface.removeColumn('visitors', 'merged_into');
+}
@@ -0,0 +1,35 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Lead Scoring
+ * Adds the visitor lead score used to rank and filter visitors
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('visitors', 'score', {
+    type: DataTypes.SMALLINT,
+    allowNull: false,
+    defaultValue: 0,
+    comment: 'Lead score (0-100) from company scoring rules'
+  });
+
+  await queryInterface.addColumn('visitors', 'score_updated_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+    comment: 'Timestamp the lead score last changed'
+  });
+
+  await queryInterface.addIndex('visitors', ['company_id', 'score'], {
+    name: 'idx_visitors_company_score'
+  });
+}
+
+/**
+ * Rollback Migration: Lead Scoring
+ * Removes the visitor lead score
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitors', 'idx_visitors_company_score');
+  await queryInterface.removeColumn('visitors', 'score_updated_at');
+  await queryInterface.removeColumn('visitors', 'score');
+}
@@ -0,0 +1,35 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: ICP Fit
+ * Adds the ideal customer profile fit tier and match reasons of each visitor
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('visitors', 'icp_tier', {
+    type: DataTypes.STRING(8),
+    allowNull: false,
+    defaultValue: 'NONE',
+    comment: 'Fit tier (A, B, C or NONE) against the company ICPs'
+  });
+
+  await queryInterface.addColumn('visitors', 'icp_fit', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    comment: 'Best matching ICP, matched criteria and classification time'
+  });
+
+  await queryInterface.addIndex('visitors', ['company_id', 'icp_tier'], {
+    name: 'idx_visitors_company_icp_tier'
+  });
+}
+
+/**
+ * Rollback Migration: ICP Fit
+ * Removes the ideal customer profile fit
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitors', 'idx_visitors_company_icp_tier');
+  await queryInterface.removeColumn('visitors', 'icp_fit');
+  await queryInterface.removeColumn('visitors', 'icp_tier');
+}
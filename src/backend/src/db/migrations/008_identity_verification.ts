@@ -0,0 +1,34 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Identity Verification
+ * Adds the verification verdict of the email and phone supplied by identified visitors
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('visitors', 'verification_status', {
+    type: DataTypes.STRING(16),
+    allowNull: true,
+    comment: 'Verification outcome (VERIFIED, FLAGGED or REJECTED), null when not verified'
+  });
+
+  await queryInterface.addColumn('visitors', 'verification', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    comment: 'Failed checks, email classification and E.164 phone of the identification'
+  });
+
+  await queryInterface.addIndex('visitors', ['company_id', 'verification_status'], {
+    name: 'idx_visitors_company_verification_status'
+  });
+}
+
+/**
+ * Rollback Migration: Identity Verification
+ * Removes the verification verdict
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitors', 'idx_visitors_company_verification_status');
+  await queryInterface.removeColumn('visitors', 'verification');
+  await queryInterface.removeColumn('visitors', 'verification_status');
+}
@@ -0,0 +1,41 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Signed Identification
+ * Adds the per-company identity signing secret and records how visitors were identified
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('companies', 'identity_secret', {
+    type: DataTypes.STRING,
+    allowNull: true,
+    comment: 'Encrypted HMAC secret verifying signed identification payloads'
+  });
+
+  await queryInterface.addColumn('visitors', 'identification_method', {
+    type: DataTypes.STRING(16),
+    allowNull: true,
+    comment: 'How the visitor was identified (FORM or SIGNED_TOKEN)'
+  });
+
+  await queryInterface.addColumn('visitors', 'external_user_id', {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+    comment: 'User ID in the customer system, set by signed identification'
+  });
+
+  await queryInterface.addIndex('visitors', ['company_id', 'external_user_id'], {
+    name: 'idx_visitors_company_external_user'
+  });
+}
+
+/**
+ * Rollback Migration: Signed Identification
+ * Removes the identity signing secret and identification method
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitors', 'idx_visitors_company_external_user');
+  await queryInterface.removeColumn('visitors', 'external_user_id');
+  await queryInterface.removeColumn('visitors', 'identification_method');
+  await queryInterface.removeColumn('companies', 'identity_secret');
+}
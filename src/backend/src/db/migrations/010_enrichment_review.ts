@@ -0,0 +1,40 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Enrichment Review
+ * Keeps per-field confidence, every provider candidate and team member overrides
+ * with the enrichment record so conflicting provider values can be reviewed
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('visitor_enrichment', 'field_confidence', {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: {},
+    comment: 'Confidence from 0 to 1 of each resolved field'
+  });
+
+  await queryInterface.addColumn('visitor_enrichment', 'field_candidates', {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: {},
+    comment: 'Every value providers supplied per field with provider, confidence and retrieval time'
+  });
+
+  await queryInterface.addColumn('visitor_enrichment', 'field_overrides', {
+    type: DataTypes.JSONB,
+    allowNull: false,
+    defaultValue: {},
+    comment: 'Fields locked by team members against re-enrichment with value, accepted provider and user'
+  });
+}
+
+/**
+ * Rollback Migration: Enrichment Review
+ * Removes field confidence, candidates and overrides
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeColumn('visitor_enrichment', 'field_overrides');
+  await queryInterface.removeColumn('visitor_enrichment', 'field_candidates');
+  await queryInterface.removeColumn('visitor_enrichment', 'field_confidence');
+}
@@ -0,0 +1,80 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Visitor Sessions
+ * Adds sessions grouping visitor activities separated by less than the inactivity timeout
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.createTable('visitor_sessions', {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4
+    },
+    visitor_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'visitors',
+        key: 'id'
+      },
+      onDelete: 'CASCADE'
+    },
+    started_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: 'Time of the first activity'
+    },
+    ended_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      comment: 'Time of the last activity'
+    },
+    duration_seconds: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    landing_page: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    exit_page: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    page_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    activity_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    referrer: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    utm_source: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+      comment: 'utm_source of the landing page'
+    }
+  });
+
+  await queryInterface.addIndex('visitor_sessions', ['visitor_id', 'started_at'], {
+    name: 'idx_visitor_sessions_visitor_started'
+  });
+}
+
+/**
+ * Rollback Migration: Visitor Sessions
+ * Removes visitor sessions
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitor_sessions', 'idx_visitor_sessions_visitor_started');
+  await queryInterface.dropTable('visitor_sessions');
+}
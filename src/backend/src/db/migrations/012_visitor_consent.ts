@@ -0,0 +1,80 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Visitor Consent
+ * Adds per-purpose consent state on visitors and the consent history kept for audits
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('visitors', 'consent', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    defaultValue: null,
+    comment: 'Current consent decision by purpose; null for visitors tracked before consent management'
+  });
+
+  // No foreign key to visitors: records outlive the visitors they belong to
+  await queryInterface.createTable('visitor_consent_records', {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4
+    },
+    company_id: {
+      type: DataTypes.UUID,
+      allowNull: false
+    },
+    visitor_id: {
+      type: DataTypes.UUID,
+      allowNull: false
+    },
+    purpose: {
+      type: DataTypes.ENUM('ANALYTICS', 'IDENTIFICATION', 'ENRICHMENT', 'CRM_SYNC'),
+      allowNull: false
+    },
+    granted: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false
+    },
+    source: {
+      type: DataTypes.ENUM('SDK', 'IDENTIFY_FORM', 'SIGNED_TOKEN', 'ADMIN'),
+      allowNull: false
+    },
+    policy_version: {
+      type: DataTypes.STRING(64),
+      allowNull: true
+    },
+    recorded_by: {
+      type: DataTypes.UUID,
+      allowNull: true,
+      comment: 'Team member who recorded the decision (ADMIN source only)'
+    },
+    user_agent: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    recorded_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  });
+
+  await queryInterface.addIndex('visitor_consent_records', ['visitor_id', 'recorded_at'], {
+    name: 'idx_visitor_consent_records_visitor_recorded'
+  });
+  await queryInterface.addIndex('visitor_consent_records', ['company_id', 'recorded_at'], {
+    name: 'idx_visitor_consent_records_company_recorded'
+  });
+}
+
+/**
+ * Rollback Migration: Visitor Consent
+ * Removes the consent history and consent state
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitor_consent_records', 'idx_visitor_consent_records_company_recorded');
+  await queryInterface.removeIndex('visitor_consent_records', 'idx_visitor_consent_records_visitor_recorded');
+  await queryInterface.dropTable('visitor_consent_records');
+  await queryInterface.removeColumn('visitors', 'consent');
+}
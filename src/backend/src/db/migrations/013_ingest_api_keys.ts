@@ -0,0 +1,28 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Ingest API Keys
+ * Adds the per-company API key authenticating server-side event ingestion
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('companies', 'ingest_key_hash', {
+    type: DataTypes.STRING(64),
+    allowNull: true,
+    comment: 'SHA-256 hash of the API key authenticating server-side event ingestion'
+  });
+
+  await queryInterface.addIndex('companies', ['ingest_key_hash'], {
+    name: 'idx_companies_ingest_key_hash',
+    unique: true
+  });
+}
+
+/**
+ * Rollback Migration: Ingest API Keys
+ * Removes the ingest API key
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('companies', 'idx_companies_ingest_key_hash');
+  await queryInterface.removeColumn('companies', 'ingest_key_hash');
+}
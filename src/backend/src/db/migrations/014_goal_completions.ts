@@ -0,0 +1,73 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Goal Completions
+ * Adds per-goal completion summaries on visitors and the completions goal and funnel reports read
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('visitors', 'goals', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    defaultValue: null,
+    comment: 'Completion count, first and last completion time by goal ID'
+  });
+
+  await queryInterface.createTable('visitor_goal_completions', {
+    id: {
+      type: DataTypes.UUID,
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4
+    },
+    company_id: {
+      type: DataTypes.UUID,
+      allowNull: false
+    },
+    visitor_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'visitors',
+        key: 'id'
+      },
+      onDelete: 'CASCADE'
+    },
+    goal_id: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'Goal ID from the company settings'
+    },
+    activity_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      comment: 'Activity that completed the goal'
+    },
+    completed_at: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  });
+
+  await queryInterface.addIndex('visitor_goal_completions', ['activity_id', 'goal_id'], {
+    name: 'idx_visitor_goal_completions_activity_goal',
+    unique: true
+  });
+  await queryInterface.addIndex('visitor_goal_completions', ['company_id', 'goal_id', 'completed_at'], {
+    name: 'idx_visitor_goal_completions_company_goal_completed'
+  });
+  await queryInterface.addIndex('visitor_goal_completions', ['visitor_id', 'completed_at'], {
+    name: 'idx_visitor_goal_completions_visitor_completed'
+  });
+}
+
+/**
+ * Rollback Migration: Goal Completions
+ * Removes the goal completions and completion summaries
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitor_goal_completions', 'idx_visitor_goal_completions_visitor_completed');
+  await queryInterface.removeIndex('visitor_goal_completions', 'idx_visitor_goal_completions_company_goal_completed');
+  await queryInterface.removeIndex('visitor_goal_completions', 'idx_visitor_goal_completions_activity_goal');
+  await queryInterface.dropTable('visitor_goal_completions');
+  await queryInterface.removeColumn('visitors', 'goals');
+}
@@ -0,0 +1,36 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Content Groups
+ * Adds per-group page view summaries on visitors and scopes activities to their company
+ * so content group reports can aggregate page views company-wide
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('visitors', 'content_groups', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    defaultValue: null,
+    comment: 'Page view count, first and last view time by content group ID'
+  });
+
+  await queryInterface.addColumn('visitor_activities', 'company_id', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    comment: 'Company of the visitor, null on activities recorded before content grouping'
+  });
+
+  await queryInterface.addIndex('visitor_activities', ['company_id', 'activity_type', 'timestamp'], {
+    name: 'idx_visitor_activities_company_type_timestamp'
+  });
+}
+
+/**
+ * Rollback Migration: Content Groups
+ * Removes the activity company scope and page view summaries
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeIndex('visitor_activities', 'idx_visitor_activities_company_type_timestamp');
+  await queryInterface.removeColumn('visitor_activities', 'company_id');
+  await queryInterface.removeColumn('visitors', 'content_groups');
+}
@@ -0,0 +1,71 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Integration Sync Runs
+ * Records sync runs in integration_sync_logs from their start, with what triggered them,
+ * the CRM object pushed and the run whose failed records they retry
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  // Runs are logged when they start and completed with their outcome
+  await queryInterface.sequelize.query(
+    "ALTER TYPE enum_integration_sync_logs_status ADD VALUE IF NOT EXISTS 'RUNNING' BEFORE 'SUCCESS'"
+  );
+
+  await queryInterface.addColumn('integration_sync_logs', 'trigger', {
+    type: DataTypes.ENUM('USER', 'SCHEDULER'),
+    allowNull: false,
+    defaultValue: 'SCHEDULER'
+  });
+
+  await queryInterface.addColumn('integration_sync_logs', 'triggered_by', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'users',
+      key: 'id'
+    },
+    onDelete: 'SET NULL',
+    comment: 'User who started the run, null for scheduled runs'
+  });
+
+  await queryInterface.addColumn('integration_sync_logs', 'retry_of', {
+    type: DataTypes.UUID,
+    allowNull: true,
+    references: {
+      model: 'integration_sync_logs',
+      key: 'id'
+    },
+    onDelete: 'SET NULL',
+    comment: 'Run whose failed records this run pushed again'
+  });
+
+  await queryInterface.addColumn('integration_sync_logs', 'sync_object', {
+    type: DataTypes.STRING(20),
+    allowNull: false,
+    defaultValue: 'LEAD',
+    comment: 'CRM object the visitors were pushed as'
+  });
+}
+
+/**
+ * Rollback Migration: Integration Sync Runs
+ * Removes the run trigger columns and the RUNNING status
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeColumn('integration_sync_logs', 'sync_object');
+  await queryInterface.removeColumn('integration_sync_logs', 'retry_of');
+  await queryInterface.removeColumn('integration_sync_logs', 'triggered_by');
+  await queryInterface.removeColumn('integration_sync_logs', 'trigger');
+  await queryInterface.sequelize.query('DROP TYPE IF EXISTS enum_integration_sync_logs_trigger');
+
+  // PostgreSQL cannot drop a single enum value, so the type is rebuilt
+  await queryInterface.sequelize.query(`
+    UPDATE integration_sync_logs SET status = 'ERROR', completed_at = NOW() WHERE status = 'RUNNING';
+    ALTER TYPE enum_integration_sync_logs_status RENAME TO enum_integration_sync_logs_status_old;
+    CREATE TYPE enum_integration_sync_logs_status AS ENUM ('SUCCESS', 'ERROR', 'PARTIAL');
+    ALTER TABLE integration_sync_logs ALTER COLUMN status TYPE enum_integration_sync_logs_status
+      USING status::text::enum_integration_sync_logs_status;
+    DROP TYPE enum_integration_sync_logs_status_old;
+  `);
+}
@@ -0,0 +1,24 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Visitor CRM State
+ * Adds the CRM record each visitor was pushed to, with the owner, lifecycle stage and
+ * open opportunity pulled back from the CRM
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('visitors', 'crm', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    defaultValue: null,
+    comment: 'Linked CRM record with its owner, lifecycle stage, open opportunity and deal stage'
+  });
+}
+
+/**
+ * Rollback Migration: Visitor CRM State
+ * Removes the linked CRM record of visitors
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.removeColumn('visitors', 'crm');
+}
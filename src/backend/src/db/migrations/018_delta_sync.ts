@@ -0,0 +1,82 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+/**
+ * Migration: Delta Sync
+ * Adds the cursor delta syncs resume from, the mode of each sync run and the idempotency
+ * keys recording the CRM record written for each visitor
+ * Version: 1.0.0
+ */
+export async function up(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.addColumn('integrations', 'sync_cursor', {
+    type: DataTypes.JSONB,
+    allowNull: true,
+    defaultValue: null,
+    comment: 'Change time and ID of the last visitor pushed, null before the first sync'
+  });
+
+  await queryInterface.addColumn('integration_sync_logs', 'mode', {
+    type: DataTypes.ENUM('DELTA', 'FULL', 'RETRY'),
+    allowNull: false,
+    defaultValue: 'DELTA'
+  });
+
+  await queryInterface.sequelize.query(
+    "UPDATE integration_sync_logs SET mode = 'RETRY' WHERE retry_of IS NOT NULL"
+  );
+
+  await queryInterface.createTable('integration_sync_keys', {
+    idempotency_key: {
+      type: DataTypes.STRING(255),
+      primaryKey: true,
+      allowNull: false,
+      comment: 'Integration, CRM object and visitor the record was written for'
+    },
+    integration_id: {
+      type: DataTypes.UUID,
+      allowNull: false,
+      references: {
+        model: 'integrations',
+        key: 'id'
+      },
+      onDelete: 'CASCADE'
+    },
+    visitor_id: {
+      type: DataTypes.STRING(64),
+      allowNull: false
+    },
+    crm_object: {
+      type: DataTypes.STRING(20),
+      allowNull: false
+    },
+    record_id: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      comment: 'ID of the record in the CRM'
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW
+    }
+  });
+
+  await queryInterface.addIndex('integration_sync_keys', ['integration_id', 'visitor_id'], {
+    name: 'idx_integration_sync_keys_integration_visitor'
+  });
+}
+
+/**
+ * Rollback Migration: Delta Sync
+ * Removes the idempotency keys, run modes and sync cursors
+ */
+export async function down(queryInterface: QueryInterface): Promise<void> {
+  await queryInterface.dropTable('integration_sync_keys');
+  await queryInterface.removeColumn('integration_sync_logs', 'mode');
+  await queryInterface.sequelize.query('DROP TYPE IF EXISTS enum_integration_sync_logs_mode');
+  await queryInterface.removeColumn('integrations', 'sync_cursor');
+}
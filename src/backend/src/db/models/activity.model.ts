@@ -0,0 +1,87 @@
+/**
+ * @fileoverview MongoDB model definition for visitor activities in Identity Matrix
+ * Stores the raw activity event stream with retention-based expiry
+ * @version 1.0.0
+ */
+
+import { Schema, model } from 'mongoose'; // v6.11.x
+import { VISITOR_ACTIVITY_TYPE } from '../../constants/visitor.constants';
+
+/**
+ * Interface describing a stored visitor activity document
+ */
+export interface IActivityDocument {
+    id: string;
+    visitorId: string;
+    /** Company of the visitor, absent on activities recorded before content grouping */
+    companyId?: string;
+    type: VISITOR_ACTIVITY_TYPE;
+    timestamp: Date;
+    data: Record<string, any>;
+    gdprCompliant: boolean;
+    /** Company-scoped client event ID of ingested activities */
+    dedupKey?: string;
+    expiresAt: Date;
+}
+
+/**
+ * Visitor activity schema definition with per-visitor timeline indexes
+ */
+const ActivitySchema = new Schema<IActivityDocument>({
+    id: {
+        type: String,
+        required: true,
+        unique: true,
+        index: true
+    },
+    visitorId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    companyId: {
+        type: String
+    },
+    type: {
+        type: String,
+        required: true,
+        enum: Object.values(VISITOR_ACTIVITY_TYPE)
+    },
+    timestamp: {
+        type: Date,
+        required: true,
+        default: Date.now
+    },
+    data: {
+        type: Schema.Types.Mixed,
+        default: {}
+    },
+    gdprCompliant: {
+        type: Boolean,
+        required: true,
+        default: false
+    },
+    dedupKey: {
+        type: String
+    },
+    expiresAt: {
+        type: Date,
+        expires: 0
+    }
+}, {
+    collection: 'visitor_activities',
+    versionKey: false,
+    strict: true
+});
+
+// Timeline index for cursor-based pagination
+ActivitySchema.index({ visitorId: 1, timestamp: -1 });
+
+// Company-wide page view reporting, e.g. content group reports
+ActivitySchema.index({ companyId: 1, type: 1, timestamp: -1 });
+
+// Rejects ingested events whose client event ID was already recorded
+ActivitySchema.index({ dedupKey: 1 }, { unique: true, sparse: true });
+
+const ActivityModel = model<IActivityDocument>('VisitorActivity', ActivitySchema);
+export default ActivityModel;
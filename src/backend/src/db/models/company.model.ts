@@ -106,6 +106,28 @@ export class Company extends Model<ICompany> implements ICompany {
   })
   technicalContacts!: string[];
 
+  @Column({
+    type: DataTypes.STRING,
+    allowNull: true,
+    field: 'identity_secret',
+    get() {
+      const value = this.getDataValue('identitySecret');
+      return value ? CryptoJS.AES.decrypt(value, ENCRYPTION_KEY).toString(CryptoJS.enc.Utf8) : null;
+    },
+    set(value: string | null) {
+      this.setDataValue('identitySecret', value ? CryptoJS.AES.encrypt(value, ENCRYPTION_KEY).toString() : null);
+    },
+  })
+  identitySecret!: string | null;
+
+  @Column({
+    type: DataTypes.STRING(64),
+    allowNull: true,
+    unique: true,
+    field: 'ingest_key_hash',
+  })
+  ingestKeyHash!: string | null;
+
   @Column({
     type: DataTypes.BOOLEAN,
     allowNull: false,
@@ -217,6 +239,17 @@ export class Company extends Model<ICompany> implements ICompany {
           defaultValue: [],
           field: 'technical_contacts',
         },
+        identitySecret: {
+          type: DataTypes.STRING,
+          allowNull: true,
+          field: 'identity_secret',
+        },
+        ingestKeyHash: {
+          type: DataTypes.STRING(64),
+          allowNull: true,
+          unique: true,
+          field: 'ingest_key_hash',
+        },
         isActive: {
           type: DataTypes.BOOLEAN,
           allowNull: false,
@@ -250,6 +283,13 @@ export class Company extends Model<ICompany> implements ICompany {
         paranoid: true,
         timestamps: true,
         underscored: true,
+        // The identity signing secret is only loaded where signatures are created or verified
+        defaultScope: {
+          attributes: { exclude: ['identitySecret', 'ingestKeyHash'] },
+        },
+        scopes: {
+          withIdentitySecret: {},
+        },
         hooks: {
           beforeSave: async (instance: Company) => {
             // Ensure settings has required structure
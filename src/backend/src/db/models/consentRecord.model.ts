@@ -0,0 +1,72 @@
+/**
+ * @fileoverview MongoDB model definition for visitor consent history in Identity Matrix
+ * Records every consent decision per purpose; entries are never updated so they serve as audit trail
+ * @version 1.0.0
+ */
+
+import { Schema, model } from 'mongoose'; // v6.11.x
+import { IConsentRecord } from '../../interfaces/consent.interface';
+import { CONSENT_PURPOSE, CONSENT_SOURCE } from '../../constants/consent.constants';
+
+/**
+ * Consent record schema definition with per-visitor and per-company timeline indexes
+ */
+const ConsentRecordSchema = new Schema<IConsentRecord>({
+    id: {
+        type: String,
+        required: true,
+        unique: true,
+        index: true
+    },
+    companyId: {
+        type: String,
+        required: true,
+        ref: 'Company'
+    },
+    visitorId: {
+        type: String,
+        required: true
+    },
+    purpose: {
+        type: String,
+        required: true,
+        enum: Object.values(CONSENT_PURPOSE)
+    },
+    granted: {
+        type: Boolean,
+        required: true
+    },
+    source: {
+        type: String,
+        required: true,
+        enum: Object.values(CONSENT_SOURCE)
+    },
+    policyVersion: {
+        type: String,
+        default: null
+    },
+    recordedBy: {
+        type: String,
+        default: null
+    },
+    userAgent: {
+        type: String,
+        default: null
+    },
+    recordedAt: {
+        type: Date,
+        required: true,
+        default: Date.now
+    }
+}, {
+    collection: 'visitor_consent_records',
+    versionKey: false,
+    strict: true
+});
+
+// Timeline indexes for visitor history and company audit exports
+ConsentRecordSchema.index({ visitorId: 1, recordedAt: -1 });
+ConsentRecordSchema.index({ companyId: 1, recordedAt: 1 });
+
+const ConsentRecordModel = model<IConsentRecord>('VisitorConsentRecord', ConsentRecordSchema);
+export default ConsentRecordModel;
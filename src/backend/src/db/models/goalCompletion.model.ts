@@ -0,0 +1,55 @@
+/**
+ * @fileoverview MongoDB model definition for visitor goal completions in Identity Matrix
+ * Records every activity completing a company-defined conversion goal, the source of goal and funnel reports
+ * @version 1.0.0
+ */
+
+import { Schema, model } from 'mongoose'; // v6.11.x
+import { IGoalCompletion } from '../../interfaces/goal.interface';
+
+/**
+ * Goal completion schema definition with per-company report and per-visitor indexes
+ */
+const GoalCompletionSchema = new Schema<IGoalCompletion>({
+    id: {
+        type: String,
+        required: true,
+        unique: true,
+        index: true
+    },
+    companyId: {
+        type: String,
+        required: true,
+        ref: 'Company'
+    },
+    visitorId: {
+        type: String,
+        required: true
+    },
+    goalId: {
+        type: String,
+        required: true
+    },
+    activityId: {
+        type: String,
+        required: true
+    },
+    completedAt: {
+        type: Date,
+        required: true
+    }
+}, {
+    collection: 'visitor_goal_completions',
+    versionKey: false,
+    strict: true
+});
+
+// An activity completes each goal at most once
+GoalCompletionSchema.index({ activityId: 1, goalId: 1 }, { unique: true });
+
+// Report indexes over a company's completions and visitor summary rebuilds
+GoalCompletionSchema.index({ companyId: 1, goalId: 1, completedAt: 1 });
+GoalCompletionSchema.index({ visitorId: 1, completedAt: 1 });
+
+const GoalCompletionModel = model<IGoalCompletion>('VisitorGoalCompletion', GoalCompletionSchema);
+export default GoalCompletionModel;
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview MongoDB model definition for identity graph links in Identity Matrix
+ * Maps hashed deterministic identity keys to the visitor records sharing them
+ * @version 1.0.0
+ */
+
+import { Schema, model } from 'mongoose'; // v6.11.x
+import { IDENTITY_KEY_TYPE } from '../../constants/visitor.constants';
+
+/**
+ * Interface describing a stored identity link document
+ */
+export interface IIdentityLinkDocument {
+    companyId: string;
+    visitorId: string;
+    type: IDENTITY_KEY_TYPE;
+    field?: string;
+    hash: string;
+    linkedAt: Date;
+}
+
+/**
+ * Identity link schema definition, one document per visitor and key
+ */
+const IdentityLinkSchema = new Schema<IIdentityLinkDocument>({
+    companyId: {
+        type: String,
+        required: true,
+        ref: 'Company'
+    },
+    visitorId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    type: {
+        type: String,
+        required: true,
+        enum: Object.values(IDENTITY_KEY_TYPE)
+    },
+    field: { type: String },
+    hash: {
+        type: String,
+        required: true
+    },
+    linkedAt: {
+        type: Date,
+        required: true,
+        default: Date.now
+    }
+}, {
+    collection: 'visitor_identity_links',
+    versionKey: false,
+    strict: true
+});
+
+// Lookup of all visitors sharing a key within a company
+IdentityLinkSchema.index({ companyId: 1, hash: 1 });
+IdentityLinkSchema.index({ visitorId: 1, hash: 1 }, { unique: true });
+
+const IdentityLinkModel = model<IIdentityLinkDocument>('IdentityLink', IdentityLinkSchema);
+export default IdentityLinkModel;
@@ -9,7 +9,7 @@ import { Table, Column, Index } from 'sequelize-typescript'; // ^2.1.x
 import CryptoJS from 'crypto-js'; // ^4.1.x
 import { Logger } from 'winston'; // ^3.8.x
 
-import { IIntegration } from '../../../interfaces/integration.interface';
+import { IIntegration, ISyncCursor } from '../../../interfaces/integration.interface';
 import { CRM_TYPES, INTEGRATION_STATUS } from '../../../constants/integration.constants';
 import { Company } from './company.model';
 
@@ -106,6 +106,13 @@ export class Integration extends Model<IIntegration> implements IIntegration {
   @Index('integrations_last_sync_idx')
   lastSyncAt!: Date;
 
+  @Column({
+    type: DataTypes.JSONB,
+    allowNull: true,
+    field: 'sync_cursor',
+  })
+  syncCursor!: ISyncCursor | null;
+
   @Column({
     type: DataTypes.INTEGER,
     allowNull: false,
@@ -202,6 +209,11 @@ export class Integration extends Model<IIntegration> implements IIntegration {
           allowNull: true,
           field: 'last_sync_at',
         },
+        syncCursor: {
+          type: DataTypes.JSONB,
+          allowNull: true,
+          field: 'sync_cursor',
+        },
         syncAttempts: {
           type: DataTypes.INTEGER,
           allowNull: false,
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview Sync idempotency key model implementation for Identity Matrix platform
+ * Records the CRM record written for each visitor, CRM object and integration
+ * @version 1.0.0
+ */
+
+import { Model, DataTypes } from 'sequelize'; // ^6.32.x
+import { ISyncKey } from '../../interfaces/integration.interface';
+import { CRM_OBJECT } from '../../constants/integration.constants';
+
+/**
+ * Sequelize model class for sync idempotency keys
+ */
+export class IntegrationSyncKeyModel extends Model<ISyncKey> implements ISyncKey {
+  public idempotencyKey!: string;
+  public integrationId!: string;
+  public visitorId!: string;
+  public object!: CRM_OBJECT;
+  public recordId!: string;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+
+  /**
+   * Sets up model associations with integrations
+   * @param models - Database models object containing the Integration model
+   */
+  public static associate(models: any): void {
+    IntegrationSyncKeyModel.belongsTo(models.Integration, {
+      foreignKey: 'integrationId',
+      as: 'integration',
+      onDelete: 'CASCADE'
+    });
+  }
+}
+
+/**
+ * Initialize the sync idempotency key model with schema definition and configuration
+ */
+export const initIntegrationSyncKeyModel = (sequelize: any): typeof IntegrationSyncKeyModel => {
+  IntegrationSyncKeyModel.init(
+    {
+      idempotencyKey: {
+        type: DataTypes.STRING(255),
+        primaryKey: true,
+        allowNull: false,
+        field: 'idempotency_key'
+      },
+      integrationId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'integration_id',
+        references: {
+          model: 'integrations',
+          key: 'id'
+        }
+      },
+      visitorId: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'visitor_id'
+      },
+      object: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        field: 'crm_object',
+        validate: {
+          isIn: [Object.values(CRM_OBJECT)]
+        }
+      },
+      recordId: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        field: 'record_id'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'updated_at'
+      }
+    },
+    {
+      sequelize,
+      modelName: 'IntegrationSyncKey',
+      tableName: 'integration_sync_keys',
+      timestamps: true,
+      underscored: true,
+      indexes: [
+        {
+          fields: ['integration_id', 'visitor_id'],
+          name: 'idx_integration_sync_keys_integration_visitor'
+        }
+      ]
+    }
+  );
+
+  return IntegrationSyncKeyModel;
+};
+
+export default IntegrationSyncKeyModel;
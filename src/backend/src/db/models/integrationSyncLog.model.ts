@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Sync run model implementation for Identity Matrix platform
+ * Records each run of an integration sync with its trigger, mode, counts and refused records
+ * @version 1.0.0
+ */
+
+import { Model, DataTypes } from 'sequelize'; // ^6.32.x
+import { ISyncRun, ISyncRunErrorDetails } from '../../interfaces/integration.interface';
+import { CRM_OBJECT, SYNC_MODE, SYNC_RUN_STATUS, SYNC_TRIGGER } from '../../constants/integration.constants';
+
+/**
+ * Sequelize model class for integration sync runs
+ */
+export class IntegrationSyncLogModel extends Model<ISyncRun> implements ISyncRun {
+  public id!: string;
+  public integrationId!: string;
+  public status!: SYNC_RUN_STATUS;
+  public trigger!: SYNC_TRIGGER;
+  public triggeredBy!: string | null;
+  public retryOf!: string | null;
+  public syncObject!: CRM_OBJECT;
+  public mode!: SYNC_MODE;
+  public recordsProcessed!: number;
+  public recordsFailed!: number;
+  public errorDetails!: ISyncRunErrorDetails | null;
+  public startedAt!: Date;
+  public completedAt!: Date | null;
+  public createdAt!: Date;
+  public updatedAt!: Date;
+
+  /**
+   * Sets up model associations with integrations and users
+   * @param models - Database models object containing Integration and User models
+   */
+  public static associate(models: any): void {
+    IntegrationSyncLogModel.belongsTo(models.Integration, {
+      foreignKey: 'integrationId',
+      as: 'integration',
+      onDelete: 'CASCADE'
+    });
+
+    IntegrationSyncLogModel.belongsTo(models.User, {
+      foreignKey: 'triggeredBy',
+      as: 'user',
+      onDelete: 'SET NULL'
+    });
+  }
+}
+
+/**
+ * Initialize the sync run model with schema definition and configuration
+ */
+export const initIntegrationSyncLogModel = (sequelize: any): typeof IntegrationSyncLogModel => {
+  IntegrationSyncLogModel.init(
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+        allowNull: false
+      },
+      integrationId: {
+        type: DataTypes.UUID,
+        allowNull: false,
+        field: 'integration_id',
+        references: {
+          model: 'integrations',
+          key: 'id'
+        }
+      },
+      status: {
+        type: DataTypes.ENUM(...Object.values(SYNC_RUN_STATUS)),
+        allowNull: false,
+        defaultValue: SYNC_RUN_STATUS.RUNNING
+      },
+      trigger: {
+        type: DataTypes.ENUM(...Object.values(SYNC_TRIGGER)),
+        allowNull: false,
+        defaultValue: SYNC_TRIGGER.SCHEDULER
+      },
+      triggeredBy: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'triggered_by',
+        references: {
+          model: 'users',
+          key: 'id'
+        }
+      },
+      retryOf: {
+        type: DataTypes.UUID,
+        allowNull: true,
+        field: 'retry_of'
+      },
+      syncObject: {
+        type: DataTypes.STRING(20),
+        allowNull: false,
+        field: 'sync_object',
+        validate: {
+          isIn: [Object.values(CRM_OBJECT)]
+        }
+      },
+      mode: {
+        type: DataTypes.ENUM(...Object.values(SYNC_MODE)),
+        allowNull: false,
+        defaultValue: SYNC_MODE.DELTA
+      },
+      recordsProcessed: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'records_processed'
+      },
+      recordsFailed: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+        field: 'records_failed'
+      },
+      errorDetails: {
+        type: DataTypes.JSONB,
+        allowNull: true,
+        field: 'error_details'
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+        field: 'started_at'
+      },
+      completedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+        field: 'completed_at'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'created_at'
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        field: 'updated_at'
+      }
+    },
+    {
+      sequelize,
+      modelName: 'IntegrationSyncLog',
+      tableName: 'integration_sync_logs',
+      timestamps: true,
+      underscored: true,
+      indexes: [
+        {
+          fields: ['integration_id', 'started_at'],
+          name: 'sync_logs_integration_date_idx'
+        },
+        {
+          fields: ['status', 'completed_at'],
+          name: 'sync_logs_status_date_idx'
+        }
+      ]
+    }
+  );
+
+  return IntegrationSyncLogModel;
+};
+
+export default IntegrationSyncLogModel;
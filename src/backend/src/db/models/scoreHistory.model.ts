@@ -0,0 +1,66 @@
+/**
+ * @fileoverview MongoDB model definition for visitor lead score history in Identity Matrix
+ * Records every change of a visitor's lead score with the rules that produced it
+ * @version 1.0.0
+ */
+
+import { Schema, model } from 'mongoose'; // v6.11.x
+import { IScoreHistoryEntry } from '../../interfaces/scoring.interface';
+
+/**
+ * Schema definition for the contribution of a single scoring rule
+ */
+const ScoreContributionSchema = new Schema({
+    ruleId: { type: String, required: true },
+    points: { type: Number, required: true }
+}, { _id: false });
+
+/**
+ * Score history schema definition with per-visitor timeline index
+ */
+const ScoreHistorySchema = new Schema<IScoreHistoryEntry>({
+    id: {
+        type: String,
+        required: true,
+        unique: true,
+        index: true
+    },
+    visitorId: {
+        type: String,
+        required: true
+    },
+    companyId: {
+        type: String,
+        required: true,
+        ref: 'Company',
+        index: true
+    },
+    score: {
+        type: Number,
+        required: true,
+        min: 0,
+        max: 100
+    },
+    previousScore: {
+        type: Number,
+        required: true,
+        min: 0,
+        max: 100
+    },
+    breakdown: [ScoreContributionSchema],
+    scoredAt: {
+        type: Date,
+        required: true,
+        default: Date.now
+    }
+}, {
+    collection: 'visitor_score_history',
+    versionKey: false,
+    strict: true
+});
+
+// Timeline index for most-recent-first history retrieval
+ScoreHistorySchema.index({ visitorId: 1, scoredAt: -1 });
+
+const ScoreHistoryModel = model<IScoreHistoryEntry>('VisitorScoreHistory', ScoreHistorySchema);
+export default ScoreHistoryModel;
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview MongoDB model definition for visitor sessions in Identity Matrix
+ * Stores sessions derived from the activity stream with the same retention-based expiry
+ * @version 1.0.0
+ */
+
+import { Schema, model } from 'mongoose'; // v6.11.x
+import { IVisitorSession } from '../../interfaces/session.interface';
+
+/**
+ * Interface describing a stored visitor session document
+ */
+export interface ISessionDocument extends IVisitorSession {
+    expiresAt: Date;
+}
+
+/**
+ * Visitor session schema definition with a per-visitor timeline index
+ */
+const SessionSchema = new Schema<ISessionDocument>({
+    id: {
+        type: String,
+        required: true,
+        unique: true,
+        index: true
+    },
+    visitorId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    startedAt: {
+        type: Date,
+        required: true
+    },
+    endedAt: {
+        type: Date,
+        required: true
+    },
+    durationSeconds: {
+        type: Number,
+        required: true,
+        min: 0,
+        default: 0
+    },
+    landingPage: {
+        type: String,
+        default: null
+    },
+    exitPage: {
+        type: String,
+        default: null
+    },
+    pageCount: {
+        type: Number,
+        required: true,
+        min: 0,
+        default: 0
+    },
+    activityCount: {
+        type: Number,
+        required: true,
+        min: 0,
+        default: 0
+    },
+    referrer: {
+        type: String,
+        default: null
+    },
+    utmSource: {
+        type: String,
+        default: null
+    },
+    expiresAt: {
+        type: Date,
+        expires: 0
+    }
+}, {
+    collection: 'visitor_sessions',
+    versionKey: false,
+    strict: true
+});
+
+// Timeline index for cursor-based pagination and finding the open session
+SessionSchema.index({ visitorId: 1, startedAt: -1 });
+
+const SessionModel = model<ISessionDocument>('VisitorSession', SessionSchema);
+export default SessionModel;
@@ -6,7 +6,18 @@
 
 import { Schema, model } from 'mongoose'; // v6.11.x
 import { IVisitor, IVisitorMetadata, IEnrichedData } from '../../../interfaces/visitor.interface';
-import { VISITOR_STATUS } from '../../../constants/visitor.constants';
+import {
+    VISITOR_STATUS,
+    IP_RANGE_TYPE,
+    IDENTIFICATION_METHOD
+} from '../../../constants/visitor.constants';
+import { ICP_FIT_TIER, ICP_CRITERIA } from '../../../constants/icp.constants';
+import {
+    EMAIL_TYPE,
+    VERIFICATION_STATUS,
+    VERIFICATION_REASON
+} from '../../../constants/verification.constants';
+import { anonymizeIp } from '../../../utils/ip.util';
 
 /**
  * MongoDB schema definition for visitor location data
@@ -55,7 +66,64 @@ const EnrichedDataSchema = new Schema({
     technologies: [{ type: String }],
     linkedinUrl: { type: String },
     socialProfiles: { type: Map, of: String },
-    customFields: { type: Map, of: Schema.Types.Mixed }
+    customFields: { type: Map, of: Schema.Types.Mixed },
+    provenance: { type: Schema.Types.Mixed },
+    candidates: { type: Schema.Types.Mixed },
+    overrides: { type: Schema.Types.Mixed }
+}, { _id: false });
+
+/**
+ * MongoDB schema definition for reverse-IP company resolution results
+ */
+const CompanyResolutionSchema = new Schema({
+    organization: { type: String, required: true },
+    domain: { type: String },
+    confidence: { type: Number, required: true, min: 0, max: 1 },
+    matchedRange: { type: String, required: true },
+    rangeType: { type: String, enum: Object.values(IP_RANGE_TYPE), required: true },
+    resolvedAt: { type: Date, required: true }
+}, { _id: false });
+
+/**
+ * MongoDB schema definition for ideal customer profile fit
+ */
+const IcpFitSchema = new Schema({
+    tier: { type: String, enum: Object.values(ICP_FIT_TIER), required: true },
+    icpId: { type: String, default: null },
+    icpName: { type: String, default: null },
+    reasons: [{
+        _id: false,
+        criterion: { type: String, enum: ICP_CRITERIA, required: true },
+        value: { type: String, required: true }
+    }],
+    classifiedAt: { type: Date, required: true }
+}, { _id: false });
+
+/**
+ * MongoDB schema definition for the verification verdict of an identification
+ */
+const VerificationSchema = new Schema({
+    status: { type: String, enum: Object.values(VERIFICATION_STATUS), required: true },
+    reasons: [{ type: String, enum: Object.values(VERIFICATION_REASON) }],
+    email: {
+        type: new Schema({
+            address: { type: String, required: true },
+            domain: { type: String, required: true },
+            type: { type: String, enum: Object.values(EMAIL_TYPE), required: true },
+            hasMx: { type: Boolean, default: null },
+            suggestedDomain: { type: String }
+        }, { _id: false }),
+        default: undefined
+    },
+    phone: {
+        type: new Schema({
+            original: { type: String, required: true },
+            e164: { type: String, default: null },
+            inferredCountry: { type: String, default: null }
+        }, { _id: false }),
+        default: undefined
+    },
+    verifiedAt: { type: Date, required: true }
 }, { _id: false });
 
 /**
@@ -100,6 +168,15 @@ const VisitorSchema = new Schema<IVisitor>({
         type: EnrichedDataSchema,
         default: null
     },
+    companyResolution: {
+        type: CompanyResolutionSchema,
+        default: null
+    },
+    mergedInto: {
+        type: String,
+        default: null,
+        index: true
+    },
     visits: {
         type: Number,
         required: true,
@@ -112,6 +189,61 @@ const VisitorSchema = new Schema<IVisitor>({
         default: 0,
         min: 0
     },
+    score: {
+        type: Number,
+        default: 0,
+        min: 0,
+        max: 100
+    },
+    scoreUpdatedAt: {
+        type: Date,
+        default: null
+    },
+    icpFit: {
+        type: IcpFitSchema,
+        default: null
+    },
+    verification: {
+        type: VerificationSchema,
+        default: null
+    },
+    identificationMethod: {
+        type: String,
+        enum: [...Object.values(IDENTIFICATION_METHOD), null],
+        default: null
+    },
+    externalUserId: {
+        type: String,
+        default: null
+    },
+    customEvents: {
+        type: Schema.Types.Mixed,
+        default: undefined
+    },
+    goals: {
+        type: Schema.Types.Mixed,
+        default: undefined
+    },
+    contentGroups: {
+        type: Schema.Types.Mixed,
+        default: undefined
+    },
+    attribution: {
+        type: Schema.Types.Mixed,
+        default: null
+    },
+    trafficQuality: {
+        type: Schema.Types.Mixed,
+        default: null
+    },
+    consent: {
+        type: Schema.Types.Mixed,
+        default: null
+    },
+    crm: {
+        type: Schema.Types.Mixed,
+        default: null
+    },
     firstSeen: {
         type: Date,
         required: true,
@@ -127,6 +259,10 @@ const VisitorSchema = new Schema<IVisitor>({
     lastEnriched: {
         type: Date
     },
+    reenrichmentQueuedAt: {
+        type: Date,
+        default: null
+    },
     isActive: {
         type: Boolean,
         required: true,
@@ -160,13 +296,22 @@ const VisitorSchema = new Schema<IVisitor>({
 // Compound indexes for performance optimization
 VisitorSchema.index({ companyId: 1, status: 1 });
 VisitorSchema.index({ companyId: 1, lastSeen: -1 });
+// Delta CRM syncs page through visitors by last change
+VisitorSchema.index({ companyId: 1, updatedAt: 1, id: 1 });
 VisitorSchema.index({ companyId: 1, email: 1 }, { sparse: true });
+VisitorSchema.index({ status: 1, lastEnriched: 1 });
+VisitorSchema.index({ companyId: 1, score: -1 });
+VisitorSchema.index({ companyId: 1, 'icpFit.tier': 1 });
+VisitorSchema.index({ companyId: 1, 'verification.status': 1 });
+VisitorSchema.index({ companyId: 1, externalUserId: 1 }, { sparse: true });
+VisitorSchema.index({ companyId: 1, 'attribution.firstTouch.channel': 1 });
+VisitorSchema.index({ companyId: 1, 'trafficQuality.isBot': 1, lastSeen: -1 });
 
 // Pre-save middleware for data sanitization
 VisitorSchema.pre('save', function(next) {
     // Anonymize IP address for GDPR compliance if no consent
     if (!this.gdprConsent && this.metadata?.ipAddress) {
-        this.metadata.ipAddress = this.metadata.ipAddress.replace(/\.\d+$/, '.xxx');
+        this.metadata.ipAddress = anonymizeIp(this.metadata.ipAddress);
     }
     next();
 });
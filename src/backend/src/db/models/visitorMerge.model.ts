@@ -0,0 +1,83 @@
+/**
+ * @fileoverview MongoDB model definition for visitor merge history in Identity Matrix
+ * Keeps pre-merge snapshots so identity graph merges can be undone
+ * @version 1.0.0
+ */
+
+import { Schema, model } from 'mongoose'; // v6.11.x
+import { IVisitorMerge } from '../../interfaces/visitor.interface';
+import { IDENTITY_KEY_TYPE, MERGE_STATUS } from '../../constants/visitor.constants';
+
+/**
+ * Schema definition for identity keys shared by merged visitors
+ */
+const MatchedKeySchema = new Schema({
+    type: { type: String, required: true, enum: Object.values(IDENTITY_KEY_TYPE) },
+    field: { type: String },
+    hash: { type: String, required: true }
+}, { _id: false });
+
+/**
+ * Visitor merge schema definition with full pre-merge snapshots
+ */
+const VisitorMergeSchema = new Schema<IVisitorMerge>({
+    id: {
+        type: String,
+        required: true,
+        unique: true,
+        index: true
+    },
+    companyId: {
+        type: String,
+        required: true,
+        ref: 'Company',
+        index: true
+    },
+    canonicalVisitorId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    mergedVisitorId: {
+        type: String,
+        required: true,
+        index: true
+    },
+    matchedKeys: [MatchedKeySchema],
+    canonicalSnapshot: {
+        type: Schema.Types.Mixed,
+        required: true
+    },
+    mergedSnapshot: {
+        type: Schema.Types.Mixed,
+        required: true
+    },
+    movedActivityIds: [{ type: String }],
+    status: {
+        type: String,
+        enum: Object.values(MERGE_STATUS),
+        default: MERGE_STATUS.COMPLETED
+    },
+    mergedBy: {
+        type: String,
+        default: null
+    },
+    mergedAt: {
+        type: Date,
+        required: true,
+        default: Date.now
+    },
+    undoneAt: {
+        type: Date,
+        default: null
+    }
+}, {
+    collection: 'visitor_merges',
+    versionKey: false,
+    strict: true
+});
+
+VisitorMergeSchema.index({ canonicalVisitorId: 1, mergedAt: -1 });
+
+const VisitorMergeModel = model<IVisitorMerge>('VisitorMerge', VisitorMergeSchema);
+export default VisitorMergeModel;
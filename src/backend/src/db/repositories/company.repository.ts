@@ -98,6 +98,88 @@ export class CompanyRepository {
     }
   }
 
+  /**
+   * Finds the active company owning an ingest API key
+   * @param keyHash SHA-256 hash of the key
+   * @returns Company or null when no active company owns the key
+   */
+  async findByIngestKeyHash(keyHash: string): Promise<ICompany | null> {
+    try {
+      const company = await this.companyModel.findOne({
+        where: { ingestKeyHash: keyHash, isActive: true }
+      });
+      return company ? company.toJSON() as ICompany : null;
+    } catch (error) {
+      throw this.handleRepositoryError(error);
+    }
+  }
+
+  /**
+   * Replaces the ingest API key hash of a company
+   * @param id Company ID
+   * @param keyHash SHA-256 hash of the new key; the key itself is never stored
+   * @param transaction Optional transaction instance
+   */
+  async setIngestKeyHash(id: string, keyHash: string, transaction?: Transaction): Promise<void> {
+    try {
+      const [updated] = await this.companyModel.update(
+        { ingestKeyHash: keyHash },
+        { where: { id }, transaction }
+      );
+      if (updated === 0) {
+        throw createError(
+          'Company not found',
+          ErrorCodes.NOT_FOUND,
+          ErrorTypes.RESOURCE_ERROR,
+          { id }
+        );
+      }
+    } catch (error) {
+      throw this.handleRepositoryError(error);
+    }
+  }
+
+  /**
+   * Retrieves the decrypted identity signing secret of a company
+   * @param id Company ID
+   * @returns Secret or null when none was generated
+   */
+  async getIdentitySecret(id: string): Promise<string | null> {
+    try {
+      const company = await this.companyModel.scope('withIdentitySecret').findByPk(id, {
+        attributes: ['id', 'identitySecret']
+      });
+      return company?.identitySecret || null;
+    } catch (error) {
+      throw this.handleRepositoryError(error);
+    }
+  }
+
+  /**
+   * Replaces the identity signing secret of a company
+   * @param id Company ID
+   * @param secret New secret, encrypted at rest by the model
+   * @param transaction Optional transaction instance
+   */
+  async setIdentitySecret(id: string, secret: string, transaction?: Transaction): Promise<void> {
+    try {
+      const [updated] = await this.companyModel.update(
+        { identitySecret: secret },
+        { where: { id }, transaction }
+      );
+      if (updated === 0) {
+        throw createError(
+          'Company not found',
+          ErrorCodes.NOT_FOUND,
+          ErrorTypes.RESOURCE_ERROR,
+          { id }
+        );
+      }
+    } catch (error) {
+      throw this.handleRepositoryError(error);
+    }
+  }
+
   /**
    * Retrieves a company by its domain with validation
    * @param domain Company domain
@@ -212,7 +294,7 @@ export class CompanyRepository {
    * @returns Paginated company list with total count
    */
   async list(
-    filters: { isActive?: boolean; subscriptionTier?: string } = {},
+    filters: { id?: string; isActive?: boolean; subscriptionTier?: string } = {},
     pagination: { page?: number; limit?: number } = {}
   ): Promise<{ rows: ICompany[]; count: number }> {
     try {
@@ -0,0 +1,85 @@
+/**
+ * @fileoverview Repository class for visitor consent history in Identity Matrix
+ * Persists consent decisions and reads them back for visitor timelines and audit exports
+ * @version 1.0.0
+ */
+
+import winston from 'winston'; // v3.8.x
+import ConsentRecordModel from '../models/consentRecord.model';
+import { IConsentRecord, IConsentExportQuery } from '../../interfaces/consent.interface';
+
+/**
+ * Repository class handling consent history persistence
+ */
+export class ConsentRepository {
+    private readonly Model: typeof ConsentRecordModel;
+    private readonly logger: winston.Logger;
+
+    /**
+     * Initialize repository with required dependencies
+     */
+    constructor(logger: winston.Logger) {
+        this.Model = ConsentRecordModel;
+        this.logger = logger;
+    }
+
+    /**
+     * Records consent decisions
+     * @param records - Consent records to store
+     * @returns Stored records
+     */
+    async createMany(records: IConsentRecord[]): Promise<IConsentRecord[]> {
+        try {
+            await this.Model.insertMany(records, { ordered: true });
+            return records;
+        } catch (error) {
+            this.logger.error(`Error recording consent for visitor ${records[0]?.visitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds the consent history of a visitor, most recent first
+     * @param visitorId - Visitor to look up
+     * @returns Consent records
+     */
+    async findByVisitor(visitorId: string): Promise<IConsentRecord[]> {
+        try {
+            return await this.Model.find({ visitorId }, { _id: 0 })
+                .sort({ recordedAt: -1 })
+                .lean();
+        } catch (error) {
+            this.logger.error(`Error finding consent history for visitor ${visitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds a company's consent history in the order it was recorded
+     * @param companyId - Company owning the visitors
+     * @param query - Time range and visitor filters
+     * @param limit - Maximum records to return
+     * @returns Consent records, oldest first
+     */
+    async findByCompany(companyId: string, query: IConsentExportQuery, limit: number): Promise<IConsentRecord[]> {
+        try {
+            const recordedAt = {
+                ...(query.since && { $gte: query.since }),
+                ...(query.until && { $lt: query.until })
+            };
+            const filter = {
+                companyId,
+                ...(query.visitorId && { visitorId: query.visitorId }),
+                ...(Object.keys(recordedAt).length > 0 && { recordedAt })
+            };
+
+            return await this.Model.find(filter, { _id: 0 })
+                .sort({ recordedAt: 1 })
+                .limit(limit)
+                .lean();
+        } catch (error) {
+            this.logger.error(`Error exporting consent history for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,164 @@
+/**
+ * @fileoverview Repository class for visitor goal completions in Identity Matrix
+ * Persists goal completions and aggregates them into visitor summaries, goal reports and funnel paths
+ * @version 1.0.0
+ */
+
+import winston from 'winston'; // v3.8.x
+import GoalCompletionModel from '../models/goalCompletion.model';
+import { IGoalCompletion, IGoalSummary } from '../../interfaces/goal.interface';
+
+/**
+ * Repository class handling goal completion persistence and aggregation
+ */
+export class GoalCompletionRepository {
+    private readonly Model: typeof GoalCompletionModel;
+    private readonly logger: winston.Logger;
+
+    /**
+     * Initialize repository with required dependencies
+     */
+    constructor(logger: winston.Logger) {
+        this.Model = GoalCompletionModel;
+        this.logger = logger;
+    }
+
+    /**
+     * Records goal completions, skipping completions of activities already recorded
+     * @param completions - Completions to store
+     */
+    async createMany(completions: IGoalCompletion[]): Promise<void> {
+        try {
+            await this.Model.insertMany(completions, { ordered: false });
+        } catch (error) {
+            // Replayed activities complete the same goals again
+            const writeErrors: Array<{ code: number }> = error.writeErrors || [];
+            if (writeErrors.length > 0 && writeErrors.every(writeError => writeError.code === 11000)) {
+                return;
+            }
+            this.logger.error(`Error recording goal completions for visitor ${completions[0]?.visitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Summarizes a visitor's completions per goal
+     * @param visitorId - Visitor to summarize
+     * @returns Completion summaries keyed by goal ID
+     */
+    async summarizeByVisitor(visitorId: string): Promise<Record<string, IGoalSummary>> {
+        try {
+            const groups = await this.Model.aggregate<IGoalSummary & { _id: string }>([
+                { $match: { visitorId } },
+                {
+                    $group: {
+                        _id: '$goalId',
+                        count: { $sum: 1 },
+                        firstCompletedAt: { $min: '$completedAt' },
+                        lastCompletedAt: { $max: '$completedAt' }
+                    }
+                }
+            ]);
+
+            return Object.fromEntries(groups.map(({ _id, ...summary }) => [_id, summary]));
+        } catch (error) {
+            this.logger.error(`Error summarizing goal completions for visitor ${visitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Moves the completions of activities to another visitor, e.g. after an identity graph merge
+     * @param activityIds - Activities that moved
+     * @param toVisitorId - Visitor now owning the activities
+     */
+    async reassignActivities(activityIds: string[], toVisitorId: string): Promise<void> {
+        try {
+            await this.Model.updateMany({ activityId: { $in: activityIds } }, { $set: { visitorId: toVisitorId } });
+        } catch (error) {
+            this.logger.error(`Error reassigning goal completions to visitor ${toVisitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes all completions of a visitor
+     * @param visitorId - Visitor whose completions are deleted
+     */
+    async deleteByVisitor(visitorId: string): Promise<void> {
+        try {
+            await this.Model.deleteMany({ visitorId });
+        } catch (error) {
+            this.logger.error(`Error deleting goal completions for visitor ${visitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Counts a company's completions and completing visitors per goal over a time range
+     * @param companyId - Company owning the goals
+     * @param from - Start of the range (inclusive)
+     * @param to - End of the range (exclusive)
+     * @returns Completion and distinct visitor counts keyed by goal ID
+     */
+    async aggregateByGoal(
+        companyId: string,
+        from: Date,
+        to: Date
+    ): Promise<Map<string, { completions: number; visitors: number }>> {
+        try {
+            const groups = await this.Model.aggregate<{ _id: string; completions: number; visitors: number }>([
+                { $match: { companyId, completedAt: { $gte: from, $lt: to } } },
+                {
+                    $group: {
+                        _id: '$goalId',
+                        completions: { $sum: 1 },
+                        visitorIds: { $addToSet: '$visitorId' }
+                    }
+                },
+                { $project: { completions: 1, visitors: { $size: '$visitorIds' } } }
+            ]);
+
+            return new Map(groups.map(({ _id, completions, visitors }) => [_id, { completions, visitors }]));
+        } catch (error) {
+            this.logger.error(`Error aggregating goal completions for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Lists each visitor's completions of the given goals over a time range in the order they happened
+     * @param companyId - Company owning the goals
+     * @param goalIds - Goals to include
+     * @param from - Start of the range (inclusive)
+     * @param to - End of the range (exclusive)
+     * @returns Ordered completions keyed by visitor ID
+     */
+    async findPathsByVisitor(
+        companyId: string,
+        goalIds: string[],
+        from: Date,
+        to: Date
+    ): Promise<Map<string, Array<{ goalId: string; completedAt: Date }>>> {
+        try {
+            const groups = await this.Model.aggregate<{
+                _id: string;
+                completions: Array<{ goalId: string; completedAt: Date }>;
+            }>([
+                { $match: { companyId, goalId: { $in: goalIds }, completedAt: { $gte: from, $lt: to } } },
+                { $sort: { completedAt: 1 } },
+                {
+                    $group: {
+                        _id: '$visitorId',
+                        completions: { $push: { goalId: '$goalId', completedAt: '$completedAt' } }
+                    }
+                }
+            ]);
+
+            return new Map(groups.map(({ _id, completions }) => [_id, completions]));
+        } catch (error) {
+            this.logger.error(`Error finding funnel paths for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+}
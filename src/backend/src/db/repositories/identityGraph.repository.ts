@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Repository class for identity graph data in Identity Matrix
+ * Manages hashed identity links between visitors and the merge history used for undo
+ * @version 1.0.0
+ */
+
+import winston from 'winston'; // v3.8.x
+import IdentityLinkModel from '../models/identityLink.model';
+import VisitorMergeModel from '../models/visitorMerge.model';
+import { IIdentityKey, IVisitorMerge } from '../../interfaces/visitor.interface';
+import { MERGE_STATUS } from '../../constants/visitor.constants';
+
+/**
+ * Repository class handling identity links and merge history persistence
+ */
+export class IdentityGraphRepository {
+    private readonly LinkModel: typeof IdentityLinkModel;
+    private readonly MergeModel: typeof VisitorMergeModel;
+    private readonly logger: winston.Logger;
+
+    /**
+     * Initialize repository with required dependencies
+     */
+    constructor(logger: winston.Logger) {
+        this.LinkModel = IdentityLinkModel;
+        this.MergeModel = VisitorMergeModel;
+        this.logger = logger;
+    }
+
+    /**
+     * Links identity keys to a visitor, ignoring keys already linked
+     * @param companyId - Company owning the visitor
+     * @param visitorId - Visitor to link
+     * @param keys - Identity keys to link
+     */
+    async linkKeys(companyId: string, visitorId: string, keys: IIdentityKey[]): Promise<void> {
+        if (keys.length === 0) {
+            return;
+        }
+
+        try {
+            await this.LinkModel.bulkWrite(keys.map(key => ({
+                updateOne: {
+                    filter: { visitorId, hash: key.hash },
+                    update: {
+                        $setOnInsert: {
+                            companyId,
+                            visitorId,
+                            type: key.type,
+                            field: key.field,
+                            hash: key.hash,
+                            linkedAt: new Date()
+                        }
+                    },
+                    upsert: true
+                }
+            })));
+        } catch (error) {
+            this.logger.error(`Error linking identity keys for visitor ${visitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds visitors sharing any of the given keys within a company
+     * @param companyId - Company to search
+     * @param keys - Identity keys to match
+     * @returns Map of visitor ID to the keys it shares
+     */
+    async findVisitorsByKeys(
+        companyId: string,
+        keys: IIdentityKey[]
+    ): Promise<Map<string, IIdentityKey[]>> {
+        const matches = new Map<string, IIdentityKey[]>();
+        if (keys.length === 0) {
+            return matches;
+        }
+
+        try {
+            const links = await this.LinkModel.find({
+                companyId,
+                hash: { $in: keys.map(key => key.hash) }
+            });
+
+            for (const link of links) {
+                const shared = matches.get(link.visitorId) || [];
+                shared.push({ type: link.type, field: link.field, hash: link.hash });
+                matches.set(link.visitorId, shared);
+            }
+
+            return matches;
+        } catch (error) {
+            this.logger.error(`Error finding visitors by identity keys for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Records a visitor merge
+     * @param merge - Merge to record
+     * @returns Stored merge
+     */
+    async createMerge(merge: IVisitorMerge): Promise<IVisitorMerge> {
+        try {
+            const saved = await new this.MergeModel(merge).save();
+            this.logger.info(`Recorded visitor merge: ${merge.id}`, {
+                canonicalVisitorId: merge.canonicalVisitorId,
+                mergedVisitorId: merge.mergedVisitorId
+            });
+            return saved.toObject();
+        } catch (error) {
+            this.logger.error('Error recording visitor merge:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds a merge by ID
+     * @param id - Merge ID
+     * @returns Merge or null
+     */
+    async findMergeById(id: string): Promise<IVisitorMerge | null> {
+        try {
+            return await this.MergeModel.findOne({ id }).lean();
+        } catch (error) {
+            this.logger.error(`Error finding visitor merge ${id}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds active (not undone) merges into a canonical visitor, most recent first
+     * @param canonicalVisitorId - Canonical visitor ID
+     * @returns Active merges
+     */
+    async findActiveMerges(canonicalVisitorId: string): Promise<IVisitorMerge[]> {
+        try {
+            return await this.MergeModel.find({ canonicalVisitorId, undoneAt: null })
+                .sort({ mergedAt: -1 })
+                .lean();
+        } catch (error) {
+            this.logger.error(`Error finding merges for visitor ${canonicalVisitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Checks whether a merge between two visitors was previously undone
+     * Undone pairs are not merged again automatically, unlike merges rolled back before they completed
+     * @param visitorA - First visitor ID
+     * @param visitorB - Second visitor ID
+     */
+    async hasUndoneMerge(visitorA: string, visitorB: string): Promise<boolean> {
+        try {
+            const count = await this.MergeModel.countDocuments({
+                undoneAt: { $ne: null },
+                status: { $ne: MERGE_STATUS.PENDING },
+                $or: [
+                    { canonicalVisitorId: visitorA, mergedVisitorId: visitorB },
+                    { canonicalVisitorId: visitorB, mergedVisitorId: visitorA }
+                ]
+            });
+            return count > 0;
+        } catch (error) {
+            this.logger.error(`Error checking undone merges for ${visitorA} and ${visitorB}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Marks a merge as completed once activities and profiles were updated
+     * @param id - Merge ID
+     */
+    async completeMerge(id: string): Promise<void> {
+        try {
+            await this.MergeModel.updateOne({ id }, { $set: { status: MERGE_STATUS.COMPLETED } });
+        } catch (error) {
+            this.logger.error(`Error completing visitor merge ${id}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Marks a merge as undone
+     * @param id - Merge ID
+     */
+    async markMergeUndone(id: string): Promise<void> {
+        try {
+            await this.MergeModel.updateOne({ id }, { $set: { undoneAt: new Date() } });
+        } catch (error) {
+            this.logger.error(`Error marking visitor merge ${id} as undone:`, error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Repository class for sync idempotency keys
+ * @version 1.0.0
+ */
+
+import { Op } from 'sequelize'; // ^6.32.x
+import { IntegrationSyncKeyModel } from '../models/integrationSyncKey.model';
+import { ICrmUpsertResult, ISyncKey } from '../../interfaces/integration.interface';
+
+/**
+ * Repository class implementing data access layer for the CRM records written by syncs
+ */
+export class IntegrationSyncKeyRepository {
+  private model: typeof IntegrationSyncKeyModel;
+
+  constructor() {
+    this.model = IntegrationSyncKeyModel;
+  }
+
+  /**
+   * Retrieves the CRM records written under idempotency keys
+   * @param keys Idempotency keys
+   * @returns CRM record ID by idempotency key, for keys a record was written under
+   */
+  async findRecordIds(keys: string[]): Promise<Record<string, string>> {
+    if (keys.length === 0) {
+      return {};
+    }
+
+    const entries = await this.model.findAll({
+      where: { idempotencyKey: { [Op.in]: keys } },
+    });
+
+    return Object.fromEntries(entries.map(entry => [entry.idempotencyKey, entry.recordId]));
+  }
+
+  /**
+   * Records the CRM record written under an idempotency key, replacing a record the CRM
+   * no longer had
+   * @param idempotencyKey Key of the write
+   * @param integrationId Integration that wrote the record
+   * @param visitorId Visitor the record was written for
+   * @param result CRM record written
+   * @returns Recorded key
+   */
+  async save(
+    idempotencyKey: string,
+    integrationId: string,
+    visitorId: string,
+    result: ICrmUpsertResult
+  ): Promise<ISyncKey> {
+    const [entry] = await this.model.upsert({
+      idempotencyKey,
+      integrationId,
+      visitorId,
+      object: result.object,
+      recordId: result.id,
+    } as ISyncKey);
+
+    return entry.get({ plain: true });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Repository class for integration sync runs
+ * @version 1.0.0
+ */
+
+import { IntegrationSyncLogModel } from '../models/integrationSyncLog.model';
+import {
+  ISyncRun,
+  ISyncRunErrorDetails,
+  ISyncRunPage,
+  ISyncRunTrigger
+} from '../../interfaces/integration.interface';
+import {
+  CRM_OBJECT,
+  SYNC_MODE,
+  SYNC_RUN_STATUS,
+  SYNC_RUN_PAGE_SIZE
+} from '../../constants/integration.constants';
+
+/**
+ * Outcome recorded when a sync run completes
+ */
+interface SyncRunOutcome {
+  status: SYNC_RUN_STATUS;
+  recordsProcessed: number;
+  recordsFailed: number;
+  errorDetails: ISyncRunErrorDetails | null;
+}
+
+/**
+ * Repository class implementing data access layer for the sync history of integrations
+ */
+export class IntegrationSyncLogRepository {
+  private model: typeof IntegrationSyncLogModel;
+
+  constructor() {
+    this.model = IntegrationSyncLogModel;
+  }
+
+  /**
+   * Records the start of a sync run
+   * @param integrationId Integration being synchronized
+   * @param trigger What started the run
+   * @param syncObject CRM object visitors are pushed as
+   * @param mode Which visitors the run pushes
+   * @returns Running sync run
+   */
+  async start(
+    integrationId: string,
+    trigger: ISyncRunTrigger,
+    syncObject: CRM_OBJECT,
+    mode: SYNC_MODE
+  ): Promise<ISyncRun> {
+    const run = await this.model.create({
+      integrationId,
+      status: SYNC_RUN_STATUS.RUNNING,
+      trigger: trigger.type,
+      triggeredBy: trigger.userId || null,
+      retryOf: trigger.retryOf || null,
+      syncObject,
+      mode,
+      recordsProcessed: 0,
+      recordsFailed: 0,
+      errorDetails: null,
+      startedAt: new Date(),
+      completedAt: null,
+    } as ISyncRun);
+
+    return run.get({ plain: true });
+  }
+
+  /**
+   * Records the outcome of a sync run
+   * @param id Sync run ID
+   * @param outcome Status, counts and errors of the run
+   * @returns Completed sync run
+   */
+  async complete(id: string, outcome: SyncRunOutcome): Promise<ISyncRun> {
+    const run = await this.model.findByPk(id);
+    if (!run) {
+      throw new Error('Sync run not found');
+    }
+
+    await run.update({ ...outcome, completedAt: new Date() });
+    return run.get({ plain: true });
+  }
+
+  /**
+   * Retrieves a sync run of an integration
+   * @param id Sync run ID
+   * @param integrationId Integration ID for security validation
+   * @returns Found sync run or null
+   */
+  async findById(id: string, integrationId: string): Promise<ISyncRun | null> {
+    const run = await this.model.findOne({
+      where: { id, integrationId },
+    });
+
+    return run?.get({ plain: true }) || null;
+  }
+
+  /**
+   * Retrieves a page of an integration's sync runs, latest first
+   * @param integrationId Integration ID
+   * @param page Page number, starting at 1
+   * @param limit Runs per page
+   * @returns Page of sync runs
+   */
+  async findByIntegration(
+    integrationId: string,
+    page: number = 1,
+    limit: number = SYNC_RUN_PAGE_SIZE
+  ): Promise<ISyncRunPage> {
+    const { count, rows } = await this.model.findAndCountAll({
+      where: { integrationId },
+      limit,
+      offset: (page - 1) * limit,
+      order: [['startedAt', 'DESC']],
+    });
+
+    return {
+      items: rows.map(run => run.get({ plain: true })),
+      total: count,
+      page,
+      totalPages: Math.ceil(count / limit),
+    };
+  }
+}
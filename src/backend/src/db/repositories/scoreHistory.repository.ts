@@ -0,0 +1,81 @@
+/**
+ * @fileoverview Repository class for visitor lead score history in Identity Matrix
+ * Persists score changes and reads the activity counts visitors are scored on
+ * @version 1.0.0
+ */
+
+import winston from 'winston'; // v3.8.x
+import ScoreHistoryModel from '../models/scoreHistory.model';
+import ActivityModel from '../models/activity.model';
+import { IScoreHistoryEntry } from '../../interfaces/scoring.interface';
+import { VISITOR_ACTIVITY_TYPE } from '../../constants/visitor.constants';
+
+/**
+ * Repository class handling score history persistence and scoring inputs
+ */
+export class ScoreHistoryRepository {
+    private readonly HistoryModel: typeof ScoreHistoryModel;
+    private readonly ActivityModel: typeof ActivityModel;
+    private readonly logger: winston.Logger;
+
+    /**
+     * Initialize repository with required dependencies
+     */
+    constructor(logger: winston.Logger) {
+        this.HistoryModel = ScoreHistoryModel;
+        this.ActivityModel = ActivityModel;
+        this.logger = logger;
+    }
+
+    /**
+     * Records a score change
+     * @param entry - Score history entry to store
+     * @returns Stored entry
+     */
+    async create(entry: IScoreHistoryEntry): Promise<IScoreHistoryEntry> {
+        try {
+            await this.HistoryModel.create(entry);
+            return entry;
+        } catch (error) {
+            this.logger.error(`Error recording score for visitor ${entry.visitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds the score history of a visitor, most recent first
+     * @param visitorId - Visitor to look up
+     * @param limit - Maximum entries to return
+     * @returns Score history entries
+     */
+    async findByVisitor(visitorId: string, limit: number): Promise<IScoreHistoryEntry[]> {
+        try {
+            return await this.HistoryModel.find({ visitorId }, { _id: 0 })
+                .sort({ scoredAt: -1 })
+                .limit(limit)
+                .lean();
+        } catch (error) {
+            this.logger.error(`Error finding score history for visitor ${visitorId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Counts a visitor's tracked activities by type
+     * @param visitorId - Visitor to count activities for
+     * @returns Activity counts keyed by type
+     */
+    async countActivitiesByType(visitorId: string): Promise<Partial<Record<VISITOR_ACTIVITY_TYPE, number>>> {
+        try {
+            const groups = await this.ActivityModel.aggregate<{ _id: VISITOR_ACTIVITY_TYPE; count: number }>([
+                { $match: { visitorId } },
+                { $group: { _id: '$type', count: { $sum: 1 } } }
+            ]);
+
+            return groups.reduce((counts, group) => ({ ...counts, [group._id]: group.count }), {});
+        } catch (error) {
+            this.logger.error(`Error counting activities for visitor ${visitorId}:`, error);
+            throw error;
+        }
+    }
+}
@@ -9,7 +9,18 @@ import { createClient } from 'redis'; // v4.6.x
 import winston from 'winston'; // v3.8.x
 import VisitorModel from '../models/visitor.model';
 import { IVisitor, IVisitorMetadata, IEnrichedData } from '../../interfaces/visitor.interface';
+import { IAccountSummary, IAccountQuery, IAccountPage } from '../../interfaces/account.interface';
+import { IAttributionQuery, IAttributionReport } from '../../interfaces/attribution.interface';
+import { ISyncCursor, IVisitorCrmState } from '../../interfaces/integration.interface';
 import { VISITOR_STATUS, VISITOR_CACHE_TTL } from '../../constants/visitor.constants';
+import { ACCOUNT_DOMAIN_PATTERN, DEFAULT_ACCOUNT_SORT } from '../../constants/account.constants';
+import { ICP_FIT_TIER } from '../../constants/icp.constants';
+import { ATTRIBUTION_MODEL } from '../../constants/attribution.constants';
+import { CUSTOM_EVENT_SUMMARY_FIELD } from '../../constants/customEvent.constants';
+import { CONTENT_GROUP_SUMMARY_FIELD } from '../../constants/content.constants';
+import { CONSENTED_RETENTION_DAYS, ANONYMOUS_RETENTION_DAYS } from '../../constants/consent.constants';
+import { CRM_TYPES, CRM_OBJECT } from '../../constants/integration.constants';
+import { addDuration } from '../../utils/date.util';
 
 /**
  * Repository class handling all visitor data operations with caching and GDPR compliance
@@ -38,9 +49,11 @@ export class VisitorRepository {
     async create(visitorData: Partial<IVisitor>, consentData: { gdprConsent: boolean }): Promise<IVisitor> {
         try {
             // Set retention period based on consent
-            const retentionDate = consentData.gdprConsent 
-                ? new Date(Date.now() + (365 * 24 * 60 * 60 * 1000)) // 1 year
-                : new Date(Date.now() + (30 * 24 * 60 * 60 * 1000));  // 30 days
+            const retentionDate = addDuration(
+                new Date(),
+                consentData.gdprConsent ? CONSENTED_RETENTION_DAYS : ANONYMOUS_RETENTION_DAYS,
+                'day'
+            );
 
             const visitor = new this.Model({
                 ...visitorData,
@@ -118,6 +131,210 @@ export class VisitorRepository {
         }
     }
 
+    /**
+     * Updates visitor fields without registering a new visit
+     * Used for internal bookkeeping such as identity graph merges
+     * @param id - Visitor ID to update
+     * @param updateData - Data to set
+     * @returns Updated visitor
+     */
+    async patch(id: string, updateData: Partial<IVisitor>): Promise<IVisitor | null> {
+        try {
+            const visitor = await this.Model.findOneAndUpdate(
+                { id },
+                { $set: updateData },
+                { new: true, runValidators: true }
+            );
+
+            if (visitor) {
+                await this.cacheVisitor(visitor);
+            }
+
+            return visitor;
+        } catch (error) {
+            this.logger.error(`Error patching visitor ${id}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds multiple visitors by ID
+     * @param ids - Visitor IDs to find
+     * @returns Found visitors
+     */
+    async findByIds(ids: string[]): Promise<IVisitor[]> {
+        try {
+            return await this.Model.find({ id: { $in: ids } });
+        } catch (error) {
+            this.logger.error('Error finding visitors by IDs:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds visitors merged into a canonical visitor
+     * @param canonicalId - Canonical visitor ID
+     * @returns Merged visitor records
+     */
+    async findMergedInto(canonicalId: string): Promise<IVisitor[]> {
+        try {
+            return await this.Model.find({ mergedInto: canonicalId }).sort({ firstSeen: 1 });
+        } catch (error) {
+            this.logger.error(`Error finding visitors merged into ${canonicalId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds enriched canonical visitors last enriched before their company's cutoff, oldest first
+     * Visitors already queued and visitors of excluded companies are left out so they cannot fill the batch
+     * @param enrichedBefore - Enrichment cutoff of companies without a cutoff of their own
+     * @param enrichedBeforeByCompany - Enrichment cutoffs by company
+     * @param queuedBefore - Visitors queued for re-enrichment since this time are left out
+     * @param excludedCompanyIds - Companies whose visitors are left out
+     * @param limit - Maximum visitors to return
+     * @returns Stale enriched visitors
+     */
+    async findStaleEnriched(
+        enrichedBefore: Date,
+        enrichedBeforeByCompany: Map<string, Date>,
+        queuedBefore: Date,
+        excludedCompanyIds: string[],
+        limit: number
+    ): Promise<IVisitor[]> {
+        try {
+            // One clause per distinct cutoff keeps the query small when companies share a staleness window
+            const companyIdsByCutoff = new Map<number, string[]>();
+            for (const [companyId, cutoff] of enrichedBeforeByCompany) {
+                const companyIds = companyIdsByCutoff.get(cutoff.getTime()) || [];
+                companyIds.push(companyId);
+                companyIdsByCutoff.set(cutoff.getTime(), companyIds);
+            }
+
+            return await this.Model.find({
+                status: VISITOR_STATUS.ENRICHED,
+                mergedInto: null,
+                reenrichmentQueuedAt: { $not: { $gte: queuedBefore } },
+                $or: [
+                    {
+                        companyId: { $nin: [...enrichedBeforeByCompany.keys(), ...excludedCompanyIds] },
+                        lastEnriched: { $lt: enrichedBefore }
+                    },
+                    ...Array.from(companyIdsByCutoff, ([cutoff, companyIds]) => ({
+                        companyId: { $in: companyIds },
+                        lastEnriched: { $lt: new Date(cutoff) }
+                    }))
+                ]
+            })
+                .sort({ lastEnriched: 1 })
+                .limit(limit);
+        } catch (error) {
+            this.logger.error('Error finding stale enriched visitors:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds a batch of a company's identified canonical human visitors changed after a sync cursor, the candidates of a CRM sync
+     * @param companyId - Company owning the visitors
+     * @param cursor - Last visitor pushed by the previous batch (null to start from the first visitor)
+     * @param limit - Maximum visitors to return
+     * @returns Identified visitors ordered by last change, then ID
+     */
+    async findCrmSyncCandidates(companyId: string, cursor: ISyncCursor | null, limit: number): Promise<IVisitor[]> {
+        try {
+            return await this.Model.find({
+                companyId,
+                mergedInto: null,
+                status: { $in: [VISITOR_STATUS.IDENTIFIED, VISITOR_STATUS.ENRICHED] },
+                'trafficQuality.isBot': { $ne: true },
+                ...(cursor && {
+                    $or: [
+                        { updatedAt: { $gt: cursor.updatedAt } },
+                        { updatedAt: cursor.updatedAt, id: { $gt: cursor.visitorId } }
+                    ]
+                })
+            })
+                .sort({ updatedAt: 1, id: 1 })
+                .limit(limit)
+                .lean();
+        } catch (error) {
+            this.logger.error(`Error finding CRM sync candidates for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds a company's canonical visitors linked to records of a CRM object, the candidates of an inbound CRM sync
+     * @param companyId - Company owning the visitors
+     * @param type - CRM the visitors were pushed to
+     * @param object - CRM object the visitors are linked to
+     * @returns Linked visitors
+     */
+    async findCrmLinked(companyId: string, type: CRM_TYPES, object: CRM_OBJECT): Promise<IVisitor[]> {
+        try {
+            return await this.Model.find({
+                companyId,
+                mergedInto: null,
+                'crm.type': type,
+                'crm.object': object
+            }).lean();
+        } catch (error) {
+            this.logger.error(`Error finding CRM linked visitors for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Stores the CRM records visitors are linked to and their relationship state
+     * Leaves the update time untouched so storing CRM state does not make visitors sync candidates again
+     * @param states - CRM state by visitor ID
+     */
+    async setCrmStates(states: Array<{ id: string; crm: IVisitorCrmState }>): Promise<void> {
+        if (states.length === 0) {
+            return;
+        }
+
+        try {
+            await this.Model.bulkWrite(
+                states.map(({ id, crm }) => ({
+                    updateOne: {
+                        filter: { id },
+                        update: { $set: { crm } },
+                        timestamps: false
+                    }
+                }))
+            );
+
+            await Promise.all(states.map(({ id }) => this.invalidateCache(id)));
+        } catch (error) {
+            this.logger.error('Error storing visitor CRM states:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Counts a company's canonical human visitors active during a time range
+     * @param companyId - Company owning the visitors
+     * @param from - Start of the range (inclusive)
+     * @param to - End of the range (exclusive)
+     * @returns Number of visitors first seen before the end and last seen after the start of the range
+     */
+    async countActive(companyId: string, from: Date, to: Date): Promise<number> {
+        try {
+            return await this.Model.countDocuments({
+                companyId,
+                mergedInto: null,
+                'trafficQuality.isBot': { $ne: true },
+                firstSeen: { $lt: to },
+                lastSeen: { $gte: from }
+            });
+        } catch (error) {
+            this.logger.error(`Error counting active visitors for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+
     /**
      * Performs bulk upsert of visitors with optimized operations
      * @param visitors - Array of visitor data to upsert
@@ -180,20 +397,51 @@ export class VisitorRepository {
      * @param companyId - Company ID to filter by
      * @param page - Page number
      * @param limit - Items per page
+     * @param options - Minimum lead score, account domain, ICP fit tiers, performed custom event, viewed content
+     * group and sort order;
+     * bots lists visitors flagged as bots, which are otherwise excluded
      * @returns Paginated visitors
      */
     async findByCompany(
         companyId: string,
         page: number = 1,
-        limit: number = 50
+        limit: number = 50,
+        options: {
+            minScore?: number;
+            account?: string;
+            icpTiers?: ICP_FIT_TIER[];
+            customEvent?: string;
+            contentGroup?: string;
+            bots?: boolean;
+            sortBy?: 'lastSeen' | 'score';
+        } = {}
     ): Promise<{ visitors: IVisitor[]; total: number }> {
         try {
+            const filter = {
+                companyId,
+                mergedInto: null,
+                // Bots are hidden unless explicitly listed
+                'trafficQuality.isBot': options.bots ? true : { $ne: true },
+                ...(options.minScore !== undefined && { score: { $gte: options.minScore } }),
+                ...(options.account && { $expr: { $eq: [this.accountDomainExpression(), options.account] } }),
+                ...(options.icpTiers?.length && this.icpTierFilter(options.icpTiers)),
+                ...(options.customEvent && {
+                    [`${CUSTOM_EVENT_SUMMARY_FIELD}.${options.customEvent}.count`]: { $gte: 1 }
+                }),
+                ...(options.contentGroup && {
+                    [`${CONTENT_GROUP_SUMMARY_FIELD}.${options.contentGroup}.views`]: { $gte: 1 }
+                })
+            };
+            const sort: Record<string, 1 | -1> = options.sortBy === 'score'
+                ? { score: -1, lastSeen: -1 }
+                : { lastSeen: -1 };
+
             const [visitors, total] = await Promise.all([
-                this.Model.find({ companyId })
-                    .sort({ lastSeen: -1 })
+                this.Model.find(filter)
+                    .sort(sort)
                     .skip((page - 1) * limit)
                     .limit(limit),
-                this.Model.countDocuments({ companyId })
+                this.Model.countDocuments(filter)
             ]);
 
             return { visitors, total };
@@ -203,6 +451,268 @@ export class VisitorRepository {
         }
     }
 
+    /**
+     * Rolls up a company's canonical visitors into accounts grouped by organization domain
+     * Visitors without a website or resolved domain are left out
+     * @param companyId - Company ID to aggregate
+     * @param query - Pagination, sort and search options
+     * @returns Paginated account summaries without top pages
+     */
+    async aggregateAccounts(
+        companyId: string,
+        query: IAccountQuery
+    ): Promise<{ accounts: Omit<IAccountSummary, 'topPages'>[]; total: number }> {
+        try {
+            const searchStage = query.search
+                ? [{
+                    $match: {
+                        $or: [
+                            { domain: { $regex: this.escapeRegex(query.search), $options: 'i' } },
+                            { name: { $regex: this.escapeRegex(query.search), $options: 'i' } }
+                        ]
+                    }
+                }]
+                : [];
+
+            const [result] = await this.Model.aggregate([
+                ...this.accountMatchStages(companyId),
+                {
+                    $group: {
+                        _id: '$accountDomain',
+                        name: { $max: { $ifNull: ['$enrichedData.company', '$companyResolution.organization'] } },
+                        visitorCount: { $sum: 1 },
+                        engagedPeople: { $sum: { $cond: [{ $ifNull: ['$email', false] }, 1, 0] } },
+                        totalVisits: { $sum: '$visits' },
+                        totalTimeSpent: { $sum: '$totalTimeSpent' },
+                        topScore: { $max: { $ifNull: ['$score', 0] } },
+                        firstSeen: { $min: '$firstSeen' },
+                        lastSeen: { $max: '$lastSeen' }
+                    }
+                },
+                {
+                    $project: {
+                        _id: 0,
+                        domain: '$_id',
+                        name: { $ifNull: ['$name', null] },
+                        visitorCount: 1,
+                        engagedPeople: 1,
+                        totalVisits: 1,
+                        totalTimeSpent: 1,
+                        topScore: 1,
+                        firstSeen: 1,
+                        lastSeen: 1
+                    }
+                },
+                ...searchStage,
+                { $sort: { [query.sortBy || DEFAULT_ACCOUNT_SORT]: -1, domain: 1 } },
+                {
+                    $facet: {
+                        accounts: [{ $skip: (query.page - 1) * query.limit }, { $limit: query.limit }],
+                        total: [{ $count: 'count' }]
+                    }
+                }
+            ]);
+
+            return {
+                accounts: result?.accounts || [],
+                total: result?.total[0]?.count || 0
+            };
+        } catch (error) {
+            this.logger.error(`Error aggregating accounts for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Credits a company's canonical visitors to the channels and campaigns of their touches
+     * First and last touch give each visitor one credit; linear splits it evenly across its touches
+     * @param companyId - Company ID to aggregate
+     * @param query - Attribution model and first-seen cutoff
+     * @param campaignLimit - Maximum campaigns returned
+     * @returns Channel and campaign credit, most visitors first
+     */
+    async aggregateAttribution(
+        companyId: string,
+        query: IAttributionQuery,
+        campaignLimit: number
+    ): Promise<Omit<IAttributionReport, 'model'>> {
+        try {
+            const touchStages = query.model === ATTRIBUTION_MODEL.LINEAR
+                ? [
+                    { $match: { 'attribution.touches.0': { $exists: true } } },
+                    { $addFields: { credit: { $divide: [1, { $size: '$attribution.touches' }] } } },
+                    { $unwind: '$attribution.touches' },
+                    { $addFields: { touch: '$attribution.touches' } }
+                ]
+                : [{
+                    $addFields: {
+                        credit: 1,
+                        touch: query.model === ATTRIBUTION_MODEL.FIRST_TOUCH
+                            ? '$attribution.firstTouch'
+                            : '$attribution.lastTouch'
+                    }
+                }];
+            const identifiedStatuses = [VISITOR_STATUS.IDENTIFIED, VISITOR_STATUS.ENRICHED];
+            const creditFields = {
+                visitors: { $sum: '$credit' },
+                identified: { $sum: { $cond: [{ $in: ['$status', identifiedStatuses] }, '$credit', 0] } },
+                enriched: { $sum: { $cond: [{ $eq: ['$status', VISITOR_STATUS.ENRICHED] }, '$credit', 0] } }
+            };
+
+            const [result] = await this.Model.aggregate([
+                {
+                    $match: {
+                        companyId,
+                        mergedInto: null,
+                        attribution: { $ne: null },
+                        ...(query.since && { firstSeen: { $gte: query.since } })
+                    }
+                },
+                ...touchStages,
+                {
+                    $facet: {
+                        channels: [
+                            { $group: { _id: '$touch.channel', ...creditFields } },
+                            { $project: { _id: 0, channel: '$_id', visitors: 1, identified: 1, enriched: 1 } },
+                            { $sort: { visitors: -1, channel: 1 } }
+                        ],
+                        campaigns: [
+                            { $match: { 'touch.campaign': { $nin: [null, ''] } } },
+                            {
+                                $group: {
+                                    _id: { channel: '$touch.channel', source: '$touch.source', campaign: '$touch.campaign' },
+                                    ...creditFields
+                                }
+                            },
+                            {
+                                $project: {
+                                    _id: 0,
+                                    channel: '$_id.channel',
+                                    source: '$_id.source',
+                                    campaign: '$_id.campaign',
+                                    visitors: 1,
+                                    identified: 1,
+                                    enriched: 1
+                                }
+                            },
+                            { $sort: { visitors: -1, campaign: 1 } },
+                            { $limit: campaignLimit }
+                        ]
+                    }
+                }
+            ]);
+
+            return {
+                channels: result?.channels || [],
+                campaigns: result?.campaigns || []
+            };
+        } catch (error) {
+            this.logger.error(`Error aggregating attribution for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Finds the most visited pages of the given accounts
+     * @param companyId - Company ID owning the accounts
+     * @param domains - Account domains to look up
+     * @param limit - Maximum pages per account
+     * @returns Top pages keyed by account domain
+     */
+    async findAccountTopPages(
+        companyId: string,
+        domains: string[],
+        limit: number
+    ): Promise<Record<string, IAccountPage[]>> {
+        if (domains.length === 0) {
+            return {};
+        }
+
+        try {
+            const rows: Array<{ _id: string; pages: IAccountPage[] }> = await this.Model.aggregate([
+                ...this.accountMatchStages(companyId),
+                { $match: { accountDomain: { $in: domains } } },
+                {
+                    $project: {
+                        accountDomain: 1,
+                        pages: {
+                            $setUnion: [
+                                { $ifNull: ['$metadata.previousPages', []] },
+                                { $cond: [{ $ifNull: ['$metadata.currentPage', false] }, ['$metadata.currentPage'], []] }
+                            ]
+                        }
+                    }
+                },
+                { $unwind: '$pages' },
+                { $group: { _id: { domain: '$accountDomain', url: '$pages' }, views: { $sum: 1 } } },
+                { $sort: { views: -1, '_id.url': 1 } },
+                { $group: { _id: '$_id.domain', pages: { $push: { url: '$_id.url', views: '$views' } } } },
+                { $project: { pages: { $slice: ['$pages', limit] } } }
+            ]);
+
+            return rows.reduce<Record<string, IAccountPage[]>>((pagesByDomain, row) => {
+                pagesByDomain[row._id] = row.pages;
+                return pagesByDomain;
+            }, {});
+        } catch (error) {
+            this.logger.error(`Error finding account top pages for company ${companyId}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Query matching visitors in any of the given ICP fit tiers
+     * Unclassified visitors count as NONE
+     */
+    private icpTierFilter(tiers: ICP_FIT_TIER[]): Record<string, unknown> {
+        return tiers.includes(ICP_FIT_TIER.NONE)
+            ? { $or: [{ 'icpFit.tier': { $in: tiers } }, { icpFit: null }] }
+            : { 'icpFit.tier': { $in: tiers } };
+    }
+
+    /**
+     * Pipeline stages selecting a company's canonical visitors that belong to an account
+     */
+    private accountMatchStages(companyId: string): Record<string, unknown>[] {
+        return [
+            { $match: { companyId, mergedInto: null } },
+            { $addFields: { accountDomain: this.accountDomainExpression() } },
+            { $match: { accountDomain: { $nin: [null, ''] } } }
+        ];
+    }
+
+    /**
+     * Aggregation expression deriving a visitor's account domain
+     * Prefers the host of the enriched website and falls back to the IP-resolved domain
+     */
+    private accountDomainExpression(): Record<string, unknown> {
+        return {
+            $let: {
+                vars: {
+                    website: {
+                        $regexFind: {
+                            input: { $toLower: { $ifNull: ['$enrichedData.website', ''] } },
+                            regex: ACCOUNT_DOMAIN_PATTERN
+                        }
+                    }
+                },
+                in: {
+                    $ifNull: [
+                        { $arrayElemAt: ['$$website.captures', 0] },
+                        { $toLower: { $ifNull: ['$companyResolution.domain', ''] } }
+                    ]
+                }
+            }
+        };
+    }
+
+    /**
+     * Escapes user input for use inside a regular expression
+     */
+    private escapeRegex(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
     /**
      * Caches visitor data in Redis
      * @param visitor - Visitor data to cache
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview TypeScript interfaces for account-level visitor rollups
+ * Accounts group a company's visitors by the organization domain they belong to
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { ACCOUNT_SORT_FIELDS } from '../constants/account.constants';
+
+/**
+ * Field an account list can be sorted by
+ */
+export type AccountSortField = typeof ACCOUNT_SORT_FIELDS[number];
+
+/**
+ * Page visited by an account's visitors
+ */
+export interface IAccountPage {
+    /** Page URL */
+    url: string;
+
+    /** Number of visitors who viewed the page */
+    views: number;
+}
+
+/**
+ * Aggregated engagement of all visitors belonging to one account
+ */
+export interface IAccountSummary {
+    /** Account domain visitors are grouped by */
+    domain: string;
+
+    /** Organization name from enrichment or IP resolution */
+    name: string | null;
+
+    /** Number of canonical visitors in the account */
+    visitorCount: number;
+
+    /** Number of identified visitors (known email) in the account */
+    engagedPeople: number;
+
+    /** Total visits across visitors */
+    totalVisits: number;
+
+    /** Total time on site across visitors in seconds */
+    totalTimeSpent: number;
+
+    /** Highest lead score of the account's visitors */
+    topScore: number;
+
+    /** Earliest visit of any visitor */
+    firstSeen: Date;
+
+    /** Most recent visit of any visitor */
+    lastSeen: Date;
+
+    /** Most visited pages, most viewed first */
+    topPages: IAccountPage[];
+}
+
+/**
+ * Options for listing accounts
+ */
+export interface IAccountQuery {
+    /** Page number, starting at 1 */
+    page: number;
+
+    /** Accounts per page */
+    limit: number;
+
+    /** Sort field, descending */
+    sortBy?: AccountSortField;
+
+    /** Case-insensitive match on account domain or name */
+    search?: string;
+}
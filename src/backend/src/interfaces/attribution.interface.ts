@@ -0,0 +1,93 @@
+/**
+ * @fileoverview TypeScript interfaces for marketing attribution
+ * Defines classified touches, the attribution kept per visitor and channel/campaign reports
+ * @version 1.0.0
+ */
+
+import { MARKETING_CHANNEL, ATTRIBUTION_MODEL } from '../constants/attribution.constants';
+
+/**
+ * Visit that brought a visitor to the site, classified into a marketing channel
+ */
+export interface ITouchpoint {
+    /** Channel the visit came through */
+    channel: MARKETING_CHANNEL;
+    /** utm_source, or the referrer domain when absent */
+    source: string | null;
+    /** utm_medium */
+    medium: string | null;
+    /** utm_campaign */
+    campaign: string | null;
+    /** utm_term */
+    term: string | null;
+    /** utm_content */
+    content: string | null;
+    /** Host of the external referrer (null for direct and internal visits) */
+    referrerDomain: string | null;
+    /** Page the visit landed on */
+    landingPage: string | null;
+    /** Time the visit started */
+    occurredAt: Date;
+}
+
+/**
+ * Attribution kept on the visitor in IVisitor.attribution
+ */
+export interface IVisitorAttribution {
+    /** Touch of the visitor's first session */
+    firstTouch: ITouchpoint;
+    /** Latest non-direct touch, or the latest touch when all were direct */
+    lastTouch: ITouchpoint;
+    /** Touches of the visitor's sessions, oldest first, capped at MAX_ATTRIBUTION_TOUCHES */
+    touches: ITouchpoint[];
+}
+
+/**
+ * Visitors credited to a channel or campaign
+ * Linear attribution splits each visitor's credit across its touches, so counts may be fractional
+ */
+export interface IAttributionCredit {
+    /** Credited visitors */
+    visitors: number;
+    /** Credited visitors that are identified */
+    identified: number;
+    /** Credited visitors with enriched company data */
+    enriched: number;
+}
+
+/**
+ * Visitors credited to a marketing channel
+ */
+export interface IChannelAttribution extends IAttributionCredit {
+    channel: MARKETING_CHANNEL;
+}
+
+/**
+ * Visitors credited to a campaign
+ */
+export interface ICampaignAttribution extends IAttributionCredit {
+    channel: MARKETING_CHANNEL;
+    source: string | null;
+    campaign: string;
+}
+
+/**
+ * Options of an attribution report
+ */
+export interface IAttributionQuery {
+    /** How touches are credited */
+    model: ATTRIBUTION_MODEL;
+    /** Only visitors first seen at or after this time */
+    since?: Date;
+}
+
+/**
+ * Attribution report of a company's visitors
+ */
+export interface IAttributionReport {
+    model: ATTRIBUTION_MODEL;
+    /** Credit per channel, most visitors first */
+    channels: IChannelAttribution[];
+    /** Credit per campaign, most visitors first */
+    campaigns: ICampaignAttribution[];
+}
@@ -6,6 +6,15 @@
 // External imports
 import { UUID } from 'crypto'; // v20.0.0+
 
+// Internal imports
+import { ILeadScoringSettings } from './scoring.interface';
+import { IIdealCustomerProfile } from './icp.interface';
+import { IVerificationSettings } from './verification.interface';
+import { ICustomEventDefinition } from './customEvent.interface';
+import { IGoalDefinition, IFunnelDefinition } from './goal.interface';
+import { IUrlNormalizationSettings, IContentGroupDefinition } from './content.interface';
+import { IFormCaptureSettings } from './formCapture.interface';
+
 /**
  * Comprehensive interface defining company-specific configuration settings
  * with extensive customization options for the Identity Matrix platform.
@@ -51,6 +60,33 @@ export interface ICompanySettings {
     /** Require Multi-Factor Authentication */
     requireMFA: boolean;
   };
+
+  /** Lead scoring rules, default rules apply when absent */
+  leadScoring?: ILeadScoringSettings;
+
+  /** Ideal customer profiles visitors are classified against */
+  idealCustomerProfiles?: IIdealCustomerProfile[];
+
+  /** Email and phone verification of identifications, defaults apply when absent */
+  identityVerification?: Partial<IVerificationSettings>;
+
+  /** Custom events the company's sites may track */
+  customEvents?: ICustomEventDefinition[];
+
+  /** Conversion goals completed by visitor activity */
+  goals?: IGoalDefinition[];
+
+  /** Ordered sequences of goals reported as funnels */
+  funnels?: IFunnelDefinition[];
+
+  /** Normalization of tracked page URLs, defaults apply to unset rules */
+  urlNormalization?: Partial<IUrlNormalizationSettings>;
+
+  /** Groups of pages matched by path pattern, e.g. case studies */
+  contentGroups?: IContentGroupDefinition[];
+
+  /** Capture of mapped form fields from form submissions, disabled when absent */
+  formCapture?: IFormCaptureSettings;
 }
 
 /**
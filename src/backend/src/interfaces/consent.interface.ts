@@ -0,0 +1,73 @@
+/**
+ * @fileoverview TypeScript interfaces for visitor consent management
+ * Defines the consent state stored on visitors and the append-only consent history kept for audits
+ * @version 1.0.0
+ */
+
+import { CONSENT_PURPOSE, CONSENT_SOURCE } from '../constants/consent.constants';
+
+/**
+ * Consent decisions keyed by purpose, e.g. { ANALYTICS: true, CRM_SYNC: false }
+ */
+export type IConsentPurposes = Partial<Record<CONSENT_PURPOSE, boolean>>;
+
+/**
+ * Current decision for one purpose
+ */
+export interface IConsentGrant {
+    /** Whether the visitor consented */
+    granted: boolean;
+    /** Where the decision was collected */
+    source: CONSENT_SOURCE;
+    /** Time the decision was made */
+    recordedAt: Date;
+}
+
+/**
+ * Current consent of a visitor stored in IVisitor.consent; absent purposes were never asked
+ */
+export type IConsentState = Partial<Record<CONSENT_PURPOSE, IConsentGrant>>;
+
+/**
+ * Consent decisions reported together, e.g. by one consent banner submission
+ */
+export interface IConsentUpdate {
+    /** Decisions by purpose; purposes left out keep their current state */
+    purposes: IConsentPurposes;
+    /** Where the decisions were collected */
+    source: CONSENT_SOURCE;
+    /** Version of the privacy policy or banner text the visitor saw */
+    policyVersion?: string;
+    /** Team member who recorded the decisions (ADMIN source only) */
+    recordedBy?: string;
+    /** Browser user agent the decisions were submitted from */
+    userAgent?: string;
+}
+
+/**
+ * Entry of the consent history, written whenever a purpose's decision changes
+ */
+export interface IConsentRecord {
+    id: string;
+    companyId: string;
+    visitorId: string;
+    purpose: CONSENT_PURPOSE;
+    granted: boolean;
+    source: CONSENT_SOURCE;
+    policyVersion: string | null;
+    recordedBy: string | null;
+    userAgent: string | null;
+    recordedAt: Date;
+}
+
+/**
+ * Filters of a company's consent history export
+ */
+export interface IConsentExportQuery {
+    /** Only records made at or after this time */
+    since?: Date;
+    /** Only records made before this time */
+    until?: Date;
+    /** Only records of this visitor */
+    visitorId?: string;
+}
@@ -0,0 +1,108 @@
+/**
+ * @fileoverview TypeScript interfaces for tracked URL normalization and content groups
+ * Defines the normalization rules and content groups registered in company settings,
+ * the per-visitor page view summaries used by visitor filters, and content group reports
+ * @version 1.0.0
+ */
+
+import { TRAILING_SLASH } from '../constants/content.constants';
+
+/**
+ * URL normalization rules registered by a company in ICompanySettings.urlNormalization
+ */
+export interface IUrlNormalizationSettings {
+    /** Whether query parameters are removed from tracked URLs */
+    stripQueryParams: boolean;
+
+    /** Query parameters kept when the others are stripped, e.g. a pagination parameter */
+    keptQueryParams: string[];
+
+    /** How trailing slashes of paths are canonicalized */
+    trailingSlash: TRAILING_SLASH;
+
+    /** Whether paths are lowercased */
+    lowercasePath: boolean;
+}
+
+/**
+ * Content group registered by a company in ICompanySettings.contentGroups
+ */
+export interface IContentGroupDefinition {
+    /** Group ID in lowercase snake case, unique within the company */
+    id: string;
+
+    /** Name shown to members */
+    name: string;
+
+    /** Path patterns of the group's pages, e.g. /customers/** */
+    pathPatterns: string[];
+}
+
+/**
+ * URL normalization rules and content groups of a company, defaults filling unset rules
+ */
+export interface IContentDefinitions {
+    urlNormalization: IUrlNormalizationSettings;
+    contentGroups: IContentGroupDefinition[];
+}
+
+/**
+ * Page views of one content group by a visitor, stored on the visitor
+ */
+export interface IContentGroupSummary {
+    views: number;
+    firstViewedAt: Date;
+    lastViewedAt: Date;
+}
+
+/**
+ * Time range of content group reports
+ */
+export interface IContentReportQuery {
+    /** Start of the range, DEFAULT_CONTENT_REPORT_DAYS ago when absent */
+    from?: Date;
+
+    /** End of the range, now when absent */
+    to?: Date;
+}
+
+/**
+ * Page views of one normalized URL of a content group
+ */
+export interface IContentPageReport {
+    url: string;
+    views: number;
+}
+
+/**
+ * Page views of one content group over a report range
+ */
+export interface IContentGroupReportRow {
+    groupId: string;
+    name: string;
+
+    /** Page views of the group's pages in the range */
+    views: number;
+
+    /** Distinct visitors viewing the group's pages in the range */
+    visitors: number;
+
+    /** Share of all page views in the range, 0-1 */
+    viewShare: number;
+
+    /** Most viewed pages of the group, at most CONTENT_REPORT_TOP_PAGES */
+    topPages: IContentPageReport[];
+}
+
+/**
+ * Page views of all content groups of a company over a report range
+ */
+export interface IContentGroupReport {
+    from: Date;
+    to: Date;
+
+    /** Page views of human visitors in the range */
+    pageViews: number;
+
+    groups: IContentGroupReportRow[];
+}
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview TypeScript interfaces for company-defined custom events
+ * Defines event schemas registered in company settings, validated event payloads
+ * and the per-visitor event summaries used by filters, scoring and CRM sync
+ * @version 1.0.0
+ */
+
+import { CUSTOM_EVENT_PROPERTY_TYPE } from '../constants/customEvent.constants';
+
+/**
+ * Property declared by a custom event
+ */
+export interface ICustomEventProperty {
+    /** Property name in lowercase snake case */
+    name: string;
+
+    /** Type values of the property must have */
+    type: CUSTOM_EVENT_PROPERTY_TYPE;
+
+    /** Whether every occurrence must carry the property */
+    required?: boolean;
+
+    /** Whether the property holds personal data, kept only for visitors with GDPR consent */
+    pii?: boolean;
+}
+
+/**
+ * Custom event registered by a company in ICompanySettings.customEvents
+ */
+export interface ICustomEventDefinition {
+    /** Event name in lowercase snake case, unique within the company */
+    name: string;
+
+    /** Description shown to members */
+    description?: string;
+
+    /** Properties the event may carry; undeclared properties are rejected */
+    properties: ICustomEventProperty[];
+}
+
+/**
+ * Custom event payload validated against its definition
+ */
+export interface ICustomEventData {
+    /** Registered event name */
+    eventName: string;
+
+    /** Property values coerced to their declared types */
+    properties: Record<string, string | number | boolean | Date>;
+
+    /** Names of the supplied properties flagged as PII */
+    piiProperties: string[];
+}
+
+/**
+ * Occurrences of a custom event stored on the visitor in IVisitor.customEvents
+ */
+export interface ICustomEventSummary {
+    /** Number of times the visitor performed the event */
+    count: number;
+
+    /** Time of the first occurrence */
+    firstOccurredAt: Date;
+
+    /** Time of the latest occurrence */
+    lastOccurredAt: Date;
+
+    /** Non-PII properties of the latest occurrence */
+    lastProperties: Record<string, string | number | boolean | Date>;
+}
@@ -0,0 +1,204 @@
+/**
+ * @fileoverview TypeScript interfaces for the pluggable visitor enrichment framework
+ * Defines the provider plugin contract, per-company enrichment settings and field provenance
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { ENRICHMENT_MODE } from '../constants/enrichment.constants';
+import { IVisitor, IEnrichedData } from './visitor.interface';
+
+/**
+ * Enriched data field a provider can supply
+ */
+export type EnrichableField = Exclude<keyof IEnrichedData, 'provenance' | 'candidates' | 'overrides'>;
+
+/**
+ * Lookup passed to enrichment providers
+ */
+export interface IEnrichmentQuery {
+  /** Email address of the visitor */
+  email: string;
+
+  /** Email domain, used by company-level providers */
+  domain: string;
+
+  /** Visitor being enriched */
+  visitor: IVisitor;
+}
+
+/**
+ * Health status reported by an enrichment provider
+ */
+export interface IProviderHealth {
+  /** Provider name */
+  provider: string;
+
+  /** Whether the provider is currently usable */
+  healthy: boolean;
+
+  /** Round-trip latency of the health check in milliseconds */
+  latencyMs?: number;
+
+  /** Failure description when unhealthy */
+  message?: string;
+
+  /** Time the status was determined */
+  checkedAt: Date;
+}
+
+/**
+ * Contract implemented by enrichment provider plugins
+ */
+export interface IEnrichmentProvider {
+  /** Unique provider name referenced by company settings */
+  readonly name: string;
+
+  /** Cost of a single enrichment call in USD */
+  readonly costPerCall: number;
+
+  /** Fields the provider is able to supply */
+  readonly fieldCoverage: EnrichableField[];
+
+  /** Default position when no company-specific order is set (lower runs first) */
+  readonly priority: number;
+
+  /**
+   * Looks up enrichment data for a visitor
+   * @returns Partial enriched data, or null when the provider has no match
+   */
+  enrich(query: IEnrichmentQuery): Promise<Partial<IEnrichedData> | null>;
+
+  /**
+   * Checks whether the provider is reachable and accepting requests
+   */
+  checkHealth(): Promise<IProviderHealth>;
+}
+
+/**
+ * Per-company enrichment settings stored under
+ * ICompanySettings.integrationConfig.integrationSettings.enrichment
+ */
+export interface IEnrichmentSettings {
+  /** How providers are queried */
+  mode: ENRICHMENT_MODE;
+
+  /** Fields that end a waterfall once all are filled */
+  requiredFields: EnrichableField[];
+
+  /** Ordered provider names that win for a field, ahead of providerOrder */
+  fieldPrecedence: Partial<Record<EnrichableField, string[]>>;
+
+  /** Company-specific provider order, overriding provider priority */
+  providerOrder: string[];
+
+  /** Providers never queried for the company */
+  disabledProviders: string[];
+
+  /** Days an enrichment result stays fresh before the visitor is re-enriched */
+  stalenessDays: number;
+
+  /** Maximum provider spend per day in USD, null for no cap */
+  dailyBudget: number | null;
+}
+
+/**
+ * Record of which provider supplied an enriched field
+ */
+export interface IFieldProvenance {
+  /** Provider that supplied the value */
+  provider: string;
+
+  /** Time the value was retrieved */
+  retrievedAt: Date;
+
+  /** Confidence in the value from 0 to 1, absent on records enriched before confidence scoring */
+  confidence?: number;
+}
+
+/**
+ * Value a provider supplied for an enriched field, kept so conflicts can be reviewed
+ */
+export interface IFieldCandidate {
+  /** Provider that supplied the value */
+  provider: string;
+
+  /** Supplied value */
+  value: unknown;
+
+  /** Confidence in the value from 0 to 1, based on how many providers agree with it */
+  confidence: number;
+
+  /** Time the value was retrieved */
+  retrievedAt: Date;
+}
+
+/**
+ * Value chosen by a team member for an enriched field, locked against re-enrichment
+ */
+export interface IFieldOverride {
+  /** Locked value */
+  value: string;
+
+  /** Provider of the accepted candidate, null for a manually entered value */
+  provider: string | null;
+
+  /** User who set the override */
+  userId: string;
+
+  /** Time the field was locked */
+  lockedAt: Date;
+}
+
+/**
+ * Review decision for an enriched field: accept a provider's candidate or enter a value
+ */
+export interface IFieldOverrideInput {
+  /** Value to lock the field to, ignored when a provider's candidate is accepted */
+  value?: string;
+
+  /** Provider whose candidate is accepted, omitted for a manually entered value */
+  provider?: string;
+}
+
+/**
+ * Outcome of an enrichment run across providers
+ */
+export interface IEnrichmentResult {
+  /** Resolved enriched data including provenance */
+  enrichedData: IEnrichedData;
+
+  /** Providers that were called, in call order */
+  providersQueried: string[];
+
+  /** Total cost of the provider calls in USD */
+  totalCost: number;
+
+  /** Whether the result was served from the enrichment cache without provider calls */
+  fromCache?: boolean;
+}
+
+/**
+ * Options controlling a single enrichment run
+ */
+export interface IEnrichmentOptions {
+  /** Bypass cached results and query providers again */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Re-enrichment job sent to the enrichment queue for a stale visitor
+ */
+export interface IReenrichmentMessage {
+  /** Message type discriminator */
+  type: string;
+
+  /** Visitor to re-enrich */
+  visitorId: string;
+
+  /** Company owning the visitor */
+  companyId: string;
+
+  /** Time the visitor was last enriched */
+  lastEnriched: Date | null;
+}
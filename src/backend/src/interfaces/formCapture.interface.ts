@@ -0,0 +1,62 @@
+/**
+ * @fileoverview TypeScript interfaces for form field capture
+ * Defines the per-form input mappings registered in company settings, the forms the SDK
+ * is told to capture and the fields captured from a submission
+ * @version 1.0.0
+ */
+
+import { FORM_CAPTURE_FIELD } from '../constants/formCapture.constants';
+
+/**
+ * Mapping of one form's inputs to visitor fields
+ */
+export interface IFormFieldMapping {
+    /** ID of the form, as sent in the formId of FORM_SUBMIT activities */
+    formId: string;
+
+    /** Input name mapped to each visitor field, e.g. { email: 'work_email' } */
+    fields: Partial<Record<FORM_CAPTURE_FIELD, string>>;
+
+    /** Checkbox input whose checked value grants identification consent */
+    consentField?: string;
+
+    /** Whether a valid email identifies the visitor (default true) */
+    autoIdentify?: boolean;
+}
+
+/**
+ * Form capture settings registered by a company in ICompanySettings.formCapture
+ */
+export interface IFormCaptureSettings {
+    /** Master toggle; forms are never captured unless enabled */
+    enabled: boolean;
+
+    /** Input names never captured in addition to passwords and payment details */
+    sensitiveFields: string[];
+
+    forms: IFormFieldMapping[];
+}
+
+/**
+ * Form whose inputs the SDK sends with FORM_SUBMIT activities
+ */
+export interface ITrackingForm {
+    formId: string;
+
+    /** Names of the inputs to send, sensitive inputs excluded */
+    fields: string[];
+}
+
+/**
+ * Fields captured from a form submission
+ */
+export interface ICapturedForm {
+    /** Mapped values, empty values and sensitive inputs left out */
+    fields: Partial<Record<FORM_CAPTURE_FIELD, string>>;
+
+    /** Whether the submission granted identification consent through the form's consent field */
+    consentGiven: boolean;
+
+    /** Whether the submission should identify the visitor */
+    autoIdentify: boolean;
+}
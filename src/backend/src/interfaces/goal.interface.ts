@@ -0,0 +1,209 @@
+/**
+ * @fileoverview TypeScript interfaces for conversion goals and funnels
+ * Defines goals and funnels registered in company settings, recorded goal completions,
+ * the per-visitor completion summaries used by scoring and CRM sync, and goal and funnel reports
+ * @version 1.0.0
+ */
+
+import { GOAL_TYPE, FUNNEL_SEGMENT } from '../constants/goal.constants';
+
+/**
+ * Goal registered by a company in ICompanySettings.goals
+ */
+export interface IGoalDefinition {
+    /** Goal ID in lowercase snake case, unique within the company */
+    id: string;
+
+    /** Name shown to members */
+    name: string;
+
+    /** Activity completing the goal */
+    type: GOAL_TYPE;
+
+    /** Case-insensitive text the page URL must contain; required for PAGE_VISIT goals */
+    urlPattern?: string;
+
+    /** Form completing FORM_SUBMIT goals; any form when absent */
+    formId?: string;
+
+    /** Custom event completing CUSTOM_EVENT goals */
+    eventName?: string;
+}
+
+/**
+ * Ordered sequence of goals registered by a company in ICompanySettings.funnels
+ */
+export interface IFunnelDefinition {
+    /** Funnel ID in lowercase snake case, unique within the company */
+    id: string;
+
+    /** Name shown to members */
+    name: string;
+
+    /** IDs of the goals visitors complete in order */
+    steps: string[];
+
+    /** Days visitors have to complete the funnel after entering it */
+    windowDays?: number;
+}
+
+/**
+ * Completion of a goal by a visitor, recorded once per completing activity
+ */
+export interface IGoalCompletion {
+    id: string;
+    companyId: string;
+    visitorId: string;
+    goalId: string;
+
+    /** Activity that completed the goal */
+    activityId: string;
+
+    /** Time of the completing activity */
+    completedAt: Date;
+}
+
+/**
+ * Completions of a goal stored on the visitor in IVisitor.goals
+ */
+export interface IGoalSummary {
+    /** Number of times the visitor completed the goal */
+    count: number;
+
+    /** Time of the first completion */
+    firstCompletedAt: Date;
+
+    /** Time of the latest completion */
+    lastCompletedAt: Date;
+}
+
+/**
+ * Activity evaluated against a company's goals
+ */
+export interface IGoalActivity {
+    id: string;
+    visitorId: string;
+    type: string;
+    timestamp: Date;
+    data: {
+        url?: string;
+        /** URL as tracked, present when normalization changed it */
+        rawUrl?: string;
+        formId?: string;
+        eventName?: string;
+    };
+}
+
+/**
+ * Time range of goal and funnel reports
+ */
+export interface IGoalReportQuery {
+    /** Start of the range, DEFAULT_GOAL_REPORT_DAYS ago when absent */
+    from?: Date;
+
+    /** End of the range, now when absent */
+    to?: Date;
+}
+
+/**
+ * Funnel report query, optionally segmented by a visitor dimension
+ */
+export interface IFunnelReportQuery extends IGoalReportQuery {
+    segmentBy?: FUNNEL_SEGMENT;
+}
+
+/**
+ * Completions of one goal over a report range
+ */
+export interface IGoalReportRow {
+    goalId: string;
+    name: string;
+    type: GOAL_TYPE;
+
+    /** Completions in the range */
+    completions: number;
+
+    /** Distinct visitors completing the goal in the range */
+    visitors: number;
+
+    /** Share of the visitors active in the range who completed the goal, 0-1 */
+    conversionRate: number;
+}
+
+/**
+ * Completions of all goals of a company over a report range
+ */
+export interface IGoalReport {
+    from: Date;
+    to: Date;
+
+    /** Human visitors active in the range */
+    activeVisitors: number;
+
+    goals: IGoalReportRow[];
+}
+
+/**
+ * Visitors reaching one step of a funnel
+ */
+export interface IFunnelStepReport {
+    goalId: string;
+    name: string;
+
+    /** Visitors completing the step in order within the funnel window */
+    visitors: number;
+
+    /** Share of the visitors entering the funnel who reached the step, 0-1 */
+    conversionRate: number;
+
+    /** Visitors reaching the previous step but not this one */
+    dropOff: number;
+
+    /** Share of the visitors of the previous step lost at this step, 0-1 */
+    dropOffRate: number;
+
+    /** Median seconds from the previous step, null for the first step or when nobody reached it */
+    medianSecondsFromPrevious: number | null;
+}
+
+/**
+ * Funnel conversion of a group of visitors
+ */
+export interface IFunnelConversion {
+    /** Visitors completing the first step in the range */
+    entered: number;
+
+    /** Visitors completing every step */
+    converted: number;
+
+    /** Share of the visitors entering the funnel who completed it, 0-1 */
+    conversionRate: number;
+
+    /** Median seconds from the first to the last step of converted visitors */
+    medianSecondsToConvert: number | null;
+
+    steps: IFunnelStepReport[];
+}
+
+/**
+ * Funnel conversion of the visitors sharing a segment value
+ */
+export interface IFunnelSegmentReport extends IFunnelConversion {
+    /** Segment value, e.g. a visitor status or an industry */
+    segment: string;
+}
+
+/**
+ * Conversion of a funnel over a report range
+ */
+export interface IFunnelReport extends IFunnelConversion {
+    funnelId: string;
+    name: string;
+    from: Date;
+    to: Date;
+    windowDays: number;
+    segmentBy?: FUNNEL_SEGMENT;
+
+    /** Conversion per segment, largest segment first; present when segmented */
+    segments?: IFunnelSegmentReport[];
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview TypeScript interfaces for ideal customer profile (ICP) matching
+ * Defines company-defined ICPs and the fit tier stored on each visitor
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { ICP_FIT_TIER, ICP_CRITERIA } from '../constants/icp.constants';
+
+/**
+ * Criterion an ICP can define
+ */
+export type IcpCriterion = typeof ICP_CRITERIA[number];
+
+/**
+ * Ideal customer profile defined by a company admin
+ * Criteria left empty are not evaluated
+ */
+export interface IIdealCustomerProfile {
+    /** Unique profile identifier within the company */
+    id: string;
+
+    /** Display name of the profile */
+    name: string;
+
+    /** Matching industries, compared with IEnrichedData.industry */
+    industries?: string[];
+
+    /** Matching company size bands, compared with IEnrichedData.size */
+    sizes?: string[];
+
+    /** Matching revenue bands, compared with IEnrichedData.revenue */
+    revenues?: string[];
+
+    /** Technologies of which at least one must appear in IEnrichedData.technologies */
+    technologies?: string[];
+
+    /** Matching countries, compared with IVisitorLocation.country */
+    countries?: string[];
+}
+
+/**
+ * Criterion a visitor matched and the value that matched it
+ */
+export interface IIcpMatchReason {
+    /** Matched criterion */
+    criterion: IcpCriterion;
+
+    /** Visitor value that matched */
+    value: string;
+}
+
+/**
+ * Fit of a visitor against the company's ICPs, stored on the visitor
+ */
+export interface IIcpFit {
+    /** Fit tier of the best matching ICP */
+    tier: ICP_FIT_TIER;
+
+    /** Best matching ICP (null when no ICP is defined or matched) */
+    icpId: string | null;
+
+    /** Name of the best matching ICP */
+    icpName: string | null;
+
+    /** Criteria of the best matching ICP the visitor matched */
+    reasons: IIcpMatchReason[];
+
+    /** Time the visitor was classified */
+    classifiedAt: Date;
+}
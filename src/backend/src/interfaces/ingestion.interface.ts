@@ -0,0 +1,77 @@
+/**
+ * @fileoverview TypeScript interfaces for server-side event ingestion
+ * Defines the NDJSON event lines customers' pipelines send and the per-line results returned
+ * @version 1.0.0
+ */
+
+import { VISITOR_ACTIVITY_TYPE } from '../constants/visitor.constants';
+import { INGEST_LINE_STATUS } from '../constants/ingestion.constants';
+
+/**
+ * One line of an ingestion batch
+ */
+export interface IIngestEvent {
+    /** Client-supplied ID; events with an ID already recorded for the company are skipped */
+    eventId: string;
+    /** Visitor the event belongs to, created on first contact */
+    visitorId: string;
+    type: VISITOR_ACTIVITY_TYPE;
+    /** ISO 8601 UTC timestamp of the event */
+    occurredAt: string;
+    url?: string;
+    /** Activity data; custom events carry eventName and properties */
+    data?: Record<string, any>;
+    /** Client context stored on visitors created by the event */
+    context?: {
+        ipAddress?: string;
+        userAgent?: string;
+        referrer?: string;
+    };
+}
+
+/**
+ * Line of an ingestion batch after parsing and validation
+ */
+export interface IParsedIngestLine {
+    /** 1-based line number in the request body */
+    line: number;
+    eventId: string | null;
+    /** Validated event, absent when the line is invalid */
+    event?: IIngestEvent;
+    /** Reasons the line is invalid */
+    errors?: string[];
+}
+
+/**
+ * Outcome of one line of an ingestion batch
+ */
+export interface IIngestLineResult {
+    /** 1-based line number in the request body */
+    line: number;
+    eventId: string | null;
+    status: INGEST_LINE_STATUS;
+    /** Reasons a line was rejected */
+    errors?: string[];
+}
+
+/**
+ * Outcome of an ingestion batch
+ */
+export interface IIngestBatchResult {
+    accepted: number;
+    duplicates: number;
+    rejected: number;
+    results: IIngestLineResult[];
+}
+
+/**
+ * Activity written to the activity store by ingestion
+ */
+export interface IImportedActivity {
+    /** Company-scoped client event ID enforcing deduplication */
+    dedupKey: string;
+    visitorId: string;
+    type: VISITOR_ACTIVITY_TYPE;
+    timestamp: Date;
+    data: Record<string, any>;
+}
@@ -8,7 +8,18 @@
 import { UUID } from 'crypto'; // v20.0.0+
 
 // Internal imports
-import { CRM_TYPES, INTEGRATION_STATUS, SYNC_INTERVALS } from '../constants/integration.constants';
+import {
+  CRM_TYPES,
+  CRM_OBJECT,
+  CRM_INBOUND_FIELD,
+  CRM_CONFLICT_WINNER,
+  INTEGRATION_STATUS,
+  SYNC_INTERVALS,
+  SYNC_MODE,
+  SYNC_RUN_STATUS,
+  SYNC_TRIGGER,
+  TRANSFORM_OPERATOR
+} from '../constants/integration.constants';
 import { ICompany } from './company.interface';
 
 /**
@@ -38,6 +49,31 @@ export interface IIntegrationCredentials {
   instanceUrl: string;
 }
 
+/**
+ * Visitor field read by a transformation, e.g. { field: 'enrichedData.company' }
+ */
+export interface ITransformField {
+  field: string;
+}
+
+/**
+ * Built-in operator applied to the values of its argument expressions
+ */
+export interface ITransformOperation {
+  op: TRANSFORM_OPERATOR;
+
+  args: ITransformExpression[];
+
+  /** Values of mapValue keyed by the value they replace */
+  table?: Record<string, string | number | boolean | null>;
+}
+
+/**
+ * Field mapping transformation: a literal, a visitor field or an operation, evaluated
+ * without running any user code
+ */
+export type ITransformExpression = string | number | boolean | null | ITransformField | ITransformOperation;
+
 /**
  * Interface defining field mapping configuration between systems
  * with validation and transformation capabilities
@@ -49,9 +85,12 @@ export interface IFieldMapping {
   /** Target field name in CRM */
   targetField: string;
 
-  /** Optional transformation function name */
+  /** Optional built-in transformation of the source value, formatIcpReasons */
   transformFunction?: string;
 
+  /** Optional transformation computing the CRM value instead of the source value */
+  transformation?: ITransformExpression | null;
+
   /** Whether field is required */
   required: boolean;
 
@@ -59,6 +98,16 @@ export interface IFieldMapping {
   validation: Record<string, any>;
 }
 
+/**
+ * Interface defining how relationship state is pulled back from the CRM onto visitors
+ */
+export interface ICrmInboundSyncConfig {
+  enabled: boolean;
+
+  /** Side kept when a pulled value differs from the visitor's, CRM for fields not listed */
+  conflictWinners?: Partial<Record<CRM_INBOUND_FIELD, CRM_CONFLICT_WINNER>>;
+}
+
 /**
  * Interface defining comprehensive integration configuration
  * with advanced options for sync behavior and webhooks
@@ -70,6 +119,9 @@ export interface IIntegrationConfig {
   /** Field mappings configuration */
   fieldMappings: IFieldMapping[];
 
+  /** CRM object visitors are pushed as (default LEAD) */
+  syncObject?: CRM_OBJECT;
+
   /** Optional webhook URL for real-time updates */
   webhookUrl?: string;
 
@@ -79,6 +131,9 @@ export interface IIntegrationConfig {
   /** Custom integration-specific settings */
   customSettings: Record<string, any>;
 
+  /** Pulling owner, lifecycle stage and open deal back from the CRM after each sync */
+  inboundSync?: ICrmInboundSyncConfig;
+
   /** Retry configuration for failed operations */
   retryPolicy: {
     maxAttempts: number;
@@ -87,6 +142,18 @@ export interface IIntegrationConfig {
   };
 }
 
+/**
+ * Position of a delta sync in the visitors ordered by last change
+ * Ties on the change time are broken by visitor ID so no visitor is skipped or pushed twice
+ */
+export interface ISyncCursor {
+  /** Last change time of the last visitor pushed */
+  updatedAt: Date;
+
+  /** ID of the last visitor pushed */
+  visitorId: string;
+}
+
 /**
  * Main integration interface defining complete integration entity
  * with comprehensive error handling and tracking
@@ -113,6 +180,9 @@ export interface IIntegration {
   /** Last successful sync timestamp */
   lastSyncAt: Date;
 
+  /** Last visitor pushed by a delta or full sync, null before the first sync */
+  syncCursor?: ISyncCursor | null;
+
   /** Last error timestamp */
   lastErrorAt?: Date;
 
@@ -160,4 +230,312 @@ export interface IIntegrationUpdate {
 
   /** Updated status */
   status?: INTEGRATION_STATUS;
-}
\ No newline at end of file
+
+  /** Time of the last successful sync */
+  lastSyncAt?: Date;
+
+  /** Last visitor pushed, null to push every visitor again */
+  syncCursor?: ISyncCursor | null;
+}
+/**
+ * Visitor pushed to a CRM, with its fields renamed by the integration's field mappings
+ */
+export interface ICrmSyncRecord {
+  /** Identity Matrix visitor ID */
+  visitorId: string;
+
+  /** Email matching the visitor to an existing lead or contact */
+  email?: string | null;
+
+  /** Account domain matching the visitor to an existing account */
+  domain?: string | null;
+
+  /** Record already written for the visitor, updated directly instead of matched again */
+  recordId?: string | null;
+
+  /** Key identifying the write of the visitor as the CRM object by the integration */
+  idempotencyKey?: string;
+
+  /** Mapped field values keyed by CRM target field */
+  fields: Record<string, unknown>;
+}
+
+/**
+ * Field of a CRM object, as reported by the CRM
+ */
+export interface ICrmField {
+  /** API name used as target field in field mappings */
+  name: string;
+
+  label: string;
+
+  /** CRM-specific data type, e.g. string, email or picklist */
+  type: string;
+
+  /** Whether the CRM refuses to create records without the field */
+  required: boolean;
+}
+
+/**
+ * Object of a CRM and the fields it accepts
+ */
+export interface ICrmObjectDescription {
+  object: CRM_OBJECT;
+
+  /** Native name of the object in the CRM, e.g. Lead or contacts */
+  name: string;
+
+  fields: ICrmField[];
+}
+
+/**
+ * CRM record written for a visitor
+ */
+export interface ICrmUpsertResult {
+  /** ID of the record in the CRM */
+  id: string;
+
+  object: CRM_OBJECT;
+
+  /** Whether the record was created rather than matched and updated */
+  created: boolean;
+}
+
+/**
+ * Open opportunity or deal of a CRM record
+ */
+export interface ICrmOpportunity {
+  id: string;
+
+  name: string;
+
+  /** Deal amount in the CRM's currency, null when not set */
+  amount: number | null;
+}
+
+/**
+ * Ownership and pipeline state of a CRM record, as pulled from the CRM
+ */
+export interface ICrmRelationship {
+  /** Name of the CRM user owning the record */
+  owner: string | null;
+
+  /** Lead status, lifecycle stage or account type, depending on the CRM */
+  lifecycleStage: string | null;
+
+  /** Open opportunity closing soonest */
+  openOpportunity: ICrmOpportunity | null;
+
+  /** Stage of the open opportunity */
+  dealStage: string | null;
+}
+
+/**
+ * CRM record a visitor is linked to and its relationship state, stored on the visitor
+ */
+export interface IVisitorCrmState extends ICrmRelationship {
+  type: CRM_TYPES;
+
+  object: CRM_OBJECT;
+
+  /** ID of the record in the CRM */
+  recordId: string;
+
+  /** Time the relationship was last pulled, null until the first inbound sync */
+  syncedAt: Date | null;
+}
+
+/**
+ * Relationships pulled from a CRM
+ */
+export interface ICrmPullResult {
+  /** Relationship of each record, by CRM record ID */
+  relationships: Record<string, ICrmRelationship>;
+
+  /** Records the CRM could not be read for, by CRM record ID */
+  errors: Record<string, string>;
+}
+
+/**
+ * Adapter translating CRM operations to the API of one CRM
+ */
+export interface ICrmConnector {
+  readonly type: CRM_TYPES;
+
+  /**
+   * Exchanges the refresh token for a new access token
+   * @returns Credentials holding the new token and, when the CRM reports one, its instance URL
+   */
+  authenticate(credentials: IIntegrationCredentials): Promise<IIntegrationCredentials>;
+
+  /** Lists the fields of a CRM object */
+  describeObject(credentials: IIntegrationCredentials, object: CRM_OBJECT): Promise<ICrmObjectDescription>;
+
+  /**
+   * Finds the lead or contact with an email
+   * @returns CRM record ID, null when there is none
+   */
+  searchByEmail(credentials: IIntegrationCredentials, object: CRM_OBJECT, email: string): Promise<string | null>;
+
+  /**
+   * Finds the account with a domain
+   * @returns CRM record ID, null when there is none
+   */
+  searchByDomain(credentials: IIntegrationCredentials, domain: string): Promise<string | null>;
+
+  /**
+   * Updates the record matching the visitor's email or domain, creating it when there is none
+   */
+  upsert(credentials: IIntegrationCredentials, object: CRM_OBJECT, record: ICrmSyncRecord): Promise<ICrmUpsertResult>;
+
+  /**
+   * Reads the owner, lifecycle stage and open opportunity of a record
+   */
+  fetchRelationship(credentials: IIntegrationCredentials, object: CRM_OBJECT, id: string): Promise<ICrmRelationship>;
+}
+
+/**
+ * CRM record a visitor would be pushed as, previewing field mappings
+ */
+export interface ICrmRecordPreview {
+  object: CRM_OBJECT;
+
+  /** Email matching the visitor to an existing lead or contact */
+  email: string | null;
+
+  /** Account domain matching the visitor to an existing account */
+  domain: string | null;
+
+  /** Mapped field values keyed by CRM target field */
+  fields: Record<string, unknown>;
+
+  /** Target fields of required mappings left without a value */
+  missingFields: string[];
+}
+
+/**
+ * Visitor the CRM refused during a sync
+ */
+export interface ISyncRecordError {
+  visitorId: string;
+
+  message: string;
+
+  /** HTTP status the CRM answered with */
+  code?: number;
+}
+
+/**
+ * Outcome of pushing visitors to a CRM
+ */
+export interface ISyncResult {
+  /** Number of visitors written */
+  success: number;
+
+  /** Number of visitors the CRM refused */
+  failed: number;
+
+  errors: ISyncRecordError[];
+
+  /** CRM record written for each visitor, by visitor ID */
+  details: Record<string, ICrmUpsertResult>;
+}
+
+/**
+ * What started a sync run
+ */
+export interface ISyncRunTrigger {
+  type: SYNC_TRIGGER;
+
+  /** User who started the run, absent for scheduled runs */
+  userId?: string | null;
+
+  /** Run whose failed records are pushed again */
+  retryOf?: string | null;
+}
+
+/**
+ * Errors of a sync run
+ */
+export interface ISyncRunErrorDetails {
+  /** Error that stopped the run, absent when only some records failed */
+  message?: string;
+
+  /** Visitors the CRM refused */
+  records: ISyncRecordError[];
+}
+
+/**
+ * Recorded run of an integration sync, stored in integration_sync_logs
+ */
+export interface ISyncRun {
+  id: string;
+
+  integrationId: string;
+
+  status: SYNC_RUN_STATUS;
+
+  trigger: SYNC_TRIGGER;
+
+  /** User who started the run, null for scheduled runs */
+  triggeredBy: string | null;
+
+  /** Run whose failed records this run pushed again */
+  retryOf: string | null;
+
+  /** CRM object the visitors were pushed as */
+  syncObject: CRM_OBJECT;
+
+  /** Which visitors the run pushed */
+  mode: SYNC_MODE;
+
+  /** Number of visitors pushed, written or refused */
+  recordsProcessed: number;
+
+  recordsFailed: number;
+
+  errorDetails: ISyncRunErrorDetails | null;
+
+  startedAt: Date;
+
+  /** Null while the run is in progress */
+  completedAt: Date | null;
+
+  createdAt: Date;
+
+  updatedAt: Date;
+}
+
+/**
+ * CRM record written for a visitor, stored under its idempotency key so retries and later
+ * syncs update the record rather than create another
+ */
+export interface ISyncKey {
+  idempotencyKey: string;
+
+  integrationId: string;
+
+  visitorId: string;
+
+  object: CRM_OBJECT;
+
+  /** ID of the record in the CRM */
+  recordId: string;
+
+  createdAt: Date;
+
+  updatedAt: Date;
+}
+
+/**
+ * Page of an integration's sync history, latest runs first
+ */
+export interface ISyncRunPage {
+  items: ISyncRun[];
+
+  total: number;
+
+  page: number;
+
+  totalPages: number;
+}
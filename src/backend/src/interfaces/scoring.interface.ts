@@ -0,0 +1,137 @@
+/**
+ * @fileoverview TypeScript interfaces for visitor lead scoring
+ * Defines company-defined scoring rules, score breakdowns and the stored score history
+ * @version 1.0.0
+ */
+
+// Internal imports
+import { SCORING_RULE_TYPE, FIRMOGRAPHIC_FIELDS } from '../constants/scoring.constants';
+import { VISITOR_ACTIVITY_TYPE } from '../constants/visitor.constants';
+
+/**
+ * Enriched data field a firmographic rule matches against
+ */
+export type FirmographicField = typeof FIRMOGRAPHIC_FIELDS[number];
+
+/**
+ * Scoring rule defined by a company admin
+ */
+export interface IScoringRule {
+    /** Unique rule identifier within the company */
+    id: string;
+
+    /** Display name of the rule */
+    name: string;
+
+    /** Signal the rule evaluates */
+    type: SCORING_RULE_TYPE;
+
+    /** Points awarded per occurrence, or once for threshold and match rules (may be negative) */
+    points: number;
+
+    /** Upper bound on the points a per-occurrence rule contributes */
+    maxPoints?: number;
+
+    /** Activity counted by ACTIVITY_COUNT rules */
+    activityType?: VISITOR_ACTIVITY_TYPE;
+
+    /** Case-insensitive URL substring matched by PAGE_VISIT rules */
+    pagePattern?: string;
+
+    /** Seconds on site required by TIME_SPENT rules */
+    threshold?: number;
+
+    /** Enriched field matched by FIRMOGRAPHIC rules */
+    field?: FirmographicField;
+
+    /** Case-insensitive values matched by FIRMOGRAPHIC rules */
+    values?: string[];
+
+    /** Custom event counted by CUSTOM_EVENT rules */
+    eventName?: string;
+
+    /** Conversion goal counted by GOAL rules */
+    goalId?: string;
+}
+
+/**
+ * Per-company lead scoring settings stored in ICompanySettings.leadScoring
+ */
+export interface ILeadScoringSettings {
+    /** Whether visitors are scored */
+    enabled: boolean;
+
+    /** Scoring rules, replacing the default rule set when non-empty */
+    rules: IScoringRule[];
+}
+
+/**
+ * Points contributed by a single rule
+ */
+export interface IScoreContribution {
+    /** Rule that contributed */
+    ruleId: string;
+
+    /** Points contributed, after the rule cap */
+    points: number;
+}
+
+/**
+ * Signals a visitor is scored on
+ */
+export interface IScoringInput {
+    /** Tracked activity counts by type */
+    activityCounts: Partial<Record<VISITOR_ACTIVITY_TYPE, number>>;
+
+    /** Custom event occurrence counts by event name */
+    customEventCounts: Record<string, number>;
+
+    /** Goal completion counts by goal ID */
+    goalCounts: Record<string, number>;
+
+    /** Visited page URLs */
+    pages: string[];
+
+    /** Cumulative time on site in seconds */
+    totalTimeSpent: number;
+
+    /** Enriched firmographic values */
+    firmographics: Partial<Record<FirmographicField, string>>;
+}
+
+/**
+ * Outcome of scoring a visitor
+ */
+export interface IScoreResult {
+    /** Score clamped to 0-100 */
+    score: number;
+
+    /** Contribution of each rule that awarded points */
+    breakdown: IScoreContribution[];
+}
+
+/**
+ * Stored change of a visitor's lead score
+ */
+export interface IScoreHistoryEntry {
+    /** Unique entry identifier */
+    id: string;
+
+    /** Scored visitor */
+    visitorId: string;
+
+    /** Company owning the visitor */
+    companyId: string;
+
+    /** New score */
+    score: number;
+
+    /** Score before the change */
+    previousScore: number;
+
+    /** Rule contributions making up the new score */
+    breakdown: IScoreContribution[];
+
+    /** Time the score was computed */
+    scoredAt: Date;
+}
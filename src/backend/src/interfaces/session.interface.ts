@@ -0,0 +1,82 @@
+/**
+ * @fileoverview TypeScript interfaces for visitor sessions
+ * Sessions group a visitor's activities separated by less than the inactivity timeout
+ * @version 1.0.0
+ */
+
+import { VISITOR_ACTIVITY_TYPE } from '../constants/visitor.constants';
+
+/**
+ * Activity as grouped into sessions
+ */
+export interface ISessionActivity {
+    id: string;
+    visitorId: string;
+    type: VISITOR_ACTIVITY_TYPE;
+    timestamp: Date;
+    data: {
+        url?: string;
+        /** URL as tracked, present when normalization changed it */
+        rawUrl?: string;
+        elementId?: string;
+        formId?: string;
+        fileId?: string;
+        eventName?: string;
+        properties?: Record<string, any>;
+        metadata?: Record<string, any>;
+    };
+}
+
+/**
+ * Session of a visitor derived from its activities
+ */
+export interface IVisitorSession {
+    /** Unique session identifier */
+    id: string;
+
+    /** Visitor the session belongs to */
+    visitorId: string;
+
+    /** Time of the first activity */
+    startedAt: Date;
+
+    /** Time of the last activity */
+    endedAt: Date;
+
+    /** Seconds between the first and last activity */
+    durationSeconds: number;
+
+    /** URL of the first page viewed */
+    landingPage: string | null;
+
+    /** URL of the last page viewed */
+    exitPage: string | null;
+
+    /** Number of page views */
+    pageCount: number;
+
+    /** Number of activities of any type */
+    activityCount: number;
+
+    /** Referrer the session arrived from */
+    referrer: string | null;
+
+    /** utm_source of the landing page */
+    utmSource: string | null;
+}
+
+/**
+ * Session with the activities it groups, oldest first
+ */
+export interface IVisitorSessionTimeline extends IVisitorSession {
+    activities: ISessionActivity[];
+}
+
+/**
+ * Page of a visitor's sessions, most recent first
+ */
+export interface IPaginatedSessions {
+    sessions: IVisitorSessionTimeline[];
+    /** Cursor of the next page, absent on the last page */
+    nextCursor?: string;
+}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview TypeScript interfaces for browser tracking through the embeddable SDK
+ * Defines the event batches the SDK sends and the tracking configuration it is served
+ * @version 1.0.0
+ */
+
+import { VISITOR_ACTIVITY_TYPE } from '../constants/visitor.constants';
+import { IVisitorMetadata } from './visitor.interface';
+import { IConsentPurposes, IConsentState } from './consent.interface';
+import { ITrackingForm } from './formCapture.interface';
+
+/**
+ * Tracking settings a company's sites are served by the SDK
+ */
+export interface ITrackingConfig {
+    /** Whether the company tracks visitors */
+    enabled: boolean;
+    /** Path patterns never tracked along with their subpaths; * matches within one path segment and ** any number of segments */
+    excludedPaths: string[];
+    /** Forms whose mapped inputs are sent with FORM_SUBMIT activities, empty unless form capture is enabled */
+    forms: ITrackingForm[];
+}
+
+/**
+ * Single activity recorded by the SDK
+ */
+export interface ITrackingEvent {
+    /** Activity type */
+    type: VISITOR_ACTIVITY_TYPE;
+    /** Full URL of the page the activity happened on */
+    url: string;
+    /** Path of the page, matched against excluded paths */
+    path: string;
+    /** Time the activity happened in the browser, which may precede delivery when sent offline */
+    occurredAt: string;
+    /**
+     * Activity-specific data such as element or form IDs, eventName and properties of custom events,
+     * or the fields of captured form submissions keyed by input name
+     */
+    data?: Record<string, any>;
+}
+
+/**
+ * Batch of events the SDK delivers for a visitor
+ */
+export interface ITrackingBatch {
+    /** Visitor ID created and persisted by the SDK */
+    visitorId: string;
+    /** Browser metadata of the visitor */
+    metadata: Pick<IVisitorMetadata, 'userAgent' | 'referrer' | 'currentPage'> & {
+        /** Whether the browser reports being automated (navigator.webdriver) */
+        webdriver?: boolean;
+    };
+    /** Events in the order they happened */
+    events: ITrackingEvent[];
+}
+
+/**
+ * Outcome of processing a tracking batch
+ */
+export interface ITrackingBatchResult {
+    /** Visitor the events were recorded for */
+    visitorId: string;
+    /** Events recorded */
+    accepted: number;
+    /** Events dropped because tracking is disabled or their path is excluded */
+    excluded: number;
+    /** Custom events dropped because they do not match the company's registered schema */
+    rejected: number;
+}
+
+/**
+ * Consent decisions the SDK reports from the company's consent banner
+ */
+export interface ITrackingConsent {
+    /** Visitor ID created by the SDK, kept in memory only until analytics consent is granted */
+    visitorId: string;
+    /** Decisions by purpose */
+    purposes: IConsentPurposes;
+    /** Version of the privacy policy or banner text the visitor saw */
+    policyVersion?: string;
+    /** Browser metadata, used to create the visitor when the decision precedes any event */
+    metadata: ITrackingBatch['metadata'];
+}
+
+/**
+ * Outcome of recording consent decisions reported by the SDK
+ */
+export interface ITrackingConsentResult {
+    /** Visitor the decisions were recorded for */
+    visitorId: string;
+    /** Current consent of the visitor by purpose */
+    consent: IConsentState;
+}
+
+/**
+ * Result of identifying a visitor from the SDK, limited to what a customer site may read
+ */
+export interface ITrackingIdentificationResult {
+    /** Visitor the identification was recorded for */
+    id: string;
+    /** Status of the visitor after identification */
+    status: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * @fileoverview TypeScript interfaces for bot and crawler traffic classification
+ * Defines the datacenter IP dataset, the classifier input and the verdict stored on visitors
+ * @version 1.0.0
+ */
+
+import { BOT_SIGNAL } from '../constants/trafficQuality.constants';
+
+/**
+ * Entry of the datacenter IP range dataset
+ */
+export interface IDatacenterRangeRecord {
+    /** Range in CIDR notation */
+    cidr: string;
+    /** Hosting or cloud provider owning the range */
+    provider: string;
+}
+
+/**
+ * Request details a visitor's traffic is classified from
+ */
+export interface ITrafficQualityInput {
+    /** Browser user agent */
+    userAgent?: string;
+    /** IP address the request came from */
+    ipAddress?: string;
+    /** Whether the browser reports being automated */
+    webdriver?: boolean;
+}
+
+/**
+ * Signal a visitor was classified as a bot on
+ */
+export interface IBotSignal {
+    type: BOT_SIGNAL;
+    /** Human-readable evidence, e.g. the matched provider or page rate */
+    detail: string;
+    /** Time the signal was first detected */
+    detectedAt: Date;
+}
+
+/**
+ * Traffic quality verdict stored on the visitor in IVisitor.trafficQuality
+ */
+export interface ITrafficQualityVerdict {
+    /** Whether the visitor is treated as a bot and hidden from default visitor lists */
+    isBot: boolean;
+    /** Signals detected so far, at most one per type */
+    signals: IBotSignal[];
+    /** Time the verdict last changed */
+    classifiedAt: Date;
+    /** Admin who unflagged the visitor; unflagged visitors are never flagged again */
+    reviewedBy?: string | null;
+    /** Time the visitor was unflagged */
+    reviewedAt?: Date | null;
+}
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview TypeScript interfaces for email and phone verification during identification
+ * Defines the pluggable MX resolver, company verification settings and the stored verdict
+ * @version 1.0.0
+ */
+
+// Internal imports
+import {
+    EMAIL_TYPE,
+    VERIFICATION_STATUS,
+    VERIFICATION_REASON,
+    NON_CORPORATE_POLICY
+} from '../constants/verification.constants';
+
+/**
+ * Resolver looking up the mail exchangers of a domain
+ * Implementations can query DNS or serve a fixed list for local development
+ */
+export interface IMxResolver {
+    /** Resolver name used in logs */
+    readonly name: string;
+
+    /**
+     * Resolves the MX hosts of a domain
+     * @param domain - Domain to look up
+     * @returns MX host names, empty when the domain has none
+     */
+    resolveMx(domain: string): Promise<string[]>;
+}
+
+/**
+ * Per-company verification settings
+ */
+export interface IVerificationSettings {
+    /** Treatment of free webmail, disposable and role addresses */
+    nonCorporatePolicy: NON_CORPORATE_POLICY;
+
+    /** Whether email domains must have MX records */
+    checkMx: boolean;
+
+    /** Whether unreachable emails and invalid phones are rejected instead of flagged */
+    rejectUndeliverable: boolean;
+}
+
+/**
+ * Result of checking an email address
+ */
+export interface IEmailVerification {
+    /** Normalized (lower-cased, trimmed) address */
+    address: string;
+
+    /** Domain part of the address */
+    domain: string;
+
+    /** Mailbox classification */
+    type: EMAIL_TYPE;
+
+    /** Whether the domain has MX records (null when not checked or inconclusive) */
+    hasMx: boolean | null;
+
+    /** Intended domain when the domain is a likely typo */
+    suggestedDomain?: string;
+}
+
+/**
+ * Result of normalizing a phone number
+ */
+export interface IPhoneVerification {
+    /** Number as supplied */
+    original: string;
+
+    /** Number in E.164 format (null when it cannot be normalized) */
+    e164: string | null;
+
+    /** Country the calling code was inferred from (null for international input) */
+    inferredCountry: string | null;
+}
+
+/**
+ * Verification verdict stored on an identified visitor
+ */
+export interface IVerificationVerdict {
+    /** Overall outcome under the company's settings */
+    status: VERIFICATION_STATUS;
+
+    /** Failed checks */
+    reasons: VERIFICATION_REASON[];
+
+    /** Email check result (if an email was supplied) */
+    email?: IEmailVerification;
+
+    /** Phone check result (if a phone was supplied) */
+    phone?: IPhoneVerification;
+
+    /** Time the identification was verified */
+    verifiedAt: Date;
+}
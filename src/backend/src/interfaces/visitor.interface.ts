@@ -4,7 +4,23 @@
  * @version 1.0.0
  */
 
-import { VISITOR_STATUS } from '../constants/visitor.constants';
+import {
+    VISITOR_STATUS,
+    IP_RANGE_TYPE,
+    IDENTITY_KEY_TYPE,
+    IDENTIFICATION_METHOD,
+    MERGE_STATUS
+} from '../constants/visitor.constants';
+import { EnrichableField, IFieldProvenance, IFieldCandidate, IFieldOverride } from './enrichment.interface';
+import { IIcpFit } from './icp.interface';
+import { IVerificationVerdict } from './verification.interface';
+import { ICustomEventSummary } from './customEvent.interface';
+import { IGoalSummary } from './goal.interface';
+import { IContentGroupSummary } from './content.interface';
+import { IVisitorAttribution } from './attribution.interface';
+import { ITrafficQualityVerdict } from './trafficQuality.interface';
+import { IConsentPurposes, IConsentState } from './consent.interface';
+import { IVisitorCrmState } from './integration.interface';
 
 /**
  * Interface defining visitor geographical location data with GDPR compliance considerations
@@ -75,6 +91,53 @@ export interface IEnrichedData {
     socialProfiles: Record<string, string>;
     /** Additional custom enriched fields */
     customFields: Record<string, any>;
+    /** Provider that supplied each populated field */
+    provenance?: Partial<Record<EnrichableField, IFieldProvenance>>;
+    /** Every value providers supplied per field, winning value first */
+    candidates?: Partial<Record<EnrichableField, IFieldCandidate[]>>;
+    /** Fields locked by team members against re-enrichment */
+    overrides?: Partial<Record<EnrichableField, IFieldOverride>>;
+}
+
+/**
+ * Interface defining a single entry of the IP-range-to-organization dataset
+ * Loaded locally and indexed by CIDR for reverse-IP company resolution
+ */
+export interface IIpRangeRecord {
+    /** IPv4 range in CIDR notation (e.g. 203.0.113.0/24) */
+    cidr: string;
+    /** Organization owning the range */
+    organization: string;
+    /** Primary domain of the organization */
+    domain: string;
+    /** Classification of the range owner */
+    type: IP_RANGE_TYPE;
+    /** Industry sector of the organization */
+    industry?: string;
+    /** Company size range */
+    size?: string;
+    /** ISO country code where the range is registered */
+    country?: string;
+    /** Dataset-supplied confidence (0-1) in the range ownership */
+    confidence?: number;
+}
+
+/**
+ * Interface describing how a visitor's company was resolved from their IP address
+ */
+export interface ICompanyResolution {
+    /** Resolved organization name */
+    organization: string;
+    /** Resolved organization domain */
+    domain: string;
+    /** Confidence score (0-1) of the match */
+    confidence: number;
+    /** CIDR range that matched the visitor's IP address */
+    matchedRange: string;
+    /** Classification of the matched range owner */
+    rangeType: IP_RANGE_TYPE;
+    /** Timestamp of the resolution */
+    resolvedAt: Date;
 }
 
 /**
@@ -98,18 +161,171 @@ export interface IVisitor {
     metadata: IVisitorMetadata;
     /** Enriched company and professional data */
     enrichedData: IEnrichedData | null;
+    /** Reverse-IP company resolution result (if resolved) */
+    companyResolution?: ICompanyResolution | null;
+    /** Canonical visitor this record was merged into (if merged) */
+    mergedInto?: UUID | null;
     /** Total number of visits */
     visits: number;
     /** Cumulative time spent on site (seconds) */
     totalTimeSpent: number;
+    /** Lead score (0-100) from the company's scoring rules */
+    score?: number;
+    /** Timestamp the lead score last changed */
+    scoreUpdatedAt?: Date | null;
+    /** Fit against the company's ideal customer profiles (null if unclassified) */
+    icpFit?: IIcpFit | null;
+    /** Verdict of verifying the supplied email and phone (null if not verified) */
+    verification?: IVerificationVerdict | null;
+    /** How the visitor was identified (if identified) */
+    identificationMethod?: IDENTIFICATION_METHOD | null;
+    /** User ID in the customer's own system, set by signed identification */
+    externalUserId?: string | null;
+    /** Occurrences of the company's custom events keyed by event name */
+    customEvents?: Record<string, ICustomEventSummary>;
+    /** Completions of the company's conversion goals keyed by goal ID */
+    goals?: Record<string, IGoalSummary>;
+    /** Page views of the company's content groups keyed by group ID */
+    contentGroups?: Record<string, IContentGroupSummary>;
+    /** Marketing channels and campaigns that brought the visitor (null before the first session) */
+    attribution?: IVisitorAttribution | null;
+    /** Bot classification of the visitor's traffic (null until a bot signal is detected) */
+    trafficQuality?: ITrafficQualityVerdict | null;
+    /** Current consent by purpose (null before the visitor made any decision) */
+    consent?: IConsentState | null;
+    /** CRM record the visitor was pushed to, with its owner and pipeline state (null until synced) */
+    crm?: IVisitorCrmState | null;
+    /** Whether the visitor consented to analytics; kept in sync with consent.ANALYTICS */
+    gdprConsent?: boolean;
+    /** Time the visitor's data is deleted, later with analytics consent */
+    retentionDate?: Date;
     /** Timestamp of first visit */
     firstSeen: Date;
     /** Timestamp of most recent visit */
     lastSeen: Date;
     /** Timestamp of last enrichment update */
     lastEnriched: Date;
+    /** Time the visitor was queued for re-enrichment, cleared once the job is processed */
+    reenrichmentQueuedAt?: Date | null;
+    /** Timestamp of the last change, the watermark of CRM delta syncs */
+    updatedAt?: Date;
     /** Flag indicating if visitor is currently active */
     isActive: boolean;
     /** Custom tags and labels */
     tags: Record<string, any>;
-}
\ No newline at end of file
+}
+
+/**
+ * Interface for visitor identification data with GDPR considerations
+ */
+export interface IIdentificationData {
+    /** Email address supplied by the visitor */
+    email?: string;
+    /** Full name supplied by the visitor */
+    name?: string;
+    /** Phone number supplied by the visitor */
+    phone?: string;
+    /** Whether the visitor consented to identification */
+    gdprConsent: boolean;
+    /** Decisions for the purposes an identification grants (default: all of them) */
+    consent?: IConsentPurposes;
+    /** Additional identification fields (custom IDs end in "id") */
+    customFields?: Record<string, any>;
+}
+
+/**
+ * Interface for the payload a customer's backend signs to identify a logged-in user
+ * Signed as base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the encoded payload)
+ */
+export interface ISignedIdentityPayload {
+    /** Visitor the token identifies, so it cannot be replayed for other visitors */
+    visitorId: string;
+    /** User ID in the customer's system */
+    userId: string;
+    /** Email address of the user */
+    email?: string;
+    /** Full name of the user */
+    name?: string;
+    /** Phone number of the user */
+    phone?: string;
+    /** Additional user traits */
+    traits?: Record<string, any>;
+    /** Whether the user consented to identification */
+    gdprConsent: boolean;
+    /** Issue time in seconds since the epoch */
+    iat: number;
+}
+
+/**
+ * Interface defining a deterministic identity key linking visitor records
+ * Key values are never stored in clear text, only as company-scoped hashes
+ */
+export interface IIdentityKey {
+    /** Kind of identifier the key was derived from */
+    type: IDENTITY_KEY_TYPE;
+    /** Source field name for custom identifiers */
+    field?: string;
+    /** SHA-256 hash of the normalized identifier */
+    hash: string;
+}
+
+/**
+ * Interface defining a merge of one visitor record into a canonical profile
+ * Snapshots allow the merge to be undone
+ */
+export interface IVisitorMerge {
+    /** Unique identifier of the merge */
+    id: UUID;
+    /** Company owning both visitor records */
+    companyId: UUID;
+    /** Surviving canonical visitor */
+    canonicalVisitorId: UUID;
+    /** Visitor merged into the canonical profile */
+    mergedVisitorId: UUID;
+    /** Identity keys shared by both visitors */
+    matchedKeys: IIdentityKey[];
+    /** Canonical visitor state before the merge */
+    canonicalSnapshot: IVisitor;
+    /** Merged visitor state before the merge */
+    mergedSnapshot: IVisitor;
+    /** Activities re-pointed from the merged to the canonical visitor */
+    movedActivityIds: string[];
+    /** Progress of the merge; merges recorded before it was tracked are completed */
+    status?: MERGE_STATUS;
+    /** User that triggered the merge, or null for automatic merges */
+    mergedBy: string | null;
+    /** Timestamp of the merge */
+    mergedAt: Date;
+    /** Timestamp the merge was undone, if it was */
+    undoneAt: Date | null;
+}
+
+/**
+ * Interface describing one device linked to a canonical visitor profile
+ */
+export interface ILinkedDevice {
+    /** Visitor record representing the device */
+    visitorId: UUID;
+    /** Type of device (desktop, mobile, tablet) */
+    deviceType: string;
+    /** Browser name and version */
+    browser: string;
+    /** Operating system */
+    os: string;
+    /** Timestamp of first visit from the device */
+    firstSeen: Date;
+    /** Timestamp of most recent visit from the device */
+    lastSeen: Date;
+}
+
+/**
+ * Interface defining a canonical visitor profile with all merged devices
+ */
+export interface IMergedVisitorProfile {
+    /** Canonical visitor record with combined totals */
+    profile: IVisitor;
+    /** All devices linked to the profile, including the canonical one */
+    devices: ILinkedDevice[];
+    /** Merges that built the profile, most recent first */
+    merges: IVisitorMerge[];
+}
@@ -192,6 +192,49 @@ export class RedisService {
     }
   }
 
+  /**
+   * Atomically adds to a numeric value in Redis cache, refreshing its TTL
+   * @returns Value after the increment
+   */
+  public async increment(
+    key: string,
+    amount: number,
+    type: CacheType,
+    customTtl?: number
+  ): Promise<number> {
+    try {
+      if (!this.isConnected) {
+        throw createError('Redis connection not available', 503, ErrorTypes.SYSTEM_ERROR);
+      }
+
+      const cacheKey = this.generateKey(key, type);
+      const results = await this.client.multi()
+        .incrbyfloat(cacheKey, amount)
+        .expire(cacheKey, customTtl || this.ttl[type])
+        .exec();
+
+      const [error, value] = results?.[0] || [new Error('Transaction aborted'), null];
+      if (error) {
+        throw error;
+      }
+
+      return Number(value);
+    } catch (error: any) {
+      this.metrics[type].errors++;
+      logger.error('Cache increment failed', {
+        key,
+        type,
+        error: error.message
+      });
+      throw createError(
+        'Failed to increment cache value',
+        503,
+        ErrorTypes.SYSTEM_ERROR,
+        { key, type }
+      );
+    }
+  }
+
   /**
    * Deletes a value from Redis cache
    */
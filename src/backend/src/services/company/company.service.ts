@@ -6,9 +6,13 @@
 import { injectable } from 'inversify'; // ^6.0.1
 import { Transaction } from 'sequelize'; // ^6.32.x
 import { CompanyRepository } from '../../db/repositories/company.repository';
+import { IcpMatchingService } from '../scoring/icpMatching.service';
 import { ICompany, ICompanyCreate, ICompanyUpdate, ICompanySettings } from '../../interfaces/company.interface';
 import { createError } from '../../utils/error.util';
 import { ErrorTypes, ErrorCodes } from '../../constants/error.constants';
+import { IDENTITY_SECRET_BYTES } from '../../constants/visitor.constants';
+import { INGEST_KEY_PREFIX, INGEST_KEY_BYTES } from '../../constants/ingestion.constants';
+import { generateKey, hashApiKey } from '../../utils/crypto.util';
 import { Logger } from '../../utils/logger.util';
 
 /**
@@ -19,7 +23,10 @@ import { Logger } from '../../utils/logger.util';
 export class CompanyService {
   private readonly logger: Logger;
 
-  constructor(private readonly companyRepository: CompanyRepository) {
+  constructor(
+    private readonly companyRepository: CompanyRepository,
+    private readonly icpMatchingService: IcpMatchingService
+  ) {
     this.logger = new Logger('CompanyService');
   }
 
@@ -138,17 +145,68 @@ export class CompanyService {
       this.validateCompanySettings(updatedSettings);
 
       // Update company with new settings
-      return await this.companyRepository.update(
+      const updated = await this.companyRepository.update(
         id,
         { settings: updatedSettings },
         transaction
       );
+
+      // Changed ICPs apply to existing visitors once the settings are persisted
+      if (settings.idealCustomerProfiles !== undefined) {
+        if (transaction) {
+          transaction.afterCommit(() => this.reclassifyVisitors(id));
+        } else {
+          this.reclassifyVisitors(id);
+        }
+      }
+
+      return updated;
     } catch (error) {
       this.logger.error('Company settings update failed', { error, companyId: id });
       throw error;
     }
   }
 
+  /**
+   * Generates a new identity signing secret, invalidating tokens signed with the previous one
+   * The secret is returned once for the customer to configure on their backend
+   * @param id Company ID
+   * @param transaction Optional transaction instance
+   * @returns New secret as a hex string
+   */
+  async rotateIdentitySecret(id: string, transaction?: Transaction): Promise<string> {
+    try {
+      const secret = (await generateKey(IDENTITY_SECRET_BYTES)).toString('hex');
+      await this.companyRepository.setIdentitySecret(id, secret, transaction);
+
+      this.logger.info('Company identity secret rotated', { companyId: id });
+      return secret;
+    } catch (error) {
+      this.logger.error('Company identity secret rotation failed', { error, companyId: id });
+      throw error;
+    }
+  }
+
+  /**
+   * Generates a new ingest API key for server-side event ingestion, revoking the previous one
+   * Only the key's hash is stored, so the key is returned once for the customer's pipeline
+   * @param id Company ID
+   * @param transaction Optional transaction instance
+   * @returns New key
+   */
+  async rotateIngestKey(id: string, transaction?: Transaction): Promise<string> {
+    try {
+      const key = `${INGEST_KEY_PREFIX}${(await generateKey(INGEST_KEY_BYTES)).toString('hex')}`;
+      await this.companyRepository.setIngestKeyHash(id, hashApiKey(key), transaction);
+
+      this.logger.info('Company ingest key rotated', { companyId: id });
+      return key;
+    } catch (error) {
+      this.logger.error('Company ingest key rotation failed', { error, companyId: id });
+      throw error;
+    }
+  }
+
   /**
    * Deletes company with proper cleanup
    * @param id Company ID
@@ -171,7 +229,7 @@ export class CompanyService {
    * @returns Paginated company list
    */
   async listCompanies(
-    filters: { isActive?: boolean; subscriptionTier?: string } = {},
+    filters: { id?: string; isActive?: boolean; subscriptionTier?: string } = {},
     pagination: { page?: number; limit?: number } = {}
   ): Promise<{ rows: ICompany[]; count: number }> {
     return await this.companyRepository.list(filters, pagination);
@@ -215,6 +273,16 @@ export class CompanyService {
     }
   }
 
+  /**
+   * Re-classifies a company's visitors against its ICPs in the background
+   * @param id Company ID
+   */
+  private reclassifyVisitors(id: string): void {
+    this.icpMatchingService.reclassifyCompany(id).catch(error => {
+      this.logger.error('ICP re-classification failed', { error, companyId: id });
+    });
+  }
+
   /**
    * Validates company settings structure
    * @param settings Settings to validate
@@ -1,70 +1,105 @@
 /**
  * @fileoverview Service responsible for enriching visitor data with company and professional information
- * Implements data enrichment through third-party providers and internal algorithms
+ * Implements data enrichment through pluggable third-party providers queried in parallel or as a waterfall
  * @version 1.0.0
  */
 
 import { Injectable, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
-import { firstValueFrom } from 'rxjs';
 import { IVisitor, IEnrichedData } from '../../interfaces/visitor.interface';
+import {
+  IEnrichmentProvider,
+  IEnrichmentQuery,
+  IEnrichmentResult,
+  IEnrichmentOptions,
+  IEnrichmentSettings,
+  IFieldProvenance,
+  IFieldCandidate,
+  IFieldOverride,
+  IFieldOverrideInput,
+  IProviderHealth,
+  EnrichableField
+} from '../../interfaces/enrichment.interface';
 import { VISITOR_STATUS } from '../../constants/visitor.constants';
+import {
+  ENRICHMENT_MODE,
+  ENRICHABLE_FIELDS,
+  ENRICHMENT_SETTINGS_KEY,
+  DEFAULT_REQUIRED_FIELDS,
+  DEFAULT_STALENESS_DAYS,
+  MANUAL_OVERRIDE_PROVIDER
+} from '../../constants/enrichment.constants';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import { createError } from '../../utils/error.util';
 import { ConfigService } from '@nestjs/config';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { EnrichmentProviderRegistry } from './enrichmentProvider.registry';
+import { EnrichmentCacheService } from './enrichmentCache.service';
+import { HttpEnrichmentProvider, IHttpEnrichmentProviderConfig } from './providers/httpEnrichment.provider';
 
 /**
- * Configuration interface for enrichment providers
+ * Successful response of a single provider
  */
-interface IEnrichmentProvider {
-  name: string;
-  baseUrl: string;
-  apiKey: string;
-  priority: number;
-  timeout: number;
+interface IProviderResponse {
+  provider: string;
+  data: Partial<IEnrichedData>;
+  retrievedAt: Date;
+}
+
+/**
+ * Daily spend cap of the company an enrichment run charges
+ */
+interface IBudget {
+  companyId: string;
+  dailyBudget: number | null;
+  exceeded: boolean;
 }
 
 /**
  * Service handling visitor data enrichment through multiple data providers
- * Implements enterprise-grade enrichment capabilities with fallback and retry mechanisms
+ * Resolves each enriched field from the provider with the highest precedence for the company
  */
 @Injectable()
 export class EnrichmentService {
   private readonly logger = new Logger(EnrichmentService.name);
-  private readonly providers: IEnrichmentProvider[];
-  private readonly maxRetries = 3;
-  private readonly retryDelay = 1000; // milliseconds
 
   constructor(
     private readonly httpService: HttpService,
-    private readonly configService: ConfigService
+    private readonly configService: ConfigService,
+    private readonly providerRegistry: EnrichmentProviderRegistry,
+    private readonly companyRepository: CompanyRepository,
+    private readonly enrichmentCache: EnrichmentCacheService
   ) {
-    this.providers = this.initializeProviders();
+    this.initializeProviders();
     this.logger.log('Enrichment service initialized with configured providers');
   }
 
   /**
    * Enriches visitor data with company and professional information
    * @param visitor - Visitor object to be enriched
+   * @param options - Enrichment options
    * @returns Promise resolving to enriched visitor data
-   * @throws Error if enrichment fails after all retries
+   * @throws Error if every queried provider fails or the daily budget is exhausted
    */
-  public async enrichVisitorData(visitor: IVisitor): Promise<IVisitor> {
+  public async enrichVisitorData(visitor: IVisitor, options: IEnrichmentOptions = {}): Promise<IVisitor> {
     try {
       this.logger.debug(`Starting enrichment process for visitor ${visitor.id}`);
 
-      if (!visitor.email) {
-        throw new Error('Visitor email is required for enrichment');
-      }
+      const result = await this.resolveEnrichment(visitor, options);
 
-      const enrichedData = await this.queryEnrichmentProviders(visitor.email);
-      
       const updatedVisitor: IVisitor = {
         ...visitor,
-        enrichedData,
+        enrichedData: result.enrichedData,
         status: VISITOR_STATUS.ENRICHED,
         lastEnriched: new Date()
       };
 
-      this.logger.debug(`Enrichment completed for visitor ${visitor.id}`);
+      this.logger.debug(
+        result.fromCache
+          ? `Enrichment for visitor ${visitor.id} served from cache`
+          : `Enrichment completed for visitor ${visitor.id} using ` +
+            `${result.providersQueried.join(', ')} (cost ${result.totalCost.toFixed(4)})`
+      );
       return updatedVisitor;
     } catch (error) {
       this.logger.error(`Enrichment failed for visitor ${visitor.id}: ${error.message}`);
@@ -73,129 +108,476 @@ export class EnrichmentService {
   }
 
   /**
-   * Queries configured third-party providers for enrichment data
-   * Implements parallel requests with fallback mechanism
-   * @param email - Email address to query
-   * @returns Promise resolving to normalized enriched data
+   * Resolves a visitor's enrichment from the cache or the company's providers
+   * Cached domain fields seed the result so providers are only queried for what is missing;
+   * fields locked by team members are never queried and keep their override
+   * @param visitor - Visitor to enrich
+   * @param options - Enrichment options
+   * @returns Enriched data with provenance, providers called and total cost
+   * @throws Error if the visitor has no email, every queried provider fails or the daily budget is exhausted
    */
-  private async queryEnrichmentProviders(email: string): Promise<IEnrichedData> {
-    const enrichmentPromises = this.providers.map(provider =>
-      this.queryProviderWithRetry(provider, email)
-    );
+  public async resolveEnrichment(visitor: IVisitor, options: IEnrichmentOptions = {}): Promise<IEnrichmentResult> {
+    if (!visitor.email) {
+      throw new Error('Visitor email is required for enrichment');
+    }
+
+    const settings = await this.getCompanySettings(visitor.companyId);
+    const query: IEnrichmentQuery = {
+      email: visitor.email,
+      domain: visitor.email.split('@')[1]?.toLowerCase() || '',
+      visitor
+    };
+
+    const overrides = visitor.enrichedData?.overrides;
+    let seed: IEnrichedData | null = null;
+    if (!options.forceRefresh) {
+      const cachedEmail = await this.enrichmentCache.getByEmail(visitor.companyId, query.email);
+      if (cachedEmail) {
+        return {
+          enrichedData: this.applyOverrides(cachedEmail.enrichedData, overrides),
+          providersQueried: [],
+          totalCost: 0,
+          fromCache: true
+        };
+      }
+
+      seed = (await this.enrichmentCache.getByDomain(visitor.companyId, query.domain))?.enrichedData || null;
+    }
+
+    const seededFields = new Set(ENRICHABLE_FIELDS.filter(field => seed && this.hasValue(seed[field])));
+    const filledFields = new Set<EnrichableField>([
+      ...seededFields,
+      ...Object.keys(overrides || {}) as EnrichableField[]
+    ]);
+    const providers = this.getOrderedProviders(settings);
+    if (providers.length === 0 && seededFields.size === 0) {
+      throw new Error('No enrichment providers available');
+    }
 
-    const results = await Promise.allSettled(enrichmentPromises);
-    const successfulResults = results
-      .filter((result): result is PromiseFulfilledResult<any> => result.status === 'fulfilled')
-      .map(result => result.value);
+    const budget: IBudget = { companyId: visitor.companyId, dailyBudget: settings.dailyBudget, exceeded: false };
+    const { responses, queried } = settings.mode === ENRICHMENT_MODE.WATERFALL
+      ? await this.queryWaterfall(providers, query, settings, filledFields, budget)
+      : await this.queryParallel(providers, query, filledFields, budget);
 
-    if (successfulResults.length === 0) {
-      throw new Error('All enrichment providers failed');
+    if (responses.length === 0 && seededFields.size === 0) {
+      throw new Error(budget.exceeded
+        ? `Daily enrichment budget exhausted for company ${visitor.companyId}`
+        : 'All enrichment providers failed');
     }
 
-    return this.normalizeEnrichedData(successfulResults);
+    const totalCost = queried.reduce((total, provider) => total + provider.costPerCall, 0);
+    const enrichedData = this.mergeResponses(responses, settings, seed);
+
+    if (responses.length > 0) {
+      await this.enrichmentCache.store(
+        visitor.companyId, query.email, query.domain, enrichedData, settings.stalenessDays
+      );
+    }
+
+    return {
+      enrichedData: this.applyOverrides(enrichedData, overrides),
+      providersQueried: queried.map(provider => provider.name),
+      totalCost,
+      fromCache: queried.length === 0
+    };
   }
 
   /**
-   * Queries a single provider with retry mechanism
-   * @param provider - Provider configuration
-   * @param email - Email to query
-   * @returns Promise resolving to provider-specific response
+   * Locks an enriched field to an accepted provider candidate or a manually entered value
+   * Locked fields keep their value through every later re-enrichment until released
+   * @param enrichedData - Current enriched data of the visitor
+   * @param field - Field to lock
+   * @param input - Accepted provider or entered value
+   * @param userId - Team member making the decision
+   * @returns Enriched data with the field locked
+   * @throws AppError when the accepted provider supplied no value for the field
    */
-  private async queryProviderWithRetry(
-    provider: IEnrichmentProvider,
-    email: string,
-    attempt = 1
-  ): Promise<any> {
-    try {
-      const response = await firstValueFrom(
-        this.httpService.get(`${provider.baseUrl}/enrich`, {
-          params: { email },
-          headers: {
-            'Authorization': `Bearer ${provider.apiKey}`,
-            'Content-Type': 'application/json'
-          },
-          timeout: provider.timeout
-        })
-      );
-      return response.data;
-    } catch (error) {
-      if (attempt < this.maxRetries) {
-        await new Promise(resolve => setTimeout(resolve, this.retryDelay * attempt));
-        return this.queryProviderWithRetry(provider, email, attempt + 1);
+  public overrideField(
+    enrichedData: IEnrichedData,
+    field: EnrichableField,
+    input: IFieldOverrideInput,
+    userId: string
+  ): IEnrichedData {
+    let value = input.value?.trim() || '';
+
+    if (input.provider) {
+      const candidate = enrichedData.candidates?.[field]?.find(entry => entry.provider === input.provider);
+      if (!candidate) {
+        throw createError(
+          `Provider ${input.provider} supplied no ${field} candidate`,
+          ErrorCodes.NOT_FOUND,
+          ErrorTypes.RESOURCE_ERROR,
+          { field, provider: input.provider }
+        );
       }
-      throw error;
+      value = String(candidate.value);
     }
+
+    const override: IFieldOverride = {
+      value,
+      provider: input.provider || null,
+      userId,
+      lockedAt: new Date()
+    };
+
+    return this.applyOverrides(enrichedData, { ...enrichedData.overrides, [field]: override });
   }
 
   /**
-   * Normalizes enriched data from different providers into standard format
-   * @param rawData - Array of provider responses
-   * @returns Normalized enriched data structure
+   * Unlocks an enriched field, restoring the highest-precedence provider candidate
+   * @param enrichedData - Current enriched data of the visitor
+   * @param field - Field to unlock
+   * @returns Enriched data with the field resolved from providers again
    */
-  private normalizeEnrichedData(rawData: any[]): IEnrichedData {
-    const mergedData = rawData.reduce((acc, curr) => ({ ...acc, ...curr }), {});
+  public releaseOverride(enrichedData: IEnrichedData, field: EnrichableField): IEnrichedData {
+    const { [field]: released, ...overrides } = enrichedData.overrides || {};
+    if (!released) {
+      return enrichedData;
+    }
+
+    const [candidate] = enrichedData.candidates?.[field] || [];
+    const provenance = { ...enrichedData.provenance };
+    if (candidate) {
+      provenance[field] = {
+        provider: candidate.provider,
+        retrievedAt: candidate.retrievedAt,
+        confidence: candidate.confidence
+      };
+    } else {
+      delete provenance[field];
+    }
+
+    return { ...enrichedData, [field]: candidate ? candidate.value : '', provenance, overrides };
+  }
+
+  /**
+   * Runs health checks for all registered providers
+   * @returns Health status per provider
+   */
+  public async getProviderHealth(): Promise<IProviderHealth[]> {
+    return this.providerRegistry.checkHealth();
+  }
+
+  /**
+   * Loads the enrichment settings of a company, falling back to defaults
+   * @param companyId - Company owning the visitor
+   * @returns Complete enrichment settings
+   */
+  public async getCompanySettings(companyId: string): Promise<IEnrichmentSettings> {
+    const company = await this.companyRepository.findById(companyId);
+    const stored = (company?.settings?.integrationConfig?.integrationSettings?.[ENRICHMENT_SETTINGS_KEY] ||
+      {}) as Partial<IEnrichmentSettings>;
 
     return {
-      company: mergedData.company_name || mergedData.organization || '',
-      title: mergedData.job_title || mergedData.position || '',
-      industry: mergedData.industry || '',
-      size: mergedData.company_size || mergedData.employees || '',
-      revenue: mergedData.annual_revenue || '',
-      website: mergedData.company_website || mergedData.domain || '',
-      technologies: Array.isArray(mergedData.technologies) ? mergedData.technologies : [],
-      linkedinUrl: mergedData.linkedin_company_url || '',
-      socialProfiles: this.normalizeSocialProfiles(mergedData),
-      customFields: this.extractCustomFields(mergedData)
+      mode: stored.mode || ENRICHMENT_MODE.PARALLEL,
+      requiredFields: stored.requiredFields?.length ? stored.requiredFields : [...DEFAULT_REQUIRED_FIELDS],
+      fieldPrecedence: stored.fieldPrecedence || {},
+      providerOrder: stored.providerOrder || [],
+      disabledProviders: stored.disabledProviders || [],
+      stalenessDays: stored.stalenessDays || DEFAULT_STALENESS_DAYS,
+      dailyBudget: typeof stored.dailyBudget === 'number' ? stored.dailyBudget : null
+    };
+  }
+
+  /**
+   * Charges the cost of a provider call to the company's daily spend before the call is made
+   * @param provider - Provider about to be called
+   * @param budget - Company budget, flagged as exceeded when the call does not fit
+   * @returns False when the call would exceed the budget
+   */
+  private async reserveBudget(provider: IEnrichmentProvider, budget: IBudget): Promise<boolean> {
+    if (budget.dailyBudget === null) {
+      await this.enrichmentCache.addDailySpend(budget.companyId, provider.costPerCall);
+      return true;
+    }
+
+    if (!await this.enrichmentCache.reserveDailySpend(budget.companyId, provider.costPerCall, budget.dailyBudget)) {
+      budget.exceeded = true;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Orders the available providers for a company
+   * Providers named in providerOrder come first, the rest follow by priority
+   * @param settings - Company enrichment settings
+   * @returns Providers to query in order
+   */
+  private getOrderedProviders(settings: IEnrichmentSettings): IEnrichmentProvider[] {
+    const disabled = new Set(settings.disabledProviders);
+    const rank = (provider: IEnrichmentProvider): number => {
+      const index = settings.providerOrder.indexOf(provider.name);
+      return index === -1 ? settings.providerOrder.length : index;
     };
+
+    return this.providerRegistry.getProviders()
+      .filter(provider => !disabled.has(provider.name) && this.providerRegistry.isAvailable(provider.name))
+      .sort((a, b) => rank(a) - rank(b) || a.priority - b.priority);
   }
 
   /**
-   * Normalizes social profile URLs from provider data
-   * @param data - Raw provider data
-   * @returns Normalized social profile URLs
+   * Queries concurrently every provider covering a field not already filled, within budget
+   * @param providers - Ordered providers
+   * @param query - Enrichment lookup
+   * @param filledFields - Fields already filled from the domain cache or locked
+   * @param budget - Company budget the calls are charged to
+   * @returns Successful responses and the providers that were called
    */
-  private normalizeSocialProfiles(data: any): Record<string, string> {
+  private async queryParallel(
+    providers: IEnrichmentProvider[],
+    query: IEnrichmentQuery,
+    filledFields: Set<EnrichableField>,
+    budget: IBudget
+  ): Promise<{ responses: IProviderResponse[]; queried: IEnrichmentProvider[] }> {
+    const queried: IEnrichmentProvider[] = [];
+    for (const provider of providers) {
+      if (provider.fieldCoverage.some(field => !filledFields.has(field)) && await this.reserveBudget(provider, budget)) {
+        queried.push(provider);
+      }
+    }
+    const results = await Promise.all(queried.map(provider => this.queryProvider(provider, query)));
+
     return {
-      linkedin: data.linkedin_url || '',
-      twitter: data.twitter_url || '',
-      facebook: data.facebook_url || '',
-      ...Object.entries(data)
-        .filter(([key, value]) => key.includes('_url') && typeof value === 'string')
-        .reduce((acc, [key, value]) => ({
-          ...acc,
-          [key.replace('_url', '')]: value
-        }), {})
+      responses: results.filter((response): response is IProviderResponse => response !== null),
+      queried
     };
   }
 
   /**
-   * Extracts additional custom fields from provider data
-   * @param data - Raw provider data
-   * @returns Custom fields object
+   * Queries providers one at a time, stopping once all required fields are filled
+   * Providers covering none of the still-missing required fields, or costing more
+   * than the remaining budget, are skipped
+   * @param providers - Ordered providers
+   * @param query - Enrichment lookup
+   * @param settings - Company enrichment settings
+   * @param filledFields - Fields already filled from the domain cache or locked
+   * @param budget - Company budget the calls are charged to
+   * @returns Successful responses and the providers that were called
    */
-  private extractCustomFields(data: any): Record<string, any> {
-    const standardFields = new Set([
-      'company_name', 'job_title', 'industry', 'company_size',
-      'annual_revenue', 'company_website', 'technologies', 'linkedin_company_url'
-    ]);
+  private async queryWaterfall(
+    providers: IEnrichmentProvider[],
+    query: IEnrichmentQuery,
+    settings: IEnrichmentSettings,
+    filledFields: Set<EnrichableField>,
+    budget: IBudget
+  ): Promise<{ responses: IProviderResponse[]; queried: IEnrichmentProvider[] }> {
+    const responses: IProviderResponse[] = [];
+    const queried: IEnrichmentProvider[] = [];
+    const missing = new Set<EnrichableField>(settings.requiredFields.filter(field => !filledFields.has(field)));
+
+    for (const provider of providers) {
+      if (missing.size === 0) {
+        break;
+      }
+
+      if (!provider.fieldCoverage.some(field => missing.has(field)) || !await this.reserveBudget(provider, budget)) {
+        continue;
+      }
+
+      queried.push(provider);
+      const response = await this.queryProvider(provider, query);
+      if (!response) {
+        continue;
+      }
 
-    return Object.entries(data)
-      .filter(([key]) => !standardFields.has(key))
-      .reduce((acc, [key, value]) => ({ ...acc, [key]: value }), {});
+      responses.push(response);
+      for (const field of provider.fieldCoverage) {
+        if (this.hasValue(response.data[field])) {
+          missing.delete(field);
+        }
+      }
+    }
+
+    return { responses, queried };
   }
 
   /**
-   * Initializes enrichment providers from configuration
-   * @returns Array of configured providers
+   * Calls a single provider, recording the outcome in the registry
+   * @param provider - Provider to call
+   * @param query - Enrichment lookup
+   * @returns Provider response, or null when the provider failed or had no match
    */
-  private initializeProviders(): IEnrichmentProvider[] {
-    const providersConfig = this.configService.get<IEnrichmentProvider[]>('enrichment.providers');
-    
+  private async queryProvider(
+    provider: IEnrichmentProvider,
+    query: IEnrichmentQuery
+  ): Promise<IProviderResponse | null> {
+    try {
+      const data = await provider.enrich(query);
+      this.providerRegistry.recordSuccess(provider.name);
+      return data ? { provider: provider.name, data, retrievedAt: new Date() } : null;
+    } catch (error) {
+      this.providerRegistry.recordFailure(provider.name);
+      this.logger.warn(`Enrichment provider ${provider.name} failed: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Resolves each enriched field from the provider response with the highest precedence
+   * Field precedence rules win over provider order; providers are only trusted for covered fields
+   * Every supplied value is kept as a candidate scored by provider agreement, winner first
+   * Seeded fields from the domain cache are kept with their original provenance and candidates
+   * @param responses - Successful provider responses in query order
+   * @param settings - Company enrichment settings
+   * @param seed - Cached domain-level enrichment, if any
+   * @returns Enriched data with per-field provenance and candidates
+   */
+  private mergeResponses(
+    responses: IProviderResponse[],
+    settings: IEnrichmentSettings,
+    seed: IEnrichedData | null = null
+  ): IEnrichedData {
+    const enrichedData = this.createEmptyEnrichedData();
+    const provenance: Partial<Record<EnrichableField, IFieldProvenance>> = {};
+    const candidates: Partial<Record<EnrichableField, IFieldCandidate[]>> = {};
+
+    for (const field of ENRICHABLE_FIELDS) {
+      if (seed && this.hasValue(seed[field])) {
+        (enrichedData as any)[field] = seed[field];
+        if (seed.provenance?.[field]) {
+          provenance[field] = seed.provenance[field];
+        }
+        if (seed.candidates?.[field]) {
+          candidates[field] = seed.candidates[field];
+        }
+        continue;
+      }
+
+      const precedence = settings.fieldPrecedence[field] || [];
+      const rank = (response: IProviderResponse): number => {
+        const index = precedence.indexOf(response.provider);
+        return index === -1 ? precedence.length : index;
+      };
+
+      // Array.prototype.sort is stable, so ties keep query order
+      const supplied = [...responses]
+        .sort((a, b) => rank(a) - rank(b))
+        .filter(response =>
+          this.providerRegistry.get(response.provider)?.fieldCoverage.includes(field) &&
+          this.hasValue(response.data[field])
+        );
+
+      if (supplied.length === 0) {
+        continue;
+      }
+
+      const values = supplied.map(response => response.data[field]);
+      candidates[field] = supplied.map(response => ({
+        provider: response.provider,
+        value: response.data[field],
+        confidence: this.scoreConfidence(response.data[field], values),
+        retrievedAt: response.retrievedAt
+      }));
+
+      const [winner] = candidates[field]!;
+      (enrichedData as any)[field] = winner.value;
+      provenance[field] = { provider: winner.provider, retrievedAt: winner.retrievedAt, confidence: winner.confidence };
+    }
+
+    return { ...enrichedData, provenance, candidates };
+  }
+
+  /**
+   * Replaces locked fields with their override values
+   * @param enrichedData - Enriched data resolved from providers
+   * @param overrides - Fields locked by team members, if any
+   * @returns Enriched data carrying the overrides
+   */
+  private applyOverrides(
+    enrichedData: IEnrichedData,
+    overrides?: Partial<Record<EnrichableField, IFieldOverride>>
+  ): IEnrichedData {
+    if (!overrides || Object.keys(overrides).length === 0) {
+      return enrichedData;
+    }
+
+    const lockedData: IEnrichedData = { ...enrichedData, provenance: { ...enrichedData.provenance }, overrides };
+    for (const [field, override] of Object.entries(overrides) as [EnrichableField, IFieldOverride][]) {
+      (lockedData as any)[field] = override.value;
+      lockedData.provenance![field] = {
+        provider: override.provider || MANUAL_OVERRIDE_PROVIDER,
+        retrievedAt: override.lockedAt,
+        confidence: 1
+      };
+    }
+
+    return lockedData;
+  }
+
+  /**
+   * Scores confidence in a value by the share of providers supplying the same value
+   * Smoothed so agreement outweighs a lone provider: 1 of 1 scores 0.67, 2 of 2 0.75, 1 of 2 0.5
+   * @param value - Value to score
+   * @param values - Every value supplied for the field
+   * @returns Confidence from 0 to 1, rounded to two decimals
+   */
+  private scoreConfidence(value: unknown, values: unknown[]): number {
+    const key = this.normalizeValue(value);
+    const agreeing = values.filter(other => this.normalizeValue(other) === key).length;
+    return Math.round(((agreeing + 1) / (values.length + 2)) * 100) / 100;
+  }
+
+  /**
+   * Normalizes a field value for agreement checks, ignoring case and surrounding whitespace
+   */
+  private normalizeValue(value: unknown): string {
+    return typeof value === 'string' ? value.trim().toLowerCase() : JSON.stringify(value);
+  }
+
+  /**
+   * Determines whether a provider supplied a usable value for a field
+   * @param value - Field value
+   * @returns False for empty strings, arrays and objects
+   */
+  private hasValue(value: unknown): boolean {
+    if (value === null || value === undefined || value === '') {
+      return false;
+    }
+
+    if (Array.isArray(value)) {
+      return value.length > 0;
+    }
+
+    if (typeof value === 'object') {
+      return Object.keys(value as object).length > 0;
+    }
+
+    return true;
+  }
+
+  /**
+   * Creates enriched data with every field empty
+   * @returns Empty enriched data structure
+   */
+  private createEmptyEnrichedData(): IEnrichedData {
+    return {
+      company: '',
+      title: '',
+      industry: '',
+      size: '',
+      revenue: '',
+      website: '',
+      technologies: [],
+      linkedinUrl: '',
+      socialProfiles: {},
+      customFields: {}
+    };
+  }
+
+  /**
+   * Registers the HTTP enrichment providers defined in configuration
+   */
+  private initializeProviders(): void {
+    const providersConfig = this.configService.get<IHttpEnrichmentProviderConfig[]>('enrichment.providers');
+
     if (!providersConfig || providersConfig.length === 0) {
       this.logger.warn('No enrichment providers configured');
-      return [];
+      return;
     }
 
-    return providersConfig.sort((a, b) => a.priority - b.priority);
+    providersConfig.forEach(config =>
+      this.providerRegistry.register(new HttpEnrichmentProvider(this.httpService, config))
+    );
   }
-}
\ No newline at end of file
+}
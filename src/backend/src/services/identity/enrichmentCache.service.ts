@@ -0,0 +1,240 @@
+/**
+ * @fileoverview Redis-backed cache of visitor enrichment results and daily provider spend
+ * Results are keyed per company by visitor email and by corporate email domain
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import { IEnrichedData } from '../../interfaces/visitor.interface';
+import { EnrichableField } from '../../interfaces/enrichment.interface';
+import { RedisService } from '../cache/redis.service';
+import { DOMAIN_LEVEL_FIELDS, FREE_EMAIL_DOMAINS } from '../../constants/enrichment.constants';
+
+/**
+ * Enrichment result as stored in the cache
+ */
+export interface ICachedEnrichment {
+    enrichedData: IEnrichedData;
+    cachedAt: Date;
+}
+
+/**
+ * Cache of enrichment results and per-company spend counters
+ * Cache failures are logged and treated as misses so enrichment keeps working without Redis
+ */
+@Injectable()
+export class EnrichmentCacheService {
+    private readonly logger = new Logger(EnrichmentCacheService.name);
+    private readonly SECONDS_PER_DAY = 86400;
+
+    constructor(private readonly redisService: RedisService) {}
+
+    /**
+     * Retrieves the cached enrichment of a visitor email
+     * @param companyId - Company owning the visitor
+     * @param email - Visitor email
+     * @returns Cached enrichment or null on miss
+     */
+    public async getByEmail(companyId: string, email: string): Promise<ICachedEnrichment | null> {
+        return this.read(`${companyId}:email:${email.toLowerCase()}`);
+    }
+
+    /**
+     * Retrieves the cached company-level enrichment of an email domain
+     * @param companyId - Company owning the visitor
+     * @param domain - Email domain
+     * @returns Cached enrichment or null on miss or for free email domains
+     */
+    public async getByDomain(companyId: string, domain: string): Promise<ICachedEnrichment | null> {
+        if (!this.isCacheableDomain(domain)) {
+            return null;
+        }
+        return this.read(`${companyId}:domain:${domain}`);
+    }
+
+    /**
+     * Stores an enrichment result by email, and its company-level fields by domain
+     * @param companyId - Company owning the visitor
+     * @param email - Visitor email
+     * @param domain - Email domain
+     * @param enrichedData - Resolved enrichment
+     * @param stalenessDays - Days the result stays fresh
+     */
+    public async store(
+        companyId: string,
+        email: string,
+        domain: string,
+        enrichedData: IEnrichedData,
+        stalenessDays: number
+    ): Promise<void> {
+        const ttl = stalenessDays * this.SECONDS_PER_DAY;
+        const cachedAt = new Date();
+
+        await this.write(`${companyId}:email:${email.toLowerCase()}`, { enrichedData, cachedAt }, ttl);
+
+        if (this.isCacheableDomain(domain)) {
+            await this.write(
+                `${companyId}:domain:${domain}`,
+                { enrichedData: this.pickDomainFields(enrichedData), cachedAt },
+                ttl
+            );
+        }
+    }
+
+    /**
+     * Retrieves a company's provider spend for the current UTC day
+     * @param companyId - Company to look up
+     * @returns Spend in USD
+     */
+    public async getDailySpend(companyId: string): Promise<number> {
+        try {
+            return (await this.redisService.get<number>(this.spendKey(companyId), 'enrichmentSpend')) || 0;
+        } catch (error) {
+            this.logger.warn(`Failed to read enrichment spend for company ${companyId}: ${error.message}`);
+            return 0;
+        }
+    }
+
+    /**
+     * Adds provider cost to a company's spend for the current UTC day
+     * @param companyId - Company to charge
+     * @param amount - Cost in USD
+     */
+    public async addDailySpend(companyId: string, amount: number): Promise<void> {
+        if (amount <= 0) {
+            return;
+        }
+
+        try {
+            await this.redisService.increment(this.spendKey(companyId), amount, 'enrichmentSpend');
+        } catch (error) {
+            this.logger.warn(`Failed to record enrichment spend for company ${companyId}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Charges provider cost to a company's spend for the current UTC day unless it would exceed the budget
+     * The cost is added before the check and taken back when over budget, so concurrent
+     * enrichments cannot both spend the last of the budget
+     * @param companyId - Company to charge
+     * @param amount - Cost in USD
+     * @param dailyBudget - Company's daily spend cap in USD
+     * @returns Whether the cost fits the budget and was charged
+     */
+    public async reserveDailySpend(companyId: string, amount: number, dailyBudget: number): Promise<boolean> {
+        if (amount <= 0) {
+            return true;
+        }
+
+        const key = this.spendKey(companyId);
+        let spend: number;
+        try {
+            spend = await this.redisService.increment(key, amount, 'enrichmentSpend');
+        } catch (error: any) {
+            this.logger.warn(`Failed to reserve enrichment spend for company ${companyId}: ${error.message}`);
+            return true;
+        }
+
+        if (spend <= dailyBudget) {
+            return true;
+        }
+
+        try {
+            await this.redisService.increment(key, -amount, 'enrichmentSpend');
+        } catch (error: any) {
+            this.logger.warn(`Failed to release enrichment spend for company ${companyId}: ${error.message}`);
+        }
+        return false;
+    }
+
+    /**
+     * Reads a cache entry, reviving serialized dates
+     */
+    private async read<T = ICachedEnrichment>(key: string): Promise<T | null> {
+        try {
+            const value = await this.redisService.get<any>(key, 'enrichment');
+            if (value && typeof value === 'object' && value.enrichedData) {
+                return this.reviveDates(value) as T;
+            }
+            return value;
+        } catch (error) {
+            this.logger.warn(`Enrichment cache read failed for ${key}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Writes a cache entry, ignoring cache failures
+     */
+    private async write(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+        try {
+            await this.redisService.set(key, value, 'enrichment', ttlSeconds);
+        } catch (error) {
+            this.logger.warn(`Enrichment cache write failed for ${key}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Restores Date instances lost in JSON serialization
+     */
+    private reviveDates(entry: any): ICachedEnrichment {
+        const provenance = entry.enrichedData.provenance || {};
+        Object.values(provenance).forEach((record: any) => {
+            record.retrievedAt = new Date(record.retrievedAt);
+        });
+        Object.values(entry.enrichedData.candidates || {}).forEach((candidates: any) => {
+            candidates.forEach((candidate: any) => {
+                candidate.retrievedAt = new Date(candidate.retrievedAt);
+            });
+        });
+
+        return { enrichedData: entry.enrichedData, cachedAt: new Date(entry.cachedAt) };
+    }
+
+    /**
+     * Keeps only company-level fields with their provenance and candidates
+     */
+    private pickDomainFields(enrichedData: IEnrichedData): IEnrichedData {
+        const domainData: IEnrichedData = {
+            company: '',
+            title: '',
+            industry: '',
+            size: '',
+            revenue: '',
+            website: '',
+            technologies: [],
+            linkedinUrl: '',
+            socialProfiles: {},
+            customFields: {},
+            provenance: {},
+            candidates: {}
+        };
+
+        DOMAIN_LEVEL_FIELDS.forEach((field: EnrichableField) => {
+            (domainData as any)[field] = enrichedData[field];
+            if (enrichedData.provenance?.[field]) {
+                domainData.provenance![field] = enrichedData.provenance[field];
+            }
+            if (enrichedData.candidates?.[field]) {
+                domainData.candidates![field] = enrichedData.candidates[field];
+            }
+        });
+
+        return domainData;
+    }
+
+    /**
+     * Determines whether a domain identifies a single company
+     */
+    private isCacheableDomain(domain: string): boolean {
+        return !!domain && !(FREE_EMAIL_DOMAINS as readonly string[]).includes(domain);
+    }
+
+    /**
+     * Builds the spend counter key of a company for the current UTC day
+     */
+    private spendKey(companyId: string): string {
+        return `${companyId}:${new Date().toISOString().slice(0, 10)}`;
+    }
+}
@@ -0,0 +1,154 @@
+/**
+ * @fileoverview Registry of pluggable visitor enrichment providers
+ * Tracks registered provider plugins, their default order and consecutive failures
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import { IEnrichmentProvider, IProviderHealth } from '../../interfaces/enrichment.interface';
+import {
+    PROVIDER_FAILURE_THRESHOLD,
+    PROVIDER_COOLDOWN_MS
+} from '../../constants/enrichment.constants';
+
+/**
+ * Failure tracking state for a registered provider
+ */
+interface IProviderState {
+    consecutiveFailures: number;
+    unavailableUntil: number | null;
+}
+
+/**
+ * Registry holding enrichment provider plugins by name and skipping
+ * providers that keep failing until their cooldown expires
+ */
+@Injectable()
+export class EnrichmentProviderRegistry {
+    private readonly logger = new Logger(EnrichmentProviderRegistry.name);
+    private readonly providers: Map<string, IEnrichmentProvider> = new Map();
+    private readonly states: Map<string, IProviderState> = new Map();
+
+    /**
+     * Registers a provider plugin, replacing any provider with the same name
+     * @param provider - Provider to register
+     */
+    public register(provider: IEnrichmentProvider): void {
+        if (!provider.name) {
+            throw new Error('Enrichment provider name is required');
+        }
+
+        if (this.providers.has(provider.name)) {
+            this.logger.warn(`Replacing registered enrichment provider ${provider.name}`);
+        }
+
+        this.providers.set(provider.name, provider);
+        this.states.set(provider.name, { consecutiveFailures: 0, unavailableUntil: null });
+        this.logger.log(`Registered enrichment provider ${provider.name}`);
+    }
+
+    /**
+     * Removes a provider plugin
+     * @param name - Name of the provider to remove
+     * @returns Whether a provider was removed
+     */
+    public unregister(name: string): boolean {
+        this.states.delete(name);
+        return this.providers.delete(name);
+    }
+
+    /**
+     * Retrieves a registered provider by name
+     * @param name - Provider name
+     * @returns Provider or undefined when not registered
+     */
+    public get(name: string): IEnrichmentProvider | undefined {
+        return this.providers.get(name);
+    }
+
+    /**
+     * Lists registered providers in default order (ascending priority)
+     * @returns Registered providers
+     */
+    public getProviders(): IEnrichmentProvider[] {
+        return Array.from(this.providers.values()).sort((a, b) => a.priority - b.priority);
+    }
+
+    /**
+     * Determines whether a provider may currently be queried
+     * @param name - Provider name
+     * @returns False while the provider is cooling down after repeated failures
+     */
+    public isAvailable(name: string): boolean {
+        const state = this.states.get(name);
+        if (!state) {
+            return false;
+        }
+
+        if (state.unavailableUntil !== null && state.unavailableUntil > Date.now()) {
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Resets the failure count of a provider after a successful call
+     * @param name - Provider name
+     */
+    public recordSuccess(name: string): void {
+        const state = this.states.get(name);
+        if (state) {
+            state.consecutiveFailures = 0;
+            state.unavailableUntil = null;
+        }
+    }
+
+    /**
+     * Counts a failed call, placing the provider in cooldown once the threshold is reached
+     * @param name - Provider name
+     */
+    public recordFailure(name: string): void {
+        const state = this.states.get(name);
+        if (!state) {
+            return;
+        }
+
+        state.consecutiveFailures++;
+        if (state.consecutiveFailures >= PROVIDER_FAILURE_THRESHOLD) {
+            state.unavailableUntil = Date.now() + PROVIDER_COOLDOWN_MS;
+            this.logger.warn(
+                `Enrichment provider ${name} unavailable after ${state.consecutiveFailures} consecutive failures`
+            );
+        }
+    }
+
+    /**
+     * Runs the health check of every registered provider
+     * Providers whose check fails or throws are reported unhealthy and counted as failed
+     * @returns Health status per provider
+     */
+    public async checkHealth(): Promise<IProviderHealth[]> {
+        return Promise.all(this.getProviders().map(async provider => {
+            let health: IProviderHealth;
+            try {
+                health = await provider.checkHealth();
+            } catch (error) {
+                health = {
+                    provider: provider.name,
+                    healthy: false,
+                    message: error.message,
+                    checkedAt: new Date()
+                };
+            }
+
+            if (health.healthy) {
+                this.recordSuccess(provider.name);
+            } else {
+                this.recordFailure(provider.name);
+            }
+            return health;
+        }));
+    }
+}
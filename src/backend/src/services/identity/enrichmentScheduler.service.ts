@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Background scheduler re-enriching visitors whose enrichment has gone stale
+ * Periodically queues stale ENRICHED visitors on the enrichment queue and consumes the resulting jobs
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common'; // v9.x
+
+import { IVisitor } from '../../interfaces/visitor.interface';
+import { IEnrichmentSettings, IReenrichmentMessage } from '../../interfaces/enrichment.interface';
+import { VISITOR_STATUS } from '../../constants/visitor.constants';
+import { CONSENT_PURPOSE } from '../../constants/consent.constants';
+import {
+    MIN_STALENESS_DAYS,
+    REENRICHMENT_SCAN_INTERVAL_MS,
+    REENRICHMENT_BATCH_SIZE,
+    REENRICHMENT_QUEUED_TTL_MS,
+    REENRICHMENT_POLL_RETRY_MS,
+    REENRICHMENT_QUEUE,
+    REENRICHMENT_MESSAGE_TYPE
+} from '../../constants/enrichment.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { QueueService } from '../queue/queue.service';
+import { EnrichmentService } from './enrichment.service';
+import { EnrichmentCacheService } from './enrichmentCache.service';
+import { IcpMatchingService } from '../scoring/icpMatching.service';
+import { ConsentService } from '../tracking/consent.service';
+
+/**
+ * Scheduler queueing stale enriched visitors for refresh according to each
+ * company's staleness window and daily provider budget
+ */
+@Injectable()
+export class EnrichmentSchedulerService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(EnrichmentSchedulerService.name);
+    private readonly MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+    private scanTimer: NodeJS.Timeout | null = null;
+    private isScanning = false;
+    private isConsuming = false;
+
+    constructor(
+        private readonly visitorRepository: VisitorRepository,
+        private readonly enrichmentService: EnrichmentService,
+        private readonly enrichmentCache: EnrichmentCacheService,
+        private readonly queueService: QueueService,
+        private readonly icpMatchingService: IcpMatchingService,
+        private readonly consentService: ConsentService
+    ) {}
+
+    /**
+     * Starts the periodic stale visitor scan and the re-enrichment job consumer
+     */
+    public onModuleInit(): void {
+        this.scanTimer = setInterval(() => {
+            this.queueStaleVisitors().catch(error =>
+                this.logger.error(`Re-enrichment scan failed: ${error.message}`, error.stack)
+            );
+        }, REENRICHMENT_SCAN_INTERVAL_MS);
+
+        this.isConsuming = true;
+        this.consumeReenrichment().catch(error =>
+            this.logger.error(`Re-enrichment consumer stopped: ${error.message}`, error.stack)
+        );
+    }
+
+    /**
+     * Stops the periodic stale visitor scan and the consumer, which finishes its current poll
+     */
+    public onModuleDestroy(): void {
+        if (this.scanTimer) {
+            clearInterval(this.scanTimer);
+            this.scanTimer = null;
+        }
+        this.isConsuming = false;
+    }
+
+    /**
+     * Queues enriched visitors older than their company's staleness window for re-enrichment
+     * Each company's window is applied in the scan, and companies that have spent their daily budget
+     * and visitors already queued are left out of it, so none of them take the places of visitors
+     * that can be refreshed
+     * @returns Number of visitors queued
+     */
+    public async queueStaleVisitors(): Promise<number> {
+        if (this.isScanning) {
+            return 0;
+        }
+
+        this.isScanning = true;
+        try {
+            const now = Date.now();
+            const enrichedBeforeByCompany = new Map<string, Date>();
+            const spentCompanyIds: string[] = [];
+            let candidates: IVisitor[] = [];
+
+            // Scan again with the windows of the companies found in the batch until it only holds companies already known
+            let foundCompany = true;
+            while (foundCompany) {
+                candidates = await this.visitorRepository.findStaleEnriched(
+                    new Date(now - MIN_STALENESS_DAYS * this.MS_PER_DAY),
+                    enrichedBeforeByCompany,
+                    new Date(now - REENRICHMENT_QUEUED_TTL_MS),
+                    spentCompanyIds,
+                    REENRICHMENT_BATCH_SIZE
+                );
+
+                foundCompany = false;
+                for (const companyId of new Set(candidates.map(visitor => visitor.companyId))) {
+                    if (enrichedBeforeByCompany.has(companyId) || spentCompanyIds.includes(companyId)) {
+                        continue;
+                    }
+
+                    const settings = await this.enrichmentService.getCompanySettings(companyId);
+                    if (await this.isBudgetSpent(companyId, settings)) {
+                        spentCompanyIds.push(companyId);
+                    } else {
+                        enrichedBeforeByCompany.set(companyId, new Date(now - settings.stalenessDays * this.MS_PER_DAY));
+                    }
+                    foundCompany = true;
+                }
+            }
+
+            let queued = 0;
+            for (const visitor of candidates) {
+                const message: IReenrichmentMessage = {
+                    type: REENRICHMENT_MESSAGE_TYPE,
+                    visitorId: visitor.id,
+                    companyId: visitor.companyId,
+                    lastEnriched: visitor.lastEnriched || null
+                };
+
+                await this.queueService.sendMessage(REENRICHMENT_QUEUE, message);
+                await this.visitorRepository.patch(visitor.id, { reenrichmentQueuedAt: new Date(now) });
+                queued++;
+            }
+
+            if (queued > 0) {
+                this.logger.log(`Queued ${queued} stale visitors for re-enrichment`);
+            }
+            return queued;
+        } finally {
+            this.isScanning = false;
+        }
+    }
+
+    /**
+     * Receives a batch of jobs from the enrichment queue and processes them
+     * Processed jobs are deleted; failed jobs stay on the queue and are received again
+     * once their visibility timeout expires
+     * @returns Number of jobs processed
+     */
+    public async pollReenrichment(): Promise<number> {
+        const messages = await this.queueService.receiveMessages(REENRICHMENT_QUEUE);
+        let processed = 0;
+
+        for (const message of messages) {
+            const job = message.body as IReenrichmentMessage;
+            if (job?.type !== REENRICHMENT_MESSAGE_TYPE) {
+                this.logger.warn(`Ignoring enrichment queue message ${message.id} of type ${job?.type}`);
+                continue;
+            }
+
+            try {
+                await this.processReenrichment(job);
+                await this.queueService.deleteMessage(REENRICHMENT_QUEUE, message.receiptHandle);
+                processed++;
+            } catch (error: any) {
+                this.logger.warn(`Re-enrichment of visitor ${job.visitorId} failed: ${error.message}`);
+            }
+        }
+
+        return processed;
+    }
+
+    /**
+     * Processes a re-enrichment job, refreshing the visitor from providers
+     * Visitors that were deleted, merged, are no longer enriched or withdrew consent to enrichment are skipped
+     * @param message - Re-enrichment job
+     * @returns Refreshed visitor, or null when skipped
+     */
+    public async processReenrichment(message: IReenrichmentMessage): Promise<IVisitor | null> {
+        const visitor = await this.visitorRepository.findById(message.visitorId);
+        if (!visitor) {
+            return null;
+        }
+
+        if (
+            visitor.mergedInto ||
+            visitor.status !== VISITOR_STATUS.ENRICHED ||
+            !this.consentService.hasConsent(visitor, CONSENT_PURPOSE.ENRICHMENT)
+        ) {
+            await this.visitorRepository.patch(visitor.id, { reenrichmentQueuedAt: null });
+            return null;
+        }
+
+        const enriched = await this.enrichmentService.enrichVisitorData(visitor, { forceRefresh: true });
+        const updated = await this.visitorRepository.patch(visitor.id, {
+            enrichedData: enriched.enrichedData,
+            lastEnriched: enriched.lastEnriched,
+            reenrichmentQueuedAt: null
+        });
+
+        this.logger.debug(`Re-enriched visitor ${visitor.id}`);
+        return updated ? this.icpMatchingService.classifyVisitor(updated) : updated;
+    }
+
+    /**
+     * Long-polls the enrichment queue until the module is destroyed, pausing after failed polls
+     */
+    private async consumeReenrichment(): Promise<void> {
+        while (this.isConsuming) {
+            try {
+                await this.pollReenrichment();
+            } catch (error: any) {
+                this.logger.error(`Re-enrichment poll failed: ${error.message}`, error.stack);
+                await new Promise(resolve => setTimeout(resolve, REENRICHMENT_POLL_RETRY_MS));
+            }
+        }
+    }
+
+    /**
+     * Determines whether a company has no provider budget left today
+     */
+    private async isBudgetSpent(companyId: string, settings: IEnrichmentSettings): Promise<boolean> {
+        if (settings.dailyBudget === null) {
+            return false;
+        }
+        return (await this.enrichmentCache.getDailySpend(companyId)) >= settings.dailyBudget;
+    }
+}
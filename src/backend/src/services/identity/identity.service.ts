@@ -10,21 +10,20 @@ import { Span } from '@opentelemetry/api'; // v1.x
 import { Cache } from '@nestjs/cache-manager'; // v1.x
 import { RateLimiter } from '@nestjs/throttler'; // v4.x
 
-import { IVisitor } from '../../interfaces/visitor.interface';
-import { VISITOR_STATUS } from '../../constants/visitor.constants';
+import { IVisitor, IIdentificationData, IEnrichedData } from '../../interfaces/visitor.interface';
+import { EnrichableField, IFieldOverrideInput } from '../../interfaces/enrichment.interface';
+import { IVerificationVerdict } from '../../interfaces/verification.interface';
+import { VISITOR_STATUS, IDENTIFICATION_METHOD } from '../../constants/visitor.constants';
+import { VERIFICATION_STATUS } from '../../constants/verification.constants';
+import { CONSENT_PURPOSE, CONSENT_SOURCE } from '../../constants/consent.constants';
 import { VisitorRepository } from '../../db/repositories/visitor.repository';
 import { EnrichmentService } from './enrichment.service';
-
-/**
- * Interface for visitor identification data with GDPR considerations
- */
-interface IIdentificationData {
-    email?: string;
-    name?: string;
-    phone?: string;
-    gdprConsent: boolean;
-    customFields?: Record<string, any>;
-}
+import { IpResolutionService } from './ipResolution.service';
+import { IdentityGraphService } from './identityGraph.service';
+import { IcpMatchingService } from '../scoring/icpMatching.service';
+import { VerificationService } from './verification.service';
+import { SignedIdentityService } from './signedIdentity.service';
+import { ConsentService } from '../tracking/consent.service';
 
 /**
  * Interface for identification options
@@ -52,7 +51,13 @@ export class IdentityService {
         private readonly visitorRepository: VisitorRepository,
         private readonly enrichmentService: EnrichmentService,
         private readonly cache: Cache,
-        private readonly rateLimiter: RateLimiter
+        private readonly rateLimiter: RateLimiter,
+        private readonly ipResolutionService: IpResolutionService,
+        private readonly identityGraphService: IdentityGraphService,
+        private readonly icpMatchingService: IcpMatchingService,
+        private readonly verificationService: VerificationService,
+        private readonly signedIdentityService: SignedIdentityService,
+        private readonly consentService: ConsentService
     ) {
         this.logger.log('Identity service initialized with production configurations');
     }
@@ -79,10 +84,10 @@ export class IdentityService {
             // Validate identification data and GDPR compliance
             await this.validateIdentificationData(identificationData);
 
-            // Check cache unless refresh is forced
+            // Check cache unless refresh is forced, company-resolved visitors still need identifying
             if (!options.forceCacheRefresh) {
                 const cachedVisitor = await this.cache.get<IVisitor>(`visitor:${visitorId}`);
-                if (cachedVisitor) {
+                if (cachedVisitor && cachedVisitor.status !== VISITOR_STATUS.COMPANY_RESOLVED) {
                     this.logger.debug(`Cache hit for visitor ${visitorId}`);
                     return cachedVisitor;
                 }
@@ -94,16 +99,24 @@ export class IdentityService {
                 throw new Error(`Visitor ${visitorId} not found`);
             }
 
-            // Update visitor with identification data
-            visitor = await this.updateVisitorIdentification(visitor, identificationData);
+            // Record the consent the details were submitted with
+            visitor = await this.consentService.recordIdentificationConsent(
+                visitor,
+                identificationData,
+                CONSENT_SOURCE.IDENTIFY_FORM
+            );
 
-            // Perform enrichment if needed
-            if (!options.skipEnrichment && identificationData.email) {
-                visitor = await this.enrichVisitorWithRetry(visitor);
-            }
+            // Verify contact details, storing phones in E.164 format
+            const verification = await this.verifyIdentification(visitor, identificationData);
+            const verifiedData: IIdentificationData = {
+                ...identificationData,
+                phone: verification?.phone?.e164 || identificationData.phone
+            };
+
+            // Update visitor with identification data
+            visitor = await this.updateVisitorIdentification(visitor, verifiedData, verification);
 
-            // Update cache
-            await this.cache.set(`visitor:${visitorId}`, visitor, this.CACHE_TTL);
+            visitor = await this.completeIdentification(visitor, verifiedData, options);
 
             this.logger.debug(`Successfully identified visitor ${visitorId}`);
             return visitor;
@@ -114,6 +127,183 @@ export class IdentityService {
         }
     }
 
+    /**
+     * Identifies a visitor from a payload signed by the customer's backend
+     * The signature proves the customer vouches for the identity, so the
+     * contact details skip email/phone verification and are trusted for CRM sync
+     * @param visitorId - Unique identifier of the visitor
+     * @param token - Token signed with the company identity secret
+     * @param options - Processing options
+     * @returns Updated visitor information
+     */
+    @Span()
+    public async identifySignedVisitor(
+        visitorId: string,
+        token: string,
+        options: IIdentificationOptions = {}
+    ): Promise<IVisitor> {
+        try {
+            const rateLimit = this.getRateLimit(options.priority);
+            await this.rateLimiter.checkLimit(visitorId, rateLimit);
+
+            let visitor = await this.visitorRepository.findById(visitorId);
+            if (!visitor) {
+                throw new Error(`Visitor ${visitorId} not found`);
+            }
+
+            // Verify the signature with the secret of the visitor's company
+            const payload = await this.signedIdentityService.verifyToken(visitor.companyId, visitorId, token);
+            const identificationData: IIdentificationData = {
+                email: payload.email,
+                name: payload.name,
+                phone: payload.phone,
+                gdprConsent: payload.gdprConsent === true,
+                customFields: { ...payload.traits, userId: payload.userId }
+            };
+            await this.validateIdentificationData(identificationData);
+
+            visitor = await this.consentService.recordIdentificationConsent(
+                visitor,
+                identificationData,
+                CONSENT_SOURCE.SIGNED_TOKEN
+            );
+
+            visitor = await this.updateVisitorIdentification(
+                visitor,
+                identificationData,
+                null,
+                IDENTIFICATION_METHOD.SIGNED_TOKEN,
+                payload.userId
+            );
+
+            visitor = await this.completeIdentification(visitor, identificationData, options);
+
+            this.logger.debug(`Successfully identified visitor ${visitorId} from signed token`);
+            return visitor;
+
+        } catch (error) {
+            this.logger.error(`Error identifying visitor ${visitorId} from signed token: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    /**
+     * Resolves the company of an anonymous visitor from their IP address
+     * Visitors that are already resolved or identified are returned unchanged
+     * @param visitorId - Unique identifier of the visitor
+     * @param ipAddress - Optional IP address overriding the stored metadata
+     * @returns Visitor, updated to COMPANY_RESOLVED when a confident match is found
+     */
+    @Span()
+    public async resolveVisitorCompany(visitorId: string, ipAddress?: string): Promise<IVisitor> {
+        try {
+            const visitor = await this.visitorRepository.findById(visitorId);
+            if (!visitor) {
+                throw new Error(`Visitor ${visitorId} not found`);
+            }
+
+            if (visitor.status !== VISITOR_STATUS.ANONYMOUS) {
+                return visitor;
+            }
+
+            const result = this.ipResolutionService.resolveCompany(visitor, ipAddress);
+            if (!result) {
+                return visitor;
+            }
+
+            let updatedVisitor = await this.visitorRepository.update(visitor.id, {
+                status: VISITOR_STATUS.COMPANY_RESOLVED,
+                enrichedData: result.enrichedData,
+                companyResolution: result.resolution
+            });
+            if (updatedVisitor) {
+                updatedVisitor = await this.icpMatchingService.classifyVisitor(updatedVisitor);
+            }
+
+            this.logger.debug(
+                `Resolved visitor ${visitorId} to ${result.resolution.organization} ` +
+                `(confidence ${result.resolution.confidence})`
+            );
+            return updatedVisitor;
+
+        } catch (error) {
+            this.logger.error(`Error resolving company for visitor ${visitorId}: ${error.message}`, error.stack);
+            throw error;
+        }
+    }
+
+    /**
+     * Locks an enriched field of a visitor to an accepted provider candidate or a manually entered value
+     * @param companyId - Company the visitor must belong to
+     * @param visitorId - Unique identifier of the visitor
+     * @param field - Field to lock
+     * @param input - Accepted provider or entered value
+     * @param userId - Team member making the decision
+     * @returns Visitor with the field locked against re-enrichment
+     */
+    @Span()
+    public async overrideEnrichedField(
+        companyId: string,
+        visitorId: string,
+        field: EnrichableField,
+        input: IFieldOverrideInput,
+        userId: string
+    ): Promise<IVisitor> {
+        const visitor = await this.findEnrichedVisitor(companyId, visitorId);
+        const enrichedData = this.enrichmentService.overrideField(visitor.enrichedData!, field, input, userId);
+
+        this.logger.debug(`Locked ${field} of visitor ${visitorId} for user ${userId}`);
+        return this.saveEnrichedData(visitor, enrichedData);
+    }
+
+    /**
+     * Unlocks an enriched field of a visitor so re-enrichment resolves it from providers again
+     * @param companyId - Company the visitor must belong to
+     * @param visitorId - Unique identifier of the visitor
+     * @param field - Field to unlock
+     * @returns Visitor with the field restored to the winning provider candidate
+     */
+    @Span()
+    public async releaseEnrichedField(
+        companyId: string,
+        visitorId: string,
+        field: EnrichableField
+    ): Promise<IVisitor> {
+        const visitor = await this.findEnrichedVisitor(companyId, visitorId);
+        const enrichedData = this.enrichmentService.releaseOverride(visitor.enrichedData!, field);
+
+        this.logger.debug(`Unlocked ${field} of visitor ${visitorId}`);
+        return this.saveEnrichedData(visitor, enrichedData);
+    }
+
+    /**
+     * Loads a visitor of a company that has enriched data to review
+     * @throws Error when the company has no such visitor or it has not been enriched
+     */
+    private async findEnrichedVisitor(companyId: string, visitorId: string): Promise<IVisitor> {
+        const visitor = await this.visitorRepository.findById(visitorId);
+        if (!visitor || visitor.companyId !== companyId) {
+            throw new Error(`Visitor ${visitorId} not found`);
+        }
+        if (!visitor.enrichedData) {
+            throw new Error(`Visitor ${visitorId} has no enriched data`);
+        }
+        return visitor;
+    }
+
+    /**
+     * Stores reviewed enriched data, reclassifies the visitor and refreshes the cache
+     */
+    private async saveEnrichedData(visitor: IVisitor, enrichedData: IEnrichedData): Promise<IVisitor> {
+        let updatedVisitor = await this.visitorRepository.patch(visitor.id, { enrichedData });
+        if (updatedVisitor) {
+            updatedVisitor = await this.icpMatchingService.classifyVisitor(updatedVisitor);
+        }
+
+        await this.cache.set(`visitor:${visitor.id}`, updatedVisitor, this.CACHE_TTL);
+        return updatedVisitor;
+    }
+
     /**
      * Validates identification data including GDPR compliance
      * @param data - Identification data to validate
@@ -132,21 +322,90 @@ export class IdentityService {
         }
     }
 
+    /**
+     * Links an identified visitor into the identity graph, enriches and classifies it
+     * and refreshes the cache
+     * @param visitor - Identified visitor
+     * @param data - Identification data the visitor was identified with
+     * @param options - Processing options
+     * @returns Visitor after linking and enrichment
+     */
+    private async completeIdentification(
+        visitor: IVisitor,
+        data: IIdentificationData,
+        options: IIdentificationOptions
+    ): Promise<IVisitor> {
+        const visitorId = visitor.id;
+
+        // Link into the identity graph, merging with records from other devices
+        visitor = await this.identityGraphService.linkVisitor(visitor, data);
+
+        // Perform enrichment if needed and consented to
+        if (!options.skipEnrichment && data.email && this.consentService.hasConsent(visitor, CONSENT_PURPOSE.ENRICHMENT)) {
+            visitor = await this.enrichVisitorWithRetry(visitor);
+            visitor = await this.icpMatchingService.classifyVisitor(visitor);
+        }
+
+        // Update cache
+        await this.cache.set(`visitor:${visitorId}`, visitor, this.CACHE_TTL);
+        return visitor;
+    }
+
+    /**
+     * Verifies the supplied email and phone under the company's verification settings
+     * @param visitor - Visitor being identified
+     * @param data - Identification data to verify
+     * @returns Verification verdict, or null when no contact details were supplied
+     * @throws Error when the company's settings reject the identification
+     */
+    private async verifyIdentification(
+        visitor: IVisitor,
+        data: IIdentificationData
+    ): Promise<IVerificationVerdict | null> {
+        if (!data.email && !data.phone) {
+            return null;
+        }
+
+        const verdict = await this.verificationService.verifyIdentification(
+            visitor.companyId,
+            data,
+            visitor.metadata?.location
+        );
+
+        if (verdict.status === VERIFICATION_STATUS.REJECTED) {
+            throw new Error(`Identification rejected: ${verdict.reasons.join(', ')}`);
+        }
+
+        return verdict;
+    }
+
     /**
      * Updates visitor with identification data
      * @param visitor - Existing visitor record
      * @param data - New identification data
+     * @param verification - Verification verdict of the data
+     * @param method - How the visitor was identified
+     * @param externalUserId - User ID in the customer's system (signed identification only)
      * @returns Updated visitor
      */
     private async updateVisitorIdentification(
         visitor: IVisitor,
-        data: IIdentificationData
+        data: IIdentificationData,
+        verification: IVerificationVerdict | null,
+        method: IDENTIFICATION_METHOD = IDENTIFICATION_METHOD.FORM,
+        externalUserId?: string
     ): Promise<IVisitor> {
         const updateData: Partial<IVisitor> = {
             status: VISITOR_STATUS.IDENTIFIED,
             email: data.email || visitor.email,
             name: data.name || visitor.name,
             phone: data.phone || visitor.phone,
+            verification: verification || visitor.verification || null,
+            // A signed identity is never downgraded by later unsigned submissions
+            identificationMethod: visitor.identificationMethod === IDENTIFICATION_METHOD.SIGNED_TOKEN
+                ? IDENTIFICATION_METHOD.SIGNED_TOKEN
+                : method,
+            externalUserId: externalUserId || visitor.externalUserId || null,
             lastSeen: new Date()
         };
 
@@ -203,7 +462,7 @@ export class IdentityService {
      * @returns Boolean indicating validity
      */
     private isValidPhone(phone: string): boolean {
-        return /^\+?[\d\s-]{10,}$/.test(phone);
+        return /^\+?[\d\s().-]{10,}$/.test(phone);
     }
 
     /**
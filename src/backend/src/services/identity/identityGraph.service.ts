@@ -0,0 +1,461 @@
+/**
+ * @fileoverview Identity graph service linking visitor records across devices
+ * Merges visitors sharing deterministic identity keys into a canonical profile with undo support
+ * @version 1.0.0
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+import { Span } from '@opentelemetry/api'; // v1.x
+import { isEqual } from 'lodash'; // v4.17.21
+
+import {
+    IVisitor,
+    IIdentificationData,
+    IIdentityKey,
+    IVisitorMerge,
+    IMergedVisitorProfile,
+    ILinkedDevice
+} from '../../interfaces/visitor.interface';
+import {
+    IDENTITY_KEY_TYPE,
+    CUSTOM_ID_FIELD_PATTERN,
+    VISITOR_STATUS_RANK,
+    MERGE_STATUS
+} from '../../constants/visitor.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { IdentityGraphRepository } from '../../db/repositories/identityGraph.repository';
+import { ActivityService } from '../tracking/activity.service';
+import { createError } from '../../utils/error.util';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+
+/**
+ * Visitor fields restored on undo when they were taken from the merged visitor
+ */
+const RESTORABLE_FIELDS: Array<keyof IVisitor> = [
+    'email',
+    'name',
+    'phone',
+    'status',
+    'enrichedData',
+    'companyResolution',
+    'lastEnriched'
+];
+
+/**
+ * Steps of a merge, in the order they are applied
+ */
+type MergeStep = 'activities' | 'canonical' | 'merged';
+
+const MERGE_STEPS: MergeStep[] = ['activities', 'canonical', 'merged'];
+
+/**
+ * Service maintaining the cross-device identity graph of visitors
+ */
+@Injectable()
+export class IdentityGraphService {
+    private readonly logger = new Logger(IdentityGraphService.name);
+    private readonly MAX_CHAIN_DEPTH = 10;
+
+    constructor(
+        private readonly visitorRepository: VisitorRepository,
+        private readonly identityGraphRepository: IdentityGraphRepository,
+        private readonly activityService: ActivityService
+    ) {}
+
+    /**
+     * Derives hashed deterministic identity keys from identification data
+     * @param companyId - Company scoping the hashes
+     * @param data - Identification data supplied for the visitor
+     * @returns Identity keys (empty when no usable identifiers exist)
+     */
+    public extractIdentityKeys(companyId: string, data: IIdentificationData): IIdentityKey[] {
+        const keys: IIdentityKey[] = [];
+
+        if (data.email) {
+            keys.push(this.createKey(companyId, IDENTITY_KEY_TYPE.EMAIL, data.email.trim().toLowerCase()));
+        }
+
+        if (data.phone) {
+            const digits = data.phone.replace(/\D/g, '');
+            if (digits.length >= 7) {
+                keys.push(this.createKey(companyId, IDENTITY_KEY_TYPE.PHONE, digits));
+            }
+        }
+
+        for (const [field, value] of Object.entries(data.customFields || {})) {
+            const isIdentifier = typeof value === 'string' || typeof value === 'number';
+            if (isIdentifier && String(value).trim() && CUSTOM_ID_FIELD_PATTERN.test(field)) {
+                keys.push(this.createKey(companyId, IDENTITY_KEY_TYPE.CUSTOM_ID, String(value).trim(), field));
+            }
+        }
+
+        return keys;
+    }
+
+    /**
+     * Links a newly identified visitor into the identity graph
+     * Visitors sharing a key are merged into the earliest-seen canonical record
+     * @param visitor - Visitor that was just identified
+     * @param data - Identification data supplied for the visitor
+     * @returns Canonical visitor after any merges
+     */
+    @Span()
+    public async linkVisitor(visitor: IVisitor, data: IIdentificationData): Promise<IVisitor> {
+        const keys = this.extractIdentityKeys(visitor.companyId, data);
+        if (keys.length === 0) {
+            return visitor;
+        }
+
+        await this.identityGraphRepository.linkKeys(visitor.companyId, visitor.id, keys);
+
+        const matches = await this.identityGraphRepository.findVisitorsByKeys(visitor.companyId, keys);
+        matches.delete(visitor.id);
+        if (matches.size === 0) {
+            return visitor;
+        }
+
+        // Resolve every match to its canonical record, collecting the keys it shares
+        const cluster = new Map<string, { visitor: IVisitor; keys: IIdentityKey[] }>();
+        const self = await this.resolveCanonical(visitor);
+        cluster.set(self.id, { visitor: self, keys });
+
+        const candidates = await this.visitorRepository.findByIds(Array.from(matches.keys()));
+        for (const candidate of candidates) {
+            const canonical = await this.resolveCanonical(candidate);
+            const entry = cluster.get(canonical.id);
+            const shared = matches.get(candidate.id) || [];
+            cluster.set(canonical.id, {
+                visitor: canonical,
+                keys: entry ? this.uniqueKeys([...entry.keys, ...shared]) : shared
+            });
+        }
+
+        if (cluster.size === 1) {
+            return self;
+        }
+
+        const [canonical, ...others] = Array.from(cluster.values())
+            .sort((a, b) => new Date(a.visitor.firstSeen).getTime() - new Date(b.visitor.firstSeen).getTime());
+
+        for (const other of others) {
+            if (await this.identityGraphRepository.hasUndoneMerge(canonical.visitor.id, other.visitor.id)) {
+                this.logger.debug(`Skipping previously undone merge of ${other.visitor.id}`);
+                continue;
+            }
+
+            const matchedKeys = other.visitor.id === self.id ? canonical.keys : other.keys;
+            await this.mergeVisitors(canonical.visitor.id, other.visitor.id, matchedKeys);
+        }
+
+        return (await this.visitorRepository.findById(canonical.visitor.id)) || canonical.visitor;
+    }
+
+    /**
+     * Merges one visitor into a canonical visitor
+     * Combines totals, fills missing identity fields and re-points activities. The merge is
+     * recorded as pending first, and the steps already applied are reverted when a later one fails
+     * @param canonicalVisitorId - Surviving visitor
+     * @param mergedVisitorId - Visitor folded into the canonical profile
+     * @param matchedKeys - Identity keys justifying the merge
+     * @param mergedBy - User performing a manual merge, null for automatic merges
+     * @returns Recorded merge
+     */
+    @Span()
+    public async mergeVisitors(
+        canonicalVisitorId: string,
+        mergedVisitorId: string,
+        matchedKeys: IIdentityKey[] = [],
+        mergedBy: string | null = null
+    ): Promise<IVisitorMerge> {
+        if (canonicalVisitorId === mergedVisitorId) {
+            throw createError('Cannot merge a visitor into itself', ErrorCodes.BAD_REQUEST, ErrorTypes.VALIDATION_ERROR);
+        }
+
+        const [canonical, merged] = await Promise.all([
+            this.visitorRepository.findById(canonicalVisitorId),
+            this.visitorRepository.findById(mergedVisitorId)
+        ]);
+
+        if (!canonical || !merged) {
+            throw createError('Visitor not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, {
+                canonicalVisitorId,
+                mergedVisitorId
+            });
+        }
+
+        if (canonical.companyId !== merged.companyId) {
+            throw createError(
+                'Visitors belong to different companies',
+                ErrorCodes.BAD_REQUEST,
+                ErrorTypes.VALIDATION_ERROR
+            );
+        }
+
+        if (canonical.mergedInto || merged.mergedInto) {
+            throw createError('Visitor has already been merged', ErrorCodes.CONFLICT, ErrorTypes.DATA_ERROR, {
+                canonicalVisitorId,
+                mergedVisitorId
+            });
+        }
+
+        const merge = await this.identityGraphRepository.createMerge({
+            id: randomUUID(),
+            companyId: canonical.companyId,
+            canonicalVisitorId: canonical.id,
+            mergedVisitorId: merged.id,
+            matchedKeys,
+            canonicalSnapshot: canonical,
+            mergedSnapshot: merged,
+            movedActivityIds: await this.activityService.getActivityIds(merged.id),
+            status: MERGE_STATUS.PENDING,
+            mergedBy,
+            mergedAt: new Date(),
+            undoneAt: null
+        });
+
+        const applied = new Set<MergeStep>();
+        try {
+            await this.activityService.reassignActivities(merged.id, canonical.id, merge.movedActivityIds);
+            applied.add('activities');
+            await this.visitorRepository.patch(canonical.id, this.combineProfiles(canonical, merged));
+            applied.add('canonical');
+            await this.visitorRepository.patch(merged.id, { mergedInto: canonical.id, isActive: false });
+            applied.add('merged');
+            await this.identityGraphRepository.completeMerge(merge.id);
+        } catch (error: any) {
+            this.logger.error(`Merge ${merge.id} of visitor ${merged.id} failed, rolling back: ${error.message}`);
+            // A failed rollback leaves the merge pending, to be undone like any other merge
+            await this.revertMerge(merge, applied).catch(rollbackError =>
+                this.logger.error(`Rollback of merge ${merge.id} failed: ${rollbackError.message}`)
+            );
+            throw error;
+        }
+
+        this.logger.log(`Merged visitor ${merged.id} into ${canonical.id}`);
+        return { ...merge, status: MERGE_STATUS.COMPLETED };
+    }
+
+    /**
+     * Undoes a merge, restoring the merged visitor and its activities
+     * @param companyId - Company the merge must belong to
+     * @param mergeId - Merge to undo
+     * @returns Canonical profile after the undo
+     */
+    @Span()
+    public async undoMerge(companyId: string, mergeId: string): Promise<IMergedVisitorProfile> {
+        const merge = await this.identityGraphRepository.findMergeById(mergeId);
+        if (!merge || merge.companyId !== companyId) {
+            throw createError('Merge not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, { mergeId });
+        }
+
+        if (merge.undoneAt) {
+            throw createError('Merge has already been undone', ErrorCodes.CONFLICT, ErrorTypes.DATA_ERROR, { mergeId });
+        }
+
+        const canonical = await this.visitorRepository.findById(merge.canonicalVisitorId);
+        if (!canonical) {
+            throw createError('Visitor not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, {
+                visitorId: merge.canonicalVisitorId
+            });
+        }
+
+        if (canonical.mergedInto) {
+            throw createError(
+                'Canonical visitor has since been merged, undo that merge first',
+                ErrorCodes.CONFLICT,
+                ErrorTypes.DATA_ERROR,
+                { mergeId, mergedInto: canonical.mergedInto }
+            );
+        }
+
+        await this.revertMerge(merge, new Set(MERGE_STEPS));
+
+        this.logger.log(`Undid merge ${merge.id} of visitor ${merge.mergedVisitorId}`);
+        return this.getMergedProfile(companyId, canonical.id);
+    }
+
+    /**
+     * Retrieves the canonical profile of a visitor with all linked devices
+     * @param companyId - Company the visitor must belong to
+     * @param visitorId - Any visitor ID belonging to the profile
+     * @returns Canonical profile, devices and merge history
+     */
+    public async getMergedProfile(companyId: string, visitorId: string): Promise<IMergedVisitorProfile> {
+        const visitor = await this.visitorRepository.findById(visitorId);
+        if (!visitor || visitor.companyId !== companyId) {
+            throw createError('Visitor not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, { visitorId });
+        }
+
+        const profile = await this.resolveCanonical(visitor);
+        const linked = await this.collectLinkedVisitors(profile.id);
+        const merges = await this.identityGraphRepository.findActiveMerges(profile.id);
+
+        return {
+            profile,
+            devices: [profile, ...linked].map(record => this.toLinkedDevice(record)),
+            merges
+        };
+    }
+
+    /**
+     * Reverts the applied steps of a merge and marks it undone
+     * @param merge - Merge to revert
+     * @param applied - Steps of the merge that were applied
+     */
+    private async revertMerge(merge: IVisitorMerge, applied: ReadonlySet<MergeStep>): Promise<void> {
+        if (applied.has('activities')) {
+            await this.activityService.reassignActivities(
+                merge.canonicalVisitorId,
+                merge.mergedVisitorId,
+                merge.movedActivityIds
+            );
+        }
+
+        if (applied.has('canonical')) {
+            const canonical = await this.visitorRepository.findById(merge.canonicalVisitorId);
+            if (canonical) {
+                await this.visitorRepository.patch(canonical.id, this.separateProfiles(canonical, merge));
+            }
+        }
+
+        if (applied.has('merged')) {
+            await this.visitorRepository.patch(merge.mergedVisitorId, {
+                mergedInto: null,
+                isActive: merge.mergedSnapshot.isActive
+            });
+        }
+
+        await this.identityGraphRepository.markMergeUndone(merge.id);
+    }
+
+    /**
+     * Follows mergedInto references to the canonical visitor
+     * @param visitor - Visitor to resolve
+     */
+    private async resolveCanonical(visitor: IVisitor): Promise<IVisitor> {
+        let current = visitor;
+
+        for (let depth = 0; current.mergedInto && depth < this.MAX_CHAIN_DEPTH; depth++) {
+            const parent = await this.visitorRepository.findById(current.mergedInto);
+            if (!parent) {
+                this.logger.warn(`Visitor ${current.id} merged into missing visitor ${current.mergedInto}`);
+                break;
+            }
+            current = parent;
+        }
+
+        return current;
+    }
+
+    /**
+     * Collects all visitors merged (directly or transitively) into a canonical visitor
+     * @param canonicalId - Canonical visitor ID
+     */
+    private async collectLinkedVisitors(canonicalId: string, depth = 0): Promise<IVisitor[]> {
+        if (depth >= this.MAX_CHAIN_DEPTH) {
+            return [];
+        }
+
+        const direct = await this.visitorRepository.findMergedInto(canonicalId);
+        const nested = await Promise.all(
+            direct.map(visitor => this.collectLinkedVisitors(visitor.id, depth + 1))
+        );
+
+        return [...direct, ...nested.flat()];
+    }
+
+    /**
+     * Builds the canonical profile update combining two visitor records
+     * @param canonical - Surviving visitor
+     * @param merged - Visitor being folded in
+     */
+    private combineProfiles(canonical: IVisitor, merged: IVisitor): Partial<IVisitor> {
+        const status = VISITOR_STATUS_RANK[merged.status] > VISITOR_STATUS_RANK[canonical.status]
+            ? merged.status
+            : canonical.status;
+
+        return {
+            email: canonical.email || merged.email,
+            name: canonical.name || merged.name,
+            phone: canonical.phone || merged.phone,
+            status,
+            enrichedData: canonical.enrichedData || merged.enrichedData,
+            companyResolution: canonical.companyResolution || merged.companyResolution || null,
+            lastEnriched: canonical.lastEnriched || merged.lastEnriched,
+            visits: canonical.visits + merged.visits,
+            totalTimeSpent: canonical.totalTimeSpent + merged.totalTimeSpent,
+            firstSeen: this.earliest(canonical.firstSeen, merged.firstSeen),
+            lastSeen: this.latest(canonical.lastSeen, merged.lastSeen),
+            isActive: canonical.isActive || merged.isActive,
+            tags: { ...(merged.tags || {}), ...(canonical.tags || {}) }
+        };
+    }
+
+    /**
+     * Builds the canonical profile update removing a merged visitor's contribution
+     * Fields are only reverted when they still hold the value taken from the merged visitor
+     * @param canonical - Current canonical visitor
+     * @param merge - Merge being undone
+     */
+    private separateProfiles(canonical: IVisitor, merge: IVisitorMerge): Partial<IVisitor> {
+        const before = merge.canonicalSnapshot;
+        const merged = merge.mergedSnapshot;
+        const update: Partial<IVisitor> = {
+            visits: Math.max(1, canonical.visits - merged.visits),
+            totalTimeSpent: Math.max(0, canonical.totalTimeSpent - merged.totalTimeSpent),
+            firstSeen: before.firstSeen,
+            lastSeen: new Date(canonical.lastSeen).getTime() > new Date(merged.lastSeen).getTime()
+                ? canonical.lastSeen
+                : before.lastSeen
+        };
+
+        for (const field of RESTORABLE_FIELDS) {
+            if (isEqual(canonical[field], merged[field]) && !isEqual(before[field], merged[field])) {
+                (update as Record<string, unknown>)[field] = before[field] ?? null;
+            }
+        }
+
+        return update;
+    }
+
+    /**
+     * Maps a visitor record to its device description
+     */
+    private toLinkedDevice(visitor: IVisitor): ILinkedDevice {
+        return {
+            visitorId: visitor.id,
+            deviceType: visitor.metadata?.deviceType || 'unknown',
+            browser: visitor.metadata?.browser || 'unknown',
+            os: visitor.metadata?.os || 'unknown',
+            firstSeen: visitor.firstSeen,
+            lastSeen: visitor.lastSeen
+        };
+    }
+
+    /**
+     * Creates a company-scoped hashed identity key
+     */
+    private createKey(companyId: string, type: IDENTITY_KEY_TYPE, value: string, field?: string): IIdentityKey {
+        const hash = createHash('sha256')
+            .update(`${companyId}:${type}:${field || ''}:${value}`)
+            .digest('hex');
+
+        return field ? { type, field, hash } : { type, hash };
+    }
+
+    /**
+     * Removes duplicate keys by hash
+     */
+    private uniqueKeys(keys: IIdentityKey[]): IIdentityKey[] {
+        return Array.from(new Map(keys.map(key => [key.hash, key])).values());
+    }
+
+    private earliest(a: Date, b: Date): Date {
+        return new Date(a).getTime() <= new Date(b).getTime() ? a : b;
+    }
+
+    private latest(a: Date, b: Date): Date {
+        return new Date(a).getTime() >= new Date(b).getTime() ? a : b;
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Service resolving anonymous visitors to companies from their IP address
+ * Matches visitor IPs against a locally loaded IP-range-to-organization dataset (CIDR index)
+ * @version 1.0.0
+ */
+
+import { readFile } from 'fs/promises';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common'; // v9.x
+import { ConfigService } from '@nestjs/config';
+
+import {
+    IVisitor,
+    IEnrichedData,
+    IIpRangeRecord,
+    ICompanyResolution
+} from '../../interfaces/visitor.interface';
+import {
+    IP_RANGE_TYPE,
+    IP_RANGE_TYPE_WEIGHT,
+    COMPANY_RESOLUTION_MIN_CONFIDENCE
+} from '../../constants/visitor.constants';
+import { isValidIPv4, ipv4ToNumber, parseCidr } from '../../utils/ip.util';
+
+/**
+ * Indexed dataset entry with its parsed network address
+ */
+interface IIndexedRange {
+    record: IIpRangeRecord;
+    start: number;
+    prefixLength: number;
+}
+
+/**
+ * Result of a company resolution including the company-level enrichment
+ */
+export interface ICompanyResolutionResult {
+    resolution: ICompanyResolution;
+    enrichedData: IEnrichedData;
+}
+
+/**
+ * Service performing longest-prefix-match lookups of visitor IPs against
+ * an in-memory CIDR index and scoring the confidence of each match
+ */
+@Injectable()
+export class IpResolutionService implements OnModuleInit {
+    private readonly logger = new Logger(IpResolutionService.name);
+    private readonly DEFAULT_RECORD_CONFIDENCE = 0.9;
+
+    /** CIDR index keyed by prefix length, then by network start address */
+    private index: Map<number, Map<number, IIndexedRange>> = new Map();
+    private prefixLengths: number[] = [];
+    private rangeCount = 0;
+
+    constructor(private readonly configService: ConfigService) {}
+
+    /**
+     * Loads the configured IP range dataset on module initialization
+     */
+    public async onModuleInit(): Promise<void> {
+        const datasetPath = this.configService.get<string>('identity.ipRangeDatasetPath');
+        if (!datasetPath) {
+            this.logger.warn('No IP range dataset configured, company resolution disabled');
+            return;
+        }
+
+        await this.loadDatasetFromFile(datasetPath);
+    }
+
+    /**
+     * Loads an IP range dataset from a JSON file containing an array of records
+     * @param filePath - Path to the dataset file
+     * @returns Number of ranges indexed
+     */
+    public async loadDatasetFromFile(filePath: string): Promise<number> {
+        try {
+            const content = await readFile(filePath, 'utf8');
+            const records = JSON.parse(content) as IIpRangeRecord[];
+
+            if (!Array.isArray(records)) {
+                throw new Error('IP range dataset must be a JSON array');
+            }
+
+            return this.loadDataset(records);
+        } catch (error) {
+            this.logger.error(`Failed to load IP range dataset from ${filePath}: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Replaces the CIDR index with the supplied dataset
+     * Invalid entries are skipped and logged
+     * @param records - IP range records to index
+     * @returns Number of ranges indexed
+     */
+    public loadDataset(records: IIpRangeRecord[]): number {
+        const index = new Map<number, Map<number, IIndexedRange>>();
+        let count = 0;
+
+        for (const record of records) {
+            try {
+                const range = parseCidr(record.cidr);
+                if (!index.has(range.prefixLength)) {
+                    index.set(range.prefixLength, new Map());
+                }
+                index.get(range.prefixLength)!.set(range.start, {
+                    record,
+                    start: range.start,
+                    prefixLength: range.prefixLength
+                });
+                count++;
+            } catch (error) {
+                this.logger.warn(`Skipping invalid IP range record ${record.cidr}: ${error.message}`);
+            }
+        }
+
+        this.index = index;
+        this.prefixLengths = Array.from(index.keys()).sort((a, b) => b - a);
+        this.rangeCount = count;
+
+        this.logger.log(`IP range dataset loaded with ${count} ranges`);
+        return count;
+    }
+
+    /**
+     * Number of ranges currently indexed
+     */
+    public get size(): number {
+        return this.rangeCount;
+    }
+
+    /**
+     * Finds the most specific range containing the IP address and scores the match
+     * @param ipAddress - IPv4 address to look up
+     * @returns Resolution with confidence, or null if no range matches
+     */
+    public lookup(ipAddress: string): ICompanyResolution | null {
+        if (!isValidIPv4(ipAddress)) {
+            return null;
+        }
+
+        const value = ipv4ToNumber(ipAddress);
+
+        for (const prefixLength of this.prefixLengths) {
+            const mask = prefixLength === 0 ? 0 : (0xffffffff << (32 - prefixLength)) >>> 0;
+            const match = this.index.get(prefixLength)!.get((value & mask) >>> 0);
+
+            if (match) {
+                return {
+                    organization: match.record.organization,
+                    domain: match.record.domain,
+                    confidence: this.calculateConfidence(match),
+                    matchedRange: match.record.cidr,
+                    rangeType: match.record.type,
+                    resolvedAt: new Date()
+                };
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Resolves the company behind a visitor's IP address
+     * Only matches meeting the minimum confidence are returned
+     * @param visitor - Visitor to resolve
+     * @param ipAddress - Optional IP overriding the one stored in visitor metadata
+     * @returns Resolution and company-level enriched data, or null if unresolved
+     */
+    public resolveCompany(visitor: IVisitor, ipAddress?: string): ICompanyResolutionResult | null {
+        const resolution = this.lookup(ipAddress || visitor.metadata?.ipAddress);
+
+        if (!resolution || resolution.confidence < COMPANY_RESOLUTION_MIN_CONFIDENCE) {
+            this.logger.debug(`No confident company match for visitor ${visitor.id}`);
+            return null;
+        }
+
+        const record = this.findRecord(resolution.matchedRange);
+
+        return {
+            resolution,
+            enrichedData: {
+                company: resolution.organization,
+                title: '',
+                industry: record?.industry || '',
+                size: record?.size || '',
+                revenue: '',
+                website: resolution.domain ? `https://${resolution.domain}` : '',
+                technologies: [],
+                linkedinUrl: '',
+                socialProfiles: {},
+                customFields: {
+                    resolutionSource: 'reverse_ip',
+                    resolutionConfidence: resolution.confidence
+                }
+            }
+        };
+    }
+
+    /**
+     * Scores a match from range ownership type, dataset confidence and range specificity
+     * @param match - Matched range
+     * @returns Confidence between 0 and 1
+     */
+    private calculateConfidence(match: IIndexedRange): number {
+        const typeWeight = IP_RANGE_TYPE_WEIGHT[match.record.type] ?? IP_RANGE_TYPE_WEIGHT[IP_RANGE_TYPE.ISP];
+        const recordConfidence = match.record.confidence ?? this.DEFAULT_RECORD_CONFIDENCE;
+
+        // Narrow ranges are far more likely to belong to a single office
+        let specificity = 0.7;
+        if (match.prefixLength >= 24) {
+            specificity = 1;
+        } else if (match.prefixLength >= 16) {
+            specificity = 0.85;
+        }
+
+        return Math.round(typeWeight * recordConfidence * specificity * 100) / 100;
+    }
+
+    /**
+     * Retrieves the dataset record for a CIDR range
+     * @param cidr - CIDR range to find
+     */
+    private findRecord(cidr: string): IIpRangeRecord | undefined {
+        const range = parseCidr(cidr);
+        return this.index.get(range.prefixLength)?.get(range.start)?.record;
+    }
+}
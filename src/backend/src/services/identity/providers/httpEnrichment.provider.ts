@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Enrichment provider plugin for HTTP enrichment APIs configured in enrichment.providers
+ * Queries the provider's /enrich endpoint and normalizes its response into enriched data fields
+ * @version 1.0.0
+ */
+
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+
+import { IEnrichedData } from '../../../interfaces/visitor.interface';
+import {
+  IEnrichmentProvider,
+  IEnrichmentQuery,
+  IProviderHealth,
+  EnrichableField
+} from '../../../interfaces/enrichment.interface';
+import { ENRICHABLE_FIELDS } from '../../../constants/enrichment.constants';
+
+/**
+ * Configuration of an HTTP enrichment provider
+ */
+export interface IHttpEnrichmentProviderConfig {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  priority: number;
+  timeout: number;
+  /** Cost of a single call in USD, defaults to 0 */
+  costPerCall?: number;
+  /** Fields the provider supplies, defaults to all enrichable fields */
+  fieldCoverage?: EnrichableField[];
+}
+
+/**
+ * Enrichment provider calling a third-party HTTP API with retries
+ */
+export class HttpEnrichmentProvider implements IEnrichmentProvider {
+  public readonly name: string;
+  public readonly costPerCall: number;
+  public readonly fieldCoverage: EnrichableField[];
+  public readonly priority: number;
+
+  private readonly maxRetries = 3;
+  private readonly retryDelay = 1000; // milliseconds
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly config: IHttpEnrichmentProviderConfig
+  ) {
+    this.name = config.name;
+    this.costPerCall = config.costPerCall ?? 0;
+    this.fieldCoverage = config.fieldCoverage ?? [...ENRICHABLE_FIELDS];
+    this.priority = config.priority;
+  }
+
+  /**
+   * Queries the provider for the visitor email and normalizes the response
+   * @param query - Enrichment lookup
+   * @returns Normalized enriched data, or null when the provider has no match
+   */
+  public async enrich(query: IEnrichmentQuery): Promise<Partial<IEnrichedData> | null> {
+    const data = await this.queryWithRetry(query.email);
+    if (!data || typeof data !== 'object') {
+      return null;
+    }
+
+    return this.normalizeEnrichedData(data);
+  }
+
+  /**
+   * Checks the provider's /health endpoint
+   * @returns Provider health status
+   */
+  public async checkHealth(): Promise<IProviderHealth> {
+    const startTime = Date.now();
+    try {
+      await firstValueFrom(
+        this.httpService.get(`${this.config.baseUrl}/health`, {
+          headers: { 'Authorization': `Bearer ${this.config.apiKey}` },
+          timeout: this.config.timeout
+        })
+      );
+      return {
+        provider: this.name,
+        healthy: true,
+        latencyMs: Date.now() - startTime,
+        checkedAt: new Date()
+      };
+    } catch (error) {
+      return {
+        provider: this.name,
+        healthy: false,
+        latencyMs: Date.now() - startTime,
+        message: error.message,
+        checkedAt: new Date()
+      };
+    }
+  }
+
+  /**
+   * Queries the provider with retry mechanism
+   * @param email - Email to query
+   * @returns Promise resolving to provider-specific response
+   */
+  private async queryWithRetry(email: string, attempt = 1): Promise<any> {
+    try {
+      const response = await firstValueFrom(
+        this.httpService.get(`${this.config.baseUrl}/enrich`, {
+          params: { email },
+          headers: {
+            'Authorization': `Bearer ${this.config.apiKey}`,
+            'Content-Type': 'application/json'
+          },
+          timeout: this.config.timeout
+        })
+      );
+      return response.data;
+    } catch (error) {
+      if (attempt < this.maxRetries) {
+        await new Promise(resolve => setTimeout(resolve, this.retryDelay * attempt));
+        return this.queryWithRetry(email, attempt + 1);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Normalizes a provider response into standard enriched data fields
+   * @param data - Raw provider response
+   * @returns Normalized enriched data structure
+   */
+  private normalizeEnrichedData(data: any): Partial<IEnrichedData> {
+    return {
+      company: data.company_name || data.organization || '',
+      title: data.job_title || data.position || '',
+      industry: data.industry || '',
+      size: data.company_size || data.employees || '',
+      revenue: data.annual_revenue || '',
+      website: data.company_website || data.domain || '',
+      technologies: Array.isArray(data.technologies) ? data.technologies : [],
+      linkedinUrl: data.linkedin_company_url || '',
+      socialProfiles: this.normalizeSocialProfiles(data),
+      customFields: this.extractCustomFields(data)
+    };
+  }
+
+  /**
+   * Normalizes social profile URLs from provider data
+   * @param data - Raw provider data
+   * @returns Normalized social profile URLs
+   */
+  private normalizeSocialProfiles(data: any): Record<string, string> {
+    return Object.entries(data)
+      .filter(([key, value]) => key.endsWith('_url') && key !== 'linkedin_company_url' &&
+        typeof value === 'string' && value !== '')
+      .reduce((acc, [key, value]) => ({
+        ...acc,
+        [key.replace('_url', '')]: value as string
+      }), {});
+  }
+
+  /**
+   * Extracts additional custom fields from provider data
+   * @param data - Raw provider data
+   * @returns Custom fields object
+   */
+  private extractCustomFields(data: any): Record<string, any> {
+    const standardFields = new Set([
+      'company_name', 'organization', 'job_title', 'position', 'industry', 'company_size',
+      'employees', 'annual_revenue', 'company_website', 'domain', 'technologies',
+      'linkedin_company_url'
+    ]);
+
+    return Object.entries(data)
+      .filter(([key]) => !standardFields.has(key) && !key.endsWith('_url'))
+      .reduce((acc, [key, value]) => ({ ...acc, [key]: value }), {});
+  }
+}
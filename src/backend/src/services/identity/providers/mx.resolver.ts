@@ -0,0 +1,55 @@
+/**
+ * @fileoverview MX resolvers used by email verification
+ * The DNS resolver queries live records; the static resolver serves a fixed domain list for local development
+ * @version 1.0.0
+ */
+
+import { promises as dns } from 'dns';
+
+import { IMxResolver } from '../../../interfaces/verification.interface';
+
+/**
+ * DNS error codes meaning the domain has no mail exchangers
+ */
+const NO_RECORD_CODES = new Set(['ENODATA', 'ENOTFOUND', 'NXDOMAIN']);
+
+/**
+ * MX resolver querying DNS
+ */
+export class DnsMxResolver implements IMxResolver {
+  public readonly name = 'dns';
+
+  public async resolveMx(domain: string): Promise<string[]> {
+    try {
+      const records = await dns.resolveMx(domain);
+      return records
+        .sort((a, b) => a.priority - b.priority)
+        .map(record => record.exchange);
+    } catch (error) {
+      if (NO_RECORD_CODES.has(error.code)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * MX resolver answering from a fixed list of domains, for local development and tests
+ */
+export class StaticMxResolver implements IMxResolver {
+  public readonly name = 'static';
+
+  private readonly domains: Set<string>;
+
+  /**
+   * @param domains - Domains reported as having MX records
+   */
+  constructor(domains: string[] = []) {
+    this.domains = new Set(domains.map(domain => domain.toLowerCase()));
+  }
+
+  public async resolveMx(domain: string): Promise<string[]> {
+    return this.domains.has(domain.toLowerCase()) ? [`mx.${domain.toLowerCase()}`] : [];
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Service verifying identification payloads signed by customers' own backends
+ * Tokens are base64url(JSON payload) + "." + base64url(HMAC-SHA256) keyed with the company identity secret
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import { ISignedIdentityPayload } from '../../interfaces/visitor.interface';
+import {
+    SIGNED_IDENTITY_MAX_AGE_SECONDS,
+    SIGNED_IDENTITY_CLOCK_SKEW_SECONDS
+} from '../../constants/visitor.constants';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { createHmacSignature, verifyHmacSignature } from '../../utils/crypto.util';
+import { createError } from '../../utils/error.util';
+
+/**
+ * Service signing and verifying first-party identity tokens
+ */
+@Injectable()
+export class SignedIdentityService {
+    private readonly logger = new Logger(SignedIdentityService.name);
+
+    constructor(private readonly companyRepository: CompanyRepository) {}
+
+    /**
+     * Verifies a signed identity token against the company identity secret
+     * @param companyId - Company the token must be signed for
+     * @param visitorId - Visitor the token must be issued for
+     * @param token - Signed token
+     * @returns Verified payload
+     * @throws AppError when the token is malformed, forged, expired or issued for another visitor
+     */
+    public async verifyToken(companyId: string, visitorId: string, token: string): Promise<ISignedIdentityPayload> {
+        const [encodedPayload, signature, ...rest] = (token || '').split('.');
+        if (!encodedPayload || !signature || rest.length > 0) {
+            throw this.invalidToken(companyId, 'Malformed signed identity token');
+        }
+
+        const secret = await this.companyRepository.getIdentitySecret(companyId);
+        if (!secret) {
+            throw this.invalidToken(companyId, 'Signed identification is not enabled for this company');
+        }
+
+        if (!verifyHmacSignature(encodedPayload, signature, secret)) {
+            throw this.invalidToken(companyId, 'Invalid signed identity token signature');
+        }
+
+        let payload: ISignedIdentityPayload;
+        try {
+            payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+        } catch {
+            throw this.invalidToken(companyId, 'Malformed signed identity token');
+        }
+
+        if (!payload || typeof payload.userId !== 'string' || !payload.userId) {
+            throw this.invalidToken(companyId, 'Signed identity token must contain a userId');
+        }
+
+        if (payload.visitorId !== visitorId) {
+            throw this.invalidToken(companyId, 'Signed identity token was issued for another visitor');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (typeof payload.iat !== 'number' ||
+            payload.iat > now + SIGNED_IDENTITY_CLOCK_SKEW_SECONDS ||
+            payload.iat < now - SIGNED_IDENTITY_MAX_AGE_SECONDS) {
+            throw this.invalidToken(companyId, 'Signed identity token expired');
+        }
+
+        return payload;
+    }
+
+    /**
+     * Signs a payload the way customers' backends do, e.g. for SDKs and tests
+     * @param payload - Payload to sign
+     * @param secret - Company identity secret
+     * @returns Signed token
+     */
+    public signPayload(payload: ISignedIdentityPayload, secret: string): string {
+        const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+        return `${encodedPayload}.${createHmacSignature(encodedPayload, secret)}`;
+    }
+
+    /**
+     * Builds the error returned for rejected tokens, logging the reason
+     */
+    private invalidToken(companyId: string, message: string): Error {
+        this.logger.warn(`Rejected signed identity token for company ${companyId}: ${message}`);
+        return createError(message, ErrorCodes.UNAUTHORIZED, ErrorTypes.AUTHENTICATION_ERROR, { companyId });
+    }
+}
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Service verifying the email and phone supplied during identification
+ * Classifies emails, checks domain MX records, normalizes phones to E.164 and
+ * produces a verdict under the company's verification settings
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common'; // v9.x
+import { ConfigService } from '@nestjs/config';
+
+import { IIdentificationData, IVisitorLocation } from '../../interfaces/visitor.interface';
+import {
+    IMxResolver,
+    IVerificationSettings,
+    IEmailVerification,
+    IPhoneVerification,
+    IVerificationVerdict
+} from '../../interfaces/verification.interface';
+import {
+    EMAIL_TYPE,
+    VERIFICATION_STATUS,
+    VERIFICATION_REASON,
+    NON_CORPORATE_POLICY,
+    NON_CORPORATE_REASONS,
+    UNDELIVERABLE_REASONS,
+    DEFAULT_VERIFICATION_SETTINGS,
+    WEBMAIL_DOMAINS,
+    DISPOSABLE_EMAIL_DOMAINS,
+    ROLE_ACCOUNT_PREFIXES,
+    EMAIL_DOMAIN_TYPOS,
+    COUNTRY_CALLING_CODES,
+    E164_PATTERN,
+    MX_LOOKUP_TIMEOUT_MS
+} from '../../constants/verification.constants';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { DnsMxResolver, StaticMxResolver } from './providers/mx.resolver';
+
+/**
+ * Service producing verification verdicts for identifications
+ */
+@Injectable()
+export class VerificationService implements OnModuleInit {
+    private readonly logger = new Logger(VerificationService.name);
+    private mxResolver: IMxResolver = new DnsMxResolver();
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly companyRepository: CompanyRepository
+    ) {}
+
+    /**
+     * Selects the configured MX resolver on module initialization
+     * identity.mxResolver = 'static' serves identity.staticMxDomains instead of querying DNS
+     */
+    public onModuleInit(): void {
+        if (this.configService.get<string>('identity.mxResolver') === 'static') {
+            this.setMxResolver(new StaticMxResolver(
+                this.configService.get<string[]>('identity.staticMxDomains') || []
+            ));
+        }
+    }
+
+    /**
+     * Replaces the MX resolver
+     * @param resolver - Resolver to use for subsequent lookups
+     */
+    public setMxResolver(resolver: IMxResolver): void {
+        this.mxResolver = resolver;
+        this.logger.log(`Using ${resolver.name} MX resolver for email verification`);
+    }
+
+    /**
+     * Verifies the email and phone of an identification under the company's settings
+     * @param companyId - Company the visitor belongs to
+     * @param data - Identification data supplied by the visitor
+     * @param location - Visitor location used to infer the phone country
+     * @returns Verification verdict
+     */
+    public async verifyIdentification(
+        companyId: string,
+        data: IIdentificationData,
+        location?: IVisitorLocation | null
+    ): Promise<IVerificationVerdict> {
+        const settings = await this.getSettings(companyId);
+        const reasons: VERIFICATION_REASON[] = [];
+        const verdict: Partial<IVerificationVerdict> = {};
+
+        if (data.email) {
+            verdict.email = await this.verifyEmail(data.email, settings.checkMx);
+            reasons.push(...this.getEmailReasons(verdict.email));
+        }
+
+        if (data.phone) {
+            verdict.phone = this.normalizePhone(data.phone, location?.country);
+            if (!verdict.phone.e164) {
+                reasons.push(verdict.phone.inferredCountry || /^\s*(\+|00)/.test(data.phone)
+                    ? VERIFICATION_REASON.INVALID_PHONE
+                    : VERIFICATION_REASON.PHONE_COUNTRY_UNKNOWN);
+            }
+        }
+
+        return {
+            ...verdict,
+            status: this.resolveStatus(reasons, settings),
+            reasons,
+            verifiedAt: new Date()
+        };
+    }
+
+    /**
+     * Classifies an email address and checks its domain
+     * @param email - Address to verify
+     * @param checkMx - Whether to look up the domain's MX records
+     * @returns Email verification result
+     */
+    public async verifyEmail(email: string, checkMx: boolean = true): Promise<IEmailVerification> {
+        const address = email.trim().toLowerCase();
+        const separator = address.lastIndexOf('@');
+        const localPart = address.slice(0, separator);
+        const domain = address.slice(separator + 1);
+
+        const result: IEmailVerification = {
+            address,
+            domain,
+            type: this.classifyEmail(localPart, domain),
+            hasMx: checkMx ? await this.lookupMx(domain) : null
+        };
+
+        if (EMAIL_DOMAIN_TYPOS[domain]) {
+            result.suggestedDomain = EMAIL_DOMAIN_TYPOS[domain];
+        }
+
+        return result;
+    }
+
+    /**
+     * Normalizes a phone number to E.164
+     * National numbers take the calling code of the visitor's country
+     * @param phone - Number as supplied
+     * @param country - ISO 3166-1 alpha-2 country of the visitor
+     * @returns Phone verification result
+     */
+    public normalizePhone(phone: string, country?: string | null): IPhoneVerification {
+        const digits = phone.replace(/\D/g, '');
+        const trimmed = phone.trim();
+
+        if (trimmed.startsWith('+') || digits.startsWith('00')) {
+            const international = `+${trimmed.startsWith('+') ? digits : digits.slice(2)}`;
+            return {
+                original: phone,
+                e164: E164_PATTERN.test(international) ? international : null,
+                inferredCountry: null
+            };
+        }
+
+        const countryCode = country?.trim().toUpperCase() || '';
+        const dialing = COUNTRY_CALLING_CODES[countryCode];
+        if (!dialing) {
+            return { original: phone, e164: null, inferredCountry: null };
+        }
+
+        const national = dialing.trunkPrefix && digits.startsWith(dialing.trunkPrefix)
+            ? digits.slice(dialing.trunkPrefix.length)
+            : digits;
+        const e164 = `+${dialing.callingCode}${national}`;
+
+        return {
+            original: phone,
+            e164: E164_PATTERN.test(e164) ? e164 : null,
+            inferredCountry: countryCode
+        };
+    }
+
+    /**
+     * Loads the company's verification settings merged over the defaults
+     */
+    private async getSettings(companyId: string): Promise<IVerificationSettings> {
+        const company = await this.companyRepository.findById(companyId);
+        return {
+            ...DEFAULT_VERIFICATION_SETTINGS,
+            ...company?.settings?.identityVerification
+        };
+    }
+
+    /**
+     * Classifies the mailbox of an address, disposable taking precedence over free and role
+     */
+    private classifyEmail(localPart: string, domain: string): EMAIL_TYPE {
+        if (DISPOSABLE_EMAIL_DOMAINS.has(domain)) {
+            return EMAIL_TYPE.DISPOSABLE;
+        }
+        if (WEBMAIL_DOMAINS.has(domain)) {
+            return EMAIL_TYPE.FREE_WEBMAIL;
+        }
+        if (ROLE_ACCOUNT_PREFIXES.has(localPart.split('+')[0])) {
+            return EMAIL_TYPE.ROLE;
+        }
+        return EMAIL_TYPE.CORPORATE;
+    }
+
+    /**
+     * Looks up whether a domain has MX records
+     * @returns Null when the lookup fails or times out
+     */
+    private async lookupMx(domain: string): Promise<boolean | null> {
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new Error('MX lookup timed out')), MX_LOOKUP_TIMEOUT_MS);
+        });
+
+        try {
+            const hosts = await Promise.race([this.mxResolver.resolveMx(domain), timeout]);
+            return hosts.length > 0;
+        } catch (error) {
+            this.logger.warn(`MX lookup for ${domain} inconclusive: ${error.message}`);
+            return null;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Lists the failed checks of an email verification
+     */
+    private getEmailReasons(email: IEmailVerification): VERIFICATION_REASON[] {
+        const reasons: VERIFICATION_REASON[] = [];
+
+        switch (email.type) {
+            case EMAIL_TYPE.DISPOSABLE:
+                reasons.push(VERIFICATION_REASON.DISPOSABLE_EMAIL);
+                break;
+            case EMAIL_TYPE.FREE_WEBMAIL:
+                reasons.push(VERIFICATION_REASON.FREE_WEBMAIL);
+                break;
+            case EMAIL_TYPE.ROLE:
+                reasons.push(VERIFICATION_REASON.ROLE_ACCOUNT);
+                break;
+        }
+
+        if (email.suggestedDomain) {
+            reasons.push(VERIFICATION_REASON.LIKELY_TYPO);
+        }
+        if (email.hasMx === false) {
+            reasons.push(VERIFICATION_REASON.NO_MX_RECORDS);
+        }
+
+        return reasons;
+    }
+
+    /**
+     * Derives the verdict status from the failed checks and the company's settings
+     */
+    private resolveStatus(reasons: VERIFICATION_REASON[], settings: IVerificationSettings): VERIFICATION_STATUS {
+        const nonCorporate = reasons.some(reason => NON_CORPORATE_REASONS.includes(reason));
+        const undeliverable = reasons.some(reason => UNDELIVERABLE_REASONS.includes(reason));
+
+        if ((nonCorporate && settings.nonCorporatePolicy === NON_CORPORATE_POLICY.REJECT) ||
+            (undeliverable && settings.rejectUndeliverable)) {
+            return VERIFICATION_STATUS.REJECTED;
+        }
+
+        const flagged = undeliverable ||
+            reasons.includes(VERIFICATION_REASON.PHONE_COUNTRY_UNKNOWN) ||
+            (nonCorporate && settings.nonCorporatePolicy === NON_CORPORATE_POLICY.FLAG);
+
+        return flagged ? VERIFICATION_STATUS.FLAGGED : VERIFICATION_STATUS.VERIFIED;
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Base class of the CRM connector adapters
+ * Implements the OAuth refresh shared by every supported CRM and upserts records by
+ * updating the record a previous sync wrote, or matching visitors on email or account
+ * domain before creating them; each CRM reads back
+ * the owner and open opportunity of records in its own way
+ * @version 1.0.0
+ */
+
+import { AxiosInstance } from 'axios'; // v1.4.x
+
+import {
+  ICrmConnector,
+  ICrmObjectDescription,
+  ICrmRelationship,
+  ICrmSyncRecord,
+  ICrmUpsertResult,
+  IIntegrationCredentials
+} from '../../../interfaces/integration.interface';
+import {
+  CRM_TYPES,
+  CRM_OBJECT,
+  CRM_OBJECT_NAMES,
+  DEFAULT_CRM_TOKEN_TTL_SECONDS
+} from '../../../constants/integration.constants';
+
+/**
+ * Connector adapter implementing the parts every CRM shares
+ */
+export abstract class CrmConnector implements ICrmConnector {
+  public abstract readonly type: CRM_TYPES;
+
+  /**
+   * @param http - HTTP client used for every CRM call
+   * @param tokenUrl - OAuth token endpoint of the CRM
+   */
+  constructor(
+    protected readonly http: AxiosInstance,
+    private readonly tokenUrl: string
+  ) {}
+
+  public abstract describeObject(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT
+  ): Promise<ICrmObjectDescription>;
+
+  public abstract searchByEmail(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    email: string
+  ): Promise<string | null>;
+
+  public abstract searchByDomain(credentials: IIntegrationCredentials, domain: string): Promise<string | null>;
+
+  public abstract fetchRelationship(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string
+  ): Promise<ICrmRelationship>;
+
+  /**
+   * Creates a record from the visitor's fields
+   * @returns ID of the created record
+   */
+  protected abstract createRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    record: ICrmSyncRecord
+  ): Promise<string>;
+
+  /**
+   * Updates an existing record with the visitor's fields
+   */
+  protected abstract updateRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string,
+    record: ICrmSyncRecord
+  ): Promise<void>;
+
+  /**
+   * Exchanges the refresh token for a new access token
+   * Salesforce reports no token lifetime, and Salesforce, Pipedrive and Zoho may move the
+   * account to another instance URL
+   */
+  public async authenticate(credentials: IIntegrationCredentials): Promise<IIntegrationCredentials> {
+    const response = await this.http.post(
+      this.tokenUrl,
+      new URLSearchParams({
+        grant_type: 'refresh_token',
+        client_id: credentials.clientId,
+        client_secret: credentials.clientSecret,
+        refresh_token: credentials.refreshToken
+      }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+
+    const data = response.data;
+    if (!data?.access_token) {
+      throw new Error(`${this.type} token response holds no access token`);
+    }
+
+    return {
+      ...credentials,
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || credentials.refreshToken,
+      tokenExpiry: new Date(Date.now() + (data.expires_in || DEFAULT_CRM_TOKEN_TTL_SECONDS) * 1000),
+      instanceUrl: data.instance_url || data.api_domain || credentials.instanceUrl
+    };
+  }
+
+  /**
+   * Updates the record already written for the visitor, or else the lead or contact with the
+   * visitor's email, or the account with the visitor's domain, creating the record when the
+   * CRM has none
+   */
+  public async upsert(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    record: ICrmSyncRecord
+  ): Promise<ICrmUpsertResult> {
+    if (record.recordId) {
+      try {
+        await this.updateRecord(credentials, object, record.recordId, record);
+        return { id: record.recordId, object, created: false };
+      } catch (error) {
+        // The record was deleted or merged in the CRM since it was written; match again
+        if (error.response?.status !== 404) {
+          throw error;
+        }
+      }
+    }
+
+    let id: string | null;
+    if (object === CRM_OBJECT.ACCOUNT) {
+      if (!record.domain) {
+        throw new Error('Visitor has no account domain');
+      }
+      id = await this.searchByDomain(credentials, record.domain);
+    } else {
+      if (!record.email) {
+        throw new Error('Visitor has no email');
+      }
+      id = await this.searchByEmail(credentials, object, record.email);
+    }
+
+    if (id) {
+      await this.updateRecord(credentials, object, id, record);
+      return { id, object, created: false };
+    }
+
+    return { id: await this.createRecord(credentials, object, record), object, created: true };
+  }
+
+  /**
+   * Native name of a CRM object
+   */
+  protected objectName(object: CRM_OBJECT): string {
+    return CRM_OBJECT_NAMES[this.type][object];
+  }
+
+  /**
+   * Mapped fields with a value; unset visitor fields never clear CRM fields
+   */
+  protected mappedFields(record: ICrmSyncRecord): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(record.fields).filter(([, value]) => value !== null && value !== undefined)
+    );
+  }
+
+  /**
+   * Authorization header of CRM calls
+   */
+  protected authHeaders(credentials: IIntegrationCredentials): Record<string, string> {
+    return { 'Authorization': `Bearer ${credentials.accessToken}` };
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * @fileoverview HubSpot connector adapter
+ * Writes contacts and companies through the HubSpot CRM objects API; HubSpot has no
+ * separate lead records, so leads are created as contacts in the lead lifecycle stage
+ * @version 1.0.0
+ */
+
+import { AxiosInstance } from 'axios'; // v1.4.x
+
+import { CrmConnector } from './crmConnector.base';
+import {
+  ICrmObjectDescription,
+  ICrmRelationship,
+  ICrmSyncRecord,
+  IIntegrationCredentials
+} from '../../../interfaces/integration.interface';
+import {
+  CRM_TYPES,
+  CRM_OBJECT,
+  CRM_API_ENDPOINTS,
+  CRM_API_VERSIONS
+} from '../../../constants/integration.constants';
+
+/**
+ * Connector adapter for HubSpot
+ */
+export class HubSpotConnector extends CrmConnector {
+  public readonly type = CRM_TYPES.HUBSPOT;
+
+  constructor(http: AxiosInstance, tokenUrl: string = CRM_API_ENDPOINTS.HUBSPOT) {
+    super(http, tokenUrl);
+  }
+
+  public async describeObject(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT
+  ): Promise<ICrmObjectDescription> {
+    const response = await this.http.get(
+      `${this.baseUrl(credentials)}/properties/${this.objectName(object)}`,
+      { headers: this.authHeaders(credentials) }
+    );
+
+    return {
+      object,
+      name: this.objectName(object),
+      fields: response.data.results
+        .filter((property: any) => !property.modificationMetadata?.readOnlyValue)
+        .map((property: any) => ({
+          name: property.name,
+          label: property.label,
+          type: property.type,
+          required: false
+        }))
+    };
+  }
+
+  public searchByEmail(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    email: string
+  ): Promise<string | null> {
+    return this.findId(credentials, object, 'email', email);
+  }
+
+  public searchByDomain(credentials: IIntegrationCredentials, domain: string): Promise<string | null> {
+    return this.findId(credentials, CRM_OBJECT.ACCOUNT, 'domain', domain);
+  }
+
+  /**
+   * Reads the owner and lifecycle stage of a contact or company and the open deal associated
+   * with it closing soonest; HubSpot returns owner and stage IDs, which are resolved to names
+   */
+  public async fetchRelationship(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string
+  ): Promise<ICrmRelationship> {
+    const response = await this.http.get(`${this.baseUrl(credentials)}/objects/${this.objectName(object)}/${id}`, {
+      params: { properties: 'hubspot_owner_id,lifecyclestage', associations: 'deals' },
+      headers: this.authHeaders(credentials)
+    });
+    const { properties, associations } = response.data;
+
+    const ownerId = properties.hubspot_owner_id;
+    const dealIds: string[] = (associations?.deals?.results || []).map((deal: any) => String(deal.id));
+    const deal = dealIds.length > 0 ? await this.findOpenDeal(credentials, dealIds) : null;
+
+    return {
+      owner: ownerId ? await this.ownerName(credentials, ownerId) : null,
+      lifecycleStage: properties.lifecyclestage || null,
+      openOpportunity: deal
+        ? {
+          id: deal.id,
+          name: deal.properties.dealname,
+          amount: deal.properties.amount ? Number(deal.properties.amount) : null
+        }
+        : null,
+      dealStage: deal ? await this.stageLabel(credentials, deal.properties.pipeline, deal.properties.dealstage) : null
+    };
+  }
+
+  protected async createRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    record: ICrmSyncRecord
+  ): Promise<string> {
+    const identity = object === CRM_OBJECT.ACCOUNT
+      ? { domain: record.domain }
+      : { email: record.email, ...(object === CRM_OBJECT.LEAD && { lifecyclestage: 'lead' }) };
+
+    const response = await this.http.post(
+      `${this.baseUrl(credentials)}/objects/${this.objectName(object)}`,
+      { properties: { ...identity, ...this.mappedFields(record) } },
+      { headers: this.authHeaders(credentials) }
+    );
+    return response.data.id;
+  }
+
+  protected async updateRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string,
+    record: ICrmSyncRecord
+  ): Promise<void> {
+    await this.http.patch(
+      `${this.baseUrl(credentials)}/objects/${this.objectName(object)}/${id}`,
+      { properties: this.mappedFields(record) },
+      { headers: this.authHeaders(credentials) }
+    );
+  }
+
+  /**
+   * Searches the object for a record whose property equals a value
+   */
+  private async findId(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    property: string,
+    value: string
+  ): Promise<string | null> {
+    const response = await this.http.post(
+      `${this.baseUrl(credentials)}/objects/${this.objectName(object)}/search`,
+      {
+        filterGroups: [{ filters: [{ propertyName: property, operator: 'EQ', value }] }],
+        properties: [property],
+        limit: 1
+      },
+      { headers: this.authHeaders(credentials) }
+    );
+    return response.data.results?.[0]?.id || null;
+  }
+
+  /**
+   * Reads deals and returns the open one closing soonest
+   */
+  private async findOpenDeal(credentials: IIntegrationCredentials, ids: string[]): Promise<any | null> {
+    const response = await this.http.post(
+      `${this.baseUrl(credentials)}/objects/deals/batch/read`,
+      {
+        properties: ['dealname', 'dealstage', 'pipeline', 'amount', 'closedate', 'hs_is_closed'],
+        inputs: ids.map(id => ({ id }))
+      },
+      { headers: this.authHeaders(credentials) }
+    );
+
+    const open = (response.data.results || [])
+      .filter((deal: any) => deal.properties.hs_is_closed !== 'true')
+      .sort((a: any, b: any) => this.closeTime(a) - this.closeTime(b));
+    return open[0] || null;
+  }
+
+  /**
+   * Close date of a deal in milliseconds, deals without one sorting last
+   */
+  private closeTime(deal: any): number {
+    return deal.properties.closedate ? Date.parse(deal.properties.closedate) : Number.MAX_SAFE_INTEGER;
+  }
+
+  private async ownerName(credentials: IIntegrationCredentials, ownerId: string): Promise<string | null> {
+    const response = await this.http.get(`${this.baseUrl(credentials)}/owners/${ownerId}`, {
+      headers: this.authHeaders(credentials)
+    });
+    const { firstName, lastName, email } = response.data;
+    return [firstName, lastName].filter(Boolean).join(' ') || email || null;
+  }
+
+  private async stageLabel(
+    credentials: IIntegrationCredentials,
+    pipelineId: string,
+    stageId: string
+  ): Promise<string | null> {
+    const response = await this.http.get(
+      `${this.baseUrl(credentials)}/pipelines/deals/${pipelineId}/stages/${stageId}`,
+      { headers: this.authHeaders(credentials) }
+    );
+    return response.data.label || stageId;
+  }
+
+  private baseUrl(credentials: IIntegrationCredentials): string {
+    return `${credentials.instanceUrl}/crm/${CRM_API_VERSIONS.HUBSPOT}`;
+  }
+}
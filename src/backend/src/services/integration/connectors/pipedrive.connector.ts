@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Pipedrive connector adapter
+ * Writes persons and organizations through the Pipedrive API; Pipedrive leads are deals
+ * in waiting rather than people, so leads and contacts are both written as persons
+ * @version 1.0.0
+ */
+
+import { AxiosInstance } from 'axios'; // v1.4.x
+
+import { CrmConnector } from './crmConnector.base';
+import {
+  ICrmObjectDescription,
+  ICrmRelationship,
+  ICrmSyncRecord,
+  IIntegrationCredentials
+} from '../../../interfaces/integration.interface';
+import {
+  CRM_TYPES,
+  CRM_OBJECT,
+  CRM_API_ENDPOINTS,
+  CRM_API_VERSIONS
+} from '../../../constants/integration.constants';
+
+/**
+ * Connector adapter for Pipedrive
+ */
+export class PipedriveConnector extends CrmConnector {
+  public readonly type = CRM_TYPES.PIPEDRIVE;
+
+  constructor(http: AxiosInstance, tokenUrl: string = CRM_API_ENDPOINTS.PIPEDRIVE) {
+    super(http, tokenUrl);
+  }
+
+  public async describeObject(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT
+  ): Promise<ICrmObjectDescription> {
+    const fieldsResource = object === CRM_OBJECT.ACCOUNT ? 'organizationFields' : 'personFields';
+    const response = await this.http.get(`${this.baseUrl(credentials)}/${fieldsResource}`, {
+      headers: this.authHeaders(credentials)
+    });
+
+    return {
+      object,
+      name: this.objectName(object),
+      fields: response.data.data.map((field: any) => ({
+        name: field.key,
+        label: field.name,
+        type: field.field_type,
+        required: field.mandatory_flag === true
+      }))
+    };
+  }
+
+  public searchByEmail(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    email: string
+  ): Promise<string | null> {
+    return this.findId(credentials, object, { term: email, fields: 'email', exact_match: true });
+  }
+
+  /**
+   * Finds the organization whose name, address or custom fields hold the domain
+   */
+  public searchByDomain(credentials: IIntegrationCredentials, domain: string): Promise<string | null> {
+    return this.findId(credentials, CRM_OBJECT.ACCOUNT, { term: domain });
+  }
+
+  /**
+   * Reads the owner of a person or organization and its open deal closing soonest; Pipedrive
+   * tracks no lifecycle stage on people or organizations, only on their deals
+   */
+  public async fetchRelationship(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string
+  ): Promise<ICrmRelationship> {
+    const resource = `${this.baseUrl(credentials)}/${this.objectName(object)}/${id}`;
+    const record = await this.http.get(resource, { headers: this.authHeaders(credentials) });
+    const deals = await this.http.get(`${resource}/deals`, {
+      params: { status: 'open', sort: 'expected_close_date ASC', limit: 1 },
+      headers: this.authHeaders(credentials)
+    });
+
+    const deal = deals.data.data?.[0];
+    const stage = deal
+      ? await this.http.get(`${this.baseUrl(credentials)}/stages/${deal.stage_id}`, {
+        headers: this.authHeaders(credentials)
+      })
+      : null;
+
+    return {
+      owner: record.data.data.owner_id?.name || null,
+      lifecycleStage: null,
+      openOpportunity: deal ? { id: String(deal.id), name: deal.title, amount: deal.value ?? null } : null,
+      dealStage: stage?.data.data.name || null
+    };
+  }
+
+  /**
+   * Creates the record, naming persons after their email and organizations after their
+   * domain when no name is mapped, as Pipedrive requires one
+   */
+  protected async createRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    record: ICrmSyncRecord
+  ): Promise<string> {
+    const identity = object === CRM_OBJECT.ACCOUNT
+      ? { name: record.domain }
+      : { name: record.email, email: [{ value: record.email, primary: true, label: 'work' }] };
+
+    const response = await this.http.post(
+      `${this.baseUrl(credentials)}/${this.objectName(object)}`,
+      { ...identity, ...this.mappedFields(record) },
+      { headers: this.authHeaders(credentials) }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Record not created');
+    }
+    return String(response.data.data.id);
+  }
+
+  protected async updateRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string,
+    record: ICrmSyncRecord
+  ): Promise<void> {
+    await this.http.put(
+      `${this.baseUrl(credentials)}/${this.objectName(object)}/${id}`,
+      this.mappedFields(record),
+      { headers: this.authHeaders(credentials) }
+    );
+  }
+
+  /**
+   * Runs a search on persons or organizations and returns the best match
+   */
+  private async findId(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    params: Record<string, unknown>
+  ): Promise<string | null> {
+    const response = await this.http.get(`${this.baseUrl(credentials)}/${this.objectName(object)}/search`, {
+      params: { ...params, limit: 1 },
+      headers: this.authHeaders(credentials)
+    });
+    const id = response.data.data?.items?.[0]?.item?.id;
+    return id ? String(id) : null;
+  }
+
+  private baseUrl(credentials: IIntegrationCredentials): string {
+    return `${credentials.instanceUrl}/api/${CRM_API_VERSIONS.PIPEDRIVE}`;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * @fileoverview Salesforce connector adapter
+ * Writes leads, contacts and accounts through the Salesforce REST API sObject resources
+ * and matches existing records and reads their owner and open opportunity with SOQL queries
+ * @version 1.0.0
+ */
+
+import { AxiosInstance } from 'axios'; // v1.4.x
+
+import { CrmConnector } from './crmConnector.base';
+import {
+  ICrmObjectDescription,
+  ICrmRelationship,
+  ICrmSyncRecord,
+  IIntegrationCredentials
+} from '../../../interfaces/integration.interface';
+import {
+  CRM_TYPES,
+  CRM_OBJECT,
+  CRM_API_ENDPOINTS,
+  CRM_API_VERSIONS
+} from '../../../constants/integration.constants';
+
+/**
+ * Connector adapter for Salesforce
+ */
+export class SalesforceConnector extends CrmConnector {
+  public readonly type = CRM_TYPES.SALESFORCE;
+
+  constructor(http: AxiosInstance, tokenUrl: string = CRM_API_ENDPOINTS.SALESFORCE) {
+    super(http, tokenUrl);
+  }
+
+  public async describeObject(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT
+  ): Promise<ICrmObjectDescription> {
+    const response = await this.http.get(
+      `${this.baseUrl(credentials)}/sobjects/${this.objectName(object)}/describe`,
+      { headers: this.authHeaders(credentials) }
+    );
+
+    return {
+      object,
+      name: response.data.name,
+      fields: response.data.fields.map((field: any) => ({
+        name: field.name,
+        label: field.label,
+        type: field.type,
+        required: field.createable && !field.nillable && !field.defaultedOnCreate
+      }))
+    };
+  }
+
+  public searchByEmail(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    email: string
+  ): Promise<string | null> {
+    return this.findId(
+      credentials,
+      `SELECT Id FROM ${this.objectName(object)} WHERE Email = '${this.escape(email)}' LIMIT 1`
+    );
+  }
+
+  public searchByDomain(credentials: IIntegrationCredentials, domain: string): Promise<string | null> {
+    return this.findId(
+      credentials,
+      `SELECT Id FROM Account WHERE Website LIKE '%${this.escape(domain)}%' LIMIT 1`
+    );
+  }
+
+  /**
+   * Reads the owner and lead status of leads, or the owner and account type of contacts and
+   * accounts; opportunities belong to accounts, so the open one closing soonest is read from
+   * the contact's account or the account itself
+   */
+  public async fetchRelationship(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string
+  ): Promise<ICrmRelationship> {
+    const fields = {
+      [CRM_OBJECT.LEAD]: 'Owner.Name, Status',
+      [CRM_OBJECT.CONTACT]: 'Owner.Name, AccountId, Account.Type',
+      [CRM_OBJECT.ACCOUNT]: 'Owner.Name, Type'
+    }[object];
+    const record = await this.findFirst(
+      credentials,
+      `SELECT ${fields} FROM ${this.objectName(object)} WHERE Id = '${this.escape(id)}'`
+    );
+    if (!record) {
+      throw new Error(`${this.objectName(object)} ${id} not found`);
+    }
+
+    const accountId = object === CRM_OBJECT.ACCOUNT ? id : record.AccountId;
+    const opportunity = accountId
+      ? await this.findFirst(
+        credentials,
+        'SELECT Id, Name, StageName, Amount FROM Opportunity ' +
+        `WHERE AccountId = '${this.escape(accountId)}' AND IsClosed = false ORDER BY CloseDate ASC LIMIT 1`
+      )
+      : null;
+
+    return {
+      owner: record.Owner?.Name || null,
+      lifecycleStage: (object === CRM_OBJECT.LEAD ? record.Status : record.Type ?? record.Account?.Type) || null,
+      openOpportunity: opportunity
+        ? { id: opportunity.Id, name: opportunity.Name, amount: opportunity.Amount ?? null }
+        : null,
+      dealStage: opportunity?.StageName || null
+    };
+  }
+
+  /**
+   * Creates the record, filling the fields Salesforce requires when they are not mapped:
+   * the last name of leads and contacts, the company of leads and the name of accounts
+   */
+  protected async createRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    record: ICrmSyncRecord
+  ): Promise<string> {
+    const identity = object === CRM_OBJECT.ACCOUNT
+      ? { Name: record.domain, Website: record.domain }
+      : {
+        LastName: record.email,
+        Email: record.email,
+        ...(object === CRM_OBJECT.LEAD && { Company: record.domain || '[not provided]' })
+      };
+
+    const response = await this.http.post(
+      `${this.baseUrl(credentials)}/sobjects/${this.objectName(object)}`,
+      { ...identity, ...this.mappedFields(record) },
+      { headers: this.authHeaders(credentials) }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.errors?.map((error: any) => error.message).join('; ') || 'Record not created');
+    }
+    return response.data.id;
+  }
+
+  protected async updateRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string,
+    record: ICrmSyncRecord
+  ): Promise<void> {
+    await this.http.patch(
+      `${this.baseUrl(credentials)}/sobjects/${this.objectName(object)}/${id}`,
+      this.mappedFields(record),
+      { headers: this.authHeaders(credentials) }
+    );
+  }
+
+  /**
+   * Runs a SOQL query selecting record IDs
+   */
+  private async findId(credentials: IIntegrationCredentials, soql: string): Promise<string | null> {
+    return (await this.findFirst(credentials, soql))?.Id || null;
+  }
+
+  /**
+   * Runs a SOQL query and returns its first record
+   */
+  private async findFirst(credentials: IIntegrationCredentials, soql: string): Promise<any | null> {
+    const response = await this.http.get(`${this.baseUrl(credentials)}/query`, {
+      params: { q: soql },
+      headers: this.authHeaders(credentials)
+    });
+    return response.data.records?.[0] || null;
+  }
+
+  /**
+   * Escapes a value quoted in a SOQL query
+   */
+  private escape(value: string): string {
+    return value.replace(/[\\']/g, match => `\\${match}`);
+  }
+
+  private baseUrl(credentials: IIntegrationCredentials): string {
+    return `${credentials.instanceUrl}/services/data/${CRM_API_VERSIONS.SALESFORCE}`;
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Zoho CRM connector adapter
+ * Writes leads, contacts and accounts through the Zoho CRM module records API and reads
+ * their owner and open deals back through the record and related list APIs
+ * @version 1.0.0
+ */
+
+import { AxiosInstance } from 'axios'; // v1.4.x
+
+import { CrmConnector } from './crmConnector.base';
+import {
+  ICrmObjectDescription,
+  ICrmRelationship,
+  ICrmSyncRecord,
+  IIntegrationCredentials
+} from '../../../interfaces/integration.interface';
+import {
+  CRM_TYPES,
+  CRM_OBJECT,
+  CRM_API_ENDPOINTS,
+  CRM_API_VERSIONS
+} from '../../../constants/integration.constants';
+
+/**
+ * Connector adapter for Zoho CRM
+ */
+export class ZohoConnector extends CrmConnector {
+  public readonly type = CRM_TYPES.ZOHO;
+
+  constructor(http: AxiosInstance, tokenUrl: string = CRM_API_ENDPOINTS.ZOHO) {
+    super(http, tokenUrl);
+  }
+
+  public async describeObject(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT
+  ): Promise<ICrmObjectDescription> {
+    const response = await this.http.get(`${this.baseUrl(credentials)}/settings/fields`, {
+      params: { module: this.objectName(object) },
+      headers: this.authHeaders(credentials)
+    });
+
+    return {
+      object,
+      name: this.objectName(object),
+      fields: response.data.fields.map((field: any) => ({
+        name: field.api_name,
+        label: field.field_label,
+        type: field.data_type,
+        required: field.system_mandatory === true
+      }))
+    };
+  }
+
+  public searchByEmail(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    email: string
+  ): Promise<string | null> {
+    return this.findId(credentials, object, { email });
+  }
+
+  public searchByDomain(credentials: IIntegrationCredentials, domain: string): Promise<string | null> {
+    return this.findId(credentials, CRM_OBJECT.ACCOUNT, {
+      criteria: `(Website:equals:${domain.replace(/[(),:]/g, '\\$&')})`
+    });
+  }
+
+  /**
+   * Reads the owner and lead status of leads, or the owner and account type of accounts, and
+   * the open deal of contacts and accounts closing soonest; Zoho leads have no deals until
+   * they are converted
+   */
+  public async fetchRelationship(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string
+  ): Promise<ICrmRelationship> {
+    const resource = `${this.baseUrl(credentials)}/${this.objectName(object)}/${id}`;
+    const response = await this.http.get(resource, { headers: this.authHeaders(credentials) });
+    const record = response.data?.data?.[0];
+    if (!record) {
+      throw new Error(`${this.objectName(object)} ${id} not found`);
+    }
+
+    let deal: any = null;
+    if (object !== CRM_OBJECT.LEAD) {
+      // The related list answers 204 without a body when the record has no deals
+      const deals = await this.http.get(`${resource}/Deals`, {
+        params: { fields: 'Deal_Name,Stage,Amount,Closing_Date' },
+        headers: this.authHeaders(credentials)
+      });
+      deal = (deals.data?.data || [])
+        .filter((candidate: any) => !String(candidate.Stage || '').startsWith('Closed'))
+        .sort((a: any, b: any) => (a.Closing_Date || '9999-12-31').localeCompare(b.Closing_Date || '9999-12-31'))[0] || null;
+    }
+
+    return {
+      owner: record.Owner?.name || null,
+      lifecycleStage: (object === CRM_OBJECT.LEAD ? record.Lead_Status : record.Account_Type) || null,
+      openOpportunity: deal ? { id: deal.id, name: deal.Deal_Name, amount: deal.Amount ?? null } : null,
+      dealStage: deal?.Stage || null
+    };
+  }
+
+  /**
+   * Creates the record, filling the last name of leads and contacts, the company of leads
+   * and the account name when they are not mapped, as Zoho requires them
+   */
+  protected async createRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    record: ICrmSyncRecord
+  ): Promise<string> {
+    const identity = object === CRM_OBJECT.ACCOUNT
+      ? { Account_Name: record.domain, Website: record.domain }
+      : {
+        Last_Name: record.email,
+        Email: record.email,
+        ...(object === CRM_OBJECT.LEAD && { Company: record.domain || '[not provided]' })
+      };
+
+    const response = await this.http.post(
+      `${this.baseUrl(credentials)}/${this.objectName(object)}`,
+      { data: [{ ...identity, ...this.mappedFields(record) }] },
+      { headers: this.authHeaders(credentials) }
+    );
+
+    const [result] = response.data.data;
+    if (result?.status !== 'success') {
+      throw new Error(result?.message || 'Record not created');
+    }
+    return result.details.id;
+  }
+
+  protected async updateRecord(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    id: string,
+    record: ICrmSyncRecord
+  ): Promise<void> {
+    const response = await this.http.put(
+      `${this.baseUrl(credentials)}/${this.objectName(object)}/${id}`,
+      { data: [this.mappedFields(record)] },
+      { headers: this.authHeaders(credentials) }
+    );
+
+    const [result] = response.data.data;
+    if (result?.status !== 'success') {
+      throw new Error(result?.message || 'Record not updated');
+    }
+  }
+
+  /**
+   * Zoho signs API calls with its own authorization scheme
+   */
+  protected authHeaders(credentials: IIntegrationCredentials): Record<string, string> {
+    return { 'Authorization': `Zoho-oauthtoken ${credentials.accessToken}` };
+  }
+
+  /**
+   * Searches a module; Zoho answers 204 without a body when nothing matches
+   */
+  private async findId(
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    params: Record<string, string>
+  ): Promise<string | null> {
+    const response = await this.http.get(`${this.baseUrl(credentials)}/${this.objectName(object)}/search`, {
+      params,
+      headers: this.authHeaders(credentials)
+    });
+    return response.data?.data?.[0]?.id || null;
+  }
+
+  private baseUrl(credentials: IIntegrationCredentials): string {
+    return `${credentials.instanceUrl}/crm/${CRM_API_VERSIONS.ZOHO}`;
+  }
+}
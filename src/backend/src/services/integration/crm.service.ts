@@ -1,6 +1,7 @@
 /**
  * @fileoverview CRM Service implementation for Identity Matrix platform
- * Handles CRM integration operations with comprehensive security and monitoring
+ * Handles CRM integration operations with comprehensive security and monitoring,
+ * running them through the connector adapter of each CRM type
  * @version 1.0.0
  */
 
@@ -14,21 +15,29 @@ import { v4 as uuidv4 } from 'uuid'; // v9.0.x
 // Internal imports
 import { 
   IIntegrationCredentials, 
-  IFieldMapping, 
-  ISyncResult 
+  ISyncResult,
+  ICrmSyncRecord,
+  ICrmUpsertResult,
+  ICrmConnector,
+  ICrmObjectDescription,
+  ICrmPullResult
 } from '../../interfaces/integration.interface';
 import { 
   CRM_TYPES, 
-  CRM_API_ENDPOINTS, 
-  CRM_API_VERSIONS,
-  MAX_RETRY_ATTEMPTS 
+  CRM_OBJECT,
+  DEFAULT_CRM_SYNC_OBJECT
 } from '../../constants/integration.constants';
+import { SalesforceConnector } from './connectors/salesforce.connector';
+import { HubSpotConnector } from './connectors/hubspot.connector';
+import { PipedriveConnector } from './connectors/pipedrive.connector';
+import { ZohoConnector } from './connectors/zoho.connector';
 
 @injectable()
 export class CRMService {
   private readonly axiosInstance: AxiosInstance;
   private readonly circuitBreakers: Map<string, CircuitBreaker>;
   private readonly rateLimiters: Map<string, RateLimiter>;
+  private readonly connectors: Map<CRM_TYPES, ICrmConnector>;
 
   constructor(
     @inject('Logger') private readonly logger: Logger,
@@ -37,6 +46,7 @@ export class CRMService {
     this.initializeAxios();
     this.initializeCircuitBreakers();
     this.initializeRateLimiters();
+    this.initializeConnectors();
   }
 
   /**
@@ -96,6 +106,30 @@ export class CRMService {
     });
   }
 
+  /**
+   * Initializes the connector adapter of each CRM type
+   */
+  private initializeConnectors(): void {
+    this.connectors = new Map<CRM_TYPES, ICrmConnector>([
+      [CRM_TYPES.SALESFORCE, new SalesforceConnector(this.axiosInstance)],
+      [CRM_TYPES.HUBSPOT, new HubSpotConnector(this.axiosInstance)],
+      [CRM_TYPES.PIPEDRIVE, new PipedriveConnector(this.axiosInstance)],
+      [CRM_TYPES.ZOHO, new ZohoConnector(this.axiosInstance)]
+    ]);
+  }
+
+  /**
+   * Retrieves the connector adapter of a CRM type
+   * @param crmType - Type of CRM platform
+   */
+  private getConnector(crmType: CRM_TYPES): ICrmConnector {
+    const connector = this.connectors.get(crmType);
+    if (!connector) {
+      throw new Error(`Unsupported CRM type ${crmType}`);
+    }
+    return connector;
+  }
+
   /**
    * Validates CRM credentials
    * @param credentials - Integration credentials to validate
@@ -149,22 +183,7 @@ export class CRMService {
           throw new Error('Invalid credentials');
         }
 
-        const response = await this.axiosInstance.post(
-          CRM_API_ENDPOINTS[crmType],
-          {
-            grant_type: 'refresh_token',
-            client_id: credentials.clientId,
-            client_secret: credentials.clientSecret,
-            refresh_token: credentials.refreshToken
-          }
-        );
-
-        return {
-          ...credentials,
-          accessToken: response.data.access_token,
-          refreshToken: response.data.refresh_token || credentials.refreshToken,
-          tokenExpiry: new Date(Date.now() + response.data.expires_in * 1000)
-        };
+        return this.getConnector(crmType).authenticate(credentials);
       });
 
       this.metrics.recordIntegrationSuccess(crmType, 'connect', Date.now() - startTime);
@@ -175,25 +194,57 @@ export class CRMService {
     }
   }
 
+  /**
+   * Lists the fields of a CRM object, e.g. to pick the target fields of field mappings
+   * @param crmType - Type of CRM platform
+   * @param credentials - Integration credentials
+   * @param object - CRM object to describe
+   * @returns Promise<ICrmObjectDescription> - Native object name and fields
+   */
+  public async describeObject(
+    crmType: CRM_TYPES,
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT
+  ): Promise<ICrmObjectDescription> {
+    const startTime = Date.now();
+    try {
+      const updatedCredentials = await this.connectCRM(crmType, credentials);
+      await this.rateLimiters.get(crmType)?.removeTokens(1);
+
+      const description = await this.getConnector(crmType).describeObject(updatedCredentials, object);
+
+      this.metrics.recordIntegrationSuccess(crmType, 'describe', Date.now() - startTime);
+      return description;
+    } catch (error) {
+      this.metrics.recordIntegrationError(crmType, 'describe', Date.now() - startTime);
+      throw this.handleIntegrationError(error, crmType, 'describe');
+    }
+  }
+
   /**
    * Synchronizes data between Identity Matrix and CRM platform
+   * Each visitor is matched to an existing record by email, or by domain for accounts,
+   * and updated or created through the CRM's connector adapter
    * @param crmType - Type of CRM platform
    * @param credentials - Integration credentials
-   * @param fieldMappings - Field mapping configuration
+   * @param object - CRM object visitors are pushed as
+   * @param records - Visitor records to upsert; callers only pass visitors who consented to CRM sync
+   * @param onRecordWritten - Called after each record is written, before the next is pushed
    * @returns Promise<ISyncResult> - Sync operation results
    */
   public async syncData(
     crmType: CRM_TYPES,
     credentials: IIntegrationCredentials,
-    fieldMappings: IFieldMapping[]
+    object: CRM_OBJECT = DEFAULT_CRM_SYNC_OBJECT,
+    records: ICrmSyncRecord[] = [],
+    onRecordWritten?: (record: ICrmSyncRecord, result: ICrmUpsertResult) => Promise<void>
   ): Promise<ISyncResult> {
     const startTime = Date.now();
-    const batchSize = 100;
-    const results = {
+    const results: ISyncResult = {
       success: 0,
       failed: 0,
-      errors: [] as any[],
-      details: {} as Record<string, any>
+      errors: [],
+      details: {}
     };
 
     try {
@@ -206,30 +257,17 @@ export class CRMService {
 
       await circuitBreaker.fire(async () => {
         const updatedCredentials = await this.connectCRM(crmType, credentials);
-        
-        // Process data in batches
-        for (let i = 0; i < fieldMappings.length; i += batchSize) {
-          const batch = fieldMappings.slice(i, i + batchSize);
+        const connector = this.getConnector(crmType);
+
+        for (const record of records) {
           try {
-            const response = await this.axiosInstance.post(
-              `${credentials.instanceUrl}/api/${CRM_API_VERSIONS[crmType]}/sync`,
-              {
-                mappings: batch,
-                options: { upsert: true }
-              },
-              {
-                headers: {
-                  'Authorization': `Bearer ${updatedCredentials.accessToken}`
-                }
-              }
-            );
-
-            results.success += response.data.success.length;
-            results.failed += response.data.errors.length;
-            results.errors.push(...response.data.errors);
-            results.details = { ...results.details, ...response.data.details };
+            await this.rateLimiters.get(crmType)?.removeTokens(1);
+            const result = await connector.upsert(updatedCredentials, object, record);
+            results.details[record.visitorId] = result;
+            results.success++;
+            await onRecordWritten?.(record, result);
           } catch (error) {
-            await this.handleBatchError(error, batch, results);
+            this.handleRecordError(error, record, results);
           }
         }
       });
@@ -242,6 +280,58 @@ export class CRMService {
     }
   }
 
+  /**
+   * Reads the owner, lifecycle stage and open opportunity of CRM records
+   * Records the CRM cannot be read for are reported without failing the others
+   * @param crmType - Type of CRM platform
+   * @param credentials - Integration credentials
+   * @param object - CRM object the records are
+   * @param recordIds - IDs of the CRM records
+   * @returns Promise<ICrmPullResult> - Relationships and errors by record ID
+   */
+  public async pullData(
+    crmType: CRM_TYPES,
+    credentials: IIntegrationCredentials,
+    object: CRM_OBJECT,
+    recordIds: string[]
+  ): Promise<ICrmPullResult> {
+    const startTime = Date.now();
+    const results: ICrmPullResult = {
+      relationships: {},
+      errors: {}
+    };
+
+    try {
+      await this.rateLimiters.get(crmType)?.removeTokens(1);
+
+      const circuitBreaker = this.circuitBreakers.get(crmType);
+      if (!circuitBreaker) {
+        throw new Error('Circuit breaker not initialized');
+      }
+
+      await circuitBreaker.fire(async () => {
+        const updatedCredentials = await this.connectCRM(crmType, credentials);
+        const connector = this.getConnector(crmType);
+
+        for (const recordId of recordIds) {
+          try {
+            await this.rateLimiters.get(crmType)?.removeTokens(1);
+            results.relationships[recordId] = await connector.fetchRelationship(updatedCredentials, object, recordId);
+          } catch (error) {
+            results.errors[recordId] = error.message;
+            this.logger.error('Record pull failed', { recordId, error: error.message });
+          }
+        }
+      });
+
+      this.metrics.recordIntegrationSuccess(crmType, 'pull', Date.now() - startTime);
+      return results;
+    } catch (error) {
+      this.metrics.recordIntegrationError(crmType, 'pull', Date.now() - startTime);
+      throw this.handleIntegrationError(error, crmType, 'pull');
+    }
+  }
+
   /**
    * Handles axios errors with retry logic
    * @param error - Axios error
@@ -282,21 +372,21 @@ export class CRMService {
   }
 
   /**
-   * Handles batch processing errors
+   * Handles a record the CRM refused, so the rest of the sync carries on
    * @param error - Error object
-   * @param batch - Current batch being processed
+   * @param record - Record being upserted
    * @param results - Results accumulator
    */
-  private async handleBatchError(error: any, batch: IFieldMapping[], results: any): Promise<void> {
-    results.failed += batch.length;
+  private handleRecordError(error: any, record: ICrmSyncRecord, results: ISyncResult): void {
+    results.failed++;
     results.errors.push({
-      batch,
-      error: error.message,
+      visitorId: record.visitorId,
+      message: error.message,
       code: error.response?.status
     });
 
-    this.logger.error('Batch processing failed', {
-      batchSize: batch.length,
+    this.logger.error('Record sync failed', {
+      visitorId: record.visitorId,
       error: error.message
     });
   }
@@ -13,11 +13,48 @@ import { MetricsCollector } from '@opentelemetry/metrics'; // ^1.0.x
 import { 
   IIntegration, 
   IIntegrationCreate, 
-  IIntegrationUpdate 
+  IIntegrationUpdate,
+  IFieldMapping,
+  ICrmSyncRecord,
+  ICrmUpsertResult,
+  ICrmObjectDescription,
+  ICrmRecordPreview,
+  ICrmRelationship,
+  ICrmInboundSyncConfig,
+  ISyncResult,
+  ISyncRecordError,
+  ISyncRun,
+  ISyncRunPage,
+  ISyncRunTrigger,
+  ISyncCursor
 } from '../../interfaces/integration.interface';
+import { IVisitor } from '../../interfaces/visitor.interface';
 import { CRMService } from './crm.service';
+import { ConsentService } from '../tracking/consent.service';
 import { IntegrationRepository } from '../../db/repositories/integration.repository';
-import { INTEGRATION_STATUS } from '../../constants/integration.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { IntegrationSyncLogRepository } from '../../db/repositories/integrationSyncLog.repository';
+import { IntegrationSyncKeyRepository } from '../../db/repositories/integrationSyncKey.repository';
+import {
+  CRM_TYPES,
+  CRM_OBJECT,
+  DEFAULT_CRM_SYNC_OBJECT,
+  CRM_INBOUND_FIELD,
+  CRM_CONFLICT_WINNER,
+  DEFAULT_CRM_CONFLICT_WINNER,
+  INTEGRATION_STATUS,
+  SYNC_RUN_STATUS,
+  SYNC_TRIGGER,
+  SYNC_MODE,
+  SYNC_BATCH_SIZE,
+  SYNC_RUN_PAGE_SIZE,
+  ICP_FIT_SOURCE_FIELDS,
+  ICP_FIT_CRM_FIELDS,
+  ICP_REASONS_TRANSFORM
+} from '../../constants/integration.constants';
+import { CONSENT_PURPOSE } from '../../constants/consent.constants';
+import { ACCOUNT_DOMAIN_PATTERN } from '../../constants/account.constants';
+import { applyFieldMapping } from '../../utils/fieldTransform.util';
 
 @injectable()
 export class IntegrationService {
@@ -28,7 +65,11 @@ export class IntegrationService {
     @inject('IntegrationRepository') private readonly integrationRepository: IntegrationRepository,
     @inject('CRMService') private readonly crmService: CRMService,
     @inject('CircuitBreaker') private readonly circuitBreakerFactory: any,
-    @inject('MetricsCollector') private readonly metricsCollector: MetricsCollector
+    @inject('MetricsCollector') private readonly metricsCollector: MetricsCollector,
+    @inject('VisitorRepository') private readonly visitorRepository: VisitorRepository,
+    @inject('ConsentService') private readonly consentService: ConsentService,
+    @inject('IntegrationSyncLogRepository') private readonly syncLogRepository: IntegrationSyncLogRepository,
+    @inject('IntegrationSyncKeyRepository') private readonly syncKeyRepository: IntegrationSyncKeyRepository
   ) {
     this.circuitBreaker = this.initializeCircuitBreaker();
   }
@@ -67,7 +108,11 @@ export class IntegrationService {
       // Create integration record with validated credentials
       const integration = await this.integrationRepository.create({
         ...data,
-        credentials: validatedCredentials
+        credentials: validatedCredentials,
+        config: {
+          ...data.config,
+          fieldMappings: this.withIcpFitMappings(data.type, data.config.fieldMappings)
+        }
       });
 
       this.metricsCollector.record({
@@ -159,6 +204,58 @@ export class IntegrationService {
     }
   }
 
+  /**
+   * Adds the default ICP fit field mappings unless the fields are already mapped
+   * @param type CRM platform type
+   * @param fieldMappings Configured field mappings
+   * @returns Field mappings including the ICP fit tier and match reasons
+   */
+  private withIcpFitMappings(type: CRM_TYPES, fieldMappings: IFieldMapping[]): IFieldMapping[] {
+    const mappedSources = new Set(fieldMappings.map(mapping => mapping.sourceField));
+    const targets = ICP_FIT_CRM_FIELDS[type];
+    const defaults: IFieldMapping[] = [
+      {
+        sourceField: ICP_FIT_SOURCE_FIELDS.TIER,
+        targetField: targets.tier,
+        required: false,
+        validation: {}
+      },
+      {
+        sourceField: ICP_FIT_SOURCE_FIELDS.REASONS,
+        targetField: targets.reasons,
+        transformFunction: ICP_REASONS_TRANSFORM,
+        required: false,
+        validation: {}
+      }
+    ];
+
+    return [
+      ...fieldMappings,
+      ...defaults.filter(mapping => !mappedSources.has(mapping.sourceField))
+    ];
+  }
+
+  /**
+   * Builds the CRM record of a visitor from the integration's field mappings
+   * Source fields are visitor paths such as email, enrichedData.company or icpFit.tier, and
+   * mapping transformations compute values from any visitor fields; the email and account
+   * domain match the visitor to existing CRM records
+   */
+  private toCrmRecord(visitor: IVisitor, fieldMappings: IFieldMapping[]): ICrmSyncRecord {
+    const website = visitor.enrichedData?.website || visitor.companyResolution?.domain || '';
+    const domain = new RegExp(ACCOUNT_DOMAIN_PATTERN).exec(website.trim().toLowerCase());
+
+    return {
+      visitorId: visitor.id,
+      email: visitor.email,
+      domain: domain ? domain[1] : null,
+      fields: Object.fromEntries(fieldMappings.map(mapping => [
+        mapping.targetField,
+        applyFieldMapping(mapping, visitor)
+      ]))
+    };
+  }
+
   /**
    * Retrieves integration details with security validation
    * @param id Integration ID
@@ -186,15 +283,172 @@ export class IntegrationService {
     return this.integrationRepository.findByCompany(companyId);
   }
 
+  /**
+   * Lists the fields of a CRM object of an integration
+   * @param id Integration ID
+   * @param companyId Company ID for security validation
+   * @param object CRM object to describe
+   * @returns Native object name and fields
+   */
+  public async describeCrmObject(
+    id: string,
+    companyId: string,
+    object: CRM_OBJECT
+  ): Promise<ICrmObjectDescription> {
+    const integration = await this.getIntegration(id, companyId);
+    return this.crmService.describeObject(integration.type, integration.credentials, object);
+  }
+
+  /**
+   * Shows how a visitor would be pushed to the CRM under field mappings, without pushing it
+   * @param id Integration ID
+   * @param companyId Company ID for security validation
+   * @param sample Company visitor to preview, or a sample visitor, and field mappings to
+   * preview instead of the integration's saved ones
+   * @returns CRM record the visitor would be pushed as
+   */
+  public async previewFieldMappings(
+    id: string,
+    companyId: string,
+    sample: { visitorId?: string; visitor?: Partial<IVisitor>; fieldMappings?: IFieldMapping[] }
+  ): Promise<ICrmRecordPreview> {
+    const integration = await this.getIntegration(id, companyId);
+
+    let visitor = sample.visitor as IVisitor | undefined;
+    if (sample.visitorId) {
+      const found = await this.visitorRepository.findById(sample.visitorId);
+      if (!found || found.companyId !== companyId) {
+        throw new Error('Visitor not found');
+      }
+      visitor = found;
+    }
+    if (!visitor) {
+      throw new Error('A visitor ID or sample visitor is required');
+    }
+
+    const fieldMappings = sample.fieldMappings || integration.config.fieldMappings;
+    const record = this.toCrmRecord(visitor, fieldMappings);
+
+    return {
+      object: integration.config.syncObject || DEFAULT_CRM_SYNC_OBJECT,
+      email: record.email || null,
+      domain: record.domain || null,
+      fields: record.fields,
+      missingFields: fieldMappings
+        .filter(mapping => mapping.required && (record.fields[mapping.targetField] ?? '') === '')
+        .map(mapping => mapping.targetField)
+    };
+  }
+
   /**
    * Synchronizes integration data with CRM platform
+   * Pushes identified visitors changed since the integration's sync cursor as its CRM object,
+   * in batches that each advance the cursor; visitors without consent to CRM sync are left
+   * out, and the sync fails when the CRM refuses a whole batch so it is pushed again next
+   * time. A full resync pushes every visitor from the start. With inbound sync enabled, the
+   * owner and pipeline state of every visitor linked to a CRM record are pulled back
+   * @param id Integration ID
+   * @param companyId Company ID for security validation
+   * @param trigger What started the sync, the scheduler unless a user did
+   * @param mode Delta sync, or full resync ignoring the sync cursor
+   * @returns Recorded sync run
+   */
+  public async syncIntegration(
+    id: string,
+    companyId: string,
+    trigger: ISyncRunTrigger = { type: SYNC_TRIGGER.SCHEDULER },
+    mode: SYNC_MODE.DELTA | SYNC_MODE.FULL = SYNC_MODE.DELTA
+  ): Promise<ISyncRun> {
+    return this.runSync(id, companyId, trigger, mode, (_, cursor) =>
+      this.visitorRepository.findCrmSyncCandidates(companyId, cursor, SYNC_BATCH_SIZE)
+    );
+  }
+
+  /**
+   * Retrieves a page of an integration's sync history, latest runs first
    * @param id Integration ID
    * @param companyId Company ID for security validation
-   * @returns Sync result
+   * @param page Page number, starting at 1
+   * @param limit Runs per page
+   * @returns Page of sync runs
    */
-  public async syncIntegration(id: string, companyId: string): Promise<void> {
+  public async getSyncRuns(
+    id: string,
+    companyId: string,
+    page: number = 1,
+    limit: number = SYNC_RUN_PAGE_SIZE
+  ): Promise<ISyncRunPage> {
+    await this.getIntegration(id, companyId);
+    return this.syncLogRepository.findByIntegration(id, page, limit);
+  }
+
+  /**
+   * Pushes the visitors a sync run failed on again, as the CRM object of that run
+   * The retry is recorded as a run of its own and leaves the sync cursor untouched, so
+   * visitors changed since are still picked up by the next sync
+   * @param id Integration ID
+   * @param syncId Sync run whose failed records are retried
+   * @param companyId Company ID for security validation
+   * @param userId User retrying the records
+   * @returns Recorded retry run
+   */
+  public async retryFailedRecords(
+    id: string,
+    syncId: string,
+    companyId: string,
+    userId?: string
+  ): Promise<ISyncRun> {
+    await this.getIntegration(id, companyId);
+
+    const failedRun = await this.syncLogRepository.findById(syncId, id);
+    if (!failedRun) {
+      throw new Error('Sync run not found');
+    }
+
+    const visitorIds = (failedRun.errorDetails?.records || []).map(record => record.visitorId);
+    if (visitorIds.length === 0) {
+      throw new Error('Sync run has no failed records');
+    }
+
+    return this.runSync(
+      id,
+      companyId,
+      { type: SYNC_TRIGGER.USER, userId, retryOf: syncId },
+      SYNC_MODE.RETRY,
+      async () => {
+        const visitors = await this.visitorRepository.findByIds(visitorIds);
+        return visitors.filter(visitor => visitor.companyId === companyId);
+      },
+      failedRun.syncObject
+    );
+  }
+
+  /**
+   * Pushes visitors to the CRM and records the run in the integration's sync history
+   * Delta and full runs push batch after batch, saving the sync cursor after each, until a
+   * batch comes back short; retry runs push their single batch and leave the cursor alone
+   * @param id Integration ID
+   * @param companyId Company ID for security validation
+   * @param trigger What started the run
+   * @param mode Which visitors the run pushes
+   * @param findVisitors Loads the batch of visitors after a cursor
+   * @param syncObject CRM object to push as, the integration's configured one by default
+   * @returns Completed sync run
+   */
+  private async runSync(
+    id: string,
+    companyId: string,
+    trigger: ISyncRunTrigger,
+    mode: SYNC_MODE,
+    findVisitors: (integration: IIntegration, cursor: ISyncCursor | null) => Promise<IVisitor[]>,
+    syncObject?: CRM_OBJECT
+  ): Promise<ISyncRun> {
     const startTime = Date.now();
-    this.logger.info('Starting integration sync', { id, companyId });
+    this.logger.info('Starting integration sync', { id, companyId, trigger: trigger.type, mode });
+
+    let run: ISyncRun | null = null;
+    let recordsProcessed = 0;
+    let failedRecords: ISyncRecordError[] = [];
 
     try {
       const integration = await this.integrationRepository.findById(id, companyId);
@@ -202,30 +456,90 @@ export class IntegrationService {
         throw new Error('Integration not found');
       }
 
-      await this.circuitBreaker.fire(async () => {
-        const syncResult = await this.crmService.syncData(
-          integration.type,
-          integration.credentials,
-          integration.config.fieldMappings
+      const object = syncObject || integration.config.syncObject || DEFAULT_CRM_SYNC_OBJECT;
+      run = await this.syncLogRepository.start(id, trigger, object, mode);
+
+      let cursor = mode === SYNC_MODE.DELTA ? integration.syncCursor || null : null;
+      let recordsWithoutConsent = 0;
+      let recordsLinked = 0;
+      let batch: IVisitor[];
+      do {
+        batch = await findVisitors(integration, cursor);
+        const consented = batch.filter(visitor =>
+          this.consentService.hasConsent(visitor, CONSENT_PURPOSE.CRM_SYNC)
         );
+        recordsWithoutConsent += batch.length - consented.length;
 
-        await this.integrationRepository.update(
-          id,
-          {
-            status: INTEGRATION_STATUS.ACTIVE,
-            lastSyncAt: new Date()
-          },
-          companyId
+        const records = await this.withIdempotencyKeys(
+          integration,
+          object,
+          consented,
+          consented.map(visitor => this.toCrmRecord(visitor, integration.config.fieldMappings))
         );
 
-        this.metricsCollector.record({
-          name: 'integration.sync.success',
-          value: Date.now() - startTime,
-          attributes: { 
-            type: integration.type,
-            recordsProcessed: syncResult.success + syncResult.failed
-          }
+        const syncResult: ISyncResult = await this.circuitBreaker.fire(() =>
+          this.crmService.syncData(integration.type, integration.credentials, object, records, (record, result) =>
+            this.saveIdempotencyKey(integration.id, record, result)
+          )
+        );
+        recordsProcessed += syncResult.success + syncResult.failed;
+        failedRecords = [...failedRecords, ...syncResult.errors];
+
+        if (syncResult.failed > 0 && syncResult.success === 0) {
+          throw new Error(`CRM refused all ${syncResult.failed} records: ${syncResult.errors[0].message}`);
+        }
+
+        recordsLinked += await this.linkCrmRecords(integration.type, consented, syncResult);
+
+        if (mode !== SYNC_MODE.RETRY && batch.length > 0) {
+          const last = batch[batch.length - 1];
+          cursor = { updatedAt: last.updatedAt!, visitorId: last.id };
+          await this.integrationRepository.update(id, { syncCursor: cursor }, companyId);
+        }
+      } while (mode !== SYNC_MODE.RETRY && batch.length === SYNC_BATCH_SIZE);
+
+      if (failedRecords.length > 0) {
+        this.logger.warn('CRM refused some records', {
+          id,
+          companyId,
+          syncId: run.id,
+          failed: failedRecords.length
         });
+      }
+
+      const recordsPulled = integration.config.inboundSync?.enabled && mode !== SYNC_MODE.RETRY
+        ? await this.pullCrmRelationships(integration, object, run.id)
+        : 0;
+
+      await this.integrationRepository.update(
+        id,
+        {
+          status: INTEGRATION_STATUS.ACTIVE,
+          ...(mode !== SYNC_MODE.RETRY && { lastSyncAt: new Date() })
+        },
+        companyId
+      );
+
+      this.metricsCollector.record({
+        name: 'integration.sync.success',
+        value: Date.now() - startTime,
+        attributes: { 
+          type: integration.type,
+          trigger: trigger.type,
+          mode,
+          recordsProcessed,
+          recordsFailed: failedRecords.length,
+          recordsWithoutConsent,
+          recordsLinked,
+          recordsPulled
+        }
+      });
+
+      return await this.syncLogRepository.complete(run.id, {
+        status: failedRecords.length > 0 ? SYNC_RUN_STATUS.PARTIAL : SYNC_RUN_STATUS.SUCCESS,
+        recordsProcessed,
+        recordsFailed: failedRecords.length,
+        errorDetails: failedRecords.length > 0 ? { records: failedRecords } : null
       });
     } catch (error) {
       this.metricsCollector.record({
@@ -237,9 +551,19 @@ export class IntegrationService {
       this.logger.error('Integration sync failed', {
         error: error.message,
         id,
-        companyId
+        companyId,
+        syncId: run?.id
       });
 
+      if (run) {
+        await this.syncLogRepository.complete(run.id, {
+          status: SYNC_RUN_STATUS.ERROR,
+          recordsProcessed,
+          recordsFailed: failedRecords.length,
+          errorDetails: { message: error.message, records: failedRecords }
+        });
+      }
+
       await this.integrationRepository.updateStatus(
         id,
         INTEGRATION_STATUS.ERROR,
@@ -250,6 +574,181 @@ export class IntegrationService {
     }
   }
 
+  /**
+   * Keys each record by integration, CRM object and visitor, and points it at the CRM record
+   * already written under its key, or else at the record the visitor is linked to, so pushing
+   * a visitor again updates that record instead of creating another
+   * @param integration Integration synchronized
+   * @param object CRM object the records are pushed as
+   * @param visitors Visitors the records were built from
+   * @param records Records to push, in the order of the visitors
+   * @returns Records with their idempotency key and known CRM record
+   */
+  private async withIdempotencyKeys(
+    integration: IIntegration,
+    object: CRM_OBJECT,
+    visitors: IVisitor[],
+    records: ICrmSyncRecord[]
+  ): Promise<ICrmSyncRecord[]> {
+    const keyed = records.map(record => ({
+      ...record,
+      idempotencyKey: `${integration.id}:${object}:${record.visitorId}`
+    }));
+    const written = await this.syncKeyRepository.findRecordIds(keyed.map(record => record.idempotencyKey));
+
+    return keyed.map((record, index) => {
+      const crm = visitors[index].crm;
+      const linked = crm?.type === integration.type && crm.object === object ? crm.recordId : null;
+      return { ...record, recordId: written[record.idempotencyKey] || linked };
+    });
+  }
+
+  /**
+   * Records the CRM record written for a visitor under its idempotency key
+   * Failing to record it is logged without failing the record, which the CRM already took
+   * @param integrationId Integration that wrote the record
+   * @param record Record pushed
+   * @param result CRM record written
+   */
+  private async saveIdempotencyKey(
+    integrationId: string,
+    record: ICrmSyncRecord,
+    result: ICrmUpsertResult
+  ): Promise<void> {
+    if (!record.idempotencyKey || record.recordId === result.id) {
+      return;
+    }
+
+    try {
+      await this.syncKeyRepository.save(record.idempotencyKey, integrationId, record.visitorId, result);
+    } catch (error) {
+      this.logger.warn('Idempotency key could not be saved', {
+        error: error.message,
+        integrationId,
+        visitorId: record.visitorId
+      });
+    }
+  }
+
+  /**
+   * Links pushed visitors to the CRM record written for them
+   * Visitors already linked to that record keep their pulled relationship state
+   * @param type CRM platform type
+   * @param visitors Visitors pushed to the CRM
+   * @param syncResult Outcome of the push
+   * @returns Number of visitors newly linked
+   */
+  private async linkCrmRecords(type: CRM_TYPES, visitors: IVisitor[], syncResult: ISyncResult): Promise<number> {
+    const states = visitors
+      .filter(visitor => {
+        const written = syncResult.details[visitor.id];
+        return written && !(
+          visitor.crm?.type === type &&
+          visitor.crm.object === written.object &&
+          visitor.crm.recordId === written.id
+        );
+      })
+      .map(visitor => ({
+        id: visitor.id,
+        crm: {
+          type,
+          object: syncResult.details[visitor.id].object,
+          recordId: syncResult.details[visitor.id].id,
+          owner: null,
+          lifecycleStage: null,
+          openOpportunity: null,
+          dealStage: null,
+          syncedAt: null
+        }
+      }));
+
+    await this.visitorRepository.setCrmStates(states);
+    return states.length;
+  }
+
+  /**
+   * Pulls the owner, lifecycle stage and open opportunity of the CRM records the company's
+   * visitors are linked to and stores them on the visitors
+   * Failing to pull is logged without failing the sync, as the push already succeeded
+   * @param integration Integration synchronized
+   * @param object CRM object the visitors were pushed as
+   * @param syncId Sync run pulling the records
+   * @returns Number of visitors updated
+   */
+  private async pullCrmRelationships(integration: IIntegration, object: CRM_OBJECT, syncId: string): Promise<number> {
+    try {
+      const linked = (await this.visitorRepository.findCrmLinked(integration.companyId, integration.type, object))
+        .filter(visitor => this.consentService.hasConsent(visitor, CONSENT_PURPOSE.CRM_SYNC));
+      if (linked.length === 0) {
+        return 0;
+      }
+
+      const recordIds = [...new Set(linked.map(visitor => visitor.crm!.recordId))];
+      const pullResult = await this.circuitBreaker.fire(() =>
+        this.crmService.pullData(integration.type, integration.credentials, object, recordIds)
+      );
+
+      const errors = Object.keys(pullResult.errors);
+      if (errors.length > 0) {
+        this.logger.warn('CRM records could not be pulled', {
+          id: integration.id,
+          syncId,
+          failed: errors.length
+        });
+      }
+
+      const syncedAt = new Date();
+      const states = linked
+        .filter(visitor => pullResult.relationships[visitor.crm!.recordId])
+        .map(visitor => ({
+          id: visitor.id,
+          crm: {
+            ...visitor.crm!,
+            ...this.resolveConflicts(
+              visitor.crm!,
+              pullResult.relationships[visitor.crm!.recordId],
+              integration.config.inboundSync?.conflictWinners
+            ),
+            syncedAt
+          }
+        }));
+
+      await this.visitorRepository.setCrmStates(states);
+      return states.length;
+    } catch (error) {
+      this.logger.warn('Inbound CRM sync failed', {
+        error: error.message,
+        id: integration.id,
+        syncId
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Merges a pulled relationship into the one stored on a visitor
+   * Fields the CRM wins take the pulled value; fields won locally keep the stored value and
+   * only take the pulled one while they are empty
+   * @param local Relationship stored on the visitor
+   * @param pulled Relationship pulled from the CRM
+   * @param winners Winning side by field, the CRM for fields not configured
+   * @returns Merged relationship
+   */
+  private resolveConflicts(
+    local: ICrmRelationship,
+    pulled: ICrmRelationship,
+    winners: ICrmInboundSyncConfig['conflictWinners'] = {}
+  ): ICrmRelationship {
+    const merged = { ...pulled };
+    for (const field of Object.values(CRM_INBOUND_FIELD)) {
+      const winner = winners[field] || DEFAULT_CRM_CONFLICT_WINNER;
+      if (winner === CRM_CONFLICT_WINNER.LOCAL && local[field] !== null && local[field] !== undefined) {
+        (merged as Record<CRM_INBOUND_FIELD, unknown>)[field] = local[field];
+      }
+    }
+    return merged;
+  }
+
   /**
    * Processes pending synchronizations for all active integrations
    * @param companyId Optional company ID filter
@@ -261,7 +760,9 @@ export class IntegrationService {
     
     for (const integration of pendingIntegrations) {
       try {
-        await this.syncIntegration(integration.id, integration.companyId);
+        await this.syncIntegration(integration.id, integration.companyId, {
+          type: SYNC_TRIGGER.SCHEDULER
+        });
       } catch (error) {
         this.logger.error('Failed to process pending sync', {
           error: error.message,
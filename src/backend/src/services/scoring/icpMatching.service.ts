@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Service classifying visitors against a company's ideal customer profiles
+ * Assigns each enriched visitor an A/B/C/none fit tier with the criteria it matched
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import { IVisitor } from '../../interfaces/visitor.interface';
+import {
+    IIdealCustomerProfile,
+    IIcpFit,
+    IIcpMatchReason,
+    IcpCriterion
+} from '../../interfaces/icp.interface';
+import {
+    ICP_FIT_TIER,
+    ICP_CRITERIA,
+    ICP_TIER_THRESHOLDS,
+    ICP_RECLASSIFY_BATCH_SIZE
+} from '../../constants/icp.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+
+/**
+ * Outcome of matching a visitor against a single ICP
+ */
+interface IProfileMatch {
+    profile: IIdealCustomerProfile;
+    reasons: IIcpMatchReason[];
+    criteriaCount: number;
+}
+
+/**
+ * Service matching visitors against ideal customer profiles
+ */
+@Injectable()
+export class IcpMatchingService {
+    private readonly logger = new Logger(IcpMatchingService.name);
+
+    constructor(
+        private readonly visitorRepository: VisitorRepository,
+        private readonly companyRepository: CompanyRepository
+    ) {}
+
+    /**
+     * Classifies a visitor against its company's ICPs, storing the fit when it changed
+     * Visitors without enriched data are left unclassified
+     * @param visitor - Visitor to classify
+     * @returns Visitor with its current fit
+     */
+    public async classifyVisitor(visitor: IVisitor): Promise<IVisitor> {
+        if (!visitor.enrichedData || visitor.mergedInto) {
+            return visitor;
+        }
+
+        const profiles = await this.getProfiles(visitor.companyId);
+        const fit = this.matchProfiles(visitor, profiles);
+
+        if (this.isSameFit(visitor.icpFit, fit)) {
+            return visitor;
+        }
+
+        const updated = await this.visitorRepository.patch(visitor.id, { icpFit: fit });
+        this.logger.debug(`Visitor ${visitor.id} classified as ICP tier ${fit.tier}`);
+        return updated || { ...visitor, icpFit: fit };
+    }
+
+    /**
+     * Re-classifies every canonical visitor of a company, e.g. after its ICPs changed
+     * @param companyId - Company whose visitors to classify
+     * @returns Number of visitors whose fit changed
+     */
+    public async reclassifyCompany(companyId: string): Promise<number> {
+        const profiles = await this.getProfiles(companyId);
+        let changed = 0;
+        let page = 1;
+
+        for (;;) {
+            const { visitors } = await this.visitorRepository.findByCompany(
+                companyId,
+                page,
+                ICP_RECLASSIFY_BATCH_SIZE
+            );
+
+            for (const visitor of visitors) {
+                if (!visitor.enrichedData) {
+                    continue;
+                }
+
+                const fit = this.matchProfiles(visitor, profiles);
+                if (!this.isSameFit(visitor.icpFit, fit)) {
+                    await this.visitorRepository.patch(visitor.id, { icpFit: fit });
+                    changed++;
+                }
+            }
+
+            if (visitors.length < ICP_RECLASSIFY_BATCH_SIZE) {
+                break;
+            }
+            page++;
+        }
+
+        this.logger.log(`Re-classified ICP fit of ${changed} visitors for company ${companyId}`);
+        return changed;
+    }
+
+    /**
+     * Matches a visitor against ICPs and picks the best fit
+     * The best fit is the ICP with the highest share of matched criteria,
+     * preferring the one matching more criteria on ties
+     * @param visitor - Visitor with enriched data and location
+     * @param profiles - Company ICPs
+     * @returns Fit tier with the best ICP and its matched criteria
+     */
+    public matchProfiles(visitor: IVisitor, profiles: IIdealCustomerProfile[]): IIcpFit {
+        let best: IProfileMatch | null = null;
+
+        for (const profile of profiles) {
+            const match = this.matchProfile(visitor, profile);
+            if (match.criteriaCount === 0 || match.reasons.length === 0) {
+                continue;
+            }
+
+            if (!best || this.compareMatches(match, best) > 0) {
+                best = match;
+            }
+        }
+
+        const tier = best ? this.resolveTier(best.reasons.length / best.criteriaCount) : ICP_FIT_TIER.NONE;
+
+        return {
+            tier,
+            icpId: best && tier !== ICP_FIT_TIER.NONE ? best.profile.id : null,
+            icpName: best && tier !== ICP_FIT_TIER.NONE ? best.profile.name : null,
+            reasons: best && tier !== ICP_FIT_TIER.NONE ? best.reasons : [],
+            classifiedAt: new Date()
+        };
+    }
+
+    /**
+     * Loads a company's ICPs
+     */
+    private async getProfiles(companyId: string): Promise<IIdealCustomerProfile[]> {
+        const company = await this.companyRepository.findById(companyId);
+        return company?.settings?.idealCustomerProfiles || [];
+    }
+
+    /**
+     * Evaluates every criterion an ICP defines against a visitor
+     */
+    private matchProfile(visitor: IVisitor, profile: IIdealCustomerProfile): IProfileMatch {
+        const reasons: IIcpMatchReason[] = [];
+        let criteriaCount = 0;
+
+        for (const criterion of ICP_CRITERIA) {
+            const accepted = (profile[criterion] || []).map(value => value.trim().toLowerCase());
+            if (accepted.length === 0) {
+                continue;
+            }
+
+            criteriaCount++;
+            const value = this.getVisitorValues(visitor, criterion)
+                .find(candidate => accepted.includes(candidate.trim().toLowerCase()));
+            if (value) {
+                reasons.push({ criterion, value });
+            }
+        }
+
+        return { profile, reasons, criteriaCount };
+    }
+
+    /**
+     * Reads the visitor values a criterion is compared with
+     */
+    private getVisitorValues(visitor: IVisitor, criterion: IcpCriterion): string[] {
+        const enrichedData = visitor.enrichedData;
+
+        switch (criterion) {
+            case 'industries':
+                return enrichedData?.industry ? [enrichedData.industry] : [];
+            case 'sizes':
+                return enrichedData?.size ? [enrichedData.size] : [];
+            case 'revenues':
+                return enrichedData?.revenue ? [enrichedData.revenue] : [];
+            case 'technologies':
+                return enrichedData?.technologies || [];
+            case 'countries':
+                return visitor.metadata?.location?.country ? [visitor.metadata.location.country] : [];
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Orders two matches by matched share, then by number of matched criteria
+     */
+    private compareMatches(a: IProfileMatch, b: IProfileMatch): number {
+        const ratioDifference = a.reasons.length / a.criteriaCount - b.reasons.length / b.criteriaCount;
+        return ratioDifference !== 0 ? ratioDifference : a.reasons.length - b.reasons.length;
+    }
+
+    /**
+     * Maps a matched share of criteria to a fit tier
+     */
+    private resolveTier(matchRatio: number): ICP_FIT_TIER {
+        const threshold = ICP_TIER_THRESHOLDS.find(({ minMatchRatio }) => matchRatio >= minMatchRatio);
+        return threshold ? threshold.tier : ICP_FIT_TIER.NONE;
+    }
+
+    /**
+     * Determines whether a stored fit equals a new fit, ignoring classification time
+     */
+    private isSameFit(current: IIcpFit | null | undefined, next: IIcpFit): boolean {
+        if (!current) {
+            return false;
+        }
+
+        return current.tier === next.tier &&
+            current.icpId === next.icpId &&
+            JSON.stringify(current.reasons) === JSON.stringify(next.reasons);
+    }
+}
@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Lead scoring service ranking visitors by engagement and firmographic fit
+ * Computes a 0-100 score from company-defined rules, records score history and publishes changes
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+import { Redis } from 'ioredis'; // v5.3.x
+
+import { IVisitor } from '../../interfaces/visitor.interface';
+import {
+    IScoringRule,
+    IScoringInput,
+    IScoreResult,
+    IScoreContribution,
+    IScoreHistoryEntry,
+    ILeadScoringSettings
+} from '../../interfaces/scoring.interface';
+import { VISITOR_UPDATES_CHANNEL } from '../../constants/visitor.constants';
+import {
+    SCORING_RULE_TYPE,
+    FIRMOGRAPHIC_FIELDS,
+    MIN_LEAD_SCORE,
+    MAX_LEAD_SCORE,
+    DEFAULT_SCORING_RULES,
+    SCORE_HISTORY_DEFAULT_LIMIT
+} from '../../constants/scoring.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { ScoreHistoryRepository } from '../../db/repositories/scoreHistory.repository';
+import { createError } from '../../utils/error.util';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+
+/**
+ * Service scoring visitors against their company's lead scoring rules
+ */
+@Injectable()
+export class LeadScoringService {
+    private readonly logger = new Logger(LeadScoringService.name);
+
+    constructor(
+        private readonly visitorRepository: VisitorRepository,
+        private readonly companyRepository: CompanyRepository,
+        private readonly scoreHistoryRepository: ScoreHistoryRepository,
+        private readonly redis: Redis
+    ) {}
+
+    /**
+     * Recomputes a visitor's score, storing and publishing it when it changed
+     * Merged visitors are skipped as their activity belongs to the canonical record
+     * @param visitorId - Visitor to score
+     * @returns Visitor with its current score, or null when not found or merged
+     */
+    public async rescoreVisitor(visitorId: string): Promise<IVisitor | null> {
+        const visitor = await this.visitorRepository.findById(visitorId);
+        if (!visitor || visitor.mergedInto) {
+            return null;
+        }
+
+        const settings = await this.getScoringSettings(visitor.companyId);
+        if (!settings.enabled) {
+            return visitor;
+        }
+
+        const activityCounts = await this.scoreHistoryRepository.countActivitiesByType(visitor.id);
+        const result = this.computeScore(this.buildInput(visitor, activityCounts), settings.rules);
+        const previousScore = visitor.score ?? MIN_LEAD_SCORE;
+
+        if (result.score === previousScore) {
+            return visitor;
+        }
+
+        const scoredAt = new Date();
+        const updated = await this.visitorRepository.patch(visitor.id, {
+            score: result.score,
+            scoreUpdatedAt: scoredAt
+        });
+
+        const entry: IScoreHistoryEntry = {
+            id: randomUUID(),
+            visitorId: visitor.id,
+            companyId: visitor.companyId,
+            score: result.score,
+            previousScore,
+            breakdown: result.breakdown,
+            scoredAt
+        };
+        await this.scoreHistoryRepository.create(entry);
+        await this.publishScoreChange(entry);
+
+        this.logger.debug(`Visitor ${visitor.id} score changed from ${previousScore} to ${result.score}`);
+        return updated;
+    }
+
+    /**
+     * Computes a score from scoring signals and rules
+     * @param input - Signals the visitor is scored on
+     * @param rules - Rules to apply
+     * @returns Score clamped to 0-100 with the contribution of each rule
+     */
+    public computeScore(input: IScoringInput, rules: IScoringRule[]): IScoreResult {
+        const breakdown: IScoreContribution[] = [];
+
+        for (const rule of rules) {
+            const points = this.evaluateRule(rule, input);
+            if (points !== 0) {
+                breakdown.push({ ruleId: rule.id, points });
+            }
+        }
+
+        const total = breakdown.reduce((sum, contribution) => sum + contribution.points, 0);
+        return {
+            score: Math.round(Math.min(Math.max(total, MIN_LEAD_SCORE), MAX_LEAD_SCORE)),
+            breakdown
+        };
+    }
+
+    /**
+     * Retrieves a visitor's score history, most recent first
+     * @param companyId - Company the visitor must belong to
+     * @param visitorId - Visitor to look up
+     * @param limit - Maximum entries to return
+     * @returns Score history entries
+     * @throws AppError when the company has no such visitor
+     */
+    public async getScoreHistory(
+        companyId: string,
+        visitorId: string,
+        limit: number = SCORE_HISTORY_DEFAULT_LIMIT
+    ): Promise<IScoreHistoryEntry[]> {
+        const visitor = await this.visitorRepository.findById(visitorId);
+        if (!visitor || visitor.companyId !== companyId) {
+            throw createError('Visitor not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, { visitorId });
+        }
+        return this.scoreHistoryRepository.findByVisitor(visitorId, limit);
+    }
+
+    /**
+     * Loads a company's lead scoring settings, falling back to the default rules
+     * @param companyId - Company owning the visitor
+     * @returns Complete scoring settings
+     */
+    public async getScoringSettings(companyId: string): Promise<ILeadScoringSettings> {
+        const company = await this.companyRepository.findById(companyId);
+        const stored = company?.settings?.leadScoring;
+
+        return {
+            enabled: stored?.enabled ?? true,
+            rules: stored?.rules?.length ? stored.rules : DEFAULT_SCORING_RULES
+        };
+    }
+
+    /**
+     * Evaluates the points a single rule awards
+     * @param rule - Rule to evaluate
+     * @param input - Scoring signals
+     * @returns Points awarded, capped by the rule's maxPoints
+     */
+    private evaluateRule(rule: IScoringRule, input: IScoringInput): number {
+        switch (rule.type) {
+            case SCORING_RULE_TYPE.ACTIVITY_COUNT: {
+                const count = rule.activityType ? input.activityCounts[rule.activityType] || 0 : 0;
+                return this.capPoints(rule, count * rule.points);
+            }
+            case SCORING_RULE_TYPE.PAGE_VISIT: {
+                const pattern = rule.pagePattern?.toLowerCase();
+                const visits = pattern ? input.pages.filter(page => page.toLowerCase().includes(pattern)).length : 0;
+                return this.capPoints(rule, visits * rule.points);
+            }
+            case SCORING_RULE_TYPE.TIME_SPENT:
+                return input.totalTimeSpent >= (rule.threshold ?? Infinity) ? rule.points : 0;
+            case SCORING_RULE_TYPE.CUSTOM_EVENT: {
+                const count = rule.eventName ? input.customEventCounts[rule.eventName] || 0 : 0;
+                return this.capPoints(rule, count * rule.points);
+            }
+            case SCORING_RULE_TYPE.GOAL: {
+                const count = rule.goalId ? input.goalCounts[rule.goalId] || 0 : 0;
+                return this.capPoints(rule, count * rule.points);
+            }
+            case SCORING_RULE_TYPE.FIRMOGRAPHIC: {
+                const value = rule.field ? input.firmographics[rule.field]?.toLowerCase() : undefined;
+                const matches = !!value && (rule.values || []).some(candidate => candidate.toLowerCase() === value);
+                return matches ? rule.points : 0;
+            }
+            default:
+                return 0;
+        }
+    }
+
+    /**
+     * Limits the magnitude of per-occurrence points to the rule's maxPoints
+     */
+    private capPoints(rule: IScoringRule, points: number): number {
+        if (rule.maxPoints === undefined) {
+            return points;
+        }
+        return points < 0 ? Math.max(points, -rule.maxPoints) : Math.min(points, rule.maxPoints);
+    }
+
+    /**
+     * Collects the scoring signals of a visitor
+     */
+    private buildInput(
+        visitor: IVisitor,
+        activityCounts: IScoringInput['activityCounts']
+    ): IScoringInput {
+        const pages = [...(visitor.metadata?.previousPages || [])];
+        if (visitor.metadata?.currentPage) {
+            pages.push(visitor.metadata.currentPage);
+        }
+
+        const firmographics: IScoringInput['firmographics'] = {};
+        FIRMOGRAPHIC_FIELDS.forEach(field => {
+            if (visitor.enrichedData?.[field]) {
+                firmographics[field] = visitor.enrichedData[field];
+            }
+        });
+
+        const customEventCounts = Object.fromEntries(
+            Object.entries(visitor.customEvents || {}).map(([eventName, summary]) => [eventName, summary.count])
+        );
+
+        const goalCounts = Object.fromEntries(
+            Object.entries(visitor.goals || {}).map(([goalId, summary]) => [goalId, summary.count])
+        );
+
+        return {
+            activityCounts,
+            customEventCounts,
+            goalCounts,
+            pages,
+            totalTimeSpent: visitor.totalTimeSpent || 0,
+            firmographics
+        };
+    }
+
+    /**
+     * Publishes a score change on the visitor updates channel for websocket delivery
+     */
+    private async publishScoreChange(entry: IScoreHistoryEntry): Promise<void> {
+        await this.redis.publish(
+            VISITOR_UPDATES_CHANNEL,
+            JSON.stringify({
+                type: 'score_update',
+                companyId: entry.companyId,
+                visitorId: entry.visitorId,
+                score: entry.score,
+                previousScore: entry.previousScore,
+                scoredAt: entry.scoredAt
+            })
+        );
+    }
+}
@@ -11,8 +11,28 @@ import { Redis } from 'ioredis'; // v5.3.x
 import { CacheService } from '@identity-matrix/cache-service'; // v1.0.0
 
 import { IVisitor } from '../../interfaces/visitor.interface';
+import { ICustomEventSummary } from '../../interfaces/customEvent.interface';
+import { IImportedActivity } from '../../interfaces/ingestion.interface';
+import { IContentDefinitions } from '../../interfaces/content.interface';
 import VisitorModel from '../../db/models/visitor.model';
-import { VISITOR_ACTIVITY_TYPE, VISITOR_CACHE_TTL } from '../../constants/visitor.constants';
+import ActivityModel from '../../db/models/activity.model';
+import {
+    VISITOR_ACTIVITY_TYPE,
+    VISITOR_CACHE_TTL,
+    VISITOR_UPDATES_CHANNEL
+} from '../../constants/visitor.constants';
+import { CUSTOM_EVENT_SUMMARY_FIELD } from '../../constants/customEvent.constants';
+import { GOAL_COMPLETION_FIELD } from '../../constants/goal.constants';
+import { CONTENT_GROUP_SUMMARY_FIELD } from '../../constants/content.constants';
+import { CONSENT_PURPOSE, ANONYMOUS_MODE_DROPPED_METADATA } from '../../constants/consent.constants';
+import { INGEST_WRITE_CHUNK_SIZE } from '../../constants/ingestion.constants';
+import { LeadScoringService } from '../scoring/leadScoring.service';
+import { SessionService } from './session.service';
+import { AttributionService } from './attribution.service';
+import { TrafficQualityService } from './trafficQuality.service';
+import { ConsentService } from './consent.service';
+import { GoalService } from './goal.service';
+import { ContentGroupService } from './contentGroup.service';
 
 /**
  * Interface for activity data with GDPR compliance considerations
@@ -24,9 +44,15 @@ interface IVisitorActivity {
     timestamp: Date;
     data: {
         url?: string;
+        rawUrl?: string;
+        contentGroups?: string[];
         elementId?: string;
         formId?: string;
         fileId?: string;
+        eventName?: string;
+        properties?: Record<string, any>;
+        piiProperties?: string[];
+        formFields?: Record<string, string>;
         metadata: Record<string, any>;
     };
     gdprCompliant: boolean;
@@ -56,7 +82,7 @@ interface IPaginatedActivities {
 @injectable()
 export class ActivityService {
     private readonly CACHE_PREFIX = 'visitor_activity:';
-    private readonly BROADCAST_CHANNEL = 'visitor_updates';
+    private readonly BROADCAST_CHANNEL = VISITOR_UPDATES_CHANNEL;
     private readonly RATE_LIMIT_WINDOW = 60; // 1 minute
     private readonly RATE_LIMIT_MAX = 100; // max activities per minute
 
@@ -64,6 +90,13 @@ export class ActivityService {
         private readonly logger: Logger,
         private readonly cacheService: CacheService,
         private readonly redis: Redis,
+        private readonly leadScoringService: LeadScoringService,
+        private readonly sessionService: SessionService,
+        private readonly attributionService: AttributionService,
+        private readonly trafficQualityService: TrafficQualityService,
+        private readonly consentService: ConsentService,
+        private readonly goalService: GoalService,
+        private readonly contentGroupService: ContentGroupService,
         private readonly activityRetentionDays: number = 90
     ) {
         this.logger = logger.child({ service: 'ActivityService' });
@@ -96,34 +129,78 @@ export class ActivityService {
                 throw new Error('Visitor not found');
             }
 
-            // Create activity record with GDPR compliance
+            // Normalize the page URL and assign page views to the company's content groups
+            const content = await this.contentGroupService.getDefinitions(visitor.companyId);
+            const data = this.contentGroupService.classifyActivityData(
+                content,
+                activityData.type,
+                activityData.data,
+                !!visitor.trafficQuality?.isBot
+            );
+
+            // Create activity record with GDPR compliance, anonymous without analytics consent
+            const analyticsConsent = this.consentService.hasConsent(visitor, CONSENT_PURPOSE.ANALYTICS);
             const activity: IVisitorActivity = {
                 id: crypto.randomUUID(),
                 visitorId,
                 type: activityData.type,
                 timestamp: new Date(),
-                data: this.sanitizeActivityData(activityData.data),
-                gdprCompliant: visitor.gdprConsent || false
+                data: this.sanitizeActivityData(data, analyticsConsent),
+                gdprCompliant: analyticsConsent
             };
 
             // Store activity in database with TTL
-            await this.storeActivity(activity);
+            await this.storeActivity(activity, visitor.companyId);
+
+            // Group into the visitor's session, a session failure must not fail tracking
+            const session = await this.sessionService.recordActivity(activity).catch(error => {
+                this.logger.warn('Error recording visitor session', { visitorId, error: error.message });
+                return null;
+            });
+
+            // Every new session is a marketing touch of the visitor
+            if (session?.activityCount === 1) {
+                await this.attributionService.recordSessionTouch(session).catch(error =>
+                    this.logger.warn('Error recording attribution touch', { visitorId, error: error.message })
+                );
+            }
 
-            // Update visitor's last activity
+            // Flag visitors viewing pages faster than a person can
+            if (session) {
+                await this.trafficQualityService.checkSession(session).catch(error =>
+                    this.logger.warn('Error checking session page rate', { visitorId, error: error.message })
+                );
+            }
+
+            // Update visitor's last activity and custom event or content group summary
+            const summary = activity.type === VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT
+                ? this.customEventSummaryUpdate(activity)
+                : this.contentGroupSummaryUpdate(activity);
             await VisitorModel.updateOne(
                 { _id: visitorId },
                 {
-                    $set: { lastSeen: activity.timestamp, isActive: true },
-                    $inc: { totalTimeSpent: 0 }
+                    $set: { lastSeen: activity.timestamp, isActive: true, ...summary.$set },
+                    $inc: { totalTimeSpent: 0, ...summary.$inc },
+                    ...(summary.$min && { $min: summary.$min })
                 }
             );
 
+            // Record the goals the activity completes, a goal failure must not fail tracking
+            await this.goalService.recordCompletions(visitor, [activity]).catch(error =>
+                this.logger.warn('Error recording goal completions', { visitorId, error: error.message })
+            );
+
             // Cache activity data
             await this.cacheActivity(activity);
 
             // Broadcast real-time update
             await this.broadcastActivity(activity);
 
+            // Re-score the visitor, a scoring failure must not fail tracking
+            await this.leadScoringService.rescoreVisitor(visitorId).catch(error =>
+                this.logger.warn('Error re-scoring visitor', { visitorId, error: error.message })
+            );
+
             this.logger.info('Activity tracked successfully', {
                 visitorId,
                 activityId: activity.id,
@@ -141,6 +218,126 @@ export class ActivityService {
         }
     }
 
+    /**
+     * Records activities sent in bulk by server-side pipelines
+     * Skips the per-visitor rate limit, sessions and real-time broadcasts, which describe
+     * live browsing; custom event and content group summaries, goal completions and lead scores are
+     * refreshed once per visitor
+     * @param visitors - Visitors the activities belong to
+     * @param activities - Activities to record
+     * @returns Dedup keys of activities that were already recorded
+     */
+    public async importActivities(
+        visitors: IVisitor[],
+        activities: IImportedActivity[]
+    ): Promise<Set<string>> {
+        const visitorsById = new Map(visitors.map(visitor => [visitor.id, visitor]));
+        const recorded: string[] = await ActivityModel.find({
+            dedupKey: { $in: activities.map(activity => activity.dedupKey) }
+        }).distinct('dedupKey');
+        const duplicates = new Set(recorded);
+
+        const expiresAt = new Date();
+        expiresAt.setDate(expiresAt.getDate() + this.activityRetentionDays);
+
+        const contentByCompany = new Map<string, IContentDefinitions>();
+        for (const companyId of new Set(visitors.map(visitor => visitor.companyId))) {
+            contentByCompany.set(companyId, await this.contentGroupService.getDefinitions(companyId));
+        }
+
+        const documents = activities
+            .filter(activity => !duplicates.has(activity.dedupKey))
+            .map(activity => {
+                const visitor = visitorsById.get(activity.visitorId);
+                const analyticsConsent = !!visitor && this.consentService.hasConsent(visitor, CONSENT_PURPOSE.ANALYTICS);
+                const content = visitor && contentByCompany.get(visitor.companyId);
+                const data = content
+                    ? this.contentGroupService.classifyActivityData(
+                        content,
+                        activity.type,
+                        activity.data,
+                        !!visitor.trafficQuality?.isBot
+                    )
+                    : activity.data;
+                return {
+                    id: crypto.randomUUID(),
+                    visitorId: activity.visitorId,
+                    companyId: visitor?.companyId,
+                    type: activity.type,
+                    timestamp: activity.timestamp,
+                    data: this.sanitizeActivityData(data, analyticsConsent),
+                    gdprCompliant: analyticsConsent,
+                    dedupKey: activity.dedupKey,
+                    expiresAt
+                };
+            });
+
+        for (let i = 0; i < documents.length; i += INGEST_WRITE_CHUNK_SIZE) {
+            const chunk = documents.slice(i, i + INGEST_WRITE_CHUNK_SIZE);
+            try {
+                await ActivityModel.insertMany(chunk, { ordered: false });
+            } catch (error) {
+                // A concurrent batch recorded the same events; anything else fails the import
+                const writeErrors: Array<{ code: number; index: number }> = error.writeErrors || [];
+                if (writeErrors.length === 0 || writeErrors.some(writeError => writeError.code !== 11000)) {
+                    throw error;
+                }
+                writeErrors.forEach(writeError => duplicates.add(chunk[writeError.index].dedupKey));
+            }
+        }
+
+        const stored = documents.filter(document => !duplicates.has(document.dedupKey));
+        const customEventVisitors = new Set(stored
+            .filter(document => document.type === VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT)
+            .map(document => document.visitorId));
+        const contentGroupVisitors = new Set(stored
+            .filter(document => document.data.contentGroups?.length)
+            .map(document => document.visitorId));
+
+        for (const visitorId of new Set(stored.map(document => document.visitorId))) {
+            // Imported events can predate the visitor's latest session, so sessions and the
+            // attribution touches they carry are regrouped from all of the visitor's activities
+            const sessions = await this.sessionService.rebuildVisitorSessions(visitorId).catch(error => {
+                this.logger.warn('Error rebuilding visitor sessions', { visitorId, error: error.message });
+                return null;
+            });
+            if (sessions) {
+                await this.attributionService.rebuildVisitorAttribution(visitorId, sessions).catch(error =>
+                    this.logger.warn('Error rebuilding visitor attribution', { visitorId, error: error.message })
+                );
+            }
+            if (customEventVisitors.has(visitorId)) {
+                await this.rebuildCustomEventSummaries(visitorId).catch(error =>
+                    this.logger.warn('Error rebuilding custom event summaries', { visitorId, error: error.message })
+                );
+            }
+            if (contentGroupVisitors.has(visitorId)) {
+                await this.contentGroupService.rebuildSummaries(visitorId).catch(error =>
+                    this.logger.warn('Error rebuilding content group summaries', { visitorId, error: error.message })
+                );
+            }
+            const visitor = visitorsById.get(visitorId);
+            if (visitor) {
+                await this.goalService.recordCompletions(
+                    visitor,
+                    stored.filter(document => document.visitorId === visitorId)
+                ).catch(error =>
+                    this.logger.warn('Error recording goal completions', { visitorId, error: error.message })
+                );
+            }
+            await this.leadScoringService.rescoreVisitor(visitorId).catch(error =>
+                this.logger.warn('Error re-scoring visitor', { visitorId, error: error.message })
+            );
+        }
+
+        this.logger.info('Activities imported', {
+            stored: stored.length,
+            duplicates: duplicates.size
+        });
+
+        return duplicates;
+    }
+
     /**
      * Retrieves paginated activities with cursor-based pagination and caching
      * @param visitorId - Unique identifier of the visitor
@@ -208,6 +405,8 @@ export class ActivityService {
 
             // Delete from database
             await this.deleteActivitiesFromDB(visitorId);
+            await this.sessionService.deleteVisitorSessions(visitorId);
+            await this.goalService.deleteVisitorCompletions(visitorId);
 
             // Clear cached data
             await this.clearActivityCache(visitorId);
@@ -215,7 +414,14 @@ export class ActivityService {
             // Update visitor record
             await VisitorModel.updateOne(
                 { _id: visitorId },
-                { $set: { totalTimeSpent: 0 } }
+                {
+                    $set: { totalTimeSpent: 0, attribution: null },
+                    $unset: {
+                        [CUSTOM_EVENT_SUMMARY_FIELD]: 1,
+                        [GOAL_COMPLETION_FIELD]: 1,
+                        [CONTENT_GROUP_SUMMARY_FIELD]: 1
+                    }
+                }
             );
 
             // Broadcast deletion event
@@ -231,11 +437,85 @@ export class ActivityService {
         }
     }
 
+    /**
+     * Lists the IDs of all activities of a visitor, e.g. before an identity graph merge moves them
+     * @param visitorId - Visitor owning the activities
+     * @returns Activity IDs
+     */
+    public async getActivityIds(visitorId: string): Promise<string[]> {
+        return ActivityModel.find({ visitorId }).distinct('id');
+    }
+
+    /**
+     * Re-points activities from one visitor to another, e.g. after an identity graph merge
+     * @param fromVisitorId - Visitor currently owning the activities
+     * @param toVisitorId - Visitor receiving the activities
+     * @param activityIds - Optional subset of activities to move (all when omitted)
+     * @returns IDs of the activities that were moved
+     */
+    public async reassignActivities(
+        fromVisitorId: string,
+        toVisitorId: string,
+        activityIds?: string[]
+    ): Promise<string[]> {
+        try {
+            const filter = {
+                visitorId: fromVisitorId,
+                ...(activityIds && { id: { $in: activityIds } })
+            };
+
+            const moved = await ActivityModel.find(filter).distinct('id');
+            if (moved.length > 0) {
+                await ActivityModel.updateMany(
+                    { id: { $in: moved } },
+                    { $set: { visitorId: toVisitorId } }
+                );
+
+                // Sessions, custom event and content group summaries, goal completions and attribution
+                // of both visitors no longer match their activities
+                const [fromSessions, toSessions] = await Promise.all([
+                    this.sessionService.rebuildVisitorSessions(fromVisitorId),
+                    this.sessionService.rebuildVisitorSessions(toVisitorId),
+                    this.rebuildCustomEventSummaries(fromVisitorId),
+                    this.rebuildCustomEventSummaries(toVisitorId),
+                    this.contentGroupService.rebuildSummaries(fromVisitorId),
+                    this.contentGroupService.rebuildSummaries(toVisitorId),
+                    this.goalService.reassignCompletions(fromVisitorId, toVisitorId, moved)
+                ]);
+                await Promise.all([
+                    this.attributionService.rebuildVisitorAttribution(fromVisitorId, fromSessions),
+                    this.attributionService.rebuildVisitorAttribution(toVisitorId, toSessions)
+                ]);
+            }
+
+            await Promise.all([
+                this.clearActivityCache(fromVisitorId),
+                this.clearActivityCache(toVisitorId)
+            ]);
+
+            this.logger.info('Activities reassigned', {
+                fromVisitorId,
+                toVisitorId,
+                count: moved.length
+            });
+
+            return moved;
+        } catch (error) {
+            this.logger.error('Error reassigning visitor activities', {
+                fromVisitorId,
+                toVisitorId,
+                error: error.message
+            });
+            throw error;
+        }
+    }
+
     /**
      * Sanitizes activity data for GDPR compliance
+     * Without consent, custom event properties flagged as PII, captured form fields and device metadata are dropped
      * @private
      */
-    private sanitizeActivityData(data: Record<string, any>): Record<string, any> {
+    private sanitizeActivityData(data: Record<string, any>, gdprConsent: boolean): Record<string, any> {
         const sensitiveFields = ['password', 'credit_card', 'ssn'];
         const sanitized = { ...data };
         
@@ -244,19 +524,137 @@ export class ActivityService {
                 delete sanitized[field];
             }
         }
+
+        if (!gdprConsent) {
+            delete sanitized.formFields;
+        }
+
+        if (!gdprConsent && sanitized.piiProperties?.length) {
+            sanitized.properties = this.withoutPii(sanitized.properties, sanitized.piiProperties);
+            sanitized.piiProperties = [];
+        }
+
+        if (!gdprConsent && sanitized.metadata) {
+            sanitized.metadata = Object.fromEntries(
+                Object.entries(sanitized.metadata).filter(([key]) => !ANONYMOUS_MODE_DROPPED_METADATA.includes(key))
+            );
+        }
         
         return sanitized;
     }
 
     /**
-     * Stores activity in database with TTL
+     * Removes PII properties from custom event properties
+     * @private
+     */
+    private withoutPii(properties: Record<string, any> = {}, piiProperties: string[] = []): Record<string, any> {
+        return Object.fromEntries(
+            Object.entries(properties).filter(([name]) => !piiProperties.includes(name))
+        );
+    }
+
+    /**
+     * Builds the visitor update recording a custom event occurrence in the visitor's summary
+     * The summary keeps only non-PII properties since filters and CRM sync read it
+     * @private
+     */
+    private customEventSummaryUpdate(activity: IVisitorActivity): {
+        $set?: Record<string, unknown>;
+        $inc?: Record<string, number>;
+        $min?: Record<string, Date>;
+    } {
+        const { eventName, properties, piiProperties } = activity.data;
+        if (activity.type !== VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT || !eventName) {
+            return {};
+        }
+
+        const field = `${CUSTOM_EVENT_SUMMARY_FIELD}.${eventName}`;
+        return {
+            $set: {
+                [`${field}.lastOccurredAt`]: activity.timestamp,
+                [`${field}.lastProperties`]: this.withoutPii(properties, piiProperties)
+            },
+            $inc: { [`${field}.count`]: 1 },
+            $min: { [`${field}.firstOccurredAt`]: activity.timestamp }
+        };
+    }
+
+    /**
+     * Builds the visitor update recording a page view in the summaries of the content groups it belongs to
+     * @private
+     */
+    private contentGroupSummaryUpdate(activity: IVisitorActivity): {
+        $set?: Record<string, unknown>;
+        $inc?: Record<string, number>;
+        $min?: Record<string, Date>;
+    } {
+        const groups = activity.data.contentGroups || [];
+        if (activity.type !== VISITOR_ACTIVITY_TYPE.PAGE_VIEW || groups.length === 0) {
+            return {};
+        }
+
+        const fields = groups.map(group => `${CONTENT_GROUP_SUMMARY_FIELD}.${group}`);
+        return {
+            $set: Object.fromEntries(fields.map(field => [`${field}.lastViewedAt`, activity.timestamp])),
+            $inc: Object.fromEntries(fields.map(field => [`${field}.views`, 1])),
+            $min: Object.fromEntries(fields.map(field => [`${field}.firstViewedAt`, activity.timestamp]))
+        };
+    }
+
+    /**
+     * Recomputes a visitor's custom event summaries from its stored activities
      * @private
      */
-    private async storeActivity(activity: IVisitorActivity): Promise<void> {
+    private async rebuildCustomEventSummaries(visitorId: string): Promise<void> {
+        const groups = await ActivityModel.aggregate<{
+            _id: string;
+            count: number;
+            firstOccurredAt: Date;
+            lastOccurredAt: Date;
+            lastProperties?: Record<string, any>;
+            lastPiiProperties?: string[];
+        }>([
+            { $match: { visitorId, type: VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT } },
+            { $sort: { timestamp: 1 } },
+            {
+                $group: {
+                    _id: '$data.eventName',
+                    count: { $sum: 1 },
+                    firstOccurredAt: { $first: '$timestamp' },
+                    lastOccurredAt: { $last: '$timestamp' },
+                    lastProperties: { $last: '$data.properties' },
+                    lastPiiProperties: { $last: '$data.piiProperties' }
+                }
+            }
+        ]);
+
+        const summaries = groups.reduce<Record<string, ICustomEventSummary>>((result, group) => ({
+            ...result,
+            [group._id]: {
+                count: group.count,
+                firstOccurredAt: group.firstOccurredAt,
+                lastOccurredAt: group.lastOccurredAt,
+                lastProperties: this.withoutPii(group.lastProperties, group.lastPiiProperties)
+            }
+        }), {});
+
+        await VisitorModel.updateOne(
+            { _id: visitorId },
+            groups.length > 0
+                ? { $set: { [CUSTOM_EVENT_SUMMARY_FIELD]: summaries } }
+                : { $unset: { [CUSTOM_EVENT_SUMMARY_FIELD]: 1 } }
+        );
+    }
+
+    /**
+     * Stores activity in database with TTL, scoped to the visitor's company for company-wide reports
+     * @private
+     */
+    private async storeActivity(activity: IVisitorActivity, companyId: string): Promise<void> {
         const expirationDate = new Date();
         expirationDate.setDate(expirationDate.getDate() + this.activityRetentionDays);
-        
-        // Implementation details for database storage
+
+        await ActivityModel.create({ ...activity, companyId, expiresAt: expirationDate });
     }
 
     /**
@@ -316,8 +714,10 @@ export class ActivityService {
         query: Record<string, any>,
         options: IPaginationOptions
     ): Promise<IVisitorActivity[]> {
-        // Implementation details for database retrieval
-        return [];
+        return ActivityModel.find(query, { _id: 0, expiresAt: 0 })
+            .sort({ timestamp: options.sortDirection === 'asc' ? 1 : -1 })
+            .limit(options.limit)
+            .lean();
     }
 
     /**
@@ -325,8 +725,7 @@ export class ActivityService {
      * @private
      */
     private async getActivityCount(visitorId: string): Promise<number> {
-        // Implementation details for count retrieval
-        return 0;
+        return ActivityModel.countDocuments({ visitorId });
     }
 
     /**
@@ -334,6 +733,6 @@ export class ActivityService {
      * @private
      */
     private async deleteActivitiesFromDB(visitorId: string): Promise<void> {
-        // Implementation details for database deletion
+        await ActivityModel.deleteMany({ visitorId });
     }
 }
\ No newline at end of file
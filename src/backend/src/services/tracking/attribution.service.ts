@@ -0,0 +1,281 @@
+/**
+ * @fileoverview Service attributing visitors to the marketing channels and campaigns that brought them
+ * Classifies the landing page UTM parameters and referrer of every session into a channel and
+ * keeps first-touch, last-touch and multi-touch attribution on the visitor
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import { Logger } from 'winston'; // v3.8.2
+
+import {
+    ITouchpoint,
+    IVisitorAttribution,
+    IAttributionQuery,
+    IAttributionReport,
+    IAttributionCredit
+} from '../../interfaces/attribution.interface';
+import { IVisitorSession } from '../../interfaces/session.interface';
+import {
+    MARKETING_CHANNEL,
+    SEARCH_ENGINE_DOMAINS,
+    SEARCH_ENGINE_HOST_PATTERN,
+    SOCIAL_DOMAINS,
+    EMAIL_DOMAINS,
+    PAID_SEARCH_MEDIUMS,
+    SOCIAL_MEDIUMS,
+    EMAIL_MEDIUMS,
+    ORGANIC_MEDIUMS,
+    PAID_SEARCH_CLICK_IDS,
+    MAX_ATTRIBUTION_TOUCHES,
+    ATTRIBUTION_CAMPAIGNS_LIMIT
+} from '../../constants/attribution.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+
+/**
+ * Service class classifying touches and maintaining visitor attribution
+ */
+@injectable()
+export class AttributionService {
+    constructor(
+        private readonly logger: Logger,
+        private readonly visitorRepository: VisitorRepository
+    ) {
+        this.logger = logger.child({ service: 'AttributionService' });
+    }
+
+    /**
+     * Classifies a visit into a marketing channel from its landing page and referrer
+     * @param landingPage - URL the visit landed on, carrying any utm_* parameters
+     * @param referrer - Referrer of the visit
+     * @param occurredAt - Time the visit started
+     * @param customParams - Tracking parameters used when the landing page carries none
+     * @returns Classified touch
+     */
+    public classifyTouch(
+        landingPage: string | null,
+        referrer: string | null,
+        occurredAt: Date,
+        customParams: Record<string, string> = {}
+    ): ITouchpoint {
+        const landingUrl = this.parseUrl(landingPage);
+        const params = landingUrl?.searchParams;
+        const param = (name: string): string | null =>
+            (params?.get(name) || customParams[name] || '').trim() || null;
+
+        const referrerHost = this.getHost(this.parseUrl(referrer));
+        const referrerDomain = referrerHost && referrerHost !== this.getHost(landingUrl) ? referrerHost : null;
+        const source = param('utm_source')?.toLowerCase() || null;
+        const medium = param('utm_medium')?.toLowerCase() || null;
+        const campaign = param('utm_campaign');
+        const searchClick = PAID_SEARCH_CLICK_IDS.some(clickId => params?.has(clickId));
+
+        return {
+            channel: this.classifyChannel(source, medium, campaign, referrerDomain, searchClick),
+            source: source || referrerDomain,
+            medium,
+            campaign,
+            term: param('utm_term'),
+            content: param('utm_content'),
+            referrerDomain,
+            landingPage,
+            occurredAt
+        };
+    }
+
+    /**
+     * Adds a touch to a visitor's attribution
+     * Direct touches never replace a non-direct last touch
+     * @param attribution - Current attribution, null for the visitor's first touch
+     * @param touch - New touch
+     * @returns Updated attribution
+     */
+    public applyTouch(attribution: IVisitorAttribution | null | undefined, touch: ITouchpoint): IVisitorAttribution {
+        if (!attribution) {
+            return { firstTouch: touch, lastTouch: touch, touches: [touch] };
+        }
+
+        const keepLastTouch = touch.channel === MARKETING_CHANNEL.DIRECT &&
+            attribution.lastTouch.channel !== MARKETING_CHANNEL.DIRECT;
+
+        return {
+            firstTouch: attribution.firstTouch,
+            lastTouch: keepLastTouch ? attribution.lastTouch : touch,
+            touches: [...attribution.touches, touch].slice(-MAX_ATTRIBUTION_TOUCHES)
+        };
+    }
+
+    /**
+     * Records the touch of a newly started session on its visitor
+     * The visitor's stored referrer and custom parameters stand in for the first session's
+     * @param session - Session that just started
+     */
+    public async recordSessionTouch(session: IVisitorSession): Promise<void> {
+        const visitor = await this.visitorRepository.findById(session.visitorId);
+        if (!visitor) {
+            return;
+        }
+
+        const isFirstTouch = !visitor.attribution;
+        const touch = this.classifyTouch(
+            session.landingPage,
+            session.referrer || (isFirstTouch ? visitor.metadata?.referrer || null : null),
+            new Date(session.startedAt),
+            isFirstTouch ? visitor.metadata?.customParams : undefined
+        );
+
+        await this.visitorRepository.patch(visitor.id, {
+            attribution: this.applyTouch(visitor.attribution, touch)
+        });
+
+        this.logger.debug('Touch recorded', { visitorId: visitor.id, channel: touch.channel });
+    }
+
+    /**
+     * Recomputes a visitor's attribution from its sessions, e.g. after a merge regrouped them
+     * @param visitorId - Visitor whose attribution is rebuilt
+     * @param sessions - Sessions of the visitor, oldest first
+     */
+    public async rebuildVisitorAttribution(visitorId: string, sessions: IVisitorSession[]): Promise<void> {
+        const visitor = await this.visitorRepository.findById(visitorId);
+        if (!visitor) {
+            return;
+        }
+
+        const attribution = sessions.reduce<IVisitorAttribution | null>((current, session, index) =>
+            this.applyTouch(current, this.classifyTouch(
+                session.landingPage,
+                session.referrer || (index === 0 ? visitor.metadata?.referrer || null : null),
+                new Date(session.startedAt),
+                index === 0 ? visitor.metadata?.customParams : undefined
+            )), null);
+
+        await this.visitorRepository.patch(visitorId, { attribution });
+
+        this.logger.info('Attribution rebuilt', { visitorId, touches: attribution?.touches.length || 0 });
+    }
+
+    /**
+     * Reports a company's identified and enriched visitors by channel and campaign
+     * @param companyId - Company owning the visitors
+     * @param query - Attribution model and first-seen cutoff
+     * @returns Attribution report with credit rounded to two decimals
+     */
+    public async getAttributionReport(companyId: string, query: IAttributionQuery): Promise<IAttributionReport> {
+        const { channels, campaigns } = await this.visitorRepository.aggregateAttribution(
+            companyId,
+            query,
+            ATTRIBUTION_CAMPAIGNS_LIMIT
+        );
+
+        return {
+            model: query.model,
+            channels: channels.map(row => this.roundCredit(row)),
+            campaigns: campaigns.map(row => this.roundCredit(row))
+        };
+    }
+
+    /**
+     * Derives the channel of a touch
+     * Email and social signals take precedence so paid social is not counted as paid search
+     * @private
+     */
+    private classifyChannel(
+        source: string | null,
+        medium: string | null,
+        campaign: string | null,
+        referrerDomain: string | null,
+        searchClick: boolean
+    ): MARKETING_CHANNEL {
+        if ((medium && EMAIL_MEDIUMS.has(medium)) ||
+            this.matchesDomain(referrerDomain, EMAIL_DOMAINS) ||
+            this.matchesSource(source, EMAIL_DOMAINS)) {
+            return MARKETING_CHANNEL.EMAIL;
+        }
+        if ((medium && SOCIAL_MEDIUMS.has(medium)) ||
+            this.matchesDomain(referrerDomain, SOCIAL_DOMAINS) ||
+            this.matchesSource(source, SOCIAL_DOMAINS)) {
+            return MARKETING_CHANNEL.SOCIAL;
+        }
+        if (searchClick || (medium && PAID_SEARCH_MEDIUMS.has(medium))) {
+            return MARKETING_CHANNEL.PAID_SEARCH;
+        }
+        if (this.isSearchEngine(referrerDomain) ||
+            (this.matchesSource(source, SEARCH_ENGINE_DOMAINS) && (!medium || ORGANIC_MEDIUMS.has(medium)))) {
+            return MARKETING_CHANNEL.ORGANIC_SEARCH;
+        }
+        if (!referrerDomain && !source && !medium && !campaign) {
+            return MARKETING_CHANNEL.DIRECT;
+        }
+        return MARKETING_CHANNEL.REFERRAL;
+    }
+
+    /**
+     * Checks whether a host is a search engine
+     * @private
+     */
+    private isSearchEngine(host: string | null): boolean {
+        return !!host && (this.matchesDomain(host, SEARCH_ENGINE_DOMAINS) || SEARCH_ENGINE_HOST_PATTERN.test(host));
+    }
+
+    /**
+     * Checks whether a host is one of the domains or a subdomain of one
+     * @private
+     */
+    private matchesDomain(host: string | null, domains: ReadonlySet<string>): boolean {
+        if (!host) {
+            return false;
+        }
+        const labels = host.split('.');
+        return labels.some((_, index) => domains.has(labels.slice(index).join('.')));
+    }
+
+    /**
+     * Checks whether a utm_source names one of the domains, e.g. "linkedin" or "linkedin.com"
+     * @private
+     */
+    private matchesSource(source: string | null, domains: ReadonlySet<string>): boolean {
+        if (!source) {
+            return false;
+        }
+        return this.matchesDomain(source.replace(/^www\./, ''), domains) ||
+            [...domains].some(domain => domain.slice(0, domain.lastIndexOf('.')) === source);
+    }
+
+    /**
+     * Parses an absolute URL
+     * @private
+     */
+    private parseUrl(value: string | null | undefined): URL | null {
+        if (!value) {
+            return null;
+        }
+        try {
+            return new URL(value);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Reads the lower-cased host of a URL without www
+     * @private
+     */
+    private getHost(url: URL | null): string | null {
+        return url?.hostname ? url.hostname.toLowerCase().replace(/^www\./, '') : null;
+    }
+
+    /**
+     * Rounds fractional linear credit to two decimals
+     * @private
+     */
+    private roundCredit<T extends IAttributionCredit>(row: T): T {
+        const round = (value: number): number => Math.round(value * 100) / 100;
+        return {
+            ...row,
+            visitors: round(row.visitors),
+            identified: round(row.identified),
+            enriched: round(row.enriched)
+        };
+    }
+}
@@ -0,0 +1,223 @@
+/**
+ * @fileoverview Service managing visitor consent by purpose (GDPR/ePrivacy)
+ * Records consent decisions with their source, answers whether a purpose may be processed
+ * and exports the consent history for audits
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import { IVisitor, IIdentificationData } from '../../interfaces/visitor.interface';
+import {
+    IConsentExportQuery,
+    IConsentPurposes,
+    IConsentRecord,
+    IConsentState,
+    IConsentUpdate
+} from '../../interfaces/consent.interface';
+import {
+    CONSENT_PURPOSE,
+    CONSENT_SOURCE,
+    IDENTIFICATION_CONSENT_PURPOSES,
+    CONSENTED_RETENTION_DAYS,
+    ANONYMOUS_RETENTION_DAYS,
+    CONSENT_EXPORT_MAX_RECORDS
+} from '../../constants/consent.constants';
+import { VISITOR_STATUS } from '../../constants/visitor.constants';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { ConsentRepository } from '../../db/repositories/consent.repository';
+import { createError } from '../../utils/error.util';
+import { addDuration } from '../../utils/date.util';
+import { anonymizeIp } from '../../utils/ip.util';
+
+/**
+ * Service recording and enforcing visitor consent
+ */
+@Injectable()
+export class ConsentService {
+    private readonly logger = new Logger(ConsentService.name);
+
+    constructor(
+        private readonly visitorRepository: VisitorRepository,
+        private readonly consentRepository: ConsentRepository
+    ) {}
+
+    /**
+     * Checks whether a visitor's data may be processed for a purpose
+     * Visitors without consent records predate consent management: their legacy analytics
+     * flag is honored, and their identification was only accepted with consent to it
+     * @param visitor - Visitor to check
+     * @param purpose - Processing purpose
+     * @returns Whether the visitor consented to the purpose
+     */
+    public hasConsent(visitor: IVisitor, purpose: CONSENT_PURPOSE): boolean {
+        if (visitor.consent) {
+            return visitor.consent[purpose]?.granted === true;
+        }
+
+        if (purpose === CONSENT_PURPOSE.ANALYTICS) {
+            return visitor.gdprConsent === true;
+        }
+        return [VISITOR_STATUS.IDENTIFIED, VISITOR_STATUS.ENRICHED].includes(visitor.status);
+    }
+
+    /**
+     * Rejects processing a visitor's data for a purpose the visitor did not consent to
+     * @throws AppError when the visitor did not consent to the purpose
+     */
+    public assertConsent(visitor: IVisitor, purpose: CONSENT_PURPOSE): void {
+        if (!this.hasConsent(visitor, purpose)) {
+            throw createError(
+                `Visitor has not consented to ${purpose}`,
+                ErrorCodes.FORBIDDEN,
+                ErrorTypes.AUTHORIZATION_ERROR,
+                { visitorId: visitor.id, purpose }
+            );
+        }
+    }
+
+    /**
+     * Records consent decisions of a visitor
+     * Only decisions that change a purpose's state are written to the history; granting or
+     * withdrawing analytics consent also moves the visitor in or out of anonymous mode
+     * @param visitor - Visitor the decisions belong to
+     * @param update - Decisions by purpose and where they were collected
+     * @returns Visitor with its updated consent
+     */
+    public async recordConsent(visitor: IVisitor, update: IConsentUpdate): Promise<IVisitor> {
+        const current = visitor.consent || {};
+        const recordedAt = new Date();
+        const changes = (Object.entries(update.purposes) as [CONSENT_PURPOSE, boolean][])
+            .filter(([purpose, granted]) => granted !== undefined && current[purpose]?.granted !== granted);
+
+        if (changes.length === 0) {
+            return visitor;
+        }
+
+        const records: IConsentRecord[] = changes.map(([purpose, granted]) => ({
+            id: randomUUID(),
+            companyId: visitor.companyId,
+            visitorId: visitor.id,
+            purpose,
+            granted,
+            source: update.source,
+            policyVersion: update.policyVersion || null,
+            recordedBy: update.recordedBy || null,
+            userAgent: update.userAgent || null,
+            recordedAt
+        }));
+        await this.consentRepository.createMany(records);
+
+        const consent: IConsentState = { ...current };
+        for (const [purpose, granted] of changes) {
+            consent[purpose] = { granted, source: update.source, recordedAt };
+        }
+
+        const patch: Record<string, unknown> = { consent };
+        const gdprConsent = consent[CONSENT_PURPOSE.ANALYTICS]?.granted ?? visitor.gdprConsent;
+        if (changes.some(([purpose]) => purpose === CONSENT_PURPOSE.ANALYTICS)) {
+            patch.gdprConsent = gdprConsent;
+            patch.retentionDate = addDuration(
+                recordedAt,
+                gdprConsent ? CONSENTED_RETENTION_DAYS : ANONYMOUS_RETENTION_DAYS,
+                'day'
+            );
+            // Withdrawing analytics consent anonymizes the IP address like visitors tracked without it
+            if (!gdprConsent && visitor.metadata?.ipAddress) {
+                patch['metadata.ipAddress'] = anonymizeIp(visitor.metadata.ipAddress);
+            }
+        }
+
+        this.logger.log(
+            `Consent of visitor ${visitor.id} updated from ${update.source}: ` +
+            changes.map(([purpose, granted]) => `${purpose}=${granted}`).join(', ')
+        );
+
+        const updated = await this.visitorRepository.patch(visitor.id, patch as Partial<IVisitor>);
+        return updated || { ...visitor, consent, gdprConsent };
+    }
+
+    /**
+     * Records the consent an identification was submitted with
+     * Consent to identification is implied by the submission; the other purposes it covers
+     * are granted unless the submission declines them
+     * @param visitor - Visitor being identified
+     * @param data - Identification data submitted with consent
+     * @param source - Where the identification came from
+     * @param userAgent - Browser user agent of the submission
+     * @returns Visitor with its updated consent
+     */
+    public async recordIdentificationConsent(
+        visitor: IVisitor,
+        data: IIdentificationData,
+        source: CONSENT_SOURCE,
+        userAgent?: string
+    ): Promise<IVisitor> {
+        const purposes: IConsentPurposes = {
+            ...Object.fromEntries(IDENTIFICATION_CONSENT_PURPOSES.map(purpose => [purpose, true])),
+            ...data.consent,
+            [CONSENT_PURPOSE.IDENTIFICATION]: true
+        };
+
+        return this.recordConsent(visitor, { purposes, source, userAgent });
+    }
+
+    /**
+     * Records consent decisions a team member made on a visitor's behalf
+     * @param companyId - Company of the team member
+     * @param visitorId - Visitor the decisions belong to
+     * @param purposes - Decisions by purpose
+     * @param userId - Team member recording the decisions
+     * @returns Visitor with its updated consent
+     * @throws AppError when the visitor does not exist or belongs to another company
+     */
+    public async recordAdminConsent(
+        companyId: string,
+        visitorId: string,
+        purposes: IConsentPurposes,
+        userId: string
+    ): Promise<IVisitor> {
+        const visitor = await this.findCompanyVisitor(companyId, visitorId);
+        return this.recordConsent(visitor, { purposes, source: CONSENT_SOURCE.ADMIN, recordedBy: userId });
+    }
+
+    /**
+     * Retrieves the consent history of a visitor, most recent first
+     * @param companyId - Company of the requesting user
+     * @param visitorId - Visitor to look up
+     * @returns Consent records
+     * @throws AppError when the visitor does not exist or belongs to another company
+     */
+    public async getConsentHistory(companyId: string, visitorId: string): Promise<IConsentRecord[]> {
+        await this.findCompanyVisitor(companyId, visitorId);
+        return this.consentRepository.findByVisitor(visitorId);
+    }
+
+    /**
+     * Exports a company's consent history for audits, oldest first
+     * Records outlive the visitors they belong to so withdrawals stay provable after deletion
+     * @param companyId - Company owning the visitors
+     * @param query - Time range and visitor filters
+     * @returns Consent records, at most CONSENT_EXPORT_MAX_RECORDS
+     */
+    public async exportConsentHistory(companyId: string, query: IConsentExportQuery = {}): Promise<IConsentRecord[]> {
+        const records = await this.consentRepository.findByCompany(companyId, query, CONSENT_EXPORT_MAX_RECORDS);
+
+        this.logger.log(`Exported ${records.length} consent records of company ${companyId}`);
+        return records;
+    }
+
+    /**
+     * Loads a visitor of a company
+     * @throws AppError when the visitor does not exist or belongs to another company
+     */
+    private async findCompanyVisitor(companyId: string, visitorId: string): Promise<IVisitor> {
+        const visitor = await this.visitorRepository.findById(visitorId);
+        if (!visitor || visitor.companyId !== companyId) {
+            throw createError('Visitor not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, { visitorId });
+        }
+        return visitor;
+    }
+}
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Service normalizing tracked URLs and grouping page views into company-defined content groups
+ * Canonicalizes page URLs at ingestion so variants of a page compare equal, classifies page views
+ * by path pattern, keeps per-visitor group summaries for visitor filters and reports group engagement
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import {
+    IContentDefinitions,
+    IContentGroupSummary,
+    IContentGroupReport,
+    IContentReportQuery,
+    IContentPageReport
+} from '../../interfaces/content.interface';
+import {
+    DEFAULT_URL_NORMALIZATION,
+    DEFAULT_CONTENT_REPORT_DAYS,
+    CONTENT_REPORT_TOP_PAGES
+} from '../../constants/content.constants';
+import { VISITOR_ACTIVITY_TYPE } from '../../constants/visitor.constants';
+import ActivityModel from '../../db/models/activity.model';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { normalizeUrl, getUrlPath, matchesPathPattern } from '../../utils/url.util';
+import { addDuration } from '../../utils/date.util';
+
+/**
+ * Service applying company-defined URL normalization and content groups to page views
+ */
+@Injectable()
+export class ContentGroupService {
+    private readonly logger = new Logger(ContentGroupService.name);
+
+    constructor(
+        private readonly companyRepository: CompanyRepository,
+        private readonly visitorRepository: VisitorRepository
+    ) {}
+
+    /**
+     * Reads the URL normalization rules and content groups a company has defined
+     * @param companyId - Company to look up
+     * @returns Normalization rules, defaults filling unset rules, and content groups, empty when none are defined
+     */
+    public async getDefinitions(companyId: string): Promise<IContentDefinitions> {
+        const company = await this.companyRepository.findById(companyId);
+        return {
+            urlNormalization: { ...DEFAULT_URL_NORMALIZATION, ...company?.settings?.urlNormalization },
+            contentGroups: company?.settings?.contentGroups || []
+        };
+    }
+
+    /**
+     * Normalizes the URL of an activity and assigns page views to the content groups their path matches
+     * The tracked URL is kept as rawUrl when normalization changes it, since campaign parameters are read
+     * from it; only human page views are grouped, so content reports count people
+     * @param definitions - Normalization rules and content groups of the visitor's company
+     * @param type - Activity type
+     * @param data - Activity data as tracked
+     * @param isBot - Whether the visitor is flagged as a bot
+     * @returns Activity data with the normalized URL and, for human page views, the matched group IDs
+     */
+    public classifyActivityData<T extends { url?: string }>(
+        definitions: IContentDefinitions,
+        type: VISITOR_ACTIVITY_TYPE,
+        data: T,
+        isBot: boolean
+    ): T & { rawUrl?: string; contentGroups?: string[] } {
+        const rawUrl = typeof data.url === 'string' && data.url ? data.url : null;
+        const url = rawUrl && normalizeUrl(rawUrl, definitions.urlNormalization);
+        const classified: T & { rawUrl?: string; contentGroups?: string[] } = {
+            ...data,
+            ...(url && { url }),
+            ...(url && url !== rawUrl && { rawUrl })
+        };
+
+        if (type === VISITOR_ACTIVITY_TYPE.PAGE_VIEW && !isBot) {
+            const path = url && getUrlPath(url);
+            classified.contentGroups = path
+                ? definitions.contentGroups
+                    .filter(group => group.pathPatterns.some(pattern => matchesPathPattern(path, pattern)))
+                    .map(group => group.id)
+                : [];
+        }
+
+        return classified;
+    }
+
+    /**
+     * Recomputes a visitor's content group summaries from its stored page views
+     * @param visitorId - Visitor whose summaries are rebuilt
+     */
+    public async rebuildSummaries(visitorId: string): Promise<void> {
+        const groups = await ActivityModel.aggregate<{
+            _id: string;
+            views: number;
+            firstViewedAt: Date;
+            lastViewedAt: Date;
+        }>([
+            { $match: { visitorId, type: VISITOR_ACTIVITY_TYPE.PAGE_VIEW, 'data.contentGroups.0': { $exists: true } } },
+            { $unwind: '$data.contentGroups' },
+            {
+                $group: {
+                    _id: '$data.contentGroups',
+                    views: { $sum: 1 },
+                    firstViewedAt: { $min: '$timestamp' },
+                    lastViewedAt: { $max: '$timestamp' }
+                }
+            }
+        ]);
+
+        const contentGroups = groups.reduce<Record<string, IContentGroupSummary>>((result, group) => ({
+            ...result,
+            [group._id]: {
+                views: group.views,
+                firstViewedAt: group.firstViewedAt,
+                lastViewedAt: group.lastViewedAt
+            }
+        }), {});
+
+        await this.visitorRepository.patch(visitorId, { contentGroups });
+    }
+
+    /**
+     * Reports page views of every content group of a company over a time range
+     * Only page views grouped at ingestion are counted, so bot traffic and page views
+     * tracked before content grouping are left out
+     * @param companyId - Company owning the content groups
+     * @param query - Report time range
+     * @returns Page views, viewing visitors, share of page views and top pages per group
+     */
+    public async getContentGroupReport(companyId: string, query: IContentReportQuery): Promise<IContentGroupReport> {
+        const to = query.to || new Date();
+        const from = query.from || addDuration(to, -DEFAULT_CONTENT_REPORT_DAYS, 'day');
+        const match = {
+            companyId,
+            type: VISITOR_ACTIVITY_TYPE.PAGE_VIEW,
+            timestamp: { $gte: from, $lt: to }
+        };
+
+        const { contentGroups } = await this.getDefinitions(companyId);
+        const [stats, pageViews] = await Promise.all([
+            ActivityModel.aggregate<{
+                _id: string;
+                views: number;
+                visitors: number;
+                topPages: IContentPageReport[];
+            }>([
+                { $match: { ...match, 'data.contentGroups.0': { $exists: true } } },
+                { $unwind: '$data.contentGroups' },
+                {
+                    $group: {
+                        _id: { group: '$data.contentGroups', url: '$data.url' },
+                        views: { $sum: 1 },
+                        visitorIds: { $addToSet: '$visitorId' }
+                    }
+                },
+                { $sort: { views: -1, '_id.url': 1 } },
+                {
+                    $group: {
+                        _id: '$_id.group',
+                        views: { $sum: '$views' },
+                        visitorIds: { $push: '$visitorIds' },
+                        pages: { $push: { url: '$_id.url', views: '$views' } }
+                    }
+                },
+                {
+                    $project: {
+                        views: 1,
+                        visitors: {
+                            $size: {
+                                $reduce: {
+                                    input: '$visitorIds',
+                                    initialValue: [],
+                                    in: { $setUnion: ['$$value', '$$this'] }
+                                }
+                            }
+                        },
+                        topPages: { $slice: ['$pages', CONTENT_REPORT_TOP_PAGES] }
+                    }
+                }
+            ]),
+            ActivityModel.countDocuments({ ...match, 'data.contentGroups': { $exists: true } })
+        ]);
+        const statsByGroup = new Map(stats.map(row => [row._id, row]));
+
+        this.logger.log(`Reported ${contentGroups.length} content groups of company ${companyId}`);
+
+        return {
+            from,
+            to,
+            pageViews,
+            groups: contentGroups.map(group => {
+                const { views, visitors, topPages } = statsByGroup.get(group.id) || { views: 0, visitors: 0, topPages: [] };
+                return {
+                    groupId: group.id,
+                    name: group.name,
+                    views,
+                    visitors,
+                    viewShare: pageViews > 0 ? Math.round((views / pageViews) * 10000) / 10000 : 0,
+                    topPages
+                };
+            })
+        };
+    }
+}
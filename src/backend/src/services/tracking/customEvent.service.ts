@@ -0,0 +1,139 @@
+/**
+ * @fileoverview Service validating custom events against the schemas companies register
+ * Rejects unregistered events, undeclared or mistyped properties and missing required
+ * properties, and reports which supplied properties hold personal data
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import { ICustomEventData, ICustomEventDefinition, ICustomEventProperty } from '../../interfaces/customEvent.interface';
+import {
+    CUSTOM_EVENT_PROPERTY_TYPE,
+    MAX_CUSTOM_EVENT_STRING_LENGTH
+} from '../../constants/customEvent.constants';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { createError } from '../../utils/error.util';
+
+/**
+ * Service enforcing company-defined custom event schemas
+ */
+@Injectable()
+export class CustomEventService {
+    private readonly logger = new Logger(CustomEventService.name);
+
+    constructor(private readonly companyRepository: CompanyRepository) {}
+
+    /**
+     * Lists the custom events a company has registered
+     * @param companyId - Company to look up
+     * @returns Event definitions, empty when the company has none
+     */
+    public async getDefinitions(companyId: string): Promise<ICustomEventDefinition[]> {
+        const company = await this.companyRepository.findById(companyId);
+        return company?.settings?.customEvents || [];
+    }
+
+    /**
+     * Validates a custom event against the company's registered schema
+     * @param companyId - Company the event was tracked for
+     * @param eventName - Name of the event
+     * @param properties - Property values supplied with the event
+     * @returns Event with its properties coerced to their declared types
+     * @throws AppError when the event is not registered or its properties do not match
+     */
+    public async validateEvent(
+        companyId: string,
+        eventName: unknown,
+        properties: unknown = {}
+    ): Promise<ICustomEventData> {
+        const definitions = await this.getDefinitions(companyId);
+        const definition = definitions.find(candidate => candidate.name === eventName);
+        if (!definition) {
+            throw this.invalidEvent(companyId, eventName, [`Unknown custom event ${String(eventName)}`]);
+        }
+
+        if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+            throw this.invalidEvent(companyId, eventName, ['Custom event properties must be an object']);
+        }
+
+        const supplied = properties as Record<string, unknown>;
+        const declared = new Map(definition.properties.map(property => [property.name, property]));
+        const errors: string[] = [];
+        const data: ICustomEventData = { eventName: definition.name, properties: {}, piiProperties: [] };
+
+        for (const name of Object.keys(supplied)) {
+            if (!declared.has(name)) {
+                errors.push(`Undeclared property ${name}`);
+            }
+        }
+
+        for (const property of definition.properties) {
+            const value = supplied[property.name];
+            if (value === undefined || value === null) {
+                if (property.required) {
+                    errors.push(`Missing required property ${property.name}`);
+                }
+                continue;
+            }
+
+            const coerced = this.coerceValue(property, value);
+            if (coerced === undefined) {
+                errors.push(`Property ${property.name} must be of type ${property.type}`);
+                continue;
+            }
+
+            data.properties[property.name] = coerced;
+            if (property.pii) {
+                data.piiProperties.push(property.name);
+            }
+        }
+
+        if (errors.length > 0) {
+            throw this.invalidEvent(companyId, eventName, errors);
+        }
+
+        return data;
+    }
+
+    /**
+     * Coerces a property value to its declared type
+     * @returns Undefined when the value does not have the declared type
+     */
+    private coerceValue(
+        property: ICustomEventProperty,
+        value: unknown
+    ): string | number | boolean | Date | undefined {
+        switch (property.type) {
+            case CUSTOM_EVENT_PROPERTY_TYPE.STRING:
+                return typeof value === 'string' && value.length <= MAX_CUSTOM_EVENT_STRING_LENGTH ? value : undefined;
+            case CUSTOM_EVENT_PROPERTY_TYPE.NUMBER:
+                return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+            case CUSTOM_EVENT_PROPERTY_TYPE.BOOLEAN:
+                return typeof value === 'boolean' ? value : undefined;
+            case CUSTOM_EVENT_PROPERTY_TYPE.DATE: {
+                if (typeof value !== 'string' && typeof value !== 'number') {
+                    return undefined;
+                }
+                const date = new Date(value);
+                return Number.isNaN(date.getTime()) ? undefined : date;
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Builds the error returned for rejected events, logging the reasons
+     */
+    private invalidEvent(companyId: string, eventName: unknown, errors: string[]): Error {
+        this.logger.warn(`Rejected custom event ${String(eventName)} for company ${companyId}: ${errors.join('; ')}`);
+        return createError(
+            `Invalid custom event ${String(eventName)}`,
+            ErrorCodes.VALIDATION_FAILED,
+            ErrorTypes.VALIDATION_ERROR,
+            { companyId, eventName, errors }
+        );
+    }
+}
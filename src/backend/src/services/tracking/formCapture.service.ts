@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Service capturing mapped form fields from FORM_SUBMIT activities
+ * Applies the per-form input mappings companies configure, never keeping passwords, payment
+ * details or inputs the company marks as sensitive, and tells the SDK which inputs to send
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import {
+    IFormCaptureSettings,
+    IFormFieldMapping,
+    ITrackingForm,
+    ICapturedForm
+} from '../../interfaces/formCapture.interface';
+import {
+    FORM_CAPTURE_FIELD,
+    ALWAYS_SENSITIVE_INPUT_PATTERN,
+    CONSENT_INPUT_VALUES,
+    FORM_VALUE_MAX_LENGTH
+} from '../../constants/formCapture.constants';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { validateEmail } from '../../utils/validation.util';
+
+/**
+ * Service applying company-defined form field mappings to form submissions
+ */
+@Injectable()
+export class FormCaptureService {
+    private readonly logger = new Logger(FormCaptureService.name);
+
+    constructor(private readonly companyRepository: CompanyRepository) {}
+
+    /**
+     * Reads the form capture settings of a company
+     * @param companyId - Company to look up
+     * @returns Form capture settings, null when the company has none
+     */
+    public async getSettings(companyId: string): Promise<IFormCaptureSettings | null> {
+        const company = await this.companyRepository.findById(companyId);
+        return company?.settings?.formCapture || null;
+    }
+
+    /**
+     * Lists the forms and inputs the SDK sends with form submissions
+     * @param settings - Form capture settings of the company
+     * @returns Mapped inputs per form, sensitive inputs excluded; empty unless capture is enabled
+     */
+    public getTrackingForms(settings: IFormCaptureSettings | null | undefined): ITrackingForm[] {
+        if (!settings?.enabled) {
+            return [];
+        }
+
+        return settings.forms.map(form => ({
+            formId: form.formId,
+            fields: [...new Set([...Object.values(form.fields), form.consentField])]
+                .filter((name): name is string => !!name && !this.isSensitive(settings, name))
+        }));
+    }
+
+    /**
+     * Captures the mapped fields of a form submission
+     * Unmapped and sensitive inputs are dropped, and emails that are not valid are left out
+     * @param settings - Form capture settings of the company
+     * @param formId - Submitted form
+     * @param submitted - Submitted input values by input name
+     * @returns Captured fields, null when capture is disabled, the form is not mapped or nothing was captured
+     */
+    public captureForm(
+        settings: IFormCaptureSettings | null,
+        formId: string | undefined,
+        submitted: unknown
+    ): ICapturedForm | null {
+        const mapping = settings?.enabled && formId && settings.forms.find(form => form.formId === formId);
+        if (!settings || !mapping || !submitted || typeof submitted !== 'object') {
+            return null;
+        }
+
+        const values = submitted as Record<string, unknown>;
+        const fields: Partial<Record<FORM_CAPTURE_FIELD, string>> = {};
+        for (const [field, input] of Object.entries(mapping.fields) as Array<[FORM_CAPTURE_FIELD, string]>) {
+            const value = this.readValue(settings, values, input);
+            if (value && (field !== FORM_CAPTURE_FIELD.EMAIL || validateEmail(value))) {
+                fields[field] = value;
+            }
+        }
+        if (Object.keys(fields).length === 0) {
+            return null;
+        }
+
+        this.logger.debug(`Captured ${Object.keys(fields).length} fields of form ${formId}`);
+
+        return {
+            fields,
+            consentGiven: this.isConsentGiven(settings, mapping, values),
+            autoIdentify: mapping.autoIdentify !== false
+        };
+    }
+
+    /**
+     * Reads a submitted value as a trimmed string, refusing sensitive inputs
+     */
+    private readValue(settings: IFormCaptureSettings, values: Record<string, unknown>, input: string): string | null {
+        const value = values[input];
+        if (this.isSensitive(settings, input) || (typeof value !== 'string' && typeof value !== 'number')) {
+            return null;
+        }
+        const text = String(value).trim();
+        return text ? text.slice(0, FORM_VALUE_MAX_LENGTH) : null;
+    }
+
+    /**
+     * Whether the form's consent checkbox was submitted checked
+     */
+    private isConsentGiven(
+        settings: IFormCaptureSettings,
+        mapping: IFormFieldMapping,
+        values: Record<string, unknown>
+    ): boolean {
+        if (!mapping.consentField || this.isSensitive(settings, mapping.consentField)) {
+            return false;
+        }
+        const value = values[mapping.consentField];
+        return value === true || CONSENT_INPUT_VALUES.includes(String(value).trim().toLowerCase());
+    }
+
+    /**
+     * Whether an input is never captured, matched case-insensitively
+     */
+    private isSensitive(settings: IFormCaptureSettings, input: string): boolean {
+        return ALWAYS_SENSITIVE_INPUT_PATTERN.test(input) ||
+            (settings.sensitiveFields || []).some(name => name.toLowerCase() === input.toLowerCase());
+    }
+}
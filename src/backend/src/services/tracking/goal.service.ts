@@ -0,0 +1,370 @@
+/**
+ * @fileoverview Service recording conversion goal completions and reporting goal and funnel conversion
+ * Evaluates visitor activities against the goals companies define, keeps per-visitor completion
+ * summaries for scoring and CRM sync, and computes funnel conversion, drop-off and time-to-convert
+ * @version 1.0.0
+ */
+
+import { randomUUID } from 'crypto';
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import { IVisitor } from '../../interfaces/visitor.interface';
+import {
+    IGoalDefinition,
+    IFunnelDefinition,
+    IGoalActivity,
+    IGoalCompletion,
+    IGoalReport,
+    IGoalReportQuery,
+    IFunnelReport,
+    IFunnelReportQuery,
+    IFunnelConversion,
+    IFunnelStepReport
+} from '../../interfaces/goal.interface';
+import {
+    GOAL_TYPE,
+    FUNNEL_SEGMENT,
+    DEFAULT_FUNNEL_WINDOW_DAYS,
+    DEFAULT_GOAL_REPORT_DAYS,
+    UNKNOWN_SEGMENT
+} from '../../constants/goal.constants';
+import { VISITOR_ACTIVITY_TYPE } from '../../constants/visitor.constants';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { GoalCompletionRepository } from '../../db/repositories/goalCompletion.repository';
+import { createError } from '../../utils/error.util';
+import { addDuration } from '../../utils/date.util';
+
+/**
+ * Service evaluating company-defined goals and funnels over visitor activity
+ */
+@Injectable()
+export class GoalService {
+    private readonly logger = new Logger(GoalService.name);
+
+    constructor(
+        private readonly companyRepository: CompanyRepository,
+        private readonly visitorRepository: VisitorRepository,
+        private readonly goalCompletionRepository: GoalCompletionRepository
+    ) {}
+
+    /**
+     * Lists the goals and funnels a company has defined
+     * @param companyId - Company to look up
+     * @returns Goal and funnel definitions, empty when the company has none
+     */
+    public async getDefinitions(companyId: string): Promise<{ goals: IGoalDefinition[]; funnels: IFunnelDefinition[] }> {
+        const company = await this.companyRepository.findById(companyId);
+        return {
+            goals: company?.settings?.goals || [],
+            funnels: company?.settings?.funnels || []
+        };
+    }
+
+    /**
+     * Records the goals a visitor's activities complete and refreshes the visitor's completion summary
+     * Bot traffic never completes goals
+     * @param visitor - Visitor performing the activities
+     * @param activities - Stored activities of the visitor
+     * @returns IDs of the goals completed, empty when none matched
+     */
+    public async recordCompletions(visitor: IVisitor, activities: IGoalActivity[]): Promise<string[]> {
+        if (visitor.trafficQuality?.isBot || activities.length === 0) {
+            return [];
+        }
+
+        const { goals } = await this.getDefinitions(visitor.companyId);
+        const completions: IGoalCompletion[] = activities.flatMap(activity =>
+            goals
+                .filter(goal => this.matchesGoal(goal, activity))
+                .map(goal => ({
+                    id: randomUUID(),
+                    companyId: visitor.companyId,
+                    visitorId: visitor.id,
+                    goalId: goal.id,
+                    activityId: activity.id,
+                    completedAt: activity.timestamp
+                }))
+        );
+        if (completions.length === 0) {
+            return [];
+        }
+
+        await this.goalCompletionRepository.createMany(completions);
+        await this.rebuildSummaries(visitor.id);
+
+        return [...new Set(completions.map(completion => completion.goalId))];
+    }
+
+    /**
+     * Moves goal completions along with reassigned activities and refreshes both visitors' summaries
+     * @param fromVisitorId - Visitor previously owning the activities
+     * @param toVisitorId - Visitor now owning the activities
+     * @param activityIds - Activities that moved
+     */
+    public async reassignCompletions(fromVisitorId: string, toVisitorId: string, activityIds: string[]): Promise<void> {
+        await this.goalCompletionRepository.reassignActivities(activityIds, toVisitorId);
+        await Promise.all([
+            this.rebuildSummaries(fromVisitorId),
+            this.rebuildSummaries(toVisitorId)
+        ]);
+    }
+
+    /**
+     * Deletes a visitor's goal completions along with its activities
+     * @param visitorId - Visitor whose completions are deleted
+     */
+    public async deleteVisitorCompletions(visitorId: string): Promise<void> {
+        await this.goalCompletionRepository.deleteByVisitor(visitorId);
+    }
+
+    /**
+     * Reports completions of every goal of a company over a time range
+     * @param companyId - Company owning the goals
+     * @param query - Report time range
+     * @returns Completions, completing visitors and conversion rate per goal
+     */
+    public async getGoalReport(companyId: string, query: IGoalReportQuery): Promise<IGoalReport> {
+        const { from, to } = this.resolveRange(query);
+        const { goals } = await this.getDefinitions(companyId);
+        const [stats, activeVisitors] = await Promise.all([
+            this.goalCompletionRepository.aggregateByGoal(companyId, from, to),
+            this.visitorRepository.countActive(companyId, from, to)
+        ]);
+
+        return {
+            from,
+            to,
+            activeVisitors,
+            goals: goals.map(goal => {
+                const { completions, visitors } = stats.get(goal.id) || { completions: 0, visitors: 0 };
+                return {
+                    goalId: goal.id,
+                    name: goal.name,
+                    type: goal.type,
+                    completions,
+                    visitors,
+                    conversionRate: this.ratio(visitors, activeVisitors)
+                };
+            })
+        };
+    }
+
+    /**
+     * Reports how visitors progress through a funnel over a time range
+     * Visitors enter with their first completion of the first step in the range and reach a step
+     * by completing it after the previous one within the funnel window; bots are left out
+     * @param companyId - Company owning the funnel
+     * @param funnelId - Funnel to report
+     * @param query - Report time range and optional segmentation
+     * @returns Conversion, drop-off and time-to-convert per step, overall and per segment
+     * @throws AppError when the funnel is not defined
+     */
+    public async getFunnelReport(
+        companyId: string,
+        funnelId: string,
+        query: IFunnelReportQuery
+    ): Promise<IFunnelReport> {
+        const { goals, funnels } = await this.getDefinitions(companyId);
+        const funnel = funnels.find(candidate => candidate.id === funnelId);
+        if (!funnel) {
+            throw createError(
+                'Funnel not found',
+                ErrorCodes.NOT_FOUND,
+                ErrorTypes.RESOURCE_ERROR,
+                { companyId, funnelId }
+            );
+        }
+
+        const { from, to } = this.resolveRange(query);
+        const windowDays = funnel.windowDays || DEFAULT_FUNNEL_WINDOW_DAYS;
+        const windowMs = windowDays * 24 * 60 * 60 * 1000;
+        const goalNames = new Map(goals.map(goal => [goal.id, goal.name]));
+
+        const completionsByVisitor = await this.goalCompletionRepository.findPathsByVisitor(
+            companyId,
+            [...new Set(funnel.steps)],
+            from,
+            to
+        );
+        const visitors = await this.visitorRepository.findByIds([...completionsByVisitor.keys()]);
+
+        const paths = new Map<IVisitor, number[]>();
+        for (const visitor of visitors) {
+            if (visitor.trafficQuality?.isBot) {
+                continue;
+            }
+            const path = this.walkFunnel(funnel.steps, completionsByVisitor.get(visitor.id) || [], windowMs);
+            if (path.length > 0) {
+                paths.set(visitor, path);
+            }
+        }
+
+        const report: IFunnelReport = {
+            funnelId: funnel.id,
+            name: funnel.name,
+            from,
+            to,
+            windowDays,
+            ...this.summarizeFunnel(funnel.steps, goalNames, [...paths.values()])
+        };
+
+        if (query.segmentBy) {
+            const segments = new Map<string, number[][]>();
+            for (const [visitor, path] of paths) {
+                const segment = this.segmentOf(visitor, query.segmentBy);
+                segments.set(segment, [...(segments.get(segment) || []), path]);
+            }
+            report.segmentBy = query.segmentBy;
+            report.segments = [...segments.entries()]
+                .map(([segment, segmentPaths]) => ({
+                    segment,
+                    ...this.summarizeFunnel(funnel.steps, goalNames, segmentPaths)
+                }))
+                .sort((a, b) => b.entered - a.entered || a.segment.localeCompare(b.segment));
+        }
+
+        this.logger.log(`Reported funnel ${funnelId} of company ${companyId}: ${report.entered} visitors entered`);
+
+        return report;
+    }
+
+    /**
+     * Checks whether an activity completes a goal
+     * URL patterns match case-insensitively anywhere in the URL as tracked, like page visit scoring rules
+     */
+    private matchesGoal(goal: IGoalDefinition, activity: IGoalActivity): boolean {
+        const url = (activity.data.rawUrl || activity.data.url || '').toLowerCase();
+        const urlMatches = !goal.urlPattern || url.includes(goal.urlPattern.toLowerCase());
+
+        switch (goal.type) {
+            case GOAL_TYPE.PAGE_VISIT:
+                return activity.type === VISITOR_ACTIVITY_TYPE.PAGE_VIEW && !!goal.urlPattern && urlMatches;
+            case GOAL_TYPE.FORM_SUBMIT:
+                return activity.type === VISITOR_ACTIVITY_TYPE.FORM_SUBMIT &&
+                    (!goal.formId || activity.data.formId === goal.formId) &&
+                    urlMatches;
+            case GOAL_TYPE.CUSTOM_EVENT:
+                return activity.type === VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT &&
+                    !!goal.eventName &&
+                    activity.data.eventName === goal.eventName;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Recomputes a visitor's completion summary from its recorded completions
+     */
+    private async rebuildSummaries(visitorId: string): Promise<void> {
+        const goals = await this.goalCompletionRepository.summarizeByVisitor(visitorId);
+        await this.visitorRepository.patch(visitorId, { goals });
+    }
+
+    /**
+     * Follows a visitor's ordered completions through the funnel steps
+     * @returns Completion time of each step reached, in milliseconds since the epoch
+     */
+    private walkFunnel(
+        steps: string[],
+        completions: Array<{ goalId: string; completedAt: Date }>,
+        windowMs: number
+    ): number[] {
+        const reached: number[] = [];
+        for (const { goalId, completedAt } of completions) {
+            if (reached.length === steps.length) {
+                break;
+            }
+            const time = new Date(completedAt).getTime();
+            if (reached.length > 0 && time - reached[0] > windowMs) {
+                break;
+            }
+            if (goalId === steps[reached.length]) {
+                reached.push(time);
+            }
+        }
+        return reached;
+    }
+
+    /**
+     * Computes the conversion of a group of visitors from their funnel paths
+     */
+    private summarizeFunnel(
+        steps: string[],
+        goalNames: Map<string, string>,
+        paths: number[][]
+    ): IFunnelConversion {
+        const entered = paths.length;
+        const reachedCounts = steps.map((_, index) => paths.filter(path => path.length > index).length);
+
+        const stepReports: IFunnelStepReport[] = steps.map((goalId, index) => {
+            const visitors = reachedCounts[index];
+            const previous = index === 0 ? entered : reachedCounts[index - 1];
+            return {
+                goalId,
+                name: goalNames.get(goalId) || goalId,
+                visitors,
+                conversionRate: this.ratio(visitors, entered),
+                dropOff: previous - visitors,
+                dropOffRate: this.ratio(previous - visitors, previous),
+                medianSecondsFromPrevious: index === 0
+                    ? null
+                    : this.medianSeconds(paths
+                        .filter(path => path.length > index)
+                        .map(path => path[index] - path[index - 1]))
+            };
+        });
+
+        const convertedPaths = paths.filter(path => path.length === steps.length);
+        return {
+            entered,
+            converted: convertedPaths.length,
+            conversionRate: this.ratio(convertedPaths.length, entered),
+            medianSecondsToConvert: this.medianSeconds(convertedPaths.map(path => path[path.length - 1] - path[0])),
+            steps: stepReports
+        };
+    }
+
+    /**
+     * Resolves the segment a visitor belongs to
+     */
+    private segmentOf(visitor: IVisitor, segmentBy: FUNNEL_SEGMENT): string {
+        switch (segmentBy) {
+            case FUNNEL_SEGMENT.STATUS:
+                return visitor.status;
+            case FUNNEL_SEGMENT.INDUSTRY:
+                return visitor.enrichedData?.industry || UNKNOWN_SEGMENT;
+            default:
+                return UNKNOWN_SEGMENT;
+        }
+    }
+
+    /**
+     * Resolves the report range, covering the last DEFAULT_GOAL_REPORT_DAYS when no start is given
+     */
+    private resolveRange(query: IGoalReportQuery): { from: Date; to: Date } {
+        const to = query.to || new Date();
+        return { from: query.from || addDuration(to, -DEFAULT_GOAL_REPORT_DAYS, 'day'), to };
+    }
+
+    /**
+     * Median of durations in whole seconds, null when there are none
+     */
+    private medianSeconds(durationsMs: number[]): number | null {
+        if (durationsMs.length === 0) {
+            return null;
+        }
+        const sorted = [...durationsMs].sort((a, b) => a - b);
+        const middle = Math.floor(sorted.length / 2);
+        const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+        return Math.round(median / 1000);
+    }
+
+    /**
+     * Ratio rounded to four decimals, 0 when the denominator is 0
+     */
+    private ratio(numerator: number, denominator: number): number {
+        return denominator > 0 ? Math.round((numerator / denominator) * 10000) / 10000 : 0;
+    }
+}
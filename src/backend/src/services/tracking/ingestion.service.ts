@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Service ingesting server-side event batches sent with a company ingest API key
+ * Creates unknown visitors in bulk and records events in the activity store, skipping
+ * events whose client event ID was already recorded
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import { IVisitor } from '../../interfaces/visitor.interface';
+import {
+    IIngestEvent,
+    IParsedIngestLine,
+    IIngestLineResult,
+    IIngestBatchResult,
+    IImportedActivity
+} from '../../interfaces/ingestion.interface';
+import { ICustomEventData } from '../../interfaces/customEvent.interface';
+import { INGEST_LINE_STATUS } from '../../constants/ingestion.constants';
+import { VISITOR_STATUS, VISITOR_ACTIVITY_TYPE } from '../../constants/visitor.constants';
+import { ANONYMOUS_RETENTION_DAYS } from '../../constants/consent.constants';
+import { ActivityService } from './activity.service';
+import { CustomEventService } from './customEvent.service';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { addDuration } from '../../utils/date.util';
+import { anonymizeIp } from '../../utils/ip.util';
+
+/**
+ * Event line that passed validation, with the validated payload of custom events
+ */
+interface IValidLine {
+    result: IIngestLineResult;
+    event: IIngestEvent;
+    customEvent?: ICustomEventData;
+}
+
+/**
+ * Service recording event batches from customers' server-side pipelines
+ */
+@Injectable()
+export class IngestionService {
+    private readonly logger = new Logger(IngestionService.name);
+
+    constructor(
+        private readonly activityService: ActivityService,
+        private readonly customEventService: CustomEventService,
+        private readonly visitorRepository: VisitorRepository,
+        private readonly companyRepository: CompanyRepository
+    ) {}
+
+    /**
+     * Records a parsed batch of events
+     * Invalid lines are rejected individually so the rest of the batch is still recorded;
+     * retrying a batch is safe since events are deduplicated by their client event ID
+     * @param companyId - Company authenticated by the ingest API key
+     * @param lines - Lines parsed by parseIngestBatch
+     * @returns Outcome of every line
+     */
+    public async ingestBatch(companyId: string, lines: IParsedIngestLine[]): Promise<IIngestBatchResult> {
+        const results: IIngestLineResult[] = [];
+        const seenEventIds = new Set<string>();
+        let valid: IValidLine[] = [];
+
+        for (const { line, eventId, event, errors } of lines) {
+            const result: IIngestLineResult = { line, eventId, status: INGEST_LINE_STATUS.REJECTED };
+            results.push(result);
+
+            if (!event) {
+                result.errors = errors;
+                continue;
+            }
+
+            if (seenEventIds.has(event.eventId)) {
+                result.status = INGEST_LINE_STATUS.DUPLICATE;
+                continue;
+            }
+            seenEventIds.add(event.eventId);
+
+            if (event.type !== VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT) {
+                valid.push({ result, event });
+                continue;
+            }
+
+            try {
+                const customEvent = await this.customEventService.validateEvent(
+                    companyId,
+                    event.data?.eventName,
+                    event.data?.properties
+                );
+                valid.push({ result, event, customEvent });
+            } catch (error) {
+                result.errors = [error.message];
+            }
+        }
+
+        if (valid.length > 0) {
+            const visitors = await this.upsertVisitors(companyId, valid);
+            valid = valid.filter(({ result, event }) => {
+                if (visitors.has(event.visitorId)) {
+                    return true;
+                }
+                result.errors = ['Visitor belongs to another company'];
+                return false;
+            });
+
+            const duplicates = await this.activityService.importActivities(
+                [...visitors.values()],
+                valid.map(line => this.toActivity(companyId, line))
+            );
+            for (const { result, event } of valid) {
+                result.status = duplicates.has(this.dedupKey(companyId, event.eventId))
+                    ? INGEST_LINE_STATUS.DUPLICATE
+                    : INGEST_LINE_STATUS.ACCEPTED;
+            }
+        }
+
+        const summary = {
+            accepted: results.filter(result => result.status === INGEST_LINE_STATUS.ACCEPTED).length,
+            duplicates: results.filter(result => result.status === INGEST_LINE_STATUS.DUPLICATE).length,
+            rejected: results.filter(result => result.status === INGEST_LINE_STATUS.REJECTED).length
+        };
+        this.logger.log(
+            `Ingested batch of company ${companyId}: ${summary.accepted} accepted, ` +
+            `${summary.duplicates} duplicates, ${summary.rejected} rejected`
+        );
+
+        return { ...summary, results };
+    }
+
+    /**
+     * Creates unknown visitors and advances the last activity of known ones in one bulk write
+     * Events never move lastSeen backwards, so backfilled history does not mark visitors active
+     * @returns Visitors of the company by ID; visitors of other companies are left out
+     */
+    private async upsertVisitors(companyId: string, lines: IValidLine[]): Promise<Map<string, IVisitor>> {
+        const eventsByVisitor = new Map<string, IIngestEvent[]>();
+        for (const { event } of lines) {
+            eventsByVisitor.set(event.visitorId, [...(eventsByVisitor.get(event.visitorId) || []), event]);
+        }
+
+        const existing = await this.visitorRepository.findByIds([...eventsByVisitor.keys()]);
+        const existingById = new Map(existing.map(visitor => [visitor.id, visitor]));
+        const company = await this.companyRepository.findById(companyId);
+        const captureIp = company?.settings?.visitorTrackingSettings?.captureIPAddress !== false;
+
+        const visitors = new Map<string, IVisitor>();
+        const upserts: Partial<IVisitor>[] = [];
+
+        for (const [visitorId, events] of eventsByVisitor) {
+            const times = events.map(event => new Date(event.occurredAt).getTime());
+            const firstSeen = new Date(Math.min(...times));
+            const lastSeen = new Date(Math.max(...times));
+            const current = existingById.get(visitorId);
+
+            if (current) {
+                if (current.companyId !== companyId) {
+                    continue;
+                }
+                visitors.set(visitorId, current);
+                if (!current.lastSeen || lastSeen > new Date(current.lastSeen)) {
+                    upserts.push({ id: visitorId, lastSeen });
+                }
+                continue;
+            }
+
+            // Visitors created by ingestion are anonymous until they consent
+            const context = events.find(event => event.context)?.context || {};
+            const visitor: Partial<IVisitor> = {
+                id: visitorId,
+                companyId,
+                status: VISITOR_STATUS.ANONYMOUS,
+                metadata: {
+                    ipAddress: captureIp && context.ipAddress ? anonymizeIp(context.ipAddress) : '',
+                    userAgent: context.userAgent || '',
+                    referrer: context.referrer || '',
+                    currentPage: events.find(event => event.url)?.url || '',
+                    previousPages: [],
+                    customParams: {},
+                    location: { country: '', city: '', region: '', postalCode: '', timezone: '' },
+                    deviceType: '',
+                    browser: '',
+                    os: ''
+                },
+                enrichedData: null,
+                visits: 1,
+                totalTimeSpent: 0,
+                firstSeen,
+                lastSeen,
+                isActive: true,
+                tags: {},
+                gdprConsent: false,
+                retentionDate: addDuration(new Date(), ANONYMOUS_RETENTION_DAYS, 'day')
+            };
+            visitors.set(visitorId, visitor as IVisitor);
+            upserts.push(visitor);
+        }
+
+        if (upserts.length > 0) {
+            await this.visitorRepository.bulkUpsertVisitors(upserts);
+        }
+
+        return visitors;
+    }
+
+    /**
+     * Maps a validated line to the activity recorded for it
+     * Custom event payloads are only kept in their validated form, and submitted form inputs,
+     * which only the browser SDK captures through the company's form mappings, are dropped
+     */
+    private toActivity(companyId: string, { event, customEvent }: IValidLine): IImportedActivity {
+        const data = { ...event.data };
+        delete data.fields;
+
+        return {
+            dedupKey: this.dedupKey(companyId, event.eventId),
+            visitorId: event.visitorId,
+            type: event.type,
+            timestamp: new Date(event.occurredAt),
+            data: {
+                url: event.url,
+                elementId: data.elementId,
+                formId: data.formId,
+                fileId: data.fileId,
+                ...customEvent,
+                metadata: {
+                    ...(!customEvent && data),
+                    ...(event.context?.userAgent && { userAgent: event.context.userAgent }),
+                    source: 'INGEST',
+                    eventId: event.eventId,
+                    occurredAt: event.occurredAt
+                }
+            }
+        };
+    }
+
+    /**
+     * Scopes a client event ID to its company, since companies choose IDs independently
+     */
+    private dedupKey(companyId: string, eventId: string): string {
+        return `${companyId}:${eventId}`;
+    }
+}
@@ -0,0 +1,386 @@
+/**
+ * @fileoverview Service grouping visitor activities into sessions
+ * A session ends after a period of inactivity; each records its landing and exit
+ * pages, duration, page count, referrer and UTM source
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import { Logger } from 'winston'; // v3.8.2
+import { randomUUID } from 'crypto';
+
+import {
+    ISessionActivity,
+    IVisitorSession,
+    IVisitorSessionTimeline,
+    IPaginatedSessions
+} from '../../interfaces/session.interface';
+import SessionModel from '../../db/models/session.model';
+import ActivityModel from '../../db/models/activity.model';
+import VisitorModel from '../../db/models/visitor.model';
+import {
+    VISITOR_ACTIVITY_TYPE,
+    SESSION_INACTIVITY_TIMEOUT_MS,
+    DEFAULT_SESSION_PAGE_SIZE
+} from '../../constants/visitor.constants';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import { createError } from '../../utils/error.util';
+
+/**
+ * Interface for session pagination options, cursor-based on session start
+ */
+interface ISessionPaginationOptions {
+    cursor?: string;
+    limit?: number;
+}
+
+/**
+ * Service class maintaining visitor sessions alongside the activity stream
+ */
+@injectable()
+export class SessionService {
+    constructor(
+        private readonly logger: Logger,
+        private readonly sessionRetentionDays: number = 90,
+        private readonly inactivityTimeoutMs: number = SESSION_INACTIVITY_TIMEOUT_MS
+    ) {
+        this.logger = logger.child({ service: 'SessionService' });
+    }
+
+    /**
+     * Adds a newly tracked activity to the visitor's open session, starting a
+     * new session when the visitor was inactive longer than the timeout.
+     * Activities older than the latest session's end regroup the sessions around them
+     * @param activity - Stored activity
+     * @returns Session the activity belongs to
+     */
+    public async recordActivity(activity: ISessionActivity): Promise<IVisitorSession> {
+        const current = await SessionModel.findOne({ visitorId: activity.visitorId }, { _id: 0, expiresAt: 0 })
+            .sort({ startedAt: -1 })
+            .lean();
+
+        // A late activity may belong to an earlier session or join two sessions together
+        if (current && activity.timestamp.getTime() < new Date(current.endedAt).getTime()) {
+            return this.regroupSessionsAround(activity);
+        }
+
+        if (!current || activity.timestamp.getTime() - new Date(current.endedAt).getTime() > this.inactivityTimeoutMs) {
+            const session = this.startSession(activity);
+            await SessionModel.create({ ...session, expiresAt: this.getExpiry(session.endedAt) });
+
+            this.logger.debug('Session started', { visitorId: activity.visitorId, sessionId: session.id });
+            return session;
+        }
+
+        const isPageView = activity.type === VISITOR_ACTIVITY_TYPE.PAGE_VIEW;
+        const page = this.getPageUrl(activity);
+        const durationSeconds = this.getDurationSeconds(new Date(current.startedAt), activity.timestamp);
+
+        // Counters and end time update atomically so concurrent activities are not lost
+        const updated = await SessionModel.findOneAndUpdate(
+            { id: current.id },
+            {
+                $inc: { activityCount: 1, pageCount: isPageView ? 1 : 0 },
+                $max: {
+                    endedAt: activity.timestamp,
+                    durationSeconds,
+                    expiresAt: this.getExpiry(activity.timestamp)
+                },
+                ...(isPageView && page && {
+                    $set: {
+                        exitPage: page,
+                        ...(!current.landingPage && { landingPage: page })
+                    }
+                })
+            },
+            { new: true, projection: { _id: 0, expiresAt: 0 } }
+        ).lean();
+
+        return updated || current;
+    }
+
+    /**
+     * Regroups all activities of a visitor into sessions, e.g. after activities were reassigned by a merge
+     * @param visitorId - Visitor whose sessions are rebuilt
+     * @returns Rebuilt sessions, oldest first
+     */
+    public async rebuildVisitorSessions(visitorId: string): Promise<IVisitorSession[]> {
+        try {
+            const activities = await ActivityModel.find({ visitorId }, { _id: 0, expiresAt: 0 })
+                .sort({ timestamp: 1 })
+                .lean();
+
+            const sessions = this.groupActivities(activities);
+
+            await SessionModel.deleteMany({ visitorId });
+            if (sessions.length > 0) {
+                await SessionModel.insertMany(sessions.map(session => ({
+                    ...session,
+                    expiresAt: this.getExpiry(session.endedAt)
+                })));
+            }
+
+            this.logger.info('Sessions rebuilt', { visitorId, count: sessions.length });
+
+            return sessions;
+        } catch (error) {
+            this.logger.error('Error rebuilding visitor sessions', {
+                visitorId,
+                error: error.message
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Retrieves a visitor's sessions, most recent first, with the activities of each
+     * @param companyId - Company the visitor must belong to
+     * @param visitorId - Unique identifier of the visitor
+     * @param options - Pagination options
+     * @returns Page of sessions with cursor
+     * @throws AppError when the company has no such visitor
+     */
+    public async getVisitorSessions(
+        companyId: string,
+        visitorId: string,
+        options: ISessionPaginationOptions = {}
+    ): Promise<IPaginatedSessions> {
+        try {
+            if (!await VisitorModel.exists({ id: visitorId, companyId })) {
+                throw createError('Visitor not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, { visitorId });
+            }
+
+            const limit = options.limit || DEFAULT_SESSION_PAGE_SIZE;
+            const query = {
+                visitorId,
+                ...(options.cursor && {
+                    startedAt: { $lt: new Date(Buffer.from(options.cursor, 'base64').toString()) }
+                })
+            };
+
+            const sessions: IVisitorSession[] = await SessionModel.find(query, { _id: 0, expiresAt: 0 })
+                .sort({ startedAt: -1 })
+                .limit(limit)
+                .lean();
+
+            if (sessions.length === 0) {
+                return { sessions: [] };
+            }
+
+            const activities: ISessionActivity[] = await ActivityModel.find({
+                visitorId,
+                timestamp: {
+                    $gte: sessions[sessions.length - 1].startedAt,
+                    $lte: sessions[0].endedAt
+                }
+            }, { _id: 0, expiresAt: 0, gdprCompliant: 0 })
+                .sort({ timestamp: 1 })
+                .lean();
+
+            const timelines: IVisitorSessionTimeline[] = sessions.map(session => ({
+                ...session,
+                activities: activities.filter(activity =>
+                    activity.timestamp >= session.startedAt && activity.timestamp <= session.endedAt
+                )
+            }));
+
+            return {
+                sessions: timelines,
+                ...(sessions.length === limit && {
+                    nextCursor: Buffer.from(
+                        new Date(sessions[sessions.length - 1].startedAt).toISOString()
+                    ).toString('base64')
+                })
+            };
+        } catch (error) {
+            this.logger.error('Error retrieving visitor sessions', {
+                visitorId,
+                error: error.message
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Deletes all sessions of a visitor
+     * @param visitorId - Unique identifier of the visitor
+     */
+    public async deleteVisitorSessions(visitorId: string): Promise<void> {
+        await SessionModel.deleteMany({ visitorId });
+    }
+
+    /**
+     * Groups activities into sessions by the inactivity timeout
+     * @param activities - Activities of one visitor, oldest first
+     * @returns Sessions, oldest first
+     */
+    public groupActivities(activities: ISessionActivity[]): IVisitorSession[] {
+        const sessions: IVisitorSession[] = [];
+
+        for (const activity of activities) {
+            const current = sessions[sessions.length - 1];
+            if (current && activity.timestamp.getTime() - current.endedAt.getTime() <= this.inactivityTimeoutMs) {
+                this.extendSession(current, activity);
+            } else {
+                sessions.push(this.startSession(activity));
+            }
+        }
+
+        return sessions;
+    }
+
+    /**
+     * Regroups the sessions within the inactivity timeout of a late activity, the only ones it can
+     * extend or join, in a transaction retried when activities are recorded into them concurrently.
+     * Regrouped sessions keep the ID of the earliest session they contain; sessions joined into
+     * an earlier one are deleted
+     * @private
+     */
+    private async regroupSessionsAround(activity: ISessionActivity): Promise<IVisitorSession> {
+        const time = activity.timestamp.getTime();
+        const transaction = await SessionModel.startSession();
+
+        try {
+            let sessions: IVisitorSession[] = [];
+
+            await transaction.withTransaction(async () => {
+                const neighbours: IVisitorSession[] = await SessionModel.find({
+                    visitorId: activity.visitorId,
+                    startedAt: { $lte: new Date(time + this.inactivityTimeoutMs) },
+                    endedAt: { $gte: new Date(time - this.inactivityTimeoutMs) }
+                }, { _id: 0, expiresAt: 0 })
+                    .sort({ startedAt: 1 })
+                    .session(transaction)
+                    .lean();
+
+                const activities: ISessionActivity[] = await ActivityModel.find({
+                    visitorId: activity.visitorId,
+                    timestamp: {
+                        $gte: new Date(Math.min(time, ...neighbours.map(session => new Date(session.startedAt).getTime()))),
+                        $lte: new Date(Math.max(time, ...neighbours.map(session => new Date(session.endedAt).getTime())))
+                    }
+                }, { _id: 0, expiresAt: 0 })
+                    .sort({ timestamp: 1 })
+                    .session(transaction)
+                    .lean();
+
+                sessions = this.groupActivities(activities);
+                for (const session of sessions) {
+                    const kept = neighbours.find(neighbour =>
+                        new Date(neighbour.startedAt).getTime() >= session.startedAt.getTime() &&
+                        new Date(neighbour.endedAt).getTime() <= session.endedAt.getTime()
+                    );
+                    if (kept) {
+                        session.id = kept.id;
+                    }
+                }
+
+                const keptIds = new Set(sessions.map(session => session.id));
+                const joinedIds = neighbours.map(session => session.id).filter(id => !keptIds.has(id));
+                if (joinedIds.length > 0) {
+                    await SessionModel.deleteMany({ id: { $in: joinedIds } }, { session: transaction });
+                }
+                await SessionModel.bulkWrite(sessions.map(session => ({
+                    replaceOne: {
+                        filter: { id: session.id },
+                        replacement: { ...session, expiresAt: this.getExpiry(session.endedAt) },
+                        upsert: true
+                    }
+                })), { session: transaction });
+            });
+
+            this.logger.debug('Sessions regrouped', { visitorId: activity.visitorId, count: sessions.length });
+
+            return sessions.find(session =>
+                time >= session.startedAt.getTime() && time <= session.endedAt.getTime()
+            ) || sessions[sessions.length - 1];
+        } finally {
+            await transaction.endSession();
+        }
+    }
+
+    /**
+     * Creates a session opened by an activity
+     * @private
+     */
+    private startSession(activity: ISessionActivity): IVisitorSession {
+        const isPageView = activity.type === VISITOR_ACTIVITY_TYPE.PAGE_VIEW;
+        const page = this.getPageUrl(activity);
+        const metadata = activity.data.metadata || {};
+
+        return {
+            id: randomUUID(),
+            visitorId: activity.visitorId,
+            startedAt: activity.timestamp,
+            endedAt: activity.timestamp,
+            durationSeconds: 0,
+            landingPage: page,
+            exitPage: page,
+            pageCount: isPageView ? 1 : 0,
+            activityCount: 1,
+            referrer: typeof metadata.referrer === 'string' && metadata.referrer ? metadata.referrer : null,
+            utmSource: this.getUtmSource(page)
+        };
+    }
+
+    /**
+     * Adds a later activity to a session
+     * @private
+     */
+    private extendSession(session: IVisitorSession, activity: ISessionActivity): void {
+        session.endedAt = activity.timestamp;
+        session.durationSeconds = this.getDurationSeconds(session.startedAt, activity.timestamp);
+        session.activityCount++;
+
+        const page = this.getPageUrl(activity);
+        if (activity.type === VISITOR_ACTIVITY_TYPE.PAGE_VIEW) {
+            session.pageCount++;
+            if (page) {
+                session.exitPage = page;
+                session.landingPage = session.landingPage || page;
+            }
+        }
+    }
+
+    /**
+     * Reads the URL of the page an activity happened on
+     * Prefers the URL as tracked, since normalization strips the campaign parameters sessions record
+     * @private
+     */
+    private getPageUrl(activity: ISessionActivity): string | null {
+        return activity.data.rawUrl || activity.data.url || activity.data.metadata?.currentPage || null;
+    }
+
+    /**
+     * Reads the utm_source query parameter of a URL
+     * @private
+     */
+    private getUtmSource(url: string | null): string | null {
+        if (!url) {
+            return null;
+        }
+        try {
+            return new URL(url, 'http://localhost').searchParams.get('utm_source') || null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Computes the whole seconds between two times
+     * @private
+     */
+    private getDurationSeconds(startedAt: Date, endedAt: Date): number {
+        return Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 1000));
+    }
+
+    /**
+     * Computes the expiry of a session from its last activity
+     * @private
+     */
+    private getExpiry(endedAt: Date): Date {
+        const expirationDate = new Date(endedAt);
+        expirationDate.setDate(expirationDate.getDate() + this.sessionRetentionDays);
+        return expirationDate;
+    }
+}
@@ -8,10 +8,31 @@ import { injectable } from 'inversify'; // v6.0.1
 import { Logger } from 'winston'; // v3.8.2
 import { WebSocket } from 'ws'; // v8.13.0
 
-import { IVisitor } from '../../interfaces/visitor.interface';
+import { IVisitor, IIdentificationData } from '../../interfaces/visitor.interface';
+import {
+    ITrackingConfig,
+    ITrackingBatch,
+    ITrackingBatchResult,
+    ITrackingConsent,
+    ITrackingConsentResult,
+    ITrackingEvent
+} from '../../interfaces/tracking.interface';
+import { ICustomEventData } from '../../interfaces/customEvent.interface';
+import { ICapturedForm } from '../../interfaces/formCapture.interface';
 import { ActivityService } from './activity.service';
+import { CustomEventService } from './customEvent.service';
+import { TrafficQualityService } from './trafficQuality.service';
+import { ConsentService } from './consent.service';
+import { FormCaptureService } from './formCapture.service';
 import { IdentityService } from '../identity/identity.service';
-import { VISITOR_STATUS } from '../../constants/visitor.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { CompanyRepository } from '../../db/repositories/company.repository';
+import { VISITOR_STATUS, VISITOR_ACTIVITY_TYPE } from '../../constants/visitor.constants';
+import { CONSENT_PURPOSE, CONSENT_SOURCE, IDENTIFICATION_CONSENT_PURPOSES } from '../../constants/consent.constants';
+import { FORM_CAPTURE_FIELD } from '../../constants/formCapture.constants';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import { createError } from '../../utils/error.util';
+import { isPathExcluded } from '../../utils/url.util';
 
 /**
  * Connection pool for managing WebSocket connections with health monitoring
@@ -118,6 +139,12 @@ export class TrackingService {
     constructor(
         private readonly activityService: ActivityService,
         private readonly identityService: IdentityService,
+        private readonly visitorRepository: VisitorRepository,
+        private readonly companyRepository: CompanyRepository,
+        private readonly customEventService: CustomEventService,
+        private readonly trafficQualityService: TrafficQualityService,
+        private readonly consentService: ConsentService,
+        private readonly formCaptureService: FormCaptureService,
         private readonly config: { cleanupInterval: number }
     ) {
         this.logger = new Logger({
@@ -153,12 +180,16 @@ export class TrackingService {
                 throw new Error('Rate limit exceeded for visitor tracking');
             }
 
-            // Validate GDPR consent
-            const visitor = await this.identityService.validateGDPRConsent(visitorId);
+            let visitor = await this.visitorRepository.findById(visitorId);
             if (!visitor) {
-                throw new Error('Visitor not found or GDPR consent not given');
+                throw new Error('Visitor not found');
             }
 
+            visitor = await this.trafficQualityService.classifyVisitor(visitor, {
+                userAgent: metadata.userAgent,
+                ipAddress: metadata.ipAddress
+            });
+
             // Track activity with retry mechanism
             const activity = await this.activityService.trackActivity({
                 visitorId,
@@ -169,12 +200,21 @@ export class TrackingService {
                 }
             });
 
-            // Update visitor status if needed
-            if (visitor.status === VISITOR_STATUS.ANONYMOUS && metadata.email) {
+            // Identify from a known email only when the visitor consented to identification
+            const identificationConsent = this.consentService.hasConsent(visitor, CONSENT_PURPOSE.IDENTIFICATION);
+            const unidentified = visitor.status === VISITOR_STATUS.ANONYMOUS ||
+                visitor.status === VISITOR_STATUS.COMPANY_RESOLVED;
+            if (unidentified && metadata.email && identificationConsent) {
                 await this.identityService.identifyVisitor(visitorId, {
                     email: metadata.email,
                     gdprConsent: true
                 });
+            } else if (visitor.status === VISITOR_STATUS.ANONYMOUS && !visitor.trafficQuality?.isBot) {
+                // Attempt reverse-IP company resolution for anonymous human traffic
+                visitor = await this.identityService.resolveVisitorCompany(
+                    visitorId,
+                    metadata.ipAddress
+                );
             }
 
             // Emit real-time update
@@ -201,6 +241,187 @@ export class TrackingService {
         }
     }
 
+    /**
+     * Serves the tracking settings of a company to the browser SDK
+     * @param companyId - Company whose sites are tracked
+     * @returns Whether tracking is enabled, the paths never tracked and the form inputs to capture
+     * @throws AppError when the company does not exist
+     */
+    public async getTrackingConfig(companyId: string): Promise<ITrackingConfig> {
+        const company = await this.companyRepository.findById(companyId);
+        if (!company) {
+            throw createError('Company not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, { companyId });
+        }
+
+        const settings = company.settings?.visitorTrackingSettings;
+        return {
+            enabled: company.isActive !== false && settings?.enabled !== false,
+            excludedPaths: settings?.excludedPaths || [],
+            forms: this.formCaptureService.getTrackingForms(company.settings?.formCapture)
+        };
+    }
+
+    /**
+     * Records a batch of events delivered by the browser SDK
+     * Creates the visitor under the SDK's visitor ID on first contact; events on
+     * excluded paths are dropped even when an outdated SDK configuration sent them.
+     * Form submissions keep only the company's mapped fields, and a captured email
+     * identifies the visitor when identification is consented to
+     * @param companyId - Company whose site sent the batch
+     * @param batch - Visitor ID, browser metadata and events
+     * @param ipAddress - IP address the batch was received from
+     * @returns Number of events recorded and dropped
+     * @throws AppError when the visitor belongs to another company
+     */
+    public async trackEvents(
+        companyId: string,
+        batch: ITrackingBatch,
+        ipAddress: string
+    ): Promise<ITrackingBatchResult> {
+        try {
+            const config = await this.getTrackingConfig(companyId);
+            const included = config.enabled
+                ? batch.events.filter(event => !isPathExcluded(event.path, config.excludedPaths))
+                : [];
+            const excluded = batch.events.length - included.length;
+            const events = await this.validateCustomEvents(companyId, included);
+            const rejected = included.length - events.length;
+
+            if (events.length === 0) {
+                return { visitorId: batch.visitorId, accepted: 0, excluded, rejected };
+            }
+
+            let visitor = await this.findOrCreateVisitor(companyId, batch, ipAddress);
+            visitor = await this.trafficQualityService.classifyVisitor(visitor, {
+                userAgent: batch.metadata.userAgent,
+                ipAddress,
+                webdriver: batch.metadata.webdriver
+            });
+
+            const formCapture = events.some(({ event }) => event.type === VISITOR_ACTIVITY_TYPE.FORM_SUBMIT)
+                ? await this.formCaptureService.getSettings(companyId)
+                : null;
+            let submittedForm: ICapturedForm | null = null;
+
+            for (const { event, customEvent } of events) {
+                // Submitted inputs are never stored as sent, only the mapped fields captured from them
+                const { fields, ...eventData } = event.data || {};
+                const capturedForm = event.type === VISITOR_ACTIVITY_TYPE.FORM_SUBMIT
+                    ? this.formCaptureService.captureForm(formCapture, eventData.formId, fields)
+                    : null;
+                submittedForm = capturedForm || submittedForm;
+
+                // Custom event payloads are only kept in their validated form
+                await this.activityService.trackActivity(visitor.id, {
+                    visitorId: visitor.id,
+                    type: event.type,
+                    data: {
+                        url: event.url,
+                        elementId: eventData.elementId,
+                        formId: eventData.formId,
+                        fileId: eventData.fileId,
+                        ...customEvent,
+                        ...(capturedForm && { formFields: capturedForm.fields }),
+                        metadata: {
+                            ...(!customEvent && eventData),
+                            path: event.path,
+                            referrer: batch.metadata.referrer,
+                            occurredAt: event.occurredAt
+                        }
+                    }
+                });
+            }
+
+            if (submittedForm) {
+                visitor = await this.identifyFromForm(visitor, submittedForm);
+            }
+
+            // Bots are not resolved to companies so they never reach enrichment
+            if (visitor.status === VISITOR_STATUS.ANONYMOUS && !visitor.trafficQuality?.isBot) {
+                visitor = await this.identityService.resolveVisitorCompany(visitor.id, ipAddress);
+            }
+
+            await this.emitTrackingUpdate(visitor.id, {
+                type: 'VISITOR_UPDATE',
+                data: { visitor }
+            });
+
+            this.logger.info('Tracking batch recorded', {
+                visitorId: visitor.id,
+                accepted: events.length,
+                excluded,
+                rejected
+            });
+
+            return { visitorId: visitor.id, accepted: events.length, excluded, rejected };
+
+        } catch (error) {
+            this.logger.error('Error recording tracking batch', {
+                companyId,
+                visitorId: batch.visitorId,
+                error: error.message
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Identifies a tracked visitor from details the visitor entered on the company's site
+     * @param companyId - Company whose site identified the visitor
+     * @param visitorId - Visitor ID created by the SDK
+     * @param data - Identification data
+     * @returns Identified visitor
+     */
+    public async identifyVisitor(
+        companyId: string,
+        visitorId: string,
+        data: IIdentificationData
+    ): Promise<IVisitor> {
+        await this.findCompanyVisitor(companyId, visitorId);
+        return this.identityService.identifyVisitor(visitorId, data);
+    }
+
+    /**
+     * Identifies a tracked visitor from a payload signed by the company's backend
+     * @param companyId - Company whose site identified the visitor
+     * @param visitorId - Visitor ID created by the SDK
+     * @param token - Token signed with the company identity secret
+     * @returns Identified visitor
+     */
+    public async identifySignedVisitor(
+        companyId: string,
+        visitorId: string,
+        token: string
+    ): Promise<IVisitor> {
+        await this.findCompanyVisitor(companyId, visitorId);
+        return this.identityService.identifySignedVisitor(visitorId, token);
+    }
+
+    /**
+     * Records the consent decisions a visitor made in the company's consent banner
+     * Creates the visitor under the SDK's visitor ID when the decision precedes any event
+     * @param companyId - Company whose site reported the decisions
+     * @param request - Visitor ID, decisions by purpose and browser metadata
+     * @param ipAddress - IP address the decisions were received from
+     * @returns Current consent of the visitor
+     * @throws AppError when the visitor belongs to another company
+     */
+    public async updateConsent(
+        companyId: string,
+        request: ITrackingConsent,
+        ipAddress: string
+    ): Promise<ITrackingConsentResult> {
+        let visitor = await this.findOrCreateVisitor(companyId, request, ipAddress);
+        visitor = await this.consentService.recordConsent(visitor, {
+            purposes: request.purposes,
+            source: CONSENT_SOURCE.SDK,
+            policyVersion: request.policyVersion,
+            userAgent: request.metadata.userAgent
+        });
+
+        return { visitorId: visitor.id, consent: visitor.consent || {} };
+    }
+
     /**
      * Handles WebSocket connections with enhanced connection management
      */
@@ -238,6 +459,146 @@ export class TrackingService {
         }
     }
 
+    /**
+     * Finds the visitor of an SDK request, creating it under the SDK's visitor ID on first contact
+     * IP addresses are only stored when the company captures them
+     */
+    private async findOrCreateVisitor(
+        companyId: string,
+        batch: Pick<ITrackingBatch, 'visitorId' | 'metadata'>,
+        ipAddress: string
+    ): Promise<IVisitor> {
+        const existing = await this.visitorRepository.findById(batch.visitorId);
+        if (existing) {
+            this.assertCompanyVisitor(companyId, existing);
+            return existing;
+        }
+
+        const company = await this.companyRepository.findById(companyId);
+        const captureIp = company?.settings?.visitorTrackingSettings?.captureIPAddress !== false;
+
+        return this.visitorRepository.create({
+            id: batch.visitorId,
+            companyId,
+            metadata: {
+                ipAddress: captureIp ? ipAddress : '',
+                userAgent: batch.metadata.userAgent,
+                referrer: batch.metadata.referrer,
+                currentPage: batch.metadata.currentPage,
+                previousPages: [],
+                customParams: {},
+                location: { country: '', city: '', region: '', postalCode: '', timezone: '' },
+                deviceType: '',
+                browser: '',
+                os: ''
+            },
+            enrichedData: null,
+            visits: 1,
+            totalTimeSpent: 0,
+            firstSeen: new Date(),
+            lastSeen: new Date(),
+            isActive: true,
+            tags: {}
+        }, { gdprConsent: false });
+    }
+
+    /**
+     * Loads a visitor the SDK of a company refers to
+     * @throws AppError when the visitor does not exist or belongs to another company
+     */
+    private async findCompanyVisitor(companyId: string, visitorId: string): Promise<IVisitor> {
+        const visitor = await this.visitorRepository.findById(visitorId);
+        if (!visitor) {
+            throw createError('Visitor not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, { visitorId });
+        }
+        this.assertCompanyVisitor(companyId, visitor);
+        return visitor;
+    }
+
+    /**
+     * Rejects SDK requests referring to another company's visitor
+     */
+    private assertCompanyVisitor(companyId: string, visitor: IVisitor): void {
+        if (visitor.companyId !== companyId) {
+            throw createError(
+                'Visitor belongs to another company',
+                ErrorCodes.FORBIDDEN,
+                ErrorTypes.AUTHORIZATION_ERROR,
+                { visitorId: visitor.id }
+            );
+        }
+    }
+
+    /**
+     * Identifies a visitor from the email captured from a form submission
+     * Requires identification consent, either recorded before or given through the form's
+     * consent field; purposes the visitor declined before stay declined. Bots and visitors
+     * already identified are left unchanged, and a failed identification never fails tracking
+     */
+    private async identifyFromForm(visitor: IVisitor, form: ICapturedForm): Promise<IVisitor> {
+        const { email, name, phone, company } = form.fields;
+        const unidentified = visitor.status === VISITOR_STATUS.ANONYMOUS ||
+            visitor.status === VISITOR_STATUS.COMPANY_RESOLVED;
+        const consented = form.consentGiven ||
+            this.consentService.hasConsent(visitor, CONSENT_PURPOSE.IDENTIFICATION);
+
+        if (!email || !form.autoIdentify || !unidentified || !consented || visitor.trafficQuality?.isBot) {
+            return visitor;
+        }
+
+        const declined = IDENTIFICATION_CONSENT_PURPOSES.filter(purpose => visitor.consent?.[purpose]?.granted === false);
+        try {
+            return await this.identityService.identifyVisitor(visitor.id, {
+                email,
+                name,
+                phone,
+                gdprConsent: true,
+                ...(declined.length > 0 && {
+                    consent: Object.fromEntries(declined.map(purpose => [purpose, false]))
+                }),
+                ...(company && { customFields: { [FORM_CAPTURE_FIELD.COMPANY]: company } })
+            });
+        } catch (error) {
+            this.logger.warn('Error identifying visitor from form submission', {
+                visitorId: visitor.id,
+                error: error.message
+            });
+            return visitor;
+        }
+    }
+
+    /**
+     * Validates the custom events of a batch against the company's registered schemas
+     * Events failing validation are dropped so the rest of the batch is still recorded
+     * @returns Events to record, with the validated payload of custom events
+     */
+    private async validateCustomEvents(
+        companyId: string,
+        events: ITrackingEvent[]
+    ): Promise<Array<{ event: ITrackingEvent; customEvent?: ICustomEventData }>> {
+        const validated: Array<{ event: ITrackingEvent; customEvent?: ICustomEventData }> = [];
+
+        for (const event of events) {
+            if (event.type !== VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT) {
+                validated.push({ event });
+                continue;
+            }
+
+            try {
+                const customEvent = await this.customEventService.validateEvent(
+                    companyId,
+                    event.data?.eventName,
+                    event.data?.properties
+                );
+                validated.push({ event, customEvent });
+            } catch (error) {
+                this.logger.warn('Dropped invalid custom event', { companyId, error: error.message });
+            }
+        }
+
+        return validated;
+    }
+
     /**
      * Emits real-time tracking updates with delivery guarantees
      */
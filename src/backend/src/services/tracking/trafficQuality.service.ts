@@ -0,0 +1,283 @@
+/**
+ * @fileoverview Service classifying visitor traffic as human or bot
+ * Flags crawlers, uptime monitors and automated browsers from their user agent, headless-browser
+ * hints, a locally loaded datacenter IP range dataset and impossible page rates
+ * @version 1.0.0
+ */
+
+import { readFile } from 'fs/promises';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common'; // v9.x
+import { ConfigService } from '@nestjs/config';
+
+import { IVisitor } from '../../interfaces/visitor.interface';
+import { IVisitorSession } from '../../interfaces/session.interface';
+import {
+    IDatacenterRangeRecord,
+    ITrafficQualityInput,
+    ITrafficQualityVerdict,
+    IBotSignal
+} from '../../interfaces/trafficQuality.interface';
+import {
+    BOT_SIGNAL,
+    BOT_USER_AGENT_PATTERN,
+    HEADLESS_USER_AGENT_PATTERN,
+    BOT_MIN_SESSION_PAGES,
+    BOT_MAX_PAGES_PER_MINUTE
+} from '../../constants/trafficQuality.constants';
+import { ErrorCodes, ErrorTypes } from '../../constants/error.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+import { createError } from '../../utils/error.util';
+import { isValidIPv4, ipv4ToNumber, parseCidr } from '../../utils/ip.util';
+
+/**
+ * Service flagging bot traffic and storing the verdict on visitors
+ */
+@Injectable()
+export class TrafficQualityService implements OnModuleInit {
+    private readonly logger = new Logger(TrafficQualityService.name);
+
+    /** Datacenter ranges keyed by prefix length, then by network start address */
+    private index: Map<number, Map<number, IDatacenterRangeRecord>> = new Map();
+    private prefixLengths: number[] = [];
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly visitorRepository: VisitorRepository
+    ) {}
+
+    /**
+     * Loads the configured datacenter IP range dataset on module initialization
+     */
+    public async onModuleInit(): Promise<void> {
+        const datasetPath = this.configService.get<string>('trafficQuality.datacenterDatasetPath');
+        if (!datasetPath) {
+            this.logger.warn('No datacenter IP dataset configured, datacenter detection disabled');
+            return;
+        }
+
+        await this.loadDatasetFromFile(datasetPath);
+    }
+
+    /**
+     * Loads a datacenter IP range dataset from a JSON file containing an array of records
+     * @param filePath - Path to the dataset file
+     * @returns Number of ranges indexed
+     */
+    public async loadDatasetFromFile(filePath: string): Promise<number> {
+        try {
+            const records = JSON.parse(await readFile(filePath, 'utf8')) as IDatacenterRangeRecord[];
+            if (!Array.isArray(records)) {
+                throw new Error('Datacenter IP dataset must be a JSON array');
+            }
+
+            return this.loadDataset(records);
+        } catch (error) {
+            this.logger.error(`Failed to load datacenter IP dataset from ${filePath}: ${error.message}`);
+            throw error;
+        }
+    }
+
+    /**
+     * Replaces the datacenter range index with the supplied dataset
+     * Invalid entries are skipped and logged
+     * @param records - Datacenter ranges to index
+     * @returns Number of ranges indexed
+     */
+    public loadDataset(records: IDatacenterRangeRecord[]): number {
+        const index = new Map<number, Map<number, IDatacenterRangeRecord>>();
+        let count = 0;
+
+        for (const record of records) {
+            try {
+                const range = parseCidr(record.cidr);
+                if (!index.has(range.prefixLength)) {
+                    index.set(range.prefixLength, new Map());
+                }
+                index.get(range.prefixLength)!.set(range.start, record);
+                count++;
+            } catch (error) {
+                this.logger.warn(`Skipping invalid datacenter range ${record.cidr}: ${error.message}`);
+            }
+        }
+
+        this.index = index;
+        this.prefixLengths = Array.from(index.keys()).sort((a, b) => b - a);
+
+        this.logger.log(`Datacenter IP dataset loaded with ${count} ranges`);
+        return count;
+    }
+
+    /**
+     * Finds the datacenter range containing an IP address
+     * @param ipAddress - IPv4 address to look up
+     * @returns Matching range, or null for addresses outside known datacenters
+     */
+    public findDatacenter(ipAddress?: string): IDatacenterRangeRecord | null {
+        if (!ipAddress || !isValidIPv4(ipAddress)) {
+            return null;
+        }
+
+        const value = ipv4ToNumber(ipAddress);
+        for (const prefixLength of this.prefixLengths) {
+            const mask = prefixLength === 0 ? 0 : (0xffffffff << (32 - prefixLength)) >>> 0;
+            const match = this.index.get(prefixLength)!.get((value & mask) >>> 0);
+            if (match) {
+                return match;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Detects the bot signals of a request
+     * @param input - User agent, IP address and automation hint of the request
+     * @returns Detected signals, empty for traffic that looks human
+     */
+    public detectSignals(input: ITrafficQualityInput): IBotSignal[] {
+        const signals: IBotSignal[] = [];
+        const userAgent = input.userAgent?.trim() || '';
+        const detectedAt = new Date();
+
+        if (!userAgent) {
+            signals.push({ type: BOT_SIGNAL.USER_AGENT, detail: 'Missing user agent', detectedAt });
+        } else if (BOT_USER_AGENT_PATTERN.test(userAgent)) {
+            signals.push({ type: BOT_SIGNAL.USER_AGENT, detail: userAgent, detectedAt });
+        }
+
+        if (input.webdriver || HEADLESS_USER_AGENT_PATTERN.test(userAgent)) {
+            signals.push({
+                type: BOT_SIGNAL.HEADLESS_BROWSER,
+                detail: input.webdriver ? 'Browser reports webdriver automation' : userAgent,
+                detectedAt
+            });
+        }
+
+        const datacenter = this.findDatacenter(input.ipAddress);
+        if (datacenter) {
+            signals.push({ type: BOT_SIGNAL.DATACENTER_IP, detail: datacenter.provider, detectedAt });
+        }
+
+        return signals;
+    }
+
+    /**
+     * Detects a session viewing pages faster than a person can
+     * @param session - Page count and duration of the session
+     * @returns Page rate signal, or null for plausible sessions
+     */
+    public detectPageRate(session: Pick<IVisitorSession, 'pageCount' | 'durationSeconds'>): IBotSignal | null {
+        if (session.pageCount < BOT_MIN_SESSION_PAGES) {
+            return null;
+        }
+
+        const pagesPerMinute = session.pageCount / Math.max(session.durationSeconds / 60, 1 / 60);
+        if (pagesPerMinute <= BOT_MAX_PAGES_PER_MINUTE) {
+            return null;
+        }
+
+        return {
+            type: BOT_SIGNAL.PAGE_RATE,
+            detail: `${session.pageCount} pages in ${session.durationSeconds}s`,
+            detectedAt: new Date()
+        };
+    }
+
+    /**
+     * Classifies a visitor from the request that delivered its activity
+     * @param visitor - Visitor the request belongs to
+     * @param input - User agent, IP address and automation hint of the request
+     * @returns Visitor with its updated verdict
+     */
+    public async classifyVisitor(visitor: IVisitor, input: ITrafficQualityInput): Promise<IVisitor> {
+        return this.applySignals(visitor, this.detectSignals(input));
+    }
+
+    /**
+     * Checks the page rate of a visitor's current session
+     * @param session - Session the visitor's latest activity was grouped into
+     */
+    public async checkSession(session: IVisitorSession): Promise<void> {
+        const signal = this.detectPageRate(session);
+        if (!signal) {
+            return;
+        }
+
+        const visitor = await this.visitorRepository.findById(session.visitorId);
+        if (visitor) {
+            await this.applySignals(visitor, [signal]);
+        }
+    }
+
+    /**
+     * Lists a company's visitors flagged as bots
+     * @param companyId - Company owning the visitors
+     * @param page - Page number
+     * @param limit - Visitors per page
+     * @returns Flagged visitors, most recently seen first
+     */
+    public async getBots(
+        companyId: string,
+        page: number = 1,
+        limit: number = 50
+    ): Promise<{ visitors: IVisitor[]; total: number }> {
+        return this.visitorRepository.findByCompany(companyId, page, limit, { bots: true });
+    }
+
+    /**
+     * Unflags a visitor an admin reviewed as human
+     * The visitor is never flagged again, though new signals are still recorded
+     * @param companyId - Company of the admin
+     * @param visitorId - Visitor to unflag
+     * @param userId - Admin unflagging the visitor
+     * @returns Visitor with its updated verdict
+     * @throws AppError when the visitor does not exist or belongs to another company
+     */
+    public async unflagVisitor(companyId: string, visitorId: string, userId: string): Promise<IVisitor> {
+        const visitor = await this.visitorRepository.findById(visitorId);
+        if (!visitor || visitor.companyId !== companyId) {
+            throw createError('Visitor not found', ErrorCodes.NOT_FOUND, ErrorTypes.RESOURCE_ERROR, { visitorId });
+        }
+        if (!visitor.trafficQuality?.isBot) {
+            return visitor;
+        }
+
+        const trafficQuality: ITrafficQualityVerdict = {
+            ...visitor.trafficQuality,
+            isBot: false,
+            classifiedAt: new Date(),
+            reviewedBy: userId,
+            reviewedAt: new Date()
+        };
+
+        this.logger.log(`Visitor ${visitorId} unflagged as bot by user ${userId}`);
+        return (await this.visitorRepository.patch(visitorId, { trafficQuality })) || { ...visitor, trafficQuality };
+    }
+
+    /**
+     * Adds newly detected signals to a visitor's verdict, flagging it unless an admin unflagged it
+     * Visitors are only written when a signal type is detected for the first time
+     */
+    private async applySignals(visitor: IVisitor, signals: IBotSignal[]): Promise<IVisitor> {
+        const current = visitor.trafficQuality;
+        const known = new Set(current?.signals.map(signal => signal.type));
+        const added = signals.filter(signal => !known.has(signal.type));
+        if (added.length === 0) {
+            return visitor;
+        }
+
+        const trafficQuality: ITrafficQualityVerdict = {
+            isBot: !current?.reviewedBy,
+            signals: [...(current?.signals || []), ...added],
+            classifiedAt: new Date(),
+            reviewedBy: current?.reviewedBy || null,
+            reviewedAt: current?.reviewedAt || null
+        };
+
+        if (trafficQuality.isBot) {
+            this.logger.log(`Visitor ${visitor.id} flagged as bot: ${added.map(signal => signal.type).join(', ')}`);
+        }
+
+        return (await this.visitorRepository.patch(visitor.id, { trafficQuality })) || { ...visitor, trafficQuality };
+    }
+}
@@ -0,0 +1,84 @@
+/**
+ * @fileoverview Service rolling up visitors into accounts for account-based selling
+ * Groups a company's visitors by organization domain and summarizes their engagement
+ * @version 1.0.0
+ */
+
+import { Injectable, Logger } from '@nestjs/common'; // v9.x
+
+import { IVisitor } from '../../interfaces/visitor.interface';
+import { IAccountSummary, IAccountQuery } from '../../interfaces/account.interface';
+import { ACCOUNT_DOMAIN_PATTERN, ACCOUNT_TOP_PAGES_LIMIT } from '../../constants/account.constants';
+import { VisitorRepository } from '../../db/repositories/visitor.repository';
+
+/**
+ * Service listing accounts and the visitors belonging to them
+ */
+@Injectable()
+export class AccountService {
+    private readonly logger = new Logger(AccountService.name);
+    private readonly domainPattern = new RegExp(ACCOUNT_DOMAIN_PATTERN);
+
+    constructor(private readonly visitorRepository: VisitorRepository) {}
+
+    /**
+     * Lists a company's accounts with their engagement rollup
+     * @param companyId - Company owning the visitors
+     * @param query - Pagination, sort and search options
+     * @returns Paginated account summaries including top pages
+     */
+    public async getAccounts(
+        companyId: string,
+        query: IAccountQuery
+    ): Promise<{ accounts: IAccountSummary[]; total: number }> {
+        const { accounts, total } = await this.visitorRepository.aggregateAccounts(companyId, query);
+
+        const topPages = await this.visitorRepository.findAccountTopPages(
+            companyId,
+            accounts.map(account => account.domain),
+            ACCOUNT_TOP_PAGES_LIMIT
+        );
+
+        this.logger.debug(`Aggregated ${accounts.length} of ${total} accounts for company ${companyId}`);
+
+        return {
+            accounts: accounts.map(account => ({
+                ...account,
+                topPages: topPages[account.domain] || []
+            })),
+            total
+        };
+    }
+
+    /**
+     * Lists the visitors belonging to an account, most recently seen first
+     * @param companyId - Company owning the visitors
+     * @param domain - Account domain, with or without protocol and www
+     * @param page - Page number
+     * @param limit - Visitors per page
+     * @returns Paginated visitors of the account
+     */
+    public async getAccountVisitors(
+        companyId: string,
+        domain: string,
+        page: number = 1,
+        limit: number = 50
+    ): Promise<{ visitors: IVisitor[]; total: number }> {
+        const account = this.normalizeDomain(domain);
+        if (!account) {
+            return { visitors: [], total: 0 };
+        }
+
+        return this.visitorRepository.findByCompany(companyId, page, limit, { account });
+    }
+
+    /**
+     * Reduces a website or domain to the account domain visitors are grouped by
+     * @param value - Website URL or domain
+     * @returns Lower-cased host without www, or null when none can be extracted
+     */
+    public normalizeDomain(value: string): string | null {
+        const match = this.domainPattern.exec(value.trim().toLowerCase());
+        return match ? match[1] : null;
+    }
+}
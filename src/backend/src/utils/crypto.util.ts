@@ -218,4 +218,36 @@ export const generateKey = async (
     logger.error('Key generation failed', cryptoError);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Signs data with HMAC-SHA256
+ * @param data Data to sign
+ * @param key Signing key
+ * @returns string Base64url-encoded signature
+ */
+export const createHmacSignature = (data: string, key: string): string => {
+  return crypto.createHmac('sha256', key).update(data).digest('base64url');
+};
+
+/**
+ * Verifies an HMAC-SHA256 signature in constant time
+ * @param data Signed data
+ * @param signature Base64url-encoded signature to verify
+ * @param key Signing key
+ * @returns boolean True if the signature matches
+ */
+export const verifyHmacSignature = (data: string, signature: string, key: string): boolean => {
+  const expected = Buffer.from(createHmacSignature(data, key));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Hashes an API key with SHA-256 for storage and lookup
+ * @param apiKey API key to hash
+ * @returns string Hex-encoded hash
+ */
+export const hashApiKey = (apiKey: string): string => {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+};
@@ -0,0 +1,269 @@
+/**
+ * Field Transform Utility Functions
+ * Version: 1.0.0
+ *
+ * Validates and evaluates the transformations of CRM field mappings. Transformations are
+ * JSON expression trees of literals, visitor fields and built-in operators, so they are
+ * evaluated without running user code and only ever read the visitor's fields.
+ */
+
+import {
+    IFieldMapping,
+    ITransformExpression,
+    ITransformField,
+    ITransformOperation
+} from '../interfaces/integration.interface';
+import { IIcpMatchReason } from '../interfaces/icp.interface';
+import {
+    ICP_REASONS_TRANSFORM,
+    TRANSFORM_OPERATOR,
+    TRANSFORM_OPERATOR_ARITY,
+    MAX_TRANSFORM_DEPTH,
+    MAX_TRANSFORM_NODES,
+    TRANSFORM_FIELD_PATTERN
+} from '../constants/integration.constants';
+import { formatDate, isValidDate } from './date.util';
+
+// Path segments that would reach object prototypes instead of visitor fields
+const FORBIDDEN_FIELD_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Arguments that must be literals, by operator and argument position
+const LITERAL_ARGUMENTS: Partial<Record<TRANSFORM_OPERATOR, Record<number, 'string' | 'number'>>> = {
+    [TRANSFORM_OPERATOR.SPLIT]: { 1: 'string', 2: 'number' },
+    [TRANSFORM_OPERATOR.JOIN]: { 1: 'string' },
+    [TRANSFORM_OPERATOR.FORMAT_DATE]: { 1: 'string', 2: 'string' }
+};
+
+const isField = (expression: ITransformExpression): expression is ITransformField =>
+    typeof expression === 'object' && expression !== null && 'field' in expression;
+
+const isOperation = (expression: ITransformExpression): expression is ITransformOperation =>
+    typeof expression === 'object' && expression !== null && 'op' in expression;
+
+const isEmpty = (value: unknown): boolean =>
+    value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Conditions treat anything but false and empty values as true
+const isTruthy = (value: unknown): boolean => value !== false && !isEmpty(value);
+
+const toText = (value: unknown): string | null => {
+    if (isEmpty(value)) return null;
+    return value instanceof Date ? value.toISOString() : String(value);
+};
+
+/**
+ * Checks a transformation is a well-formed expression within the size limits
+ * @param expression Transformation as saved on the field mapping
+ * @returns Description of the first problem found, or null when the transformation is valid
+ */
+export function validateTransformation(expression: unknown): string | null {
+    let nodes = 0;
+
+    const check = (node: unknown, depth: number): string | null => {
+        nodes++;
+        if (nodes > MAX_TRANSFORM_NODES) {
+            return `Transformations are limited to ${MAX_TRANSFORM_NODES} expressions`;
+        }
+        if (depth > MAX_TRANSFORM_DEPTH) {
+            return `Transformations are limited to ${MAX_TRANSFORM_DEPTH} levels of nesting`;
+        }
+
+        if (node === null || ['string', 'number', 'boolean'].includes(typeof node)) {
+            return null;
+        }
+        if (typeof node !== 'object' || Array.isArray(node)) {
+            return 'Transformation expressions must be literals, fields or operations';
+        }
+
+        const expression = node as Record<string, unknown>;
+        if ('field' in expression) {
+            const field = expression.field;
+            if (Object.keys(expression).length !== 1 || typeof field !== 'string' || !TRANSFORM_FIELD_PATTERN.test(field)) {
+                return 'Transformation fields must be visitor field paths such as enrichedData.company';
+            }
+            if (field.split('.').some(segment => FORBIDDEN_FIELD_SEGMENTS.has(segment))) {
+                return `Transformation field ${field} is not a visitor field`;
+            }
+            return null;
+        }
+
+        const op = expression.op as TRANSFORM_OPERATOR;
+        if (!Object.values(TRANSFORM_OPERATOR).includes(op)) {
+            return 'Transformation operator must be one of: ' + Object.values(TRANSFORM_OPERATOR).join(', ');
+        }
+        if (Object.keys(expression).some(key => !['op', 'args', 'table'].includes(key))) {
+            return `${op} only takes op, args and table`;
+        }
+
+        const args = expression.args;
+        const [min, max] = TRANSFORM_OPERATOR_ARITY[op];
+        if (!Array.isArray(args) || args.length < min || args.length > max) {
+            return max === Infinity
+                ? `${op} takes at least ${min} arguments`
+                : `${op} takes ${min === max ? min : `${min} to ${max}`} arguments`;
+        }
+
+        for (const [position, type] of Object.entries(LITERAL_ARGUMENTS[op] || {})) {
+            const arg = args[Number(position)];
+            if (arg !== undefined && typeof arg !== type) {
+                return `Argument ${Number(position) + 1} of ${op} must be a ${type}`;
+            }
+        }
+
+        const table = expression.table;
+        if (op === TRANSFORM_OPERATOR.MAP_VALUE) {
+            if (typeof table !== 'object' || table === null || Array.isArray(table)) {
+                return 'mapValue takes a table of values';
+            }
+            if (Object.values(table).some(value => value !== null && typeof value === 'object')) {
+                return 'mapValue table values must be literals';
+            }
+        } else if (table !== undefined) {
+            return 'Only mapValue takes a table';
+        }
+
+        for (const arg of args) {
+            const problem = check(arg, depth + 1);
+            if (problem) return problem;
+        }
+        return null;
+    };
+
+    return check(expression, 1);
+}
+
+/**
+ * Reads a visitor field, never reaching object prototypes or methods
+ * @param visitor Visitor the transformation runs against
+ * @param path Dotted field path
+ * @returns Field value, undefined when the path does not exist
+ */
+export function readVisitorField(visitor: object, path: string): unknown {
+    const value = path.split('.').reduce<unknown>((current, key) =>
+        current !== null && typeof current === 'object' && !FORBIDDEN_FIELD_SEGMENTS.has(key)
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+    visitor);
+    return typeof value === 'function' ? undefined : value;
+}
+
+/**
+ * Evaluates a transformation against a visitor
+ * Operators are lenient with values they do not apply to: text operators leave empty values
+ * empty and dates that cannot be parsed format as null, so a visitor's missing data never
+ * fails a sync
+ * @param expression Transformation validated by validateTransformation
+ * @param visitor Visitor whose fields the transformation reads
+ * @returns Computed CRM value
+ */
+export function evaluateTransformation(expression: ITransformExpression, visitor: object): unknown {
+    if (expression === null || typeof expression !== 'object') {
+        return expression;
+    }
+    if (isField(expression)) {
+        return readVisitorField(visitor, expression.field) ?? null;
+    }
+    if (!isOperation(expression)) {
+        return null;
+    }
+
+    const evaluate = (index: number): unknown =>
+        index < expression.args.length ? evaluateTransformation(expression.args[index], visitor) : null;
+
+    switch (expression.op) {
+        case TRANSFORM_OPERATOR.CONCAT: {
+            const text = expression.args.map((_, index) => toText(evaluate(index)) ?? '').join('');
+            return text || null;
+        }
+        case TRANSFORM_OPERATOR.SPLIT: {
+            const text = toText(evaluate(0));
+            if (text === null) return null;
+            const parts = text.split(expression.args[1] as string).map(part => part.trim());
+            const index = expression.args[2] as number | undefined;
+            if (index === undefined) return parts;
+            return parts[index < 0 ? parts.length + index : index] || null;
+        }
+        case TRANSFORM_OPERATOR.JOIN: {
+            const value = evaluate(0);
+            if (!Array.isArray(value)) return toText(value);
+            const separator = (expression.args[1] as string | undefined) ?? ', ';
+            return value.map(toText).filter(item => item !== null).join(separator) || null;
+        }
+        case TRANSFORM_OPERATOR.LOWERCASE:
+            return toText(evaluate(0))?.toLowerCase() ?? null;
+        case TRANSFORM_OPERATOR.UPPERCASE:
+            return toText(evaluate(0))?.toUpperCase() ?? null;
+        case TRANSFORM_OPERATOR.TRIM:
+            return toText(evaluate(0))?.trim() || null;
+        case TRANSFORM_OPERATOR.MAP_VALUE: {
+            const value = evaluate(0);
+            const key = toText(value);
+            const table = expression.table || {};
+            if (key !== null && Object.prototype.hasOwnProperty.call(table, key)) {
+                return table[key];
+            }
+            return expression.args.length > 1 ? evaluate(1) : value;
+        }
+        case TRANSFORM_OPERATOR.FORMAT_DATE: {
+            const value = evaluate(0);
+            if (!isValidDate(value)) return null;
+            const formatted = formatDate(
+                value as Date | string | number,
+                expression.args[1] as string,
+                expression.args[2] as string | undefined
+            );
+            return formatted || null;
+        }
+        case TRANSFORM_OPERATOR.DEFAULT:
+            for (let index = 0; index < expression.args.length; index++) {
+                const value = evaluate(index);
+                if (!isEmpty(value)) return value;
+            }
+            return null;
+        case TRANSFORM_OPERATOR.IF:
+            return isTruthy(evaluate(0)) ? evaluate(1) : evaluate(2);
+        case TRANSFORM_OPERATOR.EQUALS: {
+            const left = evaluate(0);
+            const right = evaluate(1);
+            return left === right || (!isEmpty(left) && toText(left) === toText(right));
+        }
+        case TRANSFORM_OPERATOR.CONTAINS: {
+            const container = evaluate(0);
+            const item = evaluate(1);
+            if (Array.isArray(container)) return container.some(value => toText(value) === toText(item));
+            const text = toText(container);
+            const search = toText(item);
+            return text !== null && search !== null && text.includes(search);
+        }
+        case TRANSFORM_OPERATOR.IS_EMPTY:
+            return isEmpty(evaluate(0));
+        case TRANSFORM_OPERATOR.AND:
+            return expression.args.every((_, index) => isTruthy(evaluate(index)));
+        case TRANSFORM_OPERATOR.OR:
+            return expression.args.some((_, index) => isTruthy(evaluate(index)));
+        case TRANSFORM_OPERATOR.NOT:
+            return !isTruthy(evaluate(0));
+        default:
+            return null;
+    }
+}
+
+/**
+ * Computes the CRM value of a field mapping for a visitor
+ * The transformation replaces the source field value when set; otherwise the source value is
+ * pushed, through the mapping's built-in transform function if any
+ * @param mapping Field mapping
+ * @param visitor Visitor being pushed
+ * @returns CRM value, null when the visitor has none
+ */
+export function applyFieldMapping(mapping: IFieldMapping, visitor: object): unknown {
+    if (mapping.transformation !== undefined && mapping.transformation !== null) {
+        return evaluateTransformation(mapping.transformation, visitor) ?? null;
+    }
+
+    const value = readVisitorField(visitor, mapping.sourceField) ?? null;
+    if (mapping.transformFunction === ICP_REASONS_TRANSFORM && Array.isArray(value)) {
+        return (value as IIcpMatchReason[]).map(reason => `${reason.criterion}: ${reason.value}`).join('; ') || null;
+    }
+    return value;
+}
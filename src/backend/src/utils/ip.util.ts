@@ -0,0 +1,95 @@
+/**
+ * IP Address Utility Functions
+ * Version: 1.0.0
+ *
+ * Provides IPv4 parsing and CIDR range helpers used by reverse-IP
+ * company resolution and traffic classification.
+ */
+
+// IPv4 address pattern (dotted quad, each octet 0-255)
+const IPV4_REGEX = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
+
+/**
+ * Parsed representation of a CIDR range as an inclusive numeric interval
+ */
+export interface ICidrRange {
+    /** Original CIDR notation */
+    cidr: string;
+    /** First address of the range as unsigned 32-bit integer */
+    start: number;
+    /** Last address of the range as unsigned 32-bit integer */
+    end: number;
+    /** Prefix length (0-32) */
+    prefixLength: number;
+}
+
+/**
+ * Checks whether a string is a valid IPv4 address
+ * @param ip String to check
+ * @returns boolean indicating if the input is a valid IPv4 address
+ */
+export function isValidIPv4(ip: string): boolean {
+    return typeof ip === 'string' && IPV4_REGEX.test(ip);
+}
+
+/**
+ * Converts an IPv4 address to an unsigned 32-bit integer
+ * @param ip IPv4 address in dotted-quad notation
+ * @returns Numeric representation of the address
+ * @throws Error if the address is not a valid IPv4 address
+ */
+export function ipv4ToNumber(ip: string): number {
+    if (!isValidIPv4(ip)) {
+        throw new Error(`Invalid IPv4 address: ${ip}`);
+    }
+
+    return ip
+        .split('.')
+        .reduce((acc, octet) => ((acc << 8) | parseInt(octet, 10)) >>> 0, 0);
+}
+
+/**
+ * Parses a CIDR range into its numeric start and end addresses
+ * @param cidr Range in CIDR notation (e.g. 203.0.113.0/24)
+ * @returns Parsed range
+ * @throws Error if the CIDR notation is invalid
+ */
+export function parseCidr(cidr: string): ICidrRange {
+    const [address, prefix] = cidr.trim().split('/');
+    const prefixLength = prefix === undefined ? 32 : parseInt(prefix, 10);
+
+    if (isNaN(prefixLength) || prefixLength < 0 || prefixLength > 32) {
+        throw new Error(`Invalid CIDR prefix: ${cidr}`);
+    }
+
+    const mask = prefixLength === 0 ? 0 : (0xffffffff << (32 - prefixLength)) >>> 0;
+    const start = (ipv4ToNumber(address) & mask) >>> 0;
+    const end = (start | (~mask >>> 0)) >>> 0;
+
+    return { cidr: cidr.trim(), start, end, prefixLength };
+}
+
+/**
+ * Checks whether an IPv4 address falls within a CIDR range
+ * @param ip IPv4 address to check
+ * @param cidr Range in CIDR notation
+ * @returns boolean indicating if the address is inside the range
+ */
+export function isIpInCidr(ip: string, cidr: string): boolean {
+    if (!isValidIPv4(ip)) {
+        return false;
+    }
+
+    const value = ipv4ToNumber(ip);
+    const range = parseCidr(cidr);
+    return value >= range.start && value <= range.end;
+}
+
+/**
+ * Masks the host part of an IP address so it no longer identifies a device
+ * @param ip IP address to mask
+ * @returns Address with its last IPv4 octet replaced by "xxx"; other input is returned unchanged
+ */
+export function anonymizeIp(ip: string): string {
+    return ip.replace(/\.\d+$/, '.xxx');
+}
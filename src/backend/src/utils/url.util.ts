@@ -0,0 +1,212 @@
+/**
+ * URL Utility Functions
+ * Version: 1.0.0
+ *
+ * Provides tracked URL normalization and path pattern matching used by
+ * content grouping of page views and tracking path exclusions.
+ */
+
+import { IUrlNormalizationSettings } from '../interfaces/content.interface';
+import { TRAILING_SLASH } from '../constants/content.constants';
+
+// Base resolving path-only URLs, stripped again after normalization
+const RELATIVE_BASE = 'http://relative.invalid';
+
+// Absolute URL scheme prefix, e.g. https://
+const ABSOLUTE_URL_REGEX = /^[a-z][a-z0-9+.-]*:\/\//i;
+
+// Last path segment with a file extension, e.g. /assets/report.pdf
+const FILE_SEGMENT_REGEX = /\/[^/]+\.[a-z0-9]+$/i;
+
+// Path pattern segment matching any number of path segments
+const GLOBSTAR = '**';
+
+// Maximum compiled path patterns kept, evicting the least recently compiled
+const MAX_COMPILED_PATH_PATTERNS = 1000;
+
+/**
+ * Segment of a compiled path pattern: ** or the literal parts of one segment around its * wildcards
+ */
+type PathPatternSegment = typeof GLOBSTAR | string[];
+
+// Compiled path patterns by pattern, since the same few patterns of a company are matched against every event
+const compiledPathPatterns = new Map<string, PathPatternSegment[]>();
+
+/**
+ * Canonicalizes a tracked URL so variants of the same page compare equal
+ * Fragments are always dropped; query parameters, trailing slashes and path case follow the settings
+ * @param url Absolute or path-only URL as tracked
+ * @param settings Normalization rules of the company
+ * @returns Normalized URL, or the URL unchanged when it cannot be parsed
+ */
+export function normalizeUrl(url: string, settings: IUrlNormalizationSettings): string {
+    const relative = !ABSOLUTE_URL_REGEX.test(url);
+    let parsed: URL;
+    try {
+        parsed = new URL(url, RELATIVE_BASE);
+    } catch {
+        return url;
+    }
+
+    parsed.hash = '';
+
+    if (settings.stripQueryParams) {
+        const kept = new Set(settings.keptQueryParams.map(name => name.toLowerCase()));
+        for (const name of [...new Set(parsed.searchParams.keys())]) {
+            if (!kept.has(name.toLowerCase())) {
+                parsed.searchParams.delete(name);
+            }
+        }
+    }
+    parsed.searchParams.sort();
+
+    parsed.pathname = canonicalizePath(parsed.pathname, settings);
+
+    const normalized = parsed.toString();
+    return relative ? normalized.slice(parsed.origin.length) : normalized;
+}
+
+/**
+ * Reads the path of an absolute or path-only URL
+ * @param url URL to read
+ * @returns Path of the URL, or null when it cannot be parsed
+ */
+export function getUrlPath(url: string): string | null {
+    try {
+        return new URL(url, RELATIVE_BASE).pathname;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Checks whether a path matches a path pattern, ignoring case and trailing slashes
+ * In patterns * matches within one path segment and ** matches any number of segments,
+ * so /customers/** matches /customers as well as /customers/acme/results
+ * @param path Path to check
+ * @param pattern Absolute path pattern
+ * @returns boolean indicating if the path matches
+ */
+export function matchesPathPattern(path: string, pattern: string): boolean {
+    const segments = compilePathPattern(pattern);
+    const pathSegments = splitPath(path);
+
+    // Linear scan remembering the last ** to resume from, so no input backtracks more than once per segment
+    let index = 0;
+    let pathIndex = 0;
+    let globstarIndex = -1;
+    let globstarPathIndex = 0;
+    while (pathIndex < pathSegments.length) {
+        const segment = segments[index];
+        if (segment === GLOBSTAR) {
+            globstarIndex = index++;
+            globstarPathIndex = pathIndex;
+        } else if (segment && matchesSegment(segment, pathSegments[pathIndex])) {
+            index++;
+            pathIndex++;
+        } else if (globstarIndex >= 0) {
+            index = globstarIndex + 1;
+            pathIndex = ++globstarPathIndex;
+        } else {
+            return false;
+        }
+    }
+
+    return segments.slice(index).every(segment => segment === GLOBSTAR);
+}
+
+/**
+ * Checks whether a path is excluded from tracking by one of the company's excluded path patterns
+ * Excluded paths follow the path pattern rules and also exclude the subpaths of the paths they match,
+ * so /admin excludes /admin/users and /internal/* excludes /internal/reports/2024
+ * @param path Path to check
+ * @param excludedPaths Excluded path patterns
+ * @returns boolean indicating if the path is excluded
+ */
+export function isPathExcluded(path: string, excludedPaths: string[]): boolean {
+    return excludedPaths.some(pattern => matchesPathPattern(path, `${withoutTrailingSlash(pattern)}/${GLOBSTAR}`));
+}
+
+/**
+ * Compiles a path pattern into segments once and caches it
+ */
+function compilePathPattern(pattern: string): PathPatternSegment[] {
+    const cached = compiledPathPatterns.get(pattern);
+    if (cached) {
+        return cached;
+    }
+
+    const segments: PathPatternSegment[] = [];
+    for (const segment of splitPath(pattern)) {
+        if (segment !== GLOBSTAR) {
+            segments.push(segment.split('*'));
+        } else if (segments[segments.length - 1] !== GLOBSTAR) {
+            segments.push(GLOBSTAR);
+        }
+    }
+
+    if (compiledPathPatterns.size >= MAX_COMPILED_PATH_PATTERNS) {
+        compiledPathPatterns.delete(compiledPathPatterns.keys().next().value as string);
+    }
+    compiledPathPatterns.set(pattern, segments);
+    return segments;
+}
+
+/**
+ * Checks whether a path segment matches the literal parts of a pattern segment in order,
+ * the first starting and the last ending the segment
+ */
+function matchesSegment(parts: string[], segment: string): boolean {
+    if (parts.length === 1) {
+        return segment === parts[0];
+    }
+
+    const first = parts[0];
+    const last = parts[parts.length - 1];
+    if (segment.length < first.length + last.length || !segment.startsWith(first) || !segment.endsWith(last)) {
+        return false;
+    }
+
+    // Taking the earliest occurrence of each part leaves the most room for the parts after it
+    let position = first.length;
+    const end = segment.length - last.length;
+    for (const part of parts.slice(1, -1)) {
+        const found = segment.indexOf(part, position);
+        if (found < 0 || found + part.length > end) {
+            return false;
+        }
+        position = found + part.length;
+    }
+    return true;
+}
+
+/**
+ * Splits a path into its lowercase segments, ignoring empty segments
+ */
+function splitPath(path: string): string[] {
+    return path.toLowerCase().split('/').filter(segment => segment.length > 0);
+}
+
+/**
+ * Applies trailing slash and case rules to a URL path
+ */
+function canonicalizePath(path: string, settings: IUrlNormalizationSettings): string {
+    let canonical = settings.lowercasePath ? path.toLowerCase() : path;
+
+    if (settings.trailingSlash === TRAILING_SLASH.STRIP) {
+        canonical = withoutTrailingSlash(canonical) || '/';
+    } else if (settings.trailingSlash === TRAILING_SLASH.ADD &&
+        !canonical.endsWith('/') &&
+        !FILE_SEGMENT_REGEX.test(canonical)) {
+        canonical = `${canonical}/`;
+    }
+
+    return canonical;
+}
+
+/**
+ * Removes trailing slashes of a path, leaving an empty string for the root path
+ */
+function withoutTrailingSlash(path: string): string {
+    return path.replace(/\/+$/, '');
+}
@@ -8,6 +8,7 @@ import { injectable } from 'inversify'; // v6.0.1
 import { Socket } from 'socket.io'; // v4.7.1
 import { Logger } from '@nestjs/common'; // v9.x
 import { ActivityService } from '../../services/tracking/activity.service';
+import { CustomEventService } from '../../services/tracking/customEvent.service';
 import { IVisitor } from '../../interfaces/visitor.interface';
 import { VISITOR_ACTIVITY_TYPE } from '../../constants/visitor.constants';
 
@@ -39,6 +40,10 @@ interface IActivityEvent {
         elementId?: string;
         formId?: string;
         fileId?: string;
+        /** Registered event name of CUSTOM_EVENT activities */
+        eventName?: string;
+        /** Property values of CUSTOM_EVENT activities */
+        properties?: Record<string, unknown>;
         metadata: Record<string, any>;
     };
 }
@@ -55,7 +60,8 @@ export class ActivityHandler {
     private readonly subscriptionCleanupInterval: number = 300000; // 5 minutes
 
     constructor(
-        private readonly activityService: ActivityService
+        private readonly activityService: ActivityService,
+        private readonly customEventService: CustomEventService
     ) {
         this.logger = new Logger('ActivityHandler');
         this.subscriptions = new Map();
@@ -79,7 +85,7 @@ export class ActivityHandler {
     ): Promise<void> {
         try {
             // Validate activity data
-            this.validateActivityData(activityData);
+            const data = await this.validateActivityData(socket.data.companyId, activityData);
 
             // Check rate limit
             if (!this.checkRateLimit(socket.id)) {
@@ -91,7 +97,7 @@ export class ActivityHandler {
                 activityData.visitorId,
                 {
                     type: activityData.type,
-                    data: activityData.data
+                    data
                 }
             );
 
@@ -213,9 +219,14 @@ export class ActivityHandler {
 
     /**
      * Validates activity event data format and content
+     * Custom events are checked against the schema the company registered
+     * @returns Activity data to track, with custom event properties coerced to their declared types
      * @private
      */
-    private validateActivityData(activityData: IActivityEvent): void {
+    private async validateActivityData(
+        companyId: string,
+        activityData: IActivityEvent
+    ): Promise<IActivityEvent['data']> {
         if (!activityData.visitorId || !this.isValidUUID(activityData.visitorId)) {
             throw new Error('Invalid visitor ID');
         }
@@ -227,6 +238,19 @@ export class ActivityHandler {
         if (!activityData.data || typeof activityData.data !== 'object') {
             throw new Error('Invalid activity data format');
         }
+
+        if (activityData.type !== VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT) {
+            return activityData.data;
+        }
+
+        return {
+            ...activityData.data,
+            ...await this.customEventService.validateEvent(
+                companyId,
+                activityData.data.eventName,
+                activityData.data.properties
+            )
+        };
     }
 
     /**
@@ -16,7 +16,7 @@ import { ActivityHandler } from './handlers/activity.handler';
 import { VisitorHandler } from './handlers/visitor.handler';
 import { JwtService } from '../services/auth/jwt.service';
 import { ErrorTypes } from '../constants/error.constants';
-import { VISITOR_STATUS } from '../constants/visitor.constants';
+import { VISITOR_STATUS, VISITOR_UPDATES_CHANNEL } from '../constants/visitor.constants';
 
 /**
  * Configuration interface for WebSocket server
@@ -88,6 +88,9 @@ export class WebSocketService {
       // Set up connection handling
       this.server.on('connection', (socket: Socket) => this.handleConnection(socket));
 
+      // Relay visitor updates published by backend services
+      await this.subscribeToVisitorUpdates();
+
       // Set up health check endpoint
       this.server.of('/health').on('connection', (socket) => {
         socket.emit('status', { status: 'healthy', timestamp: new Date() });
@@ -110,7 +113,6 @@ export class WebSocketService {
    */
   private async handleConnection(socket: Socket): Promise<void> {
     try {
-      const clientId = socket.handshake.auth.companyId;
       const token = socket.handshake.auth.token;
 
       // Validate rate limits
@@ -118,17 +120,21 @@ export class WebSocketService {
 
       // Authenticate connection
       const authResult = await this.authenticateConnection(token);
-      if (!authResult.valid) {
+      if (!authResult.valid || !authResult.companyId) {
         throw new Error(ErrorTypes.AUTHENTICATION_ERROR);
       }
 
+      // The company comes from the verified token, never from what the client claims
+      const clientId = authResult.companyId;
+
       // Set up socket metadata
       socket.data.companyId = clientId;
       socket.data.userId = authResult.userId;
       socket.data.correlationId = crypto.randomUUID();
 
-      // Add to connection pool
+      // Add to connection pool and the company room receiving visitor updates
       this.addToConnectionPool(clientId, socket);
+      socket.join(`company:${clientId}`);
 
       // Set up event listeners
       this.setupEventListeners(socket);
@@ -219,6 +225,33 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Subscribes to the visitor updates channel and relays score changes to company rooms
+   */
+  private async subscribeToVisitorUpdates(): Promise<void> {
+    const subscriber = this.redisClient.duplicate();
+    await subscriber.subscribe(VISITOR_UPDATES_CHANNEL);
+
+    subscriber.on('message', (channel: string, message: string) => {
+      if (channel !== VISITOR_UPDATES_CHANNEL) {
+        return;
+      }
+
+      try {
+        const update = JSON.parse(message);
+        if (update.type === 'score_update' && update.companyId) {
+          this.server.to(`company:${update.companyId}`).emit('visitor:update', {
+            visitorId: update.visitorId,
+            changes: { score: update.score, previousScore: update.previousScore },
+            timestamp: update.scoredAt
+          });
+        }
+      } catch (error) {
+        this.logger.error('Failed to relay visitor update', { error: error.message });
+      }
+    });
+  }
+
   /**
    * Manages connection pool with load balancing
    */
@@ -248,10 +281,12 @@ export class WebSocketService {
   /**
    * Validates JWT token and extracts user information
    */
-  private async authenticateConnection(token: string): Promise<{ valid: boolean; userId?: string }> {
+  private async authenticateConnection(
+    token: string
+  ): Promise<{ valid: boolean; userId?: string; companyId?: string }> {
     try {
       const payload = this.jwtService.verifyAccessToken(token);
-      return { valid: true, userId: payload.userId };
+      return { valid: true, userId: payload.userId, companyId: payload.companyId };
     } catch (error) {
       return { valid: false };
     }
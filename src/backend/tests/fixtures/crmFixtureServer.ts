@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Local HTTP server replaying recorded CRM API interactions
+ * Each fixture in tests/fixtures/crm lists the requests a connector is expected to make and
+ * the responses the CRM answered; {{baseUrl}} in responses is replaced by the server URL
+ */
+
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { isDeepStrictEqual } from 'util';
+
+/**
+ * Recorded request and the response the CRM answered
+ */
+interface IInteraction {
+    request: {
+        method: string;
+        path: string;
+        query?: Record<string, string>;
+        headers?: Record<string, string>;
+        body?: unknown;
+    };
+    response: {
+        status: number;
+        body?: unknown;
+    };
+}
+
+export interface IFixtureServer {
+    url: string;
+
+    /** Requests that matched no recorded interaction */
+    unmatched: string[];
+
+    /** Recorded interactions the connector has not made yet */
+    pending(): string[];
+
+    close(): Promise<void>;
+}
+
+const readBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+        if (!raw) {
+            resolve(undefined);
+        } else if ((req.headers['content-type'] || '').includes('application/x-www-form-urlencoded')) {
+            resolve(Object.fromEntries(new URLSearchParams(raw)));
+        } else {
+            resolve(JSON.parse(raw));
+        }
+    });
+    req.on('error', reject);
+});
+
+const label = ({ request }: IInteraction): string =>
+    `${request.method} ${request.path}${request.query ? `?${new URLSearchParams(request.query)}` : ''}`;
+
+/**
+ * Starts a server replaying a fixture, answering each recorded interaction once
+ * @param fixture - Fixture file name in tests/fixtures/crm, without extension
+ */
+export const startFixtureServer = async (fixture: string): Promise<IFixtureServer> => {
+    const interactions: IInteraction[] = JSON.parse(
+        readFileSync(join(__dirname, 'crm', `${fixture}.json`), 'utf8')
+    ).interactions;
+    const used = new Set<IInteraction>();
+    const unmatched: string[] = [];
+    let baseUrl = '';
+
+    const server: Server = createServer(async (req, res) => {
+        const url = new URL(req.url || '/', baseUrl);
+        const body = await readBody(req);
+        const interaction = interactions.find(candidate => {
+            const { request } = candidate;
+            return !used.has(candidate) &&
+                request.method === req.method &&
+                request.path === url.pathname &&
+                isDeepStrictEqual(request.query || {}, Object.fromEntries(url.searchParams)) &&
+                Object.entries(request.headers || {}).every(([name, value]) => req.headers[name] === value) &&
+                (request.body === undefined || isDeepStrictEqual(request.body, body));
+        });
+
+        if (!interaction) {
+            unmatched.push(`${req.method} ${url.pathname}${url.search} ${JSON.stringify(body)}`);
+            res.writeHead(501, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'No recorded interaction' }));
+            return;
+        }
+
+        used.add(interaction);
+        const { status, body: responseBody } = interaction.response;
+        if (responseBody === undefined) {
+            res.writeHead(status);
+            res.end();
+            return;
+        }
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(responseBody).split('{{baseUrl}}').join(baseUrl));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url: baseUrl,
+        unmatched,
+        pending: () => interactions.filter(interaction => !used.has(interaction)).map(label),
+        close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+    };
+};
@@ -0,0 +1,87 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { AccountService } from '../../../src/services/visitor/account.service';
+import { VisitorRepository } from '../../../src/db/repositories/visitor.repository';
+import { ACCOUNT_TOP_PAGES_LIMIT } from '../../../src/constants/account.constants';
+import { IAccountSummary } from '../../../src/interfaces/account.interface';
+
+describe('AccountService', () => {
+    let service: AccountService;
+    let visitorRepository: jest.Mocked<VisitorRepository>;
+
+    const generateAccount = (domain: string): Omit<IAccountSummary, 'topPages'> => ({
+        domain,
+        name: domain.split('.')[0],
+        visitorCount: 3,
+        engagedPeople: 1,
+        totalVisits: 12,
+        totalTimeSpent: 900,
+        topScore: 40,
+        firstSeen: new Date('2024-01-01'),
+        lastSeen: new Date('2024-02-01')
+    });
+
+    beforeEach(() => {
+        visitorRepository = {
+            aggregateAccounts: jest.fn(async () => ({
+                accounts: [generateAccount('acme.com'), generateAccount('globex.com')],
+                total: 7
+            })),
+            findAccountTopPages: jest.fn(async () => ({
+                'acme.com': [{ url: '/pricing', views: 3 }]
+            })),
+            findByCompany: jest.fn(async () => ({ visitors: [], total: 0 }))
+        } as any;
+
+        service = new AccountService(visitorRepository);
+    });
+
+    describe('getAccounts', () => {
+        test('should attach top pages to each account on the page', async () => {
+            const result = await service.getAccounts('company-1', { page: 1, limit: 2 });
+
+            expect(visitorRepository.findAccountTopPages).toHaveBeenCalledWith(
+                'company-1',
+                ['acme.com', 'globex.com'],
+                ACCOUNT_TOP_PAGES_LIMIT
+            );
+            expect(result.total).toBe(7);
+            expect(result.accounts[0].topPages).toEqual([{ url: '/pricing', views: 3 }]);
+            expect(result.accounts[1].topPages).toEqual([]);
+        });
+
+        test('should pass sort and search options to the aggregation', async () => {
+            const query = { page: 2, limit: 10, sortBy: 'visitorCount' as const, search: 'acme' };
+
+            await service.getAccounts('company-1', query);
+
+            expect(visitorRepository.aggregateAccounts).toHaveBeenCalledWith('company-1', query);
+        });
+    });
+
+    describe('getAccountVisitors', () => {
+        test('should look up visitors by the normalized account domain', async () => {
+            await service.getAccountVisitors('company-1', 'https://www.Acme.com/about', 2, 25);
+
+            expect(visitorRepository.findByCompany).toHaveBeenCalledWith('company-1', 2, 25, { account: 'acme.com' });
+        });
+
+        test('should return no visitors for an empty domain', async () => {
+            const result = await service.getAccountVisitors('company-1', '   ');
+
+            expect(result).toEqual({ visitors: [], total: 0 });
+            expect(visitorRepository.findByCompany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('normalizeDomain', () => {
+        test.each([
+            ['acme.com', 'acme.com'],
+            ['WWW.Acme.com', 'acme.com'],
+            ['http://acme.com:8080/path?q=1', 'acme.com'],
+            ['https://app.acme.co.uk/', 'app.acme.co.uk']
+        ])('should reduce %s to %s', (input, expected) => {
+            expect(service.normalizeDomain(input)).toBe(expected);
+        });
+    });
+});
@@ -0,0 +1,193 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { AttributionService } from '../../../src/services/tracking/attribution.service';
+import { VisitorRepository } from '../../../src/db/repositories/visitor.repository';
+import { MARKETING_CHANNEL, ATTRIBUTION_MODEL } from '../../../src/constants/attribution.constants';
+import { IVisitorSession } from '../../../src/interfaces/session.interface';
+
+describe('AttributionService', () => {
+    const occurredAt = new Date('2026-10-18T09:00:00.000Z');
+    let service: AttributionService;
+    let visitorRepository: jest.Mocked<VisitorRepository>;
+    let visitor: any;
+
+    const classify = (landingPage: string, referrer: string | null = null) =>
+        service.classifyTouch(landingPage, referrer, occurredAt);
+
+    const generateSession = (index: number, overrides: Partial<IVisitorSession> = {}): IVisitorSession => ({
+        id: `session-${index}`,
+        visitorId: 'visitor-1',
+        startedAt: new Date(occurredAt.getTime() + index * 86400000),
+        endedAt: new Date(occurredAt.getTime() + index * 86400000 + 60000),
+        durationSeconds: 60,
+        landingPage: 'https://acme.com/',
+        exitPage: 'https://acme.com/',
+        pageCount: 1,
+        activityCount: 1,
+        referrer: null,
+        ...overrides
+    } as IVisitorSession);
+
+    beforeEach(() => {
+        visitor = {
+            id: 'visitor-1',
+            metadata: { referrer: '', customParams: {} },
+            attribution: null
+        };
+
+        visitorRepository = {
+            findById: jest.fn(async () => visitor),
+            patch: jest.fn(async () => visitor),
+            aggregateAttribution: jest.fn()
+        } as any;
+
+        const logger: any = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        logger.child = jest.fn(() => logger);
+
+        service = new AttributionService(logger, visitorRepository);
+    });
+
+    describe('classifyTouch', () => {
+        test('classifies visits without referrer or campaign as direct', () => {
+            expect(classify('https://acme.com/pricing').channel).toBe(MARKETING_CHANNEL.DIRECT);
+            expect(classify('https://acme.com/pricing', 'https://www.acme.com/blog').channel)
+                .toBe(MARKETING_CHANNEL.DIRECT);
+        });
+
+        test('classifies search engine referrers as organic search', () => {
+            const touch = classify('https://acme.com/', 'https://www.google.co.uk/');
+
+            expect(touch.channel).toBe(MARKETING_CHANNEL.ORGANIC_SEARCH);
+            expect(touch.source).toBe('google.co.uk');
+            expect(classify('https://acme.com/', 'https://duckduckgo.com/').channel)
+                .toBe(MARKETING_CHANNEL.ORGANIC_SEARCH);
+        });
+
+        test('classifies paid mediums and search click IDs as paid search', () => {
+            const touch = classify(
+                'https://acme.com/?utm_source=google&utm_medium=CPC&utm_campaign=Brand%20Q4&utm_term=visitor+id',
+                'https://www.google.com/'
+            );
+
+            expect(touch).toMatchObject({
+                channel: MARKETING_CHANNEL.PAID_SEARCH,
+                source: 'google',
+                medium: 'cpc',
+                campaign: 'Brand Q4',
+                term: 'visitor id',
+                referrerDomain: 'google.com'
+            });
+            expect(classify('https://acme.com/?gclid=abc123').channel).toBe(MARKETING_CHANNEL.PAID_SEARCH);
+        });
+
+        test('classifies social networks, including paid social, as social', () => {
+            expect(classify('https://acme.com/', 'https://t.co/xyz').channel).toBe(MARKETING_CHANNEL.SOCIAL);
+            expect(classify('https://acme.com/', 'https://news.ycombinator.com/item?id=1').channel)
+                .toBe(MARKETING_CHANNEL.SOCIAL);
+            expect(classify('https://acme.com/?utm_source=linkedin&utm_medium=cpc').channel)
+                .toBe(MARKETING_CHANNEL.SOCIAL);
+        });
+
+        test('classifies email mediums and webmail referrers as email', () => {
+            expect(classify('https://acme.com/?utm_source=hubspot&utm_medium=newsletter').channel)
+                .toBe(MARKETING_CHANNEL.EMAIL);
+            expect(classify('https://acme.com/', 'https://mail.google.com/').channel).toBe(MARKETING_CHANNEL.EMAIL);
+        });
+
+        test('classifies other referring sites and unknown campaigns as referral', () => {
+            expect(classify('https://acme.com/', 'https://partner.io/integrations').channel)
+                .toBe(MARKETING_CHANNEL.REFERRAL);
+            expect(classify('https://acme.com/?utm_campaign=launch').channel).toBe(MARKETING_CHANNEL.REFERRAL);
+        });
+
+        test('falls back to custom parameters when the landing page has no UTM parameters', () => {
+            const touch = service.classifyTouch('https://acme.com/', null, occurredAt, {
+                utm_source: 'newsletter-tool',
+                utm_medium: 'email',
+                utm_campaign: 'october'
+            });
+
+            expect(touch).toMatchObject({ channel: MARKETING_CHANNEL.EMAIL, campaign: 'october' });
+        });
+    });
+
+    describe('applyTouch', () => {
+        test('keeps the first touch and skips direct touches for the last touch', () => {
+            const search = classify('https://acme.com/', 'https://www.bing.com/');
+            const social = classify('https://acme.com/', 'https://www.linkedin.com/');
+            const direct = classify('https://acme.com/');
+
+            const attribution = [search, social, direct].reduce(
+                (current, touch) => service.applyTouch(current, touch),
+                null as ReturnType<AttributionService['applyTouch']> | null
+            );
+
+            expect(attribution?.firstTouch).toBe(search);
+            expect(attribution?.lastTouch).toBe(social);
+            expect(attribution?.touches).toEqual([search, social, direct]);
+        });
+
+        test('uses a direct touch as last touch when every touch was direct', () => {
+            const first = classify('https://acme.com/');
+            const second = classify('https://acme.com/pricing');
+
+            expect(service.applyTouch(service.applyTouch(null, first), second).lastTouch).toBe(second);
+        });
+    });
+
+    describe('recordSessionTouch', () => {
+        test('uses the visitor referrer for the first touch', async () => {
+            visitor.metadata.referrer = 'https://www.google.com/';
+
+            await service.recordSessionTouch(generateSession(0));
+
+            const { attribution } = visitorRepository.patch.mock.calls[0][1] as any;
+            expect(attribution.firstTouch.channel).toBe(MARKETING_CHANNEL.ORGANIC_SEARCH);
+            expect(attribution.firstTouch.occurredAt).toEqual(occurredAt);
+        });
+
+        test('appends the touch of later sessions', async () => {
+            visitor.attribution = service.applyTouch(null, classify('https://acme.com/', 'https://www.google.com/'));
+            visitor.metadata.referrer = 'https://www.google.com/';
+
+            await service.recordSessionTouch(generateSession(1, {
+                landingPage: 'https://acme.com/?utm_source=facebook&utm_medium=paid_social'
+            }));
+
+            const { attribution } = visitorRepository.patch.mock.calls[0][1] as any;
+            expect(attribution.firstTouch.channel).toBe(MARKETING_CHANNEL.ORGANIC_SEARCH);
+            expect(attribution.lastTouch.channel).toBe(MARKETING_CHANNEL.SOCIAL);
+            expect(attribution.touches).toHaveLength(2);
+        });
+    });
+
+    test('rebuilds attribution from sessions', async () => {
+        await service.rebuildVisitorAttribution('visitor-1', [
+            generateSession(0, { referrer: 'https://www.reddit.com/' }),
+            generateSession(1)
+        ]);
+
+        const { attribution } = visitorRepository.patch.mock.calls[0][1] as any;
+        expect(attribution.firstTouch.channel).toBe(MARKETING_CHANNEL.SOCIAL);
+        expect(attribution.lastTouch.channel).toBe(MARKETING_CHANNEL.SOCIAL);
+        expect(attribution.touches.map((touch: any) => touch.channel))
+            .toEqual([MARKETING_CHANNEL.SOCIAL, MARKETING_CHANNEL.DIRECT]);
+    });
+
+    test('rounds linear credit in attribution reports', async () => {
+        visitorRepository.aggregateAttribution.mockResolvedValue({
+            channels: [{ channel: MARKETING_CHANNEL.SOCIAL, visitors: 1.6666666, identified: 0.3333333, enriched: 0 }],
+            campaigns: []
+        });
+
+        const report = await service.getAttributionReport('company-1', { model: ATTRIBUTION_MODEL.LINEAR });
+
+        expect(report).toEqual({
+            model: ATTRIBUTION_MODEL.LINEAR,
+            channels: [{ channel: MARKETING_CHANNEL.SOCIAL, visitors: 1.67, identified: 0.33, enriched: 0 }],
+            campaigns: []
+        });
+        expect(visitorRepository.aggregateAttribution)
+            .toHaveBeenCalledWith('company-1', { model: ATTRIBUTION_MODEL.LINEAR }, 25);
+    });
+});
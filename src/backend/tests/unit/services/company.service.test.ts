@@ -3,18 +3,23 @@ import { mock, MockProxy } from 'jest-mock-extended'; // ^3.0.0
 
 import { CompanyService } from '../../../src/services/company/company.service';
 import { CompanyRepository } from '../../../src/db/repositories/company.repository';
+import { IcpMatchingService } from '../../../src/services/scoring/icpMatching.service';
 import { ICompany, ICompanyCreate, ICompanyUpdate, ICompanySettings } from '../../../src/interfaces/company.interface';
 import { ErrorTypes, ErrorCodes } from '../../../src/constants/error.constants';
+import { hashApiKey } from '../../../src/utils/crypto.util';
 
 describe('CompanyService', () => {
   let mockCompanyRepository: MockProxy<CompanyRepository>;
+  let mockIcpMatchingService: MockProxy<IcpMatchingService>;
   let companyService: CompanyService;
   let testCompany: ICompany;
 
   beforeEach(() => {
     // Reset all mocks before each test
     mockCompanyRepository = mock<CompanyRepository>();
-    companyService = new CompanyService(mockCompanyRepository);
+    mockIcpMatchingService = mock<IcpMatchingService>();
+    mockIcpMatchingService.reclassifyCompany.mockResolvedValue(0);
+    companyService = new CompanyService(mockCompanyRepository, mockIcpMatchingService);
 
     // Initialize test company data
     testCompany = {
@@ -218,6 +223,23 @@ describe('CompanyService', () => {
 
       expect(result.settings.emailNotifications).toBe(false);
       expect(result.settings.timezone).toBe('America/New_York');
+      expect(mockIcpMatchingService.reclassifyCompany).not.toHaveBeenCalled();
+    });
+
+    it('should re-classify visitors when ideal customer profiles change', async () => {
+      const settingsUpdate: Partial<ICompanySettings> = {
+        idealCustomerProfiles: [{ id: 'icp-1', name: 'Mid-market SaaS', industries: ['Software'] }]
+      };
+
+      mockCompanyRepository.findById.mockResolvedValue(testCompany);
+      mockCompanyRepository.update.mockResolvedValue({
+        ...testCompany,
+        settings: { ...testCompany.settings, ...settingsUpdate }
+      });
+
+      await companyService.updateCompanySettings(testCompany.id, settingsUpdate);
+
+      expect(mockIcpMatchingService.reclassifyCompany).toHaveBeenCalledWith(testCompany.id);
     });
 
     it('should validate settings schema', async () => {
@@ -235,6 +257,38 @@ describe('CompanyService', () => {
     });
   });
 
+  describe('rotateIdentitySecret', () => {
+    it('should store and return a new random secret', async () => {
+      mockCompanyRepository.setIdentitySecret.mockResolvedValue(undefined);
+
+      const first = await companyService.rotateIdentitySecret(testCompany.id);
+      const second = await companyService.rotateIdentitySecret(testCompany.id);
+
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+      expect(second).not.toBe(first);
+      expect(mockCompanyRepository.setIdentitySecret).toHaveBeenLastCalledWith(
+        testCompany.id,
+        second,
+        undefined
+      );
+    });
+  });
+
+  describe('rotateIngestKey', () => {
+    it('should store only the hash of a new prefixed key', async () => {
+      mockCompanyRepository.setIngestKeyHash.mockResolvedValue(undefined);
+
+      const key = await companyService.rotateIngestKey(testCompany.id);
+
+      expect(key).toMatch(/^imk_[0-9a-f]{64}$/);
+      expect(mockCompanyRepository.setIngestKeyHash).toHaveBeenCalledWith(
+        testCompany.id,
+        hashApiKey(key),
+        undefined
+      );
+    });
+  });
+
   describe('deleteCompany', () => {
     it('should delete existing company', async () => {
       mockCompanyRepository.delete.mockResolvedValue(undefined);
@@ -0,0 +1,141 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { ContentGroupService } from '../../../src/services/tracking/contentGroup.service';
+import { TRAILING_SLASH } from '../../../src/constants/content.constants';
+import { VISITOR_ACTIVITY_TYPE } from '../../../src/constants/visitor.constants';
+import { IContentDefinitions, IContentGroupDefinition } from '../../../src/interfaces/content.interface';
+import ActivityModel from '../../../src/db/models/activity.model';
+
+jest.mock('../../../src/db/models/activity.model', () => ({
+    __esModule: true,
+    default: {
+        aggregate: jest.fn(),
+        countDocuments: jest.fn()
+    }
+}));
+
+describe('ContentGroupService', () => {
+    const companyId = 'company-1';
+
+    let service: ContentGroupService;
+    let companyRepository: any;
+    let visitorRepository: any;
+    let settings: Record<string, any>;
+    let contentGroups: IContentGroupDefinition[];
+
+    const classify = (url: string, type = VISITOR_ACTIVITY_TYPE.PAGE_VIEW, isBot = false) =>
+        service.getDefinitions(companyId).then((definitions: IContentDefinitions) =>
+            service.classifyActivityData(definitions, type, { url, metadata: {} }, isBot));
+
+    beforeEach(() => {
+        contentGroups = [
+            { id: 'case_studies', name: 'Case studies', pathPatterns: ['/customers/**', '/case-studies/*'] },
+            { id: 'pricing', name: 'Pricing', pathPatterns: ['/pricing'] }
+        ];
+        settings = { contentGroups };
+
+        companyRepository = {
+            findById: jest.fn(async () => ({ id: companyId, settings }))
+        };
+        visitorRepository = {
+            patch: jest.fn(async () => null)
+        };
+
+        service = new ContentGroupService(companyRepository, visitorRepository);
+    });
+
+    test('strips query parameters, fragments and trailing slashes by default and keeps the tracked URL', async () => {
+        await expect(classify('https://acme.com/pricing/?plan=pro&utm_source=ads#faq')).resolves.toMatchObject({
+            url: 'https://acme.com/pricing',
+            rawUrl: 'https://acme.com/pricing/?plan=pro&utm_source=ads#faq',
+            contentGroups: ['pricing']
+        });
+
+        const unchanged = await classify('/pricing');
+        expect(unchanged).toMatchObject({ url: '/pricing', contentGroups: ['pricing'] });
+        expect(unchanged).not.toHaveProperty('rawUrl');
+    });
+
+    test('applies company normalization rules', async () => {
+        settings.urlNormalization = {
+            keptQueryParams: ['page'],
+            trailingSlash: TRAILING_SLASH.ADD,
+            lowercasePath: true
+        };
+
+        await expect(classify('https://acme.com/Blog?utm_medium=email&page=2')).resolves.toMatchObject({
+            url: 'https://acme.com/blog/?page=2'
+        });
+        await expect(classify('/assets/Report.pdf')).resolves.toMatchObject({ url: '/assets/report.pdf' });
+    });
+
+    test('matches single and multi-segment path patterns', async () => {
+        await expect(classify('https://acme.com/customers')).resolves.toMatchObject({ contentGroups: ['case_studies'] });
+        await expect(classify('https://acme.com/Customers/acme/results/')).resolves.toMatchObject({
+            contentGroups: ['case_studies']
+        });
+        await expect(classify('https://acme.com/case-studies/acme')).resolves.toMatchObject({
+            contentGroups: ['case_studies']
+        });
+        await expect(classify('https://acme.com/case-studies/acme/results')).resolves.toMatchObject({ contentGroups: [] });
+        await expect(classify('https://acme.com/pricing-faq')).resolves.toMatchObject({ contentGroups: [] });
+    });
+
+    test('matches wildcards within a segment and multi-segment wildcards between segments', async () => {
+        contentGroups.push({ id: 'api_docs', name: 'API docs', pathPatterns: ['/docs/**/api-*-v*'] });
+
+        await expect(classify('https://acme.com/docs/api-visitors-v2')).resolves.toMatchObject({ contentGroups: ['api_docs'] });
+        await expect(classify('https://acme.com/docs/guides/tracking/api-events-v1')).resolves.toMatchObject({
+            contentGroups: ['api_docs']
+        });
+        await expect(classify('https://acme.com/docs/api-visitors')).resolves.toMatchObject({ contentGroups: [] });
+        await expect(classify('https://acme.com/docs/api-v2/intro')).resolves.toMatchObject({ contentGroups: [] });
+    });
+
+    test('groups only human page views', async () => {
+        expect(await classify('https://acme.com/pricing', VISITOR_ACTIVITY_TYPE.FORM_SUBMIT)).not.toHaveProperty('contentGroups');
+        expect(await classify('https://acme.com/pricing', VISITOR_ACTIVITY_TYPE.PAGE_VIEW, true)).not.toHaveProperty('contentGroups');
+    });
+
+    test('rebuilds visitor summaries from grouped page views', async () => {
+        const viewedAt = new Date('2026-10-01T09:00:00.000Z');
+        (ActivityModel.aggregate as jest.Mock<any>).mockResolvedValue([
+            { _id: 'pricing', views: 3, firstViewedAt: viewedAt, lastViewedAt: viewedAt }
+        ]);
+
+        await service.rebuildSummaries('visitor-1');
+
+        expect(visitorRepository.patch).toHaveBeenCalledWith('visitor-1', {
+            contentGroups: { pricing: { views: 3, firstViewedAt: viewedAt, lastViewedAt: viewedAt } }
+        });
+    });
+
+    test('reports every defined group with its share of page views', async () => {
+        (ActivityModel.aggregate as jest.Mock<any>).mockResolvedValue([
+            { _id: 'case_studies', views: 30, visitors: 12, topPages: [{ url: 'https://acme.com/customers/acme', views: 20 }] }
+        ]);
+        (ActivityModel.countDocuments as jest.Mock<any>).mockResolvedValue(120);
+
+        const report = await service.getContentGroupReport(companyId, {
+            from: new Date('2026-10-01T00:00:00.000Z'),
+            to: new Date('2026-10-18T00:00:00.000Z')
+        });
+
+        expect(report.pageViews).toBe(120);
+        expect(report.groups).toEqual([
+            {
+                groupId: 'case_studies',
+                name: 'Case studies',
+                views: 30,
+                visitors: 12,
+                viewShare: 0.25,
+                topPages: [{ url: 'https://acme.com/customers/acme', views: 20 }]
+            },
+            { groupId: 'pricing', name: 'Pricing', views: 0, visitors: 0, viewShare: 0, topPages: [] }
+        ]);
+        expect((ActivityModel.countDocuments as jest.Mock<any>).mock.calls[0][0]).toMatchObject({
+            companyId,
+            type: VISITOR_ACTIVITY_TYPE.PAGE_VIEW
+        });
+    });
+});
@@ -0,0 +1,169 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals'; // v29.x
+import axios from 'axios'; // v1.4.x
+
+import { CrmConnector } from '../../../src/services/integration/connectors/crmConnector.base';
+import { SalesforceConnector } from '../../../src/services/integration/connectors/salesforce.connector';
+import { HubSpotConnector } from '../../../src/services/integration/connectors/hubspot.connector';
+import { PipedriveConnector } from '../../../src/services/integration/connectors/pipedrive.connector';
+import { ZohoConnector } from '../../../src/services/integration/connectors/zoho.connector';
+import { CRM_TYPES, CRM_OBJECT, ICP_FIT_CRM_FIELDS } from '../../../src/constants/integration.constants';
+import { IIntegrationCredentials, ICrmSyncRecord } from '../../../src/interfaces/integration.interface';
+import { startFixtureServer, IFixtureServer } from '../../fixtures/crmFixtureServer';
+
+/**
+ * Expected outcome of replaying each CRM's fixtures
+ */
+const connectors = [
+    {
+        type: CRM_TYPES.SALESFORCE,
+        fixture: 'salesforce',
+        create: (url: string): CrmConnector => new SalesforceConnector(axios.create(), `${url}/services/oauth2/token`),
+        leadObject: 'Lead',
+        requiredFields: ['LastName', 'Company'],
+        ids: { updatedLead: '00Q5e00000AbCdEEAV', createdLead: '00Q5e00000XyZaBEAV', createdAccount: '0015e00000GlBxQAAV' },
+        leadStage: 'Working - Contacted',
+        account: {
+            lifecycleStage: 'Customer - Direct',
+            openOpportunity: { id: '0065e00000RtYuIAAV', name: 'Globex - Platform Expansion', amount: 48000 },
+            dealStage: 'Negotiation/Review'
+        }
+    },
+    {
+        type: CRM_TYPES.HUBSPOT,
+        fixture: 'hubspot',
+        create: (url: string): CrmConnector => new HubSpotConnector(axios.create(), `${url}/oauth/v1/token`),
+        leadObject: 'contacts',
+        requiredFields: [],
+        ids: { updatedLead: '51', createdLead: '101', createdAccount: '9001' },
+        leadStage: 'salesqualifiedlead',
+        account: {
+            lifecycleStage: 'customer',
+            openOpportunity: { id: '7002', name: 'Globex - Platform Expansion', amount: 48000 },
+            dealStage: 'Contract Sent'
+        }
+    },
+    {
+        type: CRM_TYPES.PIPEDRIVE,
+        fixture: 'pipedrive',
+        create: (url: string): CrmConnector => new PipedriveConnector(axios.create(), `${url}/oauth/token`),
+        leadObject: 'persons',
+        requiredFields: ['name'],
+        ids: { updatedLead: '17', createdLead: '42', createdAccount: '7' },
+        leadStage: null,
+        account: {
+            lifecycleStage: null,
+            openOpportunity: { id: '311', name: 'Globex - Platform Expansion', amount: 48000 },
+            dealStage: 'Negotiations Started'
+        }
+    },
+    {
+        type: CRM_TYPES.ZOHO,
+        fixture: 'zoho',
+        create: (url: string): CrmConnector => new ZohoConnector(axios.create(), `${url}/oauth/v2/token`),
+        leadObject: 'Leads',
+        requiredFields: ['Last_Name'],
+        ids: { updatedLead: '4150868000000624001', createdLead: '4150868000000624077', createdAccount: '4150868000000624099' },
+        leadStage: 'Contacted',
+        account: {
+            lifecycleStage: 'Customer',
+            openOpportunity: { id: '4150868000000725044', name: 'Globex - Platform Expansion', amount: 48000 },
+            dealStage: 'Negotiation/Review'
+        }
+    }
+];
+
+describe.each(connectors)('$fixture connector', ({ type, fixture, create, leadObject, requiredFields, ids, leadStage, account }) => {
+    let server: IFixtureServer;
+    let connector: CrmConnector;
+    let credentials: IIntegrationCredentials;
+
+    const record = (visitorId: string, email: string | null, domain: string, tier: string): ICrmSyncRecord => ({
+        visitorId,
+        email,
+        domain,
+        fields: { [ICP_FIT_CRM_FIELDS[type].tier]: tier, [ICP_FIT_CRM_FIELDS[type].reasons]: null }
+    });
+
+    beforeEach(async () => {
+        server = await startFixtureServer(fixture);
+        connector = create(server.url);
+        credentials = {
+            clientId: 'crm-client-id',
+            clientSecret: 'crm-client-secret',
+            accessToken: 'expired-token',
+            refreshToken: 'refresh-token',
+            tokenExpiry: new Date('2026-10-18T08:00:00.000Z'),
+            scope: [],
+            instanceUrl: server.url
+        };
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    test('refreshes the token, describes leads and upserts leads and accounts', async () => {
+        credentials = await connector.authenticate(credentials);
+        expect(credentials.accessToken).toBe('fresh-token');
+        expect(credentials.tokenExpiry.getTime()).toBeGreaterThan(Date.now());
+
+        const description = await connector.describeObject(credentials, CRM_OBJECT.LEAD);
+        expect(description.name).toBe(leadObject);
+        expect(description.fields.filter(field => field.required).map(field => field.name)).toEqual(requiredFields);
+        expect(description.fields.map(field => field.name)).toContain(ICP_FIT_CRM_FIELDS[type].tier);
+
+        await expect(connector.upsert(credentials, CRM_OBJECT.LEAD, record('visitor-jane', 'jane@acme.com', 'acme.com', 'A')))
+            .resolves.toEqual({ id: ids.updatedLead, object: CRM_OBJECT.LEAD, created: false });
+
+        const joe = record('visitor-joe', 'joe.o\'neil@globex.com', 'globex.com', 'B');
+        await expect(connector.upsert(credentials, CRM_OBJECT.LEAD, joe))
+            .resolves.toEqual({ id: ids.createdLead, object: CRM_OBJECT.LEAD, created: true });
+        await expect(connector.upsert(credentials, CRM_OBJECT.ACCOUNT, joe))
+            .resolves.toEqual({ id: ids.createdAccount, object: CRM_OBJECT.ACCOUNT, created: true });
+
+        expect(server.unmatched).toEqual([]);
+        expect(server.pending()).toEqual([]);
+    });
+
+    test('updates the record already written for a visitor without matching it again', async () => {
+        const fresh = { ...credentials, accessToken: 'fresh-token' };
+        const jane = { ...record('visitor-jane', 'jane@acme.com', 'acme.com', 'A'), recordId: ids.updatedLead };
+
+        await expect(connector.upsert(fresh, CRM_OBJECT.LEAD, jane))
+            .resolves.toEqual({ id: ids.updatedLead, object: CRM_OBJECT.LEAD, created: false });
+
+        expect(server.unmatched).toEqual([]);
+    });
+
+    test('refuses visitors without the key matching them to CRM records', async () => {
+        await expect(connector.upsert(credentials, CRM_OBJECT.CONTACT, record('visitor-anon', null, 'acme.com', 'C')))
+            .rejects.toThrow('Visitor has no email');
+        await expect(connector.upsert(credentials, CRM_OBJECT.ACCOUNT, record('visitor-anon', 'jane@acme.com', '', 'C')))
+            .rejects.toThrow('Visitor has no account domain');
+
+        expect(server.unmatched).toEqual([]);
+    });
+
+    test('reads the owner, lifecycle stage and open opportunity of leads and accounts', async () => {
+        const inbound = await startFixtureServer(`${fixture}.inbound`);
+        const fresh = { ...credentials, accessToken: 'fresh-token', instanceUrl: inbound.url };
+
+        try {
+            await expect(connector.fetchRelationship(fresh, CRM_OBJECT.LEAD, ids.updatedLead)).resolves.toEqual({
+                owner: 'Dana Whitfield',
+                lifecycleStage: leadStage,
+                openOpportunity: null,
+                dealStage: null
+            });
+            await expect(connector.fetchRelationship(fresh, CRM_OBJECT.ACCOUNT, ids.createdAccount)).resolves.toEqual({
+                owner: 'Marcus Lee',
+                ...account
+            });
+
+            expect(inbound.unmatched).toEqual([]);
+            expect(inbound.pending()).toEqual([]);
+        } finally {
+            await inbound.close();
+        }
+    });
+});
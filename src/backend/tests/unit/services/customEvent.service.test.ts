@@ -0,0 +1,83 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { CustomEventService } from '../../../src/services/tracking/customEvent.service';
+import { CompanyRepository } from '../../../src/db/repositories/company.repository';
+import { CUSTOM_EVENT_PROPERTY_TYPE } from '../../../src/constants/customEvent.constants';
+import { ICustomEventDefinition } from '../../../src/interfaces/customEvent.interface';
+
+describe('CustomEventService', () => {
+    let service: CustomEventService;
+    let companyRepository: jest.Mocked<CompanyRepository>;
+    let customEvents: ICustomEventDefinition[] | undefined;
+
+    beforeEach(() => {
+        customEvents = [{
+            name: 'demo_booked',
+            properties: [
+                { name: 'plan', type: CUSTOM_EVENT_PROPERTY_TYPE.STRING, required: true },
+                { name: 'seats', type: CUSTOM_EVENT_PROPERTY_TYPE.NUMBER },
+                { name: 'trial', type: CUSTOM_EVENT_PROPERTY_TYPE.BOOLEAN },
+                { name: 'booked_for', type: CUSTOM_EVENT_PROPERTY_TYPE.DATE },
+                { name: 'work_email', type: CUSTOM_EVENT_PROPERTY_TYPE.STRING, pii: true }
+            ]
+        }];
+
+        companyRepository = {
+            findById: jest.fn(async () => ({ id: 'company-1', settings: { customEvents } }))
+        } as any;
+
+        service = new CustomEventService(companyRepository);
+    });
+
+    test('coerces properties to their declared types and reports PII properties', async () => {
+        const result = await service.validateEvent('company-1', 'demo_booked', {
+            plan: 'enterprise',
+            seats: 25,
+            trial: false,
+            booked_for: '2026-11-02T15:00:00.000Z',
+            work_email: 'jane@acme.com'
+        });
+
+        expect(result).toEqual({
+            eventName: 'demo_booked',
+            properties: {
+                plan: 'enterprise',
+                seats: 25,
+                trial: false,
+                booked_for: new Date('2026-11-02T15:00:00.000Z'),
+                work_email: 'jane@acme.com'
+            },
+            piiProperties: ['work_email']
+        });
+        expect(companyRepository.findById).toHaveBeenCalledWith('company-1');
+    });
+
+    test('rejects events the company has not registered', async () => {
+        await expect(service.validateEvent('company-1', 'pricing_viewed', {}))
+            .rejects.toThrow('Invalid custom event pricing_viewed');
+
+        customEvents = undefined;
+        await expect(service.validateEvent('company-1', 'demo_booked', { plan: 'pro' }))
+            .rejects.toThrow('Invalid custom event demo_booked');
+    });
+
+    test('rejects undeclared, mistyped and missing required properties', async () => {
+        const error = await service.validateEvent('company-1', 'demo_booked', {
+            seats: '25',
+            booked_for: 'next tuesday',
+            coupon: 'SPRING'
+        }).catch(caught => caught);
+
+        expect(error.details.errors).toEqual([
+            'Undeclared property coupon',
+            'Missing required property plan',
+            'Property seats must be of type NUMBER',
+            'Property booked_for must be of type DATE'
+        ]);
+    });
+
+    test('rejects properties that are not an object', async () => {
+        await expect(service.validateEvent('company-1', 'demo_booked', ['pro']))
+            .rejects.toThrow('Invalid custom event demo_booked');
+    });
+});
@@ -0,0 +1,460 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+
+import { EnrichmentService } from '../../../src/services/identity/enrichment.service';
+import { EnrichmentProviderRegistry } from '../../../src/services/identity/enrichmentProvider.registry';
+import { EnrichmentCacheService, ICachedEnrichment } from '../../../src/services/identity/enrichmentCache.service';
+import { CompanyRepository } from '../../../src/db/repositories/company.repository';
+import { VISITOR_STATUS } from '../../../src/constants/visitor.constants';
+import {
+    ENRICHMENT_MODE,
+    ENRICHMENT_SETTINGS_KEY,
+    PROVIDER_FAILURE_THRESHOLD
+} from '../../../src/constants/enrichment.constants';
+import {
+    IEnrichmentProvider,
+    IEnrichmentQuery,
+    IEnrichmentSettings,
+    IProviderHealth,
+    EnrichableField
+} from '../../../src/interfaces/enrichment.interface';
+import { IVisitor, IEnrichedData } from '../../../src/interfaces/visitor.interface';
+
+/**
+ * In-process enrichment provider returning canned data
+ */
+class FakeEnrichmentProvider implements IEnrichmentProvider {
+    public readonly calls: IEnrichmentQuery[] = [];
+    public failure: Error | null = null;
+
+    constructor(
+        public readonly name: string,
+        private readonly data: Partial<IEnrichedData> | null,
+        public readonly fieldCoverage: EnrichableField[],
+        public readonly priority: number,
+        public readonly costPerCall = 0.01
+    ) {}
+
+    public async enrich(query: IEnrichmentQuery): Promise<Partial<IEnrichedData> | null> {
+        this.calls.push(query);
+        if (this.failure) {
+            throw this.failure;
+        }
+        return this.data;
+    }
+
+    public async checkHealth(): Promise<IProviderHealth> {
+        return { provider: this.name, healthy: !this.failure, checkedAt: new Date() };
+    }
+}
+
+describe('EnrichmentService', () => {
+    let enrichmentService: EnrichmentService;
+    let providerRegistry: EnrichmentProviderRegistry;
+    let companyRepository: jest.Mocked<CompanyRepository>;
+    let enrichmentCache: jest.Mocked<EnrichmentCacheService>;
+    let emailCache: Map<string, ICachedEnrichment>;
+    let domainCache: Map<string, ICachedEnrichment>;
+    let dailySpend: number;
+    let enrichmentSettings: Partial<IEnrichmentSettings> | undefined;
+
+    let personProvider: FakeEnrichmentProvider;
+    let firmographicProvider: FakeEnrichmentProvider;
+
+    const generateVisitor = (overrides: Partial<IVisitor> = {}): IVisitor => ({
+        id: 'visitor-1',
+        companyId: 'company-1',
+        email: 'jane@acme.com',
+        name: 'Jane Doe',
+        phone: null,
+        status: VISITOR_STATUS.IDENTIFIED,
+        metadata: {} as any,
+        enrichedData: null,
+        visits: 1,
+        totalTimeSpent: 0,
+        firstSeen: new Date(),
+        lastSeen: new Date(),
+        lastEnriched: null as any,
+        isActive: true,
+        tags: {},
+        ...overrides
+    } as IVisitor);
+
+    beforeEach(() => {
+        enrichmentSettings = undefined;
+        emailCache = new Map();
+        domainCache = new Map();
+        dailySpend = 0;
+
+        personProvider = new FakeEnrichmentProvider(
+            'person',
+            { company: 'Acme', title: 'VP Sales', revenue: '$1M', technologies: [] },
+            ['company', 'title', 'revenue'],
+            1
+        );
+        firmographicProvider = new FakeEnrichmentProvider(
+            'firmographic',
+            { company: 'Acme Corporation', industry: 'Software', revenue: '$50M-$100M', title: 'Unknown' },
+            ['company', 'industry', 'revenue'],
+            2,
+            0.05
+        );
+
+        providerRegistry = new EnrichmentProviderRegistry();
+        providerRegistry.register(personProvider);
+        providerRegistry.register(firmographicProvider);
+
+        companyRepository = {
+            findById: jest.fn(async () => ({
+                id: 'company-1',
+                settings: {
+                    integrationConfig: {
+                        enabled: true,
+                        allowedIntegrations: [],
+                        integrationSettings: enrichmentSettings
+                            ? { [ENRICHMENT_SETTINGS_KEY]: enrichmentSettings }
+                            : {}
+                    }
+                }
+            }))
+        } as any;
+
+        enrichmentCache = {
+            getByEmail: jest.fn(async (companyId: string, email: string) => emailCache.get(email) || null),
+            getByDomain: jest.fn(async (companyId: string, domain: string) => domainCache.get(domain) || null),
+            store: jest.fn(async (companyId: string, email: string, domain: string, enrichedData: IEnrichedData) => {
+                emailCache.set(email, { enrichedData, cachedAt: new Date() });
+            }),
+            getDailySpend: jest.fn(async () => dailySpend),
+            addDailySpend: jest.fn(async (companyId: string, amount: number) => {
+                dailySpend += amount;
+            }),
+            reserveDailySpend: jest.fn(async (companyId: string, amount: number, dailyBudget: number) => {
+                if (dailySpend + amount > dailyBudget) {
+                    return false;
+                }
+                dailySpend += amount;
+                return true;
+            })
+        } as any;
+
+        enrichmentService = new EnrichmentService(
+            {} as HttpService,
+            { get: jest.fn(() => undefined) } as unknown as ConfigService,
+            providerRegistry,
+            companyRepository,
+            enrichmentCache
+        );
+    });
+
+    describe('parallel mode', () => {
+        test('should query all providers and record provenance per field', async () => {
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.providersQueried).toEqual(['person', 'firmographic']);
+            expect(result.totalCost).toBeCloseTo(0.06);
+            expect(personProvider.calls[0].domain).toBe('acme.com');
+
+            expect(result.enrichedData.company).toBe('Acme');
+            expect(result.enrichedData.industry).toBe('Software');
+            expect(result.enrichedData.provenance?.company?.provider).toBe('person');
+            expect(result.enrichedData.provenance?.industry?.provider).toBe('firmographic');
+            expect(result.enrichedData.provenance?.technologies).toBeUndefined();
+        });
+
+        test('should apply per-field precedence ahead of provider order', async () => {
+            enrichmentSettings = { fieldPrecedence: { revenue: ['firmographic'] } };
+
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.enrichedData.title).toBe('VP Sales');
+            expect(result.enrichedData.revenue).toBe('$50M-$100M');
+            expect(result.enrichedData.provenance?.revenue?.provider).toBe('firmographic');
+        });
+
+        test('should ignore fields outside a provider coverage', async () => {
+            personProvider.failure = new Error('timeout');
+
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.enrichedData.title).toBe('');
+            expect(result.enrichedData.company).toBe('Acme Corporation');
+        });
+
+        test('should honour company provider order and disabled providers', async () => {
+            enrichmentSettings = { providerOrder: ['firmographic', 'person'], disabledProviders: [] };
+            let result = await enrichmentService.resolveEnrichment(generateVisitor());
+            expect(result.enrichedData.company).toBe('Acme Corporation');
+
+            enrichmentSettings = { disabledProviders: ['firmographic'] };
+            result = await enrichmentService.resolveEnrichment(generateVisitor(), { forceRefresh: true });
+            expect(result.providersQueried).toEqual(['person']);
+        });
+
+        test('should throw when all providers fail', async () => {
+            personProvider.failure = new Error('timeout');
+            firmographicProvider.failure = new Error('timeout');
+
+            await expect(enrichmentService.resolveEnrichment(generateVisitor()))
+                .rejects.toThrow('All enrichment providers failed');
+        });
+    });
+
+    describe('waterfall mode', () => {
+        test('should stop once required fields are filled', async () => {
+            enrichmentSettings = { mode: ENRICHMENT_MODE.WATERFALL, requiredFields: ['company', 'title'] };
+
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.providersQueried).toEqual(['person']);
+            expect(result.totalCost).toBeCloseTo(0.01);
+            expect(firmographicProvider.calls).toHaveLength(0);
+        });
+
+        test('should continue to the next provider for missing required fields', async () => {
+            enrichmentSettings = { mode: ENRICHMENT_MODE.WATERFALL, requiredFields: ['title', 'industry'] };
+
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.providersQueried).toEqual(['person', 'firmographic']);
+            expect(result.enrichedData.industry).toBe('Software');
+            expect(result.enrichedData.provenance?.title?.provider).toBe('person');
+        });
+
+        test('should skip providers that cover no missing required field', async () => {
+            enrichmentSettings = {
+                mode: ENRICHMENT_MODE.WATERFALL,
+                requiredFields: ['industry'],
+                providerOrder: ['person', 'firmographic']
+            };
+
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.providersQueried).toEqual(['firmographic']);
+            expect(personProvider.calls).toHaveLength(0);
+        });
+    });
+
+    describe('caching', () => {
+        test('should serve repeat lookups of an email from the cache', async () => {
+            await enrichmentService.resolveEnrichment(generateVisitor());
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.fromCache).toBe(true);
+            expect(result.totalCost).toBe(0);
+            expect(result.enrichedData.company).toBe('Acme');
+            expect(personProvider.calls).toHaveLength(1);
+        });
+
+        test('should store results for the company staleness window', async () => {
+            enrichmentSettings = { stalenessDays: 7 };
+
+            await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(enrichmentCache.store).toHaveBeenCalledWith(
+                'company-1', 'jane@acme.com', 'acme.com', expect.any(Object), 7
+            );
+        });
+
+        test('should reuse cached domain fields and only query providers for the rest', async () => {
+            domainCache.set('acme.com', {
+                enrichedData: {
+                    company: 'Acme Corporation',
+                    title: '',
+                    industry: 'Software',
+                    size: '',
+                    revenue: '$50M-$100M',
+                    website: '',
+                    technologies: [],
+                    linkedinUrl: '',
+                    socialProfiles: {},
+                    customFields: {},
+                    provenance: {
+                        company: { provider: 'firmographic', retrievedAt: new Date('2024-01-01T00:00:00Z') }
+                    }
+                },
+                cachedAt: new Date()
+            });
+
+            const result = await enrichmentService.resolveEnrichment(generateVisitor({ email: 'john@acme.com' }));
+
+            expect(result.providersQueried).toEqual(['person']);
+            expect(result.enrichedData.company).toBe('Acme Corporation');
+            expect(result.enrichedData.title).toBe('VP Sales');
+            expect(result.enrichedData.provenance?.company?.provider).toBe('firmographic');
+            expect(firmographicProvider.calls).toHaveLength(0);
+        });
+
+        test('should bypass the cache when forcing a refresh', async () => {
+            await enrichmentService.resolveEnrichment(generateVisitor());
+            const result = await enrichmentService.resolveEnrichment(generateVisitor(), { forceRefresh: true });
+
+            expect(result.fromCache).toBe(false);
+            expect(personProvider.calls).toHaveLength(2);
+        });
+    });
+
+    describe('daily budget', () => {
+        test('should record provider spend', async () => {
+            await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(enrichmentCache.addDailySpend).toHaveBeenCalledTimes(2);
+            expect(dailySpend).toBeCloseTo(0.06, 5);
+        });
+
+        test('should not let concurrent enrichments spend the same budget', async () => {
+            enrichmentSettings = { dailyBudget: 0.06 };
+
+            await Promise.all([
+                enrichmentService.resolveEnrichment(generateVisitor()),
+                enrichmentService.resolveEnrichment(generateVisitor({ id: 'visitor-2', email: 'john@acme.com' }))
+            ]);
+
+            expect(dailySpend).toBeLessThanOrEqual(0.06);
+            expect(enrichmentCache.reserveDailySpend).toHaveBeenCalledWith('company-1', 0.01, 0.06);
+        });
+
+        test('should skip providers that would exceed the remaining budget', async () => {
+            enrichmentSettings = { dailyBudget: 1 };
+            dailySpend = 0.98;
+
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.providersQueried).toEqual(['person']);
+            expect(firmographicProvider.calls).toHaveLength(0);
+        });
+
+        test('should throw once the budget is exhausted', async () => {
+            enrichmentSettings = { dailyBudget: 1 };
+            dailySpend = 1;
+
+            await expect(enrichmentService.resolveEnrichment(generateVisitor()))
+                .rejects.toThrow('Daily enrichment budget exhausted for company company-1');
+            expect(personProvider.calls).toHaveLength(0);
+        });
+    });
+
+    describe('provider health', () => {
+        test('should skip a provider after repeated failures', async () => {
+            firmographicProvider.failure = new Error('unavailable');
+
+            for (let i = 0; i < PROVIDER_FAILURE_THRESHOLD; i++) {
+                await enrichmentService.resolveEnrichment(generateVisitor(), { forceRefresh: true });
+            }
+            const result = await enrichmentService.resolveEnrichment(generateVisitor(), { forceRefresh: true });
+
+            expect(result.providersQueried).toEqual(['person']);
+            expect(firmographicProvider.calls).toHaveLength(PROVIDER_FAILURE_THRESHOLD);
+        });
+
+        test('should report provider health', async () => {
+            firmographicProvider.failure = new Error('unavailable');
+
+            const health = await enrichmentService.getProviderHealth();
+
+            expect(health.map(status => [status.provider, status.healthy])).toEqual([
+                ['person', true],
+                ['firmographic', false]
+            ]);
+        });
+    });
+
+    describe('conflict review', () => {
+        const lockedCompany = {
+            company: { value: 'Acme Inc', provider: null, userId: 'user-1', lockedAt: new Date('2024-03-01T00:00:00Z') }
+        };
+
+        test('should keep every candidate with a confidence score', async () => {
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.enrichedData.candidates?.company).toEqual([
+                { provider: 'person', value: 'Acme', confidence: 0.5, retrievedAt: expect.any(Date) },
+                { provider: 'firmographic', value: 'Acme Corporation', confidence: 0.5, retrievedAt: expect.any(Date) }
+            ]);
+            expect(result.enrichedData.provenance?.company?.confidence).toBe(0.5);
+            expect(result.enrichedData.provenance?.title?.confidence).toBe(0.67);
+        });
+
+        test('should score values supplied by agreeing providers higher', async () => {
+            providerRegistry.register(new FakeEnrichmentProvider('directory', { company: ' ACME' }, ['company'], 3));
+
+            const result = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(result.enrichedData.candidates?.company?.map(candidate => candidate.confidence))
+                .toEqual([0.6, 0.4, 0.6]);
+            expect(result.enrichedData.provenance?.company?.confidence).toBe(0.6);
+        });
+
+        test('should keep locked fields through re-enrichment', async () => {
+            const visitor = generateVisitor({
+                enrichedData: { company: 'Acme Inc', overrides: lockedCompany } as unknown as IEnrichedData
+            });
+
+            const result = await enrichmentService.resolveEnrichment(visitor, { forceRefresh: true });
+
+            expect(result.enrichedData.company).toBe('Acme Inc');
+            expect(result.enrichedData.provenance?.company).toEqual({
+                provider: 'manual',
+                retrievedAt: lockedCompany.company.lockedAt,
+                confidence: 1
+            });
+            expect(result.enrichedData.candidates?.company).toHaveLength(2);
+            expect(emailCache.get('jane@acme.com')?.enrichedData.company).toBe('Acme');
+        });
+
+        test('should not query providers for locked required fields', async () => {
+            enrichmentSettings = { mode: ENRICHMENT_MODE.WATERFALL, requiredFields: ['company', 'industry'] };
+            const visitor = generateVisitor({
+                enrichedData: { company: 'Acme Inc', overrides: lockedCompany } as unknown as IEnrichedData
+            });
+
+            const result = await enrichmentService.resolveEnrichment(visitor);
+
+            expect(result.providersQueried).toEqual(['firmographic']);
+            expect(result.enrichedData.company).toBe('Acme Inc');
+        });
+
+        test('should lock a field to an accepted candidate', async () => {
+            const { enrichedData } = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            const reviewed = enrichmentService.overrideField(enrichedData, 'company', { provider: 'firmographic' }, 'user-1');
+
+            expect(reviewed.company).toBe('Acme Corporation');
+            expect(reviewed.overrides?.company).toEqual({
+                value: 'Acme Corporation',
+                provider: 'firmographic',
+                userId: 'user-1',
+                lockedAt: expect.any(Date)
+            });
+            expect(reviewed.provenance?.company).toMatchObject({ provider: 'firmographic', confidence: 1 });
+        });
+
+        test('should reject candidates no provider supplied', async () => {
+            const { enrichedData } = await enrichmentService.resolveEnrichment(generateVisitor());
+
+            expect(() => enrichmentService.overrideField(enrichedData, 'industry', { provider: 'person' }, 'user-1'))
+                .toThrow('Provider person supplied no industry candidate');
+        });
+
+        test('should restore the winning candidate when a field is unlocked', async () => {
+            const { enrichedData } = await enrichmentService.resolveEnrichment(generateVisitor());
+            const reviewed = enrichmentService.overrideField(enrichedData, 'company', { value: ' Acme Inc ' }, 'user-1');
+
+            const released = enrichmentService.releaseOverride(reviewed, 'company');
+
+            expect(reviewed.company).toBe('Acme Inc');
+            expect(released.company).toBe('Acme');
+            expect(released.overrides).toEqual({});
+            expect(released.provenance?.company).toMatchObject({ provider: 'person', confidence: 0.5 });
+        });
+    });
+
+    test('should mark the visitor enriched', async () => {
+        const visitor = await enrichmentService.enrichVisitorData(generateVisitor());
+
+        expect(visitor.status).toBe(VISITOR_STATUS.ENRICHED);
+        expect(visitor.enrichedData?.company).toBe('Acme');
+        expect(visitor.lastEnriched).toBeInstanceOf(Date);
+    });
+});
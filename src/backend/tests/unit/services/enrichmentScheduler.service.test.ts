@@ -0,0 +1,301 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { EnrichmentSchedulerService } from '../../../src/services/identity/enrichmentScheduler.service';
+import { EnrichmentService } from '../../../src/services/identity/enrichment.service';
+import { EnrichmentCacheService } from '../../../src/services/identity/enrichmentCache.service';
+import { VisitorRepository } from '../../../src/db/repositories/visitor.repository';
+import { QueueService } from '../../../src/services/queue/queue.service';
+import { IcpMatchingService } from '../../../src/services/scoring/icpMatching.service';
+import { ConsentService } from '../../../src/services/tracking/consent.service';
+import { VISITOR_STATUS } from '../../../src/constants/visitor.constants';
+import { CONSENT_PURPOSE, CONSENT_SOURCE } from '../../../src/constants/consent.constants';
+import {
+    ENRICHMENT_MODE,
+    REENRICHMENT_BATCH_SIZE,
+    REENRICHMENT_QUEUE,
+    REENRICHMENT_MESSAGE_TYPE
+} from '../../../src/constants/enrichment.constants';
+import { IEnrichmentSettings } from '../../../src/interfaces/enrichment.interface';
+import { IVisitor } from '../../../src/interfaces/visitor.interface';
+
+describe('EnrichmentSchedulerService', () => {
+    let scheduler: EnrichmentSchedulerService;
+    let visitorRepository: jest.Mocked<VisitorRepository>;
+    let enrichmentService: jest.Mocked<EnrichmentService>;
+    let enrichmentCache: jest.Mocked<EnrichmentCacheService>;
+    let queueService: jest.Mocked<QueueService>;
+    let icpMatchingService: jest.Mocked<IcpMatchingService>;
+    let visitors: IVisitor[];
+    let settingsByCompany: Record<string, Partial<IEnrichmentSettings>>;
+
+    const DAY_MS = 1000 * 60 * 60 * 24;
+
+    const generateVisitor = (id: string, companyId: string, daysSinceEnriched: number): IVisitor => ({
+        id,
+        companyId,
+        email: `${id}@acme.com`,
+        name: null,
+        phone: null,
+        status: VISITOR_STATUS.ENRICHED,
+        metadata: {} as any,
+        enrichedData: null,
+        mergedInto: null,
+        visits: 1,
+        totalTimeSpent: 0,
+        firstSeen: new Date(),
+        lastSeen: new Date(),
+        lastEnriched: new Date(Date.now() - daysSinceEnriched * DAY_MS),
+        isActive: true,
+        tags: {}
+    } as IVisitor);
+
+    beforeEach(() => {
+        visitors = [];
+        settingsByCompany = {};
+
+        visitorRepository = {
+            findStaleEnriched: jest.fn(async (
+                enrichedBefore: Date,
+                enrichedBeforeByCompany: Map<string, Date>,
+                queuedBefore: Date,
+                excludedCompanyIds: string[],
+                limit: number
+            ) => visitors.filter(visitor =>
+                !excludedCompanyIds.includes(visitor.companyId) &&
+                visitor.lastEnriched! < (enrichedBeforeByCompany.get(visitor.companyId) || enrichedBefore) &&
+                !(visitor.reenrichmentQueuedAt && visitor.reenrichmentQueuedAt >= queuedBefore)
+            ).slice(0, limit)),
+            findById: jest.fn(async (id: string) => visitors.find(visitor => visitor.id === id) || null),
+            patch: jest.fn(async (id: string, data: Partial<IVisitor>) => {
+                const visitor = visitors.find(candidate => candidate.id === id)!;
+                Object.assign(visitor, data);
+                return { ...visitor };
+            })
+        } as any;
+
+        enrichmentService = {
+            getCompanySettings: jest.fn(async (companyId: string) => ({
+                mode: ENRICHMENT_MODE.PARALLEL,
+                requiredFields: ['company'],
+                fieldPrecedence: {},
+                providerOrder: [],
+                disabledProviders: [],
+                stalenessDays: 30,
+                dailyBudget: null,
+                ...settingsByCompany[companyId]
+            })),
+            enrichVisitorData: jest.fn(async (visitor: IVisitor) => ({
+                ...visitor,
+                enrichedData: { company: 'Acme' } as any,
+                lastEnriched: new Date()
+            }))
+        } as any;
+
+        enrichmentCache = {
+            getDailySpend: jest.fn(async () => 5)
+        } as any;
+
+        queueService = {
+            sendMessage: jest.fn(async () => undefined),
+            receiveMessages: jest.fn(async () => []),
+            deleteMessage: jest.fn(async () => undefined)
+        } as any;
+
+        icpMatchingService = {
+            classifyVisitor: jest.fn(async (visitor: IVisitor) => visitor)
+        } as any;
+
+        scheduler = new EnrichmentSchedulerService(
+            visitorRepository,
+            enrichmentService,
+            enrichmentCache,
+            queueService,
+            icpMatchingService,
+            new ConsentService(visitorRepository, {} as any)
+        );
+    });
+
+    describe('queueStaleVisitors', () => {
+        test('should queue visitors older than their company staleness window', async () => {
+            settingsByCompany['company-2'] = { stalenessDays: 7 };
+            visitors = [
+                generateVisitor('stale', 'company-1', 45),
+                generateVisitor('fresh', 'company-1', 10),
+                generateVisitor('stale-short-window', 'company-2', 10)
+            ];
+
+            const queued = await scheduler.queueStaleVisitors();
+
+            expect(queued).toBe(2);
+            expect(queueService.sendMessage).toHaveBeenCalledWith(REENRICHMENT_QUEUE, expect.objectContaining({
+                type: REENRICHMENT_MESSAGE_TYPE,
+                visitorId: 'stale',
+                companyId: 'company-1'
+            }));
+            expect(queueService.sendMessage).toHaveBeenCalledWith(REENRICHMENT_QUEUE, expect.objectContaining({
+                visitorId: 'stale-short-window'
+            }));
+            expect(enrichmentService.getCompanySettings).toHaveBeenCalledTimes(2);
+        });
+
+        test('should not queue a visitor twice', async () => {
+            visitors = [generateVisitor('stale', 'company-1', 45)];
+
+            await scheduler.queueStaleVisitors();
+            const queued = await scheduler.queueStaleVisitors();
+
+            expect(queued).toBe(0);
+            expect(queueService.sendMessage).toHaveBeenCalledTimes(1);
+            expect(visitors[0].reenrichmentQueuedAt).toBeInstanceOf(Date);
+        });
+
+        test('should skip companies that have spent their daily budget', async () => {
+            settingsByCompany['company-1'] = { dailyBudget: 5 };
+            settingsByCompany['company-2'] = { dailyBudget: 10 };
+            visitors = [
+                generateVisitor('over-budget', 'company-1', 45),
+                generateVisitor('within-budget', 'company-2', 45)
+            ];
+
+            const queued = await scheduler.queueStaleVisitors();
+
+            expect(queued).toBe(1);
+            expect(queueService.sendMessage).toHaveBeenCalledWith(REENRICHMENT_QUEUE, expect.objectContaining({
+                visitorId: 'within-budget'
+            }));
+        });
+
+        test('should scan again without companies over budget so they cannot fill the batch', async () => {
+            settingsByCompany['company-1'] = { dailyBudget: 5 };
+            visitors = [
+                ...Array.from({ length: REENRICHMENT_BATCH_SIZE }, (_, index) =>
+                    generateVisitor(`over-budget-${index}`, 'company-1', 90)),
+                generateVisitor('within-budget', 'company-2', 45)
+            ];
+
+            const queued = await scheduler.queueStaleVisitors();
+
+            expect(queued).toBe(1);
+            expect(visitorRepository.findStaleEnriched).toHaveBeenLastCalledWith(
+                expect.any(Date),
+                expect.any(Map),
+                expect.any(Date),
+                ['company-1'],
+                REENRICHMENT_BATCH_SIZE
+            );
+            expect(queueService.sendMessage).toHaveBeenCalledWith(REENRICHMENT_QUEUE, expect.objectContaining({
+                visitorId: 'within-budget'
+            }));
+        });
+
+        test('should scan again with each company window so visitors still fresh cannot fill the batch', async () => {
+            settingsByCompany['company-1'] = { stalenessDays: 60 };
+            visitors = [
+                ...Array.from({ length: REENRICHMENT_BATCH_SIZE }, (_, index) =>
+                    generateVisitor(`fresh-${index}`, 'company-1', 45)),
+                generateVisitor('stale', 'company-2', 45)
+            ];
+
+            const queued = await scheduler.queueStaleVisitors();
+
+            expect(queued).toBe(1);
+            expect(visitorRepository.findStaleEnriched).toHaveBeenCalledTimes(3);
+            expect(visitorRepository.findStaleEnriched.mock.calls[2][1]).toEqual(new Map([
+                ['company-1', expect.any(Date)],
+                ['company-2', expect.any(Date)]
+            ]));
+            expect(queueService.sendMessage).toHaveBeenCalledTimes(1);
+            expect(queueService.sendMessage).toHaveBeenCalledWith(REENRICHMENT_QUEUE, expect.objectContaining({
+                visitorId: 'stale'
+            }));
+        });
+    });
+
+    describe('pollReenrichment', () => {
+        const receive = (visitorId: string) => ({
+            id: `message-${visitorId}`,
+            receiptHandle: `receipt-${visitorId}`,
+            body: { type: REENRICHMENT_MESSAGE_TYPE, visitorId, companyId: 'company-1', lastEnriched: null }
+        });
+
+        test('should process received jobs and delete them from the queue', async () => {
+            visitors = [generateVisitor('stale', 'company-1', 45)];
+            queueService.receiveMessages.mockResolvedValue([receive('stale')]);
+
+            const processed = await scheduler.pollReenrichment();
+
+            expect(processed).toBe(1);
+            expect(queueService.receiveMessages).toHaveBeenCalledWith(REENRICHMENT_QUEUE);
+            expect(enrichmentService.enrichVisitorData).toHaveBeenCalledWith(visitors[0], { forceRefresh: true });
+            expect(queueService.deleteMessage).toHaveBeenCalledWith(REENRICHMENT_QUEUE, 'receipt-stale');
+        });
+
+        test('should leave failed jobs on the queue', async () => {
+            visitors = [generateVisitor('failing', 'company-1', 45), generateVisitor('stale', 'company-1', 45)];
+            queueService.receiveMessages.mockResolvedValue([receive('failing'), receive('stale')]);
+            enrichmentService.enrichVisitorData.mockRejectedValueOnce(new Error('All enrichment providers failed'));
+
+            const processed = await scheduler.pollReenrichment();
+
+            expect(processed).toBe(1);
+            expect(queueService.deleteMessage).toHaveBeenCalledTimes(1);
+            expect(queueService.deleteMessage).toHaveBeenCalledWith(REENRICHMENT_QUEUE, 'receipt-stale');
+        });
+    });
+
+    describe('processReenrichment', () => {
+        test('should refresh the visitor bypassing the cache', async () => {
+            visitors = [{ ...generateVisitor('stale', 'company-1', 45), reenrichmentQueuedAt: new Date() }];
+
+            const result = await scheduler.processReenrichment({
+                type: REENRICHMENT_MESSAGE_TYPE,
+                visitorId: 'stale',
+                companyId: 'company-1',
+                lastEnriched: null
+            });
+
+            expect(enrichmentService.enrichVisitorData).toHaveBeenCalledWith(visitors[0], { forceRefresh: true });
+            expect(visitorRepository.patch).toHaveBeenCalledWith('stale', expect.objectContaining({
+                enrichedData: { company: 'Acme' }
+            }));
+            expect(result?.enrichedData?.company).toBe('Acme');
+            expect(icpMatchingService.classifyVisitor).toHaveBeenCalledWith(result);
+            expect(visitors[0].reenrichmentQueuedAt).toBeNull();
+        });
+
+        test('should skip visitors merged into another record', async () => {
+            visitors = [{ ...generateVisitor('merged', 'company-1', 45), mergedInto: 'canonical' } as IVisitor];
+
+            const result = await scheduler.processReenrichment({
+                type: REENRICHMENT_MESSAGE_TYPE,
+                visitorId: 'merged',
+                companyId: 'company-1',
+                lastEnriched: null
+            });
+
+            expect(result).toBeNull();
+            expect(enrichmentService.enrichVisitorData).not.toHaveBeenCalled();
+        });
+
+        test('should skip visitors who withdrew consent to enrichment', async () => {
+            visitors = [{
+                ...generateVisitor('withdrawn', 'company-1', 45),
+                consent: {
+                    [CONSENT_PURPOSE.ENRICHMENT]: { granted: false, source: CONSENT_SOURCE.SDK, recordedAt: new Date() }
+                },
+                reenrichmentQueuedAt: new Date()
+            } as IVisitor];
+
+            const result = await scheduler.processReenrichment({
+                type: REENRICHMENT_MESSAGE_TYPE,
+                visitorId: 'withdrawn',
+                companyId: 'company-1',
+                lastEnriched: null
+            });
+
+            expect(result).toBeNull();
+            expect(enrichmentService.enrichVisitorData).not.toHaveBeenCalled();
+            expect(visitors[0].reenrichmentQueuedAt).toBeNull();
+        });
+    });
+});
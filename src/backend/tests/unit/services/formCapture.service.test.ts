@@ -0,0 +1,78 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { FormCaptureService } from '../../../src/services/tracking/formCapture.service';
+import { IFormCaptureSettings } from '../../../src/interfaces/formCapture.interface';
+
+describe('FormCaptureService', () => {
+    let service: FormCaptureService;
+    let companyRepository: any;
+    let settings: IFormCaptureSettings;
+
+    beforeEach(() => {
+        settings = {
+            enabled: true,
+            sensitiveFields: ['Internal_Notes'],
+            forms: [
+                {
+                    formId: 'contact',
+                    fields: { email: 'email', name: 'full_name', company: 'internal_notes', phone: 'user_password' },
+                    consentField: 'gdpr'
+                },
+                { formId: 'newsletter', fields: { email: 'email' }, autoIdentify: false }
+            ]
+        };
+
+        companyRepository = {
+            findById: jest.fn(async () => ({ id: 'company-1', settings: { formCapture: settings } }))
+        };
+
+        service = new FormCaptureService(companyRepository);
+    });
+
+    test('reads the company settings', async () => {
+        await expect(service.getSettings('company-1')).resolves.toBe(settings);
+
+        companyRepository.findById.mockResolvedValue({ id: 'company-1', settings: {} });
+        await expect(service.getSettings('company-1')).resolves.toBeNull();
+    });
+
+    test('tells the SDK which inputs to send, never sensitive ones', () => {
+        expect(service.getTrackingForms(settings)).toEqual([
+            { formId: 'contact', fields: ['email', 'full_name', 'gdpr'] },
+            { formId: 'newsletter', fields: ['email'] }
+        ]);
+        expect(service.getTrackingForms({ ...settings, enabled: false })).toEqual([]);
+        expect(service.getTrackingForms(undefined)).toEqual([]);
+    });
+
+    test('captures mapped fields and consent from a submission', () => {
+        const captured = service.captureForm(settings, 'contact', {
+            email: ' jane@acme.com ',
+            full_name: 'Jane Doe',
+            internal_notes: 'VIP',
+            user_password: 'hunter2',
+            message: 'Hello',
+            gdpr: 'on'
+        });
+
+        expect(captured).toEqual({
+            fields: { email: 'jane@acme.com', name: 'Jane Doe' },
+            consentGiven: true,
+            autoIdentify: true
+        });
+    });
+
+    test('leaves out invalid emails and unchecked consent', () => {
+        expect(service.captureForm(settings, 'contact', { email: 'not-an-email', full_name: 'Jane', gdpr: 'false' }))
+            .toEqual({ fields: { name: 'Jane' }, consentGiven: false, autoIdentify: true });
+        expect(service.captureForm(settings, 'newsletter', { email: 'jane@acme.com' }))
+            .toMatchObject({ consentGiven: false, autoIdentify: false });
+    });
+
+    test('captures nothing from unmapped forms or when capture is disabled', () => {
+        expect(service.captureForm(settings, 'signup', { email: 'jane@acme.com' })).toBeNull();
+        expect(service.captureForm(settings, 'contact', { message: 'Hello' })).toBeNull();
+        expect(service.captureForm(settings, undefined, { email: 'jane@acme.com' })).toBeNull();
+        expect(service.captureForm({ ...settings, enabled: false }, 'contact', { email: 'jane@acme.com' })).toBeNull();
+    });
+});
@@ -0,0 +1,152 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { GoalService } from '../../../src/services/tracking/goal.service';
+import { GOAL_TYPE, FUNNEL_SEGMENT } from '../../../src/constants/goal.constants';
+import { VISITOR_STATUS, VISITOR_ACTIVITY_TYPE } from '../../../src/constants/visitor.constants';
+import { IGoalActivity, IGoalDefinition, IFunnelDefinition } from '../../../src/interfaces/goal.interface';
+
+describe('GoalService', () => {
+    const companyId = 'company-1';
+    const hour = 60 * 60 * 1000;
+    const start = new Date('2026-10-01T00:00:00.000Z').getTime();
+
+    let service: GoalService;
+    let companyRepository: any;
+    let visitorRepository: any;
+    let goalCompletionRepository: any;
+    let goals: IGoalDefinition[];
+    let funnels: IFunnelDefinition[];
+
+    const activity = (overrides: Partial<IGoalActivity> = {}): IGoalActivity => ({
+        id: 'activity-1',
+        visitorId: 'visitor-1',
+        type: VISITOR_ACTIVITY_TYPE.PAGE_VIEW,
+        timestamp: new Date(start),
+        data: { url: 'https://acme.com/Pricing?plan=pro' },
+        ...overrides
+    });
+
+    const completion = (goalId: string, hoursAfterStart: number) => ({
+        goalId,
+        completedAt: new Date(start + hoursAfterStart * hour)
+    });
+
+    beforeEach(() => {
+        goals = [
+            { id: 'pricing_viewed', name: 'Viewed pricing', type: GOAL_TYPE.PAGE_VISIT, urlPattern: '/pricing' },
+            { id: 'trial_form', name: 'Trial form', type: GOAL_TYPE.FORM_SUBMIT, formId: 'trial' },
+            { id: 'demo_booked', name: 'Demo booked', type: GOAL_TYPE.CUSTOM_EVENT, eventName: 'demo_booked' }
+        ];
+        funnels = [{
+            id: 'trial',
+            name: 'Trial signup',
+            steps: ['pricing_viewed', 'trial_form', 'demo_booked'],
+            windowDays: 7
+        }];
+
+        companyRepository = {
+            findById: jest.fn(async () => ({ id: companyId, settings: { goals, funnels } }))
+        };
+        visitorRepository = {
+            patch: jest.fn(async () => null),
+            countActive: jest.fn(async () => 40),
+            findByIds: jest.fn(async () => [
+                { id: 'visitor-1', status: VISITOR_STATUS.ENRICHED, enrichedData: { industry: 'Technology' } },
+                { id: 'visitor-2', status: VISITOR_STATUS.ANONYMOUS, enrichedData: null },
+                { id: 'visitor-3', status: VISITOR_STATUS.ENRICHED, enrichedData: { industry: 'Finance' } },
+                { id: 'visitor-4', status: VISITOR_STATUS.ANONYMOUS, trafficQuality: { isBot: true } }
+            ])
+        };
+        goalCompletionRepository = {
+            createMany: jest.fn(async () => undefined),
+            summarizeByVisitor: jest.fn(async () => ({
+                pricing_viewed: { count: 1, firstCompletedAt: new Date(start), lastCompletedAt: new Date(start) }
+            })),
+            aggregateByGoal: jest.fn(async () => new Map([['pricing_viewed', { completions: 25, visitors: 10 }]])),
+            findPathsByVisitor: jest.fn(async () => new Map([
+                ['visitor-1', [completion('pricing_viewed', 0), completion('trial_form', 2), completion('demo_booked', 6)]],
+                ['visitor-2', [completion('trial_form', 0), completion('pricing_viewed', 1), completion('trial_form', 5)]],
+                ['visitor-3', [completion('pricing_viewed', 0), completion('trial_form', 200)]],
+                ['visitor-4', [completion('pricing_viewed', 0), completion('trial_form', 1), completion('demo_booked', 2)]]
+            ]))
+        };
+
+        service = new GoalService(companyRepository, visitorRepository, goalCompletionRepository);
+    });
+
+    describe('recordCompletions', () => {
+        const visitor: any = { id: 'visitor-1', companyId };
+
+        test('records the goals an activity completes and refreshes the visitor summary', async () => {
+            const completed = await service.recordCompletions(visitor, [
+                activity(),
+                activity({ id: 'activity-2', type: VISITOR_ACTIVITY_TYPE.FORM_SUBMIT, data: { formId: 'newsletter' } }),
+                activity({ id: 'activity-3', type: VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT, data: { eventName: 'demo_booked' } })
+            ]);
+
+            expect(completed).toEqual(['pricing_viewed', 'demo_booked']);
+            const [completions] = goalCompletionRepository.createMany.mock.calls[0];
+            expect(completions.map(({ goalId, activityId }: any) => [goalId, activityId])).toEqual([
+                ['pricing_viewed', 'activity-1'],
+                ['demo_booked', 'activity-3']
+            ]);
+            expect(completions[0]).toMatchObject({ companyId, visitorId: 'visitor-1', completedAt: new Date(start) });
+            expect(visitorRepository.patch).toHaveBeenCalledWith('visitor-1', {
+                goals: { pricing_viewed: expect.objectContaining({ count: 1 }) }
+            });
+        });
+
+        test('skips bots and activities completing no goal', async () => {
+            await service.recordCompletions({ ...visitor, trafficQuality: { isBot: true } }, [activity()]);
+            await service.recordCompletions(visitor, [activity({ data: { url: 'https://acme.com/blog' } })]);
+
+            expect(goalCompletionRepository.createMany).not.toHaveBeenCalled();
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+        });
+    });
+
+    test('reports goal conversion against the visitors active in the range', async () => {
+        const report = await service.getGoalReport(companyId, {
+            from: new Date('2026-10-01T00:00:00.000Z'),
+            to: new Date('2026-10-31T00:00:00.000Z')
+        });
+
+        expect(report.activeVisitors).toBe(40);
+        expect(report.goals[0]).toEqual({
+            goalId: 'pricing_viewed',
+            name: 'Viewed pricing',
+            type: GOAL_TYPE.PAGE_VISIT,
+            completions: 25,
+            visitors: 10,
+            conversionRate: 0.25
+        });
+        expect(report.goals[1]).toMatchObject({ goalId: 'trial_form', completions: 0, conversionRate: 0 });
+    });
+
+    describe('getFunnelReport', () => {
+        test('reports conversion, drop-off and time-to-convert of steps completed in order within the window', async () => {
+            const report = await service.getFunnelReport(companyId, 'trial', {});
+
+            expect(report).toMatchObject({ entered: 3, converted: 1, conversionRate: 0.3333, windowDays: 7 });
+            expect(report.medianSecondsToConvert).toBe(6 * 3600);
+            expect(report.steps.map(({ visitors, dropOff }) => [visitors, dropOff])).toEqual([[3, 0], [2, 1], [1, 1]]);
+            expect(report.steps[1]).toMatchObject({ conversionRate: 0.6667, dropOffRate: 0.3333 });
+            expect(report.steps[1].medianSecondsFromPrevious).toBe(3 * 3600);
+            expect(report.segments).toBeUndefined();
+        });
+
+        test('segments conversion by enriched industry', async () => {
+            const report = await service.getFunnelReport(companyId, 'trial', { segmentBy: FUNNEL_SEGMENT.INDUSTRY });
+
+            expect(report.segments?.map(({ segment, entered, converted }) => [segment, entered, converted])).toEqual([
+                ['Finance', 1, 0],
+                ['Technology', 1, 1],
+                ['Unknown', 1, 0]
+            ]);
+        });
+
+        test('rejects funnels the company has not defined', async () => {
+            await expect(service.getFunnelReport(companyId, 'checkout', {})).rejects.toThrow('Funnel not found');
+        });
+    });
+});
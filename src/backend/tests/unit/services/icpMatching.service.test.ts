@@ -0,0 +1,172 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { IcpMatchingService } from '../../../src/services/scoring/icpMatching.service';
+import { VisitorRepository } from '../../../src/db/repositories/visitor.repository';
+import { CompanyRepository } from '../../../src/db/repositories/company.repository';
+import { VISITOR_STATUS } from '../../../src/constants/visitor.constants';
+import { ICP_FIT_TIER } from '../../../src/constants/icp.constants';
+import { IIdealCustomerProfile } from '../../../src/interfaces/icp.interface';
+import { IVisitor } from '../../../src/interfaces/visitor.interface';
+
+describe('IcpMatchingService', () => {
+    let service: IcpMatchingService;
+    let visitorRepository: jest.Mocked<VisitorRepository>;
+    let companyRepository: jest.Mocked<CompanyRepository>;
+    let profiles: IIdealCustomerProfile[];
+
+    const saasProfile: IIdealCustomerProfile = {
+        id: 'icp-saas',
+        name: 'Mid-market SaaS',
+        industries: ['Software'],
+        sizes: ['51-200', '201-500'],
+        technologies: ['Salesforce', 'Segment'],
+        countries: ['US', 'CA'],
+        revenues: ['$10M-$50M']
+    };
+
+    const generateVisitor = (overrides: Partial<IVisitor> = {}): IVisitor => ({
+        id: 'visitor-1',
+        companyId: 'company-1',
+        email: 'jane@acme.com',
+        name: null,
+        phone: null,
+        status: VISITOR_STATUS.ENRICHED,
+        metadata: { location: { country: 'US' } } as any,
+        enrichedData: {
+            industry: 'software',
+            size: '51-200',
+            revenue: '$10M-$50M',
+            technologies: ['HubSpot', 'Segment']
+        } as any,
+        mergedInto: null,
+        icpFit: null,
+        score: 0,
+        visits: 1,
+        totalTimeSpent: 0,
+        firstSeen: new Date(),
+        lastSeen: new Date(),
+        lastEnriched: new Date(),
+        isActive: true,
+        tags: {},
+        ...overrides
+    } as IVisitor);
+
+    beforeEach(() => {
+        profiles = [saasProfile];
+
+        visitorRepository = {
+            patch: jest.fn(async (id: string, data: Partial<IVisitor>) => ({ ...generateVisitor({ id }), ...data })),
+            findByCompany: jest.fn()
+        } as any;
+
+        companyRepository = {
+            findById: jest.fn(async () => ({ id: 'company-1', settings: { idealCustomerProfiles: profiles } }))
+        } as any;
+
+        service = new IcpMatchingService(visitorRepository, companyRepository);
+    });
+
+    describe('matchProfiles', () => {
+        test('assigns tier A with reasons when every criterion matches', () => {
+            const fit = service.matchProfiles(generateVisitor(), profiles);
+
+            expect(fit.tier).toBe(ICP_FIT_TIER.A);
+            expect(fit.icpId).toBe('icp-saas');
+            expect(fit.icpName).toBe('Mid-market SaaS');
+            expect(fit.reasons).toEqual([
+                { criterion: 'industries', value: 'software' },
+                { criterion: 'sizes', value: '51-200' },
+                { criterion: 'revenues', value: '$10M-$50M' },
+                { criterion: 'technologies', value: 'Segment' },
+                { criterion: 'countries', value: 'US' }
+            ]);
+        });
+
+        test('lowers the tier as fewer criteria match', () => {
+            const tierB = service.matchProfiles(generateVisitor({
+                metadata: { location: { country: 'DE' } } as any,
+                enrichedData: { industry: 'Software', size: '51-200', revenue: '$1M-$10M', technologies: ['Segment'] } as any
+            }), profiles);
+            const tierC = service.matchProfiles(generateVisitor({
+                metadata: { location: { country: 'DE' } } as any,
+                enrichedData: { industry: 'Software', size: '1-10', technologies: ['Segment'] } as any
+            }), profiles);
+
+            expect(tierB.tier).toBe(ICP_FIT_TIER.B);
+            expect(tierC.tier).toBe(ICP_FIT_TIER.C);
+        });
+
+        test('returns no fit when too few criteria match', () => {
+            const fit = service.matchProfiles(generateVisitor({
+                metadata: { location: { country: 'DE' } } as any,
+                enrichedData: { industry: 'Retail', size: '51-200' } as any
+            }), profiles);
+
+            expect(fit).toEqual(expect.objectContaining({
+                tier: ICP_FIT_TIER.NONE,
+                icpId: null,
+                icpName: null,
+                reasons: []
+            }));
+        });
+
+        test('picks the profile with the highest share of matched criteria', () => {
+            profiles.push({ id: 'icp-us', name: 'US companies', countries: ['us'] });
+
+            const fit = service.matchProfiles(generateVisitor({
+                enrichedData: { industry: 'Retail' } as any
+            }), profiles);
+
+            expect(fit.tier).toBe(ICP_FIT_TIER.A);
+            expect(fit.icpId).toBe('icp-us');
+        });
+    });
+
+    describe('classifyVisitor', () => {
+        test('stores the fit on the visitor', async () => {
+            const result = await service.classifyVisitor(generateVisitor());
+
+            expect(visitorRepository.patch).toHaveBeenCalledWith('visitor-1', {
+                icpFit: expect.objectContaining({ tier: ICP_FIT_TIER.A })
+            });
+            expect(result.icpFit?.tier).toBe(ICP_FIT_TIER.A);
+        });
+
+        test('skips visitors without enriched data', async () => {
+            await service.classifyVisitor(generateVisitor({ enrichedData: null }));
+
+            expect(companyRepository.findById).not.toHaveBeenCalled();
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+        });
+
+        test('does not write an unchanged fit', async () => {
+            const visitor = generateVisitor();
+            const icpFit = service.matchProfiles(visitor, profiles);
+
+            await service.classifyVisitor({ ...visitor, icpFit });
+
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('reclassifyCompany', () => {
+        test('patches only the visitors whose fit changed', async () => {
+            const unchanged = generateVisitor({ id: 'visitor-2' });
+            unchanged.icpFit = service.matchProfiles(unchanged, profiles);
+            visitorRepository.findByCompany.mockResolvedValueOnce({
+                visitors: [
+                    generateVisitor(),
+                    unchanged,
+                    generateVisitor({ id: 'visitor-3', enrichedData: null })
+                ],
+                total: 3
+            });
+
+            const changed = await service.reclassifyCompany('company-1');
+
+            expect(changed).toBe(1);
+            expect(visitorRepository.patch).toHaveBeenCalledTimes(1);
+            expect(visitorRepository.patch).toHaveBeenCalledWith('visitor-1', expect.any(Object));
+        });
+    });
+});
@@ -4,8 +4,20 @@ import { Cache } from 'cache-manager'; // v5.x
 
 import { IdentityService } from '../../../src/services/identity/identity.service';
 import { EnrichmentService } from '../../../src/services/identity/enrichment.service';
+import { IpResolutionService } from '../../../src/services/identity/ipResolution.service';
+import { IdentityGraphService } from '../../../src/services/identity/identityGraph.service';
+import { IcpMatchingService } from '../../../src/services/scoring/icpMatching.service';
+import { VerificationService } from '../../../src/services/identity/verification.service';
+import { SignedIdentityService } from '../../../src/services/identity/signedIdentity.service';
+import { ConsentService } from '../../../src/services/tracking/consent.service';
 import { VisitorRepository } from '../../../src/db/repositories/visitor.repository';
-import { VISITOR_STATUS } from '../../../src/constants/visitor.constants';
+import {
+    VISITOR_STATUS,
+    IP_RANGE_TYPE,
+    IDENTIFICATION_METHOD
+} from '../../../src/constants/visitor.constants';
+import { VERIFICATION_STATUS, VERIFICATION_REASON } from '../../../src/constants/verification.constants';
+import { CONSENT_PURPOSE, CONSENT_SOURCE } from '../../../src/constants/consent.constants';
 import { IVisitor } from '../../../src/interfaces/visitor.interface';
 
 describe('IdentityService', () => {
@@ -14,6 +26,12 @@ describe('IdentityService', () => {
     let enrichmentService: jest.Mocked<EnrichmentService>;
     let cacheManager: jest.Mocked<Cache>;
     let rateLimiter: jest.Mocked<any>;
+    let ipResolutionService: jest.Mocked<IpResolutionService>;
+    let identityGraphService: jest.Mocked<IdentityGraphService>;
+    let icpMatchingService: jest.Mocked<IcpMatchingService>;
+    let verificationService: jest.Mocked<VerificationService>;
+    let signedIdentityService: jest.Mocked<SignedIdentityService>;
+    let consentRepository: any;
 
     // Test data generators
     const generateVisitor = (overrides = {}): IVisitor => ({
@@ -67,12 +85,15 @@ describe('IdentityService', () => {
         visitorRepository = {
             findById: jest.fn(),
             update: jest.fn(),
+            patch: jest.fn(),
             deleteVisitorData: jest.fn()
         } as any;
 
         enrichmentService = {
             enrichVisitorData: jest.fn(),
-            validateEnrichmentData: jest.fn()
+            validateEnrichmentData: jest.fn(),
+            overrideField: jest.fn(),
+            releaseOverride: jest.fn()
         } as any;
 
         cacheManager = {
@@ -85,12 +106,46 @@ describe('IdentityService', () => {
             checkLimit: jest.fn()
         };
 
+        ipResolutionService = {
+            resolveCompany: jest.fn()
+        } as any;
+
+        identityGraphService = {
+            linkVisitor: jest.fn(async (visitor: IVisitor) => visitor)
+        } as any;
+
+        icpMatchingService = {
+            classifyVisitor: jest.fn(async (visitor: IVisitor) => visitor)
+        } as any;
+
+        verificationService = {
+            verifyIdentification: jest.fn(async () => ({
+                status: VERIFICATION_STATUS.VERIFIED,
+                reasons: [],
+                verifiedAt: new Date()
+            }))
+        } as any;
+
+        signedIdentityService = {
+            verifyToken: jest.fn()
+        } as any;
+
+        consentRepository = {
+            createMany: jest.fn(async (records: any[]) => records)
+        };
+
         // Initialize service
         identityService = new IdentityService(
             visitorRepository,
             enrichmentService,
             cacheManager,
-            rateLimiter
+            rateLimiter,
+            ipResolutionService,
+            identityGraphService,
+            icpMatchingService,
+            verificationService,
+            signedIdentityService,
+            new ConsentService(visitorRepository, consentRepository)
         );
     });
 
@@ -136,6 +191,13 @@ describe('IdentityService', () => {
             expect(result.enrichedData).toBeDefined();
             expect(Date.now() - startTime).toBeLessThan(200); // Performance check
             expect(rateLimiter.checkLimit).toHaveBeenCalledWith(visitor.id, 100);
+            expect(identityGraphService.linkVisitor).toHaveBeenCalledWith(
+                expect.objectContaining({ id: visitor.id }),
+                identificationData
+            );
+            expect(icpMatchingService.classifyVisitor).toHaveBeenCalledWith(
+                expect.objectContaining({ status: VISITOR_STATUS.ENRICHED })
+            );
         });
 
         test('should handle cached visitor data correctly', async () => {
@@ -157,6 +219,27 @@ describe('IdentityService', () => {
             expect(enrichmentService.enrichVisitorData).not.toHaveBeenCalled();
         });
 
+        test('should identify company-resolved visitors found in the cache', async () => {
+            // Arrange
+            const visitor = generateVisitor({ status: VISITOR_STATUS.COMPANY_RESOLVED });
+            const identificationData = { ...generateIdentificationData(true), phone: '+1 415 555 0100' };
+
+            cacheManager.get.mockResolvedValue(visitor);
+            visitorRepository.findById.mockResolvedValue(visitor);
+            visitorRepository.update.mockImplementation(async (id, data) => ({ ...visitor, ...data }));
+
+            // Act
+            const result = await identityService.identifyVisitor(
+                visitor.id,
+                identificationData,
+                { skipEnrichment: true }
+            );
+
+            // Assert
+            expect(visitorRepository.findById).toHaveBeenCalledWith(visitor.id);
+            expect(result.status).toBe(VISITOR_STATUS.IDENTIFIED);
+        });
+
         test('should reject identification without GDPR consent', async () => {
             // Arrange
             const visitor = generateVisitor();
@@ -168,6 +251,37 @@ describe('IdentityService', () => {
             ).rejects.toThrow('GDPR consent is required for identification');
         });
 
+        test('should record the consent the identification was submitted with', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            const identificationData = {
+                ...generateIdentificationData(true),
+                phone: '+14155550100',
+                consent: { [CONSENT_PURPOSE.ENRICHMENT]: false }
+            };
+            let stored: IVisitor = visitor;
+
+            visitorRepository.findById.mockResolvedValue(visitor);
+            visitorRepository.patch.mockImplementation(async (id, data) => (stored = { ...stored, ...data }));
+            visitorRepository.update.mockImplementation(async (id, data) => ({ ...stored, ...data }));
+
+            // Act
+            const result = await identityService.identifyVisitor(visitor.id, identificationData);
+
+            // Assert
+            expect(consentRepository.createMany).toHaveBeenCalledWith([
+                expect.objectContaining({ purpose: CONSENT_PURPOSE.IDENTIFICATION, granted: true }),
+                expect.objectContaining({ purpose: CONSENT_PURPOSE.ENRICHMENT, granted: false }),
+                expect.objectContaining({ purpose: CONSENT_PURPOSE.CRM_SYNC, granted: true })
+            ]);
+            expect(result.consent?.[CONSENT_PURPOSE.IDENTIFICATION]).toEqual(expect.objectContaining({
+                granted: true,
+                source: CONSENT_SOURCE.IDENTIFY_FORM
+            }));
+            expect(result.status).toBe(VISITOR_STATUS.IDENTIFIED);
+            expect(enrichmentService.enrichVisitorData).not.toHaveBeenCalled();
+        });
+
         test('should handle enrichment failures gracefully', async () => {
             // Arrange
             const visitor = generateVisitor();
@@ -206,6 +320,58 @@ describe('IdentityService', () => {
             ).rejects.toThrow('Invalid email format');
         });
 
+        test('should store the verification verdict and the E.164 phone', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            const identificationData = { ...generateIdentificationData(true), phone: '(415) 555-0100' };
+            const verdict = {
+                status: VERIFICATION_STATUS.FLAGGED,
+                reasons: [VERIFICATION_REASON.FREE_WEBMAIL],
+                phone: { original: '(415) 555-0100', e164: '+14155550100', inferredCountry: 'US' },
+                verifiedAt: new Date()
+            };
+
+            visitorRepository.findById.mockResolvedValue(visitor);
+            visitorRepository.update.mockImplementation(async (id, data) => ({ ...visitor, ...data }));
+            verificationService.verifyIdentification.mockResolvedValue(verdict);
+
+            // Act
+            const result = await identityService.identifyVisitor(
+                visitor.id,
+                identificationData,
+                { skipEnrichment: true }
+            );
+
+            // Assert
+            expect(verificationService.verifyIdentification).toHaveBeenCalledWith(
+                visitor.companyId,
+                identificationData,
+                visitor.metadata.location
+            );
+            expect(result.phone).toBe('+14155550100');
+            expect(result.verification).toEqual(verdict);
+            expect(result.status).toBe(VISITOR_STATUS.IDENTIFIED);
+        });
+
+        test('should reject identifications refused by the company policy', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            const identificationData = { ...generateIdentificationData(true), phone: '+14155550100' };
+
+            visitorRepository.findById.mockResolvedValue(visitor);
+            verificationService.verifyIdentification.mockResolvedValue({
+                status: VERIFICATION_STATUS.REJECTED,
+                reasons: [VERIFICATION_REASON.DISPOSABLE_EMAIL],
+                verifiedAt: new Date()
+            });
+
+            // Act & Assert
+            await expect(
+                identityService.identifyVisitor(visitor.id, identificationData)
+            ).rejects.toThrow('Identification rejected: DISPOSABLE_EMAIL');
+            expect(visitorRepository.update).not.toHaveBeenCalled();
+        });
+
         test('should handle rate limiting correctly', async () => {
             // Arrange
             const visitor = generateVisitor();
@@ -220,6 +386,75 @@ describe('IdentityService', () => {
         });
     });
 
+    describe('identifySignedVisitor', () => {
+        test('should identify the visitor with the signed payload without verification', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            visitorRepository.findById.mockResolvedValue(visitor);
+            visitorRepository.update.mockImplementation(async (id, data) => ({ ...visitor, ...data }));
+            signedIdentityService.verifyToken.mockResolvedValue({
+                visitorId: visitor.id,
+                userId: 'user-42',
+                email: 'jane@acme.com',
+                name: 'Jane Doe',
+                traits: { plan: 'enterprise' },
+                gdprConsent: true,
+                iat: Math.floor(Date.now() / 1000)
+            });
+
+            // Act
+            const result = await identityService.identifySignedVisitor(
+                visitor.id,
+                'payload.signature',
+                { skipEnrichment: true }
+            );
+
+            // Assert
+            expect(signedIdentityService.verifyToken).toHaveBeenCalledWith(visitor.companyId, visitor.id, 'payload.signature');
+            expect(verificationService.verifyIdentification).not.toHaveBeenCalled();
+            expect(result).toEqual(expect.objectContaining({
+                status: VISITOR_STATUS.IDENTIFIED,
+                email: 'jane@acme.com',
+                identificationMethod: IDENTIFICATION_METHOD.SIGNED_TOKEN,
+                externalUserId: 'user-42'
+            }));
+            expect(identityGraphService.linkVisitor).toHaveBeenCalledWith(
+                expect.objectContaining({ id: visitor.id }),
+                expect.objectContaining({ customFields: { plan: 'enterprise', userId: 'user-42' } })
+            );
+        });
+
+        test('should not identify the visitor when the token is rejected', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            visitorRepository.findById.mockResolvedValue(visitor);
+            signedIdentityService.verifyToken.mockRejectedValue(new Error('Invalid signed identity token signature'));
+
+            // Act & Assert
+            await expect(
+                identityService.identifySignedVisitor(visitor.id, 'payload.forged')
+            ).rejects.toThrow('Invalid signed identity token signature');
+            expect(visitorRepository.update).not.toHaveBeenCalled();
+        });
+
+        test('should require GDPR consent in the signed payload', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            visitorRepository.findById.mockResolvedValue(visitor);
+            signedIdentityService.verifyToken.mockResolvedValue({
+                visitorId: visitor.id,
+                userId: 'user-42',
+                gdprConsent: false,
+                iat: Math.floor(Date.now() / 1000)
+            });
+
+            // Act & Assert
+            await expect(
+                identityService.identifySignedVisitor(visitor.id, 'payload.signature')
+            ).rejects.toThrow('GDPR consent is required for identification');
+        });
+    });
+
     describe('validateIdentificationData', () => {
         test('should validate complete identification data successfully', async () => {
             // Arrange
@@ -280,4 +515,138 @@ describe('IdentityService', () => {
             expect(enrichmentService.enrichVisitorData).toHaveBeenCalledTimes(2);
         });
     });
-});
\ No newline at end of file
+
+    describe('resolveVisitorCompany', () => {
+        const resolutionResult = {
+            resolution: {
+                organization: 'Acme Corp',
+                domain: 'acme.com',
+                confidence: 0.9,
+                matchedRange: '203.0.113.0/24',
+                rangeType: IP_RANGE_TYPE.CORPORATE,
+                resolvedAt: new Date()
+            },
+            enrichedData: {
+                company: 'Acme Corp',
+                title: '',
+                industry: 'Technology',
+                size: '',
+                revenue: '',
+                website: 'https://acme.com',
+                technologies: [],
+                linkedinUrl: '',
+                socialProfiles: {},
+                customFields: {}
+            }
+        };
+
+        test('should mark anonymous visitor as COMPANY_RESOLVED on confident match', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            visitorRepository.findById.mockResolvedValue(visitor);
+            visitorRepository.update.mockImplementation(async (id, data) => ({
+                ...visitor,
+                ...data
+            }));
+            ipResolutionService.resolveCompany.mockReturnValue(resolutionResult);
+
+            // Act
+            const result = await identityService.resolveVisitorCompany(visitor.id, '203.0.113.10');
+
+            // Assert
+            expect(ipResolutionService.resolveCompany).toHaveBeenCalledWith(visitor, '203.0.113.10');
+            expect(result.status).toBe(VISITOR_STATUS.COMPANY_RESOLVED);
+            expect(result.enrichedData?.company).toBe('Acme Corp');
+            expect(result.email).toBeNull();
+            expect(cacheManager.set).not.toHaveBeenCalled();
+        });
+
+        test('should leave visitor anonymous when no confident match exists', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            visitorRepository.findById.mockResolvedValue(visitor);
+            ipResolutionService.resolveCompany.mockReturnValue(null);
+
+            // Act
+            const result = await identityService.resolveVisitorCompany(visitor.id);
+
+            // Assert
+            expect(result.status).toBe(VISITOR_STATUS.ANONYMOUS);
+            expect(visitorRepository.update).not.toHaveBeenCalled();
+        });
+
+        test('should not downgrade identified visitors', async () => {
+            // Arrange
+            const visitor = generateVisitor({ status: VISITOR_STATUS.IDENTIFIED });
+            visitorRepository.findById.mockResolvedValue(visitor);
+
+            // Act
+            const result = await identityService.resolveVisitorCompany(visitor.id);
+
+            // Assert
+            expect(result.status).toBe(VISITOR_STATUS.IDENTIFIED);
+            expect(ipResolutionService.resolveCompany).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('overrideEnrichedField', () => {
+        const enrichedData = {
+            company: 'Acme',
+            title: 'VP Sales',
+            industry: '',
+            size: '',
+            revenue: '',
+            website: '',
+            technologies: [],
+            linkedinUrl: '',
+            socialProfiles: {},
+            customFields: {}
+        };
+
+        test('should store the locked field and reclassify the visitor', async () => {
+            // Arrange
+            const visitor = generateVisitor({ status: VISITOR_STATUS.ENRICHED, enrichedData });
+            const reviewed = { ...enrichedData, company: 'Acme Inc' };
+            visitorRepository.findById.mockResolvedValue(visitor);
+            enrichmentService.overrideField.mockReturnValue(reviewed);
+            visitorRepository.patch.mockImplementation(async (id, data) => ({ ...visitor, ...data }));
+
+            // Act
+            const result = await identityService.overrideEnrichedField(
+                visitor.companyId, visitor.id, 'company', { value: 'Acme Inc' }, 'user-1'
+            );
+
+            // Assert
+            expect(enrichmentService.overrideField).toHaveBeenCalledWith(
+                enrichedData, 'company', { value: 'Acme Inc' }, 'user-1'
+            );
+            expect(visitorRepository.patch).toHaveBeenCalledWith(visitor.id, { enrichedData: reviewed });
+            expect(icpMatchingService.classifyVisitor).toHaveBeenCalled();
+            expect(cacheManager.set).toHaveBeenCalledWith(`visitor:${visitor.id}`, result, expect.any(Number));
+            expect(result.enrichedData?.company).toBe('Acme Inc');
+        });
+
+        test('should reject visitors without enriched data', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            visitorRepository.findById.mockResolvedValue(visitor);
+
+            // Act & Assert
+            await expect(identityService.releaseEnrichedField(visitor.companyId, visitor.id, 'company'))
+                .rejects.toThrow(`Visitor ${visitor.id} has no enriched data`);
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+        });
+
+        test('should not review visitors of another company', async () => {
+            // Arrange
+            const visitor = generateVisitor();
+            visitorRepository.findById.mockResolvedValue(visitor);
+
+            // Act & Assert
+            await expect(identityService.overrideEnrichedField(
+                'other-company', visitor.id, 'company', { value: 'Acme Inc' }, 'user-1'
+            )).rejects.toThrow(`Visitor ${visitor.id} not found`);
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+        });
+    });
+});
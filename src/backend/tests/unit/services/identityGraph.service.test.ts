@@ -0,0 +1,314 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { IdentityGraphService } from '../../../src/services/identity/identityGraph.service';
+import { VisitorRepository } from '../../../src/db/repositories/visitor.repository';
+import { IdentityGraphRepository } from '../../../src/db/repositories/identityGraph.repository';
+import { ActivityService } from '../../../src/services/tracking/activity.service';
+import { VISITOR_STATUS, IDENTITY_KEY_TYPE, MERGE_STATUS } from '../../../src/constants/visitor.constants';
+import { IVisitor, IVisitorMerge } from '../../../src/interfaces/visitor.interface';
+
+describe('IdentityGraphService', () => {
+    let identityGraphService: IdentityGraphService;
+    let visitorRepository: jest.Mocked<VisitorRepository>;
+    let identityGraphRepository: jest.Mocked<IdentityGraphRepository>;
+    let activityService: jest.Mocked<ActivityService>;
+    let visitors: Map<string, IVisitor>;
+
+    const COMPANY_ID = 'company-1';
+
+    const generateVisitor = (id: string, overrides: Partial<IVisitor> = {}): IVisitor => ({
+        id: id as any,
+        companyId: COMPANY_ID as any,
+        email: null,
+        name: null,
+        phone: null,
+        status: VISITOR_STATUS.ANONYMOUS,
+        metadata: {
+            ipAddress: '203.0.113.10',
+            userAgent: 'Mozilla/5.0',
+            referrer: '',
+            currentPage: 'https://example.com',
+            previousPages: [],
+            customParams: {},
+            location: {
+                country: 'US',
+                city: 'Boston',
+                region: 'MA',
+                postalCode: '02110',
+                timezone: 'America/New_York'
+            },
+            deviceType: 'desktop',
+            browser: 'Chrome',
+            os: 'macOS'
+        },
+        enrichedData: null,
+        mergedInto: null,
+        visits: 1,
+        totalTimeSpent: 0,
+        firstSeen: new Date('2024-01-01T00:00:00Z'),
+        lastSeen: new Date('2024-01-01T00:00:00Z'),
+        lastEnriched: null as any,
+        isActive: true,
+        tags: {},
+        ...overrides
+    });
+
+    beforeEach(() => {
+        visitors = new Map();
+
+        visitorRepository = {
+            findById: jest.fn(async (id: string) => visitors.get(id) || null),
+            findByIds: jest.fn(async (ids: string[]) => ids.map(id => visitors.get(id)!).filter(Boolean)),
+            findMergedInto: jest.fn(async (id: string) =>
+                Array.from(visitors.values()).filter(visitor => visitor.mergedInto === id)
+            ),
+            patch: jest.fn(async (id: string, data: Partial<IVisitor>) => {
+                const updated = { ...visitors.get(id)!, ...data };
+                visitors.set(id, updated);
+                return updated;
+            })
+        } as any;
+
+        identityGraphRepository = {
+            linkKeys: jest.fn(),
+            findVisitorsByKeys: jest.fn(async () => new Map()),
+            createMerge: jest.fn(async (merge: IVisitorMerge) => merge),
+            findMergeById: jest.fn(),
+            findActiveMerges: jest.fn(async () => []),
+            hasUndoneMerge: jest.fn(async () => false),
+            completeMerge: jest.fn(),
+            markMergeUndone: jest.fn()
+        } as any;
+
+        activityService = {
+            getActivityIds: jest.fn(async () => ['activity-1', 'activity-2']),
+            reassignActivities: jest.fn(async () => ['activity-1', 'activity-2'])
+        } as any;
+
+        identityGraphService = new IdentityGraphService(
+            visitorRepository,
+            identityGraphRepository,
+            activityService
+        );
+    });
+
+    describe('extractIdentityKeys', () => {
+        test('should normalize email and phone before hashing', () => {
+            const [first] = identityGraphService.extractIdentityKeys(COMPANY_ID, {
+                email: ' Jane@Example.com ',
+                gdprConsent: true
+            });
+            const [second] = identityGraphService.extractIdentityKeys(COMPANY_ID, {
+                email: 'jane@example.com',
+                gdprConsent: true
+            });
+
+            expect(first.type).toBe(IDENTITY_KEY_TYPE.EMAIL);
+            expect(first.hash).toBe(second.hash);
+            expect(first.hash).not.toContain('jane');
+        });
+
+        test('should only treat ID-like custom fields as identity keys', () => {
+            const keys = identityGraphService.extractIdentityKeys(COMPANY_ID, {
+                phone: '+1 (555) 010-2000',
+                gdprConsent: true,
+                customFields: { userId: 'u-42', plan: 'enterprise', crm_id: 1001 }
+            });
+
+            expect(keys.map(key => key.type)).toEqual([
+                IDENTITY_KEY_TYPE.PHONE,
+                IDENTITY_KEY_TYPE.CUSTOM_ID,
+                IDENTITY_KEY_TYPE.CUSTOM_ID
+            ]);
+            expect(keys.filter(key => key.field).map(key => key.field)).toEqual(['userId', 'crm_id']);
+        });
+
+        test('should scope hashes to the company', () => {
+            const [a] = identityGraphService.extractIdentityKeys('company-a', { email: 'x@y.com', gdprConsent: true });
+            const [b] = identityGraphService.extractIdentityKeys('company-b', { email: 'x@y.com', gdprConsent: true });
+
+            expect(a.hash).not.toBe(b.hash);
+        });
+    });
+
+    describe('linkVisitor', () => {
+        test('should merge a new device into the earliest-seen visitor sharing a key', async () => {
+            const laptop = generateVisitor('laptop', {
+                email: 'jane@example.com',
+                status: VISITOR_STATUS.IDENTIFIED,
+                visits: 4,
+                totalTimeSpent: 300
+            });
+            const phone = generateVisitor('phone', {
+                email: 'jane@example.com',
+                status: VISITOR_STATUS.IDENTIFIED,
+                visits: 2,
+                totalTimeSpent: 60,
+                firstSeen: new Date('2024-02-01T00:00:00Z'),
+                lastSeen: new Date('2024-02-02T00:00:00Z'),
+                metadata: { ...generateVisitor('x').metadata, deviceType: 'mobile' }
+            });
+            visitors.set(laptop.id, laptop);
+            visitors.set(phone.id, phone);
+
+            const [emailKey] = identityGraphService.extractIdentityKeys(COMPANY_ID, {
+                email: 'jane@example.com',
+                gdprConsent: true
+            });
+            identityGraphRepository.findVisitorsByKeys.mockResolvedValue(new Map([
+                ['laptop', [emailKey]],
+                ['phone', [emailKey]]
+            ]));
+
+            const result = await identityGraphService.linkVisitor(phone, {
+                email: 'jane@example.com',
+                gdprConsent: true
+            });
+
+            expect(result.id).toBe('laptop');
+            expect(result.visits).toBe(6);
+            expect(result.totalTimeSpent).toBe(360);
+            expect(result.lastSeen).toEqual(new Date('2024-02-02T00:00:00Z'));
+            expect(visitors.get('phone')!.mergedInto).toBe('laptop');
+            expect(activityService.reassignActivities).toHaveBeenCalledWith('phone', 'laptop', ['activity-1', 'activity-2']);
+            expect(identityGraphRepository.createMerge).toHaveBeenCalledWith(expect.objectContaining({
+                canonicalVisitorId: 'laptop',
+                mergedVisitorId: 'phone',
+                movedActivityIds: ['activity-1', 'activity-2'],
+                status: MERGE_STATUS.PENDING
+            }));
+            expect(identityGraphRepository.createMerge.mock.invocationCallOrder[0])
+                .toBeLessThan(activityService.reassignActivities.mock.invocationCallOrder[0]);
+            expect(identityGraphRepository.completeMerge).toHaveBeenCalled();
+        });
+
+        test('should not merge pairs whose merge was undone', async () => {
+            const laptop = generateVisitor('laptop', { email: 'jane@example.com' });
+            const phone = generateVisitor('phone', {
+                email: 'jane@example.com',
+                firstSeen: new Date('2024-02-01T00:00:00Z')
+            });
+            visitors.set(laptop.id, laptop);
+            visitors.set(phone.id, phone);
+
+            identityGraphRepository.findVisitorsByKeys.mockResolvedValue(new Map([['laptop', []]]));
+            identityGraphRepository.hasUndoneMerge.mockResolvedValue(true);
+
+            await identityGraphService.linkVisitor(phone, { email: 'jane@example.com', gdprConsent: true });
+
+            expect(identityGraphRepository.createMerge).not.toHaveBeenCalled();
+        });
+
+        test('should return the visitor untouched when no keys are present', async () => {
+            const visitor = generateVisitor('solo');
+
+            const result = await identityGraphService.linkVisitor(visitor, { gdprConsent: true });
+
+            expect(result).toBe(visitor);
+            expect(identityGraphRepository.linkKeys).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('mergeVisitors', () => {
+        test('should roll back the applied steps when a merge fails', async () => {
+            visitors.set('laptop', generateVisitor('laptop', { visits: 4 }));
+            visitors.set('phone', generateVisitor('phone', { visits: 2 }));
+            visitorRepository.patch.mockRejectedValueOnce(new Error('Write conflict'));
+
+            await expect(identityGraphService.mergeVisitors('laptop', 'phone')).rejects.toThrow('Write conflict');
+
+            const [merge] = identityGraphRepository.createMerge.mock.calls[0];
+            expect(activityService.reassignActivities).toHaveBeenLastCalledWith('laptop', 'phone', ['activity-1', 'activity-2']);
+            expect(visitors.get('laptop')!.visits).toBe(4);
+            expect(visitors.get('phone')!.mergedInto).toBeNull();
+            expect(identityGraphRepository.completeMerge).not.toHaveBeenCalled();
+            expect(identityGraphRepository.markMergeUndone).toHaveBeenCalledWith(merge.id);
+        });
+    });
+
+    describe('undoMerge', () => {
+        test('should restore the merged visitor, its activities and the canonical totals', async () => {
+            const canonicalBefore = generateVisitor('laptop', { visits: 4, totalTimeSpent: 300 });
+            const mergedBefore = generateVisitor('phone', {
+                email: 'jane@example.com',
+                status: VISITOR_STATUS.IDENTIFIED,
+                visits: 2,
+                totalTimeSpent: 60
+            });
+            visitors.set('laptop', {
+                ...canonicalBefore,
+                email: 'jane@example.com',
+                status: VISITOR_STATUS.IDENTIFIED,
+                visits: 6,
+                totalTimeSpent: 360
+            });
+            visitors.set('phone', { ...mergedBefore, mergedInto: 'laptop' as any, isActive: false });
+
+            identityGraphRepository.findMergeById.mockResolvedValue({
+                id: 'merge-1',
+                companyId: COMPANY_ID,
+                canonicalVisitorId: 'laptop',
+                mergedVisitorId: 'phone',
+                matchedKeys: [],
+                canonicalSnapshot: canonicalBefore,
+                mergedSnapshot: mergedBefore,
+                movedActivityIds: ['activity-1'],
+                mergedBy: null,
+                mergedAt: new Date(),
+                undoneAt: null
+            } as any);
+
+            const result = await identityGraphService.undoMerge(COMPANY_ID, 'merge-1');
+
+            expect(result.profile.visits).toBe(4);
+            expect(result.profile.totalTimeSpent).toBe(300);
+            expect(result.profile.email).toBeNull();
+            expect(result.profile.status).toBe(VISITOR_STATUS.ANONYMOUS);
+            expect(visitors.get('phone')!.mergedInto).toBeNull();
+            expect(activityService.reassignActivities).toHaveBeenCalledWith('laptop', 'phone', ['activity-1']);
+            expect(identityGraphRepository.markMergeUndone).toHaveBeenCalledWith('merge-1');
+        });
+
+        test('should reject undoing a merge twice', async () => {
+            identityGraphRepository.findMergeById.mockResolvedValue({
+                id: 'merge-1',
+                companyId: COMPANY_ID,
+                undoneAt: new Date()
+            } as any);
+
+            await expect(identityGraphService.undoMerge(COMPANY_ID, 'merge-1')).rejects.toThrow('Merge has already been undone');
+        });
+
+        test('should not undo merges of another company', async () => {
+            identityGraphRepository.findMergeById.mockResolvedValue({
+                id: 'merge-1',
+                companyId: 'company-2',
+                undoneAt: null
+            } as any);
+
+            await expect(identityGraphService.undoMerge(COMPANY_ID, 'merge-1')).rejects.toThrow('Merge not found');
+            expect(activityService.reassignActivities).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getMergedProfile', () => {
+        test('should resolve any linked visitor to the canonical profile with all devices', async () => {
+            visitors.set('laptop', generateVisitor('laptop'));
+            visitors.set('phone', generateVisitor('phone', {
+                mergedInto: 'laptop' as any,
+                metadata: { ...generateVisitor('x').metadata, deviceType: 'mobile', os: 'iOS' }
+            }));
+
+            const result = await identityGraphService.getMergedProfile(COMPANY_ID, 'phone');
+
+            expect(result.profile.id).toBe('laptop');
+            expect(result.devices.map(device => device.deviceType)).toEqual(['desktop', 'mobile']);
+        });
+
+        test('should not return profiles of another company', async () => {
+            visitors.set('laptop', generateVisitor('laptop', { companyId: 'company-2' as any }));
+
+            await expect(identityGraphService.getMergedProfile(COMPANY_ID, 'laptop')).rejects.toThrow('Visitor not found');
+        });
+    });
+});
@@ -0,0 +1,138 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { IngestionService } from '../../../src/services/tracking/ingestion.service';
+import { parseIngestBatch } from '../../../src/api/validators/ingestion.validator';
+import { VISITOR_STATUS, VISITOR_ACTIVITY_TYPE } from '../../../src/constants/visitor.constants';
+import { INGEST_LINE_STATUS } from '../../../src/constants/ingestion.constants';
+import { IIngestEvent } from '../../../src/interfaces/ingestion.interface';
+
+describe('IngestionService', () => {
+    const companyId = 'company-1';
+    const knownVisitorId = '6f1c9d0e-3b1a-4c2e-9f4d-2a7b8c9d0e1f';
+    const newVisitorId = '0b8e7f6a-5d4c-4b3a-8291-a0b1c2d3e4f5';
+    const foreignVisitorId = '9a8b7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d';
+
+    let service: IngestionService;
+    let activityService: any;
+    let customEventService: any;
+    let visitorRepository: any;
+    let companyRepository: any;
+
+    const line = (overrides: Partial<IIngestEvent> = {}): string => JSON.stringify({
+        eventId: 'order-1',
+        visitorId: knownVisitorId,
+        type: VISITOR_ACTIVITY_TYPE.PAGE_VIEW,
+        occurredAt: '2026-10-18T09:00:00.000Z',
+        url: 'https://acme.com/pricing',
+        ...overrides
+    });
+
+    const ingest = (...lines: string[]) => service.ingestBatch(companyId, parseIngestBatch(lines.join('\n')));
+
+    beforeEach(() => {
+        activityService = { importActivities: jest.fn(async () => new Set<string>()) };
+        customEventService = {
+            validateEvent: jest.fn(async (id: string, eventName: string, properties: any) => {
+                if (eventName !== 'demo_booked') {
+                    throw new Error(`Invalid custom event ${eventName}`);
+                }
+                return { eventName, properties, piiProperties: [] };
+            })
+        };
+        visitorRepository = {
+            findByIds: jest.fn(async () => [
+                { id: knownVisitorId, companyId, status: VISITOR_STATUS.IDENTIFIED, lastSeen: new Date('2026-10-17T00:00:00.000Z') },
+                { id: foreignVisitorId, companyId: 'company-2', status: VISITOR_STATUS.ANONYMOUS }
+            ]),
+            bulkUpsertVisitors: jest.fn(async (visitors: any[]) => ({ success: visitors.length, failed: 0 }))
+        };
+        companyRepository = {
+            findById: jest.fn(async () => ({ id: companyId, settings: { visitorTrackingSettings: { captureIPAddress: true } } }))
+        };
+
+        service = new IngestionService(activityService, customEventService, visitorRepository, companyRepository);
+    });
+
+    test('records valid lines and reports why the others were rejected', async () => {
+        const result = await ingest(
+            line(),
+            '{"eventId": "broken"',
+            line({ eventId: 'order-2', type: 'UNKNOWN' as VISITOR_ACTIVITY_TYPE }),
+            '',
+            line({ eventId: 'order-3', visitorId: newVisitorId, context: { ipAddress: '203.0.113.7', userAgent: 'pipeline' } })
+        );
+
+        expect(result).toMatchObject({ accepted: 2, duplicates: 0, rejected: 2 });
+        expect(result.results.map(({ line: lineNumber, status }) => [lineNumber, status])).toEqual([
+            [1, INGEST_LINE_STATUS.ACCEPTED],
+            [2, INGEST_LINE_STATUS.REJECTED],
+            [3, INGEST_LINE_STATUS.REJECTED],
+            [5, INGEST_LINE_STATUS.ACCEPTED]
+        ]);
+        expect(result.results[1].errors).toEqual(['Line is not valid JSON']);
+        expect(result.results[2]).toMatchObject({ eventId: 'order-2', errors: ['Invalid activity type'] });
+
+        const [imported] = activityService.importActivities.mock.calls[0];
+        expect(imported.map((visitor: any) => visitor.id)).toEqual([knownVisitorId, newVisitorId]);
+        expect(activityService.importActivities.mock.calls[0][1].map((activity: any) => activity.dedupKey))
+            .toEqual([`${companyId}:order-1`, `${companyId}:order-3`]);
+
+        const [upserts] = visitorRepository.bulkUpsertVisitors.mock.calls[0];
+        expect(upserts).toHaveLength(2);
+        expect(upserts[1]).toMatchObject({
+            id: newVisitorId,
+            companyId,
+            status: VISITOR_STATUS.ANONYMOUS,
+            gdprConsent: false,
+            metadata: { ipAddress: '203.0.113.xxx', userAgent: 'pipeline' }
+        });
+    });
+
+    test('reports events already recorded as duplicates', async () => {
+        activityService.importActivities.mockResolvedValue(new Set([`${companyId}:order-1`]));
+
+        const result = await ingest(line(), line(), line({ eventId: 'order-2' }));
+
+        expect(result.results.map(({ status }) => status)).toEqual([
+            INGEST_LINE_STATUS.DUPLICATE,
+            INGEST_LINE_STATUS.DUPLICATE,
+            INGEST_LINE_STATUS.ACCEPTED
+        ]);
+        expect(activityService.importActivities.mock.calls[0][1]).toHaveLength(2);
+    });
+
+    test('rejects events of other companies\' visitors and never moves lastSeen backwards', async () => {
+        const result = await ingest(
+            line({ occurredAt: '2026-10-01T09:00:00.000Z' }),
+            line({ eventId: 'order-2', visitorId: foreignVisitorId })
+        );
+
+        expect(result.results[1]).toMatchObject({
+            status: INGEST_LINE_STATUS.REJECTED,
+            errors: ['Visitor belongs to another company']
+        });
+        expect(visitorRepository.bulkUpsertVisitors).not.toHaveBeenCalled();
+    });
+
+    test('keeps only the validated payload of custom events', async () => {
+        const result = await ingest(
+            line({ type: VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT, data: { eventName: 'demo_booked', properties: { plan: 'pro' } } }),
+            line({ eventId: 'order-2', type: VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT, data: { eventName: 'unknown' } })
+        );
+
+        expect(result.results[1]).toMatchObject({
+            status: INGEST_LINE_STATUS.REJECTED,
+            errors: ['Invalid custom event unknown']
+        });
+        const [activity] = activityService.importActivities.mock.calls[0][1];
+        expect(activity.data).toMatchObject({
+            eventName: 'demo_booked',
+            properties: { plan: 'pro' },
+            metadata: { source: 'INGEST', eventId: 'order-1' }
+        });
+    });
+
+    test('refuses empty batches', () => {
+        expect(() => parseIngestBatch('\n\n')).toThrow('A batch must contain between 1 and 5000 events');
+    });
+});
@@ -4,21 +4,37 @@
  * @version 1.0.0
  */
 
+import 'reflect-metadata';
 import { Logger } from 'winston'; // ^3.8.x
 import { MetricsCollector } from '@opentelemetry/metrics'; // ^1.0.x
 import { CircuitBreaker } from 'opossum'; // ^6.0.x
 import { v4 as uuidv4 } from 'uuid'; // ^9.0.x
 
-import { IntegrationService } from '../../src/services/integration/integration.service';
-import { CRMService } from '../../src/services/integration/crm.service';
-import { IntegrationRepository } from '../../src/db/repositories/integration.repository';
-import { CRM_TYPES, INTEGRATION_STATUS } from '../../src/constants/integration.constants';
+import { IntegrationService } from '../../../src/services/integration/integration.service';
+import { CRMService } from '../../../src/services/integration/crm.service';
+import { IntegrationRepository } from '../../../src/db/repositories/integration.repository';
+import { ConsentService } from '../../../src/services/tracking/consent.service';
+import { IFieldMapping } from '../../../src/interfaces/integration.interface';
+import {
+  CRM_TYPES,
+  CRM_OBJECT,
+  CRM_CONFLICT_WINNER,
+  INTEGRATION_STATUS,
+  SYNC_RUN_STATUS,
+  SYNC_TRIGGER,
+  SYNC_MODE,
+  SYNC_BATCH_SIZE,
+  TRANSFORM_OPERATOR
+} from '../../../src/constants/integration.constants';
+import { VISITOR_STATUS } from '../../../src/constants/visitor.constants';
+import { CONSENT_PURPOSE, CONSENT_SOURCE } from '../../../src/constants/consent.constants';
 
-// Mock dependencies
-jest.mock('../../src/services/integration/crm.service');
-jest.mock('../../src/db/repositories/integration.repository');
+// Mock dependencies; the service receives its collaborators through the constructor, so the
+// modules are replaced wholesale instead of automocked from their own imports
+jest.mock('../../../src/services/integration/crm.service', () => ({ CRMService: jest.fn() }));
+jest.mock('../../../src/db/repositories/integration.repository', () => ({ IntegrationRepository: jest.fn() }));
 jest.mock('winston');
-jest.mock('@opentelemetry/metrics');
+jest.mock('@opentelemetry/metrics', () => ({ MetricsCollector: jest.fn() }), { virtual: true });
 
 describe('IntegrationService', () => {
   let integrationService: IntegrationService;
@@ -27,9 +43,36 @@ describe('IntegrationService', () => {
   let mockIntegrationRepository: jest.Mocked<IntegrationRepository>;
   let mockMetricsCollector: jest.Mocked<MetricsCollector>;
   let mockCircuitBreaker: jest.Mocked<CircuitBreaker>;
+  let mockVisitorRepository: any;
+  let mockSyncLogRepository: any;
+  let mockSyncKeyRepository: any;
 
   const mockCompanyId = uuidv4();
   const mockIntegrationId = uuidv4();
+  const mockSyncId = uuidv4();
+
+  const mockCreateData = {
+    companyId: mockCompanyId,
+    type: CRM_TYPES.SALESFORCE,
+    credentials: {
+      clientId: 'test-client-id',
+      clientSecret: 'test-client-secret',
+      accessToken: 'test-access-token',
+      refreshToken: 'test-refresh-token',
+      tokenExpiry: new Date(Date.now() + 3600000),
+      scope: ['read', 'write'],
+      instanceUrl: 'https://test.salesforce.com'
+    },
+    config: {
+      syncInterval: 3600000,
+      fieldMappings: [],
+      retryPolicy: {
+        maxAttempts: 3,
+        backoffInterval: 1000,
+        timeoutMs: 5000
+      }
+    }
+  };
 
   beforeEach(() => {
     // Reset all mocks
@@ -45,6 +88,7 @@ describe('IntegrationService', () => {
     mockCRMService = {
       connectCRM: jest.fn(),
       syncData: jest.fn(),
+      pullData: jest.fn(),
       validateCredentials: jest.fn(),
       refreshToken: jest.fn(),
     } as any;
@@ -66,40 +110,48 @@ describe('IntegrationService', () => {
       fire: jest.fn(),
     } as any;
 
+    mockVisitorRepository = {
+      findCrmSyncCandidates: jest.fn().mockResolvedValue([]),
+      findById: jest.fn().mockResolvedValue(null),
+      findByIds: jest.fn().mockResolvedValue([]),
+      findCrmLinked: jest.fn().mockResolvedValue([]),
+      setCrmStates: jest.fn().mockResolvedValue(undefined),
+    };
+
+    mockSyncLogRepository = {
+      start: jest.fn().mockImplementation(async (integrationId, trigger, syncObject, mode) => ({
+        id: mockSyncId,
+        integrationId,
+        trigger: trigger.type,
+        syncObject,
+        mode,
+        status: SYNC_RUN_STATUS.RUNNING
+      })),
+      complete: jest.fn().mockImplementation(async (id, outcome) => ({ id, ...outcome })),
+      findById: jest.fn(),
+      findByIntegration: jest.fn(),
+    };
+
+    mockSyncKeyRepository = {
+      findRecordIds: jest.fn().mockResolvedValue({}),
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+
     // Initialize service with mocks
     integrationService = new IntegrationService(
       mockLogger,
       mockIntegrationRepository,
       mockCRMService,
       { create: () => mockCircuitBreaker },
-      mockMetricsCollector
+      mockMetricsCollector,
+      mockVisitorRepository,
+      new ConsentService(mockVisitorRepository, {} as any),
+      mockSyncLogRepository,
+      mockSyncKeyRepository
     );
   });
 
   describe('createIntegration', () => {
-    const mockCreateData = {
-      companyId: mockCompanyId,
-      type: CRM_TYPES.SALESFORCE,
-      credentials: {
-        clientId: 'test-client-id',
-        clientSecret: 'test-client-secret',
-        accessToken: 'test-access-token',
-        refreshToken: 'test-refresh-token',
-        tokenExpiry: new Date(Date.now() + 3600000),
-        scope: ['read', 'write'],
-        instanceUrl: 'https://test.salesforce.com'
-      },
-      config: {
-        syncInterval: 3600000,
-        fieldMappings: [],
-        retryPolicy: {
-          maxAttempts: 3,
-          backoffInterval: 1000,
-          timeoutMs: 5000
-        }
-      }
-    };
-
     it('should create integration successfully with validated credentials', async () => {
       const validatedCreds = { ...mockCreateData.credentials, accessToken: 'new-token' };
       const mockIntegration = { ...mockCreateData, id: mockIntegrationId };
@@ -116,7 +168,18 @@ describe('IntegrationService', () => {
       );
       expect(mockIntegrationRepository.create).toHaveBeenCalledWith({
         ...mockCreateData,
-        credentials: validatedCreds
+        credentials: validatedCreds,
+        config: {
+          ...mockCreateData.config,
+          fieldMappings: [
+            expect.objectContaining({ sourceField: 'icpFit.tier', targetField: 'ICP_Fit_Tier__c' }),
+            expect.objectContaining({
+              sourceField: 'icpFit.reasons',
+              targetField: 'ICP_Match_Reasons__c',
+              transformFunction: 'formatIcpReasons'
+            })
+          ]
+        }
       });
       expect(mockMetricsCollector.record).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -227,7 +290,7 @@ describe('IntegrationService', () => {
     it('should sync integration data successfully with circuit breaker', async () => {
       mockIntegrationRepository.findById.mockResolvedValue(mockIntegration);
       mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
-      mockCRMService.syncData.mockResolvedValue({ success: 10, failed: 0 });
+      mockCRMService.syncData.mockResolvedValue({ success: 10, failed: 0, errors: [], details: {} });
 
       await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
 
@@ -246,6 +309,155 @@ describe('IntegrationService', () => {
       );
     });
 
+    it('should record the run in the sync history', async () => {
+      const userId = uuidv4();
+      mockIntegrationRepository.findById.mockResolvedValue(mockIntegration);
+      mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
+      mockCRMService.syncData.mockResolvedValue({ success: 3, failed: 0, errors: [], details: {} });
+
+      const run = await integrationService.syncIntegration(mockIntegrationId, mockCompanyId, {
+        type: SYNC_TRIGGER.USER,
+        userId
+      });
+
+      expect(mockSyncLogRepository.start).toHaveBeenCalledWith(
+        mockIntegrationId,
+        { type: SYNC_TRIGGER.USER, userId },
+        CRM_OBJECT.LEAD,
+        SYNC_MODE.DELTA
+      );
+      expect(mockSyncLogRepository.complete).toHaveBeenCalledWith(mockSyncId, {
+        status: SYNC_RUN_STATUS.SUCCESS,
+        recordsProcessed: 3,
+        recordsFailed: 0,
+        errorDetails: null
+      });
+      expect(run.status).toBe(SYNC_RUN_STATUS.SUCCESS);
+    });
+
+    it('should record the records the CRM refused on partial syncs', async () => {
+      const refused = { visitorId: 'b', message: 'Required fields are missing: [Company]', code: 400 };
+      mockIntegrationRepository.findById.mockResolvedValue(mockIntegration);
+      mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
+      mockCRMService.syncData.mockResolvedValue({ success: 1, failed: 1, errors: [refused], details: {} });
+
+      await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(mockSyncLogRepository.start).toHaveBeenCalledWith(
+        mockIntegrationId,
+        { type: SYNC_TRIGGER.SCHEDULER },
+        CRM_OBJECT.LEAD,
+        SYNC_MODE.DELTA
+      );
+      expect(mockSyncLogRepository.complete).toHaveBeenCalledWith(mockSyncId, {
+        status: SYNC_RUN_STATUS.PARTIAL,
+        recordsProcessed: 2,
+        recordsFailed: 1,
+        errorDetails: { records: [refused] }
+      });
+      expect(mockIntegrationRepository.update).toHaveBeenCalledWith(
+        mockIntegrationId,
+        expect.objectContaining({ lastSyncAt: expect.any(Date) }),
+        mockCompanyId
+      );
+    });
+
+    it('should only push visitors who consented to CRM sync', async () => {
+      const consent = (granted: boolean) => ({
+        [CONSENT_PURPOSE.CRM_SYNC]: { granted, source: CONSENT_SOURCE.IDENTIFY_FORM, recordedAt: new Date() }
+      });
+      mockIntegrationRepository.findById.mockResolvedValue({
+        ...mockIntegration,
+        config: { fieldMappings: [{ sourceField: 'enrichedData.company', targetField: 'Company', required: false, validation: {} }] }
+      });
+      mockVisitorRepository.findCrmSyncCandidates.mockResolvedValue([
+        {
+          id: 'granted',
+          email: 'jane@acme.com',
+          status: VISITOR_STATUS.ENRICHED,
+          enrichedData: { company: 'Acme', website: 'https://www.Acme.com/about' },
+          consent: consent(true)
+        },
+        { id: 'withdrawn', status: VISITOR_STATUS.ENRICHED, enrichedData: { company: 'Globex' }, consent: consent(false) },
+        { id: 'anonymous', status: VISITOR_STATUS.ANONYMOUS, consent: null }
+      ]);
+      mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
+      mockCRMService.syncData.mockResolvedValue({ success: 1, failed: 0, errors: [], details: {} });
+
+      await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(mockCRMService.syncData).toHaveBeenCalledWith(
+        CRM_TYPES.SALESFORCE,
+        mockIntegration.credentials,
+        CRM_OBJECT.LEAD,
+        [{
+          visitorId: 'granted',
+          email: 'jane@acme.com',
+          domain: 'acme.com',
+          recordId: null,
+          idempotencyKey: `${mockIntegrationId}:${CRM_OBJECT.LEAD}:granted`,
+          fields: { Company: 'Acme' }
+        }],
+        expect.any(Function)
+      );
+    });
+
+    it('should push visitors as the configured CRM object', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue({
+        ...mockIntegration,
+        config: { fieldMappings: [], syncObject: CRM_OBJECT.ACCOUNT }
+      });
+      mockVisitorRepository.findCrmSyncCandidates.mockResolvedValue([]);
+      mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
+      mockCRMService.syncData.mockResolvedValue({ success: 0, failed: 0, errors: [], details: {} });
+
+      await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(mockCRMService.syncData).toHaveBeenCalledWith(
+        CRM_TYPES.SALESFORCE,
+        mockIntegration.credentials,
+        CRM_OBJECT.ACCOUNT,
+        [],
+        expect.any(Function)
+      );
+    });
+
+    it('should fail the sync when the CRM refuses every record', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue(mockIntegration);
+      mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
+      mockCRMService.syncData.mockResolvedValue({
+        success: 0,
+        failed: 2,
+        errors: [
+          { visitorId: 'a', message: 'Required fields are missing: [Company]', code: 400 },
+          { visitorId: 'b', message: 'Required fields are missing: [Company]', code: 400 }
+        ],
+        details: {}
+      });
+
+      await expect(integrationService.syncIntegration(mockIntegrationId, mockCompanyId))
+        .rejects.toThrow('CRM refused all 2 records: Required fields are missing: [Company]');
+
+      expect(mockIntegrationRepository.update).not.toHaveBeenCalled();
+      expect(mockIntegrationRepository.updateStatus).toHaveBeenCalledWith(
+        mockIntegrationId,
+        INTEGRATION_STATUS.ERROR,
+        mockCompanyId
+      );
+      expect(mockSyncLogRepository.complete).toHaveBeenCalledWith(mockSyncId, {
+        status: SYNC_RUN_STATUS.ERROR,
+        recordsProcessed: 2,
+        recordsFailed: 2,
+        errorDetails: {
+          message: 'CRM refused all 2 records: Required fields are missing: [Company]',
+          records: [
+            expect.objectContaining({ visitorId: 'a' }),
+            expect.objectContaining({ visitorId: 'b' })
+          ]
+        }
+      });
+    });
+
     it('should handle sync failure and update status', async () => {
       const error = new Error('Sync failed');
       mockIntegrationRepository.findById.mockResolvedValue(mockIntegration);
@@ -266,6 +478,509 @@ describe('IntegrationService', () => {
           name: 'integration.sync.error'
         })
       );
+      expect(mockSyncLogRepository.complete).toHaveBeenCalledWith(mockSyncId, {
+        status: SYNC_RUN_STATUS.ERROR,
+        recordsProcessed: 0,
+        recordsFailed: 0,
+        errorDetails: { message: 'Sync failed', records: [] }
+      });
+    });
+  });
+
+  describe('field mapping transformations', () => {
+    const mapping = (targetField: string, sourceField: string, extra: Partial<IFieldMapping> = {}): IFieldMapping => ({
+      sourceField,
+      targetField,
+      required: false,
+      validation: {},
+      ...extra
+    });
+    const visitor = {
+      id: 'jane',
+      email: 'Jane.Doe@Acme.com',
+      status: VISITOR_STATUS.ENRICHED,
+      consent: null,
+      firstSeen: new Date('2024-03-05T14:30:00Z'),
+      enrichedData: { company: 'Acme', industry: 'software', employeeCount: null, technologies: ['React', 'Node.js'] },
+      icpFit: {
+        tier: 'A',
+        reasons: [{ criterion: 'industries', value: 'software' }, { criterion: 'countries', value: 'US' }]
+      }
+    };
+    const fieldMappings = [
+      mapping('Email', 'email', {
+        transformation: { op: TRANSFORM_OPERATOR.LOWERCASE, args: [{ field: 'email' }] }
+      }),
+      mapping('FirstName', 'email', {
+        transformation: {
+          op: TRANSFORM_OPERATOR.SPLIT,
+          args: [{ op: TRANSFORM_OPERATOR.SPLIT, args: [{ field: 'email' }, '@', 0] }, '.', 0]
+        }
+      }),
+      mapping('Industry', 'enrichedData.industry', {
+        transformation: {
+          op: TRANSFORM_OPERATOR.MAP_VALUE,
+          args: [{ field: 'enrichedData.industry' }, 'Other'],
+          table: { software: 'Technology', banking: 'Finance' }
+        }
+      }),
+      mapping('Employees', 'enrichedData.employeeCount', {
+        transformation: { op: TRANSFORM_OPERATOR.DEFAULT, args: [{ field: 'enrichedData.employeeCount' }, 'Unknown'] }
+      }),
+      mapping('First_Visit__c', 'firstSeen', {
+        transformation: { op: TRANSFORM_OPERATOR.FORMAT_DATE, args: [{ field: 'firstSeen' }, 'YYYY-MM-DD'] }
+      }),
+      mapping('Description', 'enrichedData.company', {
+        transformation: {
+          op: TRANSFORM_OPERATOR.IF,
+          args: [
+            { op: TRANSFORM_OPERATOR.CONTAINS, args: [{ field: 'enrichedData.technologies' }, 'React'] },
+            {
+              op: TRANSFORM_OPERATOR.CONCAT,
+              args: [{ field: 'enrichedData.company' }, ' uses ', {
+                op: TRANSFORM_OPERATOR.JOIN,
+                args: [{ field: 'enrichedData.technologies' }, ' and ']
+              }]
+            },
+            null
+          ]
+        }
+      }),
+      mapping('ICP_Match_Reasons__c', 'icpFit.reasons', { transformFunction: 'formatIcpReasons' })
+    ];
+
+    it('should push the values mapping transformations compute', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue({
+        id: mockIntegrationId,
+        companyId: mockCompanyId,
+        type: CRM_TYPES.SALESFORCE,
+        credentials: {},
+        config: { fieldMappings }
+      });
+      mockVisitorRepository.findCrmSyncCandidates.mockResolvedValue([visitor]);
+      mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
+      mockCRMService.syncData.mockResolvedValue({ success: 1, failed: 0, errors: [], details: {} });
+
+      await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(mockCRMService.syncData.mock.calls[0][3]![0].fields).toEqual({
+        Email: 'jane.doe@acme.com',
+        FirstName: 'Jane',
+        Industry: 'Technology',
+        Employees: 'Unknown',
+        First_Visit__c: '2024-03-05',
+        Description: 'Acme uses React and Node.js',
+        ICP_Match_Reasons__c: 'industries: software; countries: US'
+      });
+    });
+
+    it('should preview a sample visitor under unsaved field mappings without pushing it', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue({
+        id: mockIntegrationId,
+        companyId: mockCompanyId,
+        type: CRM_TYPES.HUBSPOT,
+        credentials: {},
+        config: { fieldMappings: [], syncObject: CRM_OBJECT.CONTACT }
+      });
+
+      const preview = await integrationService.previewFieldMappings(mockIntegrationId, mockCompanyId, {
+        visitor: {
+          ...visitor,
+          enrichedData: { ...visitor.enrichedData, industry: 'retail', website: 'https://acme.com' }
+        } as any,
+        fieldMappings: [
+          fieldMappings[2],
+          mapping('company', 'enrichedData.companyName', { required: true })
+        ]
+      });
+
+      expect(preview).toEqual({
+        object: CRM_OBJECT.CONTACT,
+        email: 'Jane.Doe@Acme.com',
+        domain: 'acme.com',
+        fields: { Industry: 'Other', company: null },
+        missingFields: ['company']
+      });
+      expect(mockCRMService.syncData).not.toHaveBeenCalled();
+    });
+
+    it('should not preview visitors of another company', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue({
+        id: mockIntegrationId,
+        companyId: mockCompanyId,
+        type: CRM_TYPES.HUBSPOT,
+        credentials: {},
+        config: { fieldMappings }
+      });
+      mockVisitorRepository.findById.mockResolvedValue({ ...visitor, companyId: uuidv4() });
+
+      await expect(integrationService.previewFieldMappings(mockIntegrationId, mockCompanyId, { visitorId: 'jane' }))
+        .rejects.toThrow('Visitor not found');
+    });
+  });
+
+  describe('delta sync', () => {
+    const cursor = { updatedAt: new Date('2024-03-01T09:00:00Z'), visitorId: 'visitor-0000' };
+    const visitors = (from: number, count: number) => Array.from({ length: count }, (_, index) => ({
+      id: `visitor-${String(from + index).padStart(4, '0')}`,
+      email: `visitor${from + index}@acme.com`,
+      status: VISITOR_STATUS.IDENTIFIED,
+      consent: null,
+      updatedAt: new Date(Date.UTC(2024, 2, 1, 10, 0, from + index))
+    }));
+    const cursorAfter = (batch: ReturnType<typeof visitors>) => ({
+      updatedAt: batch[batch.length - 1].updatedAt,
+      visitorId: batch[batch.length - 1].id
+    });
+    const integrationWith = (syncCursor: typeof cursor | null) => ({
+      id: mockIntegrationId,
+      companyId: mockCompanyId,
+      type: CRM_TYPES.SALESFORCE,
+      credentials: {},
+      syncCursor,
+      config: { fieldMappings: [], syncObject: CRM_OBJECT.CONTACT }
+    });
+
+    beforeEach(() => {
+      mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
+      mockCRMService.syncData.mockImplementation(async (type, credentials, object, records) => ({
+        success: records.length,
+        failed: 0,
+        errors: [],
+        details: {}
+      }));
+    });
+
+    it('should push visitors changed after the sync cursor in batches, advancing the cursor after each', async () => {
+      const firstBatch = visitors(1, SYNC_BATCH_SIZE);
+      const lastBatch = visitors(SYNC_BATCH_SIZE + 1, 2);
+      mockIntegrationRepository.findById.mockResolvedValue(integrationWith(cursor));
+      mockVisitorRepository.findCrmSyncCandidates
+        .mockResolvedValueOnce(firstBatch)
+        .mockResolvedValueOnce(lastBatch);
+
+      const run = await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(mockVisitorRepository.findCrmSyncCandidates.mock.calls).toEqual([
+        [mockCompanyId, cursor, SYNC_BATCH_SIZE],
+        [mockCompanyId, cursorAfter(firstBatch), SYNC_BATCH_SIZE]
+      ]);
+      expect(mockIntegrationRepository.update)
+        .toHaveBeenCalledWith(mockIntegrationId, { syncCursor: cursorAfter(firstBatch) }, mockCompanyId);
+      expect(mockIntegrationRepository.update)
+        .toHaveBeenCalledWith(mockIntegrationId, { syncCursor: cursorAfter(lastBatch) }, mockCompanyId);
+      expect(mockCRMService.syncData).toHaveBeenCalledTimes(2);
+      expect(run).toEqual(expect.objectContaining({
+        status: SYNC_RUN_STATUS.SUCCESS,
+        recordsProcessed: SYNC_BATCH_SIZE + 2
+      }));
+    });
+
+    it('should keep the cursor of the last batch pushed when the CRM refuses a batch', async () => {
+      const firstBatch = visitors(1, SYNC_BATCH_SIZE);
+      mockIntegrationRepository.findById.mockResolvedValue(integrationWith(cursor));
+      mockVisitorRepository.findCrmSyncCandidates
+        .mockResolvedValueOnce(firstBatch)
+        .mockResolvedValueOnce(visitors(SYNC_BATCH_SIZE + 1, 1));
+      mockCRMService.syncData.mockImplementationOnce(async (type, credentials, object, records) => ({
+        success: records.length,
+        failed: 0,
+        errors: [],
+        details: {}
+      })).mockResolvedValueOnce({
+        success: 0,
+        failed: 1,
+        errors: [{ visitorId: 'visitor-0501', message: 'Unable to lock row', code: 503 }],
+        details: {}
+      });
+
+      await expect(integrationService.syncIntegration(mockIntegrationId, mockCompanyId))
+        .rejects.toThrow('CRM refused all 1 records: Unable to lock row');
+
+      expect(mockIntegrationRepository.update).toHaveBeenCalledTimes(1);
+      expect(mockIntegrationRepository.update)
+        .toHaveBeenCalledWith(mockIntegrationId, { syncCursor: cursorAfter(firstBatch) }, mockCompanyId);
+    });
+
+    it('should push every visitor from the start on a full resync', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue(integrationWith(cursor));
+      mockVisitorRepository.findCrmSyncCandidates.mockResolvedValue(visitors(1, 2));
+
+      await integrationService.syncIntegration(
+        mockIntegrationId,
+        mockCompanyId,
+        { type: SYNC_TRIGGER.USER },
+        SYNC_MODE.FULL
+      );
+
+      expect(mockSyncLogRepository.start).toHaveBeenCalledWith(
+        mockIntegrationId,
+        { type: SYNC_TRIGGER.USER },
+        CRM_OBJECT.CONTACT,
+        SYNC_MODE.FULL
+      );
+      expect(mockVisitorRepository.findCrmSyncCandidates).toHaveBeenCalledWith(mockCompanyId, null, SYNC_BATCH_SIZE);
+    });
+
+    it('should update the CRM record already written under a visitor idempotency key', async () => {
+      const key = (visitorId: string) => `${mockIntegrationId}:${CRM_OBJECT.CONTACT}:${visitorId}`;
+      const written = { id: '0035e00000KaBcDAAV', object: CRM_OBJECT.CONTACT, created: false };
+      const created = { id: '0035e00000LbCdEAAV', object: CRM_OBJECT.CONTACT, created: true };
+      mockIntegrationRepository.findById.mockResolvedValue(integrationWith(null));
+      mockVisitorRepository.findCrmSyncCandidates.mockResolvedValue(visitors(1, 2));
+      mockSyncKeyRepository.findRecordIds.mockResolvedValue({ [key('visitor-0001')]: written.id });
+      mockCRMService.syncData.mockImplementation(async (type, credentials, object, records, onRecordWritten) => {
+        await onRecordWritten(records[0], written);
+        await onRecordWritten(records[1], created);
+        return {
+          success: 2,
+          failed: 0,
+          errors: [],
+          details: { 'visitor-0001': written, 'visitor-0002': created }
+        };
+      });
+
+      await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(mockSyncKeyRepository.findRecordIds).toHaveBeenCalledWith([key('visitor-0001'), key('visitor-0002')]);
+      expect(mockCRMService.syncData.mock.calls[0][3]).toEqual([
+        expect.objectContaining({ visitorId: 'visitor-0001', idempotencyKey: key('visitor-0001'), recordId: written.id }),
+        expect.objectContaining({ visitorId: 'visitor-0002', idempotencyKey: key('visitor-0002'), recordId: null })
+      ]);
+      expect(mockSyncKeyRepository.save).toHaveBeenCalledTimes(1);
+      expect(mockSyncKeyRepository.save).toHaveBeenCalledWith(key('visitor-0002'), mockIntegrationId, 'visitor-0002', created);
+    });
+  });
+
+  describe('inbound CRM sync', () => {
+    const granted = {
+      [CONSENT_PURPOSE.CRM_SYNC]: { granted: true, source: CONSENT_SOURCE.IDENTIFY_FORM, recordedAt: new Date() }
+    };
+    const relationship = {
+      owner: 'Marcus Lee',
+      lifecycleStage: 'Customer - Direct',
+      openOpportunity: { id: '0065e00000RtYuIAAV', name: 'Globex - Platform Expansion', amount: 48000 },
+      dealStage: 'Negotiation/Review'
+    };
+    const linkedAccount = (state: Record<string, unknown> = {}) => ({
+      type: CRM_TYPES.SALESFORCE,
+      object: CRM_OBJECT.ACCOUNT,
+      recordId: '0015e00000GlBxQAAV',
+      owner: null,
+      lifecycleStage: null,
+      openOpportunity: null,
+      dealStage: null,
+      syncedAt: null,
+      ...state
+    });
+    const integrationWith = (inboundSync?: Record<string, unknown>) => ({
+      id: mockIntegrationId,
+      companyId: mockCompanyId,
+      type: CRM_TYPES.SALESFORCE,
+      credentials: {},
+      config: { fieldMappings: [], syncObject: CRM_OBJECT.ACCOUNT, inboundSync }
+    });
+
+    beforeEach(() => {
+      mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
+    });
+
+    it('should link pushed visitors to the CRM record written for them', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue(integrationWith());
+      mockVisitorRepository.findCrmSyncCandidates.mockResolvedValue([
+        { id: 'joe', email: 'joe@globex.com', status: VISITOR_STATUS.IDENTIFIED, consent: granted },
+        {
+          id: 'jane',
+          email: 'jane@globex.com',
+          status: VISITOR_STATUS.IDENTIFIED,
+          consent: granted,
+          crm: linkedAccount({ owner: 'Marcus Lee' })
+        }
+      ]);
+      mockCRMService.syncData.mockResolvedValue({
+        success: 2,
+        failed: 0,
+        errors: [],
+        details: {
+          joe: { id: '0015e00000GlBxQAAV', object: CRM_OBJECT.ACCOUNT, created: true },
+          jane: { id: '0015e00000GlBxQAAV', object: CRM_OBJECT.ACCOUNT, created: false }
+        }
+      });
+
+      await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(mockVisitorRepository.setCrmStates).toHaveBeenCalledWith([
+        { id: 'joe', crm: linkedAccount() }
+      ]);
+      expect(mockCRMService.pullData).not.toHaveBeenCalled();
+    });
+
+    it('should pull the relationship of linked visitors who consented to CRM sync', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue(integrationWith({ enabled: true }));
+      mockCRMService.syncData.mockResolvedValue({ success: 0, failed: 0, errors: [], details: {} });
+      mockVisitorRepository.findCrmLinked.mockResolvedValue([
+        { id: 'jane', status: VISITOR_STATUS.IDENTIFIED, consent: granted, crm: linkedAccount() },
+        { id: 'joe', status: VISITOR_STATUS.IDENTIFIED, consent: granted, crm: linkedAccount() },
+        {
+          id: 'withdrawn',
+          status: VISITOR_STATUS.IDENTIFIED,
+          consent: { [CONSENT_PURPOSE.CRM_SYNC]: { ...granted[CONSENT_PURPOSE.CRM_SYNC], granted: false } },
+          crm: linkedAccount({ recordId: '0015e00000HmCyRAAV' })
+        }
+      ]);
+      mockCRMService.pullData.mockResolvedValue({
+        relationships: { '0015e00000GlBxQAAV': relationship },
+        errors: {}
+      });
+
+      await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(mockVisitorRepository.findCrmLinked).toHaveBeenCalledWith(
+        mockCompanyId,
+        CRM_TYPES.SALESFORCE,
+        CRM_OBJECT.ACCOUNT
+      );
+      expect(mockCRMService.pullData).toHaveBeenCalledWith(
+        CRM_TYPES.SALESFORCE,
+        {},
+        CRM_OBJECT.ACCOUNT,
+        ['0015e00000GlBxQAAV']
+      );
+      expect(mockVisitorRepository.setCrmStates).toHaveBeenLastCalledWith([
+        { id: 'jane', crm: linkedAccount({ ...relationship, syncedAt: expect.any(Date) }) },
+        { id: 'joe', crm: linkedAccount({ ...relationship, syncedAt: expect.any(Date) }) }
+      ]);
+    });
+
+    it('should keep local values of fields the visitor wins unless they are empty', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue(integrationWith({
+        enabled: true,
+        conflictWinners: { owner: CRM_CONFLICT_WINNER.LOCAL, lifecycleStage: CRM_CONFLICT_WINNER.LOCAL }
+      }));
+      mockCRMService.syncData.mockResolvedValue({ success: 0, failed: 0, errors: [], details: {} });
+      mockVisitorRepository.findCrmLinked.mockResolvedValue([{
+        id: 'jane',
+        status: VISITOR_STATUS.IDENTIFIED,
+        consent: granted,
+        crm: linkedAccount({ owner: 'Dana Whitfield', dealStage: 'Prospecting' })
+      }]);
+      mockCRMService.pullData.mockResolvedValue({
+        relationships: { '0015e00000GlBxQAAV': relationship },
+        errors: {}
+      });
+
+      await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(mockVisitorRepository.setCrmStates).toHaveBeenLastCalledWith([{
+        id: 'jane',
+        crm: linkedAccount({ ...relationship, owner: 'Dana Whitfield', syncedAt: expect.any(Date) })
+      }]);
+    });
+
+    it('should complete the sync when pulling from the CRM fails', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue(integrationWith({ enabled: true }));
+      mockCRMService.syncData.mockResolvedValue({ success: 0, failed: 0, errors: [], details: {} });
+      mockVisitorRepository.findCrmLinked.mockResolvedValue([
+        { id: 'jane', status: VISITOR_STATUS.IDENTIFIED, consent: granted, crm: linkedAccount() }
+      ]);
+      mockCRMService.pullData.mockRejectedValue(new Error('pull operation failed for SALESFORCE: timeout'));
+
+      const run = await integrationService.syncIntegration(mockIntegrationId, mockCompanyId);
+
+      expect(run.status).toBe(SYNC_RUN_STATUS.SUCCESS);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Inbound CRM sync failed', expect.objectContaining({
+        error: 'pull operation failed for SALESFORCE: timeout'
+      }));
+      expect(mockIntegrationRepository.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSyncRuns', () => {
+    it('should return a page of the integration sync history', async () => {
+      const page = { items: [{ id: mockSyncId }], total: 11, page: 2, totalPages: 2 };
+      mockIntegrationRepository.findById.mockResolvedValue({ id: mockIntegrationId, companyId: mockCompanyId });
+      mockSyncLogRepository.findByIntegration.mockResolvedValue(page);
+
+      await expect(integrationService.getSyncRuns(mockIntegrationId, mockCompanyId, 2, 10))
+        .resolves.toEqual(page);
+
+      expect(mockSyncLogRepository.findByIntegration).toHaveBeenCalledWith(mockIntegrationId, 2, 10);
+    });
+
+    it('should not return the history of another company integration', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue(null);
+
+      await expect(integrationService.getSyncRuns(mockIntegrationId, mockCompanyId))
+        .rejects.toThrow('Integration not found');
+
+      expect(mockSyncLogRepository.findByIntegration).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('retryFailedRecords', () => {
+    const userId = uuidv4();
+    const failedRunId = uuidv4();
+    const mockIntegration = {
+      id: mockIntegrationId,
+      companyId: mockCompanyId,
+      type: CRM_TYPES.HUBSPOT,
+      credentials: {},
+      config: { fieldMappings: [], syncObject: CRM_OBJECT.LEAD }
+    };
+
+    it('should push the failed visitors again as the object of the failed run', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue(mockIntegration);
+      mockSyncLogRepository.findById.mockResolvedValue({
+        id: failedRunId,
+        syncObject: CRM_OBJECT.CONTACT,
+        errorDetails: {
+          records: [
+            { visitorId: 'jane', message: 'Property values were not valid', code: 400 },
+            { visitorId: 'other-company', message: 'Property values were not valid', code: 400 }
+          ]
+        }
+      });
+      const identified = { status: VISITOR_STATUS.IDENTIFIED, consent: null };
+      mockVisitorRepository.findByIds.mockResolvedValue([
+        { ...identified, id: 'jane', companyId: mockCompanyId, email: 'jane@acme.com' },
+        { ...identified, id: 'other-company', companyId: uuidv4(), email: 'joe@globex.com' }
+      ]);
+      mockCircuitBreaker.fire.mockImplementation(async (fn) => await fn());
+      mockCRMService.syncData.mockResolvedValue({ success: 1, failed: 0, errors: [], details: {} });
+
+      await integrationService.retryFailedRecords(mockIntegrationId, failedRunId, mockCompanyId, userId);
+
+      expect(mockSyncLogRepository.findById).toHaveBeenCalledWith(failedRunId, mockIntegrationId);
+      expect(mockVisitorRepository.findByIds).toHaveBeenCalledWith(['jane', 'other-company']);
+      expect(mockSyncLogRepository.start).toHaveBeenCalledWith(
+        mockIntegrationId,
+        { type: SYNC_TRIGGER.USER, userId, retryOf: failedRunId },
+        CRM_OBJECT.CONTACT,
+        SYNC_MODE.RETRY
+      );
+      expect(mockCRMService.syncData).toHaveBeenCalledWith(
+        CRM_TYPES.HUBSPOT,
+        mockIntegration.credentials,
+        CRM_OBJECT.CONTACT,
+        [expect.objectContaining({ visitorId: 'jane' })],
+        expect.any(Function)
+      );
+      expect(mockVisitorRepository.findCrmSyncCandidates).not.toHaveBeenCalled();
+      expect(mockIntegrationRepository.update).toHaveBeenCalledWith(
+        mockIntegrationId,
+        { status: INTEGRATION_STATUS.ACTIVE },
+        mockCompanyId
+      );
+    });
+
+    it('should reject runs without failed records', async () => {
+      mockIntegrationRepository.findById.mockResolvedValue(mockIntegration);
+      mockSyncLogRepository.findById.mockResolvedValue({ id: failedRunId, errorDetails: null });
+
+      await expect(integrationService.retryFailedRecords(mockIntegrationId, failedRunId, mockCompanyId, userId))
+        .rejects.toThrow('Sync run has no failed records');
+
+      expect(mockSyncLogRepository.start).not.toHaveBeenCalled();
     });
   });
 
@@ -278,7 +993,7 @@ describe('IntegrationService', () => {
 
       mockIntegrationRepository.findPendingSync.mockResolvedValue(mockPendingIntegrations);
       const syncIntegrationSpy = jest.spyOn(integrationService, 'syncIntegration')
-        .mockResolvedValue();
+        .mockResolvedValue({ id: mockSyncId, status: SYNC_RUN_STATUS.SUCCESS } as any);
 
       await integrationService.processPendingSync(mockCompanyId);
 
@@ -287,7 +1002,8 @@ describe('IntegrationService', () => {
       mockPendingIntegrations.forEach(integration => {
         expect(syncIntegrationSpy).toHaveBeenCalledWith(
           integration.id,
-          integration.companyId
+          integration.companyId,
+          { type: SYNC_TRIGGER.SCHEDULER }
         );
       });
     });
@@ -301,7 +1017,7 @@ describe('IntegrationService', () => {
       mockIntegrationRepository.findPendingSync.mockResolvedValue(mockPendingIntegrations);
       jest.spyOn(integrationService, 'syncIntegration')
         .mockRejectedValueOnce(new Error('Sync failed'))
-        .mockResolvedValueOnce();
+        .mockResolvedValueOnce({ id: mockSyncId, status: SYNC_RUN_STATUS.SUCCESS } as any);
 
       await integrationService.processPendingSync(mockCompanyId);
 
@@ -0,0 +1,140 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+import { ConfigService } from '@nestjs/config';
+
+import { IpResolutionService } from '../../../src/services/identity/ipResolution.service';
+import { VISITOR_STATUS, IP_RANGE_TYPE } from '../../../src/constants/visitor.constants';
+import { IIpRangeRecord, IVisitor } from '../../../src/interfaces/visitor.interface';
+
+describe('IpResolutionService', () => {
+    let ipResolutionService: IpResolutionService;
+    let configService: jest.Mocked<ConfigService>;
+
+    const dataset: IIpRangeRecord[] = [
+        {
+            cidr: '203.0.113.0/24',
+            organization: 'Acme Corp',
+            domain: 'acme.com',
+            type: IP_RANGE_TYPE.CORPORATE,
+            industry: 'Technology',
+            size: '500-1000'
+        },
+        {
+            cidr: '203.0.0.0/16',
+            organization: 'Acme Holdings',
+            domain: 'acme-holdings.com',
+            type: IP_RANGE_TYPE.CORPORATE
+        },
+        {
+            cidr: '198.51.100.0/24',
+            organization: 'Example Broadband',
+            domain: 'example-isp.net',
+            type: IP_RANGE_TYPE.ISP
+        }
+    ];
+
+    const generateVisitor = (ipAddress: string): IVisitor => ({
+        id: 'visitor-1',
+        companyId: 'company-1',
+        email: null,
+        name: null,
+        phone: null,
+        status: VISITOR_STATUS.ANONYMOUS,
+        metadata: {
+            ipAddress,
+            userAgent: 'Mozilla/5.0',
+            referrer: '',
+            currentPage: 'https://example.com/pricing',
+            previousPages: [],
+            customParams: {},
+            location: {
+                country: 'US',
+                city: 'Boston',
+                region: 'MA',
+                postalCode: '02110',
+                timezone: 'America/New_York'
+            },
+            deviceType: 'desktop',
+            browser: 'Chrome',
+            os: 'macOS'
+        },
+        enrichedData: null,
+        visits: 1,
+        totalTimeSpent: 0,
+        firstSeen: new Date(),
+        lastSeen: new Date(),
+        lastEnriched: null as any,
+        isActive: true,
+        tags: {}
+    });
+
+    beforeEach(() => {
+        configService = {
+            get: jest.fn()
+        } as any;
+
+        ipResolutionService = new IpResolutionService(configService);
+        ipResolutionService.loadDataset(dataset);
+    });
+
+    describe('loadDataset', () => {
+        test('should index valid ranges and skip invalid ones', () => {
+            const count = ipResolutionService.loadDataset([
+                ...dataset,
+                { cidr: 'not-a-range', organization: 'Broken', domain: '', type: IP_RANGE_TYPE.CORPORATE }
+            ]);
+
+            expect(count).toBe(3);
+            expect(ipResolutionService.size).toBe(3);
+        });
+    });
+
+    describe('lookup', () => {
+        test('should prefer the most specific matching range', () => {
+            const resolution = ipResolutionService.lookup('203.0.113.42');
+
+            expect(resolution?.organization).toBe('Acme Corp');
+            expect(resolution?.matchedRange).toBe('203.0.113.0/24');
+        });
+
+        test('should fall back to broader ranges', () => {
+            const resolution = ipResolutionService.lookup('203.0.7.1');
+
+            expect(resolution?.organization).toBe('Acme Holdings');
+            expect(resolution?.confidence).toBeLessThan(
+                ipResolutionService.lookup('203.0.113.42')!.confidence
+            );
+        });
+
+        test('should return null for unmatched or anonymized addresses', () => {
+            expect(ipResolutionService.lookup('192.0.2.1')).toBeNull();
+            expect(ipResolutionService.lookup('203.0.113.xxx')).toBeNull();
+        });
+    });
+
+    describe('resolveCompany', () => {
+        test('should build company-level enriched data for confident matches', () => {
+            const result = ipResolutionService.resolveCompany(generateVisitor('203.0.113.42'));
+
+            expect(result?.enrichedData.company).toBe('Acme Corp');
+            expect(result?.enrichedData.industry).toBe('Technology');
+            expect(result?.enrichedData.website).toBe('https://acme.com');
+            expect(result?.enrichedData.title).toBe('');
+            expect(result?.resolution.confidence).toBeGreaterThanOrEqual(0.6);
+        });
+
+        test('should reject low-confidence ISP matches', () => {
+            const result = ipResolutionService.resolveCompany(generateVisitor('198.51.100.7'));
+
+            expect(result).toBeNull();
+        });
+
+        test('should use the supplied IP over stored metadata', () => {
+            const result = ipResolutionService.resolveCompany(
+                generateVisitor('192.0.2.1'),
+                '203.0.113.42'
+            );
+
+            expect(result?.resolution.organization).toBe('Acme Corp');
+        });
+    });
+});
@@ -0,0 +1,275 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { LeadScoringService } from '../../../src/services/scoring/leadScoring.service';
+import { VisitorRepository } from '../../../src/db/repositories/visitor.repository';
+import { CompanyRepository } from '../../../src/db/repositories/company.repository';
+import { ScoreHistoryRepository } from '../../../src/db/repositories/scoreHistory.repository';
+import {
+    VISITOR_STATUS,
+    VISITOR_ACTIVITY_TYPE,
+    VISITOR_UPDATES_CHANNEL
+} from '../../../src/constants/visitor.constants';
+import { SCORING_RULE_TYPE } from '../../../src/constants/scoring.constants';
+import { ILeadScoringSettings, IScoreHistoryEntry, IScoringInput } from '../../../src/interfaces/scoring.interface';
+import { IVisitor } from '../../../src/interfaces/visitor.interface';
+
+describe('LeadScoringService', () => {
+    let service: LeadScoringService;
+    let visitorRepository: jest.Mocked<VisitorRepository>;
+    let companyRepository: jest.Mocked<CompanyRepository>;
+    let scoreHistoryRepository: jest.Mocked<ScoreHistoryRepository>;
+    let redis: { publish: jest.Mock };
+    let visitors: Map<string, IVisitor>;
+    let history: IScoreHistoryEntry[];
+    let activityCounts: Partial<Record<VISITOR_ACTIVITY_TYPE, number>>;
+    let leadScoring: ILeadScoringSettings | undefined;
+
+    const generateVisitor = (overrides: Partial<IVisitor> = {}): IVisitor => ({
+        id: 'visitor-1',
+        companyId: 'company-1',
+        email: 'jane@acme.com',
+        name: null,
+        phone: null,
+        status: VISITOR_STATUS.IDENTIFIED,
+        metadata: { currentPage: '/pricing', previousPages: ['/', '/features'] } as any,
+        enrichedData: { industry: 'Software', size: '51-200' } as any,
+        mergedInto: null,
+        score: 0,
+        visits: 1,
+        totalTimeSpent: 0,
+        firstSeen: new Date(),
+        lastSeen: new Date(),
+        lastEnriched: null,
+        isActive: true,
+        tags: {},
+        ...overrides
+    } as IVisitor);
+
+    const emptyInput = (overrides: Partial<IScoringInput> = {}): IScoringInput => ({
+        activityCounts: {},
+        customEventCounts: {},
+        goalCounts: {},
+        pages: [],
+        totalTimeSpent: 0,
+        firmographics: {},
+        ...overrides
+    });
+
+    beforeEach(() => {
+        visitors = new Map();
+        history = [];
+        activityCounts = {};
+        leadScoring = undefined;
+
+        visitorRepository = {
+            findById: jest.fn(async (id: string) => visitors.get(id) || null),
+            patch: jest.fn(async (id: string, data: Partial<IVisitor>) => {
+                const updated = { ...visitors.get(id)!, ...data };
+                visitors.set(id, updated);
+                return updated;
+            })
+        } as any;
+
+        companyRepository = {
+            findById: jest.fn(async () => ({ id: 'company-1', settings: { leadScoring } }))
+        } as any;
+
+        scoreHistoryRepository = {
+            countActivitiesByType: jest.fn(async () => activityCounts),
+            create: jest.fn(async (entry: IScoreHistoryEntry) => {
+                history.push(entry);
+                return entry;
+            }),
+            findByVisitor: jest.fn(async () => history)
+        } as any;
+
+        redis = { publish: jest.fn(async () => 1) };
+
+        service = new LeadScoringService(
+            visitorRepository,
+            companyRepository,
+            scoreHistoryRepository,
+            redis as any
+        );
+    });
+
+    describe('computeScore', () => {
+        test('should cap per-occurrence rules at their max points', () => {
+            const result = service.computeScore(
+                emptyInput({ activityCounts: { [VISITOR_ACTIVITY_TYPE.PAGE_VIEW]: 50 } }),
+                [{
+                    id: 'views',
+                    name: 'Views',
+                    type: SCORING_RULE_TYPE.ACTIVITY_COUNT,
+                    activityType: VISITOR_ACTIVITY_TYPE.PAGE_VIEW,
+                    points: 2,
+                    maxPoints: 20
+                }]
+            );
+
+            expect(result.score).toBe(20);
+            expect(result.breakdown).toEqual([{ ruleId: 'views', points: 20 }]);
+        });
+
+        test('should match firmographic values case-insensitively', () => {
+            const result = service.computeScore(
+                emptyInput({ firmographics: { industry: 'software' } }),
+                [{
+                    id: 'saas',
+                    name: 'SaaS',
+                    type: SCORING_RULE_TYPE.FIRMOGRAPHIC,
+                    field: 'industry',
+                    values: ['Software', 'Internet'],
+                    points: 25
+                }]
+            );
+
+            expect(result.score).toBe(25);
+        });
+
+        test('should clamp the score to the 0-100 range', () => {
+            const input = emptyInput({ pages: ['/careers'], totalTimeSpent: 600 });
+
+            const low = service.computeScore(input, [{
+                id: 'job-seeker',
+                name: 'Job seeker',
+                type: SCORING_RULE_TYPE.PAGE_VISIT,
+                pagePattern: '/careers',
+                points: -40
+            }]);
+            const high = service.computeScore(input, [
+                { id: 'a', name: 'A', type: SCORING_RULE_TYPE.TIME_SPENT, threshold: 300, points: 80 },
+                { id: 'b', name: 'B', type: SCORING_RULE_TYPE.TIME_SPENT, threshold: 60, points: 80 }
+            ]);
+
+            expect(low.score).toBe(0);
+            expect(high.score).toBe(100);
+        });
+    });
+
+    describe('rescoreVisitor', () => {
+        test('should store, record and publish a changed score', async () => {
+            visitors.set('visitor-1', generateVisitor({ totalTimeSpent: 400 }));
+            activityCounts = { [VISITOR_ACTIVITY_TYPE.FORM_SUBMIT]: 1 };
+
+            const result = await service.rescoreVisitor('visitor-1');
+
+            // Default rules: form submit 15, pricing page 10, engaged time 10
+            expect(result?.score).toBe(35);
+            expect(visitorRepository.patch).toHaveBeenCalledWith('visitor-1', expect.objectContaining({
+                score: 35,
+                scoreUpdatedAt: expect.any(Date)
+            }));
+            expect(history).toHaveLength(1);
+            expect(history[0]).toEqual(expect.objectContaining({ score: 35, previousScore: 0 }));
+            expect(redis.publish).toHaveBeenCalledWith(VISITOR_UPDATES_CHANNEL, expect.any(String));
+            expect(JSON.parse(redis.publish.mock.calls[0][1] as string)).toEqual(expect.objectContaining({
+                type: 'score_update',
+                visitorId: 'visitor-1',
+                score: 35,
+                previousScore: 0
+            }));
+        });
+
+        test('should not record history when the score is unchanged', async () => {
+            visitors.set('visitor-1', generateVisitor({ score: 10 }));
+
+            await service.rescoreVisitor('visitor-1');
+
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+            expect(scoreHistoryRepository.create).not.toHaveBeenCalled();
+            expect(redis.publish).not.toHaveBeenCalled();
+        });
+
+        test('should apply company-defined rules instead of the defaults', async () => {
+            visitors.set('visitor-1', generateVisitor());
+            leadScoring = {
+                enabled: true,
+                rules: [{
+                    id: 'mid-market',
+                    name: 'Mid-market',
+                    type: SCORING_RULE_TYPE.FIRMOGRAPHIC,
+                    field: 'size',
+                    values: ['51-200'],
+                    points: 40
+                }]
+            };
+
+            const result = await service.rescoreVisitor('visitor-1');
+
+            expect(result?.score).toBe(40);
+            expect(history[0].breakdown).toEqual([{ ruleId: 'mid-market', points: 40 }]);
+        });
+
+        test('should score custom events from the visitor event summary', async () => {
+            visitors.set('visitor-1', generateVisitor({
+                customEvents: {
+                    demo_booked: {
+                        count: 2,
+                        firstOccurredAt: new Date(),
+                        lastOccurredAt: new Date(),
+                        lastProperties: { plan: 'pro' }
+                    }
+                }
+            }));
+            leadScoring = {
+                enabled: true,
+                rules: [{
+                    id: 'demos',
+                    name: 'Demos booked',
+                    type: SCORING_RULE_TYPE.CUSTOM_EVENT,
+                    eventName: 'demo_booked',
+                    points: 30,
+                    maxPoints: 50
+                }]
+            };
+
+            const result = await service.rescoreVisitor('visitor-1');
+
+            expect(result?.score).toBe(50);
+            expect(history[0].breakdown).toEqual([{ ruleId: 'demos', points: 50 }]);
+        });
+
+        test('should score goal completions from the visitor goal summary', async () => {
+            visitors.set('visitor-1', generateVisitor({
+                goals: {
+                    trial_signup: { count: 1, firstCompletedAt: new Date(), lastCompletedAt: new Date() }
+                }
+            }));
+            leadScoring = {
+                enabled: true,
+                rules: [{
+                    id: 'trials',
+                    name: 'Trial signups',
+                    type: SCORING_RULE_TYPE.GOAL,
+                    goalId: 'trial_signup',
+                    points: 35
+                }]
+            };
+
+            const result = await service.rescoreVisitor('visitor-1');
+
+            expect(result?.score).toBe(35);
+            expect(history[0].breakdown).toEqual([{ ruleId: 'trials', points: 35 }]);
+        });
+
+        test('should skip companies with scoring disabled', async () => {
+            visitors.set('visitor-1', generateVisitor());
+            leadScoring = { enabled: false, rules: [] };
+
+            await service.rescoreVisitor('visitor-1');
+
+            expect(scoreHistoryRepository.countActivitiesByType).not.toHaveBeenCalled();
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+        });
+
+        test('should skip visitors merged into another record', async () => {
+            visitors.set('visitor-1', generateVisitor({ mergedInto: 'canonical' }));
+
+            const result = await service.rescoreVisitor('visitor-1');
+
+            expect(result).toBeNull();
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,248 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { SessionService } from '../../../src/services/tracking/session.service';
+import SessionModel from '../../../src/db/models/session.model';
+import ActivityModel from '../../../src/db/models/activity.model';
+import VisitorModel from '../../../src/db/models/visitor.model';
+import { VISITOR_ACTIVITY_TYPE, SESSION_INACTIVITY_TIMEOUT_MS } from '../../../src/constants/visitor.constants';
+import { ISessionActivity } from '../../../src/interfaces/session.interface';
+
+jest.mock('../../../src/db/models/session.model', () => ({
+    __esModule: true,
+    default: {
+        findOne: jest.fn(),
+        findOneAndUpdate: jest.fn(),
+        find: jest.fn(),
+        create: jest.fn(),
+        deleteMany: jest.fn(),
+        insertMany: jest.fn(),
+        bulkWrite: jest.fn(),
+        startSession: jest.fn()
+    }
+}));
+
+jest.mock('../../../src/db/models/activity.model', () => ({
+    __esModule: true,
+    default: { find: jest.fn() }
+}));
+
+jest.mock('../../../src/db/models/visitor.model', () => ({
+    __esModule: true,
+    default: { exists: jest.fn(async () => ({ _id: 'visitor-1' })) }
+}));
+
+/**
+ * Builds a mongoose query chain resolving to a result
+ */
+const query = (result: unknown) => {
+    const chain: any = {
+        sort: jest.fn(() => chain),
+        limit: jest.fn(() => chain),
+        session: jest.fn(() => chain),
+        lean: jest.fn(async () => result)
+    };
+    return chain;
+};
+
+describe('SessionService', () => {
+    const visitorId = 'visitor-1';
+    const start = new Date('2026-10-18T09:00:00.000Z');
+    let service: SessionService;
+    let sessionModel: Record<string, jest.Mock>;
+    let activityModel: Record<string, jest.Mock>;
+    let transaction: Record<string, jest.Mock>;
+
+    const generateActivity = (
+        minutesAfterStart: number,
+        overrides: Partial<ISessionActivity> = {}
+    ): ISessionActivity => ({
+        id: `activity-${minutesAfterStart}`,
+        visitorId,
+        type: VISITOR_ACTIVITY_TYPE.PAGE_VIEW,
+        timestamp: new Date(start.getTime() + minutesAfterStart * 60000),
+        data: { url: `https://acme.com/page-${minutesAfterStart}`, metadata: {} },
+        ...overrides
+    });
+
+    beforeEach(() => {
+        sessionModel = SessionModel as unknown as Record<string, jest.Mock>;
+        activityModel = ActivityModel as unknown as Record<string, jest.Mock>;
+        Object.values(sessionModel).forEach(mock => mock.mockReset());
+        activityModel.find.mockReset();
+
+        transaction = {
+            withTransaction: jest.fn(async (callback: () => Promise<void>) => callback()),
+            endSession: jest.fn(async () => undefined)
+        };
+        sessionModel.startSession.mockResolvedValue(transaction as never);
+
+        const logger: any = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        logger.child = jest.fn(() => logger);
+
+        service = new SessionService(logger);
+    });
+
+    describe('groupActivities', () => {
+        test('splits sessions after the inactivity timeout', () => {
+            const timeoutMinutes = SESSION_INACTIVITY_TIMEOUT_MS / 60000;
+            const sessions = service.groupActivities([
+                generateActivity(0, {
+                    data: {
+                        url: 'https://acme.com/?utm_source=newsletter',
+                        metadata: { referrer: 'https://news.example.com/' }
+                    }
+                }),
+                generateActivity(5, { type: VISITOR_ACTIVITY_TYPE.FORM_SUBMIT, data: { formId: 'demo', metadata: {} } }),
+                generateActivity(10),
+                generateActivity(10 + timeoutMinutes + 1)
+            ]);
+
+            expect(sessions).toHaveLength(2);
+            expect(sessions[0]).toMatchObject({
+                visitorId,
+                startedAt: start,
+                durationSeconds: 600,
+                landingPage: 'https://acme.com/?utm_source=newsletter',
+                exitPage: 'https://acme.com/page-10',
+                pageCount: 2,
+                activityCount: 3,
+                referrer: 'https://news.example.com/',
+                utmSource: 'newsletter'
+            });
+            expect(sessions[1]).toMatchObject({
+                durationSeconds: 0,
+                pageCount: 1,
+                activityCount: 1,
+                referrer: null,
+                utmSource: null
+            });
+        });
+    });
+
+    describe('recordActivity', () => {
+        test('starts a session for the first activity', async () => {
+            sessionModel.findOne.mockReturnValue(query(null));
+
+            const session = await service.recordActivity(generateActivity(0));
+
+            expect(session).toMatchObject({ startedAt: start, pageCount: 1, landingPage: 'https://acme.com/page-0' });
+            expect(sessionModel.create).toHaveBeenCalledWith(expect.objectContaining({
+                id: session.id,
+                expiresAt: expect.any(Date)
+            }));
+        });
+
+        test('extends the open session within the inactivity timeout', async () => {
+            const open = service.groupActivities([generateActivity(0)])[0];
+            sessionModel.findOne.mockReturnValue(query(open));
+            sessionModel.findOneAndUpdate.mockReturnValue(query({ ...open, pageCount: 2 }));
+
+            await service.recordActivity(generateActivity(20));
+
+            expect(sessionModel.create).not.toHaveBeenCalled();
+            expect(sessionModel.findOneAndUpdate).toHaveBeenCalledWith(
+                { id: open.id },
+                expect.objectContaining({
+                    $inc: { activityCount: 1, pageCount: 1 },
+                    $max: expect.objectContaining({ durationSeconds: 1200 }),
+                    $set: { exitPage: 'https://acme.com/page-20' }
+                }),
+                expect.anything()
+            );
+        });
+
+        test('starts a new session after the inactivity timeout', async () => {
+            const open = service.groupActivities([generateActivity(0)])[0];
+            sessionModel.findOne.mockReturnValue(query(open));
+
+            const session = await service.recordActivity(generateActivity(SESSION_INACTIVITY_TIMEOUT_MS / 60000 + 1));
+
+            expect(session.id).not.toBe(open.id);
+            expect(sessionModel.create).toHaveBeenCalled();
+            expect(sessionModel.findOneAndUpdate).not.toHaveBeenCalled();
+        });
+
+        test('regroups the sessions around an activity older than the latest session', async () => {
+            const late = generateActivity(10);
+            const [first, latest] = service.groupActivities([generateActivity(0), generateActivity(60)]);
+            sessionModel.findOne.mockReturnValue(query(latest));
+            sessionModel.find.mockReturnValue(query([first]));
+            activityModel.find.mockReturnValue(query([generateActivity(0), late]));
+
+            const session = await service.recordActivity(late);
+
+            expect(session).toMatchObject({
+                id: first.id,
+                startedAt: first.startedAt,
+                endedAt: late.timestamp,
+                activityCount: 2
+            });
+            expect(activityModel.find).toHaveBeenCalledWith(
+                { visitorId, timestamp: { $gte: first.startedAt, $lte: late.timestamp } },
+                expect.anything()
+            );
+            expect(sessionModel.bulkWrite).toHaveBeenCalledWith([
+                { replaceOne: { filter: { id: first.id }, replacement: expect.objectContaining({ activityCount: 2 }), upsert: true } }
+            ], { session: transaction });
+            expect(sessionModel.deleteMany).not.toHaveBeenCalled();
+            expect(transaction.withTransaction).toHaveBeenCalled();
+            expect(transaction.endSession).toHaveBeenCalled();
+            expect(sessionModel.findOneAndUpdate).not.toHaveBeenCalled();
+            expect(sessionModel.create).not.toHaveBeenCalled();
+        });
+
+        test('joins the sessions a late activity bridges under the earlier session ID', async () => {
+            const late = generateActivity(20);
+            const [first, second] = service.groupActivities([generateActivity(0), generateActivity(40)]);
+            sessionModel.findOne.mockReturnValue(query(second));
+            sessionModel.find.mockReturnValue(query([first, second]));
+            activityModel.find.mockReturnValue(query([generateActivity(0), late, generateActivity(40)]));
+
+            const session = await service.recordActivity(late);
+
+            expect(session).toMatchObject({ id: first.id, endedAt: second.endedAt, activityCount: 3 });
+            expect(sessionModel.deleteMany).toHaveBeenCalledWith({ id: { $in: [second.id] } }, { session: transaction });
+            expect(sessionModel.bulkWrite).toHaveBeenCalledWith([
+                expect.objectContaining({ replaceOne: expect.objectContaining({ filter: { id: first.id } }) })
+            ], { session: transaction });
+        });
+    });
+
+    describe('getVisitorSessions', () => {
+        test('returns sessions most recent first with their activities and a cursor', async () => {
+            const activities = [generateActivity(0), generateActivity(5), generateActivity(120)];
+            const [first, second] = service.groupActivities(activities);
+            sessionModel.find.mockReturnValue(query([second, first]));
+            activityModel.find.mockReturnValue(query(activities));
+
+            const result = await service.getVisitorSessions('company-1', visitorId, { limit: 2 });
+
+            expect(result.sessions.map(session => session.id)).toEqual([second.id, first.id]);
+            expect(result.sessions[0].activities.map(activity => activity.id)).toEqual(['activity-120']);
+            expect(result.sessions[1].activities.map(activity => activity.id)).toEqual(['activity-0', 'activity-5']);
+            expect(Buffer.from(result.nextCursor as string, 'base64').toString()).toBe(start.toISOString());
+            expect(VisitorModel.exists).toHaveBeenCalledWith({ id: visitorId, companyId: 'company-1' });
+        });
+
+        test('rejects visitors of another company', async () => {
+            (VisitorModel.exists as jest.Mock).mockResolvedValueOnce(null as never);
+
+            await expect(service.getVisitorSessions('company-2', visitorId)).rejects.toThrow('Visitor not found');
+            expect(sessionModel.find).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('rebuildVisitorSessions', () => {
+        test('replaces the stored sessions with sessions regrouped from the activities', async () => {
+            activityModel.find.mockReturnValue(query([generateActivity(0), generateActivity(90)]));
+
+            const sessions = await service.rebuildVisitorSessions(visitorId);
+
+            expect(sessions).toHaveLength(2);
+            expect(sessionModel.deleteMany).toHaveBeenCalledWith({ visitorId });
+            expect(sessionModel.insertMany).toHaveBeenCalledWith(
+                sessions.map(session => expect.objectContaining({ id: session.id, expiresAt: expect.any(Date) }))
+            );
+        });
+    });
+});
@@ -0,0 +1,91 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { SignedIdentityService } from '../../../src/services/identity/signedIdentity.service';
+import { CompanyRepository } from '../../../src/db/repositories/company.repository';
+import { SIGNED_IDENTITY_MAX_AGE_SECONDS } from '../../../src/constants/visitor.constants';
+import { ISignedIdentityPayload } from '../../../src/interfaces/visitor.interface';
+
+describe('SignedIdentityService', () => {
+    const secret = 'a'.repeat(64);
+    const visitorId = 'visitor-1';
+    let service: SignedIdentityService;
+    let companyRepository: jest.Mocked<CompanyRepository>;
+
+    const generatePayload = (overrides: Partial<ISignedIdentityPayload> = {}): ISignedIdentityPayload => ({
+        visitorId,
+        userId: 'user-42',
+        email: 'jane@acme.com',
+        name: 'Jane Doe',
+        traits: { plan: 'enterprise' },
+        gdprConsent: true,
+        iat: Math.floor(Date.now() / 1000),
+        ...overrides
+    });
+
+    beforeEach(() => {
+        companyRepository = {
+            getIdentitySecret: jest.fn(async () => secret)
+        } as any;
+
+        service = new SignedIdentityService(companyRepository);
+    });
+
+    test('verifies tokens signed with the company secret', async () => {
+        const payload = generatePayload();
+
+        const result = await service.verifyToken('company-1', visitorId, service.signPayload(payload, secret));
+
+        expect(result).toEqual(payload);
+        expect(companyRepository.getIdentitySecret).toHaveBeenCalledWith('company-1');
+    });
+
+    test('rejects tokens signed with another secret', async () => {
+        const token = service.signPayload(generatePayload(), 'b'.repeat(64));
+
+        await expect(service.verifyToken('company-1', visitorId, token))
+            .rejects.toThrow('Invalid signed identity token signature');
+    });
+
+    test('rejects tampered payloads', async () => {
+        const [, signature] = service.signPayload(generatePayload(), secret).split('.');
+        const forged = Buffer.from(JSON.stringify(generatePayload({ email: 'ceo@acme.com' }))).toString('base64url');
+
+        await expect(service.verifyToken('company-1', visitorId, `${forged}.${signature}`))
+            .rejects.toThrow('Invalid signed identity token signature');
+    });
+
+    test('rejects expired tokens', async () => {
+        const iat = Math.floor(Date.now() / 1000) - SIGNED_IDENTITY_MAX_AGE_SECONDS - 1;
+        const token = service.signPayload(generatePayload({ iat }), secret);
+
+        await expect(service.verifyToken('company-1', visitorId, token))
+            .rejects.toThrow('Signed identity token expired');
+    });
+
+    test('rejects payloads without a user ID', async () => {
+        const token = service.signPayload(generatePayload({ userId: '' }), secret);
+
+        await expect(service.verifyToken('company-1', visitorId, token))
+            .rejects.toThrow('Signed identity token must contain a userId');
+    });
+
+    test('rejects tokens issued for another visitor', async () => {
+        const token = service.signPayload(generatePayload({ visitorId: 'visitor-2' }), secret);
+
+        await expect(service.verifyToken('company-1', visitorId, token))
+            .rejects.toThrow('Signed identity token was issued for another visitor');
+    });
+
+    test('rejects tokens when the company has no identity secret', async () => {
+        companyRepository.getIdentitySecret.mockResolvedValue(null);
+
+        await expect(service.verifyToken('company-1', visitorId, service.signPayload(generatePayload(), secret)))
+            .rejects.toThrow('Signed identification is not enabled for this company');
+    });
+
+    test('rejects malformed tokens', async () => {
+        await expect(service.verifyToken('company-1', visitorId, 'not-a-token'))
+            .rejects.toThrow('Malformed signed identity token');
+        expect(companyRepository.getIdentitySecret).not.toHaveBeenCalled();
+    });
+});
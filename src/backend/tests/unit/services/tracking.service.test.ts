@@ -0,0 +1,328 @@
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals'; // v29.x
+
+import { TrackingService } from '../../../src/services/tracking/tracking.service';
+import { FormCaptureService } from '../../../src/services/tracking/formCapture.service';
+import { VISITOR_STATUS, VISITOR_ACTIVITY_TYPE } from '../../../src/constants/visitor.constants';
+import { CONSENT_PURPOSE, CONSENT_SOURCE } from '../../../src/constants/consent.constants';
+import { ITrackingBatch } from '../../../src/interfaces/tracking.interface';
+
+jest.mock('winston', () => {
+    const Logger: any = jest.fn(() => ({
+        info: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+        error: jest.fn()
+    }));
+    Logger.format = { combine: jest.fn(), timestamp: jest.fn(), json: jest.fn() };
+    return { Logger };
+});
+
+jest.mock('../../../src/utils/logger.util', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), debug: jest.fn(), error: jest.fn() },
+    logRequest: jest.fn(),
+    logResponse: jest.fn(),
+    logError: jest.fn()
+}));
+
+describe('TrackingService', () => {
+    let service: TrackingService;
+    let activityService: any;
+    let identityService: any;
+    let visitorRepository: any;
+    let companyRepository: any;
+    let customEventService: any;
+    let trafficQualityService: any;
+    let consentService: any;
+    let visitorTrackingSettings: Record<string, unknown>;
+    let formCapture: Record<string, unknown>;
+
+    const visitorId = '6f1c9d0e-3b1a-4c2e-9f4d-2a7b8c9d0e1f';
+
+    const generateBatch = (paths: string[]): ITrackingBatch => ({
+        visitorId,
+        metadata: { userAgent: 'jsdom', referrer: '', currentPage: paths[0] },
+        events: paths.map(path => ({
+            type: VISITOR_ACTIVITY_TYPE.PAGE_VIEW,
+            url: `https://acme.com${path}`,
+            path,
+            occurredAt: '2026-10-18T09:00:00.000Z'
+        }))
+    });
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        visitorTrackingSettings = { enabled: true, excludedPaths: ['/admin', '/internal/*'] };
+        formCapture = {
+            enabled: true,
+            sensitiveFields: ['budget'],
+            forms: [{
+                formId: 'demo',
+                fields: { email: 'work_email', name: 'full_name', company: 'budget' },
+                consentField: 'agree'
+            }]
+        };
+
+        activityService = { trackActivity: jest.fn(async () => ({ id: 'activity-1' })) };
+        identityService = {
+            resolveVisitorCompany: jest.fn(async (id: string) => ({ id, companyId: 'company-1', status: VISITOR_STATUS.ANONYMOUS })),
+            identifyVisitor: jest.fn(async (id: string) => ({ id, status: VISITOR_STATUS.IDENTIFIED })),
+            identifySignedVisitor: jest.fn(async (id: string) => ({ id, status: VISITOR_STATUS.IDENTIFIED }))
+        };
+        visitorRepository = {
+            findById: jest.fn(async () => null),
+            create: jest.fn(async (data: any) => ({ ...data, status: VISITOR_STATUS.ANONYMOUS }))
+        };
+        companyRepository = {
+            findById: jest.fn(async () => ({
+                id: 'company-1',
+                isActive: true,
+                settings: { visitorTrackingSettings, formCapture }
+            }))
+        };
+
+        customEventService = {
+            validateEvent: jest.fn(async (companyId: string, eventName: string, properties: any) => {
+                if (eventName !== 'demo_booked') {
+                    throw new Error(`Invalid custom event ${eventName}`);
+                }
+                return { eventName, properties, piiProperties: [] };
+            })
+        };
+
+        trafficQualityService = {
+            classifyVisitor: jest.fn(async (visitor: any) => visitor)
+        };
+
+        consentService = {
+            hasConsent: jest.fn(() => false),
+            recordConsent: jest.fn(async (visitor: any, update: any) => ({
+                ...visitor,
+                consent: { [CONSENT_PURPOSE.ANALYTICS]: { granted: true, source: update.source } }
+            }))
+        };
+
+        service = new TrackingService(
+            activityService,
+            identityService,
+            visitorRepository,
+            companyRepository,
+            customEventService,
+            trafficQualityService,
+            consentService,
+            new FormCaptureService(companyRepository),
+            { cleanupInterval: 300000 }
+        );
+    });
+
+    afterEach(() => {
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    test('serves the tracking configuration of a company', async () => {
+        await expect(service.getTrackingConfig('company-1')).resolves.toEqual({
+            enabled: true,
+            excludedPaths: ['/admin', '/internal/*'],
+            forms: [{ formId: 'demo', fields: ['work_email', 'full_name', 'agree'] }]
+        });
+    });
+
+    test('creates the visitor on first contact and drops events on excluded paths', async () => {
+        const result = await service.trackEvents(
+            'company-1',
+            generateBatch(['/pricing', '/admin/users', '/internal-docs', '/internal/reports']),
+            '203.0.113.7'
+        );
+
+        expect(result).toEqual({ visitorId, accepted: 2, excluded: 2, rejected: 0 });
+        expect(visitorRepository.create).toHaveBeenCalledWith(
+            expect.objectContaining({ id: visitorId, companyId: 'company-1' }),
+            { gdprConsent: false }
+        );
+        expect(activityService.trackActivity).toHaveBeenCalledTimes(2);
+        expect(activityService.trackActivity).toHaveBeenCalledWith(visitorId, expect.objectContaining({
+            type: VISITOR_ACTIVITY_TYPE.PAGE_VIEW,
+            data: expect.objectContaining({ url: 'https://acme.com/pricing' })
+        }));
+        expect(identityService.resolveVisitorCompany).toHaveBeenCalledWith(visitorId, '203.0.113.7');
+    });
+
+    test('drops events on subpaths of excluded path patterns', async () => {
+        visitorTrackingSettings.excludedPaths = ['/internal/*', '/docs/**/draft-*'];
+
+        const result = await service.trackEvents(
+            'company-1',
+            generateBatch(['/internal', '/Internal/reports/2024', '/docs/guides/draft-tracking/', '/docs/guides']),
+            '203.0.113.7'
+        );
+
+        expect(result).toEqual({ visitorId, accepted: 2, excluded: 2, rejected: 0 });
+    });
+
+    test('does not store IP addresses when the company does not capture them', async () => {
+        visitorTrackingSettings.captureIPAddress = false;
+
+        await service.trackEvents('company-1', generateBatch(['/pricing']), '203.0.113.7');
+
+        expect(visitorRepository.create.mock.calls[0][0].metadata.ipAddress).toBe('');
+    });
+
+    test('records nothing when tracking is disabled', async () => {
+        visitorTrackingSettings.enabled = false;
+
+        const result = await service.trackEvents('company-1', generateBatch(['/pricing']), '203.0.113.7');
+
+        expect(result).toEqual({ visitorId, accepted: 0, excluded: 1, rejected: 0 });
+        expect(visitorRepository.create).not.toHaveBeenCalled();
+    });
+
+    test('records validated custom events and drops those not matching a registered schema', async () => {
+        const batch = generateBatch(['/demo', '/demo']);
+        batch.events = batch.events.map((event, index) => ({
+            ...event,
+            type: VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT,
+            data: { eventName: index === 0 ? 'demo_booked' : 'unregistered', properties: { plan: 'pro' } }
+        }));
+
+        const result = await service.trackEvents('company-1', batch, '203.0.113.7');
+
+        expect(result).toEqual({ visitorId, accepted: 1, excluded: 0, rejected: 1 });
+        expect(customEventService.validateEvent).toHaveBeenCalledWith('company-1', 'demo_booked', { plan: 'pro' });
+        expect(activityService.trackActivity).toHaveBeenCalledTimes(1);
+        expect(activityService.trackActivity).toHaveBeenCalledWith(visitorId, expect.objectContaining({
+            type: VISITOR_ACTIVITY_TYPE.CUSTOM_EVENT,
+            data: expect.objectContaining({
+                eventName: 'demo_booked',
+                properties: { plan: 'pro' },
+                metadata: expect.not.objectContaining({ properties: expect.anything() })
+            })
+        }));
+    });
+
+    test('classifies the traffic of a batch and skips company resolution for bots', async () => {
+        trafficQualityService.classifyVisitor.mockImplementation(async (visitor: any) => ({
+            ...visitor,
+            trafficQuality: { isBot: true, signals: [], classifiedAt: new Date() }
+        }));
+        const batch = generateBatch(['/pricing']);
+        batch.metadata.webdriver = true;
+
+        const result = await service.trackEvents('company-1', batch, '203.0.113.7');
+
+        expect(result.accepted).toBe(1);
+        expect(trafficQualityService.classifyVisitor).toHaveBeenCalledWith(
+            expect.objectContaining({ id: visitorId }),
+            { userAgent: 'jsdom', ipAddress: '203.0.113.7', webdriver: true }
+        );
+        expect(identityService.resolveVisitorCompany).not.toHaveBeenCalled();
+    });
+
+    test('identifies company-resolved visitors from a known email', async () => {
+        visitorRepository.findById.mockResolvedValue({ id: visitorId, companyId: 'company-1', status: VISITOR_STATUS.COMPANY_RESOLVED });
+        consentService.hasConsent.mockReturnValue(true);
+
+        await service.trackVisitor(visitorId, { ...generateBatch(['/pricing']).metadata, email: 'jane@acme.com' } as any);
+
+        expect(identityService.identifyVisitor).toHaveBeenCalledWith(visitorId, { email: 'jane@acme.com', gdprConsent: true });
+        expect(identityService.resolveVisitorCompany).not.toHaveBeenCalled();
+    });
+
+    test('keeps only mapped form fields and identifies visitors who consent on the form', async () => {
+        const batch = generateBatch(['/demo']);
+        batch.events[0] = {
+            ...batch.events[0],
+            type: VISITOR_ACTIVITY_TYPE.FORM_SUBMIT,
+            data: {
+                formId: 'demo',
+                fields: { work_email: 'jane@acme.com', full_name: 'Jane Doe', budget: '50k', password: 'hunter2', agree: 'on' }
+            }
+        };
+
+        await service.trackEvents('company-1', batch, '203.0.113.7');
+
+        const [, activity] = activityService.trackActivity.mock.calls[0];
+        expect(activity.data).toMatchObject({
+            formId: 'demo',
+            formFields: { email: 'jane@acme.com', name: 'Jane Doe' }
+        });
+        expect(JSON.stringify(activity.data)).not.toMatch(/hunter2|50k/);
+        expect(identityService.identifyVisitor).toHaveBeenCalledWith(visitorId, {
+            email: 'jane@acme.com',
+            name: 'Jane Doe',
+            phone: undefined,
+            gdprConsent: true
+        });
+        expect(identityService.resolveVisitorCompany).not.toHaveBeenCalled();
+    });
+
+    test('does not identify from forms without identification consent', async () => {
+        const batch = generateBatch(['/demo']);
+        batch.events[0] = {
+            ...batch.events[0],
+            type: VISITOR_ACTIVITY_TYPE.FORM_SUBMIT,
+            data: { formId: 'demo', fields: { work_email: 'jane@acme.com' } }
+        };
+
+        await service.trackEvents('company-1', batch, '203.0.113.7');
+        expect(identityService.identifyVisitor).not.toHaveBeenCalled();
+
+        consentService.hasConsent.mockImplementation((visitor: any, purpose: CONSENT_PURPOSE) =>
+            purpose === CONSENT_PURPOSE.IDENTIFICATION);
+        await service.trackEvents('company-1', batch, '203.0.113.7');
+        expect(identityService.identifyVisitor).toHaveBeenCalledTimes(1);
+
+        formCapture.enabled = false;
+        identityService.identifyVisitor.mockClear();
+        await service.trackEvents('company-1', batch, '203.0.113.7');
+        expect(identityService.identifyVisitor).not.toHaveBeenCalled();
+        expect(activityService.trackActivity.mock.calls[2][1].data).not.toHaveProperty('formFields');
+    });
+
+    test('rejects batches and identifications for another company\'s visitor', async () => {
+        visitorRepository.findById.mockResolvedValue({ id: visitorId, companyId: 'company-2' });
+
+        await expect(service.trackEvents('company-1', generateBatch(['/pricing']), '203.0.113.7'))
+            .rejects.toThrow('Visitor belongs to another company');
+        await expect(service.identifyVisitor('company-1', visitorId, { email: 'jane@acme.com', gdprConsent: true }))
+            .rejects.toThrow('Visitor belongs to another company');
+        expect(identityService.identifyVisitor).not.toHaveBeenCalled();
+    });
+
+    test('delegates identification of the company\'s visitors to the identity service', async () => {
+        visitorRepository.findById.mockResolvedValue({ id: visitorId, companyId: 'company-1' });
+        const data = { email: 'jane@acme.com', gdprConsent: true };
+
+        await service.identifyVisitor('company-1', visitorId, data);
+        await service.identifySignedVisitor('company-1', visitorId, 'payload.signature');
+
+        expect(identityService.identifyVisitor).toHaveBeenCalledWith(visitorId, data);
+        expect(identityService.identifySignedVisitor).toHaveBeenCalledWith(visitorId, 'payload.signature');
+    });
+
+    test('records banner consent, creating the visitor when no event preceded it', async () => {
+        const result = await service.updateConsent('company-1', {
+            visitorId,
+            purposes: { [CONSENT_PURPOSE.ANALYTICS]: true },
+            policyVersion: '2026-09',
+            metadata: { userAgent: 'jsdom', referrer: '', currentPage: 'https://acme.com/' }
+        }, '203.0.113.7');
+
+        expect(visitorRepository.create).toHaveBeenCalledWith(
+            expect.objectContaining({ id: visitorId, companyId: 'company-1' }),
+            { gdprConsent: false }
+        );
+        expect(consentService.recordConsent).toHaveBeenCalledWith(
+            expect.objectContaining({ id: visitorId }),
+            {
+                purposes: { [CONSENT_PURPOSE.ANALYTICS]: true },
+                source: CONSENT_SOURCE.SDK,
+                policyVersion: '2026-09',
+                userAgent: 'jsdom'
+            }
+        );
+        expect(result).toEqual({
+            visitorId,
+            consent: { [CONSENT_PURPOSE.ANALYTICS]: expect.objectContaining({ granted: true }) }
+        });
+    });
+});
@@ -0,0 +1,126 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { TrafficQualityService } from '../../../src/services/tracking/trafficQuality.service';
+import { BOT_SIGNAL } from '../../../src/constants/trafficQuality.constants';
+
+describe('TrafficQualityService', () => {
+    const browserUserAgent = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/537.36 Chrome/129.0';
+    let service: TrafficQualityService;
+    let visitorRepository: any;
+    let visitor: any;
+
+    beforeEach(() => {
+        visitor = { id: 'visitor-1', companyId: 'company-1', trafficQuality: null };
+
+        visitorRepository = {
+            findById: jest.fn(async () => visitor),
+            patch: jest.fn(async (id: string, data: any) => ({ ...visitor, ...data })),
+            findByCompany: jest.fn(async () => ({ visitors: [], total: 0 }))
+        };
+
+        service = new TrafficQualityService({ get: jest.fn() } as any, visitorRepository);
+        service.loadDataset([
+            { cidr: '198.51.100.0/24', provider: 'Example Cloud' },
+            { cidr: 'not-a-cidr', provider: 'Broken' }
+        ]);
+    });
+
+    describe('detectSignals', () => {
+        test('lets ordinary browsers through', () => {
+            expect(service.detectSignals({ userAgent: browserUserAgent, ipAddress: '203.0.113.7' })).toEqual([]);
+        });
+
+        test('detects crawler and monitor user agents', () => {
+            const types = (userAgent: string) => service.detectSignals({ userAgent }).map(signal => signal.type);
+
+            expect(types('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)'))
+                .toEqual([BOT_SIGNAL.USER_AGENT]);
+            expect(types('Mozilla/5.0+(compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)'))
+                .toEqual([BOT_SIGNAL.USER_AGENT]);
+            expect(types('curl/8.4.0')).toEqual([BOT_SIGNAL.USER_AGENT]);
+            expect(types('')).toEqual([BOT_SIGNAL.USER_AGENT]);
+        });
+
+        test('detects headless browsers from the user agent or webdriver hint', () => {
+            expect(service.detectSignals({ userAgent: browserUserAgent.replace('Chrome', 'HeadlessChrome') }))
+                .toEqual([expect.objectContaining({ type: BOT_SIGNAL.HEADLESS_BROWSER })]);
+            expect(service.detectSignals({ userAgent: browserUserAgent, webdriver: true }))
+                .toEqual([expect.objectContaining({ type: BOT_SIGNAL.HEADLESS_BROWSER })]);
+        });
+
+        test('detects datacenter IP addresses', () => {
+            expect(service.detectSignals({ userAgent: browserUserAgent, ipAddress: '198.51.100.23' }))
+                .toEqual([expect.objectContaining({ type: BOT_SIGNAL.DATACENTER_IP, detail: 'Example Cloud' })]);
+            expect(service.findDatacenter('198.51.101.1')).toBeNull();
+        });
+    });
+
+    test('detects sessions viewing pages faster than a person can', () => {
+        expect(service.detectPageRate({ pageCount: 40, durationSeconds: 30 }))
+            .toEqual(expect.objectContaining({ type: BOT_SIGNAL.PAGE_RATE, detail: '40 pages in 30s' }));
+        expect(service.detectPageRate({ pageCount: 40, durationSeconds: 1800 })).toBeNull();
+        expect(service.detectPageRate({ pageCount: 10, durationSeconds: 0 })).toBeNull();
+    });
+
+    describe('classifyVisitor', () => {
+        test('flags visitors with a bot signal', async () => {
+            const result = await service.classifyVisitor(visitor, { userAgent: 'python-requests/2.31' });
+
+            expect(result.trafficQuality).toEqual(expect.objectContaining({
+                isBot: true,
+                signals: [expect.objectContaining({ type: BOT_SIGNAL.USER_AGENT })],
+                reviewedBy: null
+            }));
+        });
+
+        test('only writes when a new signal type is detected', async () => {
+            await service.classifyVisitor(visitor, { userAgent: browserUserAgent });
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+
+            visitor.trafficQuality = {
+                isBot: true,
+                signals: [{ type: BOT_SIGNAL.USER_AGENT, detail: 'curl/8.4.0', detectedAt: new Date() }],
+                classifiedAt: new Date()
+            };
+            await service.classifyVisitor(visitor, { userAgent: 'curl/8.4.0' });
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+        });
+
+        test('never re-flags visitors an admin unflagged', async () => {
+            visitor.trafficQuality = {
+                isBot: false,
+                signals: [{ type: BOT_SIGNAL.DATACENTER_IP, detail: 'Example Cloud', detectedAt: new Date() }],
+                classifiedAt: new Date(),
+                reviewedBy: 'admin-1',
+                reviewedAt: new Date()
+            };
+
+            const result = await service.classifyVisitor(visitor, { userAgent: browserUserAgent, webdriver: true });
+
+            expect(result.trafficQuality?.isBot).toBe(false);
+            expect(result.trafficQuality?.signals).toHaveLength(2);
+        });
+    });
+
+    describe('unflagVisitor', () => {
+        test('records the admin who unflagged the visitor', async () => {
+            visitor.trafficQuality = { isBot: true, signals: [], classifiedAt: new Date() };
+
+            const result = await service.unflagVisitor('company-1', 'visitor-1', 'admin-1');
+
+            expect(result.trafficQuality).toEqual(expect.objectContaining({ isBot: false, reviewedBy: 'admin-1' }));
+        });
+
+        test('rejects visitors of another company', async () => {
+            await expect(service.unflagVisitor('company-2', 'visitor-1', 'admin-1'))
+                .rejects.toThrow('Visitor not found');
+            expect(visitorRepository.patch).not.toHaveBeenCalled();
+        });
+    });
+
+    test('lists bots through the visitor repository', async () => {
+        await service.getBots('company-1', 2, 25);
+
+        expect(visitorRepository.findByCompany).toHaveBeenCalledWith('company-1', 2, 25, { bots: true });
+    });
+});
@@ -0,0 +1,164 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals'; // v29.x
+
+import { VerificationService } from '../../../src/services/identity/verification.service';
+import { CompanyRepository } from '../../../src/db/repositories/company.repository';
+import {
+    EMAIL_TYPE,
+    VERIFICATION_STATUS,
+    VERIFICATION_REASON,
+    NON_CORPORATE_POLICY
+} from '../../../src/constants/verification.constants';
+import { IVerificationSettings } from '../../../src/interfaces/verification.interface';
+
+describe('VerificationService', () => {
+    let service: VerificationService;
+    let configService: { get: jest.Mock };
+    let companyRepository: jest.Mocked<CompanyRepository>;
+    let identityVerification: Partial<IVerificationSettings> | undefined;
+
+    beforeEach(() => {
+        identityVerification = undefined;
+
+        configService = {
+            get: jest.fn((key: string) => ({
+                'identity.mxResolver': 'static',
+                'identity.staticMxDomains': ['acme.com', 'gmail.com', 'mailinator.com']
+            } as Record<string, unknown>)[key])
+        };
+
+        companyRepository = {
+            findById: jest.fn(async () => ({ id: 'company-1', settings: { identityVerification } }))
+        } as any;
+
+        service = new VerificationService(configService as any, companyRepository);
+        service.onModuleInit();
+    });
+
+    describe('verifyEmail', () => {
+        test.each([
+            ['jane@acme.com', EMAIL_TYPE.CORPORATE],
+            ['jane@gmail.com', EMAIL_TYPE.FREE_WEBMAIL],
+            ['jane@mailinator.com', EMAIL_TYPE.DISPOSABLE],
+            ['sales@acme.com', EMAIL_TYPE.ROLE]
+        ])('classifies %s as %s', async (email, type) => {
+            const result = await service.verifyEmail(email);
+
+            expect(result.type).toBe(type);
+            expect(result.hasMx).toBe(true);
+        });
+
+        test('suggests the intended domain of a typo domain without MX records', async () => {
+            const result = await service.verifyEmail('Jane@GMIAL.com');
+
+            expect(result).toEqual({
+                address: 'jane@gmial.com',
+                domain: 'gmial.com',
+                type: EMAIL_TYPE.CORPORATE,
+                hasMx: false,
+                suggestedDomain: 'gmail.com'
+            });
+        });
+
+        test('treats failing MX lookups as inconclusive', async () => {
+            service.setMxResolver({
+                name: 'failing',
+                resolveMx: jest.fn(async () => { throw new Error('SERVFAIL'); })
+            });
+
+            const result = await service.verifyEmail('jane@acme.com');
+
+            expect(result.hasMx).toBeNull();
+        });
+    });
+
+    describe('normalizePhone', () => {
+        test.each([
+            ['+44 20 7946 0958', undefined, '+442079460958', null],
+            ['0044 20 7946 0958', undefined, '+442079460958', null],
+            ['(415) 555-0100', 'US', '+14155550100', 'US'],
+            ['1-415-555-0100', 'us', '+14155550100', 'US'],
+            ['030 901820', 'DE', '+4930901820', 'DE']
+        ])('normalizes %s from %s to %s', (phone, country, e164, inferredCountry) => {
+            expect(service.normalizePhone(phone, country)).toEqual({
+                original: phone,
+                e164,
+                inferredCountry
+            });
+        });
+
+        test('cannot normalize national numbers without a known country', () => {
+            expect(service.normalizePhone('555-0100', 'Atlantis').e164).toBeNull();
+        });
+    });
+
+    describe('verifyIdentification', () => {
+        test('verifies corporate identifications', async () => {
+            const verdict = await service.verifyIdentification('company-1', {
+                email: 'jane@acme.com',
+                phone: '+1 415 555 0100',
+                gdprConsent: true
+            });
+
+            expect(verdict.status).toBe(VERIFICATION_STATUS.VERIFIED);
+            expect(verdict.reasons).toEqual([]);
+            expect(verdict.phone?.e164).toBe('+14155550100');
+        });
+
+        test('flags non-corporate identifications by default', async () => {
+            const verdict = await service.verifyIdentification('company-1', {
+                email: 'jane@gmail.com',
+                gdprConsent: true
+            });
+
+            expect(verdict.status).toBe(VERIFICATION_STATUS.FLAGGED);
+            expect(verdict.reasons).toEqual([VERIFICATION_REASON.FREE_WEBMAIL]);
+        });
+
+        test('applies the company non-corporate policy', async () => {
+            identityVerification = { nonCorporatePolicy: NON_CORPORATE_POLICY.REJECT };
+            const rejected = await service.verifyIdentification('company-1', {
+                email: 'jane@mailinator.com',
+                gdprConsent: true
+            });
+
+            identityVerification = { nonCorporatePolicy: NON_CORPORATE_POLICY.ALLOW };
+            const allowed = await service.verifyIdentification('company-1', {
+                email: 'info@acme.com',
+                gdprConsent: true
+            });
+
+            expect(rejected.status).toBe(VERIFICATION_STATUS.REJECTED);
+            expect(rejected.reasons).toEqual([VERIFICATION_REASON.DISPOSABLE_EMAIL]);
+            expect(allowed.status).toBe(VERIFICATION_STATUS.VERIFIED);
+            expect(allowed.reasons).toEqual([VERIFICATION_REASON.ROLE_ACCOUNT]);
+        });
+
+        test('flags undeliverable contact details unless configured to reject them', async () => {
+            const data = { email: 'jane@unknown-domain.io', phone: '12', gdprConsent: true };
+            const location = { country: 'GB' } as any;
+
+            const flagged = await service.verifyIdentification('company-1', data, location);
+            identityVerification = { rejectUndeliverable: true };
+            const rejected = await service.verifyIdentification('company-1', data, location);
+
+            expect(flagged.status).toBe(VERIFICATION_STATUS.FLAGGED);
+            expect(flagged.reasons).toEqual([
+                VERIFICATION_REASON.NO_MX_RECORDS,
+                VERIFICATION_REASON.INVALID_PHONE
+            ]);
+            expect(rejected.status).toBe(VERIFICATION_STATUS.REJECTED);
+        });
+
+        test('skips MX lookups when disabled', async () => {
+            identityVerification = { checkMx: false };
+
+            const verdict = await service.verifyIdentification('company-1', {
+                email: 'jane@unknown-domain.io',
+                gdprConsent: true
+            });
+
+            expect(verdict.status).toBe(VERIFICATION_STATUS.VERIFIED);
+            expect(verdict.email?.hasMx).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * ESLint configuration for the Identity Matrix tracking SDK
+ * Enforces strict TypeScript rules for code shipped to customer sites
+ *
+ * Dependencies:
+ * @typescript-eslint/parser@^5.61.0
+ * @typescript-eslint/eslint-plugin@^5.61.0
+ * eslint-config-prettier@^8.8.0
+ */
+
+module.exports = {
+  root: true,
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2020,
+    sourceType: 'module',
+    project: './tsconfig.json'
+  },
+  extends: [
+    'eslint:recommended',
+    'plugin:@typescript-eslint/recommended',
+    'plugin:@typescript-eslint/recommended-requiring-type-checking',
+    'prettier'
+  ],
+  plugins: ['@typescript-eslint'],
+  rules: {
+    '@typescript-eslint/explicit-function-return-type': 'error',
+    '@typescript-eslint/no-explicit-any': 'error',
+    '@typescript-eslint/no-unused-vars': 'error',
+    '@typescript-eslint/no-floating-promises': 'error',
+    '@typescript-eslint/no-misused-promises': 'error',
+    '@typescript-eslint/prefer-nullish-coalescing': 'error',
+    '@typescript-eslint/prefer-optional-chain': 'error',
+
+    // The SDK must never write to the host page's console
+    'no-console': 'error',
+    'no-var': 'error',
+    'prefer-const': 'error',
+    'prefer-template': 'error',
+    'eqeqeq': ['error', 'always'],
+    'curly': ['error', 'all'],
+    'no-throw-literal': 'error',
+    'max-len': ['error', { code: 120, ignoreComments: true, ignoreStrings: true }]
+  },
+  env: {
+    browser: true,
+    es2020: true,
+    jest: true
+  },
+  ignorePatterns: ['dist', 'coverage', 'node_modules', 'jest.config.js']
+};
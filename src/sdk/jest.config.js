@@ -0,0 +1,31 @@
+/*
+ * Jest Configuration for the Identity Matrix tracking SDK
+ * Version: Jest 29.x
+ * Environment: Browser (jsdom) + TypeScript
+ */
+
+/** @type {import('@jest/types').Config.InitialOptions} */
+const config = {
+  // Use ts-jest preset for TypeScript support
+  preset: 'ts-jest',
+
+  // The SDK runs in browsers
+  testEnvironment: 'jsdom',
+
+  // Test file locations
+  roots: ['<rootDir>/tests'],
+  testRegex: '\\.test\\.ts$',
+
+  // Coverage collection configuration
+  collectCoverageFrom: ['src/**/*.ts', '!src/index.ts'],
+  coverageThreshold: {
+    global: {
+      branches: 80,
+      functions: 80,
+      lines: 80,
+      statements: 80
+    }
+  }
+};
+
+module.exports = config;
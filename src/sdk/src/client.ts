@@ -0,0 +1,137 @@
+/**
+ * @fileoverview HTTP client for the public tracking endpoints of the Identity Matrix API
+ * @version 1.0.0
+ */
+
+import { ConsentPurpose } from './constants';
+import {
+  TrackingSettings,
+  TrackingBatch,
+  TrackingBatchResult,
+  IdentifyTraits,
+  IdentifiedVisitor,
+  ConsentPreferences,
+  ConsentPurposes,
+  ConsentRequest,
+  ConsentResult,
+} from './types';
+
+const PURPOSE_BY_PREFERENCE: Record<keyof ConsentPreferences, ConsentPurpose> = {
+  analytics: ConsentPurpose.ANALYTICS,
+  identification: ConsentPurpose.IDENTIFICATION,
+  enrichment: ConsentPurpose.ENRICHMENT,
+  crmSync: ConsentPurpose.CRM_SYNC,
+};
+
+/**
+ * Maps consent preferences to the purposes of the backend, leaving out undecided ones
+ */
+export const toConsentPurposes = (preferences: ConsentPreferences): ConsentPurposes =>
+  Object.fromEntries(
+    (Object.entries(preferences) as [keyof ConsentPreferences, boolean | undefined][])
+      .filter(([key, granted]) => key in PURPOSE_BY_PREFERENCE && typeof granted === 'boolean')
+      .map(([key, granted]) => [PURPOSE_BY_PREFERENCE[key], granted])
+  );
+
+/**
+ * Error raised when a tracking request fails
+ * A null status means the request never reached the backend
+ */
+export class TrackingRequestError extends Error {
+  constructor(message: string, public readonly status: number | null) {
+    super(message);
+    this.name = 'TrackingRequestError';
+  }
+
+  /**
+   * Whether the request may succeed when retried
+   */
+  public get retryable(): boolean {
+    return this.status === null || this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Client scoped to one company's tracking endpoints
+ */
+export class TrackingClient {
+  private readonly baseUrl: string;
+
+  constructor(
+    apiUrl: string,
+    companyId: string,
+    private readonly fetchImpl: typeof fetch
+  ) {
+    this.baseUrl = `${apiUrl.replace(/\/+$/, '')}/tracking/companies/${encodeURIComponent(companyId)}`;
+  }
+
+  /**
+   * Loads the company's tracking settings
+   */
+  public getSettings(): Promise<TrackingSettings> {
+    return this.request<TrackingSettings>('GET', '/config');
+  }
+
+  /**
+   * Delivers a batch of events
+   * @param keepalive - Let the request outlive the page, used when the page is hidden or closed
+   */
+  public sendEvents(batch: TrackingBatch, keepalive = false): Promise<TrackingBatchResult> {
+    return this.request<TrackingBatchResult>('POST', '/events', batch, keepalive);
+  }
+
+  /**
+   * Identifies the visitor from details entered on the site
+   */
+  public identify(visitorId: string, traits: IdentifyTraits): Promise<IdentifiedVisitor> {
+    const { consent, ...details } = traits;
+    return this.request<IdentifiedVisitor>('POST', '/identify', {
+      ...details,
+      ...(consent && { consent: toConsentPurposes(consent) }),
+      visitorId,
+    });
+  }
+
+  /**
+   * Identifies the visitor from a token signed by the customer's backend
+   */
+  public identifySigned(visitorId: string, token: string): Promise<IdentifiedVisitor> {
+    return this.request<IdentifiedVisitor>('POST', '/identify/signed', { visitorId, token });
+  }
+
+  /**
+   * Records the consent decisions a visitor made in the site's consent banner
+   */
+  public updateConsent(request: ConsentRequest): Promise<ConsentResult> {
+    return this.request<ConsentResult>('POST', '/consent', request);
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: unknown,
+    keepalive = false
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        credentials: 'omit',
+        keepalive,
+      });
+    } catch (error) {
+      throw new TrackingRequestError(`Tracking request failed: ${(error as Error).message}`, null);
+    }
+
+    if (!response.ok) {
+      throw new TrackingRequestError(
+        `Tracking request failed with status ${response.status}`,
+        response.status
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
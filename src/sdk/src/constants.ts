@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Constants of the Identity Matrix tracking SDK
+ * Activity types mirror VISITOR_ACTIVITY_TYPE of the backend
+ * @version 1.0.0
+ */
+
+/**
+ * Activity types accepted by the tracking endpoints
+ */
+export enum ActivityType {
+  /** Visitor viewed a page */
+  PAGE_VIEW = 'PAGE_VIEW',
+  /** Visitor submitted a form */
+  FORM_SUBMIT = 'FORM_SUBMIT',
+  /** Visitor clicked a button or interactive element */
+  BUTTON_CLICK = 'BUTTON_CLICK',
+  /** Visitor downloaded a file */
+  FILE_DOWNLOAD = 'FILE_DOWNLOAD',
+  /** Visitor performed a custom event registered by the company */
+  CUSTOM_EVENT = 'CUSTOM_EVENT',
+}
+
+/**
+ * Processing purposes a visitor consents to, mirroring CONSENT_PURPOSE of the backend
+ */
+export enum ConsentPurpose {
+  /** Tracking under a persistent visitor ID with device details */
+  ANALYTICS = 'ANALYTICS',
+  /** Storing details the visitor entered and linking their devices */
+  IDENTIFICATION = 'IDENTIFICATION',
+  /** Looking up the visitor's company and role */
+  ENRICHMENT = 'ENRICHMENT',
+  /** Pushing the visitor to the company's CRM */
+  CRM_SYNC = 'CRM_SYNC',
+}
+
+/**
+ * Number of queued events that triggers an immediate flush
+ */
+export const DEFAULT_BATCH_SIZE = 10;
+
+/**
+ * Maximum number of events the backend accepts per batch (TRACKING_MAX_BATCH_SIZE)
+ */
+export const MAX_BATCH_SIZE = 50;
+
+/**
+ * Delay after which queued events are flushed even when the batch is not full
+ */
+export const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+/**
+ * Maximum number of events kept while the backend is unreachable; the oldest are dropped first
+ */
+export const DEFAULT_MAX_QUEUE_SIZE = 500;
+
+/**
+ * Exponential backoff bounds for retrying failed deliveries
+ */
+export const RETRY_BASE_DELAY_MS = 1000;
+export const RETRY_MAX_DELAY_MS = 60000;
+
+/**
+ * Storage keys, suffixed with the company ID
+ */
+export const VISITOR_ID_KEY_PREFIX = 'im_vid_';
+export const EVENT_QUEUE_KEY_PREFIX = 'im_queue_';
+export const CONSENT_KEY_PREFIX = 'im_consent_';
+
+/**
+ * Lifetime of the visitor ID cookie used when localStorage is unavailable
+ */
+export const VISITOR_ID_COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365 * 2;
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Public API of the Identity Matrix tracking SDK
+ * @version 1.0.0
+ */
+
+import { Tracker } from './tracker';
+import { TrackerConfig } from './types';
+
+export { Tracker } from './tracker';
+export { ActivityType, ConsentPurpose } from './constants';
+export { TrackingRequestError } from './client';
+export { isPathExcluded } from './paths';
+export type {
+  TrackerConfig,
+  TrackingSettings,
+  TrackingForm,
+  EventData,
+  EventProperties,
+  TrackingEvent,
+  IdentifyTraits,
+  IdentifiedVisitor,
+  ConsentPreferences,
+  ConsentResult,
+} from './types';
+
+/**
+ * Creates a tracker and starts tracking
+ * @example
+ * const tracker = createTracker({ companyId, apiUrl: 'https://api.example.com/api/v1' });
+ * tracker.track(ActivityType.FORM_SUBMIT, { formId: 'demo-request' });
+ */
+export const createTracker = (config: TrackerConfig): Tracker => {
+  const tracker = new Tracker(config);
+  void tracker.init();
+  return tracker;
+};
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Path exclusion matching shared with TrackingService
+ * Mirrors the path pattern rules of the backend url utility
+ * @version 1.0.0
+ */
+
+// Path pattern segment matching any number of path segments
+const GLOBSTAR = '**';
+
+/**
+ * Segment of a compiled path pattern: ** or the literal parts of one segment around its * wildcards
+ */
+type PathPatternSegment = typeof GLOBSTAR | string[];
+
+// Compiled path patterns by pattern, since the same patterns are matched against every page
+const compiledPathPatterns = new Map<string, PathPatternSegment[]>();
+
+/**
+ * Determines whether a path is excluded from tracking
+ * Patterns ignore case and trailing slashes; * matches within one path segment and ** matches any
+ * number of segments. Patterns also exclude the subpaths of the paths they match, so /admin excludes
+ * /admin/users and /internal/* excludes /internal/reports/2024
+ * @param path - Pathname of the page
+ * @param excludedPaths - Patterns from the company's tracking settings
+ */
+export const isPathExcluded = (path: string, excludedPaths: string[]): boolean =>
+  excludedPaths.some((pattern) =>
+    matchesPathPattern(path, `${pattern.replace(/\/+$/, '')}/${GLOBSTAR}`)
+  );
+
+/**
+ * Checks whether a path matches a path pattern in one pass, resuming after the last ** on mismatch
+ */
+const matchesPathPattern = (path: string, pattern: string): boolean => {
+  const segments = compilePathPattern(pattern);
+  const pathSegments = splitPath(path);
+
+  let index = 0;
+  let pathIndex = 0;
+  let globstarIndex = -1;
+  let globstarPathIndex = 0;
+  while (pathIndex < pathSegments.length) {
+    const segment = segments[index];
+    if (segment === GLOBSTAR) {
+      globstarIndex = index++;
+      globstarPathIndex = pathIndex;
+    } else if (segment && matchesSegment(segment, pathSegments[pathIndex])) {
+      index++;
+      pathIndex++;
+    } else if (globstarIndex >= 0) {
+      index = globstarIndex + 1;
+      pathIndex = ++globstarPathIndex;
+    } else {
+      return false;
+    }
+  }
+
+  return segments.slice(index).every((segment) => segment === GLOBSTAR);
+};
+
+/**
+ * Compiles a path pattern into segments once and caches it
+ */
+const compilePathPattern = (pattern: string): PathPatternSegment[] => {
+  const cached = compiledPathPatterns.get(pattern);
+  if (cached) {
+    return cached;
+  }
+
+  const segments: PathPatternSegment[] = [];
+  for (const segment of splitPath(pattern)) {
+    if (segment !== GLOBSTAR) {
+      segments.push(segment.split('*'));
+    } else if (segments[segments.length - 1] !== GLOBSTAR) {
+      segments.push(GLOBSTAR);
+    }
+  }
+
+  compiledPathPatterns.set(pattern, segments);
+  return segments;
+};
+
+/**
+ * Checks whether a path segment holds the literal parts of a pattern segment in order,
+ * the first starting and the last ending the segment
+ */
+const matchesSegment = (parts: string[], segment: string): boolean => {
+  if (parts.length === 1) {
+    return segment === parts[0];
+  }
+
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  if (
+    segment.length < first.length + last.length ||
+    !segment.startsWith(first) ||
+    !segment.endsWith(last)
+  ) {
+    return false;
+  }
+
+  // Taking the earliest occurrence of each part leaves the most room for the parts after it
+  let position = first.length;
+  const end = segment.length - last.length;
+  for (const part of parts.slice(1, -1)) {
+    const found = segment.indexOf(part, position);
+    if (found < 0 || found + part.length > end) {
+      return false;
+    }
+    position = found + part.length;
+  }
+  return true;
+};
+
+/**
+ * Splits a path into its lowercase segments, ignoring empty segments
+ */
+const splitPath = (path: string): string[] =>
+  path
+    .toLowerCase()
+    .split('/')
+    .filter((segment) => segment.length > 0);
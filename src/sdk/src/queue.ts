@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Persistent event queue delivering batches with offline retry
+ * Queued events survive page loads; failed deliveries are retried with exponential
+ * backoff unless the backend rejected the batch itself
+ * @version 1.0.0
+ */
+
+import { MAX_BATCH_SIZE, RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS } from './constants';
+import { TrackingRequestError } from './client';
+import { readItem, writeItem, removeItem } from './storage';
+import { TrackingEvent } from './types';
+
+/**
+ * Options of an event queue
+ */
+export interface EventQueueOptions {
+  /** Storage keeping events across page loads; null keeps them in memory */
+  storage: Storage | null;
+  storageKey: string;
+  batchSize: number;
+  flushIntervalMs: number;
+  maxQueueSize: number;
+  /** Delivers a batch; rejections with a retryable TrackingRequestError keep the batch queued */
+  send: (events: TrackingEvent[], keepalive: boolean) => Promise<void>;
+}
+
+/**
+ * Queue batching events for delivery
+ */
+export class EventQueue {
+  private events: TrackingEvent[];
+  private inFlight: TrackingEvent[] = [];
+  private flushing: Promise<void> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempt = 0;
+  private storage: Storage | null;
+
+  constructor(private readonly options: EventQueueOptions) {
+    this.storage = options.storage;
+    this.events = this.load();
+    if (this.events.length > 0) {
+      this.schedule(options.flushIntervalMs);
+    }
+  }
+
+  /**
+   * Number of events awaiting delivery
+   */
+  public get size(): number {
+    return this.inFlight.length + this.events.length;
+  }
+
+  /**
+   * Queues an event, flushing when a batch is full
+   */
+  public enqueue(event: TrackingEvent): void {
+    this.events.push(event);
+    this.trim();
+    this.persist();
+
+    if (this.events.length >= this.options.batchSize && this.retryAttempt === 0) {
+      void this.flush();
+    } else {
+      this.schedule(this.options.flushIntervalMs);
+    }
+  }
+
+  /**
+   * Delivers every queued event in batches
+   * Concurrent calls share the delivery in progress
+   * @param keepalive - Let the requests outlive the page
+   */
+  public flush(keepalive = false): Promise<void> {
+    if (!this.flushing) {
+      this.clearTimer();
+      this.flushing = this.deliver(keepalive).finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Drops every queued event
+   */
+  public clear(): void {
+    this.events = [];
+    this.persist();
+  }
+
+  /**
+   * Moves the queued events to another storage, e.g. null once the visitor withdraws consent
+   */
+  public setStorage(storage: Storage | null): void {
+    if (storage !== this.storage) {
+      removeItem(this.storage, this.options.storageKey);
+      this.storage = storage;
+      this.persist();
+    }
+  }
+
+  /**
+   * Stops scheduled deliveries
+   */
+  public destroy(): void {
+    this.clearTimer();
+  }
+
+  private async deliver(keepalive: boolean): Promise<void> {
+    while (this.events.length > 0) {
+      this.inFlight = this.events.splice(0, MAX_BATCH_SIZE);
+
+      try {
+        await this.options.send(this.inFlight, keepalive);
+        this.retryAttempt = 0;
+      } catch (error) {
+        if (error instanceof TrackingRequestError && !error.retryable) {
+          // The backend will never accept this batch
+          this.retryAttempt = 0;
+        } else {
+          this.events = [...this.inFlight, ...this.events];
+          this.inFlight = [];
+          this.trim();
+          this.persist();
+          this.retryAttempt++;
+          this.schedule(
+            Math.min(RETRY_BASE_DELAY_MS * 2 ** (this.retryAttempt - 1), RETRY_MAX_DELAY_MS)
+          );
+          return;
+        }
+      }
+
+      this.inFlight = [];
+      this.persist();
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer === null) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        void this.flush();
+      }, delayMs);
+    }
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private trim(): void {
+    const overflow = this.size - this.options.maxQueueSize;
+    if (overflow > 0) {
+      this.events.splice(0, overflow);
+    }
+  }
+
+  private load(): TrackingEvent[] {
+    try {
+      const stored = readItem(this.storage, this.options.storageKey);
+      const events: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(events) ? (events as TrackingEvent[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private persist(): void {
+    writeItem(
+      this.storage,
+      this.options.storageKey,
+      JSON.stringify([...this.inFlight, ...this.events])
+    );
+  }
+}
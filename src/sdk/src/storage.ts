@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Safe access to browser storage
+ * Storage access throws in sandboxed iframes and some private browsing modes
+ * @version 1.0.0
+ */
+
+/**
+ * Returns localStorage when it is usable
+ */
+export const getDefaultStorage = (): Storage | null => {
+  try {
+    const storage = window.localStorage;
+    const probe = '__im_probe__';
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads a storage item, treating failures as a missing item
+ */
+export const readItem = (storage: Storage | null, key: string): string | null => {
+  try {
+    return storage ? storage.getItem(key) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Writes a storage item, ignoring quota and access failures
+ */
+export const writeItem = (storage: Storage | null, key: string, value: string): void => {
+  try {
+    storage?.setItem(key, value);
+  } catch {
+    // Persistence is best effort
+  }
+};
+
+/**
+ * Removes a storage item, ignoring access failures
+ */
+export const removeItem = (storage: Storage | null, key: string): void => {
+  try {
+    storage?.removeItem(key);
+  } catch {
+    // Persistence is best effort
+  }
+};
@@ -0,0 +1,384 @@
+/**
+ * @fileoverview Browser tracker recording page views and activity for Identity Matrix
+ * Events are batched to the public tracking endpoints, which record them through
+ * TrackingService; identify() maps to IdentityService and consent() to ConsentService
+ * @version 1.0.0
+ */
+
+import {
+  ActivityType,
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_FLUSH_INTERVAL_MS,
+  DEFAULT_MAX_QUEUE_SIZE,
+  EVENT_QUEUE_KEY_PREFIX,
+  CONSENT_KEY_PREFIX,
+} from './constants';
+import { TrackingClient, toConsentPurposes } from './client';
+import { EventQueue } from './queue';
+import { isPathExcluded } from './paths';
+import { getDefaultStorage, readItem, writeItem } from './storage';
+import { VisitorIdStore } from './visitorId';
+import {
+  TrackerConfig,
+  TrackingSettings,
+  TrackingEvent,
+  EventData,
+  EventProperties,
+  IdentifyTraits,
+  IdentifiedVisitor,
+  BrowserMetadata,
+  ConsentPreferences,
+  ConsentResult,
+} from './types';
+
+/**
+ * Tracker for one company's site
+ */
+export class Tracker {
+  private readonly client: TrackingClient;
+  private readonly visitorIds: VisitorIdStore;
+  private readonly queue: EventQueue;
+  private readonly storage: Storage | null;
+  private readonly consentKey: string;
+  private preferences: ConsentPreferences;
+  private settings: TrackingSettings = { enabled: true, excludedPaths: [] };
+  private ready: Promise<void> | null = null;
+  private lastPageUrl: string | null = null;
+  private readonly teardowns: Array<() => void> = [];
+
+  constructor(private readonly config: TrackerConfig) {
+    this.storage = config.storage === undefined ? getDefaultStorage() : config.storage;
+    this.consentKey = `${CONSENT_KEY_PREFIX}${config.companyId}`;
+    this.preferences = this.loadPreferences();
+    const fetchImpl: typeof fetch =
+      config.fetch ?? ((input, init): Promise<Response> => window.fetch(input, init));
+    const persistent = this.isPersistent();
+
+    this.client = new TrackingClient(config.apiUrl, config.companyId, fetchImpl);
+    this.visitorIds = new VisitorIdStore(config.companyId, this.storage, persistent);
+    this.queue = new EventQueue({
+      storage: persistent ? this.storage : null,
+      storageKey: `${EVENT_QUEUE_KEY_PREFIX}${config.companyId}`,
+      batchSize: config.batchSize ?? DEFAULT_BATCH_SIZE,
+      flushIntervalMs: config.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS,
+      maxQueueSize: config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE,
+      send: (events, keepalive): Promise<void> => this.send(events, keepalive),
+    });
+  }
+
+  /**
+   * ID of the current visitor, persisted unless tracking is cookieless
+   */
+  public get visitorId(): string {
+    return this.visitorIds.get();
+  }
+
+  /**
+   * Loads the company's tracking settings and starts tracking
+   * The backend still filters events when the settings cannot be loaded
+   */
+  public init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.loadSettings();
+      this.listen();
+      if (this.config.autoPageViews !== false) {
+        this.trackPageViews();
+      }
+      if (this.config.captureForms) {
+        this.captureForms();
+      }
+    }
+    return this.ready;
+  }
+
+  /**
+   * Records a page view of the current page
+   */
+  public page(data?: EventData): void {
+    this.lastPageUrl = window.location.href;
+    this.track(ActivityType.PAGE_VIEW, data);
+  }
+
+  /**
+   * Records an activity on the current page
+   * @param type - Activity type
+   * @param data - Data attached to the activity, e.g. the formId of a FORM_SUBMIT
+   */
+  public track(type: ActivityType, data?: EventData): void {
+    const { href, pathname } = window.location;
+    if (!this.settings.enabled || isPathExcluded(pathname, this.settings.excludedPaths)) {
+      return;
+    }
+
+    const event: TrackingEvent = {
+      type,
+      url: href,
+      path: pathname,
+      occurredAt: new Date().toISOString(),
+    };
+    if (data) {
+      event.data = data;
+    }
+    this.queue.enqueue(event);
+  }
+
+  /**
+   * Records the submission of a form with the inputs the company mapped for it
+   * Password inputs and inputs the company did not map are never sent
+   * @param form - Submitted form
+   * @param formId - ID of the form in the form capture settings, defaults to its id or name
+   */
+  public form(
+    form: HTMLFormElement,
+    formId = form.getAttribute('id') ?? form.getAttribute('name') ?? ''
+  ): void {
+    const mapped = this.settings.forms?.find((candidate) => candidate.formId === formId);
+    const fields: Record<string, string> = {};
+
+    for (const name of mapped?.fields ?? []) {
+      const input = form.elements.namedItem(name);
+      if (input instanceof HTMLInputElement && input.type === 'password') {
+        continue;
+      }
+      if (input instanceof HTMLInputElement && input.type === 'checkbox') {
+        fields[name] = String(input.checked);
+      } else if (
+        input instanceof HTMLInputElement ||
+        input instanceof HTMLSelectElement ||
+        input instanceof HTMLTextAreaElement
+      ) {
+        fields[name] = input.value;
+      }
+    }
+
+    const data: EventData = formId ? { formId } : {};
+    if (Object.keys(fields).length > 0) {
+      data.fields = fields;
+    }
+    this.track(ActivityType.FORM_SUBMIT, data);
+  }
+
+  /**
+   * Records a custom event the company registered, e.g. event('demo_booked', { plan: 'pro' })
+   * Events that do not match the registered schema are dropped by the backend
+   * @param name - Registered event name
+   * @param properties - Property values declared by the event
+   */
+  public event(name: string, properties: EventProperties = {}): void {
+    const values = Object.fromEntries(
+      Object.entries(properties)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .map(([key, value]) => [key, value instanceof Date ? value.toISOString() : value]),
+    );
+    this.track(ActivityType.CUSTOM_EVENT, { eventName: name, properties: values });
+  }
+
+  /**
+   * Identifies the visitor from details entered on the site
+   * Queued events are delivered first so the backend knows the visitor
+   */
+  public async identify(traits: IdentifyTraits): Promise<IdentifiedVisitor> {
+    await this.flush();
+    return this.client.identify(this.visitorId, traits);
+  }
+
+  /**
+   * Identifies the visitor from a token signed by the customer's backend
+   */
+  public async identifySigned(token: string): Promise<IdentifiedVisitor> {
+    await this.flush();
+    return this.client.identifySigned(this.visitorId, token);
+  }
+
+  /**
+   * Records the visitor's consent decisions, e.g. from the site's consent banner
+   * Without analytics consent the visitor is tracked cookieless and anonymously; granting
+   * it persists the visitor ID, withdrawing it removes the ID from the browser
+   * @param preferences - Decisions by purpose; omitted purposes keep their state
+   * @param policyVersion - Version of the privacy policy or banner text the visitor saw
+   */
+  public async consent(
+    preferences: ConsentPreferences,
+    policyVersion?: string
+  ): Promise<ConsentResult> {
+    this.preferences = { ...this.preferences, ...preferences };
+    writeItem(this.storage, this.consentKey, JSON.stringify(this.preferences));
+
+    const persistent = this.isPersistent();
+    this.visitorIds.setPersistent(persistent);
+    this.queue.setStorage(persistent ? this.storage : null);
+
+    return this.client.updateConsent({
+      visitorId: this.visitorId,
+      purposes: toConsentPurposes(preferences),
+      ...(policyVersion && { policyVersion }),
+      metadata: this.metadata(),
+    });
+  }
+
+  /**
+   * Delivers every queued event
+   */
+  public async flush(): Promise<void> {
+    await this.init();
+    await this.queue.flush();
+  }
+
+  /**
+   * Starts tracking a new anonymous visitor, e.g. after the user logs out
+   * Events that could not be delivered for the previous visitor are dropped
+   */
+  public async reset(): Promise<void> {
+    await this.flush();
+    this.queue.clear();
+    this.visitorIds.reset();
+  }
+
+  /**
+   * Stops tracking and removes every listener the tracker installed
+   */
+  public destroy(): void {
+    this.teardowns.splice(0).forEach((teardown) => teardown());
+    this.queue.destroy();
+  }
+
+  /**
+   * Whether the visitor ID and queued events may be kept across page loads
+   */
+  private isPersistent(): boolean {
+    return this.config.requireConsent
+      ? this.preferences.analytics === true
+      : this.preferences.analytics !== false;
+  }
+
+  private loadPreferences(): ConsentPreferences {
+    try {
+      const stored = readItem(this.storage, this.consentKey);
+      const preferences: unknown = stored ? JSON.parse(stored) : {};
+      return preferences && typeof preferences === 'object'
+        ? (preferences as ConsentPreferences)
+        : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private metadata(): BrowserMetadata {
+    return {
+      userAgent: navigator.userAgent,
+      referrer: document.referrer,
+      currentPage: window.location.href,
+      webdriver: navigator.webdriver === true,
+    };
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      this.settings = await this.client.getSettings();
+    } catch {
+      // Keep tracking with the defaults; the backend applies the settings anyway
+    }
+
+    if (!this.settings.enabled) {
+      this.queue.clear();
+    }
+  }
+
+  private async send(events: TrackingEvent[], keepalive: boolean): Promise<void> {
+    if (!keepalive) {
+      await this.ready;
+    }
+
+    const allowed = this.settings.enabled
+      ? events.filter((event) => !isPathExcluded(event.path, this.settings.excludedPaths))
+      : [];
+    if (allowed.length === 0) {
+      return;
+    }
+
+    await this.client.sendEvents(
+      {
+        visitorId: this.visitorId,
+        metadata: this.metadata(),
+        events: allowed,
+      },
+      keepalive
+    );
+  }
+
+  /**
+   * Delivers queued events when the browser comes back online or the page is left
+   */
+  private listen(): void {
+    const onOnline = (): void => {
+      void this.queue.flush();
+    };
+    const onPageHide = (): void => {
+      void this.queue.flush(true).catch(() => undefined);
+    };
+    const onVisibilityChange = (): void => {
+      if (document.visibilityState === 'hidden') {
+        onPageHide();
+      }
+    };
+
+    window.addEventListener('online', onOnline);
+    window.addEventListener('pagehide', onPageHide);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    this.teardowns.push(() => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('pagehide', onPageHide);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    });
+  }
+
+  /**
+   * Records submissions of the forms the company mapped
+   */
+  private captureForms(): void {
+    const onSubmit = (event: Event): void => {
+      const form = event.target;
+      if (!(form instanceof HTMLFormElement)) {
+        return;
+      }
+      const formId = form.getAttribute('id') ?? form.getAttribute('name');
+      if (formId && this.settings.forms?.some((candidate) => candidate.formId === formId)) {
+        this.form(form, formId);
+      }
+    };
+
+    document.addEventListener('submit', onSubmit, true);
+    this.teardowns.push(() => document.removeEventListener('submit', onSubmit, true));
+  }
+
+  /**
+   * Records the current page and every client-side navigation of single-page apps
+   */
+  private trackPageViews(): void {
+    const onNavigation = (): void => {
+      if (window.location.href !== this.lastPageUrl) {
+        this.page();
+      }
+    };
+
+    const pushState = window.history.pushState.bind(window.history);
+    const replaceState = window.history.replaceState.bind(window.history);
+    window.history.pushState = (...args: Parameters<History['pushState']>): void => {
+      pushState(...args);
+      onNavigation();
+    };
+    window.history.replaceState = (...args: Parameters<History['replaceState']>): void => {
+      replaceState(...args);
+      onNavigation();
+    };
+    window.addEventListener('popstate', onNavigation);
+
+    this.teardowns.push(() => {
+      window.history.pushState = pushState;
+      window.history.replaceState = replaceState;
+      window.removeEventListener('popstate', onNavigation);
+    });
+
+    this.page();
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Type definitions of the Identity Matrix tracking SDK
+ * Request and response shapes mirror the backend tracking interfaces
+ * @version 1.0.0
+ */
+
+import { ActivityType, ConsentPurpose } from './constants';
+
+/**
+ * Options accepted by the tracker
+ */
+export interface TrackerConfig {
+  /** Company whose site is tracked */
+  companyId: string;
+  /** Base URL of the Identity Matrix API, e.g. https://api.example.com/api/v1 */
+  apiUrl: string;
+  /** Track a page view on load and on every history navigation (default true) */
+  autoPageViews?: boolean;
+  /** Number of queued events that triggers an immediate flush */
+  batchSize?: number;
+  /** Delay after which queued events are flushed */
+  flushIntervalMs?: number;
+  /** Maximum number of events kept while the backend is unreachable */
+  maxQueueSize?: number;
+  /** Fetch implementation, defaults to window.fetch */
+  fetch?: typeof fetch;
+  /** Storage for the visitor ID and queued events, defaults to localStorage; null disables persistence */
+  storage?: Storage | null;
+  /**
+   * Track without persisting the visitor ID or queued events until the visitor consents
+   * to analytics through consent() (default false)
+   */
+  requireConsent?: boolean;
+  /**
+   * Record every submission of a form the company mapped in its form capture settings,
+   * with the mapped inputs (default false)
+   */
+  captureForms?: boolean;
+}
+
+/**
+ * Tracking settings the company configured for its sites
+ */
+export interface TrackingSettings {
+  enabled: boolean;
+  /** Path patterns never tracked along with their subpaths; * matches within one path segment and ** any number of segments */
+  excludedPaths: string[];
+  /** Forms whose mapped inputs are sent with submissions, empty unless form capture is enabled */
+  forms?: TrackingForm[];
+}
+
+/**
+ * Form the company mapped and the inputs sent with its submissions
+ */
+export interface TrackingForm {
+  formId: string;
+  fields: string[];
+}
+
+/**
+ * Data attached to an event; elementId, formId and fileId are recorded as activity fields
+ */
+export interface EventData {
+  elementId?: string;
+  formId?: string;
+  fileId?: string;
+  /** Submitted input values by input name, only read from FORM_SUBMIT events */
+  fields?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+/**
+ * Property values of a custom event; dates are sent as ISO 8601 strings
+ */
+export type EventProperties = Record<string, string | number | boolean | Date | null | undefined>;
+
+/**
+ * Event queued for delivery
+ */
+export interface TrackingEvent {
+  type: ActivityType;
+  url: string;
+  path: string;
+  occurredAt: string;
+  data?: EventData;
+}
+
+/**
+ * Browser details sent with tracking requests
+ */
+export interface BrowserMetadata {
+  userAgent: string;
+  referrer: string;
+  currentPage: string;
+  /** Whether the browser reports being automated, a headless-browser hint */
+  webdriver: boolean;
+}
+
+/**
+ * Batch of events delivered to the backend
+ */
+export interface TrackingBatch {
+  visitorId: string;
+  metadata: BrowserMetadata;
+  events: TrackingEvent[];
+}
+
+/**
+ * Backend response to a delivered batch
+ */
+export interface TrackingBatchResult {
+  visitorId: string;
+  accepted: number;
+  excluded: number;
+  rejected: number;
+}
+
+/**
+ * Consent decisions of a visitor, e.g. from a consent banner; omitted purposes keep their state
+ */
+export interface ConsentPreferences {
+  analytics?: boolean;
+  identification?: boolean;
+  enrichment?: boolean;
+  crmSync?: boolean;
+}
+
+/**
+ * Consent decisions keyed by backend purpose
+ */
+export type ConsentPurposes = Partial<Record<ConsentPurpose, boolean>>;
+
+/**
+ * Consent decisions delivered to the backend
+ */
+export interface ConsentRequest {
+  visitorId: string;
+  purposes: ConsentPurposes;
+  policyVersion?: string;
+  metadata: BrowserMetadata;
+}
+
+/**
+ * Current decision of the visitor for one purpose
+ */
+export interface ConsentGrant {
+  granted: boolean;
+  source: string;
+  recordedAt: string;
+}
+
+/**
+ * Backend response to delivered consent decisions
+ */
+export interface ConsentResult {
+  visitorId: string;
+  consent: Partial<Record<ConsentPurpose, ConsentGrant>>;
+}
+
+/**
+ * Details a visitor entered on the site
+ */
+export interface IdentifyTraits {
+  email?: string;
+  name?: string;
+  phone?: string;
+  gdprConsent: boolean;
+  /** Purposes the visitor declined on the form; identification itself is implied */
+  consent?: ConsentPreferences;
+  customFields?: Record<string, unknown>;
+}
+
+/**
+ * Visitor returned by the identification endpoints
+ */
+export interface IdentifiedVisitor {
+  id: string;
+  status: string;
+}
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Creation and persistence of the visitor ID
+ * The ID lives in localStorage and falls back to a first-party cookie; without
+ * analytics consent it only lives in memory for the page's lifetime
+ * @version 1.0.0
+ */
+
+import { VISITOR_ID_KEY_PREFIX, VISITOR_ID_COOKIE_MAX_AGE_SECONDS } from './constants';
+import { readItem, writeItem, removeItem } from './storage';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+/**
+ * Generates a version 4 UUID
+ */
+export const generateVisitorId = (): string => {
+  const cryptoApi = typeof crypto !== 'undefined' ? crypto : undefined;
+  if (typeof cryptoApi?.randomUUID === 'function') {
+    return cryptoApi.randomUUID();
+  }
+
+  const bytes = new Uint8Array(16);
+  if (typeof cryptoApi?.getRandomValues === 'function') {
+    cryptoApi.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-');
+};
+
+/**
+ * Store keeping one visitor ID per company across page loads
+ */
+export class VisitorIdStore {
+  private readonly key: string;
+  private visitorId: string | null = null;
+
+  constructor(
+    companyId: string,
+    private readonly storage: Storage | null,
+    private persistent = true
+  ) {
+    this.key = `${VISITOR_ID_KEY_PREFIX}${companyId}`;
+  }
+
+  /**
+   * Returns the persisted visitor ID, creating one on the first visit
+   */
+  public get(): string {
+    if (!this.visitorId) {
+      const stored = this.persistent ? readItem(this.storage, this.key) ?? this.readCookie() : null;
+      this.visitorId = stored && UUID_PATTERN.test(stored) ? stored : generateVisitorId();
+      this.persist(this.visitorId);
+    }
+    return this.visitorId;
+  }
+
+  /**
+   * Starts or stops persisting the visitor ID, keeping the current ID for this page
+   */
+  public setPersistent(persistent: boolean): void {
+    if (persistent === this.persistent) {
+      return;
+    }
+
+    this.persistent = persistent;
+    if (persistent) {
+      this.persist(this.get());
+    } else {
+      this.forget();
+    }
+  }
+
+  /**
+   * Replaces the visitor ID, e.g. when a user logs out of a shared device
+   * @returns New visitor ID
+   */
+  public reset(): string {
+    this.forget();
+    this.visitorId = null;
+    return this.get();
+  }
+
+  private persist(visitorId: string): void {
+    if (this.persistent) {
+      writeItem(this.storage, this.key, visitorId);
+      this.writeCookie(visitorId, VISITOR_ID_COOKIE_MAX_AGE_SECONDS);
+    }
+  }
+
+  private forget(): void {
+    removeItem(this.storage, this.key);
+    this.writeCookie('', 0);
+  }
+
+  private readCookie(): string | null {
+    try {
+      const prefix = `${this.key}=`;
+      const cookie = document.cookie.split('; ').find((entry) => entry.startsWith(prefix));
+      return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private writeCookie(value: string, maxAge: number): void {
+    try {
+      document.cookie = `${this.key}=${encodeURIComponent(value)}; max-age=${maxAge}; path=/; SameSite=Lax`;
+    } catch {
+      // Cookies may be blocked; the ID then lasts for the page's lifetime
+    }
+  }
+}
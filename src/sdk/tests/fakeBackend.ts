@@ -0,0 +1,113 @@
+import { jest } from '@jest/globals';
+
+import { isPathExcluded } from '../src/paths';
+import { TrackingBatch, TrackingEvent, TrackingSettings } from '../src/types';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  body: Record<string, unknown> | undefined;
+  keepalive: boolean;
+}
+
+interface FakeBackend {
+  offline: boolean;
+  status: number;
+  settings: TrackingSettings;
+  requests: RecordedRequest[];
+  events: TrackingEvent[];
+  visitors: Set<string>;
+  fetch: jest.Mock<(input: RequestInfo | URL, init?: RequestInit) => Promise<Response>>;
+}
+
+/**
+ * In-memory stand-in for the tracking endpoints, passed to the tracker as its fetch
+ * Set `offline` to fail requests at the network level or `status` to answer with an error
+ */
+export const createFakeBackend = (
+  companyId: string,
+  settings: TrackingSettings = { enabled: true, excludedPaths: [] }
+): FakeBackend => {
+  const prefix = `http://localhost:3000/api/v1/tracking/companies/${companyId}`;
+  const requests: RecordedRequest[] = [];
+  const events: TrackingEvent[] = [];
+  const visitors = new Set<string>();
+
+  const backend: FakeBackend = {
+    offline: false,
+    status: 200,
+    settings,
+    requests,
+    events,
+    visitors,
+    fetch: jest.fn((input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      if (backend.offline) {
+        return Promise.reject(new TypeError('Failed to fetch'));
+      }
+
+      const path = String(input).replace(prefix, '');
+      const body = init?.body ? (JSON.parse(String(init.body)) as Record<string, unknown>) : undefined;
+      requests.push({ method: init?.method ?? 'GET', path, body, keepalive: init?.keepalive === true });
+
+      const respond = (status: number, payload: unknown): Promise<Response> =>
+        Promise.resolve({
+          ok: status < 400,
+          status,
+          json: () => Promise.resolve(payload),
+        } as Response);
+
+      if (backend.status >= 400) {
+        return respond(backend.status, { message: 'Error' });
+      }
+
+      if (path === '/config') {
+        return respond(200, backend.settings);
+      }
+
+      if (path === '/events') {
+        const batch = body as unknown as TrackingBatch;
+        const accepted = batch.events.filter(
+          (event) => !isPathExcluded(event.path, backend.settings.excludedPaths)
+        );
+        events.push(...accepted);
+        visitors.add(batch.visitorId);
+        return respond(202, {
+          visitorId: batch.visitorId,
+          accepted: accepted.length,
+          excluded: batch.events.length - accepted.length,
+          rejected: 0,
+        });
+      }
+
+      if (path === '/consent') {
+        const visitorId = String(body?.visitorId);
+        visitors.add(visitorId);
+        const consent = Object.fromEntries(
+          Object.entries(body?.purposes as Record<string, boolean>).map(([purpose, granted]) => [
+            purpose,
+            { granted, source: 'SDK', recordedAt: new Date().toISOString() },
+          ])
+        );
+        return respond(200, { visitorId, consent });
+      }
+
+      if (path.startsWith('/identify')) {
+        const visitorId = String(body?.visitorId);
+        if (!visitors.has(visitorId)) {
+          return respond(404, { message: 'Visitor not found' });
+        }
+        return respond(200, { id: visitorId, status: 'IDENTIFIED' });
+      }
+
+      return respond(404, { message: 'Not found' });
+    }),
+  };
+
+  return backend;
+};
+
+export const flushPromises = async (): Promise<void> => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
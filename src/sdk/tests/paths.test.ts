@@ -0,0 +1,25 @@
+import { describe, test, expect } from '@jest/globals';
+
+import { isPathExcluded } from '../src/paths';
+
+describe('isPathExcluded', () => {
+  const excludedPaths = ['/admin', '/internal/*', '/account/', '/docs/**/draft-*'];
+
+  test.each([
+    ['/admin', true],
+    ['/admin/users', true],
+    ['/Admin/', true],
+    ['/administrator', false],
+    ['/internal', false],
+    ['/internal/reports', true],
+    ['/internal/reports/2024', true],
+    ['/internal-docs', false],
+    ['/account/billing', true],
+    ['/docs/draft-tracking', true],
+    ['/docs/guides/draft-tracking/images', true],
+    ['/docs/guides', false],
+    ['/pricing', false],
+  ])('%s excluded: %s', (path, excluded) => {
+    expect(isPathExcluded(path, excludedPaths)).toBe(excluded);
+  });
+});
@@ -0,0 +1,273 @@
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+import { Tracker, ActivityType, TrackingRequestError } from '../src';
+import { createFakeBackend, flushPromises } from './fakeBackend';
+
+describe('Tracker', () => {
+  const companyId = 'company-1';
+  let backend: ReturnType<typeof createFakeBackend>;
+  let tracker: Tracker;
+
+  const createTracker = (options: Partial<ConstructorParameters<typeof Tracker>[0]> = {}): Tracker =>
+    new Tracker({
+      companyId,
+      apiUrl: 'http://localhost:3000/api/v1/',
+      fetch: backend.fetch as unknown as typeof fetch,
+      flushIntervalMs: 1000,
+      ...options,
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    backend = createFakeBackend(companyId, { enabled: true, excludedPaths: ['/admin'] });
+    tracker = createTracker();
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    jest.useRealTimers();
+  });
+
+  test('persists the visitor ID across tracker instances', () => {
+    const visitorId = tracker.visitorId;
+
+    expect(visitorId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(createTracker().visitorId).toBe(visitorId);
+    expect(createTracker({ companyId: 'company-2' }).visitorId).not.toBe(visitorId);
+  });
+
+  test('loads the settings and tracks the initial page and history navigation', async () => {
+    await tracker.init();
+    window.history.pushState(null, '', '/pricing');
+    window.history.replaceState({ tab: 'annual' }, '', '/pricing');
+    await tracker.flush();
+
+    expect(backend.requests[0]).toMatchObject({ method: 'GET', path: '/config' });
+    expect(backend.events.map((event) => event.path)).toEqual(['/', '/pricing']);
+    expect(backend.events[0].type).toBe(ActivityType.PAGE_VIEW);
+  });
+
+  test('batches activity events until the interval elapses', async () => {
+    await tracker.init();
+    tracker.track(ActivityType.FORM_SUBMIT, { formId: 'demo-request' });
+    tracker.track(ActivityType.FILE_DOWNLOAD, { fileId: 'whitepaper.pdf' });
+    expect(backend.events).toHaveLength(0);
+
+    jest.advanceTimersByTime(1000);
+    await flushPromises();
+
+    const batches = backend.requests.filter((request) => request.path === '/events');
+    expect(batches).toHaveLength(1);
+    expect(backend.events.map((event) => event.type)).toEqual([
+      ActivityType.PAGE_VIEW,
+      ActivityType.FORM_SUBMIT,
+      ActivityType.FILE_DOWNLOAD,
+    ]);
+    expect(backend.events[1].data).toEqual({ formId: 'demo-request' });
+  });
+
+  test('sends custom events with their properties', async () => {
+    await tracker.init();
+    tracker.event('demo_booked', {
+      plan: 'enterprise',
+      seats: 25,
+      bookedFor: new Date('2026-11-02T15:00:00.000Z'),
+      referral: undefined,
+    });
+    await tracker.flush();
+
+    expect(backend.events[1]).toMatchObject({
+      type: ActivityType.CUSTOM_EVENT,
+      data: {
+        eventName: 'demo_booked',
+        properties: { plan: 'enterprise', seats: 25, bookedFor: '2026-11-02T15:00:00.000Z' },
+      },
+    });
+  });
+
+  test('sends the mapped inputs of submitted forms, never passwords', async () => {
+    backend.settings.forms = [{ formId: 'demo', fields: ['work_email', 'password', 'agree'] }];
+    tracker.destroy();
+    tracker = createTracker({ autoPageViews: false, captureForms: true });
+    await tracker.init();
+
+    document.body.innerHTML = `
+      <form id="demo">
+        <input name="work_email" value="jane@acme.com" />
+        <input name="password" type="password" value="hunter2" />
+        <input name="agree" type="checkbox" checked />
+        <textarea name="message">Hello</textarea>
+      </form>
+      <form id="search"><input name="q" value="pricing" /></form>`;
+    document.querySelectorAll('form').forEach((form) => {
+      form.dispatchEvent(new Event('submit', { bubbles: true, cancelable: true }));
+    });
+    await tracker.flush();
+
+    expect(backend.events).toHaveLength(1);
+    expect(backend.events[0]).toMatchObject({
+      type: ActivityType.FORM_SUBMIT,
+      data: { formId: 'demo', fields: { work_email: 'jane@acme.com', agree: 'true' } },
+    });
+    document.body.innerHTML = '';
+  });
+
+  test('skips excluded paths and sends nothing when tracking is disabled', async () => {
+    window.history.replaceState(null, '', '/admin/users');
+    await tracker.init();
+    tracker.track(ActivityType.BUTTON_CLICK, { elementId: 'save' });
+    await tracker.flush();
+
+    backend.settings = { enabled: false, excludedPaths: [] };
+    const disabled = createTracker({ companyId });
+    await disabled.init();
+    disabled.track(ActivityType.BUTTON_CLICK);
+    await disabled.flush();
+    disabled.destroy();
+
+    expect(backend.requests.filter((request) => request.path === '/events')).toHaveLength(0);
+  });
+
+  test('keeps events queued while offline and delivers them when back online', async () => {
+    await tracker.init();
+    backend.offline = true;
+    await tracker.flush();
+
+    expect(backend.events).toHaveLength(0);
+    expect(JSON.parse(window.localStorage.getItem(`im_queue_${companyId}`) ?? '[]')).toHaveLength(1);
+
+    backend.offline = false;
+    window.dispatchEvent(new Event('online'));
+    await flushPromises();
+
+    expect(backend.events).toHaveLength(1);
+    expect(window.localStorage.getItem(`im_queue_${companyId}`)).toBe('[]');
+  });
+
+  test('delivers events queued on a previous page load', async () => {
+    await tracker.init();
+    backend.offline = true;
+    await tracker.flush();
+    tracker.destroy();
+
+    backend.offline = false;
+    tracker = createTracker({ autoPageViews: false });
+    await tracker.init();
+    jest.advanceTimersByTime(1000);
+    await flushPromises();
+
+    expect(backend.events).toHaveLength(1);
+  });
+
+  test('retries server errors with backoff and drops batches the backend rejects', async () => {
+    await tracker.init();
+    backend.status = 503;
+    await tracker.flush();
+    backend.status = 200;
+
+    jest.advanceTimersByTime(1000);
+    await flushPromises();
+    expect(backend.events).toHaveLength(1);
+
+    backend.status = 400;
+    tracker.track(ActivityType.BUTTON_CLICK);
+    await tracker.flush();
+    backend.status = 200;
+    await tracker.flush();
+
+    expect(backend.events).toHaveLength(1);
+    expect(backend.requests.filter((request) => request.path === '/events')).toHaveLength(3);
+  });
+
+  test('sends queued events with keepalive when the page is hidden', async () => {
+    await tracker.init();
+    window.dispatchEvent(new Event('pagehide'));
+    await flushPromises();
+
+    expect(backend.requests.find((request) => request.path === '/events')?.keepalive).toBe(true);
+  });
+
+  test('identifies the visitor after delivering its events', async () => {
+    const visitor = await tracker.identify({ email: 'jane@acme.com', gdprConsent: true });
+
+    expect(visitor).toEqual({ id: tracker.visitorId, status: 'IDENTIFIED' });
+    expect(backend.requests.map((request) => request.path)).toEqual([
+      '/config',
+      '/events',
+      '/identify',
+    ]);
+    expect(backend.requests[2].body).toEqual({
+      email: 'jane@acme.com',
+      gdprConsent: true,
+      visitorId: tracker.visitorId,
+    });
+  });
+
+  test('surfaces identification failures', async () => {
+    tracker = createTracker({ autoPageViews: false });
+
+    await expect(tracker.identifySigned('payload.signature')).rejects.toBeInstanceOf(
+      TrackingRequestError
+    );
+  });
+
+  test('sends the purposes the visitor declined with the identification', async () => {
+    await tracker.identify({
+      email: 'jane@acme.com',
+      gdprConsent: true,
+      consent: { crmSync: false },
+    });
+
+    expect(backend.requests[2].body).toEqual({
+      email: 'jane@acme.com',
+      gdprConsent: true,
+      consent: { CRM_SYNC: false },
+      visitorId: tracker.visitorId,
+    });
+  });
+
+  test('tracks cookieless until the visitor consents to analytics', async () => {
+    tracker.destroy();
+    tracker = createTracker({ requireConsent: true });
+    await tracker.flush();
+
+    expect(window.localStorage.getItem(`im_vid_${companyId}`)).toBeNull();
+    expect(createTracker({ requireConsent: true }).visitorId).not.toBe(tracker.visitorId);
+
+    const result = await tracker.consent({ analytics: true, enrichment: false }, 'v2');
+
+    expect(result.consent.ANALYTICS?.granted).toBe(true);
+    expect(backend.requests[backend.requests.length - 1]).toMatchObject({
+      path: '/consent',
+      body: {
+        visitorId: tracker.visitorId,
+        purposes: { ANALYTICS: true, ENRICHMENT: false },
+        policyVersion: 'v2',
+      },
+    });
+    expect(window.localStorage.getItem(`im_vid_${companyId}`)).toBe(tracker.visitorId);
+    expect(createTracker({ requireConsent: true }).visitorId).toBe(tracker.visitorId);
+  });
+
+  test('removes the stored visitor ID when analytics consent is withdrawn', async () => {
+    const visitorId = tracker.visitorId;
+
+    await tracker.consent({ analytics: false });
+
+    expect(tracker.visitorId).toBe(visitorId);
+    expect(window.localStorage.getItem(`im_vid_${companyId}`)).toBeNull();
+    expect(document.cookie).not.toContain(visitorId);
+    expect(createTracker().visitorId).not.toBe(visitorId);
+  });
+
+  test('starts a new visitor on reset', async () => {
+    const visitorId = tracker.visitorId;
+
+    await tracker.reset();
+
+    expect(tracker.visitorId).not.toBe(visitorId);
+    expect(backend.visitors.has(visitorId)).toBe(true);
+  });
+});
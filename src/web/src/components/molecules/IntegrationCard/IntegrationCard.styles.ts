@@ -171,4 +171,69 @@ export const StatusIndicator = styled.span<{
     forced-color-adjust: none;
     background-color: CanvasText;
   }
-`;
\ No newline at end of file
+`;
+/**
+ * Drawer listing the sync runs of the integration below the card actions
+ */
+export const HistoryDrawer = styled.section<{ theme: DefaultTheme }>`
+  margin-top: ${({ theme }) => theme.spacing.baseUnit * 2}px;
+  padding-top: ${({ theme }) => theme.spacing.baseUnit * 2}px;
+  border-top: 1px solid ${({ theme }) => theme.colors.border.main};
+  max-height: 400px;
+  overflow-y: auto;
+  cursor: default;
+
+  &[aria-busy="true"] {
+    opacity: 0.7;
+  }
+`;
+
+/**
+ * Drawer title with its close action
+ */
+export const HistoryHeader = styled.div<{ theme: DefaultTheme }>`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: ${({ theme }) => theme.spacing.baseUnit}px;
+
+  h4 {
+    margin: 0;
+  }
+`;
+
+/**
+ * List of sync runs, latest first
+ */
+export const SyncRunList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+`;
+
+/**
+ * Sync run with its status, counts and failed records
+ */
+export const SyncRunItem = styled.li<{ theme: DefaultTheme }>`
+  padding: ${({ theme }) => theme.spacing.baseUnit}px 0;
+  border-bottom: 1px solid ${({ theme }) => theme.colors.border.light};
+  font-size: 14px;
+
+  p {
+    margin: ${({ theme }) => theme.spacing.baseUnit / 2}px 0;
+  }
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+/**
+ * Visitors the CRM refused during a sync run
+ */
+export const FailedRecordList = styled.ul<{ theme: DefaultTheme }>`
+  margin: ${({ theme }) => theme.spacing.baseUnit / 2}px 0;
+  padding-left: ${({ theme }) => theme.spacing.baseUnit * 2}px;
+  color: ${({ theme }) => theme.colors.text.secondary};
+  word-break: break-word;
+`;
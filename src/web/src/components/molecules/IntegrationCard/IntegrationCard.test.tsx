@@ -4,7 +4,16 @@ import { vi } from 'vitest'; // v0.34.x
 import { axe, toHaveNoViolations } from 'jest-axe'; // v4.7.x
 
 import { IntegrationCard } from './IntegrationCard';
-import { Integration, IntegrationType, IntegrationStatus } from '../../../types/integration.types';
+import {
+  Integration,
+  IntegrationType,
+  IntegrationStatus,
+  CrmObject,
+  SyncRun,
+  SyncRunStatus,
+  SyncTrigger,
+  SyncMode
+} from '../../../types/integration.types';
 import { ThemeProvider } from '../../../providers/ThemeProvider';
 
 // Add jest-axe matchers
@@ -277,4 +286,162 @@ describe('IntegrationCard', () => {
     fireEvent.keyDown(disconnectButton, { key: 'Enter' });
     expect(mockCallbacks.onDisconnect).toHaveBeenCalled();
   });
-});
\ No newline at end of file
+
+  describe('sync history', () => {
+    const partialRun: SyncRun = {
+      id: 'sync-partial',
+      integrationId: mockIntegration.id,
+      status: SyncRunStatus.PARTIAL,
+      trigger: SyncTrigger.SCHEDULER,
+      triggeredBy: null,
+      retryOf: null,
+      syncObject: CrmObject.LEAD,
+      mode: SyncMode.DELTA,
+      recordsProcessed: 3,
+      recordsFailed: 1,
+      errorDetails: {
+        records: [{ visitorId: 'visitor-joe', message: 'Required fields are missing: [Company]', code: 400 }]
+      },
+      startedAt: new Date(Date.now() - 60000),
+      completedAt: new Date(Date.now() - 55000)
+    };
+    const retryRun: SyncRun = {
+      ...partialRun,
+      id: 'sync-retry',
+      status: SyncRunStatus.SUCCESS,
+      trigger: SyncTrigger.USER,
+      triggeredBy: 'user-1',
+      retryOf: partialRun.id,
+      mode: SyncMode.RETRY,
+      recordsProcessed: 1,
+      recordsFailed: 0,
+      errorDetails: null
+    };
+
+    const renderWithHistory = (
+      onLoadSyncHistory = vi.fn(() => Promise.resolve({ items: [partialRun], total: 1, page: 1, totalPages: 1 })),
+      onRetryFailed = vi.fn(() => Promise.resolve(retryRun))
+    ) => {
+      render(
+        <ThemeProvider>
+          <IntegrationCard
+            integration={mockIntegration}
+            onConnect={mockCallbacks.onConnect}
+            onDisconnect={mockCallbacks.onDisconnect}
+            onConfigure={mockCallbacks.onConfigure}
+            onLoadSyncHistory={onLoadSyncHistory}
+            onRetryFailed={onRetryFailed}
+            testId={testIds.card}
+          />
+        </ThemeProvider>
+      );
+      return { onLoadSyncHistory, onRetryFailed };
+    };
+
+    it('hides the sync history action without a history loader', () => {
+      render(
+        <ThemeProvider>
+          <IntegrationCard
+            integration={mockIntegration}
+            onConnect={mockCallbacks.onConnect}
+            onDisconnect={mockCallbacks.onDisconnect}
+            onConfigure={mockCallbacks.onConfigure}
+            testId={testIds.card}
+          />
+        </ThemeProvider>
+      );
+
+      expect(screen.queryByText('Sync history')).not.toBeInTheDocument();
+    });
+
+    it('lists sync runs with their failed records', async () => {
+      const { onLoadSyncHistory } = renderWithHistory();
+
+      fireEvent.click(screen.getByText('Sync history'));
+
+      const run = await screen.findByTestId(`sync-run-${partialRun.id}`);
+      expect(onLoadSyncHistory).toHaveBeenCalledWith(mockIntegration.id, 1);
+      expect(within(run).getByText(SyncRunStatus.PARTIAL)).toBeInTheDocument();
+      expect(within(run).getByText(/Scheduled/)).toBeInTheDocument();
+      expect(within(run).getByText('3 processed, 1 failed')).toBeInTheDocument();
+      expect(within(run).getByText(/Required fields are missing/)).toBeInTheDocument();
+      expect(within(run).getByText('visitor-joe')).toBeInTheDocument();
+    });
+
+    it('retries the failed records of a run and reloads the history', async () => {
+      const onLoadSyncHistory = vi.fn()
+        .mockResolvedValueOnce({ items: [partialRun], total: 1, page: 1, totalPages: 1 })
+        .mockResolvedValueOnce({ items: [retryRun, partialRun], total: 2, page: 1, totalPages: 1 });
+      const { onRetryFailed } = renderWithHistory(onLoadSyncHistory);
+
+      fireEvent.click(screen.getByText('Sync history'));
+      const run = await screen.findByTestId(`sync-run-${partialRun.id}`);
+      fireEvent.click(within(run).getByText('Retry failed'));
+
+      await waitFor(() => {
+        expect(onRetryFailed).toHaveBeenCalledWith(mockIntegration.id, partialRun.id);
+      });
+      const retried = await screen.findByTestId(`sync-run-${retryRun.id}`);
+      expect(within(retried).getByText(/Retry/)).toBeInTheDocument();
+      expect(within(retried).queryByText('Retry failed')).not.toBeInTheDocument();
+      expect(onLoadSyncHistory).toHaveBeenCalledTimes(2);
+    });
+
+    it('loads more runs when the history has more pages', async () => {
+      const onLoadSyncHistory = vi.fn()
+        .mockResolvedValueOnce({ items: [retryRun], total: 2, page: 1, totalPages: 2 })
+        .mockResolvedValueOnce({ items: [partialRun], total: 2, page: 2, totalPages: 2 });
+      renderWithHistory(onLoadSyncHistory);
+
+      fireEvent.click(screen.getByText('Sync history'));
+      fireEvent.click(await screen.findByText('Load more'));
+
+      await screen.findByTestId(`sync-run-${partialRun.id}`);
+      expect(screen.getByTestId(`sync-run-${retryRun.id}`)).toBeInTheDocument();
+      expect(onLoadSyncHistory).toHaveBeenLastCalledWith(mockIntegration.id, 2);
+      expect(screen.queryByText('Load more')).not.toBeInTheDocument();
+    });
+
+    it('runs a full resync once confirmed and lists it in the history', async () => {
+      const fullRun: SyncRun = {
+        ...partialRun,
+        id: 'sync-full',
+        status: SyncRunStatus.SUCCESS,
+        trigger: SyncTrigger.USER,
+        triggeredBy: 'user-1',
+        mode: SyncMode.FULL,
+        recordsFailed: 0,
+        errorDetails: null
+      };
+      const onLoadSyncHistory = vi.fn()
+        .mockResolvedValueOnce({ items: [partialRun], total: 1, page: 1, totalPages: 1 })
+        .mockResolvedValueOnce({ items: [fullRun, partialRun], total: 2, page: 1, totalPages: 1 });
+      const onFullResync = vi.fn(() => Promise.resolve(fullRun));
+      const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+      render(
+        <ThemeProvider>
+          <IntegrationCard
+            integration={mockIntegration}
+            onConnect={mockCallbacks.onConnect}
+            onDisconnect={mockCallbacks.onDisconnect}
+            onConfigure={mockCallbacks.onConfigure}
+            onLoadSyncHistory={onLoadSyncHistory}
+            onFullResync={onFullResync}
+            testId={testIds.card}
+          />
+        </ThemeProvider>
+      );
+
+      fireEvent.click(screen.getByText('Sync history'));
+      await screen.findByTestId(`sync-run-${partialRun.id}`);
+      fireEvent.click(screen.getByText('Full resync'));
+      expect(onFullResync).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText('Full resync'));
+      const resynced = await screen.findByTestId(`sync-run-${fullRun.id}`);
+      expect(onFullResync).toHaveBeenCalledWith(mockIntegration.id);
+      expect(within(resynced).getByText(/Manual full resync/)).toBeInTheDocument();
+      confirm.mockRestore();
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useMemo } from 'react'; // v18.x
-import { formatDistanceToNow } from 'date-fns'; // v2.x
+import { formatDistanceToNow, formatDistanceStrict } from 'date-fns'; // v2.x
 
 import {
   CardContainer,
@@ -7,7 +7,12 @@ import {
   CardContent,
   CardFooter,
   IntegrationIcon,
-  StatusIndicator
+  StatusIndicator,
+  HistoryDrawer,
+  HistoryHeader,
+  SyncRunList,
+  SyncRunItem,
+  FailedRecordList
 } from './IntegrationCard.styles';
 import { Button } from '../../atoms/Button/Button';
 import { useTheme } from '../../../hooks/useTheme';
@@ -15,8 +20,30 @@ import {
   Integration,
   IntegrationType,
   IntegrationStatus,
+  SyncRun,
+  SyncRunPage,
+  SyncRunStatus,
+  SyncTrigger,
+  SyncMode
 } from '../../../types/integration.types';
 
+/** Status indicator color of each sync run status */
+const SYNC_RUN_INDICATORS: Record<SyncRunStatus, string> = {
+  [SyncRunStatus.RUNNING]: 'syncing',
+  [SyncRunStatus.SUCCESS]: 'active',
+  [SyncRunStatus.PARTIAL]: 'pending',
+  [SyncRunStatus.ERROR]: 'error'
+};
+
+/** Failed records listed per sync run before the rest are summarized */
+const MAX_LISTED_FAILED_RECORDS = 5;
+
+const describeTrigger = (run: SyncRun): string => {
+  if (run.mode === SyncMode.RETRY || run.retryOf) return 'Retry';
+  const trigger = run.trigger === SyncTrigger.USER ? 'Manual' : 'Scheduled';
+  return run.mode === SyncMode.FULL ? `${trigger} full resync` : trigger;
+};
+
 interface IntegrationCardProps {
   /** Integration data object with extended status information */
   integration: Integration;
@@ -26,6 +53,12 @@ interface IntegrationCardProps {
   onDisconnect: (id: string) => Promise<void>;
   /** Async handler for configure action with loading state */
   onConfigure: (id: string) => Promise<void>;
+  /** Optional loader of a page of sync history; shows the sync history drawer when set */
+  onLoadSyncHistory?: (id: string, page: number) => Promise<SyncRunPage>;
+  /** Optional handler pushing the records a sync run failed on again */
+  onRetryFailed?: (id: string, syncId: string) => Promise<unknown>;
+  /** Optional handler pushing every visitor again; shows the full resync action when set */
+  onFullResync?: (id: string) => Promise<unknown>;
   /** Optional CSS class for external styling */
   className?: string;
   /** Optional test ID for E2E testing */
@@ -41,12 +74,18 @@ export const IntegrationCard = React.memo<IntegrationCardProps>(({
   onConnect,
   onDisconnect,
   onConfigure,
+  onLoadSyncHistory,
+  onRetryFailed,
+  onFullResync,
   className,
   testId = 'integration-card'
 }) => {
   const { theme, isDark } = useTheme();
   const [loading, setLoading] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [syncRuns, setSyncRuns] = useState<SyncRun[]>([]);
+  const [historyPages, setHistoryPages] = useState({ page: 0, totalPages: 0 });
 
   // Format last sync time with relative formatting
   const lastSyncText = useMemo(() => {
@@ -102,6 +141,66 @@ export const IntegrationCard = React.memo<IntegrationCardProps>(({
     }
   }, [integration.id, onConfigure]);
 
+  // Sync history handlers, the first page replaces the loaded runs
+  const loadSyncHistory = useCallback(async (page: number) => {
+    if (!onLoadSyncHistory) return;
+    try {
+      setLoading('history');
+      const result = await onLoadSyncHistory(integration.id, page);
+      setSyncRuns(runs => (page === 1 ? result.items : [...runs, ...result.items]));
+      setHistoryPages({ page: result.page, totalPages: result.totalPages });
+    } catch (err) {
+      setError('Failed to load sync history');
+    } finally {
+      setLoading(null);
+    }
+  }, [integration.id, onLoadSyncHistory]);
+
+  const handleToggleHistory = useCallback(async () => {
+    setError(null);
+    if (historyOpen) {
+      setHistoryOpen(false);
+      return;
+    }
+    setHistoryOpen(true);
+    await loadSyncHistory(1);
+  }, [historyOpen, loadSyncHistory]);
+
+  const handleRetryFailed = useCallback(async (syncId: string) => {
+    if (!onRetryFailed) return;
+    try {
+      setLoading(`retry-${syncId}`);
+      setError(null);
+      await onRetryFailed(integration.id, syncId);
+    } catch (err) {
+      setError('Failed to retry failed records');
+    } finally {
+      setLoading(null);
+    }
+    // The retry is recorded as a run of its own, whether it succeeded or not
+    await loadSyncHistory(1);
+  }, [integration.id, onRetryFailed, loadSyncHistory]);
+
+  const handleFullResync = useCallback(async () => {
+    if (!onFullResync) return;
+    const confirmed = window.confirm(
+      `Push every visitor to ${integrationName} again? This can take a while on large accounts.`
+    );
+    if (!confirmed) return;
+    try {
+      setLoading('resync');
+      setError(null);
+      await onFullResync(integration.id);
+    } catch (err) {
+      setError('Failed to run a full resync');
+    } finally {
+      setLoading(null);
+    }
+    if (historyOpen) {
+      await loadSyncHistory(1);
+    }
+  }, [integration.id, integrationName, onFullResync, historyOpen, loadSyncHistory]);
+
   // Determine button states based on integration status
   const isConnected = integration.status === IntegrationStatus.ACTIVE;
   const isPending = integration.status === IntegrationStatus.PENDING;
@@ -183,7 +282,126 @@ export const IntegrationCard = React.memo<IntegrationCardProps>(({
         >
           Configure
         </Button>
+
+        {onFullResync && isConnected && (
+          <Button
+            variant="text"
+            size="medium"
+            onClick={handleFullResync}
+            loading={loading === 'resync'}
+            disabled={loading !== null}
+            ariaLabel={`Full resync of ${integrationName}`}
+          >
+            Full resync
+          </Button>
+        )}
+
+        {onLoadSyncHistory && (
+          <Button
+            variant="text"
+            size="medium"
+            onClick={handleToggleHistory}
+            disabled={loading !== null && loading !== 'history'}
+            ariaExpanded={historyOpen}
+            ariaControls={`${testId}-history`}
+            ariaLabel={`${integrationName} sync history`}
+          >
+            Sync history
+          </Button>
+        )}
       </CardFooter>
+
+      {historyOpen && (
+        <HistoryDrawer
+          id={`${testId}-history`}
+          role="region"
+          aria-label={`${integrationName} sync runs`}
+          aria-busy={loading === 'history'}
+          data-testid={`${testId}-history`}
+        >
+          <HistoryHeader>
+            <h4>Sync history</h4>
+            <Button
+              variant="text"
+              size="small"
+              onClick={handleToggleHistory}
+              ariaLabel="Close sync history"
+            >
+              Close
+            </Button>
+          </HistoryHeader>
+
+          {syncRuns.length === 0 && loading !== 'history' && (
+            <p>No synchronization has run yet</p>
+          )}
+
+          <SyncRunList>
+            {syncRuns.map(run => {
+              const failedRecords = run.errorDetails?.records || [];
+              return (
+                <SyncRunItem key={run.id} data-testid={`sync-run-${run.id}`}>
+                  <div>
+                    <StatusIndicator
+                      status={SYNC_RUN_INDICATORS[run.status]}
+                      aria-hidden="true"
+                    />
+                    <span>{run.status}</span>
+                    <span> · {describeTrigger(run)}</span>
+                  </div>
+                  <p>
+                    {`Started ${formatDistanceToNow(new Date(run.startedAt))} ago, `}
+                    {run.completedAt
+                      ? `took ${formatDistanceStrict(new Date(run.completedAt), new Date(run.startedAt))}`
+                      : 'in progress'}
+                  </p>
+                  <p>{`${run.recordsProcessed} processed, ${run.recordsFailed} failed`}</p>
+                  {run.errorDetails?.message && (
+                    <p style={{ color: theme.colors.text.error }}>{run.errorDetails.message}</p>
+                  )}
+
+                  {failedRecords.length > 0 && (
+                    <FailedRecordList aria-label="Failed records">
+                      {failedRecords.slice(0, MAX_LISTED_FAILED_RECORDS).map(record => (
+                        <li key={record.visitorId}>
+                          <code>{record.visitorId}</code>: {record.message}
+                        </li>
+                      ))}
+                      {failedRecords.length > MAX_LISTED_FAILED_RECORDS && (
+                        <li>{`and ${failedRecords.length - MAX_LISTED_FAILED_RECORDS} more`}</li>
+                      )}
+                    </FailedRecordList>
+                  )}
+
+                  {onRetryFailed && failedRecords.length > 0 && run.status !== SyncRunStatus.RUNNING && (
+                    <Button
+                      variant="secondary"
+                      size="small"
+                      onClick={() => handleRetryFailed(run.id)}
+                      loading={loading === `retry-${run.id}`}
+                      disabled={loading !== null}
+                      ariaLabel={`Retry ${failedRecords.length} failed records`}
+                    >
+                      Retry failed
+                    </Button>
+                  )}
+                </SyncRunItem>
+              );
+            })}
+          </SyncRunList>
+
+          {historyPages.page < historyPages.totalPages && (
+            <Button
+              variant="text"
+              size="small"
+              onClick={() => loadSyncHistory(historyPages.page + 1)}
+              loading={loading === 'history'}
+              disabled={loading !== null}
+            >
+              Load more
+            </Button>
+          )}
+        </HistoryDrawer>
+      )}
     </CardContainer>
   );
 });
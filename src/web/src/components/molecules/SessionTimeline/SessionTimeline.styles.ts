@@ -0,0 +1,89 @@
+import styled from 'styled-components';
+import { colors, spacing, typography } from '../../../styles/variables.styles';
+
+// Constants for timeline layout
+const MARKER_SIZE = '8px';
+const RAIL_WIDTH = '2px';
+
+export const TimelineContainer = styled.section`
+  width: 100%;
+`;
+
+export const SessionList = styled.ol`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+`;
+
+export const SessionItem = styled.li`
+  position: relative;
+  padding: 0 0 ${spacing.space.md} ${spacing.space.md};
+  border-left: ${RAIL_WIDTH} solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+
+  &::before {
+    content: '';
+    position: absolute;
+    top: 4px;
+    left: calc(-${MARKER_SIZE} / 2 - ${RAIL_WIDTH} / 2);
+    width: ${MARKER_SIZE};
+    height: ${MARKER_SIZE};
+    border-radius: 50%;
+    background: ${colors.primary};
+  }
+
+  &:last-child {
+    padding-bottom: 0;
+  }
+`;
+
+export const SessionHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  gap: ${spacing.space.sm};
+  font-size: ${typography.fontSize.sm};
+  font-weight: ${typography.fontWeight.medium};
+
+  span:last-child {
+    font-weight: ${typography.fontWeight.regular};
+    opacity: 0.7;
+  }
+`;
+
+export const SessionSummary = styled.p`
+  margin: ${spacing.space.xs} 0;
+  font-size: ${typography.fontSize.xs};
+  opacity: 0.8;
+  word-break: break-all;
+`;
+
+export const ActivityList = styled.ol`
+  list-style: none;
+  margin: ${spacing.space.xs} 0 0;
+  padding: 0;
+`;
+
+export const ActivityItem = styled.li`
+  display: flex;
+  gap: ${spacing.space.sm};
+  padding: 2px 0;
+  font-size: ${typography.fontSize.xs};
+
+  time {
+    flex-shrink: 0;
+    opacity: 0.7;
+  }
+
+  span {
+    word-break: break-all;
+  }
+`;
+
+export const EmptyState = styled.p`
+  margin: 0;
+  font-size: ${typography.fontSize.sm};
+  opacity: 0.7;
+`;
+
+export const LoadMore = styled.div`
+  margin-top: ${spacing.space.sm};
+`;
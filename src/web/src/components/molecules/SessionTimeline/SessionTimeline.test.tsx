@@ -0,0 +1,109 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { axe, toHaveNoViolations } from 'jest-axe';
+
+import SessionTimeline from './SessionTimeline';
+import { ThemeProvider } from '../../../providers/ThemeProvider';
+import { VisitorSession } from '../../../types/visitor.types';
+
+// Add jest-axe matchers
+expect.extend(toHaveNoViolations);
+
+// Mock date utility to ensure consistent output
+jest.mock('../../../utils/date.util', () => ({
+  getRelativeTime: jest.fn(() => '2 hours ago'),
+  formatDate: jest.fn(() => '09:00')
+}));
+
+const mockSessions: VisitorSession[] = [
+  {
+    id: 'session-2',
+    visitorId: 'visitor-1',
+    startedAt: '2024-02-02T09:00:00Z',
+    endedAt: '2024-02-02T09:04:00Z',
+    durationSeconds: 240,
+    landingPage: 'https://acme.com/pricing?utm_source=newsletter',
+    exitPage: 'https://acme.com/signup',
+    pageCount: 2,
+    activityCount: 4,
+    referrer: 'https://news.example.com/issue-12',
+    utmSource: 'newsletter',
+    activities: [
+      { id: 'activity-3', type: 'PAGE_VIEW', timestamp: '2024-02-02T09:00:00Z', data: { url: 'https://acme.com/pricing?utm_source=newsletter' } },
+      { id: 'activity-4', type: 'FORM_SUBMIT', timestamp: '2024-02-02T09:02:00Z', data: { formId: 'demo-request' } },
+      { id: 'activity-5', type: 'CUSTOM_EVENT', timestamp: '2024-02-02T09:03:00Z', data: { eventName: 'demo_booked', properties: { plan: 'pro' } } },
+      { id: 'activity-6', type: 'PAGE_VIEW', timestamp: '2024-02-02T09:04:00Z', data: { url: 'https://acme.com/signup' } }
+    ]
+  },
+  {
+    id: 'session-1',
+    visitorId: 'visitor-1',
+    startedAt: '2024-02-01T15:00:00Z',
+    endedAt: '2024-02-01T15:00:00Z',
+    durationSeconds: 0,
+    landingPage: 'https://acme.com/',
+    exitPage: 'https://acme.com/',
+    pageCount: 1,
+    activityCount: 1,
+    referrer: 'https://www.google.com/',
+    utmSource: null,
+    activities: [
+      { id: 'activity-1', type: 'PAGE_VIEW', timestamp: '2024-02-01T15:00:00Z', data: { url: 'https://acme.com/' } }
+    ]
+  }
+];
+
+const renderTimeline = (props = {}) =>
+  render(
+    <ThemeProvider defaultMode="light">
+      <SessionTimeline sessions={mockSessions} {...props} />
+    </ThemeProvider>
+  );
+
+describe('SessionTimeline', () => {
+  it('renders each session with its source, pages and duration', () => {
+    renderTimeline();
+
+    const sessions = screen.getAllByRole('listitem', { name: /Session started/ });
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0]).toHaveTextContent('4 min · 2 pages');
+    expect(sessions[0]).toHaveTextContent('via newsletter · landed on /pricing?utm_source=newsletter · left from /signup');
+    expect(sessions[1]).toHaveTextContent('<1 min · 1 page');
+    expect(sessions[1]).toHaveTextContent('from www.google.com · landed on /');
+  });
+
+  it('lists the activities of each session in order', () => {
+    renderTimeline();
+
+    const activities = within(screen.getByRole('list', { name: 'Activities of session session-2' }))
+      .getAllByRole('listitem');
+    expect(activities.map(activity => activity.textContent)).toEqual([
+      '09:00Viewed /pricing?utm_source=newsletter',
+      '09:00Submitted form demo-request',
+      '09:00Performed demo_booked',
+      '09:00Viewed /signup'
+    ]);
+  });
+
+  it('shows an empty state without sessions', () => {
+    renderTimeline({ sessions: [] });
+
+    expect(screen.getByText('No sessions recorded yet')).toBeInTheDocument();
+  });
+
+  it('loads earlier sessions when requested', async () => {
+    const onLoadMore = jest.fn();
+    renderTimeline({ hasMore: true, onLoadMore });
+
+    await userEvent.click(screen.getByRole('button', { name: 'Show earlier sessions' }));
+
+    expect(onLoadMore).toHaveBeenCalled();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = renderTimeline({ hasMore: true, onLoadMore: jest.fn() });
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Timeline of a visitor's sessions with the activities of each
+ * Sessions are listed most recent first, activities oldest first
+ * @version 1.0.0
+ */
+
+import React from 'react';
+import {
+  TimelineContainer,
+  SessionList,
+  SessionItem,
+  SessionHeader,
+  SessionSummary,
+  ActivityList,
+  ActivityItem,
+  EmptyState,
+  LoadMore
+} from './SessionTimeline.styles';
+import Button from '../../atoms/Button/Button';
+import { VisitorSession, SessionActivity } from '../../../types/visitor.types';
+import { formatDate, getRelativeTime } from '../../../utils/date.util';
+
+/**
+ * Props interface for SessionTimeline component
+ */
+interface SessionTimelineProps {
+  /** Sessions, most recent first */
+  sessions: VisitorSession[];
+  /** Whether earlier sessions can be loaded */
+  hasMore?: boolean;
+  /** Loads the next page of earlier sessions */
+  onLoadMore?: () => void;
+  loading?: boolean;
+}
+
+/**
+ * Human-readable labels for activity types
+ */
+const ACTIVITY_LABELS: Record<string, string> = {
+  PAGE_VIEW: 'Viewed',
+  FORM_SUBMIT: 'Submitted form',
+  BUTTON_CLICK: 'Clicked',
+  FILE_DOWNLOAD: 'Downloaded',
+  CUSTOM_EVENT: 'Performed'
+};
+
+/**
+ * Shortens a URL to its path and query
+ */
+const toPath = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Formats a session duration, e.g. "4 min" or "1 h 12 min"
+ */
+const formatDuration = (seconds: number): string => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 1) {
+    return '<1 min';
+  }
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+/**
+ * Describes where a session came from
+ */
+const describeSource = (session: VisitorSession): string => {
+  if (session.utmSource) {
+    return `via ${session.utmSource}`;
+  }
+  if (session.referrer) {
+    try {
+      return `from ${new URL(session.referrer).hostname}`;
+    } catch {
+      return `from ${session.referrer}`;
+    }
+  }
+  return 'Direct';
+};
+
+/**
+ * Describes an activity with the custom event, page, form, element or file involved
+ */
+const describeActivity = (activity: SessionActivity): string => {
+  const label = ACTIVITY_LABELS[activity.type] || activity.type;
+  const { url, formId, elementId, fileId, eventName } = activity.data;
+  const subject = eventName || fileId || formId || elementId || (url ? toPath(url) : '');
+  return subject ? `${label} ${subject}` : label;
+};
+
+/**
+ * Session timeline replacing the flat activity list of the visitor detail view
+ */
+export const SessionTimeline: React.FC<SessionTimelineProps> = React.memo(({
+  sessions,
+  hasMore = false,
+  onLoadMore,
+  loading = false
+}) => (
+  <TimelineContainer aria-label="Session timeline" data-testid="session-timeline">
+    {sessions.length === 0 ? (
+      <EmptyState>No sessions recorded yet</EmptyState>
+    ) : (
+      <SessionList>
+        {sessions.map(session => (
+          <SessionItem key={session.id} aria-label={`Session started ${getRelativeTime(session.startedAt)}`}>
+            <SessionHeader>
+              <span>{getRelativeTime(session.startedAt)}</span>
+              <span>
+                {formatDuration(session.durationSeconds)}
+                {' · '}
+                {session.pageCount} {session.pageCount === 1 ? 'page' : 'pages'}
+              </span>
+            </SessionHeader>
+            <SessionSummary>
+              {describeSource(session)}
+              {session.landingPage && ` · landed on ${toPath(session.landingPage)}`}
+              {session.exitPage && session.exitPage !== session.landingPage &&
+                ` · left from ${toPath(session.exitPage)}`}
+            </SessionSummary>
+            <ActivityList aria-label={`Activities of session ${session.id}`}>
+              {session.activities.map(activity => (
+                <ActivityItem key={activity.id}>
+                  <time dateTime={activity.timestamp}>{formatDate(activity.timestamp, 'HH:mm')}</time>
+                  <span>{describeActivity(activity)}</span>
+                </ActivityItem>
+              ))}
+            </ActivityList>
+          </SessionItem>
+        ))}
+      </SessionList>
+    )}
+
+    {hasMore && onLoadMore && (
+      <LoadMore>
+        <Button
+          variant="secondary"
+          size="small"
+          disabled={loading}
+          onClick={onLoadMore}
+          ariaLabel="Show earlier sessions"
+        >
+          Show earlier sessions
+        </Button>
+      </LoadMore>
+    )}
+  </TimelineContainer>
+));
+
+SessionTimeline.displayName = 'SessionTimeline';
+
+export default SessionTimeline;
@@ -60,6 +60,33 @@ export const CardHeader = styled.div`
   }
 `;
 
+/**
+ * Row of badges showing the visitor's CRM owner, lifecycle stage and open deal
+ */
+export const CrmBadges = styled.ul`
+  display: flex;
+  flex-wrap: wrap;
+  gap: calc(${CARD_PADDING} / 2);
+  margin: 0 0 ${CARD_PADDING};
+  padding: 0;
+  list-style: none;
+`;
+
+/**
+ * Single CRM relationship badge
+ */
+export const CrmBadge = styled.li`
+  padding: 2px ${CARD_PADDING};
+  border-radius: 12px;
+  background-color: ${({ theme }) =>
+    theme.mode === 'dark' ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.06)'};
+  color: ${({ theme }) =>
+    theme.mode === 'dark' ? colors.text.dark : colors.text.light};
+  font-size: ${typography.fontSize.sm};
+  font-weight: ${typography.fontWeight.medium};
+  white-space: nowrap;
+`;
+
 /**
  * Main content area for visitor information
  * Supports responsive layout and proper text wrapping
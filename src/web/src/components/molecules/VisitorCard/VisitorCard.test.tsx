@@ -10,6 +10,7 @@ import { axe, toHaveNoViolations } from 'jest-axe';
 import { ThemeProvider } from '@emotion/react';
 import VisitorCard from './VisitorCard';
 import { Visitor, VisitorStatus } from '../../../types/visitor.types';
+import { CrmObject, IntegrationType } from '../../../types/integration.types';
 import { ThemeMode } from '../../../types/theme.types';
 import { getRelativeTime } from '../../../utils/date.util';
 
@@ -121,6 +122,44 @@ describe('VisitorCard Component', () => {
     });
   });
 
+  describe('CRM relationship', () => {
+    const crm = {
+      type: IntegrationType.SALESFORCE,
+      object: CrmObject.ACCOUNT,
+      recordId: '0015e00000GlBxQAAV',
+      owner: 'Marcus Lee',
+      lifecycleStage: 'Customer - Direct',
+      openOpportunity: { id: '0065e00000RtYuIAAV', name: 'Globex - Platform Expansion', amount: 48000 },
+      dealStage: 'Negotiation/Review',
+      syncedAt: '2023-01-01T00:10:00Z'
+    };
+
+    it('shows the CRM owner, lifecycle stage and open deal as badges', () => {
+      renderWithTheme(<VisitorCard visitor={createMockVisitor({ crm })} />);
+
+      const badges = within(screen.getByRole('list', { name: 'CRM relationship' }));
+      expect(badges.getByText('Owner: Marcus Lee')).toBeInTheDocument();
+      expect(badges.getByText('Customer - Direct')).toBeInTheDocument();
+      expect(badges.getByText('Open deal · Negotiation/Review'))
+        .toHaveAttribute('title', expect.stringContaining('Globex - Platform Expansion'));
+    });
+
+    it('shows only the relationship fields the CRM has values for', () => {
+      renderWithTheme(<VisitorCard visitor={createMockVisitor({
+        crm: { ...crm, lifecycleStage: null, openOpportunity: null, dealStage: null }
+      })} />);
+
+      expect(screen.getByText('Owner: Marcus Lee')).toBeInTheDocument();
+      expect(screen.queryByText(/Open deal/)).not.toBeInTheDocument();
+    });
+
+    it('shows no badges for visitors not linked to a CRM record', () => {
+      renderWithTheme(<VisitorCard visitor={createMockVisitor({ crm: null })} />);
+
+      expect(screen.queryByRole('list', { name: 'CRM relationship' })).not.toBeInTheDocument();
+    });
+  });
+
   // Interaction tests
   describe('Interactions', () => {
     it('calls onClick handler when clicked', () => {
@@ -11,9 +11,11 @@ import {
   CardContent, 
   StatusIndicator, 
   VisitorInfo, 
-  LastSeen 
+  LastSeen,
+  CrmBadges,
+  CrmBadge
 } from './VisitorCard.styles';
-import { Visitor, VisitorStatus } from '../../../types/visitor.types';
+import { Visitor, VisitorCrmState, VisitorStatus } from '../../../types/visitor.types';
 import { getRelativeTime } from '../../../utils/date.util';
 
 /**
@@ -41,6 +43,8 @@ const getStatusLabel = (status: VisitorStatus): string => {
       return 'Identified';
     case VisitorStatus.ENRICHED:
       return 'Enriched';
+    case VisitorStatus.COMPANY_RESOLVED:
+      return 'Company Resolved';
     case VisitorStatus.ANONYMOUS:
     default:
       return 'Anonymous';
@@ -55,12 +59,39 @@ const getStatusIndicatorState = (status: VisitorStatus): 'active' | 'inactive' |
     case VisitorStatus.ENRICHED:
       return 'active';
     case VisitorStatus.IDENTIFIED:
+    case VisitorStatus.COMPANY_RESOLVED:
       return 'new';
     default:
       return 'inactive';
   }
 };
 
+/**
+ * Builds the badges showing who owns the visitor in the CRM and where they stand in its pipeline
+ */
+const getCrmBadges = (crm?: VisitorCrmState | null): Array<{ key: string; label: string; title?: string }> => {
+  const badges: Array<{ key: string; label: string; title?: string }> = [];
+  if (!crm) {
+    return badges;
+  }
+
+  if (crm.owner) {
+    badges.push({ key: 'owner', label: `Owner: ${crm.owner}` });
+  }
+  if (crm.lifecycleStage) {
+    badges.push({ key: 'lifecycle', label: crm.lifecycleStage });
+  }
+  if (crm.openOpportunity) {
+    const { name, amount } = crm.openOpportunity;
+    badges.push({
+      key: 'opportunity',
+      label: crm.dealStage ? `Open deal · ${crm.dealStage}` : 'Open deal',
+      title: amount !== null ? `${name} (${amount.toLocaleString()})` : name
+    });
+  }
+  return badges;
+};
+
 /**
  * VisitorCard component displaying visitor information with theme and accessibility support
  */
@@ -75,6 +106,7 @@ const VisitorCard: React.FC<VisitorCardProps> = React.memo(({
   const statusLabel = useMemo(() => getStatusLabel(visitor.status), [visitor.status]);
   const statusState = useMemo(() => getStatusIndicatorState(visitor.status), [visitor.status]);
   const lastSeenTime = useMemo(() => getRelativeTime(visitor.lastSeen), [visitor.lastSeen]);
+  const crmBadges = useMemo(() => getCrmBadges(visitor.crm), [visitor.crm]);
 
   // Memoize click handler
   const handleClick = useCallback(() => {
@@ -114,6 +146,16 @@ const VisitorCard: React.FC<VisitorCardProps> = React.memo(({
         </div>
       </CardHeader>
 
+      {crmBadges.length > 0 && (
+        <CrmBadges aria-label="CRM relationship">
+          {crmBadges.map(badge => (
+            <CrmBadge key={badge.key} title={badge.title}>
+              {badge.label}
+            </CrmBadge>
+          ))}
+        </CrmBadges>
+      )}
+
       <CardContent>
         <VisitorInfo>
           <label htmlFor={`visitor-email-${visitor.id}`}>Email</label>
@@ -0,0 +1,50 @@
+import styled from 'styled-components';
+import { colors, spacing, typography } from '../../../styles/variables.styles';
+
+// Constants for account layout
+const VISITOR_GRID_MIN_WIDTH = '280px';
+
+export const AccountName = styled.div`
+  display: flex;
+  flex-direction: column;
+
+  span:last-child {
+    font-size: ${typography.fontSize.xs};
+    opacity: 0.7;
+  }
+`;
+
+export const TopPages = styled.ol`
+  margin: 0;
+  padding-left: ${spacing.space.md};
+  font-size: ${typography.fontSize.xs};
+`;
+
+export const DrillDownHeader = styled.header`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${spacing.space.md};
+  margin-bottom: ${spacing.space.md};
+  padding-bottom: ${spacing.space.sm};
+  border-bottom: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+
+  h2 {
+    margin: 0;
+    font-family: ${typography.fontFamilyHeading};
+    font-size: ${typography.fontSize.lg};
+    font-weight: ${typography.fontWeight.semibold};
+  }
+
+  p {
+    margin: ${spacing.space.xs} 0 0;
+    font-size: ${typography.fontSize.sm};
+    opacity: 0.8;
+  }
+`;
+
+export const VisitorGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fill, minmax(${VISITOR_GRID_MIN_WIDTH}, 1fr));
+  gap: ${spacing.space.md};
+`;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { axe, toHaveNoViolations } from 'jest-axe';
+
+import AccountTable from './AccountTable';
+import { ThemeProvider } from '../../../providers/ThemeProvider';
+import { AccountSummary, Visitor, VisitorStatus } from '../../../types/visitor.types';
+
+// Add jest-axe matchers
+expect.extend(toHaveNoViolations);
+
+// Mock date utility to ensure consistent output
+jest.mock('../../../utils/date.util', () => ({
+  getRelativeTime: jest.fn(() => '5 minutes ago')
+}));
+
+const mockAccounts: AccountSummary[] = [
+  {
+    domain: 'acme.com',
+    name: 'Acme Corp',
+    visitorCount: 4,
+    engagedPeople: 2,
+    totalVisits: 17,
+    totalTimeSpent: 5400,
+    topScore: 60,
+    firstSeen: '2024-01-01T00:00:00Z',
+    lastSeen: '2024-02-02T00:00:00Z',
+    topPages: [
+      { url: '/pricing', views: 3 },
+      { url: '/docs', views: 2 }
+    ]
+  },
+  {
+    domain: 'globex.com',
+    name: null,
+    visitorCount: 1,
+    engagedPeople: 0,
+    totalVisits: 1,
+    totalTimeSpent: 120,
+    topScore: 0,
+    firstSeen: '2024-02-01T00:00:00Z',
+    lastSeen: '2024-02-01T00:00:00Z',
+    topPages: []
+  }
+];
+
+const mockVisitor: Visitor = {
+  id: 'visitor-1',
+  companyId: 'company-1',
+  email: 'jane@acme.com',
+  status: VisitorStatus.IDENTIFIED,
+  metadata: {
+    ipAddress: '203.0.113.10',
+    userAgent: 'Mozilla/5.0',
+    referrer: '',
+    location: { country: 'US', city: 'Boston', region: 'MA' }
+  },
+  enrichedData: null,
+  firstSeen: '2024-01-01T00:00:00Z',
+  lastSeen: '2024-02-02T00:00:00Z'
+};
+
+const renderTable = (props = {}) => {
+  const onAccountSelect = jest.fn();
+  const onBack = jest.fn();
+  return {
+    onAccountSelect,
+    onBack,
+    ...render(
+      <ThemeProvider defaultMode="light">
+        <AccountTable
+          accounts={mockAccounts}
+          onAccountSelect={onAccountSelect}
+          onBack={onBack}
+          {...props}
+        />
+      </ThemeProvider>
+    )
+  };
+};
+
+describe('AccountTable', () => {
+  beforeAll(() => {
+    // Mock ResizeObserver for Material Table
+    global.ResizeObserver = class ResizeObserver {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    };
+  });
+
+  it('renders one row per account with its rollup', () => {
+    renderTable();
+
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent('Acme Corp');
+    expect(rows[1]).toHaveTextContent('1h 30m');
+    expect(rows[1]).toHaveTextContent('/pricing (3)');
+    expect(rows[2]).toHaveTextContent('globex.com');
+  });
+
+  it('drills down when an account is clicked', async () => {
+    const { onAccountSelect } = renderTable();
+
+    await userEvent.click(screen.getByText('Acme Corp'));
+
+    expect(onAccountSelect).toHaveBeenCalledWith(mockAccounts[0]);
+  });
+
+  it('lists the visitors of the selected account', async () => {
+    const { onBack } = renderTable({
+      selectedAccount: mockAccounts[0],
+      accountVisitors: [mockVisitor]
+    });
+
+    expect(screen.getByRole('heading', { name: 'Acme Corp' })).toBeInTheDocument();
+    expect(screen.getByText(/4 visitors/)).toBeInTheDocument();
+    expect(screen.getByText('jane@acme.com')).toBeInTheDocument();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Back to accounts' }));
+    expect(onBack).toHaveBeenCalled();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = renderTable();
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,211 @@
+import React, { useCallback, useMemo } from 'react';
+import MaterialTable, { Column } from '@material-table/core'; // v5.x
+import dayjs from 'dayjs'; // v1.11.x
+
+// Internal imports
+import {
+  AccountName,
+  TopPages,
+  DrillDownHeader,
+  VisitorGrid
+} from './AccountTable.styles';
+import Button from '../../atoms/Button/Button';
+import VisitorCard from '../../molecules/VisitorCard/VisitorCard';
+
+// Types
+import { AccountSummary, AccountSortField, Visitor } from '../../../types/visitor.types';
+
+/**
+ * Table columns that map to a server-side sort field
+ */
+const SORTABLE_FIELDS: AccountSortField[] = [
+  'lastSeen',
+  'visitorCount',
+  'engagedPeople',
+  'totalVisits',
+  'totalTimeSpent'
+];
+
+interface AccountTableProps {
+  accounts: AccountSummary[];
+  loading?: boolean;
+  pageSize?: number;
+  selectedAccount?: AccountSummary | null;
+  accountVisitors?: Visitor[];
+  onAccountSelect: (account: AccountSummary) => void;
+  onBack?: () => void;
+  onVisitorSelect?: (visitor: Visitor) => void;
+  onSearchChange?: (search: string) => void;
+  onSortChange?: (sortBy: AccountSortField) => void;
+  onRefresh?: () => void;
+}
+
+/**
+ * Formats seconds on site as hours and minutes
+ */
+const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+/**
+ * Account rollup table with drill-down to the visitors of the selected account
+ */
+export const AccountTable: React.FC<AccountTableProps> = React.memo(({
+  accounts,
+  loading = false,
+  pageSize = 25,
+  selectedAccount = null,
+  accountVisitors = [],
+  onAccountSelect,
+  onBack = () => {},
+  onVisitorSelect,
+  onSearchChange = () => {},
+  onSortChange = () => {},
+  onRefresh = () => {}
+}) => {
+  /**
+   * Table columns configuration
+   */
+  const columns = useMemo<Column<AccountSummary>[]>(() => [
+    {
+      title: 'Account',
+      field: 'domain',
+      render: (rowData) => (
+        <AccountName>
+          <span>{rowData.name || rowData.domain}</span>
+          <span>{rowData.domain}</span>
+        </AccountName>
+      ),
+      sorting: false,
+      width: '20%'
+    },
+    {
+      title: 'Visitors',
+      field: 'visitorCount',
+      type: 'numeric',
+      width: '8%'
+    },
+    {
+      title: 'Engaged People',
+      field: 'engagedPeople',
+      type: 'numeric',
+      width: '10%'
+    },
+    {
+      title: 'Visits',
+      field: 'totalVisits',
+      type: 'numeric',
+      width: '8%'
+    },
+    {
+      title: 'Time on Site',
+      field: 'totalTimeSpent',
+      render: (rowData) => formatDuration(rowData.totalTimeSpent),
+      width: '10%'
+    },
+    {
+      title: 'Top Pages',
+      field: 'topPages',
+      render: (rowData) => (
+        rowData.topPages.length > 0 ? (
+          <TopPages>
+            {rowData.topPages.map(page => (
+              <li key={page.url}>{`${page.url} (${page.views})`}</li>
+            ))}
+          </TopPages>
+        ) : '-'
+      ),
+      sorting: false,
+      width: '29%'
+    },
+    {
+      title: 'Last Seen',
+      field: 'lastSeen',
+      render: (rowData) => dayjs(rowData.lastSeen).format('MMM D, YYYY HH:mm'),
+      defaultSort: 'desc',
+      width: '15%'
+    }
+  ], []);
+
+  /**
+   * Forward column sorting to the server, which sorts descending
+   */
+  const handleOrderChange = useCallback((columnIndex: number) => {
+    const field = columns[columnIndex]?.field as AccountSortField | undefined;
+    if (field && SORTABLE_FIELDS.includes(field)) {
+      onSortChange(field);
+    }
+  }, [columns, onSortChange]);
+
+  if (selectedAccount) {
+    return (
+      <section aria-label={`Visitors of ${selectedAccount.domain}`} data-testid="account-drill-down">
+        <DrillDownHeader>
+          <div>
+            <h2>{selectedAccount.name || selectedAccount.domain}</h2>
+            <p>
+              {selectedAccount.visitorCount} {selectedAccount.visitorCount === 1 ? 'visitor' : 'visitors'}
+              {' · '}{selectedAccount.engagedPeople} identified
+              {' · '}{formatDuration(selectedAccount.totalTimeSpent)} on site
+            </p>
+          </div>
+          <Button variant="secondary" size="small" onClick={onBack} ariaLabel="Back to accounts">
+            Back to accounts
+          </Button>
+        </DrillDownHeader>
+
+        <VisitorGrid>
+          {accountVisitors.map(visitor => (
+            <VisitorCard key={visitor.id} visitor={visitor} onClick={onVisitorSelect} />
+          ))}
+        </VisitorGrid>
+        {!loading && accountVisitors.length === 0 && <p>No visitors to display</p>}
+      </section>
+    );
+  }
+
+  return (
+    <MaterialTable
+      columns={columns}
+      data={accounts}
+      title="Accounts"
+      isLoading={loading}
+      options={{
+        pageSize,
+        pageSizeOptions: [10, 25, 50, 100],
+        sorting: true,
+        headerStyle: {
+          fontWeight: 'bold'
+        },
+        maxBodyHeight: 'calc(100vh - 300px)',
+        debounceInterval: 500,
+        searchAutoFocus: false
+      }}
+      onRowClick={(_, rowData) => rowData && onAccountSelect(rowData)}
+      onSearchChange={onSearchChange}
+      onOrderChange={handleOrderChange}
+      actions={[
+        {
+          icon: 'refresh',
+          tooltip: 'Refresh Data',
+          isFreeAction: true,
+          onClick: onRefresh
+        }
+      ]}
+      localization={{
+        body: {
+          emptyDataSourceMessage: 'No accounts to display'
+        },
+        toolbar: {
+          searchPlaceholder: 'Search accounts...'
+        }
+      }}
+    />
+  );
+});
+
+AccountTable.displayName = 'AccountTable';
+
+export default AccountTable;
@@ -0,0 +1,76 @@
+import styled from 'styled-components';
+import { colors, spacing, typography } from '../../../styles/variables.styles';
+
+// Constants for attribution layout
+const BORDER_RADIUS = '8px';
+
+export const AttributionContainer = styled.section`
+  width: 100%;
+  padding: ${spacing.space.lg};
+  border-radius: ${BORDER_RADIUS};
+  border: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+  background: ${({ theme }) => theme.mode === 'dark' ? colors.background.dark : colors.background.light};
+  color: ${({ theme }) => theme.mode === 'dark' ? colors.text.dark : colors.text.light};
+
+  h3 {
+    margin: ${spacing.space.lg} 0 ${spacing.space.sm};
+    font-size: ${typography.fontSize.sm};
+    font-weight: ${typography.fontWeight.medium};
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+    opacity: 0.7;
+  }
+`;
+
+export const PanelHeader = styled.header`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${spacing.space.md};
+
+  h2 {
+    margin: 0;
+    font-family: ${typography.fontFamilyHeading};
+    font-size: ${typography.fontSize.lg};
+    font-weight: ${typography.fontWeight.semibold};
+  }
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: ${spacing.space.sm};
+    font-size: ${typography.fontSize.sm};
+  }
+`;
+
+export const AttributionTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: ${typography.fontSize.sm};
+
+  th,
+  td {
+    padding: ${spacing.space.xs} ${spacing.space.sm};
+    text-align: left;
+    border-bottom: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+  }
+
+  th {
+    font-weight: ${typography.fontWeight.semibold};
+  }
+
+  td:not(:first-child),
+  th:not(:first-child) {
+    text-align: right;
+  }
+`;
+
+export const CampaignName = styled.div`
+  display: flex;
+  flex-direction: column;
+
+  span:last-child {
+    font-size: ${typography.fontSize.xs};
+    opacity: 0.7;
+  }
+`;
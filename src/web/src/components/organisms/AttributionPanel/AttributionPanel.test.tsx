@@ -0,0 +1,80 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { axe, toHaveNoViolations } from 'jest-axe';
+
+import AttributionPanel from './AttributionPanel';
+import { ThemeProvider } from '../../../providers/ThemeProvider';
+import { AttributionReport } from '../../../types/visitor.types';
+
+// Add jest-axe matchers
+expect.extend(toHaveNoViolations);
+
+const mockReport: AttributionReport = {
+  model: 'LINEAR',
+  channels: [
+    { channel: 'PAID_SEARCH', visitors: 12.5, identified: 4.33, enriched: 2 },
+    { channel: 'DIRECT', visitors: 3, identified: 1, enriched: 0 }
+  ],
+  campaigns: [
+    { channel: 'PAID_SEARCH', source: 'google', campaign: 'brand-q4', visitors: 8, identified: 3, enriched: 1 }
+  ]
+};
+
+const renderPanel = (props = {}) => {
+  const onModelChange = jest.fn();
+  return {
+    onModelChange,
+    ...render(
+      <ThemeProvider defaultMode="light">
+        <AttributionPanel
+          report={mockReport}
+          model="LINEAR"
+          onModelChange={onModelChange}
+          {...props}
+        />
+      </ThemeProvider>
+    )
+  };
+};
+
+describe('AttributionPanel', () => {
+  it('lists credited visitors per channel', () => {
+    renderPanel();
+
+    const rows = within(screen.getByRole('table', { name: 'Channels' })).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent('Paid search');
+    expect(rows[1]).toHaveTextContent('12.5');
+    expect(rows[1]).toHaveTextContent('4.33');
+    expect(rows[2]).toHaveTextContent('Direct');
+  });
+
+  it('lists campaigns with their channel and source', () => {
+    renderPanel();
+
+    const rows = within(screen.getByRole('table', { name: 'Campaigns' })).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent('brand-q4');
+    expect(rows[1]).toHaveTextContent('Paid search · google');
+  });
+
+  it('switches the attribution model', async () => {
+    const { onModelChange } = renderPanel();
+
+    await userEvent.selectOptions(screen.getByLabelText('Model'), 'FIRST_TOUCH');
+
+    expect(onModelChange).toHaveBeenCalledWith('FIRST_TOUCH');
+  });
+
+  it('shows empty states without attributed visitors', () => {
+    renderPanel({ report: { model: 'FIRST_TOUCH', channels: [], campaigns: [] } });
+
+    expect(screen.getByText('No attributed visitors yet')).toBeInTheDocument();
+    expect(screen.getByText('No campaigns tracked yet')).toBeInTheDocument();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = renderPanel();
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,152 @@
+import React, { useCallback } from 'react';
+
+// Internal imports
+import {
+  AttributionContainer,
+  PanelHeader,
+  AttributionTable,
+  CampaignName
+} from './AttributionPanel.styles';
+
+// Types
+import {
+  AttributionModel,
+  AttributionReport,
+  AttributionCredit,
+  MarketingChannel
+} from '../../../types/visitor.types';
+
+/**
+ * Human-readable labels of the marketing channels
+ */
+const CHANNEL_LABELS: Record<MarketingChannel, string> = {
+  ORGANIC_SEARCH: 'Organic search',
+  PAID_SEARCH: 'Paid search',
+  SOCIAL: 'Social',
+  EMAIL: 'Email',
+  DIRECT: 'Direct',
+  REFERRAL: 'Referral'
+};
+
+/**
+ * Human-readable labels of the attribution models, in selector order
+ */
+const MODEL_LABELS: Record<AttributionModel, string> = {
+  FIRST_TOUCH: 'First touch',
+  LAST_TOUCH: 'Last touch',
+  LINEAR: 'Linear'
+};
+
+interface AttributionPanelProps {
+  report: AttributionReport | null;
+  model: AttributionModel;
+  onModelChange: (model: AttributionModel) => void;
+  loading?: boolean;
+}
+
+/**
+ * Formats credited visitors, keeping up to two decimals of linear credit
+ */
+const formatCredit = (value: number): string =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Renders the credit cells shared by the channel and campaign tables
+ */
+const CreditCells: React.FC<{ credit: AttributionCredit }> = ({ credit }) => (
+  <>
+    <td>{formatCredit(credit.visitors)}</td>
+    <td>{formatCredit(credit.identified)}</td>
+    <td>{formatCredit(credit.enriched)}</td>
+  </>
+);
+
+/**
+ * Dashboard panel reporting identified and enriched visitors by marketing channel and campaign
+ */
+export const AttributionPanel: React.FC<AttributionPanelProps> = React.memo(({
+  report,
+  model,
+  onModelChange,
+  loading = false
+}) => {
+  const handleModelChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    onModelChange(event.target.value as AttributionModel);
+  }, [onModelChange]);
+
+  const channels = report?.channels || [];
+  const campaigns = report?.campaigns || [];
+
+  return (
+    <AttributionContainer aria-label="Marketing attribution" aria-busy={loading} data-testid="attribution-panel">
+      <PanelHeader>
+        <h2>Attribution</h2>
+        <label>
+          Model
+          <select value={model} onChange={handleModelChange} disabled={loading}>
+            {(Object.keys(MODEL_LABELS) as AttributionModel[]).map(option => (
+              <option key={option} value={option}>{MODEL_LABELS[option]}</option>
+            ))}
+          </select>
+        </label>
+      </PanelHeader>
+
+      <h3 id="attribution-channels">Channels</h3>
+      {channels.length > 0 ? (
+        <AttributionTable aria-labelledby="attribution-channels">
+          <thead>
+            <tr>
+              <th scope="col">Channel</th>
+              <th scope="col">Visitors</th>
+              <th scope="col">Identified</th>
+              <th scope="col">Enriched</th>
+            </tr>
+          </thead>
+          <tbody>
+            {channels.map(row => (
+              <tr key={row.channel}>
+                <td>{CHANNEL_LABELS[row.channel]}</td>
+                <CreditCells credit={row} />
+              </tr>
+            ))}
+          </tbody>
+        </AttributionTable>
+      ) : (
+        !loading && <p>No attributed visitors yet</p>
+      )}
+
+      <h3 id="attribution-campaigns">Campaigns</h3>
+      {campaigns.length > 0 ? (
+        <AttributionTable aria-labelledby="attribution-campaigns">
+          <thead>
+            <tr>
+              <th scope="col">Campaign</th>
+              <th scope="col">Visitors</th>
+              <th scope="col">Identified</th>
+              <th scope="col">Enriched</th>
+            </tr>
+          </thead>
+          <tbody>
+            {campaigns.map(row => (
+              <tr key={`${row.channel}:${row.source}:${row.campaign}`}>
+                <td>
+                  <CampaignName>
+                    <span>{row.campaign}</span>
+                    <span>{[CHANNEL_LABELS[row.channel], row.source].filter(Boolean).join(' · ')}</span>
+                  </CampaignName>
+                </td>
+                <CreditCells credit={row} />
+              </tr>
+            ))}
+          </tbody>
+        </AttributionTable>
+      ) : (
+        !loading && <p>No campaigns tracked yet</p>
+      )}
+    </AttributionContainer>
+  );
+});
+
+AttributionPanel.displayName = 'AttributionPanel';
+
+export default AttributionPanel;
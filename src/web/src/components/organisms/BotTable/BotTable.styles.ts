@@ -0,0 +1,56 @@
+import styled from 'styled-components';
+import { colors, spacing, typography } from '../../../styles/variables.styles';
+
+// Constants for bot list layout
+const BORDER_RADIUS = '8px';
+const BADGE_RADIUS = '12px';
+
+export const BotContainer = styled.section`
+  width: 100%;
+  padding: ${spacing.space.lg};
+  border-radius: ${BORDER_RADIUS};
+  border: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+  background: ${({ theme }) => theme.mode === 'dark' ? colors.background.dark : colors.background.light};
+  color: ${({ theme }) => theme.mode === 'dark' ? colors.text.dark : colors.text.light};
+
+  h2 {
+    margin: 0 0 ${spacing.space.md};
+    font-family: ${typography.fontFamilyHeading};
+    font-size: ${typography.fontSize.lg};
+    font-weight: ${typography.fontWeight.semibold};
+  }
+`;
+
+export const BotList = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: ${typography.fontSize.sm};
+
+  th,
+  td {
+    padding: ${spacing.space.sm};
+    text-align: left;
+    vertical-align: top;
+    border-bottom: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+  }
+
+  th {
+    font-weight: ${typography.fontWeight.semibold};
+  }
+`;
+
+export const SignalList = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${spacing.space.xs};
+`;
+
+export const SignalBadge = styled.li`
+  padding: 0 ${spacing.space.sm};
+  border-radius: ${BADGE_RADIUS};
+  font-size: ${typography.fontSize.xs};
+  border: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+`;
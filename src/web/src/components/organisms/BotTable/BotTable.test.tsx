@@ -0,0 +1,79 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { axe, toHaveNoViolations } from 'jest-axe';
+
+import BotTable from './BotTable';
+import { ThemeProvider } from '../../../providers/ThemeProvider';
+import { Visitor, VisitorStatus } from '../../../types/visitor.types';
+
+// Add jest-axe matchers
+expect.extend(toHaveNoViolations);
+
+const mockBot: Visitor = {
+  id: 'visitor-1',
+  companyId: 'company-1',
+  email: null,
+  status: VisitorStatus.ANONYMOUS,
+  metadata: {
+    ipAddress: '198.51.100.23',
+    userAgent: 'Mozilla/5.0 (compatible; UptimeRobot/2.0)',
+    referrer: '',
+    location: { country: 'US', city: 'Ashburn', region: 'VA' }
+  },
+  enrichedData: null,
+  trafficQuality: {
+    isBot: true,
+    signals: [
+      { type: 'USER_AGENT', detail: 'Mozilla/5.0 (compatible; UptimeRobot/2.0)', detectedAt: '2024-02-02T00:00:00Z' },
+      { type: 'DATACENTER_IP', detail: 'Example Cloud', detectedAt: '2024-02-02T00:00:00Z' }
+    ],
+    classifiedAt: '2024-02-02T00:00:00Z'
+  },
+  firstSeen: '2024-02-01T00:00:00Z',
+  lastSeen: '2024-02-02T00:00:00Z'
+};
+
+const renderTable = (props = {}) => {
+  const onUnflag = jest.fn();
+  return {
+    onUnflag,
+    ...render(
+      <ThemeProvider defaultMode="light">
+        <BotTable bots={[mockBot]} total={1} onUnflag={onUnflag} {...props} />
+      </ThemeProvider>
+    )
+  };
+};
+
+describe('BotTable', () => {
+  it('lists bots with the signals they were flagged on', () => {
+    renderTable();
+
+    const rows = within(screen.getByRole('table')).getAllByRole('row');
+    expect(screen.getByRole('heading', { name: 'Bots (1)' })).toBeInTheDocument();
+    expect(rows[1]).toHaveTextContent('UptimeRobot');
+    expect(rows[1]).toHaveTextContent('Bot user agent');
+    expect(screen.getByText('Datacenter IP')).toHaveAttribute('title', 'Example Cloud');
+  });
+
+  it('unflags a visitor reviewed as human', async () => {
+    const { onUnflag } = renderTable();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Unflag visitor visitor-1 as human' }));
+
+    expect(onUnflag).toHaveBeenCalledWith('visitor-1');
+  });
+
+  it('shows an empty state without bots', () => {
+    renderTable({ bots: [], total: 0 });
+
+    expect(screen.getByText('No visitors flagged as bots')).toBeInTheDocument();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = renderTable();
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
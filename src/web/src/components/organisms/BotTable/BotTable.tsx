@@ -0,0 +1,92 @@
+import React from 'react';
+import dayjs from 'dayjs'; // v1.11.x
+
+// Internal imports
+import {
+  BotContainer,
+  BotList,
+  SignalList,
+  SignalBadge
+} from './BotTable.styles';
+import Button from '../../atoms/Button/Button';
+
+// Types
+import { BotSignalType, Visitor } from '../../../types/visitor.types';
+
+/**
+ * Human-readable labels of the bot signals
+ */
+const SIGNAL_LABELS: Record<BotSignalType, string> = {
+  USER_AGENT: 'Bot user agent',
+  HEADLESS_BROWSER: 'Headless browser',
+  DATACENTER_IP: 'Datacenter IP',
+  PAGE_RATE: 'Page rate'
+};
+
+interface BotTableProps {
+  bots: Visitor[];
+  total: number;
+  onUnflag: (visitorId: string) => void;
+  loading?: boolean;
+}
+
+/**
+ * Admin list of visitors hidden from visitor lists as bots, with the signals they were flagged on
+ * Unflagging a visitor shows it in visitor lists again and keeps it from being flagged later
+ */
+export const BotTable: React.FC<BotTableProps> = React.memo(({
+  bots,
+  total,
+  onUnflag,
+  loading = false
+}) => (
+  <BotContainer aria-label="Bot traffic" aria-busy={loading} data-testid="bot-table">
+    <h2>{`Bots (${total})`}</h2>
+    {bots.length > 0 ? (
+      <BotList>
+        <thead>
+          <tr>
+            <th scope="col">Visitor</th>
+            <th scope="col">Signals</th>
+            <th scope="col">Last Seen</th>
+            <th scope="col"><span className="sr-only">Actions</span></th>
+          </tr>
+        </thead>
+        <tbody>
+          {bots.map(visitor => (
+            <tr key={visitor.id}>
+              <td>{visitor.metadata.userAgent || visitor.id}</td>
+              <td>
+                <SignalList>
+                  {visitor.trafficQuality?.signals.map(signal => (
+                    <SignalBadge key={signal.type} title={signal.detail}>
+                      {SIGNAL_LABELS[signal.type]}
+                    </SignalBadge>
+                  ))}
+                </SignalList>
+              </td>
+              <td>{dayjs(visitor.lastSeen).format('MMM D, YYYY HH:mm')}</td>
+              <td>
+                <Button
+                  variant="secondary"
+                  size="small"
+                  onClick={() => onUnflag(visitor.id)}
+                  disabled={loading}
+                  ariaLabel={`Unflag visitor ${visitor.id} as human`}
+                >
+                  Not a bot
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </BotList>
+    ) : (
+      !loading && <p>No visitors flagged as bots</p>
+    )}
+  </BotContainer>
+));
+
+BotTable.displayName = 'BotTable';
+
+export default BotTable;
@@ -0,0 +1,78 @@
+import styled from 'styled-components';
+import { colors, spacing, typography } from '../../../styles/variables.styles';
+
+// Constants for review layout
+const BORDER_RADIUS = '8px';
+const PANEL_MAX_WIDTH = '480px';
+const BADGE_RADIUS = '12px';
+
+export const ReviewContainer = styled.section`
+  width: 100%;
+  max-width: ${PANEL_MAX_WIDTH};
+  margin-top: ${spacing.space.md};
+  padding: ${spacing.space.lg};
+  border-radius: ${BORDER_RADIUS};
+  border: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+  background: ${({ theme }) => theme.mode === 'dark' ? colors.background.dark : colors.background.light};
+  color: ${({ theme }) => theme.mode === 'dark' ? colors.text.dark : colors.text.light};
+
+  h3 {
+    margin: 0 0 ${spacing.space.sm};
+    font-size: ${typography.fontSize.sm};
+    font-weight: ${typography.fontWeight.medium};
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+    opacity: 0.7;
+  }
+`;
+
+export const FieldRow = styled.div`
+  padding: ${spacing.space.sm} 0;
+  border-bottom: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+export const FieldHeader = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${spacing.space.sm};
+  font-size: ${typography.fontSize.sm};
+  font-weight: ${typography.fontWeight.medium};
+`;
+
+export const FieldValue = styled.span`
+  font-weight: ${typography.fontWeight.regular};
+  opacity: 0.8;
+`;
+
+export const LockedBadge = styled.span`
+  margin-left: auto;
+  padding: 0 ${spacing.space.sm};
+  border-radius: ${BADGE_RADIUS};
+  font-size: ${typography.fontSize.xs};
+  border: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+`;
+
+export const CandidateList = styled.ul`
+  list-style: none;
+  margin: ${spacing.space.xs} 0;
+  padding: 0;
+`;
+
+export const CandidateItem = styled.li`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${spacing.space.sm};
+  padding: ${spacing.space.xs} 0;
+  font-size: ${typography.fontSize.sm};
+`;
+
+export const OverrideForm = styled.form`
+  display: flex;
+  align-items: center;
+  gap: ${spacing.space.sm};
+`;
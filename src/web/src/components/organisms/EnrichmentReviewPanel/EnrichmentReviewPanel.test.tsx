@@ -0,0 +1,137 @@
+import React from 'react';
+import { render, screen, within, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { axe, toHaveNoViolations } from 'jest-axe';
+
+import EnrichmentReviewPanel from './EnrichmentReviewPanel';
+import { ThemeProvider } from '../../../providers/ThemeProvider';
+import { Visitor, VisitorStatus } from '../../../types/visitor.types';
+
+// Add jest-axe matchers
+expect.extend(toHaveNoViolations);
+
+const mockVisitor: Visitor = {
+  id: 'visitor-1',
+  companyId: 'company-1',
+  email: 'jane@acme.com',
+  status: VisitorStatus.ENRICHED,
+  metadata: {
+    ipAddress: '203.0.113.10',
+    userAgent: 'Mozilla/5.0',
+    referrer: '',
+    location: { country: 'US', city: 'Boston', region: 'MA' }
+  },
+  enrichedData: {
+    company: 'Acme',
+    title: 'VP Sales',
+    industry: 'Software',
+    size: '',
+    revenue: '',
+    provenance: {
+      company: { provider: 'person', retrievedAt: '2024-02-01T00:00:00Z', confidence: 0.5 },
+      title: { provider: 'manual', retrievedAt: '2024-02-02T00:00:00Z', confidence: 1 },
+      industry: { provider: 'firmographic', retrievedAt: '2024-02-01T00:00:00Z', confidence: 0.67 }
+    },
+    candidates: {
+      company: [
+        { provider: 'person', value: 'Acme', confidence: 0.5, retrievedAt: '2024-02-01T00:00:00Z' },
+        { provider: 'firmographic', value: 'Acme Corporation', confidence: 0.5, retrievedAt: '2024-02-01T00:00:00Z' }
+      ],
+      title: [
+        { provider: 'person', value: 'Sales', confidence: 0.67, retrievedAt: '2024-02-01T00:00:00Z' }
+      ],
+      industry: [
+        { provider: 'firmographic', value: 'Software', confidence: 0.67, retrievedAt: '2024-02-01T00:00:00Z' }
+      ]
+    },
+    overrides: {
+      title: { value: 'VP Sales', provider: null, userId: 'user-1', lockedAt: '2024-02-02T00:00:00Z' }
+    }
+  },
+  mergedInto: null,
+  firstSeen: '2024-01-01T00:00:00Z',
+  lastSeen: '2024-02-02T00:00:00Z'
+};
+
+const renderPanel = (props = {}) => {
+  const onOverride = jest.fn().mockResolvedValue(undefined);
+  const onRelease = jest.fn().mockResolvedValue(undefined);
+  return {
+    onOverride,
+    onRelease,
+    ...render(
+      <ThemeProvider defaultMode="light">
+        <EnrichmentReviewPanel
+          visitor={mockVisitor}
+          onOverride={onOverride}
+          onRelease={onRelease}
+          {...props}
+        />
+      </ThemeProvider>
+    )
+  };
+};
+
+describe('EnrichmentReviewPanel', () => {
+  it('lists conflicting and locked fields with confidence per candidate', () => {
+    renderPanel();
+
+    expect(screen.getByLabelText('Company review')).toHaveTextContent('Acme · 50%');
+    expect(screen.getByLabelText('Title review')).toHaveTextContent('Locked manually');
+    expect(screen.queryByLabelText('Industry review')).not.toBeInTheDocument();
+
+    const candidates = within(screen.getByRole('list', { name: 'Company candidates' })).getAllByRole('listitem');
+    expect(candidates).toHaveLength(2);
+    expect(candidates[1]).toHaveTextContent('Acme Corporation — firmographic (50%)');
+  });
+
+  it('accepts a provider candidate', async () => {
+    const { onOverride } = renderPanel();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Accept company from firmographic' }));
+
+    await waitFor(() => {
+      expect(onOverride).toHaveBeenCalledWith('visitor-1', 'company', { provider: 'firmographic' });
+    });
+  });
+
+  it('locks a manually entered value', async () => {
+    const { onOverride } = renderPanel();
+
+    await userEvent.type(screen.getByLabelText('Override company'), ' Acme Inc ');
+    await userEvent.click(within(screen.getByLabelText('Company review')).getByRole('button', { name: 'Lock' }));
+
+    await waitFor(() => {
+      expect(onOverride).toHaveBeenCalledWith('visitor-1', 'company', { value: 'Acme Inc' });
+    });
+  });
+
+  it('unlocks a locked field', async () => {
+    const { onRelease } = renderPanel();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Unlock title' }));
+
+    await waitFor(() => {
+      expect(onRelease).toHaveBeenCalledWith('visitor-1', 'title');
+    });
+  });
+
+  it('hides review controls for users without permission', () => {
+    renderPanel({ canReview: false });
+
+    expect(screen.queryByRole('button', { name: /Accept/ })).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Override company')).not.toBeInTheDocument();
+  });
+
+  it('renders nothing when there is nothing to review', () => {
+    renderPanel({ visitor: { ...mockVisitor, enrichedData: { ...mockVisitor.enrichedData!, candidates: {}, overrides: {} } } });
+
+    expect(screen.queryByTestId('enrichment-review-panel')).not.toBeInTheDocument();
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = renderPanel();
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
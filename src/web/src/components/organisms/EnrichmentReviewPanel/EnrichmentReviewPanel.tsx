@@ -0,0 +1,190 @@
+import React, { useCallback, useMemo, useState } from 'react';
+
+// Internal imports
+import {
+  ReviewContainer,
+  FieldRow,
+  FieldHeader,
+  FieldValue,
+  LockedBadge,
+  CandidateList,
+  CandidateItem,
+  OverrideForm
+} from './EnrichmentReviewPanel.styles';
+import Button from '../../atoms/Button/Button';
+import Input from '../../atoms/Input/Input';
+
+// Types
+import {
+  Visitor,
+  ReviewableField,
+  FieldCandidate,
+  FieldOverrideInput
+} from '../../../types/visitor.types';
+
+/**
+ * Human-readable labels of the reviewable enriched fields, in display order
+ */
+const FIELD_LABELS: Record<ReviewableField, string> = {
+  company: 'Company',
+  title: 'Title',
+  industry: 'Industry',
+  size: 'Company size',
+  revenue: 'Revenue',
+  website: 'Website',
+  linkedinUrl: 'LinkedIn'
+};
+
+interface EnrichmentReviewPanelProps {
+  visitor: Visitor;
+  onOverride: (visitorId: string, field: ReviewableField, input: FieldOverrideInput) => Promise<void>;
+  onRelease: (visitorId: string, field: ReviewableField) => Promise<void>;
+  canReview?: boolean;
+  loading?: boolean;
+}
+
+/**
+ * Formats a 0-1 confidence as a percentage
+ */
+const formatConfidence = (confidence?: number): string =>
+  confidence === undefined ? 'unscored' : `${Math.round(confidence * 100)}%`;
+
+/**
+ * Determines whether providers supplied different values for a field, ignoring case and whitespace
+ */
+const hasConflict = (candidates: FieldCandidate[] = []): boolean =>
+  new Set(candidates.map(candidate => String(candidate.value).trim().toLowerCase())).size > 1;
+
+/**
+ * Review panel for enriched fields where providers disagree or a team member locked the value
+ * Members can accept a provider's candidate or enter a value; both lock the field against re-enrichment
+ */
+export const EnrichmentReviewPanel: React.FC<EnrichmentReviewPanelProps> = React.memo(({
+  visitor,
+  onOverride,
+  onRelease,
+  canReview = true,
+  loading = false
+}) => {
+  const [drafts, setDrafts] = useState<Partial<Record<ReviewableField, string>>>({});
+  const enrichedData = visitor.enrichedData;
+
+  const fields = useMemo(() => (Object.keys(FIELD_LABELS) as ReviewableField[]).filter(field =>
+    enrichedData?.overrides?.[field] || hasConflict(enrichedData?.candidates?.[field])
+  ), [enrichedData]);
+
+  /**
+   * Submit a review decision with error logging, clearing the entered value on success
+   */
+  const handleOverride = useCallback(async (field: ReviewableField, input: FieldOverrideInput) => {
+    try {
+      await onOverride(visitor.id, field, input);
+      setDrafts(current => ({ ...current, [field]: '' }));
+    } catch (error) {
+      console.error('Enriched field override failed:', error);
+    }
+  }, [onOverride, visitor.id]);
+
+  /**
+   * Unlock a field with error logging
+   */
+  const handleRelease = useCallback(async (field: ReviewableField) => {
+    try {
+      await onRelease(visitor.id, field);
+    } catch (error) {
+      console.error('Enriched field release failed:', error);
+    }
+  }, [onRelease, visitor.id]);
+
+  if (!enrichedData || fields.length === 0) {
+    return null;
+  }
+
+  return (
+    <ReviewContainer
+      aria-label="Enrichment review"
+      data-testid="enrichment-review-panel"
+    >
+      <h3>Enrichment review</h3>
+      {fields.map(field => {
+        const label = FIELD_LABELS[field];
+        const override = enrichedData.overrides?.[field];
+        const draft = drafts[field] || '';
+
+        return (
+          <FieldRow key={field} role="group" aria-label={`${label} review`}>
+            <FieldHeader>
+              <span>{label}</span>
+              <FieldValue>
+                {enrichedData[field] || '—'}
+                {' · '}
+                {formatConfidence(enrichedData.provenance?.[field]?.confidence)}
+              </FieldValue>
+              {override && (
+                <LockedBadge>
+                  {override.provider ? `Locked to ${override.provider}` : 'Locked manually'}
+                </LockedBadge>
+              )}
+            </FieldHeader>
+
+            <CandidateList aria-label={`${label} candidates`}>
+              {(enrichedData.candidates?.[field] || []).map(candidate => (
+                <CandidateItem key={candidate.provider}>
+                  <span>{`${candidate.value} — ${candidate.provider} (${formatConfidence(candidate.confidence)})`}</span>
+                  {canReview && (
+                    <Button
+                      variant="secondary"
+                      size="small"
+                      disabled={loading || override?.provider === candidate.provider}
+                      onClick={() => handleOverride(field, { provider: candidate.provider })}
+                      ariaLabel={`Accept ${label.toLowerCase()} from ${candidate.provider}`}
+                    >
+                      Accept
+                    </Button>
+                  )}
+                </CandidateItem>
+              ))}
+            </CandidateList>
+
+            {canReview && (
+              <OverrideForm
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  if (draft.trim()) {
+                    handleOverride(field, { value: draft.trim() });
+                  }
+                }}
+              >
+                <Input
+                  aria-label={`Override ${label.toLowerCase()}`}
+                  value={draft}
+                  maxLength={255}
+                  disabled={loading}
+                  onChange={(event) => setDrafts(current => ({ ...current, [field]: event.target.value }))}
+                />
+                <Button type="submit" size="small" disabled={loading || !draft.trim()}>
+                  Lock
+                </Button>
+                {override && (
+                  <Button
+                    variant="text"
+                    size="small"
+                    disabled={loading}
+                    onClick={() => handleRelease(field)}
+                    ariaLabel={`Unlock ${label.toLowerCase()}`}
+                  >
+                    Unlock
+                  </Button>
+                )}
+              </OverrideForm>
+            )}
+          </FieldRow>
+        );
+      })}
+    </ReviewContainer>
+  );
+});
+
+EnrichmentReviewPanel.displayName = 'EnrichmentReviewPanel';
+
+export default EnrichmentReviewPanel;
@@ -68,6 +68,7 @@ describe('Header Component', () => {
 
       const navItems = [
         { testId: 'nav-pulse', label: 'Pulse' },
+        { testId: 'nav-goals', label: 'Goals' },
         { testId: 'nav-integrations', label: 'Integrations' },
         { testId: 'nav-team', label: 'Team' },
         { testId: 'nav-settings', label: 'Settings' }
@@ -130,6 +131,7 @@ describe('Header Component', () => {
 
       const navItems = [
         { path: PROTECTED_ROUTES.PULSE, label: 'Pulse' },
+        { path: PROTECTED_ROUTES.GOALS, label: 'Goals' },
         { path: PROTECTED_ROUTES.INTEGRATIONS, label: 'Integrations' },
         { path: PROTECTED_ROUTES.TEAM, label: 'Team' },
         { path: PROTECTED_ROUTES.SETTINGS, label: 'Settings' }
@@ -114,6 +114,12 @@ export const Header: React.FC<HeaderProps> = React.memo(({
           to="/pulse"
           testId="nav-pulse"
         />
+        <NavigationItem
+          icon="target"
+          label="Goals"
+          to="/goals"
+          testId="nav-goals"
+        />
         <NavigationItem
           icon="integrations"
           label="Integrations"
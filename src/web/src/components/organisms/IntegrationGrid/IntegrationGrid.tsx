@@ -41,7 +41,9 @@ export const IntegrationGrid = React.memo<IntegrationGridProps>(({
     createNewIntegration,
     updateExistingIntegration,
     deleteExistingIntegration,
-    syncIntegrationData
+    syncIntegrationData,
+    fetchSyncRuns,
+    retryFailedSyncRecords
   } = useIntegration();
 
   // Local state for virtualization
@@ -93,6 +95,14 @@ export const IntegrationGrid = React.memo<IntegrationGridProps>(({
     }
   }, [syncIntegrationData, handleError]);
 
+  const handleFullResync = useCallback(async (integrationId: string) => {
+    try {
+      await syncIntegrationData(integrationId, { force: true, fullResync: true });
+    } catch (error) {
+      handleError(error as Error);
+    }
+  }, [syncIntegrationData, handleError]);
+
   // Virtualized grid setup
   const rowVirtualizer = useVirtualizer({
     count: integrations.length,
@@ -173,6 +183,9 @@ export const IntegrationGrid = React.memo<IntegrationGridProps>(({
                   onConnect={handleConnect}
                   onDisconnect={handleDisconnect}
                   onConfigure={handleConfigure}
+                  onLoadSyncHistory={fetchSyncRuns}
+                  onRetryFailed={retryFailedSyncRecords}
+                  onFullResync={handleFullResync}
                   aria-rowindex={virtualRow.index + 1}
                 />
               </div>
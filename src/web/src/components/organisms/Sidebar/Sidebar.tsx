@@ -19,6 +19,12 @@ const NAVIGATION_ITEMS = [
     to: '/pulse',
     ariaLabel: 'View pulse page'
   },
+  {
+    icon: 'target',
+    label: 'Goals',
+    to: '/goals',
+    ariaLabel: 'View conversion goals and funnels'
+  },
   {
     icon: 'integration',
     label: 'Integrations',
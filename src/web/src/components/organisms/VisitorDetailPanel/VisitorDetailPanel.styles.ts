@@ -0,0 +1,73 @@
+import styled from 'styled-components';
+import { colors, spacing, typography } from '../../../styles/variables.styles';
+
+// Constants for panel layout
+const BORDER_RADIUS = '8px';
+const PANEL_MAX_WIDTH = '480px';
+
+export const PanelContainer = styled.aside`
+  width: 100%;
+  max-width: ${PANEL_MAX_WIDTH};
+  padding: ${spacing.space.lg};
+  border-radius: ${BORDER_RADIUS};
+  border: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+  background: ${({ theme }) => theme.mode === 'dark' ? colors.background.dark : colors.background.light};
+  color: ${({ theme }) => theme.mode === 'dark' ? colors.text.dark : colors.text.light};
+  box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+`;
+
+export const PanelHeader = styled.header`
+  margin-bottom: ${spacing.space.md};
+
+  h2 {
+    margin: 0;
+    font-family: ${typography.fontFamilyHeading};
+    font-size: ${typography.fontSize.lg};
+    font-weight: ${typography.fontWeight.semibold};
+  }
+
+  p {
+    margin: ${spacing.space.xs} 0 0;
+    font-size: ${typography.fontSize.sm};
+    opacity: 0.8;
+  }
+`;
+
+export const SectionTitle = styled.h3`
+  margin: ${spacing.space.md} 0 ${spacing.space.sm};
+  font-size: ${typography.fontSize.sm};
+  font-weight: ${typography.fontWeight.medium};
+  text-transform: uppercase;
+  letter-spacing: 0.05em;
+  opacity: 0.7;
+`;
+
+export const List = styled.ul`
+  list-style: none;
+  margin: 0;
+  padding: 0;
+`;
+
+export const ListItem = styled.li`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${spacing.space.sm};
+  padding: ${spacing.space.sm} 0;
+  font-size: ${typography.fontSize.sm};
+  border-bottom: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+export const ItemDetails = styled.div`
+  display: flex;
+  flex-direction: column;
+
+  span:last-child {
+    font-size: ${typography.fontSize.xs};
+    opacity: 0.7;
+  }
+`;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { render, screen, within, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { axe, toHaveNoViolations } from 'jest-axe';
+
+import VisitorDetailPanel from './VisitorDetailPanel';
+import { ThemeProvider } from '../../../providers/ThemeProvider';
+import { VisitorProfile, VisitorSession, VisitorStatus } from '../../../types/visitor.types';
+
+// Add jest-axe matchers
+expect.extend(toHaveNoViolations);
+
+// Mock date utility to ensure consistent output
+jest.mock('../../../utils/date.util', () => ({
+  getRelativeTime: jest.fn(() => '5 minutes ago'),
+  formatDate: jest.fn(() => '09:00')
+}));
+
+const mockProfile: VisitorProfile = {
+  profile: {
+    id: 'visitor-laptop',
+    companyId: 'company-1',
+    email: 'jane@example.com',
+    status: VisitorStatus.IDENTIFIED,
+    metadata: {
+      ipAddress: '203.0.113.10',
+      userAgent: 'Mozilla/5.0',
+      referrer: '',
+      location: { country: 'US', city: 'Boston', region: 'MA' }
+    },
+    enrichedData: null,
+    mergedInto: null,
+    firstSeen: '2024-01-01T00:00:00Z',
+    lastSeen: '2024-02-02T00:00:00Z'
+  },
+  devices: [
+    {
+      visitorId: 'visitor-laptop',
+      deviceType: 'desktop',
+      browser: 'Chrome',
+      os: 'macOS',
+      firstSeen: '2024-01-01T00:00:00Z',
+      lastSeen: '2024-01-05T00:00:00Z'
+    },
+    {
+      visitorId: 'visitor-phone',
+      deviceType: 'mobile',
+      browser: 'Safari',
+      os: 'iOS',
+      firstSeen: '2024-02-01T00:00:00Z',
+      lastSeen: '2024-02-02T00:00:00Z'
+    }
+  ],
+  merges: [
+    {
+      id: 'merge-1',
+      canonicalVisitorId: 'visitor-laptop',
+      mergedVisitorId: 'visitor-phone',
+      matchedKeys: [{ type: 'EMAIL' }, { type: 'CUSTOM_ID', field: 'userId' }],
+      mergedAt: '2024-02-02T00:00:00Z'
+    }
+  ]
+};
+
+const mockSessions: VisitorSession[] = [
+  {
+    id: 'session-1',
+    visitorId: 'visitor-laptop',
+    startedAt: '2024-02-02T09:00:00Z',
+    endedAt: '2024-02-02T09:10:00Z',
+    durationSeconds: 600,
+    landingPage: 'https://acme.com/pricing',
+    exitPage: 'https://acme.com/pricing',
+    pageCount: 1,
+    activityCount: 2,
+    referrer: null,
+    utmSource: null,
+    activities: [
+      { id: 'activity-1', type: 'PAGE_VIEW', timestamp: '2024-02-02T09:00:00Z', data: { url: 'https://acme.com/pricing' } },
+      { id: 'activity-2', type: 'FILE_DOWNLOAD', timestamp: '2024-02-02T09:10:00Z', data: { fileId: 'pricing.pdf' } }
+    ]
+  }
+];
+
+const renderPanel = (props = {}) => {
+  const onUndoMerge = jest.fn().mockResolvedValue(undefined);
+  return {
+    onUndoMerge,
+    ...render(
+      <ThemeProvider defaultMode="light">
+        <VisitorDetailPanel profile={mockProfile} onUndoMerge={onUndoMerge} {...props} />
+      </ThemeProvider>
+    )
+  };
+};
+
+describe('VisitorDetailPanel', () => {
+  it('renders the canonical profile with every linked device', () => {
+    renderPanel();
+
+    expect(screen.getByRole('heading', { name: 'jane@example.com' })).toBeInTheDocument();
+    expect(screen.getByText(/2 devices linked/)).toBeInTheDocument();
+
+    const devices = within(screen.getByRole('list', { name: 'Linked devices' })).getAllByRole('listitem');
+    expect(devices).toHaveLength(2);
+    expect(devices[1]).toHaveTextContent('mobile · Safari on iOS');
+  });
+
+  it('describes the identity keys behind each merge', () => {
+    renderPanel();
+
+    expect(screen.getByText('Matched on email, custom ID (userId)')).toBeInTheDocument();
+  });
+
+  it('undoes a merge when requested', async () => {
+    const { onUndoMerge } = renderPanel();
+
+    await userEvent.click(screen.getByRole('button', { name: 'Undo merge of visitor visitor-phone' }));
+
+    await waitFor(() => {
+      expect(onUndoMerge).toHaveBeenCalledWith('merge-1');
+    });
+  });
+
+  it('hides undo controls for users without permission', () => {
+    renderPanel({ canUndo: false });
+
+    expect(screen.queryByRole('button', { name: /Undo merge/ })).not.toBeInTheDocument();
+  });
+
+  it('renders the session timeline of the visitor', () => {
+    renderPanel({ sessions: mockSessions });
+
+    expect(screen.getByRole('heading', { name: 'Sessions' })).toBeInTheDocument();
+    const activities = within(screen.getByRole('list', { name: 'Activities of session session-1' }))
+      .getAllByRole('listitem');
+    expect(activities[1]).toHaveTextContent('Downloaded pricing.pdf');
+  });
+
+  it('has no accessibility violations', async () => {
+    const { container } = renderPanel();
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,143 @@
+import React, { useCallback } from 'react';
+
+// Internal imports
+import {
+  PanelContainer,
+  PanelHeader,
+  SectionTitle,
+  List,
+  ListItem,
+  ItemDetails
+} from './VisitorDetailPanel.styles';
+import Button from '../../atoms/Button/Button';
+import SessionTimeline from '../../molecules/SessionTimeline/SessionTimeline';
+import { getRelativeTime } from '../../../utils/date.util';
+
+// Types
+import { VisitorProfile, VisitorMerge, VisitorSession } from '../../../types/visitor.types';
+
+/**
+ * Human-readable labels for the identity keys that justify a merge
+ */
+const MATCH_KEY_LABELS: Record<string, string> = {
+  EMAIL: 'email',
+  PHONE: 'phone',
+  CUSTOM_ID: 'custom ID'
+};
+
+interface VisitorDetailPanelProps {
+  profile: VisitorProfile;
+  onUndoMerge: (mergeId: string) => Promise<void>;
+  /** Session timeline of the visitor, most recent first */
+  sessions?: VisitorSession[];
+  hasMoreSessions?: boolean;
+  onLoadMoreSessions?: () => void;
+  canUndo?: boolean;
+  loading?: boolean;
+}
+
+/**
+ * Describes which identity keys matched for a merge
+ */
+const describeMatch = (merge: VisitorMerge): string => {
+  const labels = merge.matchedKeys.map(key =>
+    key.field ? `${MATCH_KEY_LABELS[key.type] || key.type} (${key.field})` : MATCH_KEY_LABELS[key.type] || key.type
+  );
+  return labels.length > 0 ? `Matched on ${Array.from(new Set(labels)).join(', ')}` : 'Matched manually';
+};
+
+/**
+ * Merged visitor profile panel listing linked devices and reversible merges
+ */
+export const VisitorDetailPanel: React.FC<VisitorDetailPanelProps> = React.memo(({
+  profile,
+  onUndoMerge,
+  sessions,
+  hasMoreSessions = false,
+  onLoadMoreSessions,
+  canUndo = true,
+  loading = false
+}) => {
+  const { profile: visitor, devices, merges } = profile;
+
+  /**
+   * Handle merge undo with error logging
+   */
+  const handleUndo = useCallback(async (mergeId: string) => {
+    try {
+      await onUndoMerge(mergeId);
+    } catch (error) {
+      console.error('Undo merge failed:', error);
+    }
+  }, [onUndoMerge]);
+
+  return (
+    <PanelContainer
+      aria-label="Visitor profile"
+      data-testid="visitor-detail-panel"
+    >
+      <PanelHeader>
+        <h2>{visitor.email || visitor.enrichedData?.company || 'Anonymous visitor'}</h2>
+        <p>
+          {devices.length} {devices.length === 1 ? 'device' : 'devices'} linked
+          {' · '}first seen {getRelativeTime(visitor.firstSeen)}
+        </p>
+      </PanelHeader>
+
+      <SectionTitle>Devices</SectionTitle>
+      <List aria-label="Linked devices">
+        {devices.map(device => (
+          <ListItem key={device.visitorId}>
+            <ItemDetails>
+              <span>{`${device.deviceType} · ${device.browser} on ${device.os}`}</span>
+              <span>Last seen {getRelativeTime(device.lastSeen)}</span>
+            </ItemDetails>
+          </ListItem>
+        ))}
+      </List>
+
+      {merges.length > 0 && (
+        <>
+          <SectionTitle>Merges</SectionTitle>
+          <List aria-label="Visitor merges">
+            {merges.map(merge => (
+              <ListItem key={merge.id}>
+                <ItemDetails>
+                  <span>{describeMatch(merge)}</span>
+                  <span>Merged {getRelativeTime(merge.mergedAt)}</span>
+                </ItemDetails>
+                {canUndo && (
+                  <Button
+                    variant="secondary"
+                    size="small"
+                    disabled={loading}
+                    onClick={() => handleUndo(merge.id)}
+                    ariaLabel={`Undo merge of visitor ${merge.mergedVisitorId}`}
+                  >
+                    Undo
+                  </Button>
+                )}
+              </ListItem>
+            ))}
+          </List>
+        </>
+      )}
+
+      {sessions && (
+        <>
+          <SectionTitle>Sessions</SectionTitle>
+          <SessionTimeline
+            sessions={sessions}
+            hasMore={hasMoreSessions}
+            onLoadMore={onLoadMoreSessions}
+            loading={loading}
+          />
+        </>
+      )}
+    </PanelContainer>
+  );
+});
+
+VisitorDetailPanel.displayName = 'VisitorDetailPanel';
+
+export default VisitorDetailPanel;
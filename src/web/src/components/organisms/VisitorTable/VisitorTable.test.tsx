@@ -9,6 +9,7 @@ import dayjs from 'dayjs';
 import VisitorTable from './VisitorTable';
 import { ThemeProvider } from '../../../providers/ThemeProvider';
 import { Visitor, VisitorStatus } from '../../../types/visitor.types';
+import { CrmObject, IntegrationType } from '../../../types/integration.types';
 import visitorsReducer from '../../../store/visitors/visitors.slice';
 
 // Add jest-axe matchers
@@ -113,7 +114,7 @@ describe('VisitorTable Component', () => {
       
       expect(screen.getByRole('table')).toBeInTheDocument();
       expect(screen.getByRole('searchbox')).toHaveAttribute('aria-label');
-      expect(screen.getAllByRole('columnheader')).toHaveLength(6);
+      expect(screen.getAllByRole('columnheader')).toHaveLength(10);
     });
   });
 
@@ -131,6 +132,37 @@ describe('VisitorTable Component', () => {
       });
     });
 
+    it('should show the CRM owner and stage of linked visitors', () => {
+      const crm = {
+        type: IntegrationType.HUBSPOT,
+        object: CrmObject.CONTACT,
+        recordId: '51',
+        owner: 'Dana Whitfield',
+        lifecycleStage: 'salesqualifiedlead',
+        openOpportunity: null,
+        dealStage: null,
+        syncedAt: dayjs().toISOString()
+      };
+      const linked = [
+        { ...mockVisitors[1], crm },
+        {
+          ...mockVisitors[2],
+          crm: {
+            ...crm,
+            owner: 'Marcus Lee',
+            openOpportunity: { id: '7002', name: 'Globex - Platform Expansion', amount: 48000 },
+            dealStage: 'Contract Sent'
+          }
+        }
+      ];
+      renderWithProviders(<VisitorTable visitors={linked} />);
+
+      expect(screen.getByText('Dana Whitfield')).toBeInTheDocument();
+      expect(screen.getByText('salesqualifiedlead')).toBeInTheDocument();
+      expect(screen.getByText('Marcus Lee')).toBeInTheDocument();
+      expect(screen.getByText('Contract Sent')).toHaveAttribute('title', 'Globex - Platform Expansion');
+    });
+
     it('should handle sorting correctly', async () => {
       renderWithProviders(<VisitorTable visitors={mockVisitors} />);
       
@@ -7,7 +7,27 @@ import { ErrorBoundary } from 'react-error-boundary'; // v4.x
 // Internal imports
 import { Button } from '../../atoms/Button/Button';
 import { useVisitorData } from '../../../hooks/useVisitorData';
-import { Visitor, VisitorStatus } from '../../../types/visitor.types';
+import { Visitor, VisitorStatus, IcpFitTier, VerificationStatus } from '../../../types/visitor.types';
+
+/**
+ * Status filter options for the status column
+ */
+const STATUS_LOOKUP: Record<VisitorStatus, string> = {
+  [VisitorStatus.ANONYMOUS]: 'Anonymous',
+  [VisitorStatus.COMPANY_RESOLVED]: 'Company Resolved',
+  [VisitorStatus.IDENTIFIED]: 'Identified',
+  [VisitorStatus.ENRICHED]: 'Enriched'
+};
+
+/**
+ * Fit tier filter options for the ICP fit column
+ */
+const ICP_TIER_LOOKUP: Record<IcpFitTier, string> = {
+  [IcpFitTier.A]: 'A',
+  [IcpFitTier.B]: 'B',
+  [IcpFitTier.C]: 'C',
+  [IcpFitTier.NONE]: 'No fit'
+};
 
 /**
  * Interface for VisitorTable component props
@@ -58,18 +78,29 @@ export const VisitorTable = React.memo<VisitorTableProps>(({
     {
       title: 'Email',
       field: 'email',
-      render: (rowData) => rowData.email || 'Anonymous',
-      width: '20%'
+      render: (rowData) => (
+        rowData.verification?.status === VerificationStatus.FLAGGED ? (
+          <span title={`Flagged: ${rowData.verification.reasons.join(', ')}`}>
+            {rowData.email || 'Anonymous'} (flagged)
+          </span>
+        ) : rowData.email || 'Anonymous'
+      ),
+      width: '15%'
     },
     {
       title: 'Company',
       field: 'enrichedData.company',
-      render: (rowData) => rowData.enrichedData?.company || '-',
-      width: '20%'
+      render: (rowData) => (
+        rowData.status === VisitorStatus.COMPANY_RESOLVED && rowData.companyResolution
+          ? `${rowData.enrichedData?.company} (${Math.round(rowData.companyResolution.confidence * 100)}% match)`
+          : rowData.enrichedData?.company || '-'
+      ),
+      width: '15%'
     },
     {
       title: 'Status',
       field: 'status',
+      lookup: STATUS_LOOKUP,
       render: (rowData) => (
         <span className={`status-badge status-${rowData.status.toLowerCase()}`}>
           {rowData.status}
@@ -77,26 +108,76 @@ export const VisitorTable = React.memo<VisitorTableProps>(({
       ),
       width: '10%'
     },
+    {
+      title: 'Score',
+      field: 'score',
+      type: 'numeric',
+      render: (rowData) => rowData.score ?? 0,
+      // Column filter value acts as a minimum score
+      customFilterAndSearch: (term: string, rowData) => (
+        !term || (rowData.score ?? 0) >= Number(term)
+      ),
+      width: '5%'
+    },
+    {
+      title: 'Fit',
+      field: 'icpFit.tier',
+      lookup: ICP_TIER_LOOKUP,
+      render: (rowData) => (
+        rowData.icpFit ? (
+          <span
+            className={`fit-badge fit-${rowData.icpFit.tier.toLowerCase()}`}
+            title={rowData.icpFit.reasons.map(reason => `${reason.criterion}: ${reason.value}`).join(', ')}
+          >
+            {ICP_TIER_LOOKUP[rowData.icpFit.tier]}
+          </span>
+        ) : '-'
+      ),
+      width: '5%'
+    },
+    {
+      title: 'Owner',
+      field: 'crm.owner',
+      render: (rowData) => rowData.crm?.owner || '-',
+      width: '10%'
+    },
+    {
+      title: 'CRM Stage',
+      field: 'crm.dealStage',
+      // Visitors with an open deal show its stage, others their lead status or lifecycle stage
+      render: (rowData) => (
+        rowData.crm?.openOpportunity ? (
+          <span className="crm-stage crm-stage-deal" title={rowData.crm.openOpportunity.name}>
+            {rowData.crm.dealStage || 'Open deal'}
+          </span>
+        ) : rowData.crm?.lifecycleStage || '-'
+      ),
+      customFilterAndSearch: (term: string, rowData) => (
+        !term || [rowData.crm?.dealStage, rowData.crm?.lifecycleStage]
+          .some(stage => stage?.toLowerCase().includes(term.toLowerCase()))
+      ),
+      width: '10%'
+    },
     {
       title: 'Location',
       field: 'metadata.location',
       render: (rowData) => (
         `${rowData.metadata.location.city}, ${rowData.metadata.location.country}`
       ),
-      width: '15%'
+      width: '10%'
     },
     {
       title: 'First Seen',
       field: 'firstSeen',
       render: (rowData) => dayjs(rowData.firstSeen).format('MMM D, YYYY HH:mm'),
       defaultSort: 'desc',
-      width: '15%'
+      width: '10%'
     },
     {
       title: 'Last Seen',
       field: 'lastSeen',
       render: (rowData) => dayjs(rowData.lastSeen).format('MMM D, YYYY HH:mm'),
-      width: '15%'
+      width: '10%'
     }
   ], []);
 
@@ -35,6 +35,19 @@ interface VisitorEndpoints {
   readonly EXPORT: string;
   readonly ENRICH: string;
   readonly BULK_ACTION: string;
+  readonly PROFILE: string;
+  readonly UNDO_MERGE: string;
+  readonly SCORE_HISTORY: string;
+  readonly SESSIONS: string;
+  readonly ACCOUNTS: string;
+  readonly ACCOUNT_VISITORS: string;
+  readonly ATTRIBUTION: string;
+  readonly BOTS: string;
+  readonly BOT_FLAG: string;
+  readonly ENRICHMENT_FIELD: string;
+  readonly GOALS: string;
+  readonly GOAL_REPORT: string;
+  readonly FUNNEL_REPORT: string;
 }
 
 /**
@@ -45,6 +58,9 @@ interface IntegrationEndpoints {
   readonly BY_ID: string;
   readonly CONNECT: string;
   readonly SYNC: string;
+  readonly SYNCS: string;
+  readonly RETRY_SYNC: string;
+  readonly PREVIEW: string;
   readonly VERIFY: string;
   readonly PROVIDERS: string;
   readonly FIELDS: string;
@@ -119,7 +135,20 @@ export const API_ENDPOINTS = {
     SEARCH: '/visitors/search',
     EXPORT: '/visitors/export',
     ENRICH: '/visitors/:id/enrich',
-    BULK_ACTION: '/visitors/bulk'
+    BULK_ACTION: '/visitors/bulk',
+    PROFILE: '/visitors/:id/profile',
+    UNDO_MERGE: '/visitors/merges/:mergeId/undo',
+    SCORE_HISTORY: '/visitors/:id/score-history',
+    SESSIONS: '/visitors/:id/sessions',
+    ACCOUNTS: '/visitors/accounts',
+    ACCOUNT_VISITORS: '/visitors/accounts/:domain/visitors',
+    ATTRIBUTION: '/visitors/attribution',
+    BOTS: '/visitors/bots',
+    BOT_FLAG: '/visitors/:id/bot-flag',
+    ENRICHMENT_FIELD: '/visitors/:id/enrichment/fields/:field',
+    GOALS: '/visitors/goals',
+    GOAL_REPORT: '/visitors/goals/report',
+    FUNNEL_REPORT: '/visitors/funnels/:funnelId/report'
   } as VisitorEndpoints,
 
   INTEGRATIONS: {
@@ -127,6 +156,9 @@ export const API_ENDPOINTS = {
     BY_ID: '/integrations/:id',
     CONNECT: '/integrations/connect',
     SYNC: '/integrations/:id/sync',
+    SYNCS: '/integrations/:id/syncs',
+    RETRY_SYNC: '/integrations/:id/syncs/:syncId/retry',
+    PREVIEW: '/integrations/:id/preview',
     VERIFY: '/integrations/:id/verify',
     PROVIDERS: '/integrations/providers',
     FIELDS: '/integrations/:id/fields',
@@ -24,6 +24,7 @@ export const PUBLIC_ROUTES = Object.freeze({
 export const PROTECTED_ROUTES = Object.freeze({
   DASHBOARD: '/',
   PULSE: '/pulse',
+  GOALS: '/goals',
   INTEGRATIONS: '/integrations',
   TEAM: '/team',
   SETTINGS: '/settings',
@@ -0,0 +1,134 @@
+/**
+ * Custom React hook for account-level visitor rollups
+ * @version 1.0.0
+ * @description Loads accounts with their aggregated engagement and drills down to the visitors of one account
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { debounce } from 'lodash'; // v4.17.x
+
+// Internal imports
+import visitorService from '../services/visitor.service';
+import { AccountQuery, AccountSummary, Visitor } from '../types/visitor.types';
+
+// Constants
+const DEBOUNCE_DELAY = 300; // 300ms delay for search updates
+const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Account data hook with search, sorting and drill-down to account visitors
+ */
+export const useAccountData = (initialQuery?: Partial<AccountQuery>) => {
+  const [query, setQuery] = useState<AccountQuery>({
+    page: 1,
+    limit: DEFAULT_PAGE_SIZE,
+    sortBy: 'lastSeen',
+    ...initialQuery
+  });
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Drill-down state for the selected account
+  const [selectedAccount, setSelectedAccount] = useState<AccountSummary | null>(null);
+  const [accountVisitors, setAccountVisitors] = useState<Visitor[]>([]);
+
+  /**
+   * Fetch accounts for the current query
+   */
+  const fetchAccounts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await visitorService.getAccounts(query);
+      setAccounts(response.accounts);
+      setTotal(response.total);
+    } catch (error: any) {
+      setError(error.message);
+      console.error('Error fetching accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  /**
+   * Debounced search handler resetting to the first page
+   */
+  const updateSearch = useMemo(
+    () => debounce((search: string) => {
+      setQuery(current => ({ ...current, page: 1, search: search || undefined }));
+    }, DEBOUNCE_DELAY),
+    []
+  );
+
+  /**
+   * Update sorting or pagination
+   */
+  const updateQuery = useCallback((changes: Partial<AccountQuery>) => {
+    setQuery(current => ({ ...current, ...changes }));
+  }, []);
+
+  /**
+   * Select an account and load its visitors
+   */
+  const selectAccount = useCallback(async (account: AccountSummary) => {
+    try {
+      setSelectedAccount(account);
+      setLoading(true);
+      setError(null);
+      const response = await visitorService.getAccountVisitors(account.domain);
+      setAccountVisitors(response.visitors);
+    } catch (error: any) {
+      setError(error.message);
+      console.error('Error fetching account visitors:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Return from the drill-down to the account list
+   */
+  const clearSelectedAccount = useCallback(() => {
+    setSelectedAccount(null);
+    setAccountVisitors([]);
+  }, []);
+
+  /**
+   * Clear error state
+   */
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Fetch accounts when the query changes
+   */
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  /**
+   * Cancel pending search updates on unmount
+   */
+  useEffect(() => () => updateSearch.cancel(), [updateSearch]);
+
+  return {
+    accounts,
+    total,
+    query,
+    loading,
+    error,
+    selectedAccount,
+    accountVisitors,
+    fetchAccounts,
+    updateSearch,
+    updateQuery,
+    selectAccount,
+    clearSelectedAccount,
+    clearError
+  };
+};
+
+export type UseAccountDataReturn = ReturnType<typeof useAccountData>;
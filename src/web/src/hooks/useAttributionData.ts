@@ -0,0 +1,63 @@
+/**
+ * Custom React hook for marketing attribution reports
+ * @version 1.0.0
+ * @description Loads identified and enriched visitors by channel and campaign for the selected attribution model
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+
+// Internal imports
+import visitorService from '../services/visitor.service';
+import { AttributionModel, AttributionReport } from '../types/visitor.types';
+
+/**
+ * Attribution report hook with a switchable attribution model
+ */
+export const useAttributionData = (initialModel: AttributionModel = 'FIRST_TOUCH', since?: string) => {
+  const [model, setModel] = useState<AttributionModel>(initialModel);
+  const [report, setReport] = useState<AttributionReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch the report for the current model
+   */
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setReport(await visitorService.getAttributionReport(model, since));
+    } catch (error: any) {
+      setError(error.message);
+      console.error('Error fetching attribution report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [model, since]);
+
+  /**
+   * Clear error state
+   */
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Fetch the report when the model changes
+   */
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  return {
+    model,
+    report,
+    loading,
+    error,
+    setModel,
+    fetchReport,
+    clearError
+  };
+};
+
+export type UseAttributionDataReturn = ReturnType<typeof useAttributionData>;
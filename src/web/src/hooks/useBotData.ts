@@ -0,0 +1,91 @@
+/**
+ * Custom React hook for visitors flagged as bots
+ * @version 1.0.0
+ * @description Loads the visitors hidden from visitor lists as bots and lets admins unflag them
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+
+// Internal imports
+import visitorService from '../services/visitor.service';
+import { Visitor } from '../types/visitor.types';
+
+const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Bot list hook with unflagging
+ * @param enabled - Whether to load bots, e.g. only for admins
+ */
+export const useBotData = (enabled: boolean = true) => {
+  const [bots, setBots] = useState<Visitor[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch bots for the current page
+   */
+  const fetchBots = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await visitorService.getBots(page, DEFAULT_PAGE_SIZE);
+      setBots(response.visitors);
+      setTotal(response.total);
+    } catch (error: any) {
+      setError(error.message);
+      console.error('Error fetching bots:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  /**
+   * Unflag a visitor reviewed as human and drop it from the bot list
+   */
+  const unflagBot = useCallback(async (visitorId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      await visitorService.unflagBot(visitorId);
+      setBots(current => current.filter(visitor => visitor.id !== visitorId));
+      setTotal(current => Math.max(current - 1, 0));
+    } catch (error: any) {
+      setError(error.message);
+      console.error('Error unflagging bot:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Clear error state
+   */
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Fetch bots when enabled or the page changes
+   */
+  useEffect(() => {
+    if (enabled) {
+      fetchBots();
+    }
+  }, [enabled, fetchBots]);
+
+  return {
+    bots,
+    total,
+    page,
+    loading,
+    error,
+    setPage,
+    fetchBots,
+    unflagBot,
+    clearError
+  };
+};
+
+export type UseBotDataReturn = ReturnType<typeof useBotData>;
@@ -0,0 +1,134 @@
+/**
+ * Custom React hook for conversion goal and funnel reports
+ * @version 1.0.0
+ * @description Loads goal completions for the selected range and the selected funnel's conversion,
+ * optionally segmented by visitor status or industry
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+
+// Internal imports
+import visitorService from '../services/visitor.service';
+import {
+  GoalDefinitions,
+  GoalReport,
+  FunnelReport,
+  FunnelSegment
+} from '../types/visitor.types';
+
+const DEFAULT_RANGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Goal and funnel report hook with a switchable range, funnel and segmentation
+ */
+export const useGoalData = (initialRangeDays: number = DEFAULT_RANGE_DAYS) => {
+  const [rangeDays, setRangeDays] = useState(initialRangeDays);
+  const [definitions, setDefinitions] = useState<GoalDefinitions>({ goals: [], funnels: [] });
+  const [goalReport, setGoalReport] = useState<GoalReport | null>(null);
+  const [funnelId, setFunnelId] = useState<string | null>(null);
+  const [segmentBy, setSegmentBy] = useState<FunnelSegment | undefined>(undefined);
+  const [funnelReport, setFunnelReport] = useState<FunnelReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Report range ending now
+   */
+  const range = useMemo(() => {
+    const to = new Date();
+    return {
+      from: new Date(to.getTime() - rangeDays * DAY_MS).toISOString(),
+      to: to.toISOString()
+    };
+  }, [rangeDays]);
+
+  /**
+   * Fetch goal and funnel definitions, selecting the first funnel
+   */
+  const fetchDefinitions = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await visitorService.getGoals();
+      setDefinitions(response);
+      setFunnelId(current => current ?? response.funnels[0]?.id ?? null);
+    } catch (error: any) {
+      setError(error.message);
+      console.error('Error fetching goals:', error);
+    }
+  }, []);
+
+  /**
+   * Fetch the goal report for the current range
+   */
+  const fetchGoalReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setGoalReport(await visitorService.getGoalReport(range));
+    } catch (error: any) {
+      setError(error.message);
+      console.error('Error fetching goal report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [range]);
+
+  /**
+   * Fetch the selected funnel's report for the current range and segmentation
+   */
+  const fetchFunnelReport = useCallback(async () => {
+    if (!funnelId) {
+      setFunnelReport(null);
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      setFunnelReport(await visitorService.getFunnelReport(funnelId, range, segmentBy));
+    } catch (error: any) {
+      setError(error.message);
+      console.error('Error fetching funnel report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [funnelId, range, segmentBy]);
+
+  /**
+   * Clear error state
+   */
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    fetchDefinitions();
+  }, [fetchDefinitions]);
+
+  useEffect(() => {
+    fetchGoalReport();
+  }, [fetchGoalReport]);
+
+  useEffect(() => {
+    fetchFunnelReport();
+  }, [fetchFunnelReport]);
+
+  return {
+    rangeDays,
+    definitions,
+    goalReport,
+    funnelId,
+    segmentBy,
+    funnelReport,
+    loading,
+    error,
+    setRangeDays,
+    setFunnelId,
+    setSegmentBy,
+    fetchGoalReport,
+    fetchFunnelReport,
+    clearError
+  };
+};
+
+export type UseGoalDataReturn = ReturnType<typeof useGoalData>;
@@ -169,7 +169,7 @@ export const useIntegration = () => {
    */
   const syncIntegrationData = useCallback(async (
     integrationId: string,
-    options = { force: false }
+    options: { force?: boolean; fullResync?: boolean } = { force: false }
   ) => {
     try {
       dispatch(setLoading(true));
@@ -192,6 +192,30 @@ export const useIntegration = () => {
     }
   }, [dispatch]);
 
+  /**
+   * Fetches a page of an integration's sync history
+   */
+  const fetchSyncRuns = useCallback(async (integrationId: string, page = 1) => {
+    return integrationService.getSyncRuns(integrationId, page);
+  }, []);
+
+  /**
+   * Pushes the records a sync run failed on again
+   */
+  const retryFailedSyncRecords = useCallback(async (integrationId: string, syncId: string) => {
+    try {
+      return await integrationService.retryFailedRecords(integrationId, syncId);
+    } catch (error: any) {
+      dispatch(setError({
+        code: 'SYNC_RETRY_ERROR',
+        message: error.message,
+        integrationId,
+        details: { syncId }
+      }));
+      throw error;
+    }
+  }, [dispatch]);
+
   return {
     // State
     integrations,
@@ -207,7 +231,9 @@ export const useIntegration = () => {
     updateExistingIntegration,
     deleteExistingIntegration,
     testConnection,
-    syncIntegrationData
+    syncIntegrationData,
+    fetchSyncRuns,
+    retryFailedSyncRecords
   };
 };
 
@@ -12,13 +12,21 @@ import { debounce } from 'lodash'; // v4.17.x
 // Internal imports
 import visitorService from '../services/visitor.service';
 import { useWebSocket } from './useWebSocket';
-import { Visitor, VisitorFilter } from '../types/visitor.types';
+import {
+  Visitor,
+  VisitorFilter,
+  VisitorProfile,
+  VisitorSession,
+  ReviewableField,
+  FieldOverrideInput
+} from '../types/visitor.types';
 import { 
   setVisitors, 
   setSelectedVisitor,
   updateVisitor,
   updateVisitorSuccess,
   updateVisitorFailure,
+  updateVisitorScore,
   setLoading,
   setError,
   selectVisitors,
@@ -56,6 +64,13 @@ export const useVisitorData = (initialFilter?: VisitorFilter) => {
     search: ''
   });
 
+  // Merged cross-device profile of the selected visitor
+  const [visitorProfile, setVisitorProfile] = useState<VisitorProfile | null>(null);
+
+  // Session timeline of the selected visitor and the cursor of its next page
+  const [visitorSessions, setVisitorSessions] = useState<VisitorSession[]>([]);
+  const [sessionsCursor, setSessionsCursor] = useState<string | undefined>(undefined);
+
   // WebSocket integration
   const { subscribe, unsubscribe, connectionStatus } = useWebSocket();
 
@@ -84,18 +99,19 @@ export const useVisitorData = (initialFilter?: VisitorFilter) => {
   );
 
   /**
-   * Select specific visitor with activity data
+   * Select specific visitor with its session timeline
    */
   const selectVisitor = useCallback(async (visitorId: string) => {
     try {
       dispatch(setLoading(true));
       const visitor = await visitorService.getVisitorById(visitorId);
-      const activities = await visitorService.getVisitorActivity(visitorId);
+      const sessionPage = await visitorService.getVisitorSessions(visitorId);
+      const profile = await visitorService.getVisitorProfile(visitorId);
       
-      dispatch(setSelectedVisitor({
-        ...visitor,
-        activities
-      }));
+      dispatch(setSelectedVisitor(visitor));
+      setVisitorSessions(sessionPage.sessions);
+      setSessionsCursor(sessionPage.nextCursor);
+      setVisitorProfile(profile);
     } catch (error: any) {
       dispatch(setError(error.message));
       console.error('Error selecting visitor:', error);
@@ -104,6 +120,87 @@ export const useVisitorData = (initialFilter?: VisitorFilter) => {
     }
   }, [dispatch]);
 
+  /**
+   * Append the next page of earlier sessions to the selected visitor's timeline
+   */
+  const loadMoreSessions = useCallback(async () => {
+    if (!visitorProfile || !sessionsCursor) {
+      return;
+    }
+    try {
+      dispatch(setLoading(true));
+      const sessionPage = await visitorService.getVisitorSessions(visitorProfile.profile.id, sessionsCursor);
+      setVisitorSessions(current => [...current, ...sessionPage.sessions]);
+      setSessionsCursor(sessionPage.nextCursor);
+    } catch (error: any) {
+      dispatch(setError(error.message));
+      console.error('Error loading visitor sessions:', error);
+    } finally {
+      dispatch(setLoading(false));
+    }
+  }, [dispatch, visitorProfile, sessionsCursor]);
+
+  /**
+   * Undo a merge on the selected profile and refresh the visitor list
+   */
+  const undoMerge = useCallback(async (mergeId: string) => {
+    try {
+      dispatch(setLoading(true));
+      const profile = await visitorService.undoMerge(mergeId);
+      setVisitorProfile(profile);
+      await fetchVisitors();
+    } catch (error: any) {
+      dispatch(setError(error.message));
+      console.error('Error undoing visitor merge:', error);
+    } finally {
+      dispatch(setLoading(false));
+    }
+  }, [dispatch, fetchVisitors]);
+
+  /**
+   * Apply a reviewed visitor to the selected profile and the visitor list
+   */
+  const applyReviewedVisitor = useCallback((visitor: Visitor) => {
+    setVisitorProfile(current => current && current.profile.id === visitor.id
+      ? { ...current, profile: visitor }
+      : current);
+    dispatch(updateVisitor(visitor));
+  }, [dispatch]);
+
+  /**
+   * Lock an enriched field of a visitor to an accepted candidate or an entered value
+   */
+  const overrideEnrichedField = useCallback(async (
+    visitorId: string,
+    field: ReviewableField,
+    input: FieldOverrideInput
+  ) => {
+    try {
+      dispatch(setLoading(true));
+      applyReviewedVisitor(await visitorService.overrideEnrichedField(visitorId, field, input));
+    } catch (error: any) {
+      dispatch(setError(error.message));
+      console.error('Error overriding enriched field:', error);
+    } finally {
+      dispatch(setLoading(false));
+    }
+  }, [dispatch, applyReviewedVisitor]);
+
+  /**
+   * Unlock an enriched field of a visitor
+   */
+  const releaseEnrichedField = useCallback(async (visitorId: string, field: ReviewableField) => {
+    try {
+      dispatch(setLoading(true));
+      applyReviewedVisitor(await visitorService.releaseEnrichedField(visitorId, field));
+    } catch (error: any) {
+      dispatch(setError(error.message));
+      console.error('Error releasing enriched field:', error);
+    } finally {
+      dispatch(setLoading(false));
+    }
+  }, [dispatch, applyReviewedVisitor]);
+
   /**
    * Handle real-time visitor updates with optimistic updates
    */
@@ -140,15 +237,24 @@ export const useVisitorData = (initialFilter?: VisitorFilter) => {
       }
     };
 
+    // Lead score changes arrive as partial updates scoped to the company room
+    const handleVisitorChanges = (data: any) => {
+      if (typeof data?.changes?.score === 'number') {
+        dispatch(updateVisitorScore({ visitorId: data.visitorId, score: data.changes.score }));
+      }
+    };
+
     subscribe('visitor:activity', handleVisitorActivity, {
       batchSize: BATCH_SIZE,
       batchInterval: DEBOUNCE_DELAY
     });
+    subscribe('visitor:update', handleVisitorChanges);
 
     return () => {
       unsubscribe('visitor:activity', handleVisitorActivity);
+      unsubscribe('visitor:update', handleVisitorChanges);
     };
-  }, [subscribe, unsubscribe, selectedVisitor, handleVisitorUpdate]);
+  }, [dispatch, subscribe, unsubscribe, selectedVisitor, handleVisitorUpdate]);
 
   /**
    * Fetch visitors when filter changes
@@ -173,12 +279,19 @@ export const useVisitorData = (initialFilter?: VisitorFilter) => {
   return {
     visitors,
     selectedVisitor,
+    visitorProfile,
+    visitorSessions,
+    hasMoreSessions: Boolean(sessionsCursor),
     loading,
     error,
     total,
     connectionStatus,
     fetchVisitors,
     selectVisitor,
+    loadMoreSessions,
+    undoMerge,
+    overrideEnrichedField,
+    releaseEnrichedField,
     updateFilter,
     clearError
   };
@@ -0,0 +1,162 @@
+import styled from 'styled-components';
+import { colors, spacing, typography, breakpoints } from '../../../styles/variables.styles';
+
+// Constants for goal report layout
+const BORDER_RADIUS = '8px';
+const STEP_BAR_HEIGHT = '8px';
+
+/**
+ * Main container for the goals page with responsive padding and theme support
+ */
+export const Container = styled.div`
+  padding: ${spacing.space.xl};
+  min-height: 100vh;
+  background-color: ${({ theme }) =>
+    theme.mode === 'dark' ? colors.background.dark : colors.background.light};
+  color: ${({ theme }) =>
+    theme.mode === 'dark' ? colors.text.dark : colors.text.light};
+
+  ${breakpoints.mediaQueries.mobile} {
+    padding: ${spacing.space.md};
+  }
+`;
+
+/**
+ * Page header with the title and report range selector
+ */
+export const Header = styled.header`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${spacing.space.md};
+  margin-bottom: ${spacing.space.lg};
+
+  h1 {
+    margin: 0;
+    font-family: ${typography.fontFamilyHeading};
+    font-size: ${typography.fontSize.xl};
+    font-weight: ${typography.fontWeight.semibold};
+  }
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: ${spacing.space.sm};
+    font-size: ${typography.fontSize.sm};
+  }
+`;
+
+/**
+ * Bordered report section
+ */
+export const Section = styled.section`
+  padding: ${spacing.space.lg};
+  margin-bottom: ${spacing.space.lg};
+  border-radius: ${BORDER_RADIUS};
+  border: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+
+  h2 {
+    margin: 0;
+    font-size: ${typography.fontSize.lg};
+    font-weight: ${typography.fontWeight.semibold};
+  }
+`;
+
+/**
+ * Section header with the funnel and segment selectors
+ */
+export const SectionHeader = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: space-between;
+  align-items: center;
+  gap: ${spacing.space.md};
+  margin-bottom: ${spacing.space.md};
+
+  label {
+    display: flex;
+    align-items: center;
+    gap: ${spacing.space.sm};
+    font-size: ${typography.fontSize.sm};
+  }
+`;
+
+/**
+ * Headline conversion figures of a funnel
+ */
+export const Summary = styled.dl`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${spacing.space.xl};
+  margin: 0 0 ${spacing.space.md};
+
+  dt {
+    font-size: ${typography.fontSize.xs};
+    text-transform: uppercase;
+    letter-spacing: 0.05em;
+    opacity: 0.7;
+  }
+
+  dd {
+    margin: 0;
+    font-size: ${typography.fontSize.lg};
+    font-weight: ${typography.fontWeight.semibold};
+  }
+`;
+
+export const ReportTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: ${typography.fontSize.sm};
+
+  caption {
+    text-align: left;
+    padding-bottom: ${spacing.space.sm};
+    font-weight: ${typography.fontWeight.medium};
+  }
+
+  th,
+  td {
+    padding: ${spacing.space.xs} ${spacing.space.sm};
+    text-align: left;
+    border-bottom: 1px solid ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+  }
+
+  th {
+    font-weight: ${typography.fontWeight.semibold};
+  }
+
+  td:not(:first-child),
+  th:not(:first-child) {
+    text-align: right;
+  }
+`;
+
+/**
+ * Bar showing the share of entering visitors reaching a funnel step
+ */
+export const StepBar = styled.div<{ $rate: number }>`
+  height: ${STEP_BAR_HEIGHT};
+  margin-top: ${spacing.space.xs};
+  border-radius: ${BORDER_RADIUS};
+  background: ${({ theme }) => theme.mode === 'dark' ? colors.border.dark : colors.border.light};
+
+  &::after {
+    content: '';
+    display: block;
+    height: 100%;
+    width: ${({ $rate }) => Math.round($rate * 100)}%;
+    border-radius: ${BORDER_RADIUS};
+    background: ${colors.primary};
+  }
+`;
+
+/**
+ * Empty state shown when no goals or funnels are defined
+ */
+export const EmptyState = styled.p`
+  margin: 0;
+  padding: ${spacing.space.lg} 0;
+  text-align: center;
+  opacity: 0.7;
+`;
@@ -0,0 +1,147 @@
+import React from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+// Component imports
+import GoalsPage from './GoalsPage';
+import { ThemeProvider } from '../../../providers/ThemeProvider';
+import { FunnelReport } from '../../../types/visitor.types';
+
+// Mock imports
+jest.mock('../../../hooks/useGoalData');
+
+const mockFunnelReport: FunnelReport = {
+  funnelId: 'trial',
+  name: 'Trial signup',
+  from: '2026-09-18T00:00:00.000Z',
+  to: '2026-10-18T00:00:00.000Z',
+  windowDays: 7,
+  entered: 40,
+  converted: 10,
+  conversionRate: 0.25,
+  medianSecondsToConvert: 7200,
+  steps: [
+    {
+      goalId: 'pricing_viewed',
+      name: 'Viewed pricing',
+      visitors: 40,
+      conversionRate: 1,
+      dropOff: 0,
+      dropOffRate: 0,
+      medianSecondsFromPrevious: null
+    },
+    {
+      goalId: 'trial_form',
+      name: 'Trial form',
+      visitors: 10,
+      conversionRate: 0.25,
+      dropOff: 30,
+      dropOffRate: 0.75,
+      medianSecondsFromPrevious: 7200
+    }
+  ]
+};
+
+/**
+ * Mock goal data hook state
+ */
+const mockGoalData = (overrides = {}) => ({
+  rangeDays: 30,
+  definitions: {
+    goals: [
+      { id: 'pricing_viewed', name: 'Viewed pricing', type: 'PAGE_VISIT', urlPattern: '/pricing' },
+      { id: 'trial_form', name: 'Trial form', type: 'FORM_SUBMIT', formId: 'trial' }
+    ],
+    funnels: [{ id: 'trial', name: 'Trial signup', steps: ['pricing_viewed', 'trial_form'] }]
+  },
+  goalReport: {
+    from: '2026-09-18T00:00:00.000Z',
+    to: '2026-10-18T00:00:00.000Z',
+    activeVisitors: 200,
+    goals: [
+      { goalId: 'pricing_viewed', name: 'Viewed pricing', type: 'PAGE_VISIT', completions: 55, visitors: 40, conversionRate: 0.2 },
+      { goalId: 'trial_form', name: 'Trial form', type: 'FORM_SUBMIT', completions: 10, visitors: 10, conversionRate: 0.05 }
+    ]
+  },
+  funnelId: 'trial',
+  segmentBy: undefined,
+  funnelReport: mockFunnelReport,
+  loading: false,
+  error: null,
+  setRangeDays: jest.fn(),
+  setFunnelId: jest.fn(),
+  setSegmentBy: jest.fn(),
+  clearError: jest.fn(),
+  ...overrides
+});
+
+const renderPage = (overrides = {}) => {
+  const { useGoalData } = require('../../../hooks/useGoalData');
+  const state = mockGoalData(overrides);
+  useGoalData.mockReturnValue(state);
+  return {
+    state,
+    ...render(
+      <ThemeProvider defaultMode="light">
+        <GoalsPage />
+      </ThemeProvider>
+    )
+  };
+};
+
+describe('GoalsPage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('lists goal completions and conversion rates', () => {
+    renderPage();
+
+    const rows = within(screen.getByRole('table', { name: 'Goals' })).getAllByRole('row');
+    expect(rows[1]).toHaveTextContent('Viewed pricing');
+    expect(rows[1]).toHaveTextContent('Page visit');
+    expect(rows[1]).toHaveTextContent('55');
+    expect(rows[1]).toHaveTextContent('20%');
+    expect(screen.getByText('200 active visitors')).toBeInTheDocument();
+  });
+
+  it('shows funnel conversion, drop-off and time to convert', () => {
+    renderPage();
+
+    expect(screen.getByText('Median time to convert').nextSibling).toHaveTextContent('2h');
+    const rows = within(screen.getByRole('table', { name: 'Trial signup steps within 7 days' })).getAllByRole('row');
+    expect(rows[2]).toHaveTextContent('2. Trial form');
+    expect(rows[2]).toHaveTextContent('30 (75%)');
+    expect(rows[2]).toHaveTextContent('2h');
+  });
+
+  it('renders one step table per segment', () => {
+    renderPage({
+      segmentBy: 'industry',
+      funnelReport: {
+        ...mockFunnelReport,
+        segmentBy: 'industry',
+        segments: [{ ...mockFunnelReport, segment: 'Technology' }]
+      }
+    });
+
+    expect(screen.getByRole('table', { name: 'Technology: 40 entered, 25% converted' })).toBeInTheDocument();
+  });
+
+  it('changes the range and segmentation', async () => {
+    const { state } = renderPage();
+
+    await userEvent.selectOptions(screen.getByLabelText('Range'), '90');
+    await userEvent.selectOptions(screen.getByLabelText('Segment by'), 'status');
+
+    expect(state.setRangeDays).toHaveBeenCalledWith(90);
+    expect(state.setSegmentBy).toHaveBeenCalledWith('status');
+  });
+
+  it('shows empty states without goals or funnels', () => {
+    renderPage({ definitions: { goals: [], funnels: [] }, goalReport: null, funnelReport: null });
+
+    expect(screen.getByText(/No goals defined yet/)).toBeInTheDocument();
+    expect(screen.getByText(/No funnels defined yet/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,270 @@
+import React, { useCallback } from 'react';
+import { ErrorBoundary } from 'react-error-boundary'; // v4.0.11
+
+// Internal imports
+import DashboardLayout from '../../../components/templates/DashboardLayout/DashboardLayout';
+import { useGoalData } from '../../../hooks/useGoalData';
+import { FunnelConversion, FunnelSegment, GoalType } from '../../../types/visitor.types';
+import {
+  Container,
+  Header,
+  Section,
+  SectionHeader,
+  Summary,
+  ReportTable,
+  StepBar,
+  EmptyState
+} from './GoalsPage.styles';
+
+/**
+ * Report ranges offered in the range selector, in days
+ */
+const RANGE_OPTIONS = [7, 30, 90] as const;
+
+/**
+ * Human-readable labels of the goal types
+ */
+const GOAL_TYPE_LABELS: Record<GoalType, string> = {
+  PAGE_VISIT: 'Page visit',
+  FORM_SUBMIT: 'Form submit',
+  CUSTOM_EVENT: 'Custom event'
+};
+
+/**
+ * Human-readable labels of the funnel segments
+ */
+const SEGMENT_LABELS: Record<FunnelSegment, string> = {
+  status: 'Visitor status',
+  industry: 'Industry'
+};
+
+/**
+ * Formats a 0-1 rate as a percentage with one decimal
+ */
+const formatRate = (rate: number): string =>
+  `${(rate * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+
+/**
+ * Formats a duration in seconds as the largest sensible unit
+ */
+const formatDuration = (seconds: number | null): string => {
+  if (seconds === null) {
+    return '—';
+  }
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.round(seconds / 60)}m`;
+  }
+  if (seconds < 86400) {
+    return `${(seconds / 3600).toLocaleString(undefined, { maximumFractionDigits: 1 })}h`;
+  }
+  return `${(seconds / 86400).toLocaleString(undefined, { maximumFractionDigits: 1 })}d`;
+};
+
+/**
+ * Renders the step table of a funnel conversion
+ */
+const FunnelSteps: React.FC<{ conversion: FunnelConversion; caption: string }> = ({ conversion, caption }) => (
+  <ReportTable aria-label={caption}>
+    <caption>{caption}</caption>
+    <thead>
+      <tr>
+        <th scope="col">Step</th>
+        <th scope="col">Visitors</th>
+        <th scope="col">Conversion</th>
+        <th scope="col">Drop-off</th>
+        <th scope="col">Median time from previous</th>
+      </tr>
+    </thead>
+    <tbody>
+      {conversion.steps.map((step, index) => (
+        <tr key={step.goalId}>
+          <td>
+            {index + 1}. {step.name}
+            <StepBar $rate={step.conversionRate} aria-hidden="true" />
+          </td>
+          <td>{step.visitors.toLocaleString()}</td>
+          <td>{formatRate(step.conversionRate)}</td>
+          <td>{index === 0 ? '—' : `${step.dropOff.toLocaleString()} (${formatRate(step.dropOffRate)})`}</td>
+          <td>{formatDuration(step.medianSecondsFromPrevious)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </ReportTable>
+);
+
+/**
+ * GoalsPage component reporting conversion goals and funnels
+ * Shows goal completions, funnel conversion, drop-off per step and time-to-convert,
+ * optionally segmented by visitor status or industry
+ * @version 1.0.0
+ */
+const GoalsPage: React.FC = React.memo(() => {
+  const {
+    rangeDays,
+    definitions,
+    goalReport,
+    funnelId,
+    segmentBy,
+    funnelReport,
+    loading,
+    error,
+    setRangeDays,
+    setFunnelId,
+    setSegmentBy,
+    clearError
+  } = useGoalData();
+
+  /**
+   * Handle segment selection, the empty option removes segmentation
+   */
+  const handleSegmentChange = useCallback((event: React.ChangeEvent<HTMLSelectElement>) => {
+    setSegmentBy((event.target.value || undefined) as FunnelSegment | undefined);
+  }, [setSegmentBy]);
+
+  /**
+   * Error fallback component
+   */
+  const ErrorFallback = ({ error: boundaryError, resetErrorBoundary }: any) => (
+    <div role="alert" aria-live="polite">
+      <h3>Something went wrong:</h3>
+      <pre>{boundaryError.message}</pre>
+      <button onClick={resetErrorBoundary}>Try again</button>
+    </div>
+  );
+
+  return (
+    <DashboardLayout>
+      <ErrorBoundary FallbackComponent={ErrorFallback} onReset={clearError}>
+        <Container role="main" aria-label="Conversion goals and funnels" aria-busy={loading}>
+          <Header>
+            <h1>Goals</h1>
+            <label>
+              Range
+              <select value={rangeDays} onChange={(event) => setRangeDays(Number(event.target.value))}>
+                {RANGE_OPTIONS.map(days => (
+                  <option key={days} value={days}>Last {days} days</option>
+                ))}
+              </select>
+            </label>
+          </Header>
+
+          {error && (
+            <div role="alert">
+              {error}
+              <button onClick={clearError} aria-label="Dismiss error">×</button>
+            </div>
+          )}
+
+          <Section aria-labelledby="goals-heading">
+            <SectionHeader>
+              <h2 id="goals-heading">Goal completions</h2>
+              {goalReport && <span>{goalReport.activeVisitors.toLocaleString()} active visitors</span>}
+            </SectionHeader>
+            {definitions.goals.length === 0 ? (
+              <EmptyState>No goals defined yet. Admins define goals in the company settings.</EmptyState>
+            ) : (
+              <ReportTable aria-label="Goals">
+                <thead>
+                  <tr>
+                    <th scope="col">Goal</th>
+                    <th scope="col">Type</th>
+                    <th scope="col">Completions</th>
+                    <th scope="col">Visitors</th>
+                    <th scope="col">Conversion</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(goalReport?.goals || []).map(goal => (
+                    <tr key={goal.goalId}>
+                      <td>{goal.name}</td>
+                      <td>{GOAL_TYPE_LABELS[goal.type]}</td>
+                      <td>{goal.completions.toLocaleString()}</td>
+                      <td>{goal.visitors.toLocaleString()}</td>
+                      <td>{formatRate(goal.conversionRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </ReportTable>
+            )}
+          </Section>
+
+          <Section aria-labelledby="funnel-heading">
+            <SectionHeader>
+              <h2 id="funnel-heading">Funnels</h2>
+              {definitions.funnels.length > 0 && (
+                <>
+                  <label>
+                    Funnel
+                    <select value={funnelId ?? ''} onChange={(event) => setFunnelId(event.target.value)}>
+                      {definitions.funnels.map(funnel => (
+                        <option key={funnel.id} value={funnel.id}>{funnel.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    Segment by
+                    <select value={segmentBy ?? ''} onChange={handleSegmentChange}>
+                      <option value="">None</option>
+                      {(Object.keys(SEGMENT_LABELS) as FunnelSegment[]).map(segment => (
+                        <option key={segment} value={segment}>{SEGMENT_LABELS[segment]}</option>
+                      ))}
+                    </select>
+                  </label>
+                </>
+              )}
+            </SectionHeader>
+
+            {definitions.funnels.length === 0 && (
+              <EmptyState>No funnels defined yet. Admins define funnels from goals in the company settings.</EmptyState>
+            )}
+
+            {funnelReport && (
+              <>
+                <Summary>
+                  <div>
+                    <dt>Entered</dt>
+                    <dd>{funnelReport.entered.toLocaleString()}</dd>
+                  </div>
+                  <div>
+                    <dt>Converted</dt>
+                    <dd>{funnelReport.converted.toLocaleString()}</dd>
+                  </div>
+                  <div>
+                    <dt>Conversion rate</dt>
+                    <dd>{formatRate(funnelReport.conversionRate)}</dd>
+                  </div>
+                  <div>
+                    <dt>Median time to convert</dt>
+                    <dd>{formatDuration(funnelReport.medianSecondsToConvert)}</dd>
+                  </div>
+                </Summary>
+
+                <FunnelSteps
+                  conversion={funnelReport}
+                  caption={`${funnelReport.name} steps within ${funnelReport.windowDays} days`}
+                />
+
+                {funnelReport.segments?.map(segment => (
+                  <FunnelSteps
+                    key={segment.segment}
+                    conversion={segment}
+                    caption={`${segment.segment}: ${segment.entered.toLocaleString()} entered, ` +
+                      `${formatRate(segment.conversionRate)} converted`}
+                  />
+                ))}
+              </>
+            )}
+          </Section>
+        </Container>
+      </ErrorBoundary>
+    </DashboardLayout>
+  );
+});
+
+// Display name for debugging
+GoalsPage.displayName = 'GoalsPage';
+
+export default GoalsPage;
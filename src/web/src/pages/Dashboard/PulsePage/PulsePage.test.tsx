@@ -12,6 +12,10 @@ import ThemeProvider from '../../../providers/ThemeProvider';
 // Mock imports
 jest.mock('../../../hooks/useVisitorData');
 jest.mock('../../../hooks/useWebSocket');
+jest.mock('../../../hooks/useAccountData');
+jest.mock('../../../hooks/useAttributionData');
+jest.mock('../../../hooks/useBotData');
+jest.mock('../../../hooks/useAuth');
 
 /**
  * Helper function to render component with required providers
@@ -71,9 +75,82 @@ const mockVisitorData = (overrides = {}) => ({
   ...overrides
 });
 
+/**
+ * Mock account data hook state
+ */
+const mockAccountData = (overrides = {}) => ({
+  accounts: [
+    {
+      domain: 'acme.com',
+      name: 'Acme Corp',
+      visitorCount: 3,
+      engagedPeople: 1,
+      totalVisits: 9,
+      totalTimeSpent: 600,
+      topScore: 40,
+      firstSeen: '2023-01-01T00:00:00Z',
+      lastSeen: '2023-01-02T00:00:00Z',
+      topPages: [{ url: '/pricing', views: 2 }]
+    }
+  ],
+  loading: false,
+  selectedAccount: null,
+  accountVisitors: [],
+  fetchAccounts: jest.fn(),
+  updateSearch: jest.fn(),
+  updateQuery: jest.fn(),
+  selectAccount: jest.fn(),
+  clearSelectedAccount: jest.fn(),
+  ...overrides
+});
+
+/**
+ * Mock attribution data hook state
+ */
+const mockAttributionData = (overrides = {}) => ({
+  model: 'FIRST_TOUCH',
+  report: {
+    model: 'FIRST_TOUCH',
+    channels: [{ channel: 'ORGANIC_SEARCH', visitors: 5, identified: 2, enriched: 1 }],
+    campaigns: []
+  },
+  loading: false,
+  setModel: jest.fn(),
+  ...overrides
+});
+
+/**
+ * Mock bot data hook state
+ */
+const mockBotData = (overrides = {}) => ({
+  bots: [
+    mockVisitorData({
+      id: 'bot-1',
+      metadata: { ipAddress: '198.51.100.23', userAgent: 'curl/8.4.0', referrer: '', location: {} },
+      trafficQuality: {
+        isBot: true,
+        signals: [{ type: 'USER_AGENT', detail: 'curl/8.4.0', detectedAt: '2023-01-02T00:00:00Z' }],
+        classifiedAt: '2023-01-02T00:00:00Z'
+      }
+    })
+  ],
+  total: 1,
+  loading: false,
+  unflagBot: jest.fn(),
+  ...overrides
+});
+
 describe('PulsePage Component', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    const { useAccountData } = require('../../../hooks/useAccountData');
+    useAccountData.mockReturnValue(mockAccountData());
+    const { useAttributionData } = require('../../../hooks/useAttributionData');
+    useAttributionData.mockReturnValue(mockAttributionData());
+    const { useBotData } = require('../../../hooks/useBotData');
+    useBotData.mockReturnValue(mockBotData());
+    const { useAuth } = require('../../../hooks/useAuth');
+    useAuth.mockReturnValue({ user: { id: 'user-1', role: 'ADMIN' } });
   });
 
   describe('Rendering and Layout', () => {
@@ -208,6 +285,75 @@ describe('PulsePage Component', () => {
     });
   });
 
+  describe('Accounts View', () => {
+    it('should switch to the accounts tab', async () => {
+      renderWithProviders(<PulsePage />);
+
+      await userEvent.click(screen.getByRole('tab', { name: 'Accounts' }));
+
+      expect(screen.getByRole('tab', { name: 'Accounts' })).toHaveAttribute('aria-selected', 'true');
+      expect(screen.getByText('Acme Corp')).toBeInTheDocument();
+    });
+
+    it('should drill down to the visitors of a clicked account', async () => {
+      const { useAccountData } = require('../../../hooks/useAccountData');
+      const accountData = mockAccountData();
+      useAccountData.mockReturnValue(accountData);
+
+      renderWithProviders(<PulsePage />);
+      await userEvent.click(screen.getByRole('tab', { name: 'Accounts' }));
+      await userEvent.click(screen.getByText('Acme Corp'));
+
+      expect(accountData.selectAccount).toHaveBeenCalledWith(accountData.accounts[0]);
+    });
+  });
+
+  describe('Attribution View', () => {
+    it('should switch to the attribution tab', async () => {
+      renderWithProviders(<PulsePage />);
+
+      await userEvent.click(screen.getByRole('tab', { name: 'Attribution' }));
+
+      expect(screen.getByRole('tab', { name: 'Attribution' })).toHaveAttribute('aria-selected', 'true');
+      expect(screen.getByText('Organic search')).toBeInTheDocument();
+    });
+
+    it('should change the attribution model', async () => {
+      const { useAttributionData } = require('../../../hooks/useAttributionData');
+      const attributionData = mockAttributionData();
+      useAttributionData.mockReturnValue(attributionData);
+
+      renderWithProviders(<PulsePage />);
+      await userEvent.click(screen.getByRole('tab', { name: 'Attribution' }));
+      await userEvent.selectOptions(screen.getByLabelText('Model'), 'LINEAR');
+
+      expect(attributionData.setModel).toHaveBeenCalledWith('LINEAR');
+    });
+  });
+
+  describe('Bots View', () => {
+    it('should let admins unflag a bot', async () => {
+      const { useBotData } = require('../../../hooks/useBotData');
+      const botData = mockBotData();
+      useBotData.mockReturnValue(botData);
+
+      renderWithProviders(<PulsePage />);
+      await userEvent.click(screen.getByRole('tab', { name: 'Bots' }));
+      await userEvent.click(screen.getByRole('button', { name: 'Unflag visitor bot-1 as human' }));
+
+      expect(botData.unflagBot).toHaveBeenCalledWith('bot-1');
+    });
+
+    it('should hide the bots tab from non-admins', () => {
+      const { useAuth } = require('../../../hooks/useAuth');
+      useAuth.mockReturnValue({ user: { id: 'user-2', role: 'MEMBER' } });
+
+      renderWithProviders(<PulsePage />);
+
+      expect(screen.queryByRole('tab', { name: 'Bots' })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Performance', () => {
     it('should render initial content within performance budget', async () => {
       const startTime = performance.now();
@@ -5,9 +5,25 @@ import { ErrorBoundary } from 'react-error-boundary'; // v4.0.11
 // Internal imports
 import DashboardLayout from '../../components/templates/DashboardLayout/DashboardLayout';
 import VisitorTable from '../../../components/organisms/VisitorTable/VisitorTable';
+import VisitorDetailPanel from '../../../components/organisms/VisitorDetailPanel/VisitorDetailPanel';
+import EnrichmentReviewPanel from '../../../components/organisms/EnrichmentReviewPanel/EnrichmentReviewPanel';
+import AccountTable from '../../../components/organisms/AccountTable/AccountTable';
+import AttributionPanel from '../../../components/organisms/AttributionPanel/AttributionPanel';
+import BotTable from '../../../components/organisms/BotTable/BotTable';
 import { useVisitorData } from '../../../hooks/useVisitorData';
+import { useAccountData } from '../../../hooks/useAccountData';
+import { useAttributionData } from '../../../hooks/useAttributionData';
+import { useBotData } from '../../../hooks/useBotData';
+import { useAuth } from '../../../hooks/useAuth';
 import { useWebSocket } from '../../../hooks/useWebSocket';
 import { Visitor, VisitorFilter } from '../../../types/visitor.types';
+import { UserRole } from '../../../types/auth.types';
+
+/**
+ * Views of the pulse page: individual visitors, accounts they roll up into, channels that brought them
+ * or, for admins, visitors hidden as bots
+ */
+type PulseView = 'visitors' | 'accounts' | 'attribution' | 'bots';
 
 /**
  * PulsePage component for real-time visitor tracking and lead generation
@@ -16,6 +32,7 @@ import { Visitor, VisitorFilter } from '../../../types/visitor.types';
  */
 const PulsePage: React.FC = React.memo(() => {
   // State management
+  const [view, setView] = useState<PulseView>('visitors');
   const [filter, setFilter] = useState<VisitorFilter>({
     status: [],
     dateRange: {
@@ -29,16 +46,51 @@ const PulsePage: React.FC = React.memo(() => {
   const {
     visitors,
     selectedVisitor,
+    visitorProfile,
+    visitorSessions,
+    hasMoreSessions,
     loading,
     error,
     total,
     connectionStatus,
     fetchVisitors,
     selectVisitor,
+    loadMoreSessions,
+    undoMerge,
+    overrideEnrichedField,
+    releaseEnrichedField,
     updateFilter,
     clearError
   } = useVisitorData(filter);
 
+  const {
+    accounts,
+    loading: accountsLoading,
+    selectedAccount,
+    accountVisitors,
+    fetchAccounts,
+    updateSearch: updateAccountSearch,
+    updateQuery: updateAccountQuery,
+    selectAccount,
+    clearSelectedAccount
+  } = useAccountData();
+
+  const {
+    model: attributionModel,
+    report: attributionReport,
+    loading: attributionLoading,
+    setModel: setAttributionModel
+  } = useAttributionData();
+
+  const { user } = useAuth();
+  const isAdmin = user?.role === UserRole.ADMIN;
+  const {
+    bots,
+    total: botTotal,
+    loading: botsLoading,
+    unflagBot
+  } = useBotData(isAdmin);
+
   const { subscribe, unsubscribe } = useWebSocket();
 
   /**
@@ -171,16 +223,112 @@ const PulsePage: React.FC = React.memo(() => {
             </div>
           </header>
 
-          <main className="pulse-content">
-            <VisitorTable
-              filter={filter}
-              onVisitorSelect={handleVisitorSelect}
-              onExport={handleExport}
-              pageSize={25}
-              enableRealtime={true}
-              showConnectionStatus={true}
-              virtualization={true}
-            />
+          <div className="pulse-tabs" role="tablist" aria-label="Pulse views">
+            <button
+              role="tab"
+              id="pulse-tab-visitors"
+              aria-selected={view === 'visitors'}
+              aria-controls="pulse-panel"
+              onClick={() => setView('visitors')}
+            >
+              Visitors
+            </button>
+            <button
+              role="tab"
+              id="pulse-tab-accounts"
+              aria-selected={view === 'accounts'}
+              aria-controls="pulse-panel"
+              onClick={() => setView('accounts')}
+            >
+              Accounts
+            </button>
+            <button
+              role="tab"
+              id="pulse-tab-attribution"
+              aria-selected={view === 'attribution'}
+              aria-controls="pulse-panel"
+              onClick={() => setView('attribution')}
+            >
+              Attribution
+            </button>
+            {isAdmin && (
+              <button
+                role="tab"
+                id="pulse-tab-bots"
+                aria-selected={view === 'bots'}
+                aria-controls="pulse-panel"
+                onClick={() => setView('bots')}
+              >
+                Bots
+              </button>
+            )}
+          </div>
+
+          <main
+            className="pulse-content"
+            id="pulse-panel"
+            role="tabpanel"
+            aria-labelledby={`pulse-tab-${view}`}
+          >
+            {view === 'visitors' && (
+              <VisitorTable
+                filter={filter}
+                onVisitorSelect={handleVisitorSelect}
+                onExport={handleExport}
+                pageSize={25}
+                enableRealtime={true}
+                showConnectionStatus={true}
+                virtualization={true}
+              />
+            )}
+            {view === 'accounts' && (
+              <AccountTable
+                accounts={accounts}
+                loading={accountsLoading}
+                selectedAccount={selectedAccount}
+                accountVisitors={accountVisitors}
+                onAccountSelect={selectAccount}
+                onBack={clearSelectedAccount}
+                onVisitorSelect={handleVisitorSelect}
+                onSearchChange={updateAccountSearch}
+                onSortChange={(sortBy) => updateAccountQuery({ sortBy, page: 1 })}
+                onRefresh={fetchAccounts}
+              />
+            )}
+            {view === 'attribution' && (
+              <AttributionPanel
+                report={attributionReport}
+                model={attributionModel}
+                onModelChange={setAttributionModel}
+                loading={attributionLoading}
+              />
+            )}
+            {view === 'bots' && isAdmin && (
+              <BotTable
+                bots={bots}
+                total={botTotal}
+                onUnflag={unflagBot}
+                loading={botsLoading}
+              />
+            )}
+            {visitorProfile && (
+              <>
+                <VisitorDetailPanel
+                  profile={visitorProfile}
+                  onUndoMerge={undoMerge}
+                  sessions={visitorSessions}
+                  hasMoreSessions={hasMoreSessions}
+                  onLoadMoreSessions={loadMoreSessions}
+                  loading={loading}
+                />
+                <EnrichmentReviewPanel
+                  visitor={visitorProfile.profile}
+                  onOverride={overrideEnrichedField}
+                  onRelease={releaseEnrichedField}
+                  loading={loading}
+                />
+              </>
+            )}
           </main>
         </div>
       </ErrorBoundary>
@@ -8,6 +8,7 @@ const Login = React.lazy(() => import('../pages/auth/Login'));
 const Register = React.lazy(() => import('../pages/auth/Register'));
 const Dashboard = React.lazy(() => import('../pages/dashboard/Dashboard'));
 const Pulse = React.lazy(() => import('../pages/pulse/Pulse'));
+const Goals = React.lazy(() => import('../pages/Dashboard/GoalsPage/GoalsPage'));
 const Integrations = React.lazy(() => import('../pages/integrations/Integrations'));
 const Team = React.lazy(() => import('../pages/team/Team'));
 const Settings = React.lazy(() => import('../pages/settings/Settings'));
@@ -46,6 +47,11 @@ const protectedRoutes = [
     component: Pulse,
     meta: { title: 'Pulse - Identity Matrix' }
   },
+  {
+    path: '/goals',
+    component: Goals,
+    meta: { title: 'Goals - Identity Matrix' }
+  },
   {
     path: '/integrations',
     component: Integrations,
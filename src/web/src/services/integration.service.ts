@@ -17,7 +17,10 @@ import {
   IntegrationCreatePayload,
   IntegrationUpdatePayload,
   IntegrationConfig,
-  FieldMapping
+  FieldMapping,
+  SyncRun,
+  SyncRunPage,
+  CrmRecordPreview
 } from '../types/integration.types';
 
 /**
@@ -25,6 +28,8 @@ import {
  */
 interface SyncOptions {
   force?: boolean;
+  /** Push every visitor again instead of those changed since the last sync */
+  fullResync?: boolean;
   fields?: string[];
   batchSize?: number;
 }
@@ -148,6 +153,62 @@ export class IntegrationService {
     }
   }
 
+  /**
+   * Retrieves a page of an integration's sync history, latest runs first
+   */
+  public async getSyncRuns(
+    integrationId: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<SyncRunPage> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data: SyncRunPage }> = await this.apiInstance.get(
+        API_ENDPOINTS.INTEGRATIONS.SYNCS.replace(':id', integrationId),
+        { params: { page, limit } }
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to fetch sync history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Pushes the records a sync run failed on again
+   * @returns The retry run
+   */
+  public async retryFailedRecords(integrationId: string, syncId: string): Promise<SyncRun> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data: SyncRun }> = await this.apiInstance.post(
+        API_ENDPOINTS.INTEGRATIONS.RETRY_SYNC.replace(':id', integrationId).replace(':syncId', syncId)
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to retry failed sync records:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Previews how a visitor would look in the CRM, under the integration's saved field
+   * mappings or the unsaved ones given
+   */
+  public async previewFieldMappings(
+    integrationId: string,
+    sample: { visitorId?: string; visitor?: Record<string, unknown>; fieldMappings?: FieldMapping[] }
+  ): Promise<CrmRecordPreview> {
+    try {
+      const response: AxiosResponse<{ success: boolean; data: CrmRecordPreview }> = await this.apiInstance.post(
+        API_ENDPOINTS.INTEGRATIONS.PREVIEW.replace(':id', integrationId),
+        sample
+      );
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to preview field mappings:', error);
+      throw error;
+    }
+  }
+
   /**
    * Verifies integration connection and credentials
    */
@@ -10,7 +10,27 @@ import { debounce } from 'lodash'; // lodash@4.x
 
 // Internal imports
 import ApiService from './api.service';
-import { Visitor, VisitorFilter, VisitorStatus, VisitorMetadata, EnrichedData } from '../types/visitor.types';
+import {
+  Visitor,
+  VisitorFilter,
+  VisitorStatus,
+  VisitorMetadata,
+  EnrichedData,
+  VisitorProfile,
+  ScoreHistoryEntry,
+  VisitorSessionPage,
+  AccountSummary,
+  AccountQuery,
+  AttributionModel,
+  AttributionReport,
+  GoalDefinitions,
+  GoalReport,
+  GoalReportRange,
+  FunnelReport,
+  FunnelSegment,
+  ReviewableField,
+  FieldOverrideInput
+} from '../types/visitor.types';
 import { API_ENDPOINTS } from '../constants/api.constants';
 
 // Constants
@@ -107,6 +127,246 @@ class VisitorService {
     }
   }
 
+  /**
+   * Retrieve the merged cross-device profile a visitor belongs to
+   * @param id - Any visitor identifier linked to the profile
+   */
+  public async getVisitorProfile(id: string): Promise<VisitorProfile> {
+    try {
+      const response = await this.apiInstance.get<VisitorProfile>(
+        API_ENDPOINTS.VISITORS.PROFILE.replace(':id', id)
+      );
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Undo a visitor merge, splitting the merged device back out
+   * @param mergeId - Merge identifier
+   */
+  public async undoMerge(mergeId: string): Promise<VisitorProfile> {
+    try {
+      const response = await this.apiInstance.post<VisitorProfile>(
+        API_ENDPOINTS.VISITORS.UNDO_MERGE.replace(':mergeId', mergeId)
+      );
+      this.cache.clear();
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Lock an enriched field to an accepted provider candidate or an entered value
+   * @param id - Visitor identifier
+   * @param field - Enriched field to lock
+   * @param input - Accepted provider or entered value
+   */
+  public async overrideEnrichedField(
+    id: string,
+    field: ReviewableField,
+    input: FieldOverrideInput
+  ): Promise<Visitor> {
+    try {
+      const response = await this.apiInstance.put<Visitor>(
+        API_ENDPOINTS.VISITORS.ENRICHMENT_FIELD.replace(':id', id).replace(':field', field),
+        input
+      );
+      this.cache.clear();
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Unlock an enriched field so re-enrichment resolves it from providers again
+   * @param id - Visitor identifier
+   * @param field - Enriched field to unlock
+   */
+  public async releaseEnrichedField(id: string, field: ReviewableField): Promise<Visitor> {
+    try {
+      const response = await this.apiInstance.delete<Visitor>(
+        API_ENDPOINTS.VISITORS.ENRICHMENT_FIELD.replace(':id', id).replace(':field', field)
+      );
+      this.cache.clear();
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieve the lead score history of a visitor, most recent first
+   * @param id - Visitor identifier
+   */
+  public async getScoreHistory(id: string): Promise<ScoreHistoryEntry[]> {
+    try {
+      const response = await this.apiInstance.get<ScoreHistoryEntry[]>(
+        API_ENDPOINTS.VISITORS.SCORE_HISTORY.replace(':id', id)
+      );
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieve accounts with their rolled-up visitor engagement
+   * @param query - Pagination, sort and search options
+   */
+  public async getAccounts(query: AccountQuery): Promise<{ accounts: AccountSummary[]; total: number }> {
+    try {
+      const response = await this.apiInstance.get<{ accounts: AccountSummary[]; total: number }>(
+        API_ENDPOINTS.VISITORS.ACCOUNTS,
+        {
+          params: query,
+          timeout: REQUEST_TIMEOUT
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieve identified and enriched visitors by marketing channel and campaign
+   * @param model - How each visitor's touches are credited
+   * @param since - Only visitors first seen at or after this time (ISO format)
+   */
+  public async getAttributionReport(model: AttributionModel, since?: string): Promise<AttributionReport> {
+    try {
+      const response = await this.apiInstance.get<AttributionReport>(
+        API_ENDPOINTS.VISITORS.ATTRIBUTION,
+        {
+          params: { model, ...(since && { since }) },
+          timeout: REQUEST_TIMEOUT
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieve the conversion goals and funnels defined in the company settings
+   */
+  public async getGoals(): Promise<GoalDefinitions> {
+    try {
+      const response = await this.apiInstance.get<GoalDefinitions>(API_ENDPOINTS.VISITORS.GOALS);
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieve completions and conversion rates of the company's goals
+   * @param range - Report time range, the last 30 days when empty
+   */
+  public async getGoalReport(range: GoalReportRange = {}): Promise<GoalReport> {
+    try {
+      const response = await this.apiInstance.get<GoalReport>(
+        API_ENDPOINTS.VISITORS.GOAL_REPORT,
+        {
+          params: range,
+          timeout: REQUEST_TIMEOUT
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieve conversion, drop-off and time-to-convert of a funnel
+   * @param funnelId - Funnel identifier
+   * @param range - Report time range, the last 30 days when empty
+   * @param segmentBy - Optional visitor dimension to segment conversion by
+   */
+  public async getFunnelReport(
+    funnelId: string,
+    range: GoalReportRange = {},
+    segmentBy?: FunnelSegment
+  ): Promise<FunnelReport> {
+    try {
+      const response = await this.apiInstance.get<FunnelReport>(
+        API_ENDPOINTS.VISITORS.FUNNEL_REPORT.replace(':funnelId', funnelId),
+        {
+          params: { ...range, ...(segmentBy && { segmentBy }) },
+          timeout: REQUEST_TIMEOUT
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieve visitors flagged as bots, which visitor lists exclude
+   * @param page - Page number
+   * @param pageSize - Items per page
+   */
+  public async getBots(page: number = 1, pageSize: number = 50): Promise<VisitorResponse> {
+    try {
+      const response = await this.apiInstance.get<VisitorResponse>(
+        API_ENDPOINTS.VISITORS.BOTS,
+        {
+          params: { page, limit: pageSize }
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Unflag a visitor reviewed as human so it shows in visitor lists again
+   * @param id - Visitor identifier
+   */
+  public async unflagBot(id: string): Promise<Visitor> {
+    try {
+      const response = await this.apiInstance.delete<Visitor>(
+        API_ENDPOINTS.VISITORS.BOT_FLAG.replace(':id', id)
+      );
+      this.cache.clear();
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Retrieve the visitors belonging to an account
+   * @param domain - Account domain
+   * @param page - Page number
+   * @param pageSize - Items per page
+   */
+  public async getAccountVisitors(
+    domain: string,
+    page: number = 1,
+    pageSize: number = 50
+  ): Promise<VisitorResponse> {
+    try {
+      const response = await this.apiInstance.get<VisitorResponse>(
+        API_ENDPOINTS.VISITORS.ACCOUNT_VISITORS.replace(':domain', encodeURIComponent(domain)),
+        {
+          params: { page, limit: pageSize }
+        }
+      );
+      return response.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Retrieve visitors by company with pagination
    * @param companyId - Company identifier
@@ -132,13 +392,17 @@ class VisitorService {
   }
 
   /**
-   * Retrieve visitor activity history
+   * Retrieve visitor sessions with their activities, most recent first
    * @param visitorId - Visitor identifier
+   * @param cursor - Cursor of the page to load, the first page when omitted
    */
-  public async getVisitorActivity(visitorId: string): Promise<any[]> {
+  public async getVisitorSessions(visitorId: string, cursor?: string): Promise<VisitorSessionPage> {
     try {
-      const response = await this.apiInstance.get(
-        API_ENDPOINTS.VISITORS.ACTIVITY.replace(':id', visitorId)
+      const response = await this.apiInstance.get<VisitorSessionPage>(
+        API_ENDPOINTS.VISITORS.SESSIONS.replace(':id', visitorId),
+        {
+          params: { cursor }
+        }
       );
       return response.data;
     } catch (error) {
@@ -193,7 +457,10 @@ class VisitorService {
     return JSON.stringify({
       status: filter.status,
       dateRange: filter.dateRange,
-      search: filter.search
+      search: filter.search,
+      minScore: filter.minScore,
+      icpTier: filter.icpTier,
+      sortBy: filter.sortBy
     });
   }
 
@@ -226,7 +493,10 @@ class VisitorService {
       status: filter.status.join(','),
       startDate: filter.dateRange.start,
       endDate: filter.dateRange.end,
-      search: filter.search
+      search: filter.search,
+      minScore: filter.minScore,
+      icpTier: filter.icpTier?.join(','),
+      sortBy: filter.sortBy
     };
   }
 
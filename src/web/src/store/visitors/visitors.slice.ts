@@ -118,6 +118,19 @@ export const visitorsSlice = createSlice({
             state.error = error;
         },
 
+        updateVisitorScore: (state, action: PayloadAction<{ visitorId: string; score: number }>) => {
+            const { visitorId, score } = action.payload;
+
+            const visitor = state.visitors.find(v => v.id === visitorId);
+            if (visitor) {
+                visitor.score = score;
+            }
+
+            if (state.selectedVisitor?.id === visitorId) {
+                state.selectedVisitor.score = score;
+            }
+        },
+
         setPage: (state, action: PayloadAction<number>) => {
             state.currentPage = action.payload;
             state.loading = true;
@@ -153,6 +166,7 @@ export const {
     updateVisitor,
     updateVisitorSuccess,
     updateVisitorFailure,
+    updateVisitorScore,
     setPage,
     setPageSize,
     setLoading,
@@ -20,6 +20,16 @@ export enum IntegrationStatus {
     ERROR = 'ERROR'
 }
 
+/**
+ * Enum representing the CRM objects visitors are pushed as
+ * @version 1.0.0
+ */
+export enum CrmObject {
+    LEAD = 'LEAD',
+    CONTACT = 'CONTACT',
+    ACCOUNT = 'ACCOUNT'
+}
+
 /**
  * Interface for OAuth2 credentials used in CRM integrations
  * @version 1.0.0
@@ -32,6 +42,30 @@ export interface IntegrationCredentials {
     tokenExpiry: Date;
 }
 
+/**
+ * Built-in operators of field mapping transformations
+ */
+export type TransformOperator =
+    | 'concat' | 'split' | 'join' | 'lowercase' | 'uppercase' | 'trim' | 'mapValue' | 'formatDate'
+    | 'default' | 'if' | 'equals' | 'contains' | 'isEmpty' | 'and' | 'or' | 'not';
+
+/**
+ * Field mapping transformation: a literal, a visitor field such as { field: 'enrichedData.company' }
+ * or a built-in operator applied to its arguments
+ */
+export type TransformExpression =
+    | string
+    | number
+    | boolean
+    | null
+    | { field: string }
+    | {
+        op: TransformOperator;
+        args: TransformExpression[];
+        /** Values of mapValue keyed by the value they replace */
+        table?: Record<string, string | number | boolean | null>;
+    };
+
 /**
  * Interface defining field mapping configuration between Identity Matrix and CRM
  * @version 1.0.0
@@ -40,6 +74,43 @@ export interface FieldMapping {
     sourceField: string;
     targetField: string;
     transformFunction?: string;
+    /** Computes the CRM value instead of pushing the source field value */
+    transformation?: TransformExpression | null;
+    required?: boolean;
+}
+
+/**
+ * CRM record a visitor would be pushed as under an integration's field mappings
+ * @version 1.0.0
+ */
+export interface CrmRecordPreview {
+    object: CrmObject;
+    email: string | null;
+    domain: string | null;
+    /** Mapped field values keyed by CRM target field */
+    fields: Record<string, unknown>;
+    /** Target fields of required mappings left without a value */
+    missingFields: string[];
+}
+
+/**
+ * Relationship fields pulled back from the CRM onto visitors
+ */
+export type CrmInboundField = 'owner' | 'lifecycleStage' | 'openOpportunity' | 'dealStage';
+
+/**
+ * Side kept when a pulled CRM value differs from the visitor's
+ */
+export type CrmConflictWinner = 'CRM' | 'LOCAL';
+
+/**
+ * Interface for pulling owner and pipeline state back from the CRM
+ * @version 1.0.0
+ */
+export interface InboundSyncConfig {
+    enabled: boolean;
+    /** Winning side by field, the CRM for fields not listed */
+    conflictWinners?: Partial<Record<CrmInboundField, CrmConflictWinner>>;
 }
 
 /**
@@ -49,8 +120,12 @@ export interface FieldMapping {
 export interface IntegrationConfig {
     syncInterval: number;
     fieldMappings: FieldMapping[];
+    /** CRM object visitors are pushed as, LEAD when unset */
+    syncObject?: CrmObject;
     webhookUrl?: string;
     customSettings: Record<string, any>;
+    /** Pulling owner, lifecycle stage and open deal back after each sync */
+    inboundSync?: InboundSyncConfig;
 }
 
 /**
@@ -88,4 +163,83 @@ export interface IntegrationUpdatePayload {
     credentials?: Partial<IntegrationCredentials>;
     config?: Partial<IntegrationConfig>;
     status: IntegrationStatus;
-}
\ No newline at end of file
+}
+/**
+ * Enum representing the states of a sync run
+ * @version 1.0.0
+ */
+export enum SyncRunStatus {
+    RUNNING = 'RUNNING',
+    SUCCESS = 'SUCCESS',
+    PARTIAL = 'PARTIAL',
+    ERROR = 'ERROR'
+}
+
+/**
+ * Enum representing what started a sync run
+ * @version 1.0.0
+ */
+export enum SyncTrigger {
+    USER = 'USER',
+    SCHEDULER = 'SCHEDULER'
+}
+
+/**
+ * Enum representing which visitors a sync run pushed: those changed since the last
+ * sync, every visitor on a full resync, or the failed records of an earlier run
+ * @version 1.0.0
+ */
+export enum SyncMode {
+    DELTA = 'DELTA',
+    FULL = 'FULL',
+    RETRY = 'RETRY'
+}
+
+/**
+ * Interface for a visitor the CRM refused during a sync run
+ * @version 1.0.0
+ */
+export interface SyncRecordError {
+    visitorId: string;
+    message: string;
+    /** HTTP status the CRM answered with */
+    code?: number;
+}
+
+/**
+ * Interface for a recorded run of an integration sync
+ * @version 1.0.0
+ */
+export interface SyncRun {
+    id: string;
+    integrationId: string;
+    status: SyncRunStatus;
+    trigger: SyncTrigger;
+    /** User who started the run, null for scheduled runs */
+    triggeredBy: string | null;
+    /** Run whose failed records this run pushed again */
+    retryOf: string | null;
+    syncObject: CrmObject;
+    mode: SyncMode;
+    recordsProcessed: number;
+    recordsFailed: number;
+    errorDetails: {
+        /** Error that stopped the run */
+        message?: string;
+        records: SyncRecordError[];
+    } | null;
+    startedAt: Date;
+    /** Null while the run is in progress */
+    completedAt: Date | null;
+}
+
+/**
+ * Interface for a page of an integration's sync history, latest runs first
+ * @version 1.0.0
+ */
+export interface SyncRunPage {
+    items: SyncRun[];
+    total: number;
+    page: number;
+    totalPages: number;
+}
@@ -1,13 +1,35 @@
+import { CrmObject, IntegrationType } from './integration.types';
+
 /**
  * Enum defining possible visitor identification states for tracking de-anonymization progress
  * @version 1.0.0
  */
 export enum VisitorStatus {
     ANONYMOUS = 'ANONYMOUS',
+    COMPANY_RESOLVED = 'COMPANY_RESOLVED',
     IDENTIFIED = 'IDENTIFIED',
     ENRICHED = 'ENRICHED'
 }
 
+/**
+ * Enum defining how well a visitor fits the company's ideal customer profiles
+ */
+export enum IcpFitTier {
+    A = 'A',
+    B = 'B',
+    C = 'C',
+    NONE = 'NONE'
+}
+
+/**
+ * Enum defining the outcome of verifying the email and phone of an identification
+ */
+export enum VerificationStatus {
+    VERIFIED = 'VERIFIED',
+    FLAGGED = 'FLAGGED',
+    REJECTED = 'REJECTED'
+}
+
 /**
  * Interface defining visitor geographical location data for regional analytics
  * @interface VisitorLocation
@@ -51,6 +73,92 @@ export interface EnrichedData {
     size: string;
     /** Annual revenue range */
     revenue: string;
+    /** Company website URL */
+    website?: string;
+    /** LinkedIn company profile URL */
+    linkedinUrl?: string;
+    /** Provider and confidence of each populated field */
+    provenance?: Partial<Record<ReviewableField, FieldProvenance>>;
+    /** Every value providers supplied per field, winning value first */
+    candidates?: Partial<Record<ReviewableField, FieldCandidate[]>>;
+    /** Fields locked by team members against re-enrichment */
+    overrides?: Partial<Record<ReviewableField, FieldOverride>>;
+}
+
+/**
+ * Enriched fields team members can review and override
+ */
+export type ReviewableField = 'company' | 'title' | 'industry' | 'size' | 'revenue' | 'website' | 'linkedinUrl';
+
+/**
+ * Interface defining which provider supplied an enriched field
+ * @interface FieldProvenance
+ */
+export interface FieldProvenance {
+    /** Provider that supplied the value ('manual' for entered values) */
+    provider: string;
+    /** Retrieval timestamp (ISO format) */
+    retrievedAt: string;
+    /** Confidence from 0 to 1 (absent on records enriched before confidence scoring) */
+    confidence?: number;
+}
+
+/**
+ * Interface defining a value a provider supplied for an enriched field
+ * @interface FieldCandidate
+ */
+export interface FieldCandidate {
+    /** Provider that supplied the value */
+    provider: string;
+    /** Supplied value */
+    value: string;
+    /** Confidence from 0 to 1 based on provider agreement */
+    confidence: number;
+    /** Retrieval timestamp (ISO format) */
+    retrievedAt: string;
+}
+
+/**
+ * Interface defining a team member's locked value for an enriched field
+ * @interface FieldOverride
+ */
+export interface FieldOverride {
+    /** Locked value */
+    value: string;
+    /** Provider of the accepted candidate (null for an entered value) */
+    provider: string | null;
+    /** User who locked the field */
+    userId: string;
+    /** Lock timestamp (ISO format) */
+    lockedAt: string;
+}
+
+/**
+ * Review decision for an enriched field: accept a provider's candidate or enter a value
+ * @interface FieldOverrideInput
+ */
+export interface FieldOverrideInput {
+    /** Value to lock the field to (ignored when a provider is accepted) */
+    value?: string;
+    /** Provider whose candidate is accepted */
+    provider?: string;
+}
+
+/**
+ * Interface defining how an anonymous visitor's company was resolved from their IP address
+ * @interface CompanyResolution
+ */
+export interface CompanyResolution {
+    /** Resolved organization name */
+    organization: string;
+    /** Resolved organization domain */
+    domain: string;
+    /** Match confidence (0-1) */
+    confidence: number;
+    /** CIDR range that matched the visitor's IP */
+    matchedRange: string;
+    /** Resolution timestamp (ISO format) */
+    resolvedAt: string;
 }
 
 /**
@@ -70,12 +178,529 @@ export interface Visitor {
     metadata: VisitorMetadata;
     /** Enriched data (null if not enriched) */
     enrichedData: EnrichedData | null;
+    /** Reverse-IP company resolution (null if unresolved) */
+    companyResolution?: CompanyResolution | null;
+    /** Canonical visitor this record was merged into (null if canonical) */
+    mergedInto?: string | null;
+    /** Lead score from 0 to 100 */
+    score?: number;
+    /** Ideal customer profile fit (null if not classified) */
+    icpFit?: IcpFit | null;
+    /** Verification verdict of the supplied email and phone (null if not verified) */
+    verification?: VerificationVerdict | null;
+    /** How the visitor was identified (null if not identified) */
+    identificationMethod?: 'FORM' | 'SIGNED_TOKEN' | null;
+    /** User ID in the customer's own system, set by signed identification */
+    externalUserId?: string | null;
+    /** Bot classification of the visitor's traffic (null until a bot signal is detected) */
+    trafficQuality?: TrafficQuality | null;
+    /** Linked CRM record with its owner and pipeline state (null until synced) */
+    crm?: VisitorCrmState | null;
     /** Initial visit timestamp (ISO format) */
     firstSeen: string;
     /** Most recent visit timestamp (ISO format) */
     lastSeen: string;
 }
 
+/**
+ * Reason a visitor was classified as a bot
+ */
+export type BotSignalType = 'USER_AGENT' | 'HEADLESS_BROWSER' | 'DATACENTER_IP' | 'PAGE_RATE';
+
+/**
+ * Interface defining a signal a visitor was classified as a bot on
+ * @interface BotSignal
+ */
+export interface BotSignal {
+    type: BotSignalType;
+    /** Evidence such as the user agent, datacenter provider or page rate */
+    detail: string;
+    /** Detection timestamp (ISO format) */
+    detectedAt: string;
+}
+
+/**
+ * Interface defining the bot classification of a visitor
+ * @interface TrafficQuality
+ */
+export interface TrafficQuality {
+    /** Whether the visitor is hidden from visitor lists as a bot */
+    isBot: boolean;
+    /** Signals detected so far */
+    signals: BotSignal[];
+    /** Timestamp the verdict last changed (ISO format) */
+    classifiedAt: string;
+    /** Admin who unflagged the visitor */
+    reviewedBy?: string | null;
+    /** Unflag timestamp (ISO format) */
+    reviewedAt?: string | null;
+}
+
+/**
+ * Interface defining the CRM record a visitor is linked to and its pipeline state
+ * @interface VisitorCrmState
+ */
+export interface VisitorCrmState {
+    type: IntegrationType;
+    object: CrmObject;
+    /** ID of the record in the CRM */
+    recordId: string;
+    /** Name of the CRM user owning the record */
+    owner: string | null;
+    /** Lead status, lifecycle stage or account type, depending on the CRM */
+    lifecycleStage: string | null;
+    /** Open opportunity closing soonest */
+    openOpportunity: {
+        id: string;
+        name: string;
+        amount: number | null;
+    } | null;
+    /** Stage of the open opportunity */
+    dealStage: string | null;
+    /** Last pull timestamp (ISO format, null until the first inbound sync) */
+    syncedAt: string | null;
+}
+
+/**
+ * Interface defining an ideal customer profile criterion a visitor matched
+ * @interface IcpMatchReason
+ */
+export interface IcpMatchReason {
+    /** Matched criterion */
+    criterion: 'industries' | 'sizes' | 'revenues' | 'technologies' | 'countries';
+    /** Visitor value that matched */
+    value: string;
+}
+
+/**
+ * Interface defining a visitor's fit against the company's ideal customer profiles
+ * @interface IcpFit
+ */
+export interface IcpFit {
+    /** Fit tier of the best matching profile */
+    tier: IcpFitTier;
+    /** Best matching profile (null if none matched) */
+    icpId: string | null;
+    /** Name of the best matching profile */
+    icpName: string | null;
+    /** Criteria of the best matching profile the visitor matched */
+    reasons: IcpMatchReason[];
+    /** Classification timestamp (ISO format) */
+    classifiedAt: string;
+}
+
+/**
+ * Interface defining the verification verdict of an identified visitor
+ * @interface VerificationVerdict
+ */
+export interface VerificationVerdict {
+    /** Overall outcome under the company's settings */
+    status: VerificationStatus;
+    /** Failed checks, e.g. FREE_WEBMAIL or NO_MX_RECORDS */
+    reasons: string[];
+    /** Email check result (if an email was supplied) */
+    email?: {
+        type: 'CORPORATE' | 'FREE_WEBMAIL' | 'DISPOSABLE' | 'ROLE';
+        hasMx: boolean | null;
+        suggestedDomain?: string;
+    };
+    /** Phone check result (if a phone was supplied) */
+    phone?: {
+        original: string;
+        e164: string | null;
+        inferredCountry: string | null;
+    };
+    /** Verification timestamp (ISO format) */
+    verifiedAt: string;
+}
+
+/**
+ * Interface defining a device linked to a merged visitor profile
+ * @interface LinkedDevice
+ */
+export interface LinkedDevice {
+    /** Visitor record representing the device */
+    visitorId: string;
+    /** Device category (desktop, mobile, tablet) */
+    deviceType: string;
+    /** Browser name */
+    browser: string;
+    /** Operating system */
+    os: string;
+    /** First visit from the device (ISO format) */
+    firstSeen: string;
+    /** Most recent visit from the device (ISO format) */
+    lastSeen: string;
+}
+
+/**
+ * Interface defining a recorded merge of two visitor records
+ * @interface VisitorMerge
+ */
+export interface VisitorMerge {
+    /** Unique merge identifier */
+    id: string;
+    /** Surviving visitor */
+    canonicalVisitorId: string;
+    /** Visitor folded into the canonical profile */
+    mergedVisitorId: string;
+    /** Types of identity keys that matched */
+    matchedKeys: Array<{ type: string; field?: string }>;
+    /** Merge timestamp (ISO format) */
+    mergedAt: string;
+}
+
+/**
+ * Interface defining a canonical visitor profile with its linked devices
+ * @interface VisitorProfile
+ */
+export interface VisitorProfile {
+    /** Canonical visitor record */
+    profile: Visitor;
+    /** Devices linked to the profile, canonical device first */
+    devices: LinkedDevice[];
+    /** Active merges into the profile */
+    merges: VisitorMerge[];
+}
+
+/**
+ * Interface defining a recorded change of a visitor's lead score
+ * @interface ScoreHistoryEntry
+ */
+export interface ScoreHistoryEntry {
+    /** Unique entry identifier */
+    id: string;
+    /** Scored visitor */
+    visitorId: string;
+    /** New score */
+    score: number;
+    /** Score before the change */
+    previousScore: number;
+    /** Points contributed by each scoring rule */
+    breakdown: Array<{ ruleId: string; points: number }>;
+    /** Scoring timestamp (ISO format) */
+    scoredAt: string;
+}
+
+/**
+ * Interface defining an activity within a visitor session
+ * @interface SessionActivity
+ */
+export interface SessionActivity {
+    /** Unique activity identifier */
+    id: string;
+    /** Activity type, e.g. PAGE_VIEW or CUSTOM_EVENT */
+    type: string;
+    /** Activity timestamp (ISO format) */
+    timestamp: string;
+    /** Page URL and the element, form, file or custom event involved */
+    data: {
+        url?: string;
+        elementId?: string;
+        formId?: string;
+        fileId?: string;
+        /** Registered event name of CUSTOM_EVENT activities */
+        eventName?: string;
+        properties?: Record<string, unknown>;
+        metadata?: Record<string, unknown>;
+    };
+}
+
+/**
+ * Interface defining a visitor session, activities separated by less than the inactivity timeout
+ * @interface VisitorSession
+ */
+export interface VisitorSession {
+    /** Unique session identifier */
+    id: string;
+    /** Visitor the session belongs to */
+    visitorId: string;
+    /** First activity timestamp (ISO format) */
+    startedAt: string;
+    /** Last activity timestamp (ISO format) */
+    endedAt: string;
+    /** Seconds between the first and last activity */
+    durationSeconds: number;
+    /** URL of the first page viewed */
+    landingPage: string | null;
+    /** URL of the last page viewed */
+    exitPage: string | null;
+    /** Number of page views */
+    pageCount: number;
+    /** Number of activities of any type */
+    activityCount: number;
+    /** Referrer the session arrived from */
+    referrer: string | null;
+    /** utm_source of the landing page */
+    utmSource: string | null;
+    /** Activities of the session, oldest first */
+    activities: SessionActivity[];
+}
+
+/**
+ * Interface defining a page of visitor sessions, most recent first
+ * @interface VisitorSessionPage
+ */
+export interface VisitorSessionPage {
+    sessions: VisitorSession[];
+    /** Cursor of the next page, absent on the last page */
+    nextCursor?: string;
+}
+
+/**
+ * Interface defining a page visited by an account's visitors
+ * @interface AccountPage
+ */
+export interface AccountPage {
+    /** Page URL */
+    url: string;
+    /** Number of visitors who viewed the page */
+    views: number;
+}
+
+/**
+ * Interface defining the engagement rollup of all visitors in one account
+ * @interface AccountSummary
+ */
+export interface AccountSummary {
+    /** Account domain visitors are grouped by */
+    domain: string;
+    /** Organization name (null if unknown) */
+    name: string | null;
+    /** Number of visitors in the account */
+    visitorCount: number;
+    /** Number of identified visitors in the account */
+    engagedPeople: number;
+    /** Total visits across visitors */
+    totalVisits: number;
+    /** Total time on site across visitors in seconds */
+    totalTimeSpent: number;
+    /** Highest lead score of the account's visitors */
+    topScore: number;
+    /** Earliest visit timestamp (ISO format) */
+    firstSeen: string;
+    /** Most recent visit timestamp (ISO format) */
+    lastSeen: string;
+    /** Most visited pages, most viewed first */
+    topPages: AccountPage[];
+}
+
+/**
+ * Field an account list can be sorted by
+ */
+export type AccountSortField = 'lastSeen' | 'visitorCount' | 'engagedPeople' | 'totalVisits' | 'totalTimeSpent';
+
+/**
+ * Interface defining account list options
+ * @interface AccountQuery
+ */
+export interface AccountQuery {
+    /** Page number */
+    page: number;
+    /** Accounts per page */
+    limit: number;
+    /** Sort field, descending */
+    sortBy?: AccountSortField;
+    /** Match on account domain or name */
+    search?: string;
+}
+
+/**
+ * Marketing channel a visitor's touch came through
+ */
+export type MarketingChannel = 'ORGANIC_SEARCH' | 'PAID_SEARCH' | 'SOCIAL' | 'EMAIL' | 'DIRECT' | 'REFERRAL';
+
+/**
+ * How a visitor's touches are credited: first touch, latest non-direct touch or equally across touches
+ */
+export type AttributionModel = 'FIRST_TOUCH' | 'LAST_TOUCH' | 'LINEAR';
+
+/**
+ * Interface defining the visitors credited to a channel or campaign
+ * Linear attribution splits credit across touches, so counts may be fractional
+ * @interface AttributionCredit
+ */
+export interface AttributionCredit {
+    /** Credited visitors */
+    visitors: number;
+    /** Credited identified visitors */
+    identified: number;
+    /** Credited visitors with enriched company data */
+    enriched: number;
+}
+
+/**
+ * Interface defining the visitors credited to a marketing channel
+ * @interface ChannelAttribution
+ */
+export interface ChannelAttribution extends AttributionCredit {
+    channel: MarketingChannel;
+}
+
+/**
+ * Interface defining the visitors credited to a campaign
+ * @interface CampaignAttribution
+ */
+export interface CampaignAttribution extends AttributionCredit {
+    channel: MarketingChannel;
+    /** utm_source, or the referrer domain when absent */
+    source: string | null;
+    /** utm_campaign */
+    campaign: string;
+}
+
+/**
+ * Interface defining a marketing attribution report
+ * @interface AttributionReport
+ */
+export interface AttributionReport {
+    model: AttributionModel;
+    /** Credit per channel, most visitors first */
+    channels: ChannelAttribution[];
+    /** Credit per campaign, most visitors first */
+    campaigns: CampaignAttribution[];
+}
+
+/**
+ * Visitor activity completing a conversion goal
+ */
+export type GoalType = 'PAGE_VISIT' | 'FORM_SUBMIT' | 'CUSTOM_EVENT';
+
+/**
+ * Visitor dimension a funnel report can be segmented by
+ */
+export type FunnelSegment = 'status' | 'industry';
+
+/**
+ * Interface defining a conversion goal defined in the company settings
+ * @interface GoalDefinition
+ */
+export interface GoalDefinition {
+    id: string;
+    name: string;
+    type: GoalType;
+    /** Text the page URL must contain */
+    urlPattern?: string;
+    /** Form completing form goals; any form when absent */
+    formId?: string;
+    /** Custom event completing custom event goals */
+    eventName?: string;
+}
+
+/**
+ * Interface defining an ordered sequence of goals reported as a funnel
+ * @interface FunnelDefinition
+ */
+export interface FunnelDefinition {
+    id: string;
+    name: string;
+    /** Goal IDs completed in order */
+    steps: string[];
+    /** Days visitors have to complete the funnel after entering it */
+    windowDays?: number;
+}
+
+/**
+ * Interface defining the goals and funnels of a company
+ * @interface GoalDefinitions
+ */
+export interface GoalDefinitions {
+    goals: GoalDefinition[];
+    funnels: FunnelDefinition[];
+}
+
+/**
+ * Interface defining the time range of goal and funnel reports
+ * @interface GoalReportRange
+ */
+export interface GoalReportRange {
+    /** Start of the range (ISO format) */
+    from?: string;
+    /** End of the range (ISO format) */
+    to?: string;
+}
+
+/**
+ * Interface defining the completions of one goal over a report range
+ * @interface GoalReportRow
+ */
+export interface GoalReportRow {
+    goalId: string;
+    name: string;
+    type: GoalType;
+    completions: number;
+    /** Distinct visitors completing the goal */
+    visitors: number;
+    /** Share of active visitors who completed the goal, 0-1 */
+    conversionRate: number;
+}
+
+/**
+ * Interface defining the completions of all goals over a report range
+ * @interface GoalReport
+ */
+export interface GoalReport {
+    from: string;
+    to: string;
+    /** Human visitors active in the range */
+    activeVisitors: number;
+    goals: GoalReportRow[];
+}
+
+/**
+ * Interface defining the visitors reaching one funnel step
+ * @interface FunnelStepReport
+ */
+export interface FunnelStepReport {
+    goalId: string;
+    name: string;
+    visitors: number;
+    /** Share of the visitors entering the funnel who reached the step, 0-1 */
+    conversionRate: number;
+    /** Visitors of the previous step lost at this step */
+    dropOff: number;
+    /** Share of the visitors of the previous step lost at this step, 0-1 */
+    dropOffRate: number;
+    medianSecondsFromPrevious: number | null;
+}
+
+/**
+ * Interface defining the funnel conversion of a group of visitors
+ * @interface FunnelConversion
+ */
+export interface FunnelConversion {
+    entered: number;
+    converted: number;
+    /** Share of the visitors entering the funnel who completed it, 0-1 */
+    conversionRate: number;
+    medianSecondsToConvert: number | null;
+    steps: FunnelStepReport[];
+}
+
+/**
+ * Interface defining the funnel conversion of a visitor segment
+ * @interface FunnelSegmentReport
+ */
+export interface FunnelSegmentReport extends FunnelConversion {
+    /** Visitor status or industry */
+    segment: string;
+}
+
+/**
+ * Interface defining a funnel conversion report
+ * @interface FunnelReport
+ */
+export interface FunnelReport extends FunnelConversion {
+    funnelId: string;
+    name: string;
+    from: string;
+    to: string;
+    windowDays: number;
+    segmentBy?: FunnelSegment;
+    /** Conversion per segment, largest first; present when segmented */
+    segments?: FunnelSegmentReport[];
+}
+
 /**
  * Interface defining visitor filtering and search options
  * @interface VisitorFilter
@@ -92,4 +717,10 @@ export interface VisitorFilter {
     };
     /** Search query string */
     search: string;
+    /** Minimum lead score */
+    minScore?: number;
+    /** Filter by ideal customer profile fit tier */
+    icpTier?: IcpFitTier[];
+    /** Sort order of the results */
+    sortBy?: 'lastSeen' | 'score';
 }
\ No newline at end of file